@@ -0,0 +1,101 @@
+import { test, expect, type Browser, type Page } from '@playwright/test'
+import { spawn, type ChildProcess } from 'child_process'
+
+/**
+ * Live co-editing: two browser contexts edit the same room through the
+ * local relay (tools/collab-relay.mjs) and must converge.
+ * The dev server is started with VITE_COLLAB_URL pointing at RELAY_PORT.
+ */
+
+const RELAY_PORT = 4455
+const isMac = process.platform === 'darwin'
+
+let relay: ChildProcess | null = null
+
+test.beforeAll(async () => {
+  relay = spawn(process.execPath, ['tools/collab-relay.mjs', '--port', String(RELAY_PORT)], { stdio: ['ignore', 'pipe', 'inherit'] })
+  await new Promise<void>((resolve, reject) => {
+    relay!.stdout!.once('data', () => resolve())
+    relay!.once('exit', code => reject(new Error(`collab relay exited with ${code}`)))
+  })
+})
+
+test.afterAll(() => {
+  relay?.kill()
+  relay = null
+})
+
+async function joinRoom(browser: Browser, room: string): Promise<Page> {
+  const context = await browser.newContext()
+  await context.addInitScript(() => {
+    localStorage.setItem('feature.collab', '1')
+  })
+  const page = await context.newPage()
+  await page.goto(`/#/canvas?room=${room}`)
+  await expect(page.locator('.react-flow')).toBeVisible({ timeout: 10000 })
+  await expect(page.locator('[data-testid="collab-presence"]')).toContainText('Live')
+  return page
+}
+
+const nodes = (page: Page) => page.locator('[data-testid="rf-node"]')
+
+test.describe('Canvas co-editing', () => {
+  test('two browsers converge on adds and deletes', async ({ browser }) => {
+    const room = `e2e-${Date.now()}`
+    const alice = await joinRoom(browser, room)
+    const bob = await joinRoom(browser, room)
+
+    const initialCount = await nodes(alice).count()
+    await expect(nodes(bob)).toHaveCount(initialCount)
+
+    // Alice duplicates a node, Bob sees it
+    await nodes(alice).first().click()
+    await alice.keyboard.press(isMac ? 'Meta+d' : 'Control+d')
+    await expect(nodes(alice)).toHaveCount(initialCount + 1)
+    await expect(nodes(bob)).toHaveCount(initialCount + 1)
+
+    // Bob deletes one, Alice sees it
+    await nodes(bob).last().click()
+    await bob.keyboard.press('Delete')
+    await expect(nodes(bob)).toHaveCount(initialCount)
+    await expect(nodes(alice)).toHaveCount(initialCount)
+  })
+
+  test('undo only reverts your own edit', async ({ browser }) => {
+    const room = `e2e-undo-${Date.now()}`
+    const alice = await joinRoom(browser, room)
+    const bob = await joinRoom(browser, room)
+    const initialCount = await nodes(alice).count()
+
+    await nodes(alice).first().click()
+    await alice.keyboard.press(isMac ? 'Meta+d' : 'Control+d')
+    await expect(nodes(bob)).toHaveCount(initialCount + 1)
+
+    await nodes(bob).first().click()
+    await bob.keyboard.press(isMac ? 'Meta+d' : 'Control+d')
+    await expect(nodes(alice)).toHaveCount(initialCount + 2)
+
+    // Alice undoes her duplicate; Bob's stays on both screens
+    await alice.locator('.react-flow__pane').click({ position: { x: 5, y: 5 } })
+    await alice.keyboard.press(isMac ? 'Meta+z' : 'Control+z')
+    await expect(nodes(alice)).toHaveCount(initialCount + 1)
+    await expect(nodes(bob)).toHaveCount(initialCount + 1)
+  })
+
+  test('shows the other person’s cursor and selection', async ({ browser }) => {
+    const room = `e2e-presence-${Date.now()}`
+    const alice = await joinRoom(browser, room)
+    const bob = await joinRoom(browser, room)
+
+    await expect(alice.locator('[data-testid="collab-presence"] span[title]')).toHaveCount(2)
+
+    const box = await bob.locator('.react-flow__pane').boundingBox()
+    await bob.mouse.move(box!.x + box!.width / 2, box!.y + box!.height / 2, { steps: 5 })
+    await expect(alice.locator('[data-testid="remote-cursor"]')).toHaveCount(1)
+
+    const target = bob.locator('.react-flow__node').first()
+    const id = await target.getAttribute('data-id')
+    await target.click()
+    await expect(alice.locator(`[data-testid="remote-selection-${id}"]`)).toBeVisible()
+  })
+})
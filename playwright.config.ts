@@ -28,6 +28,7 @@ export default defineConfig({
       VITE_FEATURE_HINTS: '1',
       VITE_SUPABASE_URL: 'http://localhost:54321',
       VITE_SUPABASE_ANON_KEY: 'test_anon_key',
+      VITE_COLLAB_URL: 'ws://127.0.0.1:4455', // e2e/canvas.collab.spec.ts starts the relay here
     },
     reuseExistingServer: true,
     timeout: 240_000,
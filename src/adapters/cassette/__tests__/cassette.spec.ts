@@ -0,0 +1,207 @@
+import { describe, it, expect, afterEach, vi } from 'vitest'
+import { startCassetteRecording } from '../recorder'
+import { installReplayFetch, parseCassette } from '../replay'
+import { createCassetteMatcher, hashBody } from '../match'
+import { routeFromCassette, type CassetteRoute } from '../playwright'
+import { runStream } from '../../plot/v1/sseClient'
+import { CASSETTE_VERSION, type Cassette } from '../types'
+
+/**
+ * Cassettes: record live traffic (redacted), replay it deterministically
+ */
+
+const sse = (blocks: string[]): Response => {
+  const encoder = new TextEncoder()
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      // Split mid-event to check the recorder re-assembles whole events
+      const text = blocks.join('')
+      controller.enqueue(encoder.encode(text.slice(0, 20)))
+      controller.enqueue(encoder.encode(text.slice(20)))
+      controller.close()
+    },
+  })
+  return new Response(stream, { status: 200, headers: { 'content-type': 'text/event-stream' } })
+}
+
+const flush = () => new Promise(resolve => setTimeout(resolve, 0))
+
+const originalFetch = globalThis.fetch
+const cleanups: Array<() => void> = []
+
+afterEach(() => {
+  while (cleanups.length) cleanups.pop()!()
+  globalThis.fetch = originalFetch
+})
+
+describe('cassette recorder', () => {
+  it('captures redacted request/response pairs and SSE events', async () => {
+    globalThis.fetch = vi.fn(async (input: RequestInfo | URL) => {
+      const url = String(input)
+      if (url.includes('/v1/stream')) {
+        return sse([
+          'event: started\ndata: {"run_id":"r-1"}\n\n',
+          'event: complete\ndata: {"result":{"summary":{"p50":0.5}},"token":"t-1"}\n\n',
+        ])
+      }
+      if (url.includes('/bff/cee/')) {
+        return new Response(JSON.stringify({ label: 'Should we launch?' }), { status: 200, headers: { 'content-type': 'application/json' } })
+      }
+      return new Response('asset')
+    }) as typeof fetch
+    const recorder = startCassetteRecording()
+    cleanups.push(recorder.stop)
+
+    await fetch('/bff/cee/assist/v1/draft-graph?key=abc', {
+      method: 'POST',
+      headers: { Authorization: 'Bearer secret', 'Content-Type': 'application/json' },
+      body: JSON.stringify({ brief: 'Should we launch?', api_key: 'k' }),
+    })
+    const streamed = await fetch('/bff/engine/v1/stream', { method: 'POST', body: '{"seed":1}' })
+    await streamed.text()
+    await fetch('/assets/logo.svg')
+    await flush()
+
+    const { entries } = recorder.cassette()
+    expect(entries.map(e => `${e.service} ${e.request.method} ${e.request.path}`)).toEqual([
+      'cee POST /bff/cee/assist/v1/draft-graph',
+      'plot POST /bff/engine/v1/stream',
+    ])
+
+    const [cee, stream] = entries
+    expect(cee.request.headers.authorization).toBe('[REDACTED]')
+    expect(cee.request.body).toEqual({ brief: 'Should we launch?', api_key: '[REDACTED]' })
+    expect(cee.response?.body).toEqual({ label: 'Should we launch?' })
+
+    expect(stream.response?.events?.map(e => e.data)).toEqual([
+      'event: started\ndata: {"run_id":"r-1"}',
+      'event: complete\ndata: {"result":{"summary":{"p50":0.5}},"token":"[REDACTED]"}',
+    ])
+  })
+})
+
+describe('cassette replay', () => {
+  const cassette: Cassette = {
+    version: CASSETTE_VERSION,
+    recordedAt: '2025-01-01T00:00:00.000Z',
+    entries: [
+      {
+        service: 'plot',
+        startedAt: 0,
+        latencyMs: 40,
+        request: { method: 'GET', path: '/bff/engine/v1/health', headers: {} },
+        response: { status: 200, statusText: 'OK', headers: { 'content-type': 'application/json' }, body: { status: 'ok' } },
+      },
+      {
+        service: 'plot',
+        startedAt: 50,
+        latencyMs: 80,
+        request: { method: 'POST', path: '/bff/engine/v1/stream', headers: {}, body: { seed: 2 }, bodyHash: hashBody('{"seed":2}') },
+        response: {
+          status: 200,
+          statusText: 'OK',
+          headers: { 'content-type': 'text/event-stream' },
+          events: [
+            { at: 10, data: 'event: started\ndata: {"run_id":"r-2"}' },
+            { at: 90, data: 'event: complete\ndata: {"result":{"summary":{"p50":0.7}}}' },
+          ],
+        },
+      },
+      {
+        service: 'isl',
+        startedAt: 200,
+        latencyMs: 5000,
+        request: { method: 'POST', path: '/bff/isl/validate', headers: {} },
+        error: 'Failed to fetch',
+      },
+    ],
+  }
+
+  it('serves recorded JSON, repeats polls and reports misses', async () => {
+    cleanups.push(installReplayFetch(cassette))
+
+    expect(await (await fetch('/bff/engine/v1/health')).json()).toEqual({ status: 'ok' })
+    expect(await (await fetch('https://app.test/bff/engine/v1/health?x=1')).json()).toEqual({ status: 'ok' })
+
+    const miss = await fetch('/bff/engine/v1/templates')
+    expect(miss.status).toBe(404)
+    expect((await miss.json()).code).toBe('CASSETTE_MISS')
+
+    await expect(fetch('/bff/isl/validate', { method: 'POST' })).rejects.toThrow('Failed to fetch')
+  })
+
+  it('replays an SSE run through the real stream client', async () => {
+    cleanups.push(installReplayFetch(cassette))
+    const handlers = {
+      onStarted: vi.fn(),
+      onProgress: vi.fn(),
+      onInterim: vi.fn(),
+      onComplete: vi.fn(),
+      onError: vi.fn(),
+    }
+
+    runStream({ graph: { nodes: [], edges: [] }, seed: 2 } as any, handlers)
+    await vi.waitFor(() => expect(handlers.onComplete).toHaveBeenCalled())
+
+    expect(handlers.onStarted).toHaveBeenCalledWith({ run_id: 'r-2' })
+    expect(handlers.onComplete.mock.calls[0][0].result.summary.p50).toBe(0.7)
+    expect(handlers.onError).not.toHaveBeenCalled()
+  })
+
+  it('prefers the entry whose body matches, in recording order', () => {
+    const body = (seed: number) => ({
+      service: 'plot' as const,
+      startedAt: 0,
+      latencyMs: 0,
+      request: { method: 'POST', path: '/bff/engine/v1/run', headers: {}, bodyHash: hashBody(`{"seed":${seed}}`) },
+      response: { status: 200, statusText: 'OK', headers: {}, body: { seed } },
+    })
+    const entries = [body(1), body(2), body(1)]
+    const match = createCassetteMatcher({ ...cassette, entries })
+    // Key order and whitespace do not affect the body hash
+    const request = (seed: number) => ({ method: 'POST', path: '/bff/engine/v1/run', bodyHash: hashBody(`{ "seed": ${seed} }`) })
+
+    expect(match(request(2))).toBe(entries[1])
+    expect(match(request(1))).toBe(entries[0])
+    expect(match(request(1))).toBe(entries[2])
+    // Exhausted: keep answering with the last entry served
+    expect(match(request(1))).toBe(entries[2])
+  })
+
+  it('answers a Playwright page from the cassette', async () => {
+    let handler!: (route: CassetteRoute) => Promise<void>
+    await routeFromCassette({ route: async (_url, h) => { handler = h } }, cassette)
+
+    const route = (method: string, url: string, postData: string | null = null) => {
+      const calls = { fulfill: vi.fn(async (_response: Parameters<CassetteRoute['fulfill']>[0]) => {}), fallback: vi.fn(async () => {}), abort: vi.fn(async () => {}) }
+      return { ...calls, request: () => ({ url: () => url, method: () => method, postData: () => postData }) }
+    }
+
+    const asset = route('GET', 'http://localhost:5177/assets/logo.svg')
+    await handler(asset)
+    expect(asset.fallback).toHaveBeenCalled()
+
+    const health = route('GET', 'http://localhost:5177/bff/engine/v1/health')
+    await handler(health)
+    expect(health.fulfill).toHaveBeenCalledWith({ status: 200, headers: { 'content-type': 'application/json' }, body: '{"status":"ok"}' })
+
+    const stream = route('POST', 'http://localhost:5177/bff/engine/v1/stream', '{"seed":2}')
+    await handler(stream)
+    expect(stream.fulfill.mock.calls[0][0]).toMatchObject({
+      body: 'event: started\ndata: {"run_id":"r-2"}\n\nevent: complete\ndata: {"result":{"summary":{"p50":0.7}}}\n\n',
+    })
+
+    const miss = route('GET', 'http://localhost:5177/bff/engine/v1/templates')
+    await handler(miss)
+    expect(miss.fulfill.mock.calls[0][0]).toMatchObject({ status: 404, body: expect.stringContaining('CASSETTE_MISS') })
+
+    const failed = route('POST', 'http://localhost:5177/bff/isl/validate')
+    await handler(failed)
+    expect(failed.abort).toHaveBeenCalledWith('failed')
+  })
+
+  it('rejects files that are not cassettes', () => {
+    expect(() => parseCassette({ entries: [] })).toThrow(/Unsupported cassette/)
+    expect(parseCassette(cassette)).toBe(cassette)
+  })
+})
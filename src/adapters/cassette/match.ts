@@ -0,0 +1,108 @@
+/**
+ * Request matching shared by the replay fetch and the Playwright route
+ *
+ * Kept free of import.meta / DOM globals so it also runs under Node.
+ */
+
+import type { Cassette, CassetteEntry, CassetteService } from './types'
+
+export type ServiceBases = Record<CassetteService, string>
+
+export const DEFAULT_SERVICE_BASES: ServiceBases = {
+  plot: '/bff/engine',
+  cee: '/bff/cee',
+  isl: '/bff/isl',
+}
+
+/**
+ * Path part of a URL: origin and query string dropped (queries can carry
+ * tokens, and the redacted cassette never stores them)
+ */
+export function toPath(url: string): string {
+  try {
+    return new URL(url, 'http://cassette.local').pathname
+  } catch {
+    return url.split('?')[0]
+  }
+}
+
+/**
+ * Which backend a path belongs to, or null for traffic we do not record
+ */
+export function classifyService(path: string, bases: ServiceBases = DEFAULT_SERVICE_BASES): CassetteService | null {
+  const services = Object.keys(bases) as CassetteService[]
+  return services.find(service => path.startsWith(toPath(bases[service]))) ?? null
+}
+
+const stableStringify = (value: unknown): string =>
+  JSON.stringify(value, (_key, v) =>
+    v && typeof v === 'object' && !Array.isArray(v)
+      ? Object.keys(v as Record<string, unknown>)
+          .sort()
+          .reduce<Record<string, unknown>>((acc, k) => {
+            acc[k] = (v as Record<string, unknown>)[k]
+            return acc
+          }, {})
+      : v
+  )
+
+/**
+ * Hash of a request body; JSON bodies are canonicalised so key order does
+ * not matter
+ */
+export function hashBody(body: string | undefined | null): string | undefined {
+  if (body == null || body === '') return undefined
+  let canonical = body
+  try {
+    canonical = stableStringify(JSON.parse(body))
+  } catch {
+    // Not JSON: hash the raw text
+  }
+  let h = 5381
+  for (let i = 0; i < canonical.length; i += 1) {
+    h = ((h << 5) + h) + canonical.charCodeAt(i)
+  }
+  return (h >>> 0).toString(16)
+}
+
+export type CassetteMatcher = (request: { method: string; path: string; bodyHash?: string }) => CassetteEntry | undefined
+
+/**
+ * Match requests to recorded entries in recording order
+ *
+ * Prefers an unused entry with the same method, path and body; then any
+ * unused entry for the method and path (bodies drift, e.g. timestamps); then
+ * the last entry used for that request, so repeated polls such as health
+ * checks keep getting an answer.
+ */
+export function createCassetteMatcher(cassette: Cassette): CassetteMatcher {
+  const used = new Set<number>()
+  const lastServed = new Map<string, number>()
+
+  return ({ method, path, bodyHash }) => {
+    const route = `${method.toUpperCase()} ${path}`
+    const candidates = cassette.entries
+      .map((entry, index) => ({ entry, index }))
+      .filter(({ entry }) => `${entry.request.method.toUpperCase()} ${entry.request.path}` === route)
+
+    const pick =
+      candidates.find(({ entry, index }) => !used.has(index) && entry.request.bodyHash === bodyHash) ??
+      candidates.find(({ index }) => !used.has(index))
+
+    if (pick) {
+      used.add(pick.index)
+      lastServed.set(route, pick.index)
+      return pick.entry
+    }
+
+    const previous = lastServed.get(route)
+    return previous === undefined ? undefined : cassette.entries[previous]
+  }
+}
+
+/**
+ * Re-assemble an SSE response body from recorded events
+ */
+export function eventsToText(events: { data: string }[]): string {
+  return events.map(event => `${event.data}\n\n`).join('')
+}
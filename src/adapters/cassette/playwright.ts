@@ -0,0 +1,56 @@
+/**
+ * Cassette replay for Playwright
+ *
+ * Routes a page's PLoT / CEE / ISL requests to a recorded cassette, so an e2e
+ * spec can re-run a user's session against the real app:
+ *
+ *   await routeFromCassette(page, parseCassette(JSON.parse(readFileSync(file, 'utf8'))))
+ *
+ * SSE responses are fulfilled in one go; event timing only matters for the
+ * in-app replay adapter. Page and route are typed by the parts used here, so
+ * this module needs no Playwright types and runs under Vitest too.
+ */
+
+import { createCassetteMatcher, classifyService, eventsToText, hashBody, toPath, DEFAULT_SERVICE_BASES, type ServiceBases } from './match'
+import type { Cassette } from './types'
+
+export interface CassetteRoute {
+  request(): { url(): string; method(): string; postData(): string | null }
+  fallback(): Promise<void>
+  abort(errorCode?: string): Promise<void>
+  fulfill(response: { status: number; headers?: Record<string, string>; contentType?: string; body: string }): Promise<void>
+}
+
+export interface CassettePage {
+  route(url: string, handler: (route: CassetteRoute) => Promise<void>): Promise<void>
+}
+
+export async function routeFromCassette(
+  page: CassettePage,
+  cassette: Cassette,
+  bases: ServiceBases = DEFAULT_SERVICE_BASES
+): Promise<void> {
+  const match = createCassetteMatcher(cassette)
+  await page.route('**/*', async (route) => {
+    const request = route.request()
+    const path = toPath(request.url())
+    if (!classifyService(path, bases)) return route.fallback()
+
+    const entry = match({ method: request.method(), path, bodyHash: hashBody(request.postData()) })
+    if (!entry) {
+      return route.fulfill({
+        status: 404,
+        contentType: 'application/json',
+        body: JSON.stringify({ schema: 'error.v1', code: 'CASSETTE_MISS', error: `No recorded response for ${request.method()} ${path}` }),
+      })
+    }
+    if (!entry.response) return route.abort('failed')
+
+    const { status, headers, body, events } = entry.response
+    await route.fulfill({
+      status,
+      headers,
+      body: events ? eventsToText(events) : body === undefined ? '' : typeof body === 'string' ? body : JSON.stringify(body),
+    })
+  })
+}
@@ -0,0 +1,188 @@
+/**
+ * Cassette recorder
+ *
+ * Wraps window.fetch and captures every PLoT / CEE / ISL request with its
+ * response, or its SSE event sequence, plus timing. Headers and bodies go
+ * through lib/redact before they are stored. Enable with
+ * VITE_CASSETTE_RECORD=1; the Debug Tray can then download the cassette.
+ */
+
+import { redact } from '../../lib/redact'
+import { classifyService, hashBody, toPath, type ServiceBases } from './match'
+import {
+  CASSETTE_VERSION,
+  type Cassette,
+  type CassetteEntry,
+  type CassetteEvent,
+} from './types'
+
+/** Stop recording after this many entries so a long session cannot exhaust memory */
+const MAX_ENTRIES = 500
+
+export interface CassetteRecorder {
+  /** Snapshot of everything recorded so far */
+  cassette: () => Cassette
+  /** Restore the original fetch */
+  stop: () => void
+  /** Save the cassette as a JSON file */
+  download: (filename?: string) => void
+}
+
+declare global {
+  interface Window {
+    __OLUMI_CASSETTE__?: CassetteRecorder
+  }
+}
+
+const getServiceBases = (): ServiceBases => ({
+  plot: import.meta.env.VITE_PLOT_PROXY_BASE || '/bff/engine',
+  cee: import.meta.env.VITE_CEE_BFF_BASE || '/bff/cee',
+  isl: import.meta.env.VITE_ISL_BFF_BASE || '/bff/isl',
+})
+
+const headersToRecord = (headers: HeadersInit | Headers | undefined): Record<string, string> => {
+  const out: Record<string, string> = {}
+  if (!headers) return out
+  new Headers(headers).forEach((value, key) => {
+    out[key] = value
+  })
+  return redact(out)
+}
+
+/** Parse JSON when possible so redaction can see keys; otherwise keep the text */
+const bodyToRecord = (text: string | undefined): unknown => {
+  if (text == null || text === '') return undefined
+  try {
+    return redact(JSON.parse(text), { preserveText: true })
+  } catch {
+    return redact(text, { preserveText: true })
+  }
+}
+
+/** Redact the JSON payload on each data: line of an SSE event block */
+const redactEvent = (block: string): string =>
+  block
+    .split('\n')
+    .map((line) => {
+      if (!line.startsWith('data:')) return line
+      const payload = line.slice(5).trim()
+      try {
+        return `data: ${JSON.stringify(redact(JSON.parse(payload), { preserveText: true }))}`
+      } catch {
+        return line
+      }
+    })
+    .join('\n')
+
+async function readEvents(response: Response, startedAt: number): Promise<CassetteEvent[]> {
+  const events: CassetteEvent[] = []
+  if (!response.body) return events
+
+  const reader = response.body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+  for (;;) {
+    const { done, value } = await reader.read()
+    if (value) buffer += decoder.decode(value, { stream: true })
+    const blocks = buffer.split(/\r?\n\r?\n/)
+    buffer = done ? '' : blocks.pop() ?? ''
+    const at = Math.round(performance.now() - startedAt)
+    for (const block of blocks) {
+      if (block.trim()) events.push({ at, data: redactEvent(block) })
+    }
+    if (done) return events
+  }
+}
+
+/**
+ * Start recording. Calling again while a recorder is active returns it.
+ */
+export function startCassetteRecording(options: { bases?: ServiceBases } = {}): CassetteRecorder {
+  if (window.__OLUMI_CASSETTE__) return window.__OLUMI_CASSETTE__
+
+  const bases = options.bases ?? getServiceBases()
+  const nativeFetch = window.fetch
+  const originalFetch = nativeFetch.bind(window)
+  const recordingStart = performance.now()
+  const entries: CassetteEntry[] = []
+  const recordedAt = new Date().toISOString()
+
+  const recordingFetch: typeof fetch = async (input, init) => {
+    const source = input instanceof Request ? input : undefined
+    const url = typeof input === 'string' ? input : input instanceof URL ? input.href : input.url
+    const path = toPath(url)
+    const service = classifyService(path, bases)
+    if (!service || entries.length >= MAX_ENTRIES) return originalFetch(input, init)
+
+    // Every client here sends JSON strings; other body types are not recorded
+    const requestText = typeof init?.body === 'string' ? init.body : undefined
+    const startedAt = performance.now()
+    const entry: CassetteEntry = {
+      service,
+      startedAt: Math.round(startedAt - recordingStart),
+      latencyMs: 0,
+      request: {
+        method: (init?.method ?? source?.method ?? 'GET').toUpperCase(),
+        path,
+        headers: headersToRecord(init?.headers ?? source?.headers),
+        body: bodyToRecord(requestText),
+        bodyHash: hashBody(requestText),
+      },
+    }
+    entries.push(entry)
+
+    let response: Response
+    try {
+      response = await originalFetch(input, init)
+    } catch (error) {
+      entry.latencyMs = Math.round(performance.now() - startedAt)
+      entry.error = (error as Error)?.message ?? String(error)
+      throw error
+    }
+
+    const headersAt = performance.now()
+    entry.latencyMs = Math.round(headersAt - startedAt)
+    entry.response = {
+      status: response.status,
+      statusText: response.statusText,
+      headers: headersToRecord(response.headers),
+    }
+
+    // Read a clone in the background so the caller's stream is untouched
+    const copy = response.clone()
+    const recorded = entry.response
+    if ((response.headers.get('content-type') ?? '').includes('text/event-stream')) {
+      readEvents(copy, headersAt)
+        .then((events) => { recorded.events = events })
+        .catch(() => { recorded.events = recorded.events ?? [] })
+    } else {
+      copy.text()
+        .then((text) => { recorded.body = bodyToRecord(text) })
+        .catch(() => {})
+    }
+
+    return response
+  }
+
+  window.fetch = recordingFetch
+
+  const recorder: CassetteRecorder = {
+    cassette: () => JSON.parse(JSON.stringify({ version: CASSETTE_VERSION, recordedAt, entries })) as Cassette,
+    stop: () => {
+      if (window.fetch === recordingFetch) window.fetch = nativeFetch
+      if (window.__OLUMI_CASSETTE__ === recorder) delete window.__OLUMI_CASSETTE__
+    },
+    download: (filename = `olumi-cassette-${recordedAt.replace(/[:.]/g, '-')}.json`) => {
+      const blob = new Blob([JSON.stringify(recorder.cassette(), null, 2)], { type: 'application/json' })
+      const url = URL.createObjectURL(blob)
+      const link = document.createElement('a')
+      link.href = url
+      link.download = filename
+      link.click()
+      URL.revokeObjectURL(url)
+    },
+  }
+
+  window.__OLUMI_CASSETTE__ = recorder
+  return recorder
+}
@@ -0,0 +1,143 @@
+/**
+ * Cassette replay
+ *
+ * A fetch replacement that answers PLoT / CEE / ISL requests from a recorded
+ * cassette, including SSE streams event by event, so a user's broken session
+ * can be re-run deterministically. Other traffic goes to the real fetch.
+ *
+ * - Vitest: installReplayFetch(cassette) in the test, uninstall in cleanup
+ * - App: VITE_PLOT_ADAPTER=replay with VITE_PLOT_CASSETTE=/cassettes/bug.json
+ * - Playwright: routeFromCassette (./playwright) on the page
+ */
+
+import {
+  createCassetteMatcher,
+  classifyService,
+  eventsToText,
+  hashBody,
+  toPath,
+  DEFAULT_SERVICE_BASES,
+  type ServiceBases,
+} from './match'
+import { CASSETTE_VERSION, type Cassette, type CassetteEntry } from './types'
+
+export interface ReplayOptions {
+  bases?: ServiceBases
+  /** Reproduce recorded latency and SSE event spacing (default: replay instantly) */
+  realtime?: boolean
+  /** Fetch used for requests outside the recorded services */
+  passthrough?: typeof fetch
+}
+
+const wait = (ms: number, signal?: AbortSignal | null): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(new DOMException('Aborted', 'AbortError'))
+    const timer = setTimeout(resolve, Math.max(0, ms))
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer)
+      reject(new DOMException('Aborted', 'AbortError'))
+    }, { once: true })
+  })
+
+const missResponse = (method: string, path: string): Response =>
+  new Response(
+    JSON.stringify({
+      schema: 'error.v1',
+      code: 'CASSETTE_MISS',
+      error: `No recorded response for ${method} ${path}`,
+    }),
+    { status: 404, statusText: 'Cassette Miss', headers: { 'content-type': 'application/json' } }
+  )
+
+function toResponse(entry: CassetteEntry, realtime: boolean, signal?: AbortSignal | null): Response {
+  const recorded = entry.response!
+  const init = { status: recorded.status, statusText: recorded.statusText, headers: recorded.headers }
+
+  // Null-body statuses cannot carry a body
+  if (recorded.status === 204 || recorded.status === 304) return new Response(null, init)
+
+  if (recorded.events) {
+    const events = recorded.events
+    const encoder = new TextEncoder()
+    const stream = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        try {
+          let previous = 0
+          for (const event of events) {
+            if (realtime) await wait(event.at - previous, signal)
+            previous = event.at
+            controller.enqueue(encoder.encode(eventsToText([event])))
+          }
+          controller.close()
+        } catch (error) {
+          controller.error(error)
+        }
+      },
+    })
+    return new Response(stream, init)
+  }
+
+  const body = recorded.body === undefined
+    ? null
+    : typeof recorded.body === 'string' ? recorded.body : JSON.stringify(recorded.body)
+  return new Response(body, init)
+}
+
+/**
+ * Build a fetch that replays from a cassette (or a promise of one, so the
+ * app can install it before the cassette file has loaded)
+ */
+export function createReplayFetch(source: Cassette | Promise<Cassette>, options: ReplayOptions = {}): typeof fetch {
+  const bases = options.bases ?? DEFAULT_SERVICE_BASES
+  const passthrough = options.passthrough ?? globalThis.fetch.bind(globalThis)
+  const matcher = Promise.resolve(source).then(createCassetteMatcher)
+
+  return async (input, init) => {
+    const url = typeof input === 'string' ? input : input instanceof URL ? input.href : input.url
+    const path = toPath(url)
+    if (!classifyService(path, bases)) return passthrough(input, init)
+
+    const method = (init?.method ?? (input instanceof Request ? input.method : 'GET')).toUpperCase()
+    const bodyHash = hashBody(typeof init?.body === 'string' ? init.body : undefined)
+    const entry = (await matcher)({ method, path, bodyHash })
+
+    if (!entry) {
+      console.warn(`[cassette] No recorded response for ${method} ${path}`)
+      return missResponse(method, path)
+    }
+
+    if (options.realtime) await wait(entry.latencyMs, init?.signal)
+    if (init?.signal?.aborted) throw new DOMException('Aborted', 'AbortError')
+    if (!entry.response) throw new TypeError(entry.error ?? 'Failed to fetch')
+    return toResponse(entry, options.realtime === true, init?.signal)
+  }
+}
+
+/**
+ * Replace the global fetch with a replaying one. Returns an uninstall function.
+ */
+export function installReplayFetch(source: Cassette | Promise<Cassette>, options: ReplayOptions = {}): () => void {
+  const original = globalThis.fetch
+  const replayFetch = createReplayFetch(source, { passthrough: original.bind(globalThis), ...options })
+  globalThis.fetch = replayFetch
+  return () => {
+    if (globalThis.fetch === replayFetch) globalThis.fetch = original
+  }
+}
+
+export function parseCassette(raw: unknown): Cassette {
+  const cassette = raw as Partial<Cassette> | null
+  if (!cassette || cassette.version !== CASSETTE_VERSION || !Array.isArray(cassette.entries)) {
+    throw new Error(`Unsupported cassette: expected version ${CASSETTE_VERSION} with entries`)
+  }
+  return cassette as Cassette
+}
+
+/**
+ * Fetch and validate a cassette file (served from public/ or a dev URL)
+ */
+export async function loadCassette(url: string, fetchImpl: typeof fetch = globalThis.fetch.bind(globalThis)): Promise<Cassette> {
+  const response = await fetchImpl(url)
+  if (!response.ok) throw new Error(`Failed to load cassette ${url}: ${response.status}`)
+  return parseCassette(await response.json())
+}
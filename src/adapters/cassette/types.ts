@@ -0,0 +1,58 @@
+/**
+ * Cassette format for recorded PLoT / CEE / ISL traffic
+ *
+ * A cassette is plain JSON so it can be attached to a bug report, committed
+ * under a test's fixtures and loaded by Vitest (installReplayFetch) or
+ * Playwright (routeFromCassette). Secrets are redacted at record time.
+ */
+
+export const CASSETTE_VERSION = 1
+
+export type CassetteService = 'plot' | 'cee' | 'isl'
+
+export interface CassetteRequest {
+  method: string
+  /** Path without origin or query string, e.g. /bff/engine/v1/run */
+  path: string
+  headers: Record<string, string>
+  /** Redacted JSON body (or raw text when the body is not JSON) */
+  body?: unknown
+  /** Hash of the un-redacted body, used to match replays to the right entry */
+  bodyHash?: string
+}
+
+/** One server-sent event block (everything up to the blank line) */
+export interface CassetteEvent {
+  /** ms since the response headers arrived */
+  at: number
+  data: string
+}
+
+export interface CassetteResponse {
+  status: number
+  statusText: string
+  headers: Record<string, string>
+  /** Non-streaming body (redacted JSON or raw text) */
+  body?: unknown
+  /** text/event-stream responses are stored as their event sequence */
+  events?: CassetteEvent[]
+}
+
+export interface CassetteEntry {
+  service: CassetteService
+  /** ms since recording started */
+  startedAt: number
+  /** ms until the response headers arrived */
+  latencyMs: number
+  request: CassetteRequest
+  /** Absent when the request failed at the network level */
+  response?: CassetteResponse
+  /** Network error message (e.g. "Failed to fetch") */
+  error?: string
+}
+
+export interface Cassette {
+  version: typeof CASSETTE_VERSION
+  recordedAt: string
+  entries: CassetteEntry[]
+}
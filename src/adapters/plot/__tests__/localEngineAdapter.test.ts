@@ -0,0 +1,211 @@
+import { describe, it, expect } from 'vitest'
+import { localEngineAdapter } from '../localEngineAdapter'
+import { runLocalEngine, compileGraph, createSampler } from '../local/engine'
+import type { RunRequest, ReportV1, ErrorV1, InterimResultV1 } from '../types'
+
+/**
+ * Local Monte Carlo adapter: determinism and contract tests
+ */
+
+const graph: NonNullable<RunRequest['graph']> = {
+  nodes: [
+    { id: 'decision', data: { label: 'Pricing strategy', kind: 'decision' } },
+    { id: 'opt-premium', data: { label: 'Premium tier', kind: 'option', prior: 0.6 } },
+    { id: 'opt-budget', data: { label: 'Budget tier', kind: 'option', prior: 0.4 } },
+    { id: 'demand', data: { label: 'Demand', kind: 'factor', prior: 0.5 } },
+    { id: 'churn', data: { label: 'Churn risk', kind: 'risk', prior: 0.3 } },
+    { id: 'revenue', data: { label: 'Revenue', kind: 'outcome', prior: 0.5, utility: 1 } },
+  ],
+  edges: [
+    { id: 'e1', source: 'opt-premium', target: 'demand', data: { weight: -0.4, belief: 0.7 } },
+    { id: 'e2', source: 'opt-budget', target: 'demand', data: { weight: 0.6, belief: 0.8 } },
+    { id: 'e3', source: 'demand', target: 'revenue', data: { weight: 0.8, belief: 0.9 } },
+    { id: 'e4', source: 'churn', target: 'revenue', data: { weight: -0.5, belief: 0.5 } },
+    { id: 'e5', source: 'opt-premium', target: 'revenue', data: { weight: 0.5, belief: 0.6 } },
+  ],
+}
+
+const request = (seed: number): RunRequest => ({ template_id: 'canvas-graph', seed, graph })
+
+const streamRun = (input: RunRequest) =>
+  new Promise<{ report: ReportV1; ticks: number[]; interims: InterimResultV1[] }>((resolve, reject) => {
+    const ticks: number[] = []
+    const interims: InterimResultV1[] = []
+    localEngineAdapter.stream.run(input, {
+      onHello: () => {},
+      onTick: ({ index }) => ticks.push(index),
+      onInterim: (data) => interims.push(data),
+      onDone: ({ report }) => resolve({ report, ticks, interims }),
+      onError: (error: ErrorV1) => reject(new Error(`${error.code}: ${error.error}`)),
+    })
+  })
+
+describe('localEngineAdapter.run', () => {
+  it('returns a bit-identical report for the same graph and seed', async () => {
+    const a = await localEngineAdapter.run(request(42))
+    const b = await localEngineAdapter.run(request(42))
+
+    expect(JSON.stringify(a)).toBe(JSON.stringify(b))
+    expect(a.model_card.response_hash).toMatch(/^[a-f0-9]{64}$/)
+  })
+
+  it('changes the response hash when the seed changes', async () => {
+    const a = await localEngineAdapter.run(request(42))
+    const b = await localEngineAdapter.run(request(43))
+
+    expect(a.model_card.response_hash).not.toBe(b.model_card.response_hash)
+  })
+
+  it('returns ordered bands mirrored into the canonical run', async () => {
+    const report = await localEngineAdapter.run(request(7))
+
+    expect(report.schema).toBe('report.v1')
+    expect(report.results.conservative).toBeLessThanOrEqual(report.results.likely)
+    expect(report.results.likely).toBeLessThanOrEqual(report.results.optimistic)
+    expect(report.run?.bands).toEqual({
+      p10: report.results.conservative,
+      p50: report.results.likely,
+      p90: report.results.optimistic,
+    })
+    expect(report.decision_readiness?.confidence).toBe(report.confidence.level)
+  })
+
+  it('ranks drivers by contribution with node ids for highlighting', async () => {
+    const report = await localEngineAdapter.run(request(7))
+
+    expect(report.drivers.length).toBeGreaterThan(0)
+    const contributions = report.drivers.map(d => d.contribution ?? 0)
+    expect(contributions).toEqual([...contributions].sort((a, b) => b - a))
+    expect(report.drivers.every(d => typeof d.nodeId === 'string')).toBe(true)
+    expect(report.drivers.find(d => d.nodeId === 'churn')?.polarity).toBe('down')
+  })
+
+  it('ignores node and edge array order', async () => {
+    const shuffled: RunRequest = {
+      ...request(42),
+      graph: { nodes: [...graph.nodes].reverse(), edges: [...graph.edges].reverse() },
+    }
+
+    const a = await localEngineAdapter.run(request(42))
+    const b = await localEngineAdapter.run(shuffled)
+
+    expect(b.results).toEqual(a.results)
+  })
+
+  it('rejects cyclic graphs with BAD_INPUT', async () => {
+    const cyclic: RunRequest = {
+      template_id: 'canvas-graph',
+      graph: {
+        nodes: [{ id: 'a', data: { label: 'A' } }, { id: 'b', data: { label: 'B' } }],
+        edges: [
+          { id: 'ab', source: 'a', target: 'b' },
+          { id: 'ba', source: 'b', target: 'a' },
+        ],
+      },
+    }
+
+    await expect(localEngineAdapter.run(cyclic)).rejects.toMatchObject({
+      schema: 'error.v1',
+      code: 'BAD_INPUT',
+    })
+  })
+
+  it('runs template fixtures when no graph is supplied', async () => {
+    const report = await localEngineAdapter.run({ template_id: 'pricing-v1' })
+
+    expect(report.meta.seed).toBe(1337)
+    expect(report.results.likely).toBeGreaterThanOrEqual(0)
+  })
+})
+
+describe('localEngineAdapter.stream', () => {
+  it('produces the same report as run() and ticks once per batch', async () => {
+    const { report, ticks } = await streamRun(request(42))
+    const sync = await localEngineAdapter.run(request(42))
+
+    expect(JSON.stringify(report)).toBe(JSON.stringify(sync))
+    expect(ticks).toEqual([0, 1, 2, 3, 4])
+  })
+
+  it('emits an interim estimate per batch that converges on the final bands', async () => {
+    const { report, interims } = await streamRun(request(42))
+
+    expect(interims.map(i => i.samples)).toEqual([400, 800, 1200, 1600, 2000])
+    expect(interims.every(i => i.target_samples === 2000)).toBe(true)
+
+    const last = interims[interims.length - 1]
+    expect(last.bands.p10).toBeLessThanOrEqual(last.bands.p50)
+    expect(last.bands.p50).toBeLessThanOrEqual(last.bands.p90)
+    expect(last.bands.p50).toBeCloseTo(report.results.likely, 6)
+    expect(last.histogram?.counts.reduce((sum, n) => sum + n, 0)).toBe(2000)
+  })
+})
+
+describe('localEngineAdapter.runBundle', () => {
+  it('ranks options by p50 and reports deltas from the baseline', async () => {
+    const response = await localEngineAdapter.runBundle({
+      base_graph: {
+        nodes: graph.nodes.map(n => ({ id: n.id, label: n.data?.label, ...n.data })),
+        edges: graph.edges.map(e => ({ id: e.id, source: e.source, target: e.target, ...e.data })),
+      },
+      deltas: [
+        { name: 'Premium', modifications: { selected_option: 'opt-premium' } },
+        { name: 'Budget', modifications: { selected_option: 'opt-budget' } },
+      ],
+      include_ranking: true,
+      baseline_index: 0,
+    })
+
+    expect(response.results.map(r => r.rank)).toEqual([1, 2])
+    expect(response.results[0].summary.p50).toBeGreaterThanOrEqual(response.results[1].summary.p50)
+    expect(response.ranking_summary?.winner).toBe(response.results[0].label)
+    const premium = response.results.find(r => r.label === 'Premium')!
+    expect(premium.delta_from_baseline?.p50).toBe(0)
+  })
+})
+
+describe('local engine', () => {
+  it('yields identical summaries whether samples are drawn at once or in batches', () => {
+    const once = runLocalEngine(graph, { seed: 9, samples: 500 })
+
+    const sampler = createSampler(compileGraph(graph), 9)
+    sampler.draw(120)
+    sampler.draw(380)
+
+    expect(sampler.summarise()).toEqual(once)
+    expect(once.samples).toBe(500)
+  })
+
+  it('treats a point distribution exactly like the scalar prior', () => {
+    const withPoints = {
+      ...graph,
+      nodes: graph.nodes.map(n => (typeof n.data?.prior === 'number'
+        ? { ...n, data: { ...n.data, prior: undefined, distribution: { kind: 'point', value: n.data.prior } } }
+        : n)),
+    }
+    expect(runLocalEngine(withPoints, { seed: 9 })).toEqual(runLocalEngine(graph, { seed: 9 }))
+  })
+
+  it('widens the bands when a root node carries a wide distribution', () => {
+    const spread = {
+      ...graph,
+      nodes: graph.nodes.map(n => (n.id === 'churn'
+        ? { ...n, data: { ...n.data, distribution: { kind: 'uniform', min: 0, max: 1 } } }
+        : n)),
+    }
+    const width = (s: { bands: { p10: number; p90: number } }) => s.bands.p90 - s.bands.p10
+    expect(width(runLocalEngine(spread, { seed: 9 }))).toBeGreaterThan(width(runLocalEngine(graph, { seed: 9 })))
+  })
+
+  it('widens the bands when edge belief drops', () => {
+    const lowBelief = {
+      ...graph,
+      edges: graph.edges.map(e => ({ ...e, data: { ...e.data, belief: 0.1 } })),
+    }
+
+    const confident = runLocalEngine(graph, { seed: 9 })
+    const uncertain = runLocalEngine(lowBelief, { seed: 9 })
+
+    expect(uncertain.bands.p90 - uncertain.bands.p10).toBeGreaterThan(confident.bands.p90 - confident.bands.p10)
+  })
+})
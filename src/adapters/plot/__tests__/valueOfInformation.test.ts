@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest'
+import { computeValueOfInformation, findDecisionOptions } from '../local/valueOfInformation'
+import type { ReactFlowGraph } from '../v1/mapper'
+
+/**
+ * EVPI / EVPPI on the local engine
+ */
+
+const node = (id: string, kind: string, extra: Record<string, unknown> = {}) => ({
+  id,
+  data: { label: id, kind, ...extra },
+})
+
+// Two close options. How hard Premium drives churn is very uncertain
+// (belief 0), so learning churn tells you which option wins; noise does not.
+const graph: ReactFlowGraph = {
+  nodes: [
+    node('decision', 'decision'),
+    node('premium', 'option'),
+    node('budget', 'option'),
+    node('churn', 'risk', { prior: 0.3 }),
+    node('noise', 'factor'),
+    node('revenue', 'outcome', { utility: 1 }),
+  ],
+  edges: [
+    { id: 'd1', source: 'decision', target: 'premium' },
+    { id: 'd2', source: 'decision', target: 'budget' },
+    { id: 'e1', source: 'premium', target: 'revenue', data: { weight: 0.9, belief: 0.9 } },
+    { id: 'e2', source: 'budget', target: 'revenue', data: { weight: 0.5, belief: 0.9 } },
+    { id: 'e3', source: 'premium', target: 'churn', data: { weight: 0.9, belief: 0 } },
+    { id: 'e4', source: 'churn', target: 'revenue', data: { weight: -0.6, belief: 0.9 } },
+    { id: 'e5', source: 'noise', target: 'revenue', data: { weight: 0.3, belief: 0.9 } },
+  ],
+}
+
+describe('findDecisionOptions', () => {
+  it('returns the options hanging off the decision node', () => {
+    expect(findDecisionOptions(graph)).toEqual(['budget', 'premium'])
+  })
+})
+
+describe('computeValueOfInformation', () => {
+  const optionIds = findDecisionOptions(graph)
+
+  it('is deterministic for a seed', () => {
+    const a = computeValueOfInformation(graph, { seed: 1337, optionIds })
+    const b = computeValueOfInformation(graph, { seed: 1337, optionIds })
+
+    expect(a).toEqual(b)
+  })
+
+  it('ranks the uncertainty that decides between options first', () => {
+    const voi = computeValueOfInformation(graph, { seed: 1337, optionIds })
+
+    expect(voi.evpi).toBeGreaterThan(0)
+    expect(voi.factors.map(f => f.nodeId)).toEqual(['churn', 'noise'])
+    expect(voi.factors[0].shareOfEvpi).toBeGreaterThan(0.5)
+    expect(voi.factors.every(f => f.evppi <= voi.evpi)).toBe(true)
+  })
+
+  it('measures value against the incumbent option when one is given', () => {
+    const best = computeValueOfInformation(graph, { seed: 1337, optionIds })
+    const worst = best.options.find(o => o.nodeId !== best.incumbentOptionId)!.nodeId
+    const pinned = computeValueOfInformation(graph, { seed: 1337, optionIds, incumbentOptionId: worst })
+
+    expect(pinned.incumbentOptionId).toBe(worst)
+    expect(pinned.evpi).toBeGreaterThanOrEqual(best.evpi)
+  })
+
+  it('is zero when a single option dominates in every sample', () => {
+    const dominated: ReactFlowGraph = {
+      nodes: graph.nodes,
+      edges: graph.edges
+        .filter(e => e.id !== 'e3')
+        .map(e => (e.id === 'e2' ? { ...e, data: { weight: -0.9, belief: 1 } } : e)),
+    }
+
+    const voi = computeValueOfInformation(dominated, { seed: 1337, optionIds })
+
+    expect(voi.evpi).toBe(0)
+    expect(voi.factors.every(f => f.evppi === 0)).toBe(true)
+  })
+})
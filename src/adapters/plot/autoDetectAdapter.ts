@@ -12,6 +12,8 @@ import type {
   TemplateListV1,
   TemplateDetail,
   LimitsFetch,
+  RunBundleRequest,
+  RunBundleResponse,
 } from './types'
 import { httpV1Adapter } from './httpV1Adapter'
 import { probeCapability, clearProbeCache, type ProbeResult } from './v1/probe'
@@ -105,6 +107,18 @@ export const autoDetectAdapter = {
     throw new BackendUnavailableError(errorMsg, probe, 'run')
   },
 
+  async runBundle(request: RunBundleRequest): Promise<RunBundleResponse> {
+    const probe = await getProbeResult();
+
+    if (probe.available) {
+      return httpV1Adapter.runBundle(request);
+    }
+
+    const errorMsg = createBackendErrorMessage(probe, 'run option bundle')
+    console.error('[AutoDetect]', errorMsg)
+    throw new BackendUnavailableError(errorMsg, probe, 'runBundle')
+  },
+
   async templates(): Promise<TemplateListV1> {
     const probe = await getProbeResult();
 
@@ -15,6 +15,7 @@ import type {
   ConfidenceLevel,
   RunBundleRequest,
   RunBundleResponse,
+  InterimResultV1,
 } from './types'
 import type {
   V1RunRequest,
@@ -102,7 +103,7 @@ function mapConfidenceLevel(conf: number): ConfidenceLevel {
  * @param level - Backend confidence level ('high', 'medium', 'low')
  * @returns Canonical DecisionReadiness object
  */
-function mapConfidenceToDecisionReadiness(level: ConfidenceLevel): ReportV1['decision_readiness'] {
+export function mapConfidenceToDecisionReadiness(level: ConfidenceLevel): ReportV1['decision_readiness'] {
   const normalizedLevel = level.toLowerCase() as 'high' | 'medium' | 'low'
 
   return {
@@ -705,7 +706,7 @@ export const httpV1Adapter = {
           data: { label: n.label, ...n },
         })),
         edges: request.base_graph.edges.map(e => ({
-          id: `${e.source}-${e.target}`,
+          id: typeof e.id === 'string' ? e.id : `${e.source}-${e.target}`,
           source: e.source,
           target: e.target,
           data: { ...e },
@@ -721,6 +722,7 @@ export const httpV1Adapter = {
         include_change_attribution: request.include_change_attribution,
         baseline_index: request.baseline_index,
         sort_by: request.sort_by,
+        ...(request.outcome_node ? { outcome_node: request.outcome_node } : {}),
       }
 
       if (import.meta.env.DEV) {
@@ -769,6 +771,7 @@ export const httpV1Adapter = {
       handlers: {
         onHello: (data: { response_id: string }) => void
         onTick: (data: { index: number }) => void
+        onInterim?: (data: InterimResultV1) => void
         onDone: (data: { response_id: string; report: ReportV1 }) => void
         onError: (error: ErrorV1) => void
       }
@@ -790,6 +793,15 @@ export const httpV1Adapter = {
           // Optional: could send interim findings to UI
           // For now, just continue showing progress
         },
+        onInterimResult: (data) => {
+          handlers.onInterim?.({
+            samples: data.samples_completed,
+            target_samples: data.samples_total,
+            bands: { p10: data.summary.p10, p50: data.summary.p50, p90: data.summary.p90 },
+            histogram: data.histogram,
+            units: data.summary.units,
+          })
+        },
         onComplete: (data) => {
           const executionMs = Date.now() - startTime
           const report = mapV1ResultToReport(data, input.template_id, executionMs)
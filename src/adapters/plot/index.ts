@@ -1,16 +1,22 @@
 export * from './types'
 import { httpV1Adapter } from './httpV1Adapter'
 import { autoDetectAdapter, BackendUnavailableError } from './autoDetectAdapter'
+import { localEngineAdapter } from './localEngineAdapter'
+import { createReplayAdapter } from './replayAdapter'
 
 export type PlotAdapter = typeof httpV1Adapter
 
 // Adapter selection:
 // - 'httpv1': Always use httpv1 (direct, no probe)
+// - 'local': Deterministic in-browser Monte Carlo engine (no backend)
+// - 'replay': httpv1 answered from a recorded cassette (VITE_PLOT_CASSETTE)
 // - 'auto' or unset: Auto-detect with probe, throws clear error if unavailable
-const ADAPTER_TYPE = (import.meta.env.VITE_PLOT_ADAPTER || 'auto') as 'httpv1' | 'auto'
+const ADAPTER_TYPE = (import.meta.env.VITE_PLOT_ADAPTER || 'auto') as 'httpv1' | 'local' | 'replay' | 'auto'
 
 export const plot: PlotAdapter =
   ADAPTER_TYPE === 'httpv1' ? httpV1Adapter as any :
+  ADAPTER_TYPE === 'local' ? localEngineAdapter as any :
+  ADAPTER_TYPE === 'replay' ? createReplayAdapter() as any :
   autoDetectAdapter as any
 
 export const adapterName = ADAPTER_TYPE
@@ -0,0 +1,479 @@
+/**
+ * Local Monte Carlo inference engine
+ *
+ * Client-side stand-in for the PLoT engine. Propagates node `prior`/`utility`
+ * and edge `weight`/`belief`/`confidence` through the graph in topological
+ * order using a seeded PRNG, so the same graph + seed always yields the same
+ * samples, bands and drivers.
+ *
+ * Model (per sample):
+ * - Root nodes draw a value around their prior (default 0.5), or from their
+ *   distribution (normalised onto 0..1) when they carry a non-point one.
+ * - An edge fires with probability `confidence` (default 1). Its effective
+ *   weight is jittered by ±(1 - belief), so low-belief edges widen the bands.
+ * - A node's value is its prior shifted by the weighted, centred parent values.
+ * - Conditional probability tables are collapsed to priors and edge weights
+ *   first (see collapseCpts).
+ * - The outcome score is the utility-weighted mean of the outcome nodes.
+ */
+
+import type { ReactFlowGraph } from '../v1/mapper'
+import type { ValidationError } from '../v1/mapper'
+import {
+  readDistribution,
+  createQuantile,
+  createNormaliser,
+  distributionPrior,
+} from '../../../canvas/domain/distributions'
+import { collapseCpts } from '../../../canvas/domain/cpt'
+
+export const LOCAL_ENGINE_VERSION = 'local-mc/1.1'
+
+export const DEFAULT_SAMPLES = 2000
+export const MAX_SAMPLES = 20000
+
+const DEFAULT_PRIOR = 0.5
+const DEFAULT_WEIGHT = 0.5
+const DEFAULT_BELIEF = 1
+const ROOT_SPREAD = 0.4
+const MAX_DRIVERS = 5
+
+type NodeKind = 'goal' | 'decision' | 'option' | 'factor' | 'risk' | 'outcome'
+
+interface CompiledEdge {
+  id: string
+  sourceIndex: number
+  weight: number
+  belief: number
+  confidence: number
+}
+
+interface CompiledNode {
+  id: string
+  label: string
+  kind?: NodeKind
+  prior: number
+  utility: number
+  incoming: CompiledEdge[]
+  /** Value pinned by a run-bundle delta (e.g. the selected option) */
+  fixed?: number
+  /** Root value for a uniform draw u, from the node's distribution (0..1 scale) */
+  sample?: (u: number) => number
+}
+
+export interface CompiledGraph {
+  /** Nodes in topological order */
+  nodes: CompiledNode[]
+  /** Indices (into `nodes`) of the nodes that make up the outcome score */
+  outcomeIndices: number[]
+  meanBelief: number
+}
+
+export interface LocalDriver {
+  nodeId: string
+  label: string
+  kind?: NodeKind
+  /** Share of explained outcome variance, 0-100 */
+  contribution: number
+  sign: '+' | '-'
+}
+
+export interface LocalEngineSummary {
+  samples: number
+  bands: { p10: number; p50: number; p90: number }
+  mean: number
+  /** Share of samples scoring above the 0.5 midpoint */
+  successProbability: number
+  drivers: LocalDriver[]
+  outcomeNodeIds: string[]
+  meanBelief: number
+}
+
+/**
+ * Overrides applied on top of the base graph (run-bundle deltas, sensitivity variants)
+ */
+export interface GraphModifications {
+  /** Pin this option node to 1 and its sibling options to 0 */
+  selected_option?: string
+  node_overrides?: Record<string, { prior?: number; utility?: number }>
+  /** Keyed by edge id, or `${source}-${target}` when the edge has no id */
+  edge_overrides?: Record<string, { weight?: number; belief?: number; confidence?: number }>
+}
+
+/**
+ * mulberry32: small, fast, seedable PRNG (same generator as mockAdapter)
+ */
+export function createPrng(seed: number): () => number {
+  let s = seed >>> 0
+  return () => {
+    s += 0x6D2B79F5
+    let t = s
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+const clamp = (value: number, lo: number, hi: number): number =>
+  Math.max(lo, Math.min(hi, value))
+
+const finiteOr = (value: unknown, fallback: number): number =>
+  typeof value === 'number' && Number.isFinite(value) ? value : fallback
+
+const round = (value: number, dp = 6): number => {
+  const f = 10 ** dp
+  return Math.round(value * f) / f
+}
+
+function readKind(node: ReactFlowGraph['nodes'][number]): NodeKind | undefined {
+  const raw = node.data?.kind ?? node.data?.type ?? node.type
+  return typeof raw === 'string' ? (raw.toLowerCase() as NodeKind) : undefined
+}
+
+// Plain code-unit comparison: localeCompare would make ordering depend on the runtime locale
+const compareIds = (a: string, b: string): number => (a < b ? -1 : a > b ? 1 : 0)
+
+function edgeKey(edge: ReactFlowGraph['edges'][number]): string {
+  return edge.id || `${edge.source}-${edge.target}`
+}
+
+/**
+ * Compile a React Flow graph into a topologically ordered structure
+ * Throws a mapper-style ValidationError for empty or cyclic graphs
+ */
+export function compileGraph(
+  input: ReactFlowGraph,
+  outcomeNode?: string,
+  modifications?: GraphModifications
+): CompiledGraph {
+  if (input.nodes.length === 0) {
+    throw {
+      code: 'BAD_INPUT',
+      message: 'Graph has no nodes',
+      field: 'nodes',
+    } satisfies ValidationError
+  }
+  const graph = collapseCpts(input)
+
+  const ids = new Set(graph.nodes.map(n => n.id))
+  const edges = graph.edges.filter(e => ids.has(e.source) && ids.has(e.target) && e.source !== e.target)
+
+  // Kahn's algorithm; ties broken by id so ordering never depends on array order
+  const indegree = new Map<string, number>()
+  const children = new Map<string, string[]>()
+  for (const id of ids) {
+    indegree.set(id, 0)
+    children.set(id, [])
+  }
+  for (const e of edges) {
+    indegree.set(e.target, (indegree.get(e.target) ?? 0) + 1)
+    children.get(e.source)!.push(e.target)
+  }
+
+  const ready = [...ids].filter(id => indegree.get(id) === 0).sort(compareIds)
+  const order: string[] = []
+  while (ready.length > 0) {
+    const id = ready.shift()!
+    order.push(id)
+    for (const child of children.get(id)!) {
+      const remaining = indegree.get(child)! - 1
+      indegree.set(child, remaining)
+      if (remaining === 0) {
+        ready.push(child)
+        ready.sort(compareIds)
+      }
+    }
+  }
+
+  if (order.length !== ids.size) {
+    throw {
+      code: 'BAD_INPUT',
+      message: 'Graph contains a cycle; local analysis requires a directed acyclic graph',
+      field: 'edges',
+    } satisfies ValidationError
+  }
+
+  const position = new Map(order.map((id, i) => [id, i]))
+  const byId = new Map(graph.nodes.map(n => [n.id, n]))
+  const nodeOverrides = modifications?.node_overrides ?? {}
+  const edgeOverrides = modifications?.edge_overrides ?? {}
+  const selected = modifications?.selected_option
+
+  const nodes: CompiledNode[] = order.map((id) => {
+    const raw = byId.get(id)!
+    const kind = readKind(raw)
+    const override = nodeOverrides[id] ?? {}
+    // A point distribution is the scalar prior; wider ones set the prior to
+    // their normalised mean and drive root draws (a prior override wins)
+    const distribution = readDistribution(raw.data?.distribution)
+    const spread = distribution && distribution.kind !== 'point' && override.prior === undefined
+      ? distribution
+      : undefined
+    const distributionValue = distribution
+      ? (distribution.kind === 'point' ? distribution.value : distributionPrior(distribution))
+      : undefined
+    const node: CompiledNode = {
+      id,
+      label: String(raw.data?.label ?? id),
+      kind,
+      prior: clamp(finiteOr(override.prior ?? (spread ? distributionValue : raw.data?.prior ?? distributionValue), DEFAULT_PRIOR), 0, 1),
+      utility: clamp(finiteOr(override.utility ?? raw.data?.utility, 1), -1, 1),
+      incoming: [],
+    }
+    if (spread) {
+      const quantile = createQuantile(spread)
+      const normalise = createNormaliser(spread)
+      node.sample = u => normalise(quantile(u))
+    }
+    if (selected && kind === 'option') {
+      node.fixed = id === selected ? 1 : 0
+    }
+    return node
+  })
+
+  let beliefTotal = 0
+  for (const e of edges) {
+    const override = edgeOverrides[edgeKey(e)] ?? {}
+    const rawConfidence = finiteOr(override.confidence ?? e.data?.confidence, 1)
+    const compiled: CompiledEdge = {
+      id: edgeKey(e),
+      sourceIndex: position.get(e.source)!,
+      weight: clamp(finiteOr(override.weight ?? e.data?.weight, DEFAULT_WEIGHT), -1, 1),
+      belief: clamp(finiteOr(override.belief ?? e.data?.belief, DEFAULT_BELIEF), 0, 1),
+      // Same percentage normalisation as graphToV1Request
+      confidence: clamp(rawConfidence > 1 ? rawConfidence / 100 : rawConfidence, 0, 1),
+    }
+    beliefTotal += compiled.belief
+    nodes[position.get(e.target)!].incoming.push(compiled)
+  }
+  for (const node of nodes) {
+    node.incoming.sort((a, b) => compareIds(a.id, b.id))
+  }
+
+  let outcomeIndices: number[] = []
+  if (outcomeNode && position.has(outcomeNode)) {
+    outcomeIndices = [position.get(outcomeNode)!]
+  } else {
+    outcomeIndices = nodes
+      .map((n, i) => (n.kind === 'outcome' || n.kind === 'goal' ? i : -1))
+      .filter(i => i >= 0)
+    if (outcomeIndices.length === 0) {
+      // Fall back to sinks (no outgoing edges)
+      const sources = new Set(edges.map(e => e.source))
+      outcomeIndices = nodes.map((n, i) => (sources.has(n.id) ? -1 : i)).filter(i => i >= 0)
+    }
+  }
+
+  return {
+    nodes,
+    outcomeIndices,
+    meanBelief: edges.length > 0 ? beliefTotal / edges.length : DEFAULT_BELIEF,
+  }
+}
+
+/**
+ * Incremental sampler over a compiled graph
+ * Drawing N samples in one call or in several batches yields identical results.
+ */
+export interface LocalSampler {
+  readonly count: number
+  draw(count: number): void
+  summarise(): LocalEngineSummary
+  /** Raw per-sample outcome scores and node values (read-only views) */
+  samples(): LocalSamples
+}
+
+export interface LocalSamples {
+  scores: readonly number[]
+  nodeValues: Readonly<Record<string, readonly number[]>>
+}
+
+export function createSampler(compiled: CompiledGraph, seed: number): LocalSampler {
+  const rng = createPrng(seed)
+  const { nodes, outcomeIndices } = compiled
+  const scores: number[] = []
+  const nodeSamples: number[][] = nodes.map(() => [])
+
+  const utilityTotal = outcomeIndices.reduce((sum, i) => sum + Math.abs(nodes[i].utility), 0)
+  const weights = outcomeIndices.map(i => (utilityTotal > 0 ? nodes[i].utility / utilityTotal : 1 / outcomeIndices.length))
+
+  const drawOne = () => {
+    const values = new Array<number>(nodes.length)
+    for (let i = 0; i < nodes.length; i += 1) {
+      const node = nodes[i]
+      // Always consume the same number of draws per node so pinning a value
+      // does not shift the random stream for the rest of the graph
+      const rootJitter = rng() - 0.5
+      let shift = 0
+      let weightMass = 0
+      for (const edge of node.incoming) {
+        const fires = rng() < edge.confidence
+        const jitter = (rng() * 2 - 1) * (1 - edge.belief)
+        if (!fires) continue
+        const effective = edge.weight * (1 + jitter)
+        shift += effective * (values[edge.sourceIndex] - 0.5) * 2
+        weightMass += Math.abs(edge.weight)
+      }
+
+      let value: number
+      if (node.fixed !== undefined) {
+        value = node.fixed
+      } else if (node.incoming.length === 0) {
+        value = node.sample ? node.sample(rootJitter + 0.5) : node.prior + rootJitter * ROOT_SPREAD
+      } else {
+        value = node.prior + (0.5 * shift) / Math.max(1, weightMass)
+      }
+      values[i] = clamp(value, 0, 1)
+      nodeSamples[i].push(values[i])
+    }
+
+    let score = 0
+    for (let k = 0; k < outcomeIndices.length; k += 1) {
+      score += weights[k] * values[outcomeIndices[k]]
+    }
+    scores.push(score)
+  }
+
+  return {
+    get count() {
+      return scores.length
+    },
+
+    draw(count: number) {
+      const target = Math.min(MAX_SAMPLES, scores.length + Math.max(0, Math.floor(count)))
+      while (scores.length < target) drawOne()
+    },
+
+    summarise(): LocalEngineSummary {
+      const sorted = [...scores].sort((a, b) => a - b)
+      const mean = scores.reduce((s, v) => s + v, 0) / Math.max(1, scores.length)
+      return {
+        samples: scores.length,
+        bands: {
+          p10: round(percentile(sorted, 0.1)),
+          p50: round(percentile(sorted, 0.5)),
+          p90: round(percentile(sorted, 0.9)),
+        },
+        mean: round(mean),
+        successProbability: round(scores.filter(v => v > 0.5).length / Math.max(1, scores.length)),
+        drivers: rankDrivers(nodes, outcomeIndices, nodeSamples, scores),
+        outcomeNodeIds: outcomeIndices.map(i => nodes[i].id),
+        meanBelief: round(compiled.meanBelief),
+      }
+    },
+
+    samples(): LocalSamples {
+      const nodeValues: Record<string, number[]> = {}
+      nodes.forEach((node, i) => {
+        nodeValues[node.id] = nodeSamples[i]
+      })
+      return { scores, nodeValues }
+    },
+  }
+}
+
+/**
+ * Linear-interpolated percentile over an ascending array
+ */
+export function percentile(sorted: number[], q: number): number {
+  if (sorted.length === 0) return 0
+  const pos = (sorted.length - 1) * q
+  const lo = Math.floor(pos)
+  const hi = Math.ceil(pos)
+  return sorted[lo] + (sorted[hi] - sorted[lo]) * (pos - lo)
+}
+
+function correlation(xs: number[], ys: number[]): number {
+  const n = xs.length
+  if (n < 2) return 0
+  let mx = 0
+  let my = 0
+  for (let i = 0; i < n; i += 1) {
+    mx += xs[i]
+    my += ys[i]
+  }
+  mx /= n
+  my /= n
+  let sxy = 0
+  let sxx = 0
+  let syy = 0
+  for (let i = 0; i < n; i += 1) {
+    const dx = xs[i] - mx
+    const dy = ys[i] - my
+    sxy += dx * dy
+    sxx += dx * dx
+    syy += dy * dy
+  }
+  if (sxx === 0 || syy === 0) return 0
+  return sxy / Math.sqrt(sxx * syy)
+}
+
+/**
+ * Rank non-outcome nodes by squared correlation with the outcome score
+ */
+function rankDrivers(
+  nodes: CompiledNode[],
+  outcomeIndices: number[],
+  nodeSamples: number[][],
+  scores: number[]
+): LocalDriver[] {
+  const outcomes = new Set(outcomeIndices)
+  const candidates = nodes
+    .map((node, i) => ({ node, r: outcomes.has(i) ? 0 : correlation(nodeSamples[i], scores) }))
+    .filter(c => c.r !== 0)
+
+  const total = candidates.reduce((sum, c) => sum + c.r * c.r, 0)
+  if (total === 0) return []
+
+  return candidates
+    .map(c => ({
+      nodeId: c.node.id,
+      label: c.node.label,
+      kind: c.node.kind,
+      contribution: round((c.r * c.r * 100) / total, 2),
+      sign: (c.r >= 0 ? '+' : '-') as '+' | '-',
+    }))
+    .sort((a, b) => b.contribution - a.contribution || compareIds(a.nodeId, b.nodeId))
+    .slice(0, MAX_DRIVERS)
+}
+
+export interface LocalInterimSummary {
+  samples: number
+  bands: { p10: number; p50: number; p90: number }
+  /** Equal-width bins over the 0-1 outcome score */
+  histogram: { min: number; max: number; counts: number[] }
+}
+
+/**
+ * Running estimate for stream interim events: bands and a histogram only,
+ * no driver ranking, so it is cheap enough to send after every batch
+ */
+export function summariseInterim(scores: readonly number[], bins = 20): LocalInterimSummary {
+  const sorted = [...scores].sort((a, b) => a - b)
+  const counts = new Array<number>(bins).fill(0)
+  for (const score of scores) {
+    counts[clamp(Math.floor(score * bins), 0, bins - 1)] += 1
+  }
+  return {
+    samples: scores.length,
+    bands: {
+      p10: round(percentile(sorted, 0.1)),
+      p50: round(percentile(sorted, 0.5)),
+      p90: round(percentile(sorted, 0.9)),
+    },
+    histogram: { min: 0, max: 1, counts },
+  }
+}
+
+/**
+ * One-shot convenience wrapper: compile, sample and summarise
+ */
+export function runLocalEngine(
+  graph: ReactFlowGraph,
+  options: { seed: number; samples?: number; outcomeNode?: string; modifications?: GraphModifications }
+): LocalEngineSummary {
+  const compiled = compileGraph(graph, options.outcomeNode, options.modifications)
+  const sampler = createSampler(compiled, options.seed)
+  sampler.draw(options.samples ?? DEFAULT_SAMPLES)
+  return sampler.summarise()
+}
@@ -0,0 +1,164 @@
+/**
+ * Value of information on the local Monte Carlo engine
+ *
+ * Run bundles only return p10/p50/p90 per option, which is not enough to
+ * compute EVPI: that needs the outcome of every option in the same sampled
+ * world. The local engine uses common random numbers across run-bundle
+ * deltas (pinning an option never shifts the random stream), so sample i of
+ * each option describes the same world and can be compared directly.
+ *
+ * - EVPI: E[max over options] − E[outcome of the option we would pick now]
+ * - EVPPI for a factor/risk X: bin samples by X's value, take the best option
+ *   per bin, and compare against picking now. Equal-count binning is the
+ *   standard non-parametric estimator; results are clamped to [0, EVPI].
+ *
+ * X's value is read from the incumbent option's run, i.e. what you would
+ * observe about X while pursuing today's plan. Downstream of an option, that
+ * value carries the uncertain strength of the option's effect, which is
+ * exactly what makes it worth learning.
+ */
+
+import type { ReactFlowGraph } from '../v1/mapper'
+import { compileGraph, createSampler, DEFAULT_SAMPLES } from './engine'
+
+const DEFAULT_BINS = 10
+
+export interface OptionValue {
+  nodeId: string
+  label: string
+  /** Mean outcome score (0-1) when this option is selected */
+  expected: number
+}
+
+export interface FactorValue {
+  nodeId: string
+  label: string
+  kind: 'factor' | 'risk'
+  /** Expected gain (outcome points, 0-1 scale) from learning this node before deciding */
+  evppi: number
+  /** evppi / evpi, 0-1 */
+  shareOfEvpi: number
+}
+
+export interface ValueOfInformation {
+  /** Expected gain from resolving every uncertainty before deciding */
+  evpi: number
+  /** Option the decision would go to today */
+  incumbentOptionId: string
+  options: OptionValue[]
+  /** Ranked by evppi, highest first */
+  factors: FactorValue[]
+  samples: number
+}
+
+const readKind = (node: ReactFlowGraph['nodes'][number]): string | undefined => {
+  const raw = node.data?.kind ?? node.data?.type ?? node.type
+  return typeof raw === 'string' ? raw.toLowerCase() : undefined
+}
+
+const mean = (values: readonly number[]): number =>
+  values.reduce((sum, v) => sum + v, 0) / Math.max(1, values.length)
+
+const round = (value: number): number => Math.round(value * 1e6) / 1e6
+
+/**
+ * Options hanging off a decision node (falls back to every option node)
+ */
+export function findDecisionOptions(graph: ReactFlowGraph): string[] {
+  const kinds = new Map(graph.nodes.map(n => [n.id, readKind(n)]))
+  const fromDecision = graph.edges
+    .filter(e => kinds.get(e.source) === 'decision' && kinds.get(e.target) === 'option')
+    .map(e => e.target)
+  const ids = fromDecision.length > 0
+    ? fromDecision
+    : graph.nodes.filter(n => kinds.get(n.id) === 'option').map(n => n.id)
+  return [...new Set(ids)].sort()
+}
+
+/**
+ * Compute EVPI for the decision and EVPPI for every factor/risk node
+ *
+ * @param incumbentOptionId option chosen without further information; defaults
+ *   to the option with the highest expected outcome
+ */
+export function computeValueOfInformation(
+  graph: ReactFlowGraph,
+  options: {
+    seed: number
+    optionIds: string[]
+    incumbentOptionId?: string
+    samples?: number
+    bins?: number
+  }
+): ValueOfInformation {
+  const sampleCount = options.samples ?? DEFAULT_SAMPLES
+  const labels = new Map(graph.nodes.map(n => [n.id, String(n.data?.label ?? n.id)]))
+
+  const perOption = options.optionIds.map((optionId) => {
+    const sampler = createSampler(compileGraph(graph, undefined, { selected_option: optionId }), options.seed)
+    sampler.draw(sampleCount)
+    return { optionId, ...sampler.samples() }
+  })
+
+  const optionValues: OptionValue[] = perOption.map(({ optionId, scores }) => ({
+    nodeId: optionId,
+    label: labels.get(optionId) ?? optionId,
+    expected: round(mean(scores)),
+  }))
+
+  const best = [...optionValues].sort((a, b) => b.expected - a.expected)[0]
+  const incumbent = optionValues.find(o => o.nodeId === options.incumbentOptionId) ?? best
+  const { scores: incumbentScores, nodeValues } = perOption.find(o => o.optionId === incumbent.nodeId)!
+  const valueNow = mean(incumbentScores)
+
+  const n = incumbentScores.length
+  let perfect = 0
+  for (let i = 0; i < n; i += 1) {
+    let top = -Infinity
+    for (const { scores } of perOption) top = Math.max(top, scores[i])
+    perfect += top
+  }
+  const evpi = Math.max(0, perfect / Math.max(1, n) - valueNow)
+
+  const bins = Math.max(1, options.bins ?? DEFAULT_BINS)
+  const factors: FactorValue[] = graph.nodes
+    .filter(node => {
+      const kind = readKind(node)
+      return kind === 'factor' || kind === 'risk'
+    })
+    .map((node) => {
+      const states = nodeValues[node.id]
+      const order = [...states.keys()].sort((a, b) => states[a] - states[b] || a - b)
+
+      let informed = 0
+      for (let b = 0; b < bins; b += 1) {
+        const slice = order.slice(Math.floor((b * n) / bins), Math.floor(((b + 1) * n) / bins))
+        if (slice.length === 0) continue
+        let top = -Infinity
+        for (const { scores } of perOption) {
+          let sum = 0
+          for (const i of slice) sum += scores[i]
+          top = Math.max(top, sum / slice.length)
+        }
+        informed += top * slice.length
+      }
+
+      const evppi = Math.min(evpi, Math.max(0, informed / Math.max(1, n) - valueNow))
+      return {
+        nodeId: node.id,
+        label: labels.get(node.id) ?? node.id,
+        kind: readKind(node) as FactorValue['kind'],
+        evppi: round(evppi),
+        shareOfEvpi: evpi > 0 ? round(evppi / evpi) : 0,
+      }
+    })
+    .sort((a, b) => b.evppi - a.evppi || (a.nodeId < b.nodeId ? -1 : 1))
+
+  return {
+    evpi: round(evpi),
+    incumbentOptionId: incumbent.nodeId,
+    options: optionValues,
+    factors,
+    samples: n,
+  }
+}
@@ -0,0 +1,440 @@
+/**
+ * Local engine adapter - implements the PlotAdapter surface in the browser
+ *
+ * Runs the deterministic Monte Carlo engine in `local/engine.ts` instead of
+ * calling PLoT. Reports are genuine ReportV1 payloads (bands, drivers,
+ * canonical run) and are bit-identical for the same graph + seed, so offline
+ * demos and tests agree with each other.
+ *
+ * Select with VITE_PLOT_ADAPTER=local.
+ */
+
+import type {
+  RunRequest,
+  ReportV1,
+  ErrorV1,
+  LimitsFetch,
+  TemplateDetail,
+  TemplateListV1,
+  ConfidenceLevel,
+  RunBundleRequest,
+  RunBundleResponse,
+  RunBundleResult,
+  InterimResultV1,
+} from './types'
+import { plot as fixturePlot } from './mockAdapter'
+import { mapConfidenceToDecisionReadiness } from './httpV1Adapter'
+import { graphToV1Request, computeClientHash, type ReactFlowGraph, type ValidationError } from './v1/mapper'
+import { V1_LIMITS } from './v1/types'
+import {
+  compileGraph,
+  createSampler,
+  runLocalEngine,
+  summariseInterim,
+  DEFAULT_SAMPLES,
+  LOCAL_ENGINE_VERSION,
+  type GraphModifications,
+  type LocalEngineSummary,
+} from './local/engine'
+
+const DEFAULT_SEED = 1337
+const STREAM_BATCHES = 5
+
+type ValidationIssue = {
+  code: string
+  message: string
+  node_id?: string
+  edge_id?: string
+  severity: 'error' | 'warning'
+  suggestion?: string
+}
+
+const stableStringify = (obj: unknown): string =>
+  JSON.stringify(
+    obj,
+    (_key, value) =>
+      value && typeof value === 'object' && !Array.isArray(value)
+        ? Object.keys(value as Record<string, unknown>)
+            .sort()
+            .reduce<Record<string, unknown>>((acc, k) => {
+              acc[k] = (value as Record<string, unknown>)[k]
+              return acc
+            }, {})
+        : value
+  )
+
+async function sha256Hex(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text))
+  return Array.from(new Uint8Array(digest))
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('')
+}
+
+/**
+ * Convert template fixture graphs (top-level weight/kind, source/target or from/to)
+ * into the React Flow shape used by the canvas
+ */
+function templateToGraph(graph: unknown): ReactFlowGraph {
+  const g = (graph ?? {}) as { nodes?: any[]; edges?: any[] }
+  return {
+    nodes: (g.nodes ?? []).map((n: any) => ({
+      id: n.id,
+      data: {
+        label: n.label,
+        body: n.body,
+        kind: n.kind,
+        prior: n.prior,
+        utility: n.utility,
+        ...(n.data ?? {}),
+      },
+    })),
+    edges: (g.edges ?? []).map((e: any) => {
+      const source = e.source ?? e.from
+      const target = e.target ?? e.to
+      return {
+        id: e.id || `${source}-${target}`,
+        source,
+        target,
+        data: {
+          confidence: e.confidence,
+          weight: e.weight,
+          belief: e.belief,
+          provenance: e.provenance,
+          ...(e.data ?? {}),
+        },
+      }
+    }),
+  }
+}
+
+function toErrorV1(err: unknown): ErrorV1 {
+  const e = err as Partial<ValidationError> & { message?: string }
+  if (e?.code === 'LIMIT_EXCEEDED' || e?.code === 'BAD_INPUT') {
+    return {
+      schema: 'error.v1',
+      code: e.code,
+      error: e.message ?? 'Invalid graph',
+      source: 'local',
+      fields: e.field ? { field: e.field, max: e.max } : undefined,
+    }
+  }
+  return {
+    schema: 'error.v1',
+    code: 'SERVER_ERROR',
+    error: e?.message ?? String(err),
+    source: 'local',
+  }
+}
+
+async function resolveGraph(input: RunRequest): Promise<{ graph: ReactFlowGraph; seed: number }> {
+  const hasValidGraph = input.graph?.nodes && input.graph.nodes.length > 0
+
+  if (!hasValidGraph && input.template_id === 'canvas-graph') {
+    throw new Error(
+      'EMPTY_CANVAS: Cannot run analysis on an empty canvas. ' +
+      'Add at least one node to your decision graph before running analysis.'
+    )
+  }
+
+  if (hasValidGraph) {
+    return { graph: input.graph as ReactFlowGraph, seed: input.seed ?? DEFAULT_SEED }
+  }
+
+  const detail = await fixturePlot.template(input.template_id)
+  return {
+    graph: templateToGraph(detail.graph),
+    seed: input.seed ?? detail.default_seed ?? DEFAULT_SEED,
+  }
+}
+
+function mapConfidence(summary: LocalEngineSummary): { level: ConfidenceLevel; score: number; why: string } {
+  const spread = Math.max(0, summary.bands.p90 - summary.bands.p10)
+  const score = Math.round(summary.meanBelief * (1 - Math.min(1, spread)) * 100) / 100
+  const level: ConfidenceLevel = score >= 0.7 ? 'high' : score >= 0.4 ? 'medium' : 'low'
+  const why =
+    `Local simulation of ${summary.samples} draws; ` +
+    `average connection belief ${Math.round(summary.meanBelief * 100)}%.`
+  return { level, score, why }
+}
+
+/**
+ * Build a deterministic ReportV1 from an engine summary
+ * Every field is derived from graph + seed (no timestamps), so the report is
+ * bit-identical across runs.
+ */
+async function buildReport(graph: ReactFlowGraph, seed: number, summary: LocalEngineSummary): Promise<ReportV1> {
+  const responseHash = await sha256Hex(
+    stableStringify({
+      engine: LOCAL_ENGINE_VERSION,
+      client_hash: computeClientHash(graph, seed),
+      seed,
+      summary,
+    })
+  )
+  const confidence = mapConfidence(summary)
+
+  const drivers: ReportV1['drivers'] = summary.drivers.map((d) => {
+    const impact = d.contribution / 100
+    return {
+      label: d.label,
+      polarity: d.sign === '-' ? 'down' : 'up',
+      strength: impact > 0.7 ? 'high' : impact > 0.3 ? 'medium' : 'low',
+      contribution: impact,
+      nodeId: d.nodeId,
+      nodeKind: d.kind ?? null,
+    } as ReportV1['drivers'][number]
+  })
+
+  return {
+    schema: 'report.v1',
+    meta: {
+      seed,
+      response_id: `local-${responseHash.slice(0, 16)}`,
+      elapsed_ms: 0,
+    },
+    model_card: {
+      response_hash: responseHash,
+      response_hash_algo: 'sha256',
+      normalized: true,
+    },
+    results: {
+      conservative: summary.bands.p10,
+      likely: summary.bands.p50,
+      optimistic: summary.bands.p90,
+      units: 'percent',
+    },
+    confidence: {
+      level: confidence.level,
+      why: confidence.why,
+    },
+    drivers,
+    run: {
+      responseHash,
+      bands: { ...summary.bands },
+      confidence: { level: confidence.level, reason: confidence.why, score: confidence.score },
+    },
+    decision_readiness: mapConfidenceToDecisionReadiness(confidence.level),
+  }
+}
+
+/**
+ * Validate limits (same rules as the HTTP adapter) and compile for the engine
+ */
+function prepare(graph: ReactFlowGraph, input: RunRequest) {
+  graphToV1Request(graph, input.seed)
+  return compileGraph(graph, input.outcome_node)
+}
+
+function bundleGraph(request: RunBundleRequest): ReactFlowGraph {
+  return {
+    nodes: request.base_graph.nodes.map(n => ({
+      id: n.id,
+      data: { label: n.label, ...n },
+    })),
+    edges: request.base_graph.edges.map(e => ({
+      id: typeof e.id === 'string' ? e.id : `${e.source}-${e.target}`,
+      source: e.source,
+      target: e.target,
+      data: { ...e },
+    })),
+  }
+}
+
+/**
+ * Local engine adapter
+ */
+export const localEngineAdapter = {
+  async run(input: RunRequest): Promise<ReportV1> {
+    const { graph, seed } = await resolveGraph(input)
+    try {
+      const sampler = createSampler(prepare(graph, input), seed)
+      sampler.draw(DEFAULT_SAMPLES)
+      return await buildReport(graph, seed, sampler.summarise())
+    } catch (err) {
+      throw toErrorV1(err)
+    }
+  },
+
+  async templates(): Promise<TemplateListV1> {
+    return fixturePlot.templates()
+  },
+
+  async template(id: string): Promise<TemplateDetail> {
+    return fixturePlot.template(id)
+  },
+
+  async limits(): Promise<LimitsFetch> {
+    return {
+      ok: true,
+      source: 'live',
+      data: {
+        nodes: { max: V1_LIMITS.MAX_NODES },
+        edges: { max: V1_LIMITS.MAX_EDGES },
+      },
+      fetchedAt: Date.now(),
+    }
+  },
+
+  async health() {
+    return {
+      status: 'ok' as const,
+      timestamp: new Date().toISOString(),
+      version: LOCAL_ENGINE_VERSION,
+    }
+  },
+
+  async validate(graph: any): Promise<{
+    valid: boolean
+    errors: ValidationIssue[]
+    violations?: ValidationIssue[]
+  }> {
+    const rfGraph: ReactFlowGraph = {
+      nodes: graph?.nodes || [],
+      edges: graph?.edges || [],
+    }
+
+    try {
+      graphToV1Request(rfGraph, undefined)
+      compileGraph(rfGraph)
+    } catch (err) {
+      const e = toErrorV1(err)
+      return {
+        valid: false,
+        errors: [{ code: e.code, message: e.error, severity: 'error' }],
+      }
+    }
+
+    const violations: ValidationIssue[] = []
+    const hasOutcome = rfGraph.nodes.some((n) => {
+      const kind = n.data?.kind ?? n.data?.type ?? n.type
+      return kind === 'outcome' || kind === 'goal'
+    })
+    if (!hasOutcome) {
+      violations.push({
+        code: 'NO_OUTCOME',
+        message: 'No outcome or goal node; leaf nodes will be scored instead',
+        severity: 'warning',
+        suggestion: 'Add an outcome node so results reflect what you care about',
+      })
+    }
+
+    return { valid: true, errors: [], violations }
+  },
+
+  // Run bundle - evaluates each delta against the base graph with a shared seed
+  async runBundle(request: RunBundleRequest): Promise<RunBundleResponse> {
+    const graph = bundleGraph(request)
+    try {
+      graphToV1Request(graph, undefined)
+
+      const evaluated = request.deltas.map((delta) => ({
+        label: delta.name,
+        summary: runLocalEngine(graph, {
+          seed: DEFAULT_SEED,
+          outcomeNode: request.outcome_node,
+          modifications: delta.modifications as GraphModifications,
+        }),
+      }))
+
+      const sortBy = request.sort_by ?? 'p50'
+      const ranked = [...evaluated].sort((a, b) => b.summary.bands[sortBy] - a.summary.bands[sortBy])
+      const baseline = request.baseline_index !== undefined ? evaluated[request.baseline_index] : undefined
+
+      const results: RunBundleResult[] = ranked.map((entry, i) => {
+        const result: RunBundleResult = {
+          label: entry.label,
+          rank: i + 1,
+          success_probability: entry.summary.successProbability,
+          summary: { ...entry.summary.bands },
+          sensitivity_by_node: entry.summary.drivers.map(d => ({
+            node_id: d.nodeId,
+            node_label: d.label,
+            contribution_pct: d.contribution,
+          })),
+        }
+        if (baseline) {
+          result.delta_from_baseline = {
+            p10: entry.summary.bands.p10 - baseline.summary.bands.p10,
+            p50: entry.summary.bands.p50 - baseline.summary.bands.p50,
+            p90: entry.summary.bands.p90 - baseline.summary.bands.p90,
+          }
+        }
+        return result
+      })
+
+      if (!request.include_ranking || ranked.length === 0) {
+        return { results }
+      }
+
+      const winner = ranked[0]
+      const runnerUp = ranked[1]
+      const marginPct = runnerUp && runnerUp.summary.bands.p50 !== 0
+        ? ((winner.summary.bands.p50 - runnerUp.summary.bands.p50) / Math.abs(runnerUp.summary.bands.p50)) * 100
+        : 0
+
+      return {
+        results,
+        ranking_summary: {
+          winner: winner.label,
+          winner_p50: winner.summary.bands.p50,
+          margin_pct: marginPct,
+          ranking_confidence: Math.abs(marginPct) > 15 ? 'high' : Math.abs(marginPct) < 5 ? 'low' : 'medium',
+        },
+      }
+    } catch (err) {
+      throw toErrorV1(err)
+    }
+  },
+
+  // Streaming: samples in batches so progress ticks and interim bands reflect real work
+  stream: {
+    run(
+      input: RunRequest,
+      handlers: {
+        onHello: (data: { response_id: string }) => void
+        onTick: (data: { index: number }) => void
+        onInterim?: (data: InterimResultV1) => void
+        onDone: (data: { response_id: string; report: ReportV1 }) => void
+        onError: (error: ErrorV1) => void
+      }
+    ): () => void {
+      let isCancelled = false
+
+      ;(async () => {
+        const { graph, seed } = await resolveGraph(input)
+        const sampler = createSampler(prepare(graph, input), seed)
+
+        if (isCancelled) return
+        handlers.onHello({ response_id: `local-${computeClientHash(graph, seed)}` })
+
+        const batch = Math.ceil(DEFAULT_SAMPLES / STREAM_BATCHES)
+        for (let i = 0; i < STREAM_BATCHES; i += 1) {
+          // Yield between batches so cancel() and UI updates can run
+          await new Promise(resolve => setTimeout(resolve, 0))
+          if (isCancelled) return
+          sampler.draw(Math.min(batch, DEFAULT_SAMPLES - sampler.count))
+          handlers.onTick({ index: i })
+          handlers.onInterim?.({
+            ...summariseInterim(sampler.samples().scores),
+            target_samples: DEFAULT_SAMPLES,
+            units: 'percent',
+          })
+        }
+
+        const report = await buildReport(graph, seed, sampler.summarise())
+        if (isCancelled) return
+        handlers.onDone({ response_id: report.meta.response_id, report })
+      })().catch((err) => {
+        if (!isCancelled) {
+          handlers.onError(err instanceof Error && err.message.startsWith('EMPTY_CANVAS')
+            ? { schema: 'error.v1', code: 'BAD_INPUT', error: err.message, source: 'local' }
+            : toErrorV1(err))
+        }
+      })
+
+      return () => {
+        isCancelled = true
+      }
+    },
+  },
+}
@@ -0,0 +1,26 @@
+/**
+ * Replay adapter - the httpv1 adapter answered from a recorded cassette
+ *
+ * Installs a replaying fetch (adapters/cassette) for PLoT, CEE and ISL, then
+ * hands back httpV1Adapter unchanged, so a recorded session exercises the
+ * same mapping, SSE parsing and error handling as the live one.
+ *
+ * Select with VITE_PLOT_ADAPTER=replay and point VITE_PLOT_CASSETTE at the
+ * cassette URL (e.g. /cassettes/bug-123.json served from public/). Record
+ * cassettes with VITE_CASSETTE_RECORD=1.
+ */
+
+import { httpV1Adapter } from './httpV1Adapter'
+import { installReplayFetch, loadCassette } from '../cassette/replay'
+
+export function createReplayAdapter(cassetteUrl: string | undefined = import.meta.env.VITE_PLOT_CASSETTE): typeof httpV1Adapter {
+  if (!cassetteUrl) {
+    throw new Error('VITE_PLOT_ADAPTER=replay requires VITE_PLOT_CASSETTE (URL of a recorded cassette)')
+  }
+
+  const cassette = loadCassette(cassetteUrl)
+  cassette.catch((error) => console.error('[Adapter] Failed to load cassette:', error))
+  installReplayFetch(cassette, { realtime: import.meta.env.VITE_PLOT_CASSETTE_REALTIME === '1' })
+
+  return httpV1Adapter
+}
@@ -200,9 +200,25 @@ export interface RunRequest {
   save?: boolean  // If true, trigger CEE Decision Review generation
 }
 
+/**
+ * Partial result while a run is still sampling
+ * Bands use the same units as ReportV1.results and converge on them.
+ */
+export interface InterimResultV1 {
+  /** Samples drawn so far */
+  samples: number
+  /** Samples the run will draw in total, when the engine knows */
+  target_samples?: number
+  bands: { p10: number; p50: number; p90: number }
+  /** Equal-width histogram of outcome samples so far */
+  histogram?: { min: number; max: number; counts: number[] }
+  units?: 'currency' | 'percent' | 'count'
+}
+
 export type StreamEvent =
   | { type: 'hello'; data: { response_id: string } }
   | { type: 'tick'; data: { index: number } }
+  | { type: 'interim'; data: InterimResultV1 }
   | { type: 'reconnected'; data: { attempt: number } }
   | { type: 'done'; data: { response_id: string } }
   | { type: 'error'; data: ErrorV1 }
@@ -374,4 +390,5 @@ export interface RunBundleRequest {
   include_change_attribution?: boolean
   baseline_index?: number // 0-indexed, which delta is baseline
   sort_by?: 'p10' | 'p50' | 'p90'
+  outcome_node?: string // Evaluate every option against this outcome node
 }
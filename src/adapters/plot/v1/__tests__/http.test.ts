@@ -1,5 +1,13 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
-import { health, runSync, cancel, clearCapabilitiesCache } from '../http'
+import {
+  health,
+  runSync,
+  cancel,
+  getCapabilities,
+  clearCapabilitiesCache,
+  CAPABILITIES_TTL_MS,
+  CAPABILITIES_RETRY_MS,
+} from '../http'
 import type { V1RunRequest, V1HealthResponse, V1SyncRunResponse } from '../types'
 
 // Sprint N P1: Helper to mock the /version capabilities endpoint
@@ -412,4 +420,59 @@ describe('v1/http', () => {
       await expect(cancel('run-123')).resolves.toBeUndefined()
     })
   })
+
+  describe('getCapabilities', () => {
+    afterEach(() => {
+      vi.useRealTimers()
+    })
+
+    it('fetches once per session and shares a request in flight', async () => {
+      fetchMock.mockResolvedValue(mockCapabilitiesResponse())
+
+      const [first, second] = await Promise.all([getCapabilities(), getCapabilities()])
+      await getCapabilities()
+
+      expect(first.version).toBe('1.5.0')
+      expect(second).toBe(first)
+      expect(fetchMock).toHaveBeenCalledTimes(1)
+    })
+
+    it('answers from the cache after the TTL and refreshes in the background', async () => {
+      vi.useFakeTimers({ toFake: ['Date'] })
+      fetchMock.mockResolvedValueOnce(mockCapabilitiesResponse())
+      await getCapabilities()
+
+      let resolveRefresh!: (value: unknown) => void
+      fetchMock.mockReturnValueOnce(new Promise(resolve => { resolveRefresh = resolve }))
+      vi.setSystemTime(Date.now() + CAPABILITIES_TTL_MS)
+
+      // The stale answer comes back without waiting for the refresh
+      expect((await getCapabilities()).version).toBe('1.5.0')
+      expect(fetchMock).toHaveBeenCalledTimes(2)
+
+      resolveRefresh({ ok: true, json: async () => ({ version: '1.6.0', capabilities: {} }) })
+      await vi.waitFor(async () => expect((await getCapabilities()).version).toBe('1.6.0'))
+      expect(fetchMock).toHaveBeenCalledTimes(2)
+    })
+
+    it('keeps the last capabilities when a refresh fails and retries sooner', async () => {
+      vi.useFakeTimers({ toFake: ['Date'] })
+      fetchMock.mockResolvedValueOnce(mockCapabilitiesResponse())
+      await getCapabilities()
+
+      fetchMock.mockRejectedValueOnce(new Error('Network down'))
+      vi.setSystemTime(Date.now() + CAPABILITIES_TTL_MS)
+      await getCapabilities()
+      await new Promise(resolve => setTimeout(resolve, 0)) // Let the background refresh fail
+      expect(fetchMock).toHaveBeenCalledTimes(2)
+
+      fetchMock.mockResolvedValueOnce(mockCapabilitiesResponse())
+      expect((await getCapabilities()).version).toBe('1.5.0')
+      expect(fetchMock).toHaveBeenCalledTimes(2)
+
+      vi.setSystemTime(Date.now() + CAPABILITIES_RETRY_MS)
+      await getCapabilities()
+      expect(fetchMock).toHaveBeenCalledTimes(3)
+    })
+  })
 })
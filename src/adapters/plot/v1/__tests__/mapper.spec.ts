@@ -96,6 +96,21 @@ describe('graphToV1Request - v1.2 Node Fields', () => {
     expect(request.graph.nodes[0].prior).toBeUndefined()
     expect(request.graph.nodes[0].utility).toBeUndefined()
   })
+  it('sends a probability table with its collapsed prior and edge weights', () => {
+    const cpt = { parents: ['supplier'], states: ['Occurs', 'Does not occur'], rows: { yes: [0.8, 0.2], no: [0.2, 0.8] } }
+    const graph: ReactFlowGraph = {
+      nodes: [
+        { id: 'supplier', type: 'risk', data: { label: 'Supplier fails' } },
+        { id: 'delay', type: 'risk', data: { label: 'Delay', prior: 0.9, cpt } },
+      ],
+      edges: [{ id: 'e1', source: 'supplier', target: 'delay', data: { weight: 0.1 } }],
+    }
+
+    const request = graphToV1Request(graph)
+    expect(request.graph.nodes[1].cpt).toEqual(cpt)
+    expect(request.graph.nodes[1].prior).toBeCloseTo(0.5)
+    expect(request.graph.edges[0].weight).toBeCloseTo(0.6)
+  })
 })
 
 describe('graphToV1Request - v1.2 Edge Fields', () => {
@@ -37,11 +37,18 @@ const getTimeouts = () => ({
 })
 
 /**
- * Cache for backend capabilities (expires after 5 minutes)
+ * Cache for backend capabilities, kept for the session
  * Sprint N P1: Capability negotiation to prevent "Unknown field" errors
+ *
+ * Once fetched, capabilities are answered from the cache; after the TTL they
+ * are refreshed in the background while callers keep the cached answer, so a
+ * run never waits on /version again. A failed fetch keeps what we had and is
+ * retried sooner.
  */
-let cachedCapabilities: { data: CapabilitiesResponse; fetchedAt: number } | null = null
-const CAPABILITIES_TTL_MS = 5 * 60 * 1000
+let cachedCapabilities: { data: CapabilitiesResponse; expiresAt: number } | null = null
+let capabilitiesRequest: Promise<CapabilitiesResponse> | null = null
+export const CAPABILITIES_TTL_MS = 5 * 60 * 1000
+export const CAPABILITIES_RETRY_MS = 30 * 1000
 
 /**
  * Capabilities response from /version endpoint
@@ -60,17 +67,37 @@ export interface CapabilitiesResponse {
  * GET /version - Check backend capabilities before using features
  * Prevents "Unknown field" errors from version drift
  * Sprint N P1: Capability negotiation
+ *
+ * Only the first call of a session waits for the network (see cachedCapabilities).
  */
 export async function getCapabilities(): Promise<CapabilitiesResponse> {
-  // Return cached if fresh
-  if (cachedCapabilities && Date.now() - cachedCapabilities.fetchedAt < CAPABILITIES_TTL_MS) {
+  if (cachedCapabilities) {
+    if (Date.now() >= cachedCapabilities.expiresAt) void refreshCapabilities()
     return cachedCapabilities.data
   }
+  return refreshCapabilities()
+}
+
+/** One /version request at a time; concurrent callers share it */
+function refreshCapabilities(): Promise<CapabilitiesResponse> {
+  capabilitiesRequest ??= fetchCapabilities().finally(() => {
+    capabilitiesRequest = null
+  })
+  return capabilitiesRequest
+}
 
+async function fetchCapabilities(): Promise<CapabilitiesResponse> {
   const base = getProxyBase()
   const controller = new AbortController()
   const timeoutId = setTimeout(() => controller.abort(), 5000)
 
+  // Graceful degradation: keep the last capabilities we had, else empty ones
+  const fallBack = (): CapabilitiesResponse => {
+    const data = cachedCapabilities?.data ?? { version: 'unknown', capabilities: {} }
+    cachedCapabilities = { data, expiresAt: Date.now() + CAPABILITIES_RETRY_MS }
+    return data
+  }
+
   try {
     const response = await fetch(`${base}/version`, {
       method: 'GET',
@@ -78,11 +105,10 @@ export async function getCapabilities(): Promise<CapabilitiesResponse> {
     })
 
     if (!response.ok) {
-      // Graceful degradation - return empty capabilities
       if (import.meta.env.DEV) {
-        console.warn('[plot/v1] /version returned non-OK, using empty capabilities')
+        console.warn('[plot/v1] /version returned non-OK, using cached or empty capabilities')
       }
-      return { version: 'unknown', capabilities: {} }
+      return fallBack()
     }
 
     const data = await response.json()
@@ -91,7 +117,7 @@ export async function getCapabilities(): Promise<CapabilitiesResponse> {
       build: data.build,
       capabilities: data.capabilities || {},
     }
-    cachedCapabilities = { data: caps, fetchedAt: Date.now() }
+    cachedCapabilities = { data: caps, expiresAt: Date.now() + CAPABILITIES_TTL_MS }
 
     if (import.meta.env.DEV) {
       console.log('[plot/v1] Capabilities fetched:', caps)
@@ -99,11 +125,11 @@ export async function getCapabilities(): Promise<CapabilitiesResponse> {
 
     return caps
   } catch (err) {
-    // Network error - return empty capabilities
+    // Network error
     if (import.meta.env.DEV) {
       console.warn('[plot/v1] Failed to fetch capabilities:', err)
     }
-    return { version: 'unknown', capabilities: {} }
+    return fallBack()
   } finally {
     clearTimeout(timeoutId)
   }
@@ -129,6 +155,7 @@ export async function hasCapability(feature: 'detail_level' | 'streaming'): Prom
  */
 export function clearCapabilitiesCache(): void {
   cachedCapabilities = null
+  capabilitiesRequest = null
 }
 
 /**
@@ -5,6 +5,8 @@
 import type { V1RunRequest } from './types'
 import { V1_LIMITS } from './types'
 import type { CanonicalRun } from '../types'
+import { readDistribution, distributionPrior } from '../../../canvas/domain/distributions'
+import { readCpt, collapseCpts } from '../../../canvas/domain/cpt'
 
 export interface ReactFlowNode {
   id: string
@@ -131,16 +133,19 @@ export function validateGraphLimits(graph: ReactFlowGraph): ValidationError | nu
 /**
  * Convert React Flow graph to V1 request format
  * Enforces limits and normalizes confidence to 0..1
+ * Conditional probability tables travel as `cpt`, with priors and edge
+ * weights already collapsed for engines that ignore the field
  */
 export function graphToV1Request(
-  graph: ReactFlowGraph,
+  input: ReactFlowGraph,
   seed?: number
 ): V1RunRequest {
   // Validate limits first
-  const error = validateGraphLimits(graph)
+  const error = validateGraphLimits(input)
   if (error) {
     throw error
   }
+  const graph = collapseCpts(input)
 
   return {
     graph: {
@@ -166,6 +171,22 @@ export function graphToV1Request(
           node.utility = Math.max(-1, Math.min(1, n.data.utility))
         }
 
+        // Distributions: a point is sent as the plain prior (identical to
+        // legacy graphs); wider ones travel as-is with their normalised mean
+        const distribution = readDistribution(n.data?.distribution)
+        if (distribution?.kind === 'point') {
+          if (node.prior === undefined) node.prior = Math.max(0, Math.min(1, distribution.value))
+        } else if (distribution) {
+          node.distribution = distribution
+          node.prior = distributionPrior(distribution)
+          if (typeof n.data?.unit === 'string') node.unit = n.data.unit
+        }
+
+        const cpt = readCpt(n.data?.cpt)
+        if (cpt) {
+          node.cpt = cpt
+        }
+
         return node
       }),
       edges: graph.edges.map((e) => {
@@ -218,6 +239,11 @@ export function computeClientHash(graph: ReactFlowGraph, seed?: number): string
         id: n.id,
         label: n.data?.label,
         body: n.data?.body, // Include body - affects server computation
+        kind: n.data?.kind ?? n.type,
+        prior: n.data?.prior,
+        utility: n.data?.utility,
+        distribution: n.data?.distribution,
+        cpt: n.data?.cpt,
       }))
       .sort((a, b) => a.id.localeCompare(b.id)),
     edges: graph.edges
@@ -226,6 +252,7 @@ export function computeClientHash(graph: ReactFlowGraph, seed?: number): string
         to: e.target,
         conf: e.data?.confidence,
         weight: e.data?.weight, // Include weight - affects server computation
+        belief: e.data?.belief,
       }))
       .sort((a, b) => `${a.from}-${a.to}`.localeCompare(`${b.from}-${b.to}`)),
     seed: seed || 0,
@@ -9,6 +9,7 @@ import type {
   V1RunStartedData,
   V1ProgressData,
   V1InterimFindingsData,
+  V1InterimResultData,
   V1CompleteData,
   V1Error,
 } from './types'
@@ -225,6 +226,11 @@ function handleEvent(
       handlers.onInterim(data as V1InterimFindingsData)
       break
 
+    case 'interim_result':
+    case 'INTERIM_RESULT':
+      handlers.onInterimResult?.(data as V1InterimResultData)
+      break
+
     case 'heartbeat':
       // No-op, just resets heartbeat timer (already done above)
       break
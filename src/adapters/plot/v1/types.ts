@@ -4,6 +4,8 @@
  */
 
 import type { CeeDecisionReviewPayload, CeeTraceMeta, CeeErrorViewModel } from '../../../canvas/decisionReview/types'
+import type { Distribution } from '../../../canvas/domain/distributions'
+import type { ConditionalTable } from '../../../canvas/domain/cpt'
 
 // Request types
 export interface V1Node {
@@ -13,6 +15,9 @@ export interface V1Node {
   kind?: 'decision' | 'option' | 'outcome' // v1.2: node classification
   prior?: number // v1.2: 0..1 probability
   utility?: number // v1.2: -1..+1 relative payoff
+  distribution?: Distribution // Value uncertainty in the node's own units (prior is its normalised mean)
+  unit?: string
+  cpt?: ConditionalTable // Risk/factor: P(state | parent states); prior and edge weights carry its collapsed form
 }
 
 export interface V1Edge {
@@ -123,6 +128,19 @@ export interface V1InterimFindingsData {
   findings: string[]
 }
 
+// INTERIM_RESULT event: running estimate while sampling
+export interface V1InterimResultData {
+  samples_completed: number
+  samples_total?: number
+  summary: {
+    p10: number
+    p50: number
+    p90: number
+    units?: 'currency' | 'percent' | 'count'
+  }
+  histogram?: { min: number; max: number; counts: number[] }
+}
+
 export interface V1CompleteData {
   result: V1RunResult
   execution_ms: number
@@ -203,6 +221,8 @@ export interface V1StreamHandlers {
   onStarted: (data: V1RunStartedData) => void
   onProgress: (data: V1ProgressData) => void
   onInterim: (data: V1InterimFindingsData) => void
+  /** Optional: partial bands while the engine is still sampling */
+  onInterimResult?: (data: V1InterimResultData) => void
   onComplete: (data: V1CompleteData) => void
   onError: (error: V1Error) => void
 }
@@ -259,6 +279,7 @@ export interface V1RunBundleRequest {
   include_change_attribution?: boolean
   baseline_index?: number // 0-indexed, which delta is baseline
   sort_by?: 'p10' | 'p50' | 'p90'
+  outcome_node?: string // Evaluate every option against this outcome node
 }
 
 export interface V1NodeSensitivity {
@@ -2,6 +2,8 @@ import { useEffect, useRef, useState } from 'react'
 import { useCanvasStore } from './store'
 import { useToast } from './ToastContext'
 import type { NodeType } from './domain/nodes'
+import { useCommentThreadsStore, type ThreadAnchor } from './comments/threads'
+import { isCommentsEnabled } from '../flags'
 
 // Node type options for submenu
 const NODE_TYPE_OPTIONS: { type: NodeType; label: string; icon: string }[] = [
@@ -36,9 +38,24 @@ export function ContextMenu({ x, y, onClose }: ContextMenuProps) {
   const selectAll = useCanvasStore((s) => s.selectAll)
   const deleteEdge = useCanvasStore((s) => s.deleteEdge)
   const beginReconnect = useCanvasStore((s) => s.beginReconnect)
+  const nodes = useCanvasStore((s) => s.nodes)
+  const openDiscussion = useCommentThreadsStore((s) => s.openPanel)
   const { showToast } = useToast()
   const [position, setPosition] = useState({ x, y })
 
+  // Discussion anchors to a single selected node or connector
+  const discussAnchor: ThreadAnchor | null = (() => {
+    if (selection.nodeIds.size === 1 && selection.edgeIds.size === 0) {
+      const id = Array.from(selection.nodeIds)[0]
+      const label = (nodes.find(n => n.id === id)?.data as { label?: string } | undefined)?.label
+      return { kind: 'node', id, label }
+    }
+    if (selection.edgeIds.size === 1 && selection.nodeIds.size === 0) {
+      return { kind: 'edge', id: Array.from(selection.edgeIds)[0] }
+    }
+    return null
+  })()
+
   const menuItems = [
     { label: 'Add Node...', icon: '➕', shortcut: null, action: () => setShowNodeTypeSubmenu(true), enabled: true, hasSubmenu: true },
     { type: 'divider' as const },
@@ -50,6 +67,13 @@ export function ContextMenu({ x, y, onClose }: ContextMenuProps) {
     { label: 'Duplicate', icon: '🔁', shortcut: '⌘D', action: duplicateSelected, enabled: selection.nodeIds.size > 0 },
     { type: 'divider' as const },
     { label: 'Delete', icon: '🗑️', shortcut: 'Del', action: deleteSelected, enabled: selection.nodeIds.size > 0 || selection.edgeIds.size > 0 },
+    ...(isCommentsEnabled() ? [{
+      label: 'Discuss...',
+      icon: '💬',
+      shortcut: null,
+      action: () => { if (discussAnchor) openDiscussion({ mode: 'anchor', anchor: discussAnchor }) },
+      enabled: discussAnchor !== null
+    }] : []),
     { type: 'divider' as const },
     {
       label: 'Edit Connector',
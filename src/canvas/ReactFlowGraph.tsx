@@ -47,13 +47,21 @@ import { registerFocusHelpers, unregisterFocusHelpers } from './utils/focusHelpe
 import { loadRuns } from './store/runHistory'
 // HealthStatusBar removed - validation consolidated into OutputsDock panel
 import { DegradedBanner } from './components/DegradedBanner'
+import { StorageUnavailableBanner } from './components/StorageUnavailableBanner'
 import { LayoutProgressBanner } from './components/LayoutProgressBanner'
 const IssuesPanel = lazy(() => import(/* webpackChunkName: "issues-panel" */ './panels/IssuesPanel').then(m => ({ default: m.IssuesPanel })))
 const AIClarifierChat = lazy(() => import(/* webpackChunkName: "ai-clarifier" */ './panels/AIClarifierChat').then(m => ({ default: m.AIClarifierChat })))
+const CommentThreadsPanel = lazy(() => import(/* webpackChunkName: "comment-threads" */ './comments/CommentThreadsPanel').then(m => ({ default: m.CommentThreadsPanel })))
+const AuditTrailHost = lazy(() => import(/* webpackChunkName: "audit-trail" */ './audit/AuditTrailHost').then(m => ({ default: m.AuditTrailHost })))
+const PresenterHost = lazy(() => import(/* webpackChunkName: "presenter" */ './presenter/PresenterHost').then(m => ({ default: m.PresenterHost })))
+const PremortemHost = lazy(() => import(/* webpackChunkName: "premortem" */ './premortem/PremortemHost').then(m => ({ default: m.PremortemHost })))
 import { NeedleMoversOverlay } from './components/NeedleMoversOverlay'
 // CoachingNudge and useCEECoaching removed - coaching now in GuidancePanel (OutputsDock)
 import { DocumentsManager } from './components/DocumentsManager'
 import { ProvenanceHubTab } from './components/ProvenanceHubTab'
+import { extractDocumentText } from './documents/extract'
+import { DocumentsDrawer } from './documents/DocumentsDrawer'
+import { useDocumentReaderStore } from './documents/readerStore'
 import { RadialQuickAddMenu } from './components/RadialQuickAddMenu'
 import { ConnectPrompt } from './components/ConnectPrompt'
 import { ConnectivityChip } from './components/ConnectivityChip'
@@ -65,9 +73,19 @@ import type { NodeType } from './domain/nodes'
 import { InputsDock } from './components/InputsDock'
 import { OutputsDock } from './components/OutputsDock'
 import { ComparisonCanvasLayout } from './components/ComparisonCanvasLayout'
-import { isInputsOutputsEnabled, isCommandPaletteEnabled, isDegradedBannerEnabled, isOnboardingTourEnabled, pocFlags } from '../flags'
+import { isInputsOutputsEnabled, isCommandPaletteEnabled, isDegradedBannerEnabled, isOnboardingTourEnabled, isCollabEnabled, isCommentsEnabled, isAuditTrailEnabled, isPresenterEnabled, isPremortemEnabled, pocFlags } from '../flags'
 import { useEngineLimits } from './hooks/useEngineLimits'
 import { useRunEligibilityCheck } from './hooks/useRunEligibilityCheck'
+import { useCollaboration, readCollabRoom } from './hooks/useCollaboration'
+import { RemoteCursors } from './components/RemoteCursors'
+import { useCommentThreadsStore } from './comments/threads'
+import { withAuditCause } from './audit/trail'
+import { ghostGraph } from './changesets/changeSet'
+import { useChangeSetReviewStore, acceptedOperations } from './changesets/reviewStore'
+import { ChangeSetReview } from './changesets/ChangeSetReview'
+import { usePresenterSession } from './presenter/session'
+import { useViewportFollower } from './hooks/useSyncedViewports'
+import { CollabPresence } from './components/CollabPresence'
 
 type CanvasDebugMode = 'normal' | 'blank' | 'no-reactflow' | 'rf-only' | 'rf-bare' | 'rf-minimal' | 'rf-empty' | 'rf-no-fitview' | 'rf-no-bg' | 'rf-store' | 'provider-only' | 'no-provider'
 
@@ -167,6 +185,8 @@ function ReactFlowGraphInner({ blueprintEventBus, onCanvasInteraction, enableGho
   const citations = useCanvasStore(s => s.citations)
   const showDocumentsDrawer = useCanvasStore(s => s.showDocumentsDrawer)
   const showProvenanceHub = useCanvasStore(s => s.showProvenanceHub)
+  const documentReaderOpen = useDocumentReaderStore(s => s.open)
+  const closeDocumentReader = useDocumentReaderStore(s => s.close)
   const provenanceRedactionEnabled = useCanvasStore(s => s.provenanceRedactionEnabled)
   const reconnecting = useCanvasStore(s => s.reconnecting)
   // Week 3: AI Clarifier
@@ -178,7 +198,7 @@ function ReactFlowGraphInner({ blueprintEventBus, onCanvasInteraction, enableGho
 
   // Week 3: AI Coaching moved to GuidancePanel in OutputsDock
 
-  const { getViewport, setCenter, fitView, zoomIn, zoomOut } = useReactFlow()
+  const { getViewport, setViewport, setCenter, fitView, zoomIn, zoomOut, screenToFlowPosition } = useReactFlow()
 
   // Canvas control actions from store
   const undo = useCanvasStore(s => s.undo)
@@ -237,8 +257,19 @@ function ReactFlowGraphInner({ blueprintEventBus, onCanvasInteraction, enableGho
   }
 
   // Phase 3: Memoize heavy computations for performance
-  const memoizedNodes = useMemo(() => nodes, [nodes])
-  const memoizedEdges = useMemo(() => edges, [edges])
+  // An AI change-set under review shows its ticked operations as ghosts
+  const reviewChangeSet = useChangeSetReviewStore(s => s.active)
+  const reviewAccepted = useChangeSetReviewStore(s => s.accepted)
+  const reviewingChangeSet = reviewChangeSet !== null
+  const displayGraph = useMemo(
+    () =>
+      reviewChangeSet
+        ? ghostGraph({ nodes, edges }, acceptedOperations({ active: reviewChangeSet, accepted: reviewAccepted }))
+        : { nodes, edges },
+    [nodes, edges, reviewChangeSet, reviewAccepted]
+  )
+  const memoizedNodes = displayGraph.nodes
+  const memoizedEdges = displayGraph.edges
 
   // Actions are stable references - don't need shallow comparison
   const createNodeId = useCanvasStore(s => s.createNodeId)
@@ -349,6 +380,10 @@ function ReactFlowGraphInner({ blueprintEventBus, onCanvasInteraction, enableGho
   const dockLayoutEnabled = inputsOutputsEnabled && !USE_NEW_LAYOUT
   const paletteEnabled = isCommandPaletteEnabled()
   const degradedBannerEnabled = isDegradedBannerEnabled()
+  const commentsEnabled = isCommentsEnabled()
+  const commentPanelOpen = useCommentThreadsStore(s => s.panel !== null)
+  const auditTrailEnabled = isAuditTrailEnabled()
+  const premortemEnabled = isPremortemEnabled()
   useEngineLimits()
   const checkRunEligibility = useRunEligibilityCheck()
 
@@ -457,6 +492,27 @@ function ReactFlowGraphInner({ blueprintEventBus, onCanvasInteraction, enableGho
   // Uses useLocation to detect route changes and hashchange listener for direct navigation
   const location = useLocation()
 
+  // Live co-editing: joins ?room= through the collab relay when the flag is on
+  const collabRoom = useMemo(() => (isCollabEnabled() ? readCollabRoom() : null), [location.search, location.hash])
+  const collab = useCollaboration(collabRoom)
+  const { updateCursor } = collab
+  const handleCollabPointerMove = useCallback((event: React.MouseEvent) => {
+    updateCursor(screenToFlowPosition({ x: event.clientX, y: event.clientY }))
+  }, [updateCursor, screenToFlowPosition])
+  const handleCollabPointerLeave = useCallback(() => updateCursor(null), [updateCursor])
+
+  // Presenter mode: follow the presenter's viewport until the user pans or zooms
+  const presenterEnabled = isPresenterEnabled()
+  const followingPresenter = usePresenterSession(s => s.role === 'watching' && s.following)
+  const presentedView = usePresenterSession(s => s.remoteView)
+  const breakAwayFromPresenter = usePresenterSession(s => s.breakAway)
+  const { onMoveStart: handleFollowerMoveStart } = useViewportFollower({
+    viewport: presentedView?.viewport ?? null,
+    enabled: presenterEnabled && followingPresenter,
+    setViewport,
+    onBreakAway: breakAwayFromPresenter,
+  })
+
   // React #185 FIX: Track which share-link hash has been applied this session.
   // This prevents re-triggering resultsLoadHistorical + setShowResultsPanel
   // on every re-render when the URL contains a run parameter.
@@ -753,18 +809,20 @@ function ReactFlowGraphInner({ blueprintEventBus, onCanvasInteraction, enableGho
       let uploadedCount = 0
       for (const file of files) {
         try {
-          const content = await file.text()
-          const type = file.name.endsWith('.pdf') ? 'pdf' :
-                       file.name.endsWith('.txt') ? 'txt' :
-                       file.name.endsWith('.md') ? 'md' :
-                       file.name.endsWith('.csv') ? 'csv' : 'txt'
+          const { type, text } = await extractDocumentText(file)
+          const existingIds = new Set(useCanvasStore.getState().documents.map(d => d.id))
 
-          addDocument({
+          const id = addDocument({
             name: file.name,
-            type: type as any,
-            content,
+            type,
+            content: text,
             size: file.size
           })
+          if (existingIds.has(id)) {
+            const existing = useCanvasStore.getState().documents.find(d => d.id === id)
+            showToast(`${file.name} is already uploaded${existing && existing.name !== file.name ? ` as ${existing.name}` : ''}`, 'info')
+            continue
+          }
           uploadedCount++
         } catch (fileErr) {
           // Show specific error for this file
@@ -1021,10 +1079,10 @@ function ReactFlowGraphInner({ blueprintEventBus, onCanvasInteraction, enableGho
     // This matches the user expectation from "Start from Template" confirmation
     const store = useCanvasStore.getState()
     store.pushHistory()
-    useCanvasStore.setState(() => ({
+    withAuditCause('template', () => useCanvasStore.setState(() => ({
       nodes: newNodes,
       edges: newEdges
-    }))
+    })))
 
     showToast(`Started from "${blueprint.name}" template.`, 'success')
 
@@ -1071,10 +1129,10 @@ function ReactFlowGraphInner({ blueprintEventBus, onCanvasInteraction, enableGho
       remainingNodeIds.has(e.source) && remainingNodeIds.has(e.target)
     )
     
-    useCanvasStore.setState({
+    withAuditCause('template', () => useCanvasStore.setState({
       nodes: remainingNodes,
       edges: remainingEdges
-    })
+    }))
 
     // Insert new blueprint (Sprint 2: Handle limit errors)
     const result = insertBlueprint(pendingBlueprint)
@@ -1388,6 +1446,9 @@ function ReactFlowGraphInner({ blueprintEventBus, onCanvasInteraction, enableGho
             onNodeContextMenu={onNodeContextMenu}
             onNodeDragStart={onNodeDragStart}
             onNodeDragStop={onNodeDragStop}
+            onMouseMove={collabRoom ? handleCollabPointerMove : undefined}
+            onMouseLeave={collabRoom ? handleCollabPointerLeave : undefined}
+            onMoveStart={presenterEnabled ? handleFollowerMoveStart : undefined}
             nodeTypes={nodeTypes}
             edgeTypes={edgeTypes}
             defaultEdgeOptions={defaultEdgeOpts}
@@ -1400,6 +1461,7 @@ function ReactFlowGraphInner({ blueprintEventBus, onCanvasInteraction, enableGho
             <Background variant={showGrid ? BackgroundVariant.Dots : BackgroundVariant.Lines} gap={gridSize} />
             {/* TODO: Future enhancement - Add legend and interaction controls to MiniMap */}
             <MiniMap style={miniMapStyle} />
+            {collabRoom && <RemoteCursors peers={collab.peers} />}
             <svg style={{ position: 'absolute', top: 0, left: 0 }}>
               <defs>
                 {/* Arrowheads matching edge colors - original size (6x6), fixed regardless of stroke width */}
@@ -1416,7 +1478,7 @@ function ReactFlowGraphInner({ blueprintEventBus, onCanvasInteraction, enableGho
       </div>
 
       {/* Highlight layer for Results drivers (keyed off global showResultsPanel flag) */}
-      <HighlightLayer isResultsOpen={showResultsPanel} />
+      <HighlightLayer isResultsOpen={showResultsPanel} followed={followingPresenter ? presentedView : null} />
 
       {/* Empty canvas state - shows helpful prompts when no nodes exist */}
       {/* Uses stable callbacks (handleEmptyStateDraft/handleEmptyStateTemplate) to prevent re-renders */}
@@ -1491,6 +1553,7 @@ function ReactFlowGraphInner({ blueprintEventBus, onCanvasInteraction, enableGho
         }}
       >
         <ConnectivityChip />
+        <CollabPresence status={collab.status} self={collab.self} peers={collab.peers} />
         <StatusChips
           currentNodes={nodes.length}
           currentEdges={edges.length}
@@ -1541,6 +1604,28 @@ function ReactFlowGraphInner({ blueprintEventBus, onCanvasInteraction, enableGho
         />
       )}
       {degradedBannerEnabled && <DegradedBanner />}
+      <StorageUnavailableBanner />
+      {commentsEnabled && commentPanelOpen && (
+        <Suspense fallback={null}>
+          <CommentThreadsPanel />
+        </Suspense>
+      )}
+      {auditTrailEnabled && (
+        <Suspense fallback={null}>
+          <AuditTrailHost />
+        </Suspense>
+      )}
+      {reviewingChangeSet && <ChangeSetReview />}
+      {presenterEnabled && (
+        <Suspense fallback={null}>
+          <PresenterHost />
+        </Suspense>
+      )}
+      {premortemEnabled && (
+        <Suspense fallback={null}>
+          <PremortemHost />
+        </Suspense>
+      )}
       <KeyboardLegend isOpen={isKeyboardLegendOpen} onClose={closeKeyboardLegend} />
       {showInspectorPanel && (
         <Suspense fallback={<div className="fixed inset-0 flex items-center justify-center bg-black/20"><div className="text-sm text-white">Loading...</div></div>}>
@@ -1602,6 +1687,9 @@ function ReactFlowGraphInner({ blueprintEventBus, onCanvasInteraction, enableGho
         </RightPanel>
       )}
 
+      {/* Document reader: read in full and cite passages on the selected edge or node */}
+      <DocumentsDrawer documents={documents} isOpen={documentReaderOpen} onClose={closeDocumentReader} />
+
       {/* Week 3: AI Clarifier panel */}
       {showAIClarifier && (
         <RightPanel
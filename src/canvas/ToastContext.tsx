@@ -1,14 +1,20 @@
 import { createContext, useContext, useState, ReactNode, useCallback, useMemo } from 'react'
 
+interface ToastAction {
+  label: string
+  onClick: () => void
+}
+
 interface Toast {
   id: string
   message: string
   type: 'success' | 'error' | 'info' | 'warning'
+  action?: ToastAction
 }
 
 interface ToastContextType {
   toasts: Toast[]
-  showToast: (message: string, type?: Toast['type']) => void
+  showToast: (message: string, type?: Toast['type'], action?: ToastAction) => void
   removeToast: (id: string) => void
 }
 
@@ -17,14 +23,14 @@ const ToastContext = createContext<ToastContextType | null>(null)
 export function ToastProvider({ children }: { children: ReactNode }) {
   const [toasts, setToasts] = useState<Toast[]>([])
 
-  const showToast = useCallback((message: string, type: Toast['type'] = 'info') => {
+  const showToast = useCallback((message: string, type: Toast['type'] = 'info', action?: ToastAction) => {
     const id = `toast-${Date.now()}-${Math.random()}`
-    setToasts(prev => [...prev, { id, message, type }])
+    setToasts(prev => [...prev, { id, message, type, action }])
     
-    // Auto-dismiss after 3s
+    // Auto-dismiss after 3s, or 6s when there's something to click
     setTimeout(() => {
       setToasts(prev => prev.filter(t => t.id !== id))
-    }, 3000)
+    }, action ? 6000 : 3000)
   }, [])
 
   const removeToast = useCallback((id: string) => {
@@ -92,6 +98,17 @@ function ToastContainer({ toasts, onRemove }: { toasts: Toast[]; onRemove: (id:
             </svg>
           )}
           <p className="text-sm font-medium flex-1">{toast.message}</p>
+          {toast.action && (
+            <button
+              onClick={() => {
+                toast.action!.onClick()
+                onRemove(toast.id)
+              }}
+              className="text-sm font-medium underline hover:no-underline"
+            >
+              {toast.action.label}
+            </button>
+          )}
           <button
             onClick={() => onRemove(toast.id)}
             className="p-1 hover:bg-black/5 rounded transition-colors"
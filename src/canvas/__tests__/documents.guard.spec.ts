@@ -2,14 +2,16 @@
  * Document Memory Guard Tests (P0 Hotfix)
  *
  * Verifies that addDocument:
- * - Rejects files >1MB with proper error message
- * - Truncates content to 5k chars per file
- * - Enforces 25k total char limit across documents
+ * - Rejects files >20MB with proper error message
+ * - Keeps the full text up to a 1M char hard cap per document (truncated only then)
+ * - Stores a 5k char preview on the document; the full text goes to the index
+ * - Enforces 5M total char limit across documents
  * - Stores text only + metadata (no blobs)
  */
 
 import { describe, it, expect, beforeEach } from 'vitest'
 import { useCanvasStore } from '../store'
+import { useDocumentTextStore } from '../documents/textStore'
 
 describe('Document Memory Guard', () => {
   beforeEach(() => {
@@ -20,43 +22,44 @@ describe('Document Memory Guard', () => {
   })
 
   describe('addDocument', () => {
-    it('should reject files >1MB with proper error message', () => {
+    it('should reject files >20MB with proper error message', () => {
       const { addDocument } = useCanvasStore.getState()
 
       const largeDoc = {
         name: 'large-file.pdf',
         type: 'pdf' as const,
         content: 'Some content',
-        size: 2 * 1024 * 1024 // 2MB
+        size: 21 * 1024 * 1024 // 21MB
       }
 
       expect(() => addDocument(largeDoc)).toThrow(
-        'This file is too large for in-app preview. Please reduce its size.'
+        'This file is too large to ingest (max 20MB). Please reduce its size.'
       )
     })
 
-    it('should truncate content to 5k chars and append ellipsis', () => {
+    it('should keep the full text of long documents and a 5k preview', () => {
       const { addDocument } = useCanvasStore.getState()
 
-      const longContent = 'x'.repeat(6000) // 6k chars
+      const longContent = 'word '.repeat(2000) // 10k chars
       const doc = {
         name: 'long-doc.txt',
         type: 'txt' as const,
         content: longContent,
-        size: 6000
+        size: 10000
       }
 
       const id = addDocument(doc)
       const stored = useCanvasStore.getState().documents.find(d => d.id === id)
 
       expect(stored).toBeDefined()
-      expect(stored!.content).toHaveLength(5001) // 5000 + '…'
-      expect(stored!.content.endsWith('…')).toBe(true)
-      expect(stored!.truncated).toBe(true)
-      expect(stored!.displayBytes).toBe(5001)
+      expect(stored!.content).toHaveLength(5000)
+      expect(stored!.truncated).toBe(false)
+      expect(stored!.displayBytes).toBe(10000)
+      expect(stored!.chunkCount).toBeGreaterThan(1)
+      expect(useDocumentTextStore.getState().fullText(id)).toBe(longContent)
     })
 
-    it('should not truncate content ≤5k chars', () => {
+    it('should not shorten content ≤5k chars', () => {
       const { addDocument } = useCanvasStore.getState()
 
       const shortContent = 'x'.repeat(4000) // 4k chars
@@ -77,50 +80,41 @@ describe('Document Memory Guard', () => {
       expect(stored!.displayBytes).toBe(4000)
     })
 
-    it('should enforce 25k total char limit', () => {
+    it('should truncate only at the 1M char per-document cap', () => {
       const { addDocument } = useCanvasStore.getState()
 
-      // Add first doc: 5k chars (will be stored as 5001 after truncation)
-      addDocument({
-        name: 'doc1.txt',
+      const id = addDocument({
+        name: 'huge.txt',
         type: 'txt',
-        content: 'a'.repeat(6000), // Will be truncated to 5000 + '…'
-        size: 6000
-      })
-
-      // Add second doc: 5k chars
-      addDocument({
-        name: 'doc2.txt',
-        type: 'txt',
-        content: 'b'.repeat(6000),
-        size: 6000
+        content: 'x'.repeat(1_000_001),
+        size: 1_000_001
       })
+      const stored = useCanvasStore.getState().documents.find(d => d.id === id)
 
-      // Add third doc: 5k chars
-      addDocument({
-        name: 'doc3.txt',
-        type: 'txt',
-        content: 'c'.repeat(6000),
-        size: 6000
-      })
+      expect(stored!.truncated).toBe(true)
+      expect(stored!.displayBytes).toBe(1_000_000)
+      expect(stored!.size).toBe(1_000_001) // Original size preserved
+    })
 
-      // Add fourth doc: 5k chars
-      addDocument({
-        name: 'doc4.txt',
-        type: 'txt',
-        content: 'd'.repeat(6000),
-        size: 6000
-      })
+    it('should enforce 5M total char limit', () => {
+      const { addDocument } = useCanvasStore.getState()
 
-      // Total now: 4 * 5001 = 20004 chars
+      // Five documents at the per-document cap: 5M chars
+      for (const letter of ['a', 'b', 'c', 'd', 'e']) {
+        addDocument({
+          name: `${letter}.txt`,
+          type: 'txt',
+          content: letter.repeat(1_000_000),
+          size: 1_000_000
+        })
+      }
 
-      // Try to add fifth doc: 5k chars (would exceed 25k limit)
       expect(() => addDocument({
-        name: 'doc5.txt',
+        name: 'f.txt',
         type: 'txt',
-        content: 'e'.repeat(6000),
-        size: 6000
-      })).toThrow('Document storage limit reached (25000 chars)')
+        content: 'f'.repeat(10),
+        size: 10
+      })).toThrow('Document storage limit reached (5000000 chars)')
     })
 
     it('should store text only + metadata (no blobs)', () => {
@@ -172,6 +166,16 @@ describe('Document Memory Guard', () => {
       expect(stored!.checksum!.length).toBeGreaterThan(0)
     })
 
+    it('should return the existing document for a re-upload with the same checksum', () => {
+      const { addDocument } = useCanvasStore.getState()
+
+      const first = addDocument({ name: 'paper.txt', type: 'txt', content: 'Same text', size: 9 })
+      const second = addDocument({ name: 'paper-copy.txt', type: 'txt', content: 'Same text', size: 9 })
+
+      expect(second).toBe(first)
+      expect(useCanvasStore.getState().documents).toHaveLength(1)
+    })
+
     it('should handle empty content', () => {
       const { addDocument } = useCanvasStore.getState()
 
@@ -189,65 +193,24 @@ describe('Document Memory Guard', () => {
       expect(stored!.content).toBe('')
       expect(stored!.displayBytes).toBe(0)
       expect(stored!.truncated).toBe(false)
+      expect(stored!.chunkCount).toBe(0)
     })
 
-    it('should handle exactly 5k chars (boundary)', () => {
+    it('should handle exactly 1M chars (boundary)', () => {
       const { addDocument } = useCanvasStore.getState()
 
-      const exactContent = 'x'.repeat(5000) // Exactly 5k
-      const doc = {
-        name: 'exact-5k.txt',
-        type: 'txt' as const,
-        content: exactContent,
-        size: 5000
-      }
-
-      const id = addDocument(doc)
+      const id = addDocument({
+        name: 'exact-cap.txt',
+        type: 'txt',
+        content: 'x'.repeat(1_000_000),
+        size: 1_000_000
+      })
       const stored = useCanvasStore.getState().documents.find(d => d.id === id)
 
       expect(stored).toBeDefined()
       expect(stored!.content).toHaveLength(5000)
-      expect(stored!.content).not.toContain('…')
       expect(stored!.truncated).toBe(false)
-      expect(stored!.displayBytes).toBe(5000)
-    })
-
-    it('should handle exactly 5001 chars (just over boundary)', () => {
-      const { addDocument } = useCanvasStore.getState()
-
-      const overContent = 'x'.repeat(5001) // 1 char over
-      const doc = {
-        name: 'over-5k.txt',
-        type: 'txt' as const,
-        content: overContent,
-        size: 5001
-      }
-
-      const id = addDocument(doc)
-      const stored = useCanvasStore.getState().documents.find(d => d.id === id)
-
-      expect(stored).toBeDefined()
-      expect(stored!.content).toHaveLength(5001) // 5000 + '…'
-      expect(stored!.content.endsWith('…')).toBe(true)
-      expect(stored!.truncated).toBe(true)
-    })
-
-    it('should calculate displayBytes correctly after truncation', () => {
-      const { addDocument } = useCanvasStore.getState()
-
-      const doc = {
-        name: 'test.txt',
-        type: 'txt' as const,
-        content: 'x'.repeat(7000), // Will be truncated
-        size: 7000
-      }
-
-      const id = addDocument(doc)
-      const stored = useCanvasStore.getState().documents.find(d => d.id === id)
-
-      expect(stored).toBeDefined()
-      expect(stored!.displayBytes).toBe(5001) // 5000 + '…'
-      expect(stored!.size).toBe(7000) // Original size preserved
+      expect(stored!.displayBytes).toBe(1_000_000)
     })
   })
 })
@@ -102,7 +102,7 @@ describe('Canvas Persistence', () => {
       const json = exportCanvas({ nodes: mockNodes, edges: mockEdges })
       const parsed = JSON.parse(json)
 
-      expect(parsed.version).toBe(2) // Now exports v2 via migration API
+      expect(parsed.version).toBe(3) // Exports v3 (node distributions) via migration API
       expect(parsed.nodes).toHaveLength(1)
       expect(parsed.edges).toHaveLength(1)
     })
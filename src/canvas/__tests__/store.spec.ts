@@ -447,6 +447,44 @@ describe('Canvas Store', () => {
     })
   })
 
+  describe('interim results', () => {
+    const interim = (samples: number) => ({
+      samples,
+      target_samples: 2000,
+      bands: { p10: 0.3, p50: 0.5, p90: 0.7 },
+    })
+
+    it('tracks the latest interim estimate and sample progress', () => {
+      const { resultsStart, resultsInterim } = useCanvasStore.getState()
+      resultsStart({ seed: 1 })
+      resultsInterim(interim(400))
+      resultsInterim(interim(1000))
+
+      const { results } = useCanvasStore.getState()
+      expect(results.status).toBe('streaming')
+      expect(results.interim?.samples).toBe(1000)
+      expect(results.progress).toBe(45)
+    })
+
+    it('keeps the estimate marked partial when stopped early', () => {
+      const { resultsStart, resultsInterim, resultsStoppedEarly } = useCanvasStore.getState()
+      resultsStart({ seed: 1 })
+      resultsInterim(interim(800))
+      resultsStoppedEarly()
+      // A late event from the aborted stream must not revive the run
+      useCanvasStore.getState().resultsInterim(interim(1200))
+
+      const { results } = useCanvasStore.getState()
+      expect(results.status).toBe('cancelled')
+      expect(results.stoppedEarly).toBe(true)
+      expect(results.interim?.samples).toBe(800)
+
+      useCanvasStore.getState().resultsStart({ seed: 2 })
+      expect(useCanvasStore.getState().results.interim).toBeNull()
+      expect(useCanvasStore.getState().results.stoppedEarly).toBeUndefined()
+    })
+  })
+
   describe('graphHealth from engine graph_quality', () => {
     it('derives graphHealth from report.graph_quality on resultsComplete when none exists', () => {
       const { resultsComplete } = useCanvasStore.getState()
@@ -0,0 +1,80 @@
+/**
+ * Audit Reason Prompt
+ *
+ * Small card that appears after a numeric edit (a weight, belief, prior...)
+ * asking why it was made. Answering is optional: skipping leaves the event
+ * without a reason, and one can be added later from the audit trail panel.
+ */
+
+import { useEffect, useState } from 'react'
+import { X } from 'lucide-react'
+import { typography } from '../../styles/typography'
+import { useAuditTrailStore, auditFieldName, formatAuditValue, isNumericChange } from './trail'
+
+export function AuditReasonPrompt() {
+  const event = useAuditTrailStore(s => s.events.find(e => e.id === s.promptEventId) ?? null)
+  const setReason = useAuditTrailStore(s => s.setReason)
+  const dismissPrompt = useAuditTrailStore(s => s.dismissPrompt)
+  const [draft, setDraft] = useState('')
+
+  const eventId = event?.id
+  useEffect(() => {
+    setDraft('')
+  }, [eventId])
+
+  if (!event) return null
+
+  const numeric = event.changes.filter(isNumericChange)
+  const save = () => {
+    if (draft.trim()) setReason(event.id, draft)
+    else dismissPrompt()
+  }
+
+  return (
+    <div
+      className="fixed left-4 bottom-20 z-[1500] w-80 bg-white border border-gray-200 rounded-lg shadow-panel px-4 py-3"
+      role="dialog"
+      aria-labelledby="audit-reason-title"
+      data-testid="audit-reason-prompt"
+    >
+      <div className="flex items-start justify-between gap-2">
+        <div className="min-w-0">
+          <div id="audit-reason-title" className={`${typography.label} text-gray-900`}>Why this change?</div>
+          <div className={`${typography.caption} text-gray-500 truncate`}>
+            {event.target.label}: {numeric.map(c => `${auditFieldName(c.field)} ${formatAuditValue(c.before)} → ${formatAuditValue(c.after)}`).join(', ')}
+          </div>
+        </div>
+        <button
+          type="button"
+          onClick={dismissPrompt}
+          className="p-0.5 text-gray-500 hover:text-gray-700 rounded"
+          aria-label="Skip reason"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+      <div className="flex gap-2 mt-2">
+        <input
+          type="text"
+          value={draft}
+          onChange={e => setDraft(e.target.value)}
+          onKeyDown={e => {
+            if (e.key === 'Enter') save()
+            if (e.key === 'Escape') dismissPrompt()
+          }}
+          placeholder="Optional, e.g. new survey data"
+          aria-label="Reason for change"
+          maxLength={200}
+          className="flex-1 px-2 py-1 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-info-500"
+        />
+        <button
+          type="button"
+          onClick={save}
+          className="px-2 py-1 text-sm text-white bg-info-600 hover:bg-info-700 rounded-lg transition-colors"
+        >
+          Save
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,32 @@
+/**
+ * AuditTrailHost - mounts the audit trail on the canvas
+ *
+ * Records edits for as long as the canvas is open, stamps them with the
+ * signed-in user, and shows the reason prompt and the timeline panel.
+ */
+
+import { useEffect } from 'react'
+import { useCommentAuthor } from '../comments/useCommentAuthor'
+import { installAuditRecorder } from './recorder'
+import { useAuditTrailStore, setAuditActor, DEFAULT_AUDIT_ACTOR } from './trail'
+import { AuditReasonPrompt } from './AuditReasonPrompt'
+import { AuditTrailPanel } from './AuditTrailPanel'
+
+export function AuditTrailHost() {
+  const author = useCommentAuthor()
+  const panelOpen = useAuditTrailStore(s => s.panelOpen)
+
+  useEffect(() => installAuditRecorder(), [])
+
+  useEffect(() => {
+    setAuditActor(author)
+    return () => setAuditActor(DEFAULT_AUDIT_ACTOR)
+  }, [author])
+
+  return (
+    <>
+      <AuditReasonPrompt />
+      {panelOpen && <AuditTrailPanel />}
+    </>
+  )
+}
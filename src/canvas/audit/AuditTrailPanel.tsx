@@ -0,0 +1,202 @@
+/**
+ * Audit Trail Panel
+ *
+ * Right-hand drawer listing the current scenario's model edits, newest
+ * first, filterable by node/edge, person and cause. Numeric edits can be
+ * given a reason after the fact. "Rebuild" puts the canvas back to how it
+ * was right after an event, as one undoable edit that is itself recorded.
+ */
+
+import { useMemo, useState } from 'react'
+import { History, RotateCcw, X } from 'lucide-react'
+import { useCanvasStore } from '../store'
+import { selectRecordScope } from '../store/scenarioRecords'
+import { typography } from '../../styles/typography'
+import { rebuildGraphAt } from './diff'
+import {
+  useAuditTrailStore,
+  trailForScenario,
+  auditActors,
+  describeAuditEvent,
+  isNumericChange,
+  AUDIT_CAUSES,
+  type AuditCause,
+  type AuditEvent,
+  type AuditTargetKind,
+} from './trail'
+
+const formatTime = (ms: number) =>
+  new Date(ms).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' })
+
+const selectClass = 'flex-1 min-w-0 px-2 py-1 text-sm border border-gray-300 rounded-lg bg-white'
+
+function ReasonEditor({ event, onDone }: { event: AuditEvent; onDone: () => void }) {
+  const setReason = useAuditTrailStore(s => s.setReason)
+  const [draft, setDraft] = useState(event.reason ?? '')
+
+  const save = () => {
+    setReason(event.id, draft)
+    onDone()
+  }
+
+  return (
+    <div className="flex gap-2 mt-1">
+      <input
+        type="text"
+        value={draft}
+        onChange={e => setDraft(e.target.value)}
+        onKeyDown={e => {
+          if (e.key === 'Enter') save()
+          if (e.key === 'Escape') onDone()
+        }}
+        placeholder="Why was this changed?"
+        aria-label="Reason for change"
+        maxLength={200}
+        autoFocus
+        className="flex-1 px-2 py-1 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-info-500"
+      />
+      <button
+        type="button"
+        onClick={save}
+        className="px-2 py-1 text-sm text-white bg-info-600 hover:bg-info-700 rounded-lg transition-colors"
+      >
+        Save
+      </button>
+    </div>
+  )
+}
+
+export function AuditTrailPanel() {
+  const events = useAuditTrailStore(s => s.events)
+  const closePanel = useAuditTrailStore(s => s.closePanel)
+  const scenarioId = useCanvasStore(selectRecordScope)
+  const restoreGraph = useCanvasStore(s => s.restoreGraph)
+
+  const [kind, setKind] = useState<AuditTargetKind | ''>('')
+  const [actorId, setActorId] = useState('')
+  const [cause, setCause] = useState<AuditCause | ''>('')
+  const [editingId, setEditingId] = useState<string | null>(null)
+
+  const trail = useMemo(() => trailForScenario(events, scenarioId), [events, scenarioId])
+  const actors = useMemo(() => auditActors(trail), [trail])
+  const causes = useMemo(() => [...new Set(trail.map(e => e.cause))], [trail])
+  const visible = useMemo(
+    () =>
+      trailForScenario(events, scenarioId, {
+        kind: kind || undefined,
+        actorId: actorId || undefined,
+        cause: cause || undefined,
+      }).reverse(),
+    [events, scenarioId, kind, actorId, cause]
+  )
+  const latestId = trail[trail.length - 1]?.id
+
+  const handleRebuild = (event: AuditEvent) => {
+    const { nodes, edges } = useCanvasStore.getState()
+    const graph = rebuildGraphAt({ nodes, edges }, trail, event.id)
+    if (!graph) return
+    if (!confirm(`Rebuild the canvas as it was after this change (${formatTime(event.at)})? You can undo this.`)) return
+    restoreGraph(graph)
+  }
+
+  return (
+    <div
+      className="fixed right-0 top-0 bottom-0 w-96 z-[2000] bg-white border-l border-gray-200 shadow-panel flex flex-col"
+      role="dialog"
+      aria-labelledby="audit-trail-title"
+      data-testid="audit-trail-panel"
+    >
+      <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200">
+        <div className="min-w-0">
+          <div className={`${typography.caption} text-gray-500 flex items-center gap-1`}>
+            <History className="w-3 h-3" />
+            {trail.length} {trail.length === 1 ? 'change' : 'changes'} recorded
+          </div>
+          <h3 id="audit-trail-title" className={`${typography.h4} text-gray-900`}>Audit trail</h3>
+        </div>
+        <button
+          type="button"
+          onClick={closePanel}
+          className="p-1 text-gray-500 hover:text-gray-700 rounded"
+          aria-label="Close audit trail"
+        >
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      <div className="flex gap-2 px-4 py-2 border-b border-gray-200">
+        <select value={kind} onChange={e => setKind(e.target.value as AuditTargetKind | '')} aria-label="Filter by kind" className={selectClass}>
+          <option value="">Nodes and edges</option>
+          <option value="node">Nodes</option>
+          <option value="edge">Edges</option>
+        </select>
+        <select value={actorId} onChange={e => setActorId(e.target.value)} aria-label="Filter by person" className={selectClass}>
+          <option value="">Everyone</option>
+          {actors.map(actor => (
+            <option key={actor.id} value={actor.id}>{actor.name}</option>
+          ))}
+        </select>
+        <select value={cause} onChange={e => setCause(e.target.value as AuditCause | '')} aria-label="Filter by cause" className={selectClass}>
+          <option value="">Any cause</option>
+          {causes.map(c => (
+            <option key={c} value={c}>{AUDIT_CAUSES[c]}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="flex-1 overflow-y-auto px-4 py-3">
+        {visible.length === 0 ? (
+          <p className={`${typography.caption} text-gray-500`}>
+            {trail.length === 0 ? 'No changes recorded yet.' : 'No changes match these filters.'}
+          </p>
+        ) : (
+          <ol className="space-y-3" data-testid="audit-trail-events">
+            {visible.map(event => (
+              <li key={event.id} className="border border-gray-200 rounded-lg px-3 py-2">
+                <div className={`${typography.body} text-gray-900 break-words`}>{describeAuditEvent(event)}</div>
+                <div className={`${typography.caption} text-gray-500`}>
+                  {formatTime(event.at)} · {event.actor.name}
+                  {event.cause !== 'edit' && <> · {AUDIT_CAUSES[event.cause]}</>}
+                </div>
+                {editingId === event.id ? (
+                  <ReasonEditor event={event} onDone={() => setEditingId(null)} />
+                ) : event.reason ? (
+                  <button
+                    type="button"
+                    onClick={() => setEditingId(event.id)}
+                    className={`${typography.caption} text-gray-700 italic text-left hover:underline`}
+                    title="Edit reason"
+                  >
+                    “{event.reason}”
+                  </button>
+                ) : null}
+                <div className="flex gap-3 mt-1">
+                  {!event.reason && editingId !== event.id && event.changes.some(isNumericChange) && (
+                    <button
+                      type="button"
+                      onClick={() => setEditingId(event.id)}
+                      className={`${typography.caption} text-info-700 hover:underline`}
+                    >
+                      Add reason
+                    </button>
+                  )}
+                  {event.id !== latestId && (
+                    <button
+                      type="button"
+                      onClick={() => handleRebuild(event)}
+                      className={`flex items-center gap-1 ${typography.caption} text-info-700 hover:underline`}
+                      title="Rebuild the canvas as it was after this change"
+                    >
+                      <RotateCcw className="w-3 h-3" />
+                      Rebuild
+                    </button>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ol>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,140 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import type { Node, Edge } from '@xyflow/react'
+import { useCanvasStore } from '../../store'
+import { DEFAULT_EDGE_DATA, type EdgeData } from '../../domain/edges'
+import { installAuditRecorder } from '../recorder'
+import { rebuildGraphAt } from '../diff'
+import {
+  useAuditTrailStore,
+  setAuditActor,
+  withAuditCause,
+  trailForScenario,
+  describeAuditEvent,
+  DEFAULT_AUDIT_ACTOR,
+  AUDIT_COALESCE_MS,
+} from '../trail'
+import { draftScenarioId, flushScenarioRecords } from '../../store/scenarioRecords'
+import { getScenario } from '../../store/scenarios'
+
+const ada = { id: 'u1', name: 'Ada Lovelace' }
+
+const nodes: Node[] = [
+  { id: 'price', type: 'factor', position: { x: 0, y: 0 }, data: { label: 'Price', type: 'factor' } },
+  { id: 'demand', type: 'outcome', position: { x: 300, y: 0 }, data: { label: 'Demand', type: 'outcome' } },
+]
+const edges: Edge<EdgeData>[] = [
+  { id: 'e1', source: 'price', target: 'demand', type: 'styled', data: { ...DEFAULT_EDGE_DATA, weight: 0.3 } },
+]
+
+const trail = () => trailForScenario(useAuditTrailStore.getState().events, 's1')
+
+describe('audit trail', () => {
+  let stop: () => void
+
+  beforeEach(() => {
+    localStorage.clear()
+    vi.useFakeTimers()
+    vi.setSystemTime(10_000)
+    useCanvasStore.setState({ nodes, edges, currentScenarioId: 's1', history: { past: [], future: [] } })
+    useAuditTrailStore.setState({ events: [], panelOpen: false, promptEventId: null })
+    setAuditActor(ada)
+    stop = installAuditRecorder()
+  })
+
+  afterEach(() => {
+    stop()
+    setAuditActor(DEFAULT_AUDIT_ACTOR)
+    vi.useRealTimers()
+  })
+
+  it('records a slider drag as one numeric edit and asks why', () => {
+    const store = useCanvasStore.getState()
+    store.updateEdgeData('e1', { weight: 0.5 })
+    vi.setSystemTime(10_500)
+    store.updateEdgeData('e1', { weight: 0.8 })
+
+    const [event] = trail()
+    expect(trail()).toHaveLength(1)
+    expect(event).toMatchObject({ actor: ada, cause: 'edit', action: 'updated', at: 10_500 })
+    expect(event.changes).toEqual([{ field: 'data.weight', before: 0.3, after: 0.8 }])
+    expect(describeAuditEvent(event)).toBe('Edge "Price → Demand": weight 0.3 → 0.8')
+    expect(useAuditTrailStore.getState().promptEventId).toBe(event.id)
+
+    useAuditTrailStore.getState().setReason(event.id, ' Pricing study ')
+    expect(trail()[0].reason).toBe('Pricing study')
+    expect(useAuditTrailStore.getState().promptEventId).toBeNull()
+
+    // Outside the window it's a new edit
+    vi.setSystemTime(10_500 + AUDIT_COALESCE_MS + 1)
+    store.updateEdgeData('e1', { weight: 0.6 })
+    expect(trail()).toHaveLength(2)
+  })
+
+  it('ignores layout and selection, and skips loading a scenario', () => {
+    useCanvasStore.setState({
+      nodes: nodes.map(n => (n.id === 'price' ? { ...n, position: { x: 50, y: 80 }, selected: true } : n)),
+    })
+    withAuditCause('load', () => useCanvasStore.setState({ nodes: [], edges: [] }))
+    expect(trail()).toEqual([])
+  })
+
+  it('tags repairs, undo and removals with their cause', () => {
+    const store = useCanvasStore.getState()
+    store.updateNodeLabel('price', 'Unit price')
+    withAuditCause('repair', () => useCanvasStore.getState().deleteEdge('e1'))
+    store.undo()
+
+    expect(trail().map(e => [e.target.id, e.action, e.cause])).toEqual([
+      ['price', 'updated', 'edit'],
+      ['e1', 'deleted', 'repair'],
+      ['e1', 'added', 'undo'],
+    ])
+    expect(useCanvasStore.getState().edges.map(e => e.id)).toEqual(['e1'])
+  })
+
+  it('rebuilds the graph as of an earlier event', () => {
+    const store = useCanvasStore.getState()
+    store.updateEdgeData('e1', { weight: 0.9 })
+    vi.setSystemTime(20_000)
+    store.addNode({ x: 0, y: 300 }, 'risk')
+    vi.setSystemTime(30_000)
+    store.deleteEdge('e1')
+
+    const events = trail()
+    expect(events.map(e => `${e.target.kind}:${e.action}`)).toEqual(['edge:updated', 'node:added', 'edge:deleted'])
+
+    const { nodes: current, edges: currentEdges } = useCanvasStore.getState()
+    const rebuilt = rebuildGraphAt({ nodes: current, edges: currentEdges }, events, events[0].id)!
+    expect(rebuilt.nodes.map(n => n.id)).toEqual(['price', 'demand'])
+    expect(rebuilt.edges.map(e => [e.id, (e.data as EdgeData).weight])).toEqual([['e1', 0.9]])
+
+    // Applying it is one undoable, recorded edit
+    useCanvasStore.getState().restoreGraph(rebuilt)
+    expect(trail().slice(3).map(e => `${e.target.kind}:${e.action}:${e.cause}`)).toEqual([
+      'node:deleted:restore',
+      'edge:added:restore',
+    ])
+  })
+
+  it('moves the unsaved trail to the scenario, and follows duplicates and deletes', () => {
+    useCanvasStore.setState({ currentScenarioId: null })
+    useCanvasStore.getState().updateNodeLabel('demand', 'Units sold')
+    const draftId = draftScenarioId()
+    expect(trailForScenario(useAuditTrailStore.getState().events, draftId)).toHaveLength(1)
+
+    const saved = useCanvasStore.getState().saveCurrentScenario('Pricing')!
+    expect(trailForScenario(useAuditTrailStore.getState().events, saved)).toHaveLength(1)
+    expect(trailForScenario(useAuditTrailStore.getState().events, draftId)).toHaveLength(0)
+
+    const copyId = useCanvasStore.getState().duplicateCurrentScenario()!
+    useCanvasStore.getState().deleteScenario(saved)
+    const [copy] = useAuditTrailStore.getState().events
+    expect(copy).toMatchObject({ scenarioId: copyId, target: { id: 'demand', label: 'Units sold' } })
+
+    // Written with the scenario once the batched write goes out
+    expect(getScenario(copyId)?.audit_trail).toBeUndefined()
+    flushScenarioRecords()
+    expect(getScenario(copyId)?.audit_trail).toHaveLength(1)
+    expect(getScenario(saved)).toBeUndefined()
+  })
+})
@@ -0,0 +1,145 @@
+/**
+ * Graph diffing and replay for the audit trail
+ *
+ * diffGraph turns two versions of the canvas into audit changes; only the
+ * model counts (kind, data, connections), not where a node sits or whether
+ * it is selected. Clarifier preview ghosts are not part of the model either.
+ *
+ * rebuildGraphAt replays the trail backwards from the current canvas, so it
+ * works for scenarios whose trail started after they were created.
+ */
+
+import type { Node, Edge } from '@xyflow/react'
+import { stableStringify, withoutTransientKeys } from '../store/utils'
+import type { AuditChange, AuditEntity, AuditEvent, AuditFieldChange, AuditTargetKind } from './trail'
+
+export interface AuditGraph {
+  nodes: Node[]
+  edges: Edge[]
+}
+
+const MODEL_FIELDS: Record<AuditTargetKind, readonly string[]> = {
+  node: ['type', 'parentId', 'data'],
+  edge: ['source', 'target', 'sourceHandle', 'targetHandle', 'type', 'label', 'data'],
+}
+
+type Entity = Node | Edge
+
+const isPreview = (entity: Entity) => Boolean((entity.data as { isPreview?: boolean } | undefined)?.isPreview)
+
+// Plain JSON, so events can be stored and compared as-is
+const toAuditEntity = (entity: Entity): AuditEntity => JSON.parse(JSON.stringify(withoutTransientKeys(entity)))
+
+function fieldChanges(kind: AuditTargetKind, before: Entity, after: Entity): AuditFieldChange[] {
+  const changes: AuditFieldChange[] = []
+  const a = before as unknown as Record<string, unknown>
+  const b = after as unknown as Record<string, unknown>
+
+  for (const field of MODEL_FIELDS[kind]) {
+    if (field !== 'data') {
+      if (stableStringify(a[field]) !== stableStringify(b[field])) {
+        changes.push({ field, before: a[field], after: b[field] })
+      }
+      continue
+    }
+    if (a.data === b.data) continue
+    const beforeData = (a.data ?? {}) as Record<string, unknown>
+    const afterData = (b.data ?? {}) as Record<string, unknown>
+    for (const key of new Set([...Object.keys(beforeData), ...Object.keys(afterData)])) {
+      if (stableStringify(beforeData[key]) !== stableStringify(afterData[key])) {
+        changes.push({ field: `data.${key}`, before: beforeData[key], after: afterData[key] })
+      }
+    }
+  }
+  // Stored as JSON: drop anything that doesn't survive it
+  return JSON.parse(JSON.stringify(changes))
+}
+
+const nodeLabel = (node: Node | undefined, fallback: string) => {
+  const label = node?.data?.label
+  return typeof label === 'string' && label.trim() ? label : fallback
+}
+
+function diffEntities<T extends Entity>(
+  kind: AuditTargetKind,
+  prev: T[],
+  next: T[],
+  label: (entity: T) => string
+): AuditChange[] {
+  if (prev === next) return []
+  const changes: AuditChange[] = []
+  const prevById = new Map(prev.filter(e => !isPreview(e)).map(e => [e.id, e]))
+  const nextIds = new Set<string>()
+
+  for (const entity of next) {
+    if (isPreview(entity)) continue
+    nextIds.add(entity.id)
+    const before = prevById.get(entity.id)
+    if (!before) {
+      changes.push({ target: { kind, id: entity.id, label: label(entity) }, action: 'added', before: null, after: toAuditEntity(entity), changes: [] })
+      continue
+    }
+    if (before === entity) continue
+    const fields = fieldChanges(kind, before, entity)
+    if (fields.length === 0) continue
+    changes.push({
+      target: { kind, id: entity.id, label: label(entity) },
+      action: 'updated',
+      before: toAuditEntity(before),
+      after: toAuditEntity(entity),
+      changes: fields,
+    })
+  }
+
+  for (const [id, entity] of prevById) {
+    if (nextIds.has(id)) continue
+    changes.push({ target: { kind, id, label: label(entity) }, action: 'deleted', before: toAuditEntity(entity), after: null, changes: [] })
+  }
+  return changes
+}
+
+/** Model changes between two versions of the canvas: nodes first, then edges */
+export function diffGraph(prev: AuditGraph, next: AuditGraph): AuditChange[] {
+  const nodes = diffEntities<Node>('node', prev.nodes, next.nodes, node => nodeLabel(node, node.id))
+
+  const findNode = (id: string) => next.nodes.find(n => n.id === id) ?? prev.nodes.find(n => n.id === id)
+  const edges = diffEntities<Edge>('edge', prev.edges, next.edges, edge => {
+    const own = (edge.data as { label?: unknown } | undefined)?.label
+    const ends = `${nodeLabel(findNode(edge.source), edge.source)} → ${nodeLabel(findNode(edge.target), edge.target)}`
+    return typeof own === 'string' && own.trim() ? `${ends} (${own})` : ends
+  })
+
+  return [...nodes, ...edges]
+}
+
+/**
+ * The graph as it was right after `eventId`: undo every later event of the
+ * trail, newest first. Nodes that still exist keep their current position.
+ * Returns null when the event is not in the trail.
+ */
+export function rebuildGraphAt(current: AuditGraph, trail: AuditEvent[], eventId: string): AuditGraph | null {
+  const index = trail.findIndex(e => e.id === eventId)
+  if (index === -1) return null
+
+  const nodes = new Map(current.nodes.map(n => [n.id, withoutTransientKeys(n)]))
+  const edges = new Map(current.edges.map(e => [e.id, withoutTransientKeys(e)]))
+
+  for (const event of trail.slice(index + 1).reverse()) {
+    const entities = (event.target.kind === 'node' ? nodes : edges) as Map<string, Entity>
+    const existing = entities.get(event.target.id)
+    if (!event.before) {
+      entities.delete(event.target.id)
+    } else if (existing && 'position' in existing && existing.position) {
+      entities.set(event.target.id, { ...(event.before as unknown as Node), position: existing.position })
+    } else {
+      entities.set(event.target.id, event.before as unknown as Entity)
+    }
+  }
+
+  const rebuiltNodes = [...nodes.values()]
+  const nodeIds = new Set(rebuiltNodes.map(n => n.id))
+  return {
+    nodes: rebuiltNodes,
+    edges: [...edges.values()].filter(e => nodeIds.has(e.source) && nodeIds.has(e.target)),
+  }
+}
@@ -0,0 +1,30 @@
+/**
+ * Audit recorder - turns canvas store updates into audit trail events
+ *
+ * Watches nodes and edges in the canvas store and records whatever changed,
+ * whichever code path changed it. The cause comes from withAuditCause
+ * around the update; loading a scenario is not an edit and is skipped.
+ */
+
+import { useCanvasStore } from '../store'
+import { selectRecordScope } from '../store/scenarioRecords'
+import { diffGraph } from './diff'
+import { useAuditTrailStore, currentAuditActor, currentAuditCause } from './trail'
+
+/** Start recording; returns the function that stops it */
+export function installAuditRecorder(): () => void {
+  return useCanvasStore.subscribe((state, prev) => {
+    if (state.nodes === prev.nodes && state.edges === prev.edges) return
+    const cause = currentAuditCause()
+    // Switching scenario swaps the whole graph: nothing was edited
+    if (cause === 'load' || state.currentScenarioId !== prev.currentScenarioId) return
+
+    const changes = diffGraph(prev, state)
+    if (changes.length === 0) return
+    useAuditTrailStore.getState().record(changes, {
+      scenarioId: selectRecordScope(state),
+      actor: currentAuditActor(),
+      cause,
+    })
+  })
+}
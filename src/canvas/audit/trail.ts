@@ -0,0 +1,303 @@
+/**
+ * Audit Trail
+ *
+ * Append-only record of model edits: every node or edge that is added,
+ * changed or removed becomes one event with who did it, what caused it
+ * (a plain edit, a repair, an AI suggestion, a template, an import, undo...),
+ * and the entity before and after. Moving nodes around is layout, not a
+ * model edit, so positions are never recorded.
+ *
+ * Events are written by the recorder (see recorder.ts) and saved with the
+ * current scenario (see scenarioRecords.ts).
+ *
+ * A run of changes to the same node or edge by the same person is folded
+ * into one event (dragging a slider is one edit, not forty), and numeric
+ * changes can be given a reason afterwards.
+ */
+
+import { create } from 'zustand'
+import { generateRecordId, scenarioRecords, type ScenarioRecordCollection } from '../store/scenarioRecords'
+import { stableStringify } from '../store/utils'
+
+/** Changes to the same target within this window fold into one event */
+export const AUDIT_COALESCE_MS = 2000
+/** Oldest events of a scenario are dropped beyond this */
+export const MAX_AUDIT_EVENTS = 2000
+
+export type AuditTargetKind = 'node' | 'edge'
+export type AuditAction = 'added' | 'updated' | 'deleted'
+export type AuditCause =
+  | 'edit'
+  | 'repair'
+  | 'clarifier'
+  | 'suggestion'
+  | 'template'
+  | 'import'
+  | 'undo'
+  | 'redo'
+  | 'restore'
+  | 'remote'
+  | 'premortem'
+
+export const AUDIT_CAUSES: Record<AuditCause, string> = {
+  edit: 'Edit',
+  repair: 'Repair',
+  clarifier: 'AI clarifier',
+  suggestion: 'AI suggestion',
+  template: 'Template',
+  import: 'Import',
+  undo: 'Undo',
+  redo: 'Redo',
+  restore: 'Restore',
+  remote: 'Co-editor',
+  premortem: 'Pre-mortem',
+}
+
+export interface AuditActor {
+  id: string
+  name: string
+}
+
+export const DEFAULT_AUDIT_ACTOR: AuditActor = { id: 'guest', name: 'Guest' }
+// A collaborator's change whose author couldn't be identified
+export const REMOTE_AUDIT_ACTOR: AuditActor = { id: 'collaborator', name: 'Collaborator' }
+
+/** A node or edge as stored in the trail (no selection, drag or measurement state) */
+export type AuditEntity = Record<string, unknown> & { id: string }
+
+export interface AuditFieldChange {
+  field: string // Top-level key, or data.<key>
+  before: unknown
+  after: unknown
+}
+
+export interface AuditEvent {
+  id: string
+  scenarioId: string
+  at: number // timestamp ms
+  actor: AuditActor
+  cause: AuditCause
+  target: { kind: AuditTargetKind; id: string; label: string }
+  action: AuditAction
+  before: AuditEntity | null // null when added
+  after: AuditEntity | null // null when deleted
+  changes: AuditFieldChange[] // Only for updates
+  reason?: string
+}
+
+/** One change found by the recorder, before it is stamped with scenario, actor and time */
+export type AuditChange = Pick<AuditEvent, 'target' | 'action' | 'before' | 'after' | 'changes'>
+
+export interface AuditRecordContext {
+  scenarioId: string
+  actor: AuditActor
+  cause: AuditCause
+  at?: number
+}
+
+interface AuditTrailState {
+  events: AuditEvent[] // Oldest first
+  panelOpen: boolean
+  promptEventId: string | null // Numeric edit waiting for an optional reason
+
+  record: (changes: AuditChange[], context: AuditRecordContext) => void
+  setReason: (eventId: string, reason: string) => void
+  dismissPrompt: () => void
+
+  openPanel: () => void
+  closePanel: () => void
+}
+
+// ============================================================================
+// Cause and actor of the change being applied
+// ============================================================================
+
+let activeCause: AuditCause | 'load' | null = null
+let activeActor: AuditActor | null = null
+let currentActor: AuditActor = DEFAULT_AUDIT_ACTOR
+
+/**
+ * Run a graph update with a cause other than a plain edit, optionally made by
+ * someone other than the local user (a collaborator). 'load' (opening a
+ * scenario, recovering autosave) is not recorded at all. The outermost cause
+ * wins, so a collab undo stays an undo when the doc hands it back.
+ */
+export function withAuditCause<T>(cause: AuditCause | 'load', fn: () => T, actor?: AuditActor): T {
+  if (activeCause) return fn()
+  activeCause = cause
+  activeActor = actor ?? null
+  try {
+    return fn()
+  } finally {
+    activeCause = null
+    activeActor = null
+  }
+}
+
+export function currentAuditCause(): AuditCause | 'load' {
+  return activeCause ?? 'edit'
+}
+
+export function setAuditActor(actor: AuditActor): void {
+  currentActor = actor
+}
+
+/** Who the change being applied is by: the local user unless it came from a collaborator */
+export function currentAuditActor(): AuditActor {
+  return activeActor ?? (activeCause === 'remote' ? REMOTE_AUDIT_ACTOR : currentActor)
+}
+
+// ============================================================================
+// Store
+// ============================================================================
+
+const trailRecords: ScenarioRecordCollection<AuditEvent> = scenarioRecords('audit_trail', {
+  read: () => useAuditTrailStore.getState().events,
+  write: events => useAuditTrailStore.setState({ events }),
+  idPrefix: 'audit',
+})
+
+const sameValue = (a: unknown, b: unknown) => stableStringify(a) === stableStringify(b)
+
+export const isNumericChange = (change: AuditFieldChange) =>
+  typeof change.before === 'number' && typeof change.after === 'number'
+
+/** Fold a later update into an earlier one: first before, last after; fields back where they started drop out */
+function foldUpdate(earlier: AuditEvent, later: AuditChange, at: number): AuditEvent {
+  const changes = earlier.changes.map(c => ({ ...c }))
+  for (const change of later.changes) {
+    const existing = changes.find(c => c.field === change.field)
+    if (existing) existing.after = change.after
+    else changes.push({ ...change })
+  }
+  return {
+    ...earlier,
+    at,
+    target: later.target,
+    after: later.after,
+    changes: changes.filter(c => !sameValue(c.before, c.after)),
+  }
+}
+
+function pruneScenario(events: AuditEvent[], scenarioId: string): AuditEvent[] {
+  const count = events.filter(e => e.scenarioId === scenarioId).length
+  if (count <= MAX_AUDIT_EVENTS) return events
+  let drop = count - MAX_AUDIT_EVENTS
+  return events.filter(e => {
+    if (drop > 0 && e.scenarioId === scenarioId) {
+      drop--
+      return false
+    }
+    return true
+  })
+}
+
+export const useAuditTrailStore = create<AuditTrailState>((set, get) => {
+  const commit = (events: AuditEvent[], partial: Partial<AuditTrailState> = {}) => {
+    trailRecords.save(events, get().events)
+    set({ events, ...partial })
+  }
+
+  return {
+    events: trailRecords.load(),
+    panelOpen: false,
+    promptEventId: null,
+
+    record: (changes, { scenarioId, actor, cause, at = Date.now() }) => {
+      if (changes.length === 0) return
+      const events = [...get().events]
+      let prompt = get().promptEventId
+
+      for (const change of changes) {
+        const last = events[events.length - 1]
+        const folds =
+          change.action === 'updated' &&
+          last?.action === 'updated' &&
+          last.scenarioId === scenarioId &&
+          last.target.kind === change.target.kind &&
+          last.target.id === change.target.id &&
+          last.actor.id === actor.id &&
+          last.cause === cause &&
+          at - last.at <= AUDIT_COALESCE_MS
+
+        let event: AuditEvent
+        if (folds) {
+          event = foldUpdate(last, change, at)
+          if (event.changes.length === 0) {
+            // Edited back to where it started: nothing happened
+            events.pop()
+            if (prompt === last.id) prompt = null
+            continue
+          }
+          events[events.length - 1] = event
+        } else {
+          event = { id: generateRecordId('audit'), scenarioId, at, actor, cause, ...change }
+          events.push(event)
+        }
+
+        if (cause === 'edit' && event.changes.some(isNumericChange)) prompt = event.id
+      }
+
+      commit(pruneScenario(events, scenarioId), { promptEventId: prompt })
+    },
+
+    setReason: (eventId, reason) => {
+      const trimmed = reason.trim()
+      const events = get().events.map(e => (e.id === eventId ? { ...e, reason: trimmed || undefined } : e))
+      commit(events, get().promptEventId === eventId ? { promptEventId: null } : {})
+    },
+
+    dismissPrompt: () => set({ promptEventId: null }),
+
+    openPanel: () => set({ panelOpen: true }),
+    closePanel: () => set({ panelOpen: false }),
+  }
+})
+
+// ============================================================================
+// Selectors
+// ============================================================================
+
+export interface AuditFilter {
+  kind?: AuditTargetKind
+  actorId?: string
+  cause?: AuditCause
+}
+
+/** A scenario's events, oldest first, narrowed by kind, actor and cause */
+export function trailForScenario(events: AuditEvent[], scenarioId: string, filter: AuditFilter = {}): AuditEvent[] {
+  return events.filter(
+    e =>
+      e.scenarioId === scenarioId &&
+      (!filter.kind || e.target.kind === filter.kind) &&
+      (!filter.actorId || e.actor.id === filter.actorId) &&
+      (!filter.cause || e.cause === filter.cause)
+  )
+}
+
+/** Everyone who appears in a trail, in order of first appearance */
+export function auditActors(events: AuditEvent[]): AuditActor[] {
+  const seen = new Map<string, AuditActor>()
+  for (const e of events) if (!seen.has(e.actor.id)) seen.set(e.actor.id, e.actor)
+  return [...seen.values()]
+}
+
+export function formatAuditValue(value: unknown): string {
+  if (value === undefined || value === null || value === '') return '—'
+  if (typeof value === 'number') return String(Math.round(value * 1000) / 1000)
+  if (typeof value === 'string') return value.length > 40 ? `${value.slice(0, 39)}…` : value
+  return JSON.stringify(value)
+}
+
+export const auditFieldName = (field: string) => field.replace(/^data\./, '')
+
+/** One line per event, e.g. 'Edge "Price → Demand": weight 0.3 → 0.8' */
+export function describeAuditEvent(event: AuditEvent): string {
+  const target = `${event.target.kind === 'node' ? 'Node' : 'Edge'} "${event.target.label}"`
+  if (event.action === 'added') return `${target} added`
+  if (event.action === 'deleted') return `${target} deleted`
+  const changes = event.changes
+    .map(c => `${auditFieldName(c.field)} ${formatAuditValue(c.before)} → ${formatAuditValue(c.after)}`)
+    .join(', ')
+  return `${target}: ${changes}`
+}
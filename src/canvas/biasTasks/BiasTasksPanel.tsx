@@ -0,0 +1,282 @@
+/**
+ * Bias Tasks Panel
+ *
+ * Runs a bias check on the current graph and lists the suggested
+ * interventions as tasks. Ticking a task off re-runs the check, and the
+ * before/after profile shows which biases the work has dealt with.
+ *
+ * Two kinds of task have a guided flow: listing a failure scenario adds a
+ * risk node wired to the node the bias affects, and seeking disconfirming
+ * evidence selects that node and opens the documents list, so a passage
+ * can be cited against it from the reader.
+ */
+
+import { useMemo, useState } from 'react'
+import { typography } from '../../styles/typography'
+import { useCanvasStore } from '../store'
+import { selectRecordScope } from '../store/scenarioRecords'
+import { useDocumentReaderStore } from '../documents/readerStore'
+import { useBiasCheck } from './hooks'
+import {
+  biasLabel,
+  compareBiasProfiles,
+  guideForAction,
+  tasksForScenario,
+  useBiasTasksStore,
+  type BiasChangeStatus,
+  type BiasCheckRecord,
+  type BiasTask,
+} from './tasks'
+
+const STATUS_LABELS: Record<BiasChangeStatus, string> = {
+  resolved: 'Resolved',
+  improved: 'Improved',
+  unchanged: 'Unchanged',
+  worse: 'Worse',
+  new: 'New',
+}
+
+const STATUS_CLASSES: Record<BiasChangeStatus, string> = {
+  resolved: 'text-mint-700',
+  improved: 'text-mint-700',
+  unchanged: 'text-ink-500',
+  worse: 'text-carrot-700',
+  new: 'text-carrot-700',
+}
+
+const SEVERITY_CLASSES: Record<BiasTask['severity'], string> = {
+  high: 'text-carrot-700',
+  medium: 'text-sun-700',
+  low: 'text-ink-500',
+}
+
+export function BiasTasksPanel() {
+  const nodeCount = useCanvasStore(s => s.nodes.length)
+  const scenarioId = useCanvasStore(selectRecordScope)
+  const allTasks = useBiasTasksStore(s => s.tasks)
+  const checks = useBiasTasksStore(s => s.checks)
+  const setTaskDone = useBiasTasksStore(s => s.setTaskDone)
+  const { checking, error, runCheck } = useBiasCheck()
+
+  const tasks = useMemo(() => tasksForScenario(allTasks, scenarioId), [allTasks, scenarioId])
+  const check = checks.find(c => c.scenarioId === scenarioId)
+
+  const handleDone = (task: BiasTask, done: boolean) => {
+    setTaskDone(task.id, done)
+    if (done) void runCheck()
+  }
+
+  if (nodeCount === 0) return null
+
+  return (
+    <div className="space-y-2 border-t border-sand-200 pt-3" data-testid="bias-tasks-panel">
+      <div className="flex items-center justify-between gap-2">
+        <div className={`${typography.label} text-ink-900`}>Bias mitigation</div>
+        <button
+          type="button"
+          onClick={() => void runCheck()}
+          disabled={checking}
+          className={`${typography.caption} px-2 py-1 rounded border border-sand-200 text-sky-700 hover:bg-sky-50 disabled:opacity-50`}
+          data-testid="bias-check-button"
+        >
+          {checking ? 'Checking…' : check ? 'Re-check' : 'Check for biases'}
+        </button>
+      </div>
+
+      {error && (
+        <p className={`${typography.caption} text-carrot-700`} role="alert">
+          Bias check failed: {error.message}
+        </p>
+      )}
+
+      {!check && !error && (
+        <p className={`${typography.caption} text-ink-500`}>
+          Check the graph for cognitive biases; each suggested intervention becomes a task on this scenario.
+        </p>
+      )}
+
+      {check && <BiasProfileSummary check={check} />}
+
+      {tasks.length > 0 && (
+        <ul className="space-y-2" data-testid="bias-task-list">
+          {tasks.map(task => (
+            <BiasTaskRow key={task.id} task={task} onDone={done => handleDone(task, done)} />
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
+
+function BiasProfileSummary({ check }: { check: BiasCheckRecord }) {
+  const { before, after } = check
+
+  if (!after) {
+    const high = before.findings.filter(f => f.severity === 'high').length
+    return (
+      <p className={`${typography.caption} text-ink-500`} data-testid="bias-profile">
+        {before.findings.length} {before.findings.length === 1 ? 'bias' : 'biases'} found ({high} high severity) ·
+        quality {before.quality}/10
+      </p>
+    )
+  }
+
+  const changes = compareBiasProfiles(before, after)
+
+  return (
+    <div className="rounded-lg border border-sand-200 bg-paper-50 px-3 py-2 space-y-1" data-testid="bias-profile-comparison">
+      <div className={`${typography.caption} text-ink-700`}>
+        Before → after: quality {before.quality}/10 → {after.quality}/10, {before.findings.length} →{' '}
+        {after.findings.length} {after.findings.length === 1 ? 'finding' : 'findings'}
+      </div>
+      {changes.length > 0 && (
+        <ul className="space-y-0.5">
+          {changes.map(change => (
+            <li key={change.type} className={`${typography.caption} flex items-center justify-between gap-2`}>
+              <span className="text-ink-900">{biasLabel(change.type)}</span>
+              <span className={STATUS_CLASSES[change.status]}>
+                {change.before ?? 'none'} → {change.after ?? 'none'} · {STATUS_LABELS[change.status]}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
+
+function BiasTaskRow({ task, onDone }: { task: BiasTask; onDone: (done: boolean) => void }) {
+  const updateTask = useBiasTasksStore(s => s.updateTask)
+  const guide = guideForAction(task.action)
+  const overdue = !task.done && !!task.dueDate && task.dueDate < new Date().toISOString().slice(0, 10)
+
+  return (
+    <li className="rounded-lg border border-sand-200 px-3 py-2 space-y-1.5" data-testid="bias-task">
+      <label className="flex items-start gap-2">
+        <input
+          type="checkbox"
+          checked={task.done}
+          onChange={e => onDone(e.target.checked)}
+          className="w-4 h-4 mt-0.5 flex-shrink-0"
+        />
+        <span className="flex-1">
+          <span className={`${typography.bodySmall} ${task.done ? 'line-through text-ink-500' : 'text-ink-900'}`}>
+            {task.action}
+          </span>
+          <span className={`block ${typography.caption} ${SEVERITY_CLASSES[task.severity]}`}>
+            {biasLabel(task.biasType)} · {task.severity} · ~{task.estimatedMinutes} min
+          </span>
+        </span>
+      </label>
+      {task.description && <p className={`${typography.caption} text-ink-500 pl-6`}>{task.description}</p>}
+
+      <div className="flex flex-wrap items-center gap-2 pl-6">
+        <input
+          type="text"
+          value={task.assignee ?? ''}
+          onChange={e => updateTask(task.id, { assignee: e.target.value || undefined })}
+          placeholder="Assignee"
+          aria-label={`Assignee for "${task.action}"`}
+          className={`w-28 px-1.5 py-0.5 border border-sand-200 rounded bg-white ${typography.caption}`}
+        />
+        <input
+          type="date"
+          value={task.dueDate ?? ''}
+          onChange={e => updateTask(task.id, { dueDate: e.target.value || undefined })}
+          aria-label={`Due date for "${task.action}"`}
+          className={`px-1.5 py-0.5 border rounded bg-white ${typography.caption} ${overdue ? 'border-carrot-400' : 'border-sand-200'}`}
+        />
+        {overdue && <span className={`${typography.caption} text-carrot-700`}>Overdue</span>}
+      </div>
+
+      {!task.done && guide === 'failure-scenario' && <FailureScenarioFlow task={task} onAdded={() => onDone(true)} />}
+      {!task.done && guide === 'disconfirming-evidence' && <DisconfirmingEvidenceFlow task={task} />}
+    </li>
+  )
+}
+
+/** First affected node still on the canvas */
+function affectedNodeId(task: BiasTask): string | undefined {
+  const { nodes } = useCanvasStore.getState()
+  return task.affectedNodes.find(id => nodes.some(n => n.id === id))
+}
+
+function FailureScenarioFlow({ task, onAdded }: { task: BiasTask; onAdded: () => void }) {
+  const [open, setOpen] = useState(false)
+  const [text, setText] = useState('')
+
+  const handleAdd = () => {
+    const label = text.trim()
+    if (!label) return
+
+    const canvas = useCanvasStore.getState()
+    const targetId = affectedNodeId(task)
+    const target = canvas.nodes.find(n => n.id === targetId)
+    const position = target ? { x: target.position.x - 220, y: target.position.y + 140 } : undefined
+
+    canvas.addNode(position, 'risk')
+    const { nodes } = useCanvasStore.getState()
+    const riskId = nodes[nodes.length - 1].id
+    canvas.updateNodeLabel(riskId, label)
+    if (targetId) canvas.addEdge({ source: riskId, target: targetId })
+    canvas.selectNodeWithoutHistory(riskId)
+
+    setText('')
+    setOpen(false)
+    onAdded()
+  }
+
+  if (!open) {
+    return (
+      <button
+        type="button"
+        onClick={() => setOpen(true)}
+        className={`ml-6 ${typography.caption} text-sky-600 hover:underline`}
+      >
+        List a failure scenario
+      </button>
+    )
+  }
+
+  return (
+    <div className="flex items-center gap-2 pl-6">
+      <input
+        type="text"
+        value={text}
+        onChange={e => setText(e.target.value)}
+        onKeyDown={e => e.key === 'Enter' && handleAdd()}
+        placeholder="How could this decision fail?"
+        aria-label="Failure scenario"
+        autoFocus
+        className={`flex-1 px-1.5 py-0.5 border border-sand-200 rounded bg-white ${typography.caption}`}
+      />
+      <button
+        type="button"
+        onClick={handleAdd}
+        disabled={!text.trim()}
+        className={`${typography.caption} px-2 py-0.5 rounded bg-sky-500 text-white hover:bg-sky-600 disabled:opacity-50`}
+      >
+        Add risk
+      </button>
+    </div>
+  )
+}
+
+function DisconfirmingEvidenceFlow({ task }: { task: BiasTask }) {
+  // Selecting the affected node makes it the reader's citation target
+  const handleOpen = () => {
+    const targetId = affectedNodeId(task)
+    if (targetId) useCanvasStore.getState().selectNodeWithoutHistory(targetId)
+    useDocumentReaderStore.getState().openList()
+  }
+
+  return (
+    <button
+      type="button"
+      onClick={handleOpen}
+      className={`ml-6 ${typography.caption} text-sky-600 hover:underline`}
+    >
+      Seek disconfirming evidence
+    </button>
+  )
+}
@@ -0,0 +1,148 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { render, screen, fireEvent, waitFor } from '@testing-library/react'
+import type { CEEBiasFinding, CEEInsightsResponse } from '../../../adapters/cee/types'
+import { useCanvasStore } from '../../store'
+import { useDocumentReaderStore } from '../../documents/readerStore'
+import {
+  biasReadinessBlockers,
+  compareBiasProfiles,
+  guideForAction,
+  tasksForScenario,
+  useBiasTasksStore,
+  withBiasBlockers,
+} from '../tasks'
+import { BiasTasksPanel } from '../BiasTasksPanel'
+import { adoptDraftRecords, draftScenarioId, flushScenarioRecords } from '../../store/scenarioRecords'
+import { createScenario, getScenario } from '../../store/scenarios'
+
+const biasCheck = vi.fn()
+vi.mock('../../../adapters/cee/client', async importOriginal => {
+  const actual = await importOriginal<typeof import('../../../adapters/cee/client')>()
+  return { ...actual, CEEClient: class { biasCheck = biasCheck } }
+})
+
+const confirmation: CEEBiasFinding = {
+  id: 'b1',
+  type: 'confirmation',
+  severity: 'high',
+  description: 'Only supporting evidence is modelled',
+  affectedNodes: ['n1'],
+  interventions: [
+    { action: 'List a failure scenario', effort: 'quick', estimatedMinutes: 5, description: 'Imagine it went wrong' },
+    { action: 'Seek disconfirming evidence', effort: 'moderate', estimatedMinutes: 20, description: 'Find a source that disagrees' },
+  ],
+}
+const anchoring: CEEBiasFinding = {
+  id: 'b2',
+  type: 'anchoring',
+  severity: 'medium',
+  description: 'Estimates cluster around the first figure',
+  affectedNodes: [],
+  interventions: [{ action: 'Re-estimate from a base rate', effort: 'quick', estimatedMinutes: 10, description: '' }],
+}
+
+const response = (quality: number, findings: CEEBiasFinding[]): CEEInsightsResponse => ({
+  quality_overall: quality,
+  bias_findings: findings,
+  completeness: {} as CEEInsightsResponse['completeness'],
+  structural_health: { warnings: [] } as unknown as CEEInsightsResponse['structural_health'],
+})
+
+const store = () => useBiasTasksStore.getState()
+
+beforeEach(() => {
+  localStorage.clear()
+  biasCheck.mockReset()
+  useBiasTasksStore.setState({ tasks: [], checks: [] })
+})
+
+describe('bias tasks', () => {
+  it('turns interventions into tasks once per scenario and compares checks with the first', () => {
+    store().recordCheck('s1', response(4, [confirmation, anchoring]))
+    store().recordCheck('s1', response(6, [{ ...confirmation, id: 'b9', severity: 'medium' }]))
+
+    const tasks = tasksForScenario(store().tasks, 's1')
+    expect(tasks.map(t => t.action)).toEqual([
+      'List a failure scenario',
+      'Seek disconfirming evidence',
+      'Re-estimate from a base rate',
+    ])
+    expect(tasks.map(t => guideForAction(t.action))).toEqual(['failure-scenario', 'disconfirming-evidence', null])
+
+    const [check] = store().checks
+    expect(compareBiasProfiles(check.before, check.after!)).toEqual([
+      { type: 'confirmation', before: 'high', after: 'medium', status: 'improved' },
+      { type: 'anchoring', before: 'medium', after: null, status: 'resolved' },
+    ])
+  })
+
+  it('blocks readiness on high-severity findings until a re-check clears them', () => {
+    store().recordCheck(draftScenarioId(), response(4, [confirmation, anchoring]))
+    const [first] = store().tasks
+    store().setTaskDone(first.id, true)
+
+    const blockers = () => biasReadinessBlockers(store().checks[0], store().tasks)
+    expect(blockers()).toEqual(['Confirmation bias unresolved (1 of 2 mitigation tasks open)'])
+
+    // Saving the canvas hands the tasks and checks to the new scenario
+    const { id: scenarioId } = createScenario({ name: 'Launch', nodes: [], edges: [] })
+    adoptDraftRecords(scenarioId)
+    expect(store().tasks.every(t => t.scenarioId === scenarioId)).toBe(true)
+
+    store().recordCheck(scenarioId, response(7, [anchoring]))
+    expect(blockers()).toEqual([])
+
+    flushScenarioRecords()
+    expect(getScenario(scenarioId)).toMatchObject({ bias_tasks: store().tasks, bias_checks: store().checks })
+  })
+
+  it('makes readiness not ready with bias blockers, with or without an engine assessment', () => {
+    const engine = { ready: true, confidence: 'high' as const, blockers: [], warnings: ['Few options'], passed: ['Valid'] }
+    const blockers = ['Confirmation bias unresolved']
+
+    expect(withBiasBlockers(engine, [])).toBe(engine)
+    expect(withBiasBlockers(null, [])).toBeNull()
+    expect(withBiasBlockers(engine, blockers)).toEqual({ ...engine, ready: false, blockers })
+    expect(withBiasBlockers(null, blockers)).toMatchObject({ ready: false, blockers })
+  })
+})
+
+describe('BiasTasksPanel', () => {
+  beforeEach(() => {
+    useCanvasStore.setState({
+      currentScenarioId: null,
+      nodes: [{ id: 'n1', type: 'option', position: { x: 400, y: 100 }, data: { label: 'Launch now' } }],
+      edges: [],
+    })
+    useDocumentReaderStore.getState().close()
+  })
+
+  it('adds a risk node from the failure-scenario flow and re-checks', async () => {
+    biasCheck.mockResolvedValueOnce(response(4, [confirmation])).mockResolvedValueOnce(response(6, []))
+    render(<BiasTasksPanel />)
+
+    fireEvent.click(screen.getByTestId('bias-check-button'))
+    fireEvent.click(await screen.findByRole('button', { name: 'List a failure scenario' }))
+    fireEvent.change(screen.getByLabelText('Failure scenario'), { target: { value: 'Competitor undercuts us' } })
+    fireEvent.click(screen.getByRole('button', { name: 'Add risk' }))
+
+    const { nodes, edges } = useCanvasStore.getState()
+    const risk = nodes.find(n => n.type === 'risk')
+    expect(risk?.data.label).toBe('Competitor undercuts us')
+    expect(edges).toEqual([expect.objectContaining({ source: risk?.id, target: 'n1' })])
+
+    await waitFor(() => expect(screen.getByTestId('bias-profile-comparison')).toHaveTextContent('high → none · Resolved'))
+    expect(biasCheck).toHaveBeenCalledTimes(2)
+  })
+
+  it('opens the documents list with the affected node selected', async () => {
+    biasCheck.mockResolvedValueOnce(response(4, [confirmation]))
+    render(<BiasTasksPanel />)
+
+    fireEvent.click(screen.getByTestId('bias-check-button'))
+    fireEvent.click(await screen.findByRole('button', { name: 'Seek disconfirming evidence' }))
+
+    expect(useDocumentReaderStore.getState()).toMatchObject({ open: true, documentId: null })
+    expect([...useCanvasStore.getState().selection.nodeIds]).toEqual(['n1'])
+  })
+})
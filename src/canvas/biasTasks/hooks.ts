@@ -0,0 +1,60 @@
+import { useCallback, useMemo, useRef, useState } from 'react'
+import { CEEClient, CEEError } from '../../adapters/cee/client'
+import { useCanvasStore } from '../store'
+import { selectRecordScope } from '../store/scenarioRecords'
+import { buildBasicGraphPayload } from '../utils/graphPayload'
+import { biasReadinessBlockers, useBiasTasksStore } from './tasks'
+
+/** Unresolved high-severity bias findings for the current scenario, as readiness blockers */
+export function useBiasBlockers(): string[] {
+  const scenarioId = useCanvasStore(selectRecordScope)
+  const tasks = useBiasTasksStore(s => s.tasks)
+  const checks = useBiasTasksStore(s => s.checks)
+
+  return useMemo(
+    () => biasReadinessBlockers(checks.find(c => c.scenarioId === scenarioId), tasks),
+    [checks, tasks, scenarioId]
+  )
+}
+
+/**
+ * Run CEEClient.biasCheck on the current graph and record the result.
+ *
+ * A check requested while one is in flight runs once that one finishes, so
+ * ticking off several tasks quickly still ends with a check of the final graph.
+ */
+export function useBiasCheck() {
+  const [checking, setChecking] = useState(false)
+  const [error, setError] = useState<CEEError | null>(null)
+  const inFlight = useRef(false)
+  const queued = useRef(false)
+
+  const runCheck = useCallback(async (): Promise<void> => {
+    if (inFlight.current) {
+      queued.current = true
+      return
+    }
+    inFlight.current = true
+    setChecking(true)
+    setError(null)
+
+    try {
+      do {
+        queued.current = false
+        const state = useCanvasStore.getState()
+        const scenarioId = selectRecordScope(state)
+        try {
+          const response = await new CEEClient().biasCheck(buildBasicGraphPayload(state.nodes, state.edges))
+          useBiasTasksStore.getState().recordCheck(scenarioId, response)
+        } catch (err) {
+          setError(err instanceof CEEError ? err : new CEEError((err as Error).message || 'Bias check failed', 500))
+        }
+      } while (queued.current)
+    } finally {
+      inFlight.current = false
+      setChecking(false)
+    }
+  }, [])
+
+  return { checking, error, runCheck }
+}
@@ -0,0 +1,253 @@
+/**
+ * Bias Mitigation Tasks
+ *
+ * Each intervention suggested for a bias finding (CEEBiasFinding.interventions)
+ * becomes a task on the scenario: it can be assigned, given a due date and
+ * ticked off. Tasks are keyed by bias type and action, so re-checking the
+ * graph keeps existing tasks (and their progress) rather than duplicating
+ * them; findings that go away leave their tasks in place as a record.
+ *
+ * Every bias check is recorded per scenario: the first as the "before"
+ * profile, later ones as "after", so completed work can be compared against
+ * where the scenario started. High-severity findings in the latest check are
+ * decision-readiness blockers until a re-check no longer reports them.
+ * Tasks and checks are saved with the scenario (see scenarioRecords.ts).
+ */
+
+import { create } from 'zustand'
+import { generateRecordId, scenarioRecords, type ScenarioRecordCollection } from '../store/scenarioRecords'
+import type { CEEBiasFinding, CEEBiasIntervention, CEEBiasSeverity, CEEInsightsResponse } from '../../adapters/cee/types'
+import type { DecisionReadiness } from '../../types/plot'
+
+/** Interventions with a guided flow on the canvas */
+export type BiasTaskGuide = 'failure-scenario' | 'disconfirming-evidence'
+
+export interface BiasTask {
+  id: string
+  scenarioId: string
+  biasType: string
+  severity: CEEBiasSeverity
+  affectedNodes: string[]
+  action: string
+  effort: CEEBiasIntervention['effort']
+  estimatedMinutes: number
+  description: string
+  assignee?: string
+  dueDate?: string // YYYY-MM-DD
+  done: boolean
+  completedAt?: number
+  createdAt: number
+}
+
+export interface BiasProfileFinding {
+  type: string
+  severity: CEEBiasSeverity
+  description: string
+}
+
+/** What one bias check reported */
+export interface BiasProfile {
+  checkedAt: number
+  quality: number // quality_overall, 1-10
+  findings: BiasProfileFinding[]
+}
+
+export interface BiasCheckRecord {
+  scenarioId: string
+  before: BiasProfile
+  after: BiasProfile | null
+}
+
+export type BiasChangeStatus = 'resolved' | 'improved' | 'unchanged' | 'worse' | 'new'
+
+export interface BiasProfileChange {
+  type: string
+  before: CEEBiasSeverity | null
+  after: CEEBiasSeverity | null
+  status: BiasChangeStatus
+}
+
+interface BiasTasksState {
+  tasks: BiasTask[]
+  checks: BiasCheckRecord[]
+
+  /** Record a bias check for a scenario and add tasks for new interventions */
+  recordCheck: (
+    scenarioId: string,
+    response: Pick<CEEInsightsResponse, 'quality_overall' | 'bias_findings'>,
+    now?: number
+  ) => void
+  updateTask: (id: string, updates: Partial<Pick<BiasTask, 'assignee' | 'dueDate'>>) => void
+  setTaskDone: (id: string, done: boolean) => void
+}
+
+const SEVERITY_RANK: Record<CEEBiasSeverity, number> = { low: 1, medium: 2, high: 3 }
+
+const taskRecords: ScenarioRecordCollection<BiasTask> = scenarioRecords('bias_tasks', {
+  read: () => useBiasTasksStore.getState().tasks,
+  write: tasks => useBiasTasksStore.setState({ tasks }),
+  idPrefix: 'bias',
+})
+
+const checkRecords: ScenarioRecordCollection<BiasCheckRecord> = scenarioRecords('bias_checks', {
+  read: () => useBiasTasksStore.getState().checks,
+  write: checks => useBiasTasksStore.setState({ checks }),
+})
+
+function taskKey(biasType: string, action: string): string {
+  return `${biasType.toLowerCase()}::${action.trim().toLowerCase()}`
+}
+
+/** Which guided flow, if any, an intervention's action calls for */
+export function guideForAction(action: string): BiasTaskGuide | null {
+  if (/fail|pre-?mortem|go wrong/i.test(action)) return 'failure-scenario'
+  if (/disconfirm|counter-?evidence|contradict|evidence against/i.test(action)) return 'disconfirming-evidence'
+  return null
+}
+
+/** "confirmation" -> "Confirmation bias", "sunk_cost_fallacy" -> "Sunk cost fallacy" */
+export function biasLabel(type: string): string {
+  const words = type.replace(/[_-]+/g, ' ').trim()
+  const label = words.charAt(0).toUpperCase() + words.slice(1)
+  return /bias|fallacy|effect|error/i.test(label) ? label : `${label} bias`
+}
+
+/** New tasks for interventions a scenario doesn't have yet */
+export function tasksFromFindings(
+  findings: CEEBiasFinding[],
+  existing: BiasTask[],
+  scenarioId: string,
+  now: number = Date.now()
+): BiasTask[] {
+  const known = new Set(existing.filter(t => t.scenarioId === scenarioId).map(t => taskKey(t.biasType, t.action)))
+  const created: BiasTask[] = []
+  for (const finding of findings) {
+    for (const intervention of finding.interventions) {
+      const key = taskKey(finding.type, intervention.action)
+      if (known.has(key)) continue
+      known.add(key)
+      created.push({
+        id: generateRecordId('bias'),
+        scenarioId,
+        biasType: finding.type,
+        severity: finding.severity,
+        affectedNodes: finding.affectedNodes,
+        action: intervention.action,
+        effort: intervention.effort,
+        estimatedMinutes: intervention.estimatedMinutes,
+        description: intervention.description,
+        done: false,
+        createdAt: now,
+      })
+    }
+  }
+  return created
+}
+
+export function biasProfile(
+  response: Pick<CEEInsightsResponse, 'quality_overall' | 'bias_findings'>,
+  now: number = Date.now()
+): BiasProfile {
+  return {
+    checkedAt: now,
+    quality: response.quality_overall,
+    findings: response.bias_findings.map(f => ({ type: f.type, severity: f.severity, description: f.description })),
+  }
+}
+
+/** Worst severity reported per bias type */
+function severities(profile: BiasProfile): Map<string, CEEBiasSeverity> {
+  const byType = new Map<string, CEEBiasSeverity>()
+  for (const finding of profile.findings) {
+    const current = byType.get(finding.type)
+    if (!current || SEVERITY_RANK[finding.severity] > SEVERITY_RANK[current]) byType.set(finding.type, finding.severity)
+  }
+  return byType
+}
+
+/** Per bias type, how the latest check compares with the first */
+export function compareBiasProfiles(before: BiasProfile, after: BiasProfile): BiasProfileChange[] {
+  const was = severities(before)
+  const now = severities(after)
+  const types = [...new Set([...was.keys(), ...now.keys()])]
+
+  return types.map(type => {
+    const from = was.get(type) ?? null
+    const to = now.get(type) ?? null
+    let status: BiasChangeStatus
+    if (!to) status = 'resolved'
+    else if (!from) status = 'new'
+    else if (SEVERITY_RANK[to] < SEVERITY_RANK[from]) status = 'improved'
+    else if (SEVERITY_RANK[to] > SEVERITY_RANK[from]) status = 'worse'
+    else status = 'unchanged'
+    return { type, before: from, after: to, status }
+  })
+}
+
+/** The scenario's tasks, open first, then by severity */
+export function tasksForScenario(tasks: BiasTask[], scenarioId: string): BiasTask[] {
+  return tasks
+    .filter(t => t.scenarioId === scenarioId)
+    .sort((a, b) => Number(a.done) - Number(b.done) || SEVERITY_RANK[b.severity] - SEVERITY_RANK[a.severity])
+}
+
+/** Readiness blockers: high-severity findings the latest check still reports */
+export function biasReadinessBlockers(check: BiasCheckRecord | undefined, tasks: BiasTask[]): string[] {
+  if (!check) return []
+  const latest = check.after ?? check.before
+
+  return [...severities(latest)]
+    .filter(([, severity]) => severity === 'high')
+    .map(([type]) => {
+      const mitigations = tasks.filter(t => t.scenarioId === check.scenarioId && t.biasType === type)
+      const open = mitigations.filter(t => !t.done).length
+      return mitigations.length > 0
+        ? `${biasLabel(type)} unresolved (${open} of ${mitigations.length} mitigation tasks open)`
+        : `${biasLabel(type)} unresolved`
+    })
+}
+
+/**
+ * Readiness with bias blockers added. Without an engine assessment (before a
+ * run, or when the engine gave none) the blockers alone make it not ready.
+ */
+export function withBiasBlockers(readiness: DecisionReadiness | null, blockers: string[]): DecisionReadiness | null {
+  if (blockers.length === 0) return readiness
+  if (!readiness) return { ready: false, confidence: 'low', blockers, warnings: [], passed: [] }
+  return { ...readiness, ready: false, blockers: [...readiness.blockers, ...blockers] }
+}
+
+export const useBiasTasksStore = create<BiasTasksState>((set, get) => {
+  const commit = (next: Partial<Pick<BiasTasksState, 'tasks' | 'checks'>>) => {
+    if (next.tasks) taskRecords.save(next.tasks, get().tasks)
+    if (next.checks) checkRecords.save(next.checks, get().checks)
+    set(next)
+  }
+
+  return {
+    tasks: taskRecords.load(),
+    checks: checkRecords.load(),
+
+    recordCheck: (scenarioId, response, now = Date.now()) => {
+      const { tasks, checks } = get()
+      const profile = biasProfile(response, now)
+      const existing = checks.find(c => c.scenarioId === scenarioId)
+      commit({
+        tasks: [...tasks, ...tasksFromFindings(response.bias_findings, tasks, scenarioId, now)],
+        checks: existing
+          ? checks.map(c => (c === existing ? { ...c, after: profile } : c))
+          : [...checks, { scenarioId, before: profile, after: null }],
+      })
+    },
+
+    updateTask: (id, updates) => {
+      commit({ tasks: get().tasks.map(t => (t.id === id ? { ...t, ...updates } : t)) })
+    },
+
+    setTaskDone: (id, done) => {
+      commit({
+        tasks: get().tasks.map(t => (t.id === id ? { ...t, done, completedAt: done ? Date.now() : undefined } : t)),
+      })
+    },
+  }
+})
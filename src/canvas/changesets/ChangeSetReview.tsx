@@ -0,0 +1,156 @@
+/**
+ * Change-Set Review
+ *
+ * Checklist of the operations in an AI suggestion. Ticked operations show
+ * on the canvas as ghosts (additions) or outlines (updates, removals) while
+ * the user decides; "Apply" writes the ticked ones as one undoable step and
+ * "Reject" turns the whole suggestion down. Either way, unticked operations
+ * are not suggested again; closing the panel leaves the suggestion unjudged.
+ */
+
+import { Check, Minus, Plus, Sparkles, Pencil, X } from 'lucide-react'
+import { useToast } from '../ToastContext'
+import { typography } from '../../styles/typography'
+import { describeOperation, type ChangeAction, type ChangeSetSource } from './changeSet'
+import { useChangeSetReviewStore } from './reviewStore'
+
+const SOURCE_LABELS: Record<ChangeSetSource, string> = {
+  draft: 'AI draft',
+  clarifier: 'AI clarifier',
+  'quick-fix': 'Quick fix',
+  'auto-fix': 'Auto-fix',
+}
+
+const ACTION_ICONS: Record<ChangeAction, typeof Plus> = { add: Plus, update: Pencil, remove: Minus }
+const ACTION_CLASSES: Record<ChangeAction, string> = {
+  add: 'text-info-600',
+  update: 'text-warning-600',
+  remove: 'text-danger-600',
+}
+
+export function ChangeSetReview() {
+  const active = useChangeSetReviewStore(s => s.active)
+  const accepted = useChangeSetReviewStore(s => s.accepted)
+  const hiddenCount = useChangeSetReviewStore(s => s.hiddenCount)
+  const setAccepted = useChangeSetReviewStore(s => s.setAccepted)
+  const setAllAccepted = useChangeSetReviewStore(s => s.setAllAccepted)
+  const apply = useChangeSetReviewStore(s => s.apply)
+  const reject = useChangeSetReviewStore(s => s.reject)
+  const close = useChangeSetReviewStore(s => s.close)
+  const showHidden = useChangeSetReviewStore(s => s.showHidden)
+  const { showToast } = useToast()
+
+  if (!active) return null
+
+  const total = active.operations.length
+  const chosen = active.operations.filter(op => accepted[op.id]).length
+
+  const handleApply = () => {
+    const applied = apply()
+    const rejected = total - applied
+    showToast(
+      applied > 0
+        ? `Applied ${applied} of ${total} suggested ${total === 1 ? 'change' : 'changes'}${rejected > 0 ? `; ${rejected} rejected` : ''}.`
+        : 'Suggestion rejected.',
+      'success'
+    )
+  }
+
+  return (
+    <div
+      className="fixed right-0 top-0 bottom-0 w-96 z-[2000] bg-white border-l border-gray-200 shadow-panel flex flex-col"
+      role="dialog"
+      aria-labelledby="changeset-review-title"
+      data-testid="changeset-review"
+    >
+      <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200">
+        <div className="min-w-0">
+          <div className={`${typography.caption} text-gray-500 flex items-center gap-1`}>
+            <Sparkles className="w-3 h-3" />
+            {SOURCE_LABELS[active.source]} · review before applying
+          </div>
+          <h3 id="changeset-review-title" className={`${typography.h4} text-gray-900 truncate`}>{active.title}</h3>
+        </div>
+        <button
+          type="button"
+          onClick={close}
+          className="p-1 text-gray-500 hover:text-gray-700 rounded"
+          aria-label="Close suggestion"
+        >
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto px-4 py-3 space-y-3">
+        {active.rationale && <p className={`${typography.body} text-gray-700`}>{active.rationale}</p>}
+        {hiddenCount > 0 && (
+          <p className={`${typography.caption} text-gray-500`}>
+            {hiddenCount} {hiddenCount === 1 ? 'change you rejected before is' : 'changes you rejected before are'} not shown.{' '}
+            <button type="button" onClick={showHidden} className="text-info-700 hover:underline">
+              Show {hiddenCount === 1 ? 'it' : 'them'}
+            </button>
+          </p>
+        )}
+
+        <div className={`flex items-center justify-between ${typography.caption} text-gray-500`}>
+          <span>{chosen} of {total} selected</span>
+          <span className="flex gap-3">
+            <button type="button" onClick={() => setAllAccepted(true)} className="text-info-700 hover:underline">
+              Select all
+            </button>
+            <button type="button" onClick={() => setAllAccepted(false)} className="text-info-700 hover:underline">
+              Clear
+            </button>
+          </span>
+        </div>
+
+        <ul className="divide-y divide-gray-100 border border-gray-200 rounded-lg" data-testid="changeset-operations">
+          {active.operations.map(op => {
+            const Icon = ACTION_ICONS[op.action]
+            return (
+              <li key={op.id} className="px-3 py-2">
+                <label className="flex items-start gap-2 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={!!accepted[op.id]}
+                    onChange={e => setAccepted(op.id, e.target.checked)}
+                    className="mt-1"
+                  />
+                  <Icon className={`w-4 h-4 mt-0.5 shrink-0 ${ACTION_CLASSES[op.action]}`} aria-hidden="true" />
+                  <span className="min-w-0">
+                    <span className={`block ${typography.body} text-gray-900 break-words`}>{describeOperation(op)}</span>
+                    {op.rationale && (
+                      <span className={`block ${typography.caption} text-gray-500 break-words`}>{op.rationale}</span>
+                    )}
+                  </span>
+                </label>
+              </li>
+            )
+          })}
+        </ul>
+      </div>
+
+      <div className="flex justify-end gap-2 px-4 py-3 border-t border-gray-200">
+        <button
+          type="button"
+          onClick={() => {
+            reject()
+            showToast('Suggestion rejected.', 'success')
+          }}
+          className="px-3 py-1.5 text-sm text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-lg transition-colors"
+        >
+          Reject
+        </button>
+        <button
+          type="button"
+          onClick={handleApply}
+          disabled={chosen === 0}
+          className="flex items-center gap-1.5 px-3 py-1.5 text-sm text-white bg-info-600 hover:bg-info-700 rounded-lg disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          <Check className="w-4 h-4" />
+          Apply {chosen} {chosen === 1 ? 'change' : 'changes'}
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,157 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import type { Node, Edge } from '@xyflow/react'
+import { useCanvasStore } from '../../store'
+import { DEFAULT_EDGE_DATA, type EdgeData } from '../../domain/edges'
+import type { ISLValidationSuggestion } from '../../../adapters/isl/types'
+import { changeSetFromGraphs, changeSetFromQuickFix, ghostGraph, describeOperation } from '../changeSet'
+import { useChangeSetReviewStore, acceptedOperations, commitAutoFix } from '../reviewStore'
+
+const nodes: Node[] = [
+  { id: 'price', type: 'factor', position: { x: 0, y: 0 }, data: { label: 'Price' } },
+  { id: 'demand', type: 'outcome', position: { x: 300, y: 0 }, data: { label: 'Demand' } },
+]
+const edges: Edge<EdgeData>[] = [
+  { id: 'e1', source: 'price', target: 'demand', type: 'styled', data: { ...DEFAULT_EDGE_DATA, weight: 0.3 } },
+]
+
+const suggestion = (quickFix: ISLValidationSuggestion['quickFix']): ISLValidationSuggestion => ({
+  id: 's-1',
+  type: 'missing_edge',
+  message: 'Demand has no risks',
+  severity: 'warning',
+  affectedNodes: ['demand'],
+  affectedEdges: [],
+  quickFix,
+})
+
+// A draft that adds a Competitor node (and its edge) and re-weights e1
+const proposedDraft = () =>
+  changeSetFromGraphs(
+    { nodes, edges },
+    {
+      nodes: [...nodes, { id: 'rival', type: 'risk', position: { x: 0, y: 200 }, data: { label: 'Competitor' } }],
+      edges: [
+        { ...edges[0], data: { ...edges[0].data!, weight: 0.7 } },
+        { id: 'e2', source: 'rival', target: 'demand', type: 'styled', data: { ...DEFAULT_EDGE_DATA } },
+      ],
+    },
+    { source: 'draft', title: 'Draft', rationales: { e2: 'Rivals cut demand' } }
+  )
+
+const review = () => useChangeSetReviewStore.getState()
+const opFor = (targetId: string) => review().active!.operations.find(op => op.target.id === targetId)!
+
+describe('change-sets', () => {
+  beforeEach(() => {
+    localStorage.clear()
+    useCanvasStore.setState({ nodes, edges, currentScenarioId: 's1', history: { past: [], future: [] } })
+    useChangeSetReviewStore.setState({ active: null, accepted: {}, hiddenCount: 0, onApplied: null, rejected: {} })
+  })
+
+  it('expresses a suggested graph as operations with rationale and dependencies', () => {
+    const { operations } = proposedDraft()
+
+    expect(operations.map(describeOperation)).toEqual([
+      'Add node "Competitor"',
+      'Update edge "Price → Demand": weight 0.3 → 0.7',
+      'Add edge "Competitor → Demand"',
+    ])
+    const [addNode, , addEdge] = operations
+    expect(addEdge.dependsOn).toEqual([addNode.id])
+    expect(addEdge.rationale).toBe('Rivals cut demand')
+    expect(addNode.signature).toBe('add:node:risk:competitor')
+  })
+
+  it('turns an ISL quick fix into a change-set, or null when it does not apply', () => {
+    const ids = { node: () => 'n9', edge: () => 'e9' }
+    const addEdge = changeSetFromQuickFix(
+      suggestion({ label: 'Link demand', action: 'add_edge', payload: { from: 'demand', to: 'price', weight: 0.4 } }),
+      { nodes, edges },
+      ids
+    )!
+    expect(addEdge.source).toBe('quick-fix')
+    expect(addEdge.operations.map(describeOperation)).toEqual(['Add edge "Demand → Price"'])
+
+    const missing = suggestion({ label: 'Remove', action: 'remove_node', payload: { nodeId: 'nope' } })
+    expect(changeSetFromQuickFix(missing, { nodes, edges }, ids)).toBeNull()
+  })
+
+  it('keeps ticks consistent and ghosts only the ticked operations', () => {
+    review().propose(proposedDraft())
+    review().setAccepted(opFor('rival').id, false)
+    expect(review().accepted[opFor('e2').id]).toBe(false)
+
+    review().setAccepted(opFor('e2').id, true)
+    expect(review().accepted[opFor('rival').id]).toBe(true)
+
+    review().setAccepted(opFor('e1').id, false)
+    const ghosts = ghostGraph({ nodes, edges }, acceptedOperations(review()))
+    expect(ghosts.nodes.find(n => n.id === 'rival')?.data.isPreview).toBe(true)
+    expect(ghosts.edges.find(e => e.id === 'e1')?.style).toBeUndefined()
+    // Display only
+    expect(useCanvasStore.getState().nodes).toBe(nodes)
+  })
+
+  it('applies the accepted subset as one undoable step and remembers the rest', () => {
+    const onApplied = vi.fn()
+    review().propose(proposedDraft(), { onApplied })
+    review().setAccepted(opFor('e1').id, false)
+    expect(review().apply()).toBe(2)
+
+    const canvas = useCanvasStore.getState()
+    expect(canvas.nodes.map(n => n.id)).toEqual(['price', 'demand', 'rival'])
+    expect(canvas.edges.map(e => [e.id, e.data?.weight])).toEqual([['e1', 0.3], ['e2', DEFAULT_EDGE_DATA.weight]])
+    expect(onApplied).toHaveBeenCalledWith([expect.objectContaining({ target: expect.objectContaining({ id: 'rival' }) }), expect.anything()])
+    expect(review().active).toBeNull()
+
+    canvas.undo()
+    expect(useCanvasStore.getState().nodes.map(n => n.id)).toEqual(['price', 'demand'])
+    expect(useCanvasStore.getState().edges.map(e => e.id)).toEqual(['e1'])
+
+    // The re-weighting was rejected: suggested again, it is left out
+    expect(review().propose(proposedDraft())).toBe(true)
+    expect(review().active!.operations.map(op => op.target.id)).toEqual(['rival', 'e2'])
+    expect(review().hiddenCount).toBe(1)
+    expect(JSON.parse(localStorage.getItem('canvas-rejected-suggestions.v1')!).s1).toHaveLength(1)
+  })
+
+  it('drops a suggestion whose operations were all rejected before, until restored', () => {
+    review().propose(proposedDraft())
+    review().reject()
+    expect(review().propose(proposedDraft())).toBe(false)
+    expect(review().active).toBeNull()
+
+    expect(review().restore(proposedDraft())).toBe(true)
+    expect(review().hiddenCount).toBe(0)
+  })
+
+  it('rejects nothing when the review is just closed, and can forget every rejection', () => {
+    review().propose(proposedDraft())
+    review().close()
+    expect(review().propose(proposedDraft())).toBe(true)
+
+    review().reject()
+    review().resetRejected()
+    expect(review().propose(proposedDraft())).toBe(true)
+    expect(JSON.parse(localStorage.getItem('canvas-rejected-suggestions.v1')!)).toEqual({})
+  })
+
+  it('applies auto-fixes directly unless change-set review is on', () => {
+    const fixed = { success: true, message: 'Normalized', updatedEdges: [{ ...edges[0], data: { ...edges[0].data!, weight: 1 } }] }
+    const onApplied = vi.fn()
+
+    commitAutoFix('normalize_probabilities', fixed, onApplied)
+    expect(useCanvasStore.getState().edges[0].data?.weight).toBe(1)
+    expect(onApplied).toHaveBeenCalledTimes(1)
+
+    useCanvasStore.setState({ edges })
+    localStorage.setItem('feature.changeSets', '1')
+    commitAutoFix('normalize_probabilities', fixed, onApplied)
+    expect(useCanvasStore.getState().edges).toBe(edges)
+    expect(review().active).toMatchObject({ source: 'auto-fix', title: 'Normalize probabilities', rationale: 'Normalized' })
+
+    review().apply()
+    expect(useCanvasStore.getState().edges[0].data?.weight).toBe(1)
+    expect(onApplied).toHaveBeenCalledTimes(2)
+  })
+})
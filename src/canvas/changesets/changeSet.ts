@@ -0,0 +1,310 @@
+/**
+ * Change-sets: AI suggestions as reviewable operations
+ *
+ * Every assistant suggestion (a CEE draft, the clarifier, an ISL quick fix,
+ * a critique auto-fix) is turned into a list of add / update / remove
+ * operations on single nodes and edges, each with its own rationale, so the
+ * user can take part of a suggestion. Builders work from the graph the
+ * suggestion would produce, so any source that can produce a graph can be
+ * reviewed.
+ *
+ * Each operation has a signature that doesn't depend on generated ids (new
+ * nodes are identified by kind and label, edges by their end labels), which
+ * is what lets a rejected suggestion be recognised when it comes back.
+ */
+
+import type { Node, Edge } from '@xyflow/react'
+import type { ISLValidationSuggestion } from '../../adapters/isl/types'
+import { DEFAULT_EDGE_DATA, type EdgeData } from '../domain/edges'
+import { stableStringify } from '../store/utils'
+import { diffGraph, type AuditGraph } from '../audit/diff'
+import { auditFieldName, formatAuditValue, type AuditFieldChange, type AuditTargetKind } from '../audit/trail'
+
+export type ChangeSetSource = 'draft' | 'clarifier' | 'quick-fix' | 'auto-fix'
+export type ChangeAction = 'add' | 'update' | 'remove'
+
+export interface ChangeOperation {
+  id: string
+  action: ChangeAction
+  target: { kind: AuditTargetKind; id: string; label: string }
+  entity?: Node | Edge // The node or edge to add
+  changes?: AuditFieldChange[] // Field updates
+  rationale?: string
+  dependsOn: string[] // Operations this one needs (an edge needs its new end nodes)
+  signature: string
+}
+
+export interface ChangeSet {
+  id: string
+  source: ChangeSetSource
+  title: string
+  rationale?: string
+  operations: ChangeOperation[]
+  createdAt: number
+}
+
+export interface ChangeSetMeta {
+  source: ChangeSetSource
+  title: string
+  rationale?: string
+  /** Per-entity reason, keyed by node or edge id of the proposed graph */
+  rationales?: Record<string, string | undefined>
+}
+
+/** Id factories, so new nodes and edges don't collide with the canvas */
+export interface ChangeSetIds {
+  node: () => string
+  edge: () => string
+}
+
+function generateId(prefix: string): string {
+  return `${prefix}_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`
+}
+
+const normalise = (text: string) => text.trim().toLowerCase().replace(/\s+/g, ' ')
+
+const entityLabel = (entity: Node | Edge | undefined) => {
+  const label = (entity?.data as { label?: unknown } | undefined)?.label
+  return typeof label === 'string' ? label : ''
+}
+
+function operationSignature(op: Omit<ChangeOperation, 'signature'>, graph: AuditGraph): string {
+  const { action, target } = op
+  if (action === 'remove') return `remove:${target.kind}:${target.id}`
+  if (action === 'update') {
+    const fields = (op.changes ?? []).map(c => `${c.field}=${stableStringify(c.after)}`).join('&')
+    return `update:${target.kind}:${target.id}:${fields}`
+  }
+  if (target.kind === 'node') {
+    return `add:node:${op.entity?.type ?? ''}:${normalise(entityLabel(op.entity))}`
+  }
+  const edge = op.entity as Edge
+  const end = (id: string) => normalise(entityLabel(graph.nodes.find(n => n.id === id)) || id)
+  return `add:edge:${end(edge.source)}>${end(edge.target)}`
+}
+
+/** The operations that turn `current` into `proposed` */
+export function changeSetFromGraphs(current: AuditGraph, proposed: AuditGraph, meta: ChangeSetMeta): ChangeSet {
+  const changes = diffGraph(current, proposed)
+  const addedNodeOps = new Map<string, string>()
+
+  const operations = changes.map(change => {
+    const op: Omit<ChangeOperation, 'signature'> = {
+      id: generateId('op'),
+      action: change.action === 'added' ? 'add' : change.action === 'updated' ? 'update' : 'remove',
+      target: change.target,
+      rationale: meta.rationales?.[change.target.id],
+      dependsOn: [],
+    }
+    if (change.action === 'added') op.entity = change.after as unknown as Node | Edge
+    if (change.action === 'updated') op.changes = change.changes
+    if (op.action === 'add' && op.target.kind === 'node') addedNodeOps.set(op.target.id, op.id)
+    return op
+  })
+
+  for (const op of operations) {
+    if (op.action !== 'add' || op.target.kind !== 'edge') continue
+    const edge = op.entity as Edge
+    op.dependsOn = [edge.source, edge.target].flatMap(id => addedNodeOps.get(id) ?? [])
+  }
+
+  return {
+    id: generateId('changeset'),
+    source: meta.source,
+    title: meta.title,
+    rationale: meta.rationale,
+    operations: operations.map(op => ({ ...op, signature: operationSignature(op, proposed) })),
+    createdAt: Date.now(),
+  }
+}
+
+/** Grid placement for suggested nodes that come without a position (as the clarifier does) */
+export const suggestedPosition = (index: number) => ({ x: 200 + (index % 3) * 250, y: 100 + Math.floor(index / 3) * 200 })
+
+/**
+ * An ISL quick fix as a change-set, or null when its payload can't be used.
+ * Payloads: add_edge {from, to, weight?, belief?}, add_node {label, type?},
+ * update_data {nodeId | edgeId, data}, remove_node {nodeId}.
+ */
+export function changeSetFromQuickFix(
+  suggestion: ISLValidationSuggestion,
+  current: AuditGraph,
+  ids: ChangeSetIds
+): ChangeSet | null {
+  const fix = suggestion.quickFix
+  if (!fix) return null
+  const payload: Record<string, unknown> = fix.payload ?? {}
+  const hasNode = (id: unknown): id is string => typeof id === 'string' && current.nodes.some(n => n.id === id)
+  let proposed: AuditGraph | null = null
+
+  switch (fix.action) {
+    case 'add_edge': {
+      const source = payload.from ?? payload.source
+      const target = payload.to ?? payload.target
+      if (!hasNode(source) || !hasNode(target)) return null
+      const edge: Edge<EdgeData> = {
+        id: ids.edge(),
+        source,
+        target,
+        type: 'styled',
+        data: {
+          ...DEFAULT_EDGE_DATA,
+          ...(typeof payload.weight === 'number' ? { weight: payload.weight } : {}),
+          ...(typeof payload.belief === 'number' ? { belief: payload.belief } : {}),
+        },
+      }
+      proposed = { nodes: current.nodes, edges: [...current.edges, edge] }
+      break
+    }
+    case 'add_node': {
+      if (typeof payload.label !== 'string' || !payload.label.trim()) return null
+      const kind = payload.type ?? payload.kind
+      const type = typeof kind === 'string' ? kind : 'factor'
+      const anchor = current.nodes.find(n => suggestion.affectedNodes.includes(n.id))
+      const node: Node = {
+        id: ids.node(),
+        type,
+        position: anchor ? { x: anchor.position.x, y: anchor.position.y + 160 } : suggestedPosition(current.nodes.length),
+        data: { label: payload.label.trim(), type },
+      }
+      proposed = { nodes: [...current.nodes, node], edges: current.edges }
+      break
+    }
+    case 'update_data': {
+      const data = payload.data
+      if (!data || typeof data !== 'object') return null
+      if (hasNode(payload.nodeId)) {
+        proposed = {
+          nodes: current.nodes.map(n => (n.id === payload.nodeId ? { ...n, data: { ...n.data, ...data } } : n)),
+          edges: current.edges,
+        }
+      } else if (current.edges.some(e => e.id === payload.edgeId)) {
+        proposed = {
+          nodes: current.nodes,
+          edges: current.edges.map(e => (e.id === payload.edgeId ? { ...e, data: { ...e.data, ...data } } : e)),
+        }
+      }
+      break
+    }
+    case 'remove_node': {
+      const nodeId = payload.nodeId
+      if (!hasNode(nodeId)) return null
+      proposed = {
+        nodes: current.nodes.filter(n => n.id !== nodeId),
+        edges: current.edges.filter(e => e.source !== nodeId && e.target !== nodeId),
+      }
+      break
+    }
+  }
+  if (!proposed) return null
+
+  const changeSet = changeSetFromGraphs(current, proposed, {
+    source: 'quick-fix',
+    title: fix.label,
+    rationale: suggestion.message,
+  })
+  return changeSet.operations.length > 0 ? changeSet : null
+}
+
+// ============================================================================
+// Applying and previewing
+// ============================================================================
+
+function applyFieldChanges<T extends Node | Edge>(entity: T, changes: AuditFieldChange[]): T {
+  const data: Record<string, unknown> = { ...(entity.data ?? {}) }
+  const next: Record<string, unknown> = { ...entity, data }
+  for (const { field, after } of changes) {
+    const [holder, name] = field.startsWith('data.') ? [data, field.slice(5)] : [next, field]
+    if (after === undefined) delete holder[name]
+    else holder[name] = after
+  }
+  return next as T
+}
+
+const withoutPreview = <T extends Node | Edge>(entity: T): T => {
+  const data = { ...(entity.data as Record<string, unknown>) }
+  delete data.isPreview
+  return { ...entity, data } as T
+}
+
+/**
+ * Apply operations to a graph. Removing a node removes its edges; an edge
+ * whose ends don't exist (its new node was rejected) is left out.
+ */
+export function applyOperations(graph: AuditGraph, operations: ChangeOperation[]): AuditGraph {
+  const removed = new Set(operations.filter(op => op.action === 'remove').map(op => `${op.target.kind}:${op.target.id}`))
+  const updates = new Map(operations.filter(op => op.action === 'update').map(op => [`${op.target.kind}:${op.target.id}`, op.changes ?? []]))
+  const adds = operations.filter(op => op.action === 'add' && op.entity)
+
+  const nodes = graph.nodes
+    .filter(n => !removed.has(`node:${n.id}`))
+    .map(n => (updates.has(`node:${n.id}`) ? applyFieldChanges(n, updates.get(`node:${n.id}`)!) : n))
+  for (const op of adds) {
+    if (op.target.kind === 'node' && !nodes.some(n => n.id === op.target.id)) nodes.push(withoutPreview(op.entity as Node))
+  }
+
+  const nodeIds = new Set(nodes.map(n => n.id))
+  const edges = graph.edges
+    .filter(e => !removed.has(`edge:${e.id}`))
+    .map(e => (updates.has(`edge:${e.id}`) ? applyFieldChanges(e, updates.get(`edge:${e.id}`)!) : e))
+  for (const op of adds) {
+    if (op.target.kind === 'edge' && !edges.some(e => e.id === op.target.id)) edges.push(withoutPreview(op.entity as Edge))
+  }
+
+  return { nodes, edges: edges.filter(e => nodeIds.has(e.source) && nodeIds.has(e.target)) }
+}
+
+const GHOST_STYLE = {
+  add: { opacity: 0.6, border: '2px dashed var(--sky-500)' },
+  update: { outline: '2px dashed var(--sun-500)', outlineOffset: 4 },
+  remove: { opacity: 0.4, outline: '2px dashed var(--carrot-500)', outlineOffset: 4 },
+} as const
+
+const GHOST_EDGE_STYLE = {
+  add: { strokeDasharray: '5,5', opacity: 0.6 },
+  update: { stroke: 'var(--sun-500)', strokeDasharray: '5,5' },
+  remove: { stroke: 'var(--carrot-500)', strokeDasharray: '5,5', opacity: 0.5 },
+} as const
+
+/**
+ * What the canvas shows while a change-set is reviewed: accepted additions
+ * as ghosts, accepted updates and removals outlined. Display only - none
+ * of this is written to the store.
+ */
+export function ghostGraph(graph: AuditGraph, operations: ChangeOperation[]): AuditGraph {
+  const marked = new Map(
+    operations.filter(op => op.action !== 'add').map(op => [`${op.target.kind}:${op.target.id}`, op.action as 'update' | 'remove'])
+  )
+  const mark = <T extends Node | Edge>(kind: AuditTargetKind, entity: T, styles: Record<'update' | 'remove', object>): T => {
+    const action = marked.get(`${kind}:${entity.id}`)
+    return action ? { ...entity, style: { ...(entity.style ?? {}), ...styles[action] } } : entity
+  }
+  const ghost = <T extends Node | Edge>(entity: T, style: object): T =>
+    ({ ...entity, data: { ...(entity.data as object), isPreview: true }, style, selectable: false }) as T
+
+  const adds = operations.filter(op => op.action === 'add' && op.entity)
+  const nodes = [
+    ...graph.nodes.map(n => mark('node', n, GHOST_STYLE)),
+    ...adds.filter(op => op.target.kind === 'node').map(op => ghost(op.entity as Node, GHOST_STYLE.add)),
+  ]
+  const nodeIds = new Set(nodes.map(n => n.id))
+  const edges = [
+    ...graph.edges.map(e => mark('edge', e, GHOST_EDGE_STYLE)),
+    ...adds
+      .filter(op => op.target.kind === 'edge')
+      .map(op => ghost(op.entity as Edge, GHOST_EDGE_STYLE.add))
+      .filter(e => nodeIds.has(e.source) && nodeIds.has(e.target)),
+  ]
+  return { nodes, edges }
+}
+
+/** One line per operation, e.g. 'Update edge "Price → Demand": weight 0.3 → 0.8' */
+export function describeOperation(op: ChangeOperation): string {
+  const target = `${op.target.kind} "${op.target.label}"`
+  if (op.action === 'add') return `Add ${target}`
+  if (op.action === 'remove') return `Remove ${target}`
+  const changes = (op.changes ?? [])
+    .map(c => `${auditFieldName(c.field)} ${formatAuditValue(c.before)} → ${formatAuditValue(c.after)}`)
+    .join(', ')
+  return `Update ${target}: ${changes}`
+}
@@ -0,0 +1,226 @@
+/**
+ * Change-set review
+ *
+ * Holds the suggestion being reviewed and which of its operations are
+ * ticked. Applying writes the ticked subset to the canvas as one undoable
+ * step; whatever was left unticked is remembered as rejected (per scenario,
+ * by operation signature) and filtered out of later suggestions, as is every
+ * operation of a suggestion rejected outright. Closing the review rejects
+ * nothing. Rejections can be taken back per suggestion or all at once.
+ */
+
+import { create } from 'zustand'
+import { canvasStorage } from '../persist/storage'
+import { useCanvasStore } from '../store'
+import { withAuditCause } from '../audit/trail'
+import { isChangeSetsEnabled } from '../../flags'
+import type { AutoFixResult, AutoFixType } from '../utils/autoFix'
+import { applyOperations, changeSetFromGraphs, type ChangeOperation, type ChangeSet } from './changeSet'
+
+const REJECTED_KEY = 'canvas-rejected-suggestions.v1'
+const UNSAVED = '' // Rejections made before the scenario is saved
+
+type RejectedSignatures = Record<string, string[]> // scenario id -> signatures
+
+interface ProposeOptions {
+  /** Runs after the accepted operations are on the canvas (layout, re-validation...) */
+  onApplied?: (applied: ChangeOperation[]) => void
+}
+
+interface ChangeSetReviewState {
+  active: ChangeSet | null
+  proposed: ChangeSet | null // The suggestion as made, including operations rejected before
+  accepted: Record<string, boolean> // operation id -> ticked
+  hiddenCount: number // Operations left out because they were rejected before
+  onApplied: ((applied: ChangeOperation[]) => void) | null
+  rejected: RejectedSignatures
+
+  /** False when every operation was rejected before (see restore) */
+  propose: (changeSet: ChangeSet, options?: ProposeOptions) => boolean
+  setAccepted: (operationId: string, accepted: boolean) => void
+  setAllAccepted: (accepted: boolean) => void
+  apply: () => number
+  reject: () => void
+  close: () => void
+  /** Forget earlier rejections of this suggestion's operations and propose it again */
+  restore: (changeSet: ChangeSet, options?: ProposeOptions) => boolean
+  showHidden: () => void
+  resetRejected: () => void
+}
+
+function loadRejected(): RejectedSignatures {
+  try {
+    const raw = canvasStorage.getItem(REJECTED_KEY)
+    return raw ? (JSON.parse(raw) as RejectedSignatures) : {}
+  } catch (error) {
+    console.error('[changesets] Failed to load rejected suggestions:', error)
+    return {}
+  }
+}
+
+function saveRejected(rejected: RejectedSignatures): void {
+  try {
+    canvasStorage.setItem(REJECTED_KEY, JSON.stringify(rejected))
+  } catch (error) {
+    console.error('[changesets] Failed to save rejected suggestions:', error)
+  }
+}
+
+const scenarioKey = () => useCanvasStore.getState().currentScenarioId ?? UNSAVED
+
+/**
+ * Tick or untick one operation and keep dependencies consistent: an edge
+ * can't be added without its new end nodes, so ticking it ticks them and
+ * unticking a node unticks its edges.
+ */
+function withDependencies(
+  operations: ChangeOperation[],
+  accepted: Record<string, boolean>,
+  operationId: string,
+  value: boolean
+): Record<string, boolean> {
+  const next = { ...accepted }
+  const visit = (id: string, on: boolean) => {
+    next[id] = on
+    if (on) {
+      operations.find(op => op.id === id)?.dependsOn.forEach(dep => !next[dep] && visit(dep, true))
+    } else {
+      operations.filter(op => op.dependsOn.includes(id) && next[op.id]).forEach(op => visit(op.id, false))
+    }
+  }
+  visit(operationId, value)
+  return next
+}
+
+const CLOSED = { active: null, proposed: null, accepted: {}, hiddenCount: 0, onApplied: null }
+
+export const useChangeSetReviewStore = create<ChangeSetReviewState>((set, get) => {
+  // Rejected operations won't be suggested again in this scenario
+  const remember = (operations: ChangeOperation[]) => {
+    const { rejected } = get()
+    if (operations.length === 0) return rejected
+    const key = scenarioKey()
+    const next = { ...rejected, [key]: [...new Set([...(rejected[key] ?? []), ...operations.map(op => op.signature)])] }
+    saveRejected(next)
+    return next
+  }
+
+  return {
+    ...CLOSED,
+    rejected: loadRejected(),
+
+    propose: (changeSet, options = {}) => {
+      const known = new Set(get().rejected[scenarioKey()] ?? [])
+      const fresh = changeSet.operations.filter(op => !known.has(op.signature))
+      // Dropping a rejected node drops the edges that needed it
+      const keptIds = new Set(fresh.map(op => op.id))
+      const operations = fresh.filter(op => op.dependsOn.every(id => keptIds.has(id)))
+      if (operations.length === 0) return false
+
+      set({
+        active: { ...changeSet, operations },
+        proposed: changeSet,
+        accepted: Object.fromEntries(operations.map(op => [op.id, true])),
+        hiddenCount: changeSet.operations.length - operations.length,
+        onApplied: options.onApplied ?? null,
+      })
+      return true
+    },
+
+    setAccepted: (operationId, accepted) => {
+      const { active } = get()
+      if (!active) return
+      set({ accepted: withDependencies(active.operations, get().accepted, operationId, accepted) })
+    },
+
+    setAllAccepted: (accepted) => {
+      const { active } = get()
+      if (!active) return
+      set({ accepted: Object.fromEntries(active.operations.map(op => [op.id, accepted])) })
+    },
+
+    apply: () => {
+      const { active, accepted, onApplied } = get()
+      if (!active) return 0
+      const chosen = active.operations.filter(op => accepted[op.id])
+      const rejected = remember(active.operations.filter(op => !accepted[op.id]))
+
+      if (chosen.length > 0) {
+        const canvas = useCanvasStore.getState()
+        const graph = applyOperations({ nodes: canvas.nodes, edges: canvas.edges }, chosen)
+        // One undoable edit, recorded as the suggestion rather than a restore
+        withAuditCause('suggestion', () => canvas.restoreGraph(graph))
+      }
+
+      set({ ...CLOSED, rejected })
+      if (chosen.length > 0) onApplied?.(chosen)
+      return chosen.length
+    },
+
+    reject: () => {
+      const { active } = get()
+      if (!active) return
+      set({ ...CLOSED, rejected: remember(active.operations) })
+    },
+
+    close: () => set(CLOSED),
+
+    restore: (changeSet, options) => {
+      const { rejected, propose } = get()
+      const key = scenarioKey()
+      const forgotten = new Set(changeSet.operations.map(op => op.signature))
+      const next = { ...rejected, [key]: (rejected[key] ?? []).filter(signature => !forgotten.has(signature)) }
+      saveRejected(next)
+      set({ rejected: next })
+      return propose(changeSet, options)
+    },
+
+    showHidden: () => {
+      const { proposed, onApplied, restore } = get()
+      if (proposed) restore(proposed, { onApplied: onApplied ?? undefined })
+    },
+
+    resetRejected: () => {
+      saveRejected({})
+      set({ rejected: {} })
+    },
+  }
+})
+
+/** The ticked operations of the change-set under review (for the canvas ghosts) */
+export function acceptedOperations(state: Pick<ChangeSetReviewState, 'active' | 'accepted'>): ChangeOperation[] {
+  return state.active?.operations.filter(op => state.accepted[op.id]) ?? []
+}
+
+const AUTO_FIX_TITLES: Record<AutoFixType, string> = {
+  normalize_probabilities: 'Normalize probabilities',
+  add_risk: 'Add a risk',
+  add_factor: 'Add a factor',
+  connect_orphan: 'Connect unconnected node',
+  remove_cycle: 'Remove cycle',
+}
+
+/**
+ * Put a successful auto-fix on the canvas. With change-set review on it is
+ * proposed instead, and onApplied runs once the user applies it.
+ */
+export function commitAutoFix(fixType: AutoFixType, result: AutoFixResult, onApplied: () => void): void {
+  if (!isChangeSetsEnabled()) {
+    if (result.updatedNodes) {
+      useCanvasStore.setState({ nodes: result.updatedNodes })
+    }
+    if (result.updatedEdges) {
+      useCanvasStore.setState({ edges: result.updatedEdges })
+    }
+    onApplied()
+    return
+  }
+
+  const { nodes, edges } = useCanvasStore.getState()
+  const changeSet = changeSetFromGraphs(
+    { nodes, edges },
+    { nodes: result.updatedNodes ?? nodes, edges: result.updatedEdges ?? edges },
+    { source: 'auto-fix', title: AUTO_FIX_TITLES[fixType], rationale: result.message }
+  )
+  useChangeSetReviewStore.getState().propose(changeSet, { onApplied })
+}
@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest'
+import * as Y from 'yjs'
+import { createStore } from 'zustand/vanilla'
+import type { Node, Edge } from '@xyflow/react'
+import { bindGraphToDoc, type CollabBindingOptions, type CollabGraphState } from '../binding'
+import { currentAuditActor, REMOTE_AUDIT_ACTOR } from '../../audit/trail'
+
+const node = (id: string, x = 0, label = `Node ${id}`): Node => ({ id, type: 'factor', position: { x, y: 0 }, data: { label } })
+
+// Two browsers: each has its own store and doc, wired together like the relay would
+function setupPair(initial: CollabGraphState = { nodes: [node('1')], edges: [] }, optionsB: CollabBindingOptions = {}) {
+  const docA = new Y.Doc()
+  const docB = new Y.Doc()
+  docA.on('update', (update: Uint8Array, origin: unknown) => origin !== 'remote' && Y.applyUpdate(docB, update, 'remote'))
+  docB.on('update', (update: Uint8Array, origin: unknown) => origin !== 'remote' && Y.applyUpdate(docA, update, 'remote'))
+
+  const a = createStore<CollabGraphState>(() => initial)
+  const b = createStore<CollabGraphState>(() => ({ nodes: [], edges: [] }))
+  const bindingA = bindGraphToDoc(docA, a)
+  const bindingB = bindGraphToDoc(docB, b, optionsB)
+  bindingA.start()
+  bindingB.start()
+  return { a, b, bindingA, bindingB, docA }
+}
+
+const labels = (store: { getState: () => CollabGraphState }) =>
+  store.getState().nodes.map(n => `${n.id}:${n.data.label}@${n.position.x}`).sort()
+
+describe('bindGraphToDoc', () => {
+  it('seeds an empty doc and loads it into a joining store', () => {
+    const { b } = setupPair()
+    expect(labels(b)).toEqual(['1:Node 1@0'])
+  })
+
+  it('syncs add, move, edit and delete both ways', () => {
+    const { a, b } = setupPair()
+    const edge: Edge = { id: 'e1', source: '1', target: '2' }
+
+    a.setState(s => ({ nodes: [...s.nodes, node('2', 100)], edges: [edge] }))
+    b.setState(s => ({ nodes: s.nodes.map(n => (n.id === '1' ? { ...n, position: { x: 50, y: 0 } } : n)) }))
+    b.setState(s => ({ nodes: s.nodes.map(n => (n.id === '2' ? { ...n, data: { label: 'Cost' } } : n)) }))
+
+    expect(labels(a)).toEqual(['1:Node 1@50', '2:Cost@100'])
+    expect(b.getState().edges.map(e => e.id)).toEqual(['e1'])
+
+    a.setState(s => ({ nodes: s.nodes.filter(n => n.id !== '2'), edges: [] }))
+    expect(labels(b)).toEqual(['1:Node 1@50'])
+    expect(b.getState().edges).toEqual([])
+  })
+
+  it('keeps selection local', () => {
+    const { a, b } = setupPair()
+    a.setState(s => ({ nodes: s.nodes.map(n => ({ ...n, selected: true })) }))
+    expect(b.getState().nodes[0].selected).toBeUndefined()
+
+    b.setState(s => ({ nodes: s.nodes.map(n => ({ ...n, position: { x: 10, y: 0 } })) }))
+    expect(a.getState().nodes[0]).toMatchObject({ selected: true, position: { x: 10, y: 0 } })
+  })
+
+  it('undoes only your own edits', () => {
+    const { a, b, bindingA } = setupPair()
+
+    a.setState(s => ({ nodes: s.nodes.map(n => ({ ...n, position: { x: 200, y: 0 } })) }))
+    bindingA.undoManager.stopCapturing()
+    b.setState(s => ({ nodes: s.nodes.map(n => ({ ...n, data: { label: 'Demand' } })) }))
+
+    bindingA.undoManager.undo()
+
+    expect(labels(a)).toEqual(['1:Demand@0'])
+    expect(labels(b)).toEqual(['1:Demand@0'])
+  })
+
+  it('attributes remote edits, deletions included, to the client that made them', () => {
+    const ada = { id: 'ada', name: 'Ada' }
+    let adaClient = -1
+    const { a, b, docA } = setupPair(undefined, { authorOf: clientId => (clientId === adaClient ? ada : null) })
+    adaClient = docA.clientID
+    const actors: string[] = []
+    b.subscribe(() => actors.push(currentAuditActor().name))
+
+    a.setState(s => ({ nodes: [...s.nodes, node('2')] }))
+    a.setState(s => ({ nodes: s.nodes.filter(n => n.id !== '2') }))
+    expect(actors).toEqual(['Ada', 'Ada'])
+
+    adaClient = -1
+    a.setState(s => ({ nodes: s.nodes.map(n => ({ ...n, data: { label: 'Demand' } })) }))
+    expect(actors[2]).toBe(REMOTE_AUDIT_ACTOR.name)
+  })
+
+  it('keeps one seed when two clients join an empty room at the same time', () => {
+    const docA = new Y.Doc()
+    const docB = new Y.Doc()
+    const edge = (id: string, source: string, target: string): Edge => ({ id, source, target })
+    const a = createStore<CollabGraphState>(() => ({ nodes: [node('a1'), node('a2'), node('shared')], edges: [edge('ea', 'a1', 'a2')] }))
+    const b = createStore<CollabGraphState>(() => ({ nodes: [node('b1'), node('shared')], edges: [edge('eb', 'b1', 'shared')] }))
+    bindGraphToDoc(docA, a).start()
+    bindGraphToDoc(docB, b).start()
+
+    // Both seeded before hearing from each other; now the relay delivers
+    const fromA = Y.encodeStateAsUpdate(docA)
+    const fromB = Y.encodeStateAsUpdate(docB)
+    Y.applyUpdate(docA, fromB, 'remote')
+    Y.applyUpdate(docB, fromA, 'remote')
+    Y.applyUpdate(docA, Y.encodeStateAsUpdate(docB), 'remote')
+    Y.applyUpdate(docB, Y.encodeStateAsUpdate(docA), 'remote')
+
+    const winner = (docA.getMap('meta').get('seed') as { by: number }).by === docA.clientID ? a : b
+    const ids = (store: typeof a) => store.getState().nodes.map(n => n.id).sort()
+    expect(ids(a)).toEqual(ids(winner))
+    expect(ids(b)).toEqual(ids(winner))
+    expect(ids(a)).toEqual(winner === a ? ['a1', 'a2', 'shared'] : ['b1', 'shared'])
+    expect(a.getState().edges.map(e => e.id)).toEqual([winner === a ? 'ea' : 'eb'])
+    expect(b.getState().edges.map(e => e.id)).toEqual([winner === a ? 'ea' : 'eb'])
+    expect([...docA.getMap('nodes').keys()].sort()).toEqual(ids(winner))
+  })
+})
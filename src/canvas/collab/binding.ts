@@ -0,0 +1,252 @@
+/**
+ * Two-way binding between the canvas graph and a shared Yjs document
+ *
+ * Doc layout: `nodes` and `edges` are Y.Maps keyed by id; each entry is a
+ * Y.Map of fields (position, data, type, ...) so concurrent edits to
+ * different fields of the same node both survive. Selection, drag and
+ * measurement flags are per-browser and never enter the doc.
+ *
+ * Local store changes are diffed and written in one transaction tagged with
+ * this binding's origin; the UndoManager only tracks that origin, so undo
+ * reverts your own edits and leaves collaborators' alone.
+ *
+ * Remote changes are attributed to the client whose clock they advanced.
+ * Each local write also stamps `meta.editor`, so even a write that only
+ * deletes advances our clock and peers can tell who made it.
+ *
+ * Seeding records `meta.seed`: who seeded and which ids. When two clients
+ * seed an empty room at once, every peer resolves that key to the same
+ * claim; the other client withdraws the entries only it seeded and loads the
+ * doc, so the room keeps one graph instead of both.
+ */
+
+import * as Y from 'yjs'
+import type { StoreApi } from 'zustand'
+import type { Node, Edge } from '@xyflow/react'
+import { withAuditCause, type AuditActor } from '../audit/trail'
+
+export interface CollabGraphState {
+  nodes: Node[]
+  edges: Edge[]
+}
+
+export interface CollabBindingOptions {
+  /** Who a remote client is (from awareness); unknown clients are recorded as a collaborator */
+  authorOf?: (clientId: number) => AuditActor | null
+}
+
+export interface CollabBinding {
+  undoManager: Y.UndoManager
+  /** Seed an empty doc from the store, or load the store from a populated one, then start syncing */
+  start: () => void
+  destroy: () => void
+}
+
+type Shared = Y.Map<unknown>
+
+const NODE_FIELDS = ['type', 'position', 'data', 'parentId', 'width', 'height'] as const
+const EDGE_FIELDS = ['source', 'target', 'sourceHandle', 'targetHandle', 'type', 'label', 'data'] as const
+
+// Per-browser flags kept from the local copy when a remote change lands
+const NODE_TRANSIENT = ['selected', 'dragging', 'measured', 'resizing'] as const
+const EDGE_TRANSIENT = ['selected'] as const
+
+/** Origin for seeding: written to the doc but never undoable */
+const SEED_ORIGIN = 'collab-seed'
+
+/** What a client seeded an empty doc with, kept in `meta.seed` */
+interface SeedClaim {
+  by: number
+  nodes: string[]
+  edges: string[]
+}
+
+const sameValue = (a: unknown, b: unknown) => a === b || JSON.stringify(a) === JSON.stringify(b)
+
+// Round-trip through JSON so the doc only ever holds plain data
+const plain = (value: unknown) => (value === undefined ? undefined : JSON.parse(JSON.stringify(value)))
+
+function writeFields(target: Shared, source: Record<string, unknown>, fields: readonly string[]) {
+  for (const field of fields) {
+    const value = plain(source[field])
+    if (value === undefined) {
+      if (target.has(field)) target.delete(field)
+    } else if (!sameValue(target.get(field), value)) {
+      target.set(field, value)
+    }
+  }
+}
+
+function writeEntries<T extends { id: string }>(
+  map: Y.Map<Shared>,
+  next: T[],
+  prev: T[] | null,
+  fields: readonly string[]
+) {
+  const prevById = new Map((prev ?? []).map(item => [item.id, item]))
+  const nextIds = new Set<string>()
+
+  for (const item of next) {
+    nextIds.add(item.id)
+    if (prevById.get(item.id) === item) continue
+    const existing = map.get(item.id)
+    if (existing) {
+      writeFields(existing, item as unknown as Record<string, unknown>, fields)
+    } else {
+      // Fields can only be read back once the entry is part of the doc
+      const entry = map.set(item.id, new Y.Map<unknown>())
+      writeFields(entry, item as unknown as Record<string, unknown>, fields)
+    }
+  }
+
+  const removed = prev ? prev.map(item => item.id) : [...map.keys()]
+  for (const id of removed) {
+    if (!nextIds.has(id) && map.has(id)) map.delete(id)
+  }
+}
+
+function readEntries<T extends { id: string }>(
+  map: Y.Map<Shared>,
+  local: T[],
+  changed: Set<string> | null,
+  transient: readonly string[]
+): T[] {
+  const read = (id: string, current?: T): T => {
+    const kept = current
+      ? Object.fromEntries(transient.filter(k => k in current).map(k => [k, (current as Record<string, unknown>)[k]]))
+      : {}
+    return { ...kept, ...map.get(id)!.toJSON(), id } as T
+  }
+
+  const result: T[] = []
+  const seen = new Set<string>()
+  for (const item of local) {
+    seen.add(item.id)
+    if (changed && !changed.has(item.id)) {
+      result.push(item)
+    } else if (map.has(item.id)) {
+      result.push(read(item.id, item))
+    }
+  }
+  for (const id of map.keys()) {
+    if (!seen.has(id)) result.push(read(id))
+  }
+  return result
+}
+
+/** Remote clients that wrote in a transaction: the ones whose clock it advanced */
+function writers(tx: Y.Transaction, self: number): number[] {
+  return [...tx.afterState]
+    .filter(([client, clock]) => client !== self && clock > (tx.beforeState.get(client) ?? 0))
+    .map(([client]) => client)
+}
+
+/** Ids of top-level entries touched by a batch of deep events */
+function changedIds(events: Array<Y.YEvent<Y.AbstractType<unknown>>>, root: Y.Map<Shared>): Set<string> {
+  const ids = new Set<string>()
+  for (const event of events) {
+    if (event.target === root) {
+      event.changes.keys.forEach((_, key) => ids.add(key))
+    } else if (typeof event.path[0] === 'string') {
+      ids.add(event.path[0])
+    }
+  }
+  return ids
+}
+
+export function bindGraphToDoc<S extends CollabGraphState>(
+  doc: Y.Doc,
+  store: StoreApi<S>,
+  { authorOf }: CollabBindingOptions = {}
+): CollabBinding {
+  const nodesMap = doc.getMap<Shared>('nodes')
+  const edgesMap = doc.getMap<Shared>('edges')
+  const meta = doc.getMap<unknown>('meta')
+  const origin = { binding: 'canvas' }
+  const undoManager = new Y.UndoManager([nodesMap, edgesMap], { trackedOrigins: new Set([origin]) })
+
+  let started = false
+  let applyingRemote = false
+  let ownSeed: SeedClaim | null = null
+  let unsubscribe: (() => void) | null = null
+
+  const pushLocal = (state: S, prev: S | null, txOrigin: unknown) => {
+    doc.transact(() => {
+      writeEntries(nodesMap, state.nodes, prev?.nodes ?? null, NODE_FIELDS)
+      writeEntries(edgesMap, state.edges, prev?.edges ?? null, EDGE_FIELDS)
+      meta.set('editor', doc.clientID)
+    }, txOrigin)
+  }
+
+  const pullRemote = (nodeIds: Set<string> | null, edgeIds: Set<string> | null, tx?: Y.Transaction) => {
+    const { nodes, edges } = store.getState()
+    const author = tx && authorOf ? writers(tx, doc.clientID).map(authorOf).find(Boolean) ?? undefined : undefined
+    applyingRemote = true
+    try {
+      withAuditCause('remote', () => store.setState({
+        nodes: nodeIds === null || nodeIds.size > 0 ? readEntries(nodesMap, nodes, nodeIds, NODE_TRANSIENT) : nodes,
+        edges: edgeIds === null || edgeIds.size > 0 ? readEntries(edgesMap, edges, edgeIds, EDGE_TRANSIENT) : edges,
+      } as Partial<S>), author)
+    } finally {
+      applyingRemote = false
+    }
+  }
+
+  // Remote peers and our own undo/redo both arrive here; writes from the store don't
+  const fromStore = (tx: Y.Transaction) => tx.origin === origin || tx.origin === SEED_ORIGIN
+  const onNodes = (events: Array<Y.YEvent<Y.AbstractType<unknown>>>, tx: Y.Transaction) => {
+    if (started && !fromStore(tx)) pullRemote(changedIds(events, nodesMap), new Set(), tx)
+  }
+  const onEdges = (events: Array<Y.YEvent<Y.AbstractType<unknown>>>, tx: Y.Transaction) => {
+    if (started && !fromStore(tx)) pullRemote(new Set(), changedIds(events, edgesMap), tx)
+  }
+
+  // Another client seeded the empty doc at the same time and its claim won: drop ours and load theirs
+  const onMeta = () => {
+    const seed = meta.get('seed') as SeedClaim | undefined
+    if (!ownSeed || !seed || seed.by === ownSeed.by) return
+    const withdrawn = ownSeed
+    ownSeed = null
+    const keptNodes = new Set(seed.nodes)
+    const keptEdges = new Set(seed.edges)
+    doc.transact(() => {
+      for (const id of withdrawn.edges) if (!keptEdges.has(id)) edgesMap.delete(id)
+      for (const id of withdrawn.nodes) if (!keptNodes.has(id)) nodesMap.delete(id)
+    }, SEED_ORIGIN)
+    pullRemote(null, null)
+  }
+  nodesMap.observeDeep(onNodes)
+  edgesMap.observeDeep(onEdges)
+  meta.observe(onMeta)
+
+  return {
+    undoManager,
+    start: () => {
+      if (started) return
+      started = true
+      if (nodesMap.size === 0 && edgesMap.size === 0) {
+        const state = store.getState()
+        const seed: SeedClaim = { by: doc.clientID, nodes: state.nodes.map(n => n.id), edges: state.edges.map(e => e.id) }
+        ownSeed = seed
+        doc.transact(() => {
+          pushLocal(state, null, SEED_ORIGIN)
+          meta.set('seed', seed)
+        }, SEED_ORIGIN)
+      } else {
+        pullRemote(null, null)
+      }
+      unsubscribe = store.subscribe((state, prev) => {
+        if (applyingRemote) return
+        if (state.nodes === prev.nodes && state.edges === prev.edges) return
+        pushLocal(state, prev, origin)
+      })
+    },
+    destroy: () => {
+      unsubscribe?.()
+      nodesMap.unobserveDeep(onNodes)
+      edgesMap.unobserveDeep(onEdges)
+      meta.unobserve(onMeta)
+      undoManager.destroy()
+    },
+  }
+}
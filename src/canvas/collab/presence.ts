@@ -0,0 +1,88 @@
+/**
+ * Collaborator presence over Yjs awareness
+ * Each browser publishes who it is, where its cursor is (flow coordinates)
+ * and which nodes it has selected; nothing here is persisted in the doc.
+ */
+
+import type { Awareness } from 'y-protocols/awareness'
+
+export interface Collaborator {
+  id: string
+  name: string
+  colour: string
+}
+
+export interface PresenceState {
+  user: Collaborator
+  cursor: { x: number; y: number } | null
+  selection: string[]
+}
+
+export interface Peer extends PresenceState {
+  clientId: number
+}
+
+const IDENTITY_KEY = 'collab.identity'
+
+// Distinct, readable on white; cycled by id hash
+const PALETTE = ['#2563eb', '#db2777', '#059669', '#d97706', '#7c3aed', '#dc2626', '#0891b2', '#65a30d']
+
+export function collaboratorColour(id: string): string {
+  let hash = 0
+  for (let i = 0; i < id.length; i++) hash = (hash * 31 + id.charCodeAt(i)) >>> 0
+  return PALETTE[hash % PALETTE.length]
+}
+
+/**
+ * This browser's identity, kept in localStorage so reloads keep the same colour
+ */
+export function getLocalCollaborator(name?: string): Collaborator {
+  let stored: Partial<Collaborator> = {}
+  try {
+    stored = JSON.parse(localStorage.getItem(IDENTITY_KEY) ?? '{}')
+  } catch {
+    stored = {}
+  }
+  const id = stored.id ?? Math.random().toString(36).slice(2, 10)
+  const collaborator = {
+    id,
+    name: name?.trim() || stored.name || `Guest ${id.slice(0, 4).toUpperCase()}`,
+    colour: collaboratorColour(id),
+  }
+  try {
+    localStorage.setItem(IDENTITY_KEY, JSON.stringify({ id: collaborator.id, name: collaborator.name }))
+  } catch {
+    // Private mode: identity lasts for this session only
+  }
+  return collaborator
+}
+
+/**
+ * Letters-only tag for a Yjs client id. Appended to new node/edge ids so two
+ * people adding nodes at once never pick the same id (the store's numeric id
+ * parsing ignores letters).
+ */
+export function clientTag(clientId: number): string {
+  let n = clientId
+  let tag = ''
+  do {
+    tag = String.fromCharCode(97 + (n % 26)) + tag
+    n = Math.floor(n / 26)
+  } while (n > 0)
+  return tag
+}
+
+export function readPeers(awareness: Awareness): Peer[] {
+  const peers: Peer[] = []
+  awareness.getStates().forEach((state, clientId) => {
+    if (clientId === awareness.clientID || !state?.user) return
+    const presence = state as PresenceState
+    peers.push({
+      clientId,
+      user: presence.user,
+      cursor: presence.cursor ?? null,
+      selection: Array.isArray(presence.selection) ? presence.selection : [],
+    })
+  })
+  return peers.sort((a, b) => a.clientId - b.clientId)
+}
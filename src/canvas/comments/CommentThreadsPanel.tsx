@@ -0,0 +1,392 @@
+/**
+ * Comment Threads Panel
+ *
+ * Right-hand drawer for discussion on the canvas: every thread on one
+ * anchor (node, edge, driver or run) with a composer to start another, or
+ * the scenario's open challenges across all anchors. Threads can be replied
+ * to, resolved and reopened; @ in a message suggests team members from the
+ * user directory. Threads shown here count as read.
+ */
+
+import { useEffect, useMemo, useRef, useState } from 'react'
+import { CheckCircle2, MessageSquare, RotateCcw, Trash2, X } from 'lucide-react'
+import { useCanvasStore } from '../store'
+import { selectRecordScope } from '../store/scenarioRecords'
+import { focusNodeById, focusEdgeById } from '../utils/focusHelpers'
+import { typography } from '../../styles/typography'
+import { useDirectory } from '../../hooks/useDirectory'
+import type { DirectoryUser } from '../../types/directory'
+import { useCommentAuthor } from './useCommentAuthor'
+import {
+  useCommentThreadsStore,
+  threadsForAnchor,
+  openChallenges,
+  isThreadUnread,
+  pendingMention,
+  THREAD_LABELS,
+  type CommentAuthor,
+  type CommentThread,
+  type ThreadAnchor,
+  type ThreadLabel,
+} from './threads'
+
+const LABEL_CLASSES: Record<ThreadLabel, string> = {
+  Challenge: 'bg-danger-50 text-danger-700 border-danger-200',
+  Evidence: 'bg-success-50 text-success-700 border-success-200',
+  Question: 'bg-info-50 text-info-700 border-info-200',
+}
+
+const formatTime = (ms: number) =>
+  new Date(ms).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' })
+
+const directoryName = (user: DirectoryUser) =>
+  [user.first_name, user.last_name].filter(Boolean).join(' ') || user.email
+
+/**
+ * Live description of an anchor: current node label, edge endpoints, or the
+ * label stored with the anchor when the target has gone
+ */
+function useAnchorDescription(): (anchor: ThreadAnchor) => string {
+  const nodes = useCanvasStore(s => s.nodes)
+  const edges = useCanvasStore(s => s.edges)
+
+  return useMemo(() => {
+    const labels = new Map(nodes.map(n => [n.id, (n.data as { label?: string } | undefined)?.label || n.id]))
+    return (anchor: ThreadAnchor) => {
+      if (anchor.kind === 'node') return labels.get(anchor.id) ?? `${anchor.label ?? anchor.id} (removed)`
+      if (anchor.kind === 'edge') {
+        const edge = edges.find(e => e.id === anchor.id)
+        if (!edge) return `${anchor.label ?? anchor.id} (removed)`
+        return `${labels.get(edge.source) ?? edge.source} → ${labels.get(edge.target) ?? edge.target}`
+      }
+      return anchor.label ?? anchor.id
+    }
+  }, [nodes, edges])
+}
+
+/** Message text with @mentions picked out */
+function MessageText({ text, mentions }: { text: string; mentions: CommentAuthor[] }) {
+  if (mentions.length === 0) return <>{text}</>
+  const names = mentions.map(m => `@${m.name}`).sort((a, b) => b.length - a.length)
+  const pattern = new RegExp(`(${names.map(n => n.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('|')})`, 'g')
+  return (
+    <>
+      {text.split(pattern).map((part, i) =>
+        names.includes(part)
+          ? <span key={i} className="font-medium text-info-700">{part}</span>
+          : <span key={i}>{part}</span>
+      )}
+    </>
+  )
+}
+
+interface MentionComposerProps {
+  directory: DirectoryUser[]
+  onSearch: (term: string) => void
+  onSubmit: (text: string, mentions: CommentAuthor[]) => void
+  placeholder: string
+  submitLabel: string
+  ariaLabel: string
+}
+
+function MentionComposer({ directory, onSearch, onSubmit, placeholder, submitLabel, ariaLabel }: MentionComposerProps) {
+  const [text, setText] = useState('')
+  const [mentions, setMentions] = useState<CommentAuthor[]>([])
+  const [query, setQuery] = useState<string | null>(null)
+  const inputRef = useRef<HTMLTextAreaElement>(null)
+
+  const suggestions = query === null
+    ? []
+    : directory.filter(u => directoryName(u).toLowerCase().includes(query.toLowerCase())).slice(0, 5)
+
+  const handleChange = (value: string) => {
+    setText(value)
+    const pending = pendingMention(value)
+    setQuery(pending)
+    if (pending !== null) onSearch(pending)
+  }
+
+  const insertMention = (user: DirectoryUser) => {
+    const name = directoryName(user)
+    setText(prev => prev.replace(/@([^\s@]*)$/, `@${name} `))
+    setMentions(prev => (prev.some(m => m.id === user.id) ? prev : [...prev, { id: user.id, name }]))
+    setQuery(null)
+    inputRef.current?.focus()
+  }
+
+  const submit = () => {
+    if (!text.trim()) return
+    onSubmit(text, mentions)
+    setText('')
+    setMentions([])
+    setQuery(null)
+  }
+
+  return (
+    <div className="relative">
+      <textarea
+        ref={inputRef}
+        value={text}
+        onChange={e => handleChange(e.target.value)}
+        onKeyDown={e => {
+          if (e.key === 'Escape' && query !== null) {
+            e.stopPropagation()
+            setQuery(null)
+          } else if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) {
+            e.preventDefault()
+            submit()
+          }
+        }}
+        placeholder={placeholder}
+        aria-label={ariaLabel}
+        rows={2}
+        maxLength={2000}
+        className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg resize-none focus:outline-none focus:ring-2 focus:ring-info-500"
+      />
+      {suggestions.length > 0 && (
+        <ul
+          role="listbox"
+          aria-label="Mention a team member"
+          className="absolute left-0 right-0 bottom-full mb-1 bg-white border border-gray-200 rounded-lg shadow-panel py-1 z-10"
+        >
+          {suggestions.map(user => (
+            <li key={user.id} role="option" aria-selected={false}>
+              <button
+                type="button"
+                onClick={() => insertMention(user)}
+                className="w-full text-left px-3 py-1.5 text-sm hover:bg-info-50"
+              >
+                <span className="text-gray-900">{directoryName(user)}</span>
+                <span className={`${typography.caption} text-gray-500 ml-2`}>{user.email}</span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      <div className="flex justify-end mt-1">
+        <button
+          type="button"
+          onClick={submit}
+          disabled={!text.trim()}
+          className="px-3 py-1.5 text-sm text-white bg-info-600 hover:bg-info-700 rounded-lg disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          {submitLabel}
+        </button>
+      </div>
+    </div>
+  )
+}
+
+interface ThreadCardProps {
+  thread: CommentThread
+  unread: boolean
+  anchorDescription?: string // Shown when listing threads from several anchors
+  author: CommentAuthor
+  directory: DirectoryUser[]
+  onSearch: (term: string) => void
+}
+
+function ThreadCard({ thread, unread, anchorDescription, author, directory, onSearch }: ThreadCardProps) {
+  const reply = useCommentThreadsStore(s => s.reply)
+  const resolveThread = useCommentThreadsStore(s => s.resolveThread)
+  const reopenThread = useCommentThreadsStore(s => s.reopenThread)
+  const deleteThread = useCommentThreadsStore(s => s.deleteThread)
+  const openPanel = useCommentThreadsStore(s => s.openPanel)
+  const resolved = thread.status === 'resolved'
+
+  const showAnchor = () => {
+    if (thread.anchor.kind === 'node') focusNodeById(thread.anchor.id)
+    else if (thread.anchor.kind === 'edge') focusEdgeById(thread.anchor.id)
+    openPanel({ mode: 'anchor', anchor: thread.anchor })
+  }
+
+  return (
+    <li
+      className={`border rounded-lg ${resolved ? 'border-gray-200 bg-gray-50' : 'border-gray-300 bg-white'}`}
+      data-testid={`comment-thread-${thread.id}`}
+    >
+      <div className="flex items-center gap-2 px-3 pt-2">
+        <span className={`px-1.5 py-0.5 rounded border ${typography.caption} ${LABEL_CLASSES[thread.label]}`}>
+          {thread.label}
+        </span>
+        {resolved ? (
+          <span className={`${typography.caption} text-success-700`}>
+            Resolved{thread.resolvedBy ? ` by ${thread.resolvedBy.name}` : ''}
+          </span>
+        ) : unread ? (
+          <span className={`${typography.caption} font-medium text-info-700`}>New</span>
+        ) : null}
+        <div className="flex-1" />
+        <button
+          type="button"
+          onClick={() => (resolved ? reopenThread(thread.id) : resolveThread(thread.id, author))}
+          className={`flex items-center gap-1 ${typography.caption} text-gray-600 hover:text-gray-900`}
+        >
+          {resolved ? <RotateCcw className="w-3 h-3" /> : <CheckCircle2 className="w-3 h-3" />}
+          {resolved ? 'Reopen' : 'Resolve'}
+        </button>
+        <button
+          type="button"
+          onClick={() => { if (confirm('Delete this thread and its replies?')) deleteThread(thread.id) }}
+          className="p-0.5 text-gray-400 hover:text-danger-600"
+          aria-label="Delete thread"
+        >
+          <Trash2 className="w-3 h-3" />
+        </button>
+      </div>
+
+      {anchorDescription && (
+        <button
+          type="button"
+          onClick={showAnchor}
+          className={`px-3 ${typography.caption} text-info-700 hover:underline text-left`}
+        >
+          On {thread.anchor.kind}: {anchorDescription}
+        </button>
+      )}
+
+      <ol className="px-3 py-2 space-y-2">
+        {thread.messages.map(message => (
+          <li key={message.id}>
+            <div className={`${typography.caption} text-gray-500`}>
+              <span className="font-medium text-gray-700">{message.author.name}</span> · {formatTime(message.at)}
+            </div>
+            <p className={`${typography.body} text-gray-900 whitespace-pre-wrap break-words`}>
+              <MessageText text={message.text} mentions={message.mentions} />
+            </p>
+          </li>
+        ))}
+      </ol>
+
+      {!resolved && (
+        <div className="px-3 pb-3">
+          <MentionComposer
+            directory={directory}
+            onSearch={onSearch}
+            onSubmit={(text, mentions) => reply(thread.id, { author, text, mentions })}
+            placeholder="Reply… (@ to mention)"
+            submitLabel="Reply"
+            ariaLabel="Reply to thread"
+          />
+        </div>
+      )}
+    </li>
+  )
+}
+
+export function CommentThreadsPanel() {
+  const panel = useCommentThreadsStore(s => s.panel)
+  const threads = useCommentThreadsStore(s => s.threads)
+  const readAt = useCommentThreadsStore(s => s.readAt)
+  const startThread = useCommentThreadsStore(s => s.startThread)
+  const markRead = useCommentThreadsStore(s => s.markRead)
+  const closePanel = useCommentThreadsStore(s => s.closePanel)
+  const scenarioId = useCanvasStore(selectRecordScope)
+  const describeAnchor = useAnchorDescription()
+  const author = useCommentAuthor()
+  const { users, setSearchTerm } = useDirectory()
+  const [label, setLabel] = useState<ThreadLabel>('Challenge')
+
+  const visible = useMemo(() => {
+    if (!panel) return []
+    return panel.mode === 'anchor'
+      ? threadsForAnchor(threads, scenarioId, panel.anchor)
+      : openChallenges(threads, scenarioId)
+  }, [panel, threads, scenarioId])
+
+  // Unread state is captured before marking, so "New" stays while the panel is open
+  const [unreadIds, setUnreadIds] = useState<Set<string>>(new Set())
+  useEffect(() => {
+    setUnreadIds(new Set())
+  }, [panel])
+  useEffect(() => {
+    const unread = visible.filter(t => isThreadUnread(t, readAt)).map(t => t.id)
+    if (unread.length === 0) return
+    setUnreadIds(prev => new Set([...prev, ...unread]))
+    markRead(unread)
+  }, [visible, readAt, markRead])
+
+  if (!panel) return null
+
+  const title = panel.mode === 'anchor' ? describeAnchor(panel.anchor) : 'Open challenges'
+
+  return (
+    <div
+      className="fixed right-0 top-0 bottom-0 w-96 z-[2000] bg-white border-l border-gray-200 shadow-panel flex flex-col"
+      role="dialog"
+      aria-labelledby="comment-threads-title"
+      data-testid="comment-threads-panel"
+    >
+      <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200">
+        <div className="min-w-0">
+          <div className={`${typography.caption} text-gray-500 flex items-center gap-1`}>
+            <MessageSquare className="w-3 h-3" />
+            {panel.mode === 'anchor' ? `Discussion on ${panel.anchor.kind}` : 'Discussion'}
+          </div>
+          <h3 id="comment-threads-title" className={`${typography.h4} text-gray-900 truncate`}>{title}</h3>
+        </div>
+        <button
+          type="button"
+          onClick={closePanel}
+          className="p-1 text-gray-500 hover:text-gray-700 rounded"
+          aria-label="Close discussion"
+        >
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto px-4 py-3">
+        {visible.length === 0 ? (
+          <p className={`${typography.caption} text-gray-500`}>
+            {panel.mode === 'anchor' ? 'No discussion yet.' : 'No open challenges.'}
+          </p>
+        ) : (
+          <ul className="space-y-3">
+            {visible.map(thread => (
+              <ThreadCard
+                key={thread.id}
+                thread={thread}
+                unread={unreadIds.has(thread.id)}
+                anchorDescription={panel.mode === 'open-challenges' ? describeAnchor(thread.anchor) : undefined}
+                author={author}
+                directory={users}
+                onSearch={setSearchTerm}
+              />
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {panel.mode === 'anchor' && (
+        <div className="px-4 py-3 border-t border-gray-200 space-y-2">
+          <div className="flex gap-1" role="radiogroup" aria-label="Thread type">
+            {THREAD_LABELS.map(option => (
+              <button
+                key={option}
+                type="button"
+                role="radio"
+                aria-checked={label === option}
+                onClick={() => setLabel(option)}
+                className={`px-2 py-0.5 rounded border ${typography.caption} transition-colors ${
+                  label === option ? LABEL_CLASSES[option] : 'border-gray-200 text-gray-600 hover:bg-gray-50'
+                }`}
+              >
+                {option}
+              </button>
+            ))}
+          </div>
+          <MentionComposer
+            directory={users}
+            onSearch={setSearchTerm}
+            onSubmit={(text, mentions) => {
+              startThread({ scenarioId, anchor: panel.anchor, label, author, text, mentions })
+            }}
+            placeholder="Start a thread… (@ to mention)"
+            submitLabel="Start thread"
+            ariaLabel="New thread"
+          />
+        </div>
+      )}
+    </div>
+  )
+}
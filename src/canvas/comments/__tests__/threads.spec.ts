@@ -0,0 +1,111 @@
+import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest'
+import {
+  useCommentThreadsStore,
+  threadsForAnchor,
+  unreadCountForAnchor,
+  openChallenges,
+  pendingMention,
+  type CommentAuthor,
+} from '../threads'
+import {
+  adoptDraftRecords,
+  copyScenarioRecords,
+  deleteScenarioRecords,
+  draftScenarioId,
+  flushScenarioRecords,
+} from '../../store/scenarioRecords'
+import { createScenario, getScenario } from '../../store/scenarios'
+
+const ada: CommentAuthor = { id: 'u1', name: 'Ada Lovelace' }
+const alan: CommentAuthor = { id: 'u2', name: 'Alan Turing' }
+const node = { kind: 'node' as const, id: '3', label: 'Hiring cost' }
+
+describe('comment threads', () => {
+  beforeEach(() => {
+    localStorage.clear()
+    useCommentThreadsStore.setState({ threads: [], readAt: {}, panel: null })
+    vi.useFakeTimers()
+    vi.setSystemTime(1_000)
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('starts, replies to, resolves and reopens a thread', () => {
+    const { id: scenarioId } = createScenario({ name: 'Pricing', nodes: [], edges: [] })
+    const store = useCommentThreadsStore.getState()
+    const thread = store.startThread({ scenarioId, anchor: node, label: 'Challenge', author: ada, text: '  Too optimistic  ' })!
+    expect(thread.messages[0]).toMatchObject({ author: ada, text: 'Too optimistic' })
+
+    vi.setSystemTime(2_000)
+    store.reply(thread.id, { author: alan, text: '@Ada Lovelace agreed', mentions: [ada, { id: 'u3', name: 'Grace' }] })
+    store.resolveThread(thread.id, alan)
+
+    let [saved] = threadsForAnchor(useCommentThreadsStore.getState().threads, scenarioId, node)
+    expect(saved.messages).toHaveLength(2)
+    expect(saved.messages[1].mentions).toEqual([ada]) // Grace is no longer in the text
+    expect(saved).toMatchObject({ status: 'resolved', resolvedBy: alan })
+
+    store.reopenThread(thread.id)
+    ;[saved] = threadsForAnchor(useCommentThreadsStore.getState().threads, scenarioId, node)
+    expect(saved.status).toBe('open')
+    expect(saved.resolvedBy).toBeUndefined()
+
+    // Saved with the scenario
+    flushScenarioRecords()
+    expect(getScenario(scenarioId)?.comment_threads).toMatchObject([{ id: thread.id, status: 'open' }])
+  })
+
+  it('ignores empty messages', () => {
+    const store = useCommentThreadsStore.getState()
+    expect(store.startThread({ scenarioId: 's1', anchor: node, label: 'Question', author: ada, text: '   ' })).toBeNull()
+    expect(useCommentThreadsStore.getState().threads).toHaveLength(0)
+  })
+
+  it('counts a thread as unread until it is read again after a new message', () => {
+    const store = useCommentThreadsStore.getState()
+    const thread = store.startThread({ scenarioId: 's1', anchor: node, label: 'Evidence', author: ada, text: 'Source?' })!
+    expect(unreadCountForAnchor(useCommentThreadsStore.getState(), 's1', 'node', '3')).toBe(0) // Own post
+
+    // A reply arriving from elsewhere
+    useCommentThreadsStore.setState(s => ({
+      threads: s.threads.map(t => (t.id === thread.id
+        ? { ...t, messages: [...t.messages, { id: 'm2', author: alan, text: 'Survey', mentions: [], at: 5_000 }] }
+        : t)),
+    }))
+    expect(unreadCountForAnchor(useCommentThreadsStore.getState(), 's1', 'node', '3')).toBe(1)
+    expect(unreadCountForAnchor(useCommentThreadsStore.getState(), 's2', 'node', '3')).toBe(0)
+
+    vi.setSystemTime(6_000)
+    useCommentThreadsStore.getState().markRead([thread.id])
+    expect(unreadCountForAnchor(useCommentThreadsStore.getState(), 's1', 'node', '3')).toBe(0)
+  })
+
+  it('keeps anchors on scenario duplication and adopts unsaved threads on first save', () => {
+    const draftId = draftScenarioId()
+    useCommentThreadsStore.getState().startThread({ scenarioId: draftId, anchor: node, label: 'Challenge', author: ada, text: 'Draft concern' })
+    adoptDraftRecords('s1')
+    copyScenarioRecords('s1', 's2')
+
+    const { threads, readAt } = useCommentThreadsStore.getState()
+    const [original] = openChallenges(threads, 's1')
+    const [copy] = openChallenges(threads, 's2')
+    expect(copy.id).not.toBe(original.id)
+    expect(copy.anchor).toEqual(original.anchor)
+    expect(readAt[copy.id]).toBe(readAt[original.id])
+    expect(openChallenges(threads, draftId)).toHaveLength(0)
+    expect(draftScenarioId()).not.toBe(draftId)
+
+    deleteScenarioRecords('s1')
+    expect(useCommentThreadsStore.getState().threads.map(t => t.scenarioId)).toEqual(['s2'])
+    expect(useCommentThreadsStore.getState().readAt[original.id]).toBeUndefined()
+  })
+
+  it('detects an unfinished @mention at the end of a draft', () => {
+    expect(pendingMention('Ask @ad')).toBe('ad')
+    expect(pendingMention('@')).toBe('')
+    expect(pendingMention('Ask @Ada Lovelace about it')).toBeNull()
+    expect(pendingMention('email me@example.com')).toBeNull()
+  })
+})
@@ -0,0 +1,266 @@
+/**
+ * Comment Threads
+ *
+ * Threaded discussion anchored to a node, edge, driver or run of a scenario.
+ * Anchors hold the target's id (the label is only a fallback for display once
+ * the target is gone), so relabelling a node keeps its threads, and a
+ * duplicated scenario - which keeps node and edge ids - gets a copy of them.
+ *
+ * Threads are saved with their scenario (see scenarioRecords.ts), so they
+ * sync and export with it. Read markers are kept per device: a thread is unread when it has a message
+ * newer than the last time it was opened here. Posting marks it read.
+ */
+
+import { create } from 'zustand'
+import { canvasStorage } from '../persist/storage'
+import { generateRecordId, scenarioRecords, type ScenarioRecordCollection } from '../store/scenarioRecords'
+
+const READS_KEY = 'canvas-comment-reads.v1'
+
+export type ThreadLabel = 'Challenge' | 'Evidence' | 'Question'
+export type ThreadStatus = 'open' | 'resolved'
+export type ThreadAnchorKind = 'node' | 'edge' | 'driver' | 'run'
+
+export const THREAD_LABELS: ThreadLabel[] = ['Challenge', 'Evidence', 'Question']
+
+export interface ThreadAnchor {
+  kind: ThreadAnchorKind
+  id: string
+  label?: string // Display fallback when the target no longer exists
+}
+
+export interface CommentAuthor {
+  id: string
+  name: string
+}
+
+export interface ThreadMessage {
+  id: string
+  author: CommentAuthor
+  text: string
+  mentions: CommentAuthor[]
+  at: number // timestamp ms
+}
+
+export interface CommentThread {
+  id: string
+  scenarioId: string
+  anchor: ThreadAnchor
+  label: ThreadLabel
+  status: ThreadStatus
+  messages: ThreadMessage[] // Oldest first
+  createdAt: number
+  updatedAt: number
+  resolvedAt?: number
+  resolvedBy?: CommentAuthor
+}
+
+/** What the discussion panel shows: one anchor's threads, or every open challenge */
+export type ThreadPanelView =
+  | { mode: 'anchor'; anchor: ThreadAnchor }
+  | { mode: 'open-challenges' }
+
+export interface NewMessage {
+  author: CommentAuthor
+  text: string
+  mentions?: CommentAuthor[]
+}
+
+interface CommentThreadsState {
+  threads: CommentThread[]
+  readAt: Record<string, number> // thread id -> last read (ms)
+  panel: ThreadPanelView | null
+
+  startThread: (input: NewMessage & { scenarioId: string; anchor: ThreadAnchor; label: ThreadLabel }) => CommentThread | null
+  reply: (threadId: string, message: NewMessage) => void
+  resolveThread: (threadId: string, by: CommentAuthor) => void
+  reopenThread: (threadId: string) => void
+  deleteThread: (threadId: string) => void
+  markRead: (threadIds: string[]) => void
+
+  openPanel: (view: ThreadPanelView) => void
+  closePanel: () => void
+}
+
+function loadReads(): Record<string, number> {
+  try {
+    const raw = canvasStorage.getItem(READS_KEY)
+    return raw ? (JSON.parse(raw) as Record<string, number>) : {}
+  } catch (error) {
+    console.error('[comments] Failed to load read markers:', error)
+    return {}
+  }
+}
+
+function saveReads(readAt: Record<string, number>): void {
+  try {
+    canvasStorage.setItem(READS_KEY, JSON.stringify(readAt))
+  } catch (error) {
+    console.error('[comments] Failed to save read markers:', error)
+  }
+}
+
+const threadRecords: ScenarioRecordCollection<CommentThread> = scenarioRecords('comment_threads', {
+  read: () => useCommentThreadsStore.getState().threads,
+  write: threads => useCommentThreadsStore.setState({ threads }),
+  idPrefix: 'thread',
+  // A copied thread is as read as the one it was copied from
+  copied: pairs => {
+    const readAt = { ...useCommentThreadsStore.getState().readAt }
+    for (const [original, copy] of pairs) if (readAt[original.id] !== undefined) readAt[copy.id] = readAt[original.id]
+    saveReads(readAt)
+    useCommentThreadsStore.setState({ readAt })
+  },
+  removed: threads => {
+    const readAt = { ...useCommentThreadsStore.getState().readAt }
+    for (const thread of threads) delete readAt[thread.id]
+    saveReads(readAt)
+    useCommentThreadsStore.setState({ readAt })
+  },
+})
+
+function createMessage({ author, text, mentions = [] }: NewMessage, at: number): ThreadMessage | null {
+  const trimmed = text.trim()
+  if (!trimmed) return null
+  return {
+    id: generateRecordId('msg'),
+    author,
+    text: trimmed,
+    // Only keep people still mentioned in the final text
+    mentions: mentions.filter(m => trimmed.includes(`@${m.name}`)),
+    at,
+  }
+}
+
+export const useCommentThreadsStore = create<CommentThreadsState>((set, get) => {
+  const commit = (threads: CommentThread[], readAt = get().readAt) => {
+    threadRecords.save(threads, get().threads)
+    saveReads(readAt)
+    set({ threads, readAt })
+  }
+
+  const updateThread = (threadId: string, update: (thread: CommentThread, now: number) => CommentThread, markRead = false) => {
+    const now = Date.now()
+    const threads = get().threads.map(t => (t.id === threadId ? update(t, now) : t))
+    commit(threads, markRead ? { ...get().readAt, [threadId]: now } : get().readAt)
+  }
+
+  return {
+    threads: threadRecords.load(),
+    readAt: loadReads(),
+    panel: null,
+
+    startThread: ({ scenarioId, anchor, label, ...message }) => {
+      const now = Date.now()
+      const first = createMessage(message, now)
+      if (!first) return null
+      const thread: CommentThread = {
+        id: generateRecordId('thread'),
+        scenarioId,
+        anchor,
+        label,
+        status: 'open',
+        messages: [first],
+        createdAt: now,
+        updatedAt: now,
+      }
+      commit([...get().threads, thread], { ...get().readAt, [thread.id]: now })
+      return thread
+    },
+
+    reply: (threadId, message) => {
+      updateThread(threadId, (thread, now) => {
+        const next = createMessage(message, now)
+        return next ? { ...thread, messages: [...thread.messages, next], updatedAt: now } : thread
+      }, true)
+    },
+
+    resolveThread: (threadId, by) => {
+      updateThread(threadId, (thread, now) => ({
+        ...thread,
+        status: 'resolved',
+        resolvedAt: now,
+        resolvedBy: by,
+        updatedAt: now,
+      }))
+    },
+
+    reopenThread: (threadId) => {
+      updateThread(threadId, (thread, now) => ({
+        ...thread,
+        status: 'open',
+        resolvedAt: undefined,
+        resolvedBy: undefined,
+        updatedAt: now,
+      }))
+    },
+
+    deleteThread: (threadId) => {
+      const readAt = { ...get().readAt }
+      delete readAt[threadId]
+      commit(get().threads.filter(t => t.id !== threadId), readAt)
+    },
+
+    markRead: (threadIds) => {
+      const { readAt, threads } = get()
+      const now = Date.now()
+      const stale = threadIds.filter(id => {
+        const thread = threads.find(t => t.id === id)
+        return thread && isThreadUnread(thread, readAt)
+      })
+      if (stale.length === 0) return
+      const next = { ...readAt }
+      for (const id of stale) next[id] = now
+      saveReads(next)
+      set({ readAt: next })
+    },
+
+    openPanel: (view) => set({ panel: view }),
+    closePanel: () => set({ panel: null }),
+  }
+})
+
+// ============================================================================
+// Selectors
+// ============================================================================
+
+export function isThreadUnread(thread: CommentThread, readAt: Record<string, number>): boolean {
+  const last = thread.messages[thread.messages.length - 1]
+  return !!last && last.at > (readAt[thread.id] ?? 0)
+}
+
+/** Threads on one anchor of a scenario: open first, then most recently active */
+export function threadsForAnchor(
+  threads: CommentThread[],
+  scenarioId: string,
+  anchor: Pick<ThreadAnchor, 'kind' | 'id'>
+): CommentThread[] {
+  return threads
+    .filter(t => t.scenarioId === scenarioId && t.anchor.kind === anchor.kind && t.anchor.id === anchor.id)
+    .sort((a, b) => (a.status === b.status ? b.updatedAt - a.updatedAt : a.status === 'open' ? -1 : 1))
+}
+
+/** Unread threads on one anchor (primitive, safe for store selectors) */
+export function unreadCountForAnchor(
+  state: Pick<CommentThreadsState, 'threads' | 'readAt'>,
+  scenarioId: string,
+  kind: ThreadAnchorKind,
+  id: string
+): number {
+  return state.threads.filter(
+    t => t.scenarioId === scenarioId && t.anchor.kind === kind && t.anchor.id === id && isThreadUnread(t, state.readAt)
+  ).length
+}
+
+/** Open Challenge threads of a scenario, most recently active first */
+export function openChallenges(threads: CommentThread[], scenarioId: string): CommentThread[] {
+  return threads
+    .filter(t => t.scenarioId === scenarioId && t.label === 'Challenge' && t.status === 'open')
+    .sort((a, b) => b.updatedAt - a.updatedAt)
+}
+
+/** Text after an unfinished @mention at the end of a draft, or null */
+export function pendingMention(text: string): string | null {
+  const match = /(?:^|\s)@([^\s@]*)$/.exec(text)
+  return match ? match[1] : null
+}
@@ -0,0 +1,21 @@
+/**
+ * useCommentAuthor - the signed-in user as a comment author
+ *
+ * Falls back to the guest identity outside an AuthProvider (PoC canvas).
+ */
+
+import { useMemo } from 'react'
+import { useAuth } from '../../contexts/AuthContext'
+import type { CommentAuthor } from './threads'
+
+export const GUEST_AUTHOR: CommentAuthor = { id: 'guest', name: 'Guest' }
+
+export function useCommentAuthor(): CommentAuthor {
+  const { user, profile } = useAuth()
+
+  return useMemo(() => {
+    if (!user || user.id === GUEST_AUTHOR.id) return GUEST_AUTHOR
+    const fullName = [profile?.first_name, profile?.last_name].filter(Boolean).join(' ')
+    return { id: user.id, name: fullName || user.email?.split('@')[0] || 'Unknown' }
+  }, [user, profile])
+}
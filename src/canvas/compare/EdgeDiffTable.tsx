@@ -65,6 +65,32 @@ function RankBadge({ rank }: { rank: number }) {
   )
 }
 
+/** +/−/~ marker for added, removed and changed items (also used by the version merge table) */
+export function DiffStatusBadge({ status }: { status: 'matched' | 'added' | 'removed' | 'changed' }) {
+  if (status === 'added') {
+    return (
+      <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-success-100 text-success-800">
+        +
+      </span>
+    )
+  }
+  if (status === 'removed') {
+    return (
+      <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-danger-100 text-danger-800">
+        −
+      </span>
+    )
+  }
+  if (status === 'changed') {
+    return (
+      <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-warning-100 text-warning-800">
+        ~
+      </span>
+    )
+  }
+  return null
+}
+
 /** S9-DIFFS: Edge summary counts */
 function EdgeSummary({ diffs }: { diffs: EdgeDiffRow[] }) {
   const added = diffs.filter((d) => d.status === 'added').length
@@ -167,16 +193,7 @@ export function EdgeDiffTable({ runA, runB, limit = 5, onFocusEdge }: EdgeDiffTa
                 </td>
                 <td className="px-4 py-3">
                   <div className="flex items-center gap-2">
-                    {row.status === 'added' && (
-                      <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-success-100 text-success-800">
-                        +
-                      </span>
-                    )}
-                    {row.status === 'removed' && (
-                      <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-danger-100 text-danger-800">
-                        −
-                      </span>
-                    )}
+                    <DiffStatusBadge status={row.status} />
                     <span className="font-medium text-gray-900">
                       {row.from} → {row.to}
                     </span>
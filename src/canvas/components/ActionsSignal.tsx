@@ -30,6 +30,7 @@ import {
 import { useUnifiedActions, type UnifiedAction, type ActionPriority } from '../hooks/useUnifiedActions'
 import { useCanvasStore } from '../store'
 import { executeAutoFix, determineFixType, type AutoFixParams } from '../utils/autoFix'
+import { commitAutoFix } from '../changesets/reviewStore'
 import { trackAutoFixClicked, trackAutoFixSuccess, trackAutoFixFailed } from '../utils/sandboxTelemetry'
 import { focusNodeById, focusEdgeById } from '../utils/focusHelpers'
 import { typography } from '../../styles/typography'
@@ -161,14 +162,9 @@ export function ActionsSignal({ maxCollapsed = 3, defaultExpanded = false }: Act
         const result = executeAutoFix(params, nodes, edges)
 
         if (result.success) {
-          if (result.updatedNodes) {
-            useCanvasStore.setState({ nodes: result.updatedNodes })
-          }
-          if (result.updatedEdges) {
-            useCanvasStore.setState({ edges: result.updatedEdges })
-          }
-
-          setTimeout(() => validateGraph(), 50)
+          commitAutoFix(fixType, result, () => {
+            setTimeout(() => validateGraph(), 50)
+          })
 
           trackAutoFixSuccess()
           setFixedIds((prev) => new Set(prev).add(action.id))
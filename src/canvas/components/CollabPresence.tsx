@@ -0,0 +1,64 @@
+/**
+ * Collab Presence - who is editing this canvas, and whether the relay is reachable
+ */
+
+import { Users } from 'lucide-react'
+import type { CollabStatus } from '../hooks/useCollaboration'
+import type { Collaborator, Peer } from '../collab/presence'
+import { typography } from '../../styles/typography'
+
+interface CollabPresenceProps {
+  status: CollabStatus
+  self: Collaborator | null
+  peers: Peer[]
+}
+
+const MAX_AVATARS = 5
+
+const STATUS_LABELS: Record<CollabStatus, string> = {
+  off: 'Not shared',
+  connecting: 'Connecting…',
+  connected: 'Live',
+  disconnected: 'Offline – changes will sync when reconnected',
+}
+
+const initials = (name: string) =>
+  name.split(/\s+/).filter(Boolean).slice(0, 2).map(part => part[0]!.toUpperCase()).join('')
+
+export function CollabPresence({ status, self, peers }: CollabPresenceProps) {
+  if (status === 'off') return null
+  const people = [...(self ? [{ key: 'self', user: self }] : []), ...peers.map(p => ({ key: String(p.clientId), user: p.user }))]
+
+  return (
+    <div
+      className="flex items-center gap-2 px-2 py-1 rounded-full bg-white/90 border border-sand-200 shadow-sm"
+      role="status"
+      aria-live="polite"
+      data-testid="collab-presence"
+    >
+      <span
+        className={`w-2 h-2 rounded-full ${status === 'connected' ? 'bg-mint-500' : status === 'connecting' ? 'bg-warning-500' : 'bg-danger-500'}`}
+        aria-hidden="true"
+      />
+      <span className={`${typography.caption} text-ink-900`}>{STATUS_LABELS[status]}</span>
+      <div className="flex -space-x-1.5">
+        {people.slice(0, MAX_AVATARS).map(({ key, user }) => (
+          <span
+            key={key}
+            className="w-6 h-6 rounded-full flex items-center justify-center text-[10px] font-semibold text-white ring-2 ring-white"
+            style={{ backgroundColor: user.colour }}
+            title={key === 'self' ? `${user.name} (you)` : user.name}
+          >
+            {initials(user.name)}
+          </span>
+        ))}
+        {people.length > MAX_AVATARS && (
+          <span className="w-6 h-6 rounded-full flex items-center justify-center text-[10px] bg-sand-200 text-ink-900 ring-2 ring-white">
+            +{people.length - MAX_AVATARS}
+          </span>
+        )}
+      </div>
+      <Users className="w-3.5 h-3.5 text-ink-900 opacity-60" aria-label={`${people.length} editing`} />
+    </div>
+  )
+}
@@ -1,5 +1,6 @@
 import { useState, useEffect, useRef } from 'react'
 import { useCanvasStore } from '../store'
+import { selectRecordScope } from '../store/scenarioRecords'
 import { runLayoutWithProgress } from '../layout/runLayoutWithProgress'
 import { useReactFlow } from '@xyflow/react'
 import { plot } from '../../adapters/plot'
@@ -8,6 +9,10 @@ import { ValidationBanner, type ValidationError } from './ValidationBanner'
 import { useValidationFeedback } from '../hooks/useValidationFeedback'
 import { trackRunAttempt } from '../utils/sandboxTelemetry'
 import { typography } from '../../styles/typography'
+import { useCommentThreadsStore, openChallenges } from '../comments/threads'
+import { focusNodeById, focusEdgeById } from '../utils/focusHelpers'
+import { isCommentsEnabled } from '../../flags'
+import { useDocumentTextStore } from '../documents/textStore'
 
 interface Action {
   id: string
@@ -16,6 +21,12 @@ interface Action {
   execute: () => void | Promise<void>
 }
 
+type PaletteFilter = 'all' | 'open-challenges'
+
+const MIN_PASSAGE_QUERY = 3
+const MAX_PASSAGE_ACTIONS = 5
+const PASSAGE_LABEL_CHARS = 90
+
 interface CommandPaletteProps {
   isOpen: boolean
   onClose: () => void
@@ -31,6 +42,7 @@ export function CommandPalette({ isOpen, onClose, onOpenInspector }: CommandPale
   const [isExecuting, setIsExecuting] = useState(false)
   const [validationErrors, setValidationErrors] = useState<ValidationError[]>([])
   const [validationViolations, setValidationViolations] = useState<ValidationError[]>([]) // v1.2: coaching warnings
+  const [filter, setFilter] = useState<PaletteFilter>('all')
   const inputRef = useRef<HTMLInputElement>(null)
   // React #185 FIX: Use individual selectors for actions to avoid entire-store subscription
   const addNode = useCanvasStore(s => s.addNode)
@@ -40,6 +52,15 @@ export function CommandPalette({ isOpen, onClose, onOpenInspector }: CommandPale
   const nodes = useCanvasStore(s => s.nodes)
   const edges = useCanvasStore(s => s.edges)
   const { fitView } = useReactFlow()
+  const commentsEnabled = isCommentsEnabled()
+  const scenarioId = useCanvasStore(selectRecordScope)
+  const threads = useCommentThreadsStore(s => s.threads)
+  const openDiscussion = useCommentThreadsStore(s => s.openPanel)
+  const challenges = commentsEnabled ? openChallenges(threads, scenarioId) : []
+  const documents = useCanvasStore(s => s.documents)
+  const setShowProvenanceHub = useCanvasStore(s => s.setShowProvenanceHub)
+  const searchDocuments = useDocumentTextStore(s => s.search)
+  const openDocumentSearch = useDocumentTextStore(s => s.openSearch)
   const { run } = useResultsRun()
   const { formatErrors, focusError } = useValidationFeedback()
 
@@ -135,15 +156,52 @@ export function CommandPalette({ isOpen, onClose, onOpenInspector }: CommandPale
     { id: 'save-snapshot', label: 'Save Snapshot', shortcut: '⌘S', execute: () => saveSnapshot() },
   ]
 
-  const filteredActions = query.trim() === ''
-    ? actions
-    : actions.filter(a => a.label.toLowerCase().includes(query.toLowerCase()))
+  // Open challenges: jump to the challenged node/edge with its discussion open
+  const challengeActions: Action[] = challenges.map(thread => {
+    const node = thread.anchor.kind === 'node' ? nodes.find(n => n.id === thread.anchor.id) : undefined
+    const target = (node?.data as { label?: string } | undefined)?.label ?? thread.anchor.label
+    return {
+      id: `challenge-${thread.id}`,
+      label: `${target ? `${target}: ` : ''}${thread.messages[0]?.text ?? ''}`,
+      execute: () => {
+        if (thread.anchor.kind === 'node') focusNodeById(thread.anchor.id)
+        else if (thread.anchor.kind === 'edge') focusEdgeById(thread.anchor.id)
+        openDiscussion({ mode: 'anchor', anchor: thread.anchor })
+      },
+    }
+  })
+
+  // Document passages: open the Provenance Hub on the same search
+  const passageActions: Action[] =
+    filter === 'all' && documents.length > 0 && query.trim().length >= MIN_PASSAGE_QUERY
+      ? searchDocuments(query, { limit: MAX_PASSAGE_ACTIONS }).map(hit => {
+          const name = documents.find(d => d.id === hit.chunk.documentId)?.name ?? 'Document'
+          const excerpt = hit.snippet.length > PASSAGE_LABEL_CHARS ? `${hit.snippet.slice(0, PASSAGE_LABEL_CHARS)}…` : hit.snippet
+          return {
+            id: `passage-${hit.chunk.id}`,
+            label: `${name}: “${excerpt}”`,
+            execute: () => {
+              openDocumentSearch(query.trim())
+              setShowProvenanceHub(true)
+            },
+          }
+        })
+      : []
+
+  const listed = filter === 'open-challenges' ? challengeActions : actions
+  const filteredActions = [
+    ...(query.trim() === ''
+      ? listed
+      : listed.filter(a => a.label.toLowerCase().includes(query.toLowerCase()))),
+    ...passageActions,
+  ]
 
   useEffect(() => {
     if (isOpen) {
       inputRef.current?.focus()
       setQuery('')
       setSelectedIndex(0)
+      setFilter('all')
       setValidationErrors([])
       setValidationViolations([])
     }
@@ -194,9 +252,29 @@ export function CommandPalette({ isOpen, onClose, onOpenInspector }: CommandPale
               setQuery(e.target.value)
               setSelectedIndex(0)
             }}
-            placeholder="Search actions..."
+            placeholder={filter === 'open-challenges' ? 'Search open challenges...' : 'Search actions...'}
             className="w-full text-lg outline-none"
           />
+          {commentsEnabled && (
+            <div className="flex gap-2 mt-2" role="group" aria-label="Filter">
+              <button
+                type="button"
+                aria-pressed={filter === 'open-challenges'}
+                onClick={() => {
+                  setFilter(f => (f === 'open-challenges' ? 'all' : 'open-challenges'))
+                  setSelectedIndex(0)
+                  inputRef.current?.focus()
+                }}
+                className={`px-2 py-0.5 rounded-full border ${typography.caption} transition-colors ${
+                  filter === 'open-challenges'
+                    ? 'bg-danger-50 border-danger-200 text-danger-700'
+                    : 'border-gray-200 text-gray-600 hover:bg-gray-50'
+                }`}
+              >
+                Open challenges ({challenges.length})
+              </button>
+            </div>
+          )}
         </div>
 
         {/* Validation Error Banner */}
@@ -223,7 +301,7 @@ export function CommandPalette({ isOpen, onClose, onOpenInspector }: CommandPale
             </div>
           ) : filteredActions.length === 0 ? (
             <div className="px-4 py-8 text-center text-gray-500">
-              No actions found
+              {filter === 'open-challenges' ? 'No open challenges' : 'No actions found'}
             </div>
           ) : (
             filteredActions.map((action, index) => (
@@ -3,9 +3,13 @@ import { ArrowLeft, Download } from 'lucide-react'
 import { loadRuns, type StoredRun } from '../store/runHistory'
 import { typography } from '../../styles/typography'
 import { useCanvasStore } from '../store'
+import { selectRecordScope } from '../store/scenarioRecords'
 import { EdgeDiffTable } from '../compare/EdgeDiffTable'
 import { CompareSummary } from '../compare/CompareSummary'
 import { exportDecisionBrief } from '../export/decisionBrief'
+import { useAuditTrailStore, trailForScenario } from '../audit/trail'
+import { usePremortemStore, sessionsForScenario } from '../premortem/session'
+import { isAuditTrailEnabled, isPremortemEnabled } from '../../flags'
 
 interface CompareViewProps {
   onOpenInCanvas: (runId: string) => void
@@ -69,7 +73,15 @@ export function CompareView({ onOpenInCanvas, onBack, selectedRunIds, onSelectio
       title,
       runA,
       runB,
-      rationale: rationale || undefined
+      rationale: rationale || undefined,
+      auditTrail: isAuditTrailEnabled()
+        ? trailForScenario(useAuditTrailStore.getState().events, selectRecordScope(useCanvasStore.getState()))
+        : undefined,
+      // Sessions still collecting have no causes to report yet
+      premortem: isPremortemEnabled()
+        ? sessionsForScenario(usePremortemStore.getState().sessions, selectRecordScope(useCanvasStore.getState()))
+            .filter(s => s.clusters.length > 0)
+        : undefined
     })
   }
 
@@ -7,9 +7,13 @@
 
 import { useState, useMemo } from 'react'
 import { ReactFlowProvider } from '@xyflow/react'
-import { X, Link2, Link2Off, Maximize2, Plus, Minus, RefreshCw, Equal, TrendingUp, TrendingDown, Target } from 'lucide-react'
-import { useCanvasStore } from '../store'
+import { X, Link2, Link2Off, Maximize2, Plus, Minus, RefreshCw, Equal, TrendingUp, TrendingDown, Target, Scale } from 'lucide-react'
+import type { Node, Edge } from '@xyflow/react'
+import { useCanvasStore, selectCriteria } from '../store'
 import { MiniCanvas } from './MiniCanvas'
+import { ParetoChart } from './ParetoChart'
+import { useMultiCriteria } from '../hooks/useMultiCriteria'
+import { activeCriteria, type CriteriaGraph } from '../utils/multiCriteria'
 import { useSyncedViewports } from '../hooks/useSyncedViewports'
 import { typography } from '../../styles/typography'
 import type { ComparisonResult } from '../snapshots/types'
@@ -194,6 +198,124 @@ function ComparisonStatsBar({ comparison }: { comparison: ComparisonResult | nul
   )
 }
 
+/**
+ * Trade-offs view - weighted score per option and a Pareto scatter
+ *
+ * Options from both scenarios are scored on the criteria set in the node
+ * inspector (weights live on the scenario framing).
+ */
+function TradeOffsView({
+  scenarioA,
+  scenarioB,
+}: {
+  scenarioA: { nodes: Node[]; edges: Edge[]; label: string }
+  scenarioB: { nodes: Node[]; edges: Edge[]; label: string }
+}) {
+  const storedCriteria = useCanvasStore(selectCriteria)
+  const graphs = useMemo<CriteriaGraph[]>(() => [
+    { key: 'a', ...scenarioA },
+    { key: 'b', ...scenarioB },
+  ], [scenarioA, scenarioB])
+  const criteria = useMemo(
+    () => activeCriteria(storedCriteria, [...scenarioA.nodes, ...scenarioB.nodes]),
+    [storedCriteria, scenarioA.nodes, scenarioB.nodes]
+  )
+  const { status, options, error } = useMultiCriteria(graphs, criteria)
+  const [axes, setAxes] = useState<[number, number]>([0, 1])
+
+  const labelOf = (nodeId: string) => {
+    const node = [...scenarioA.nodes, ...scenarioB.nodes].find(n => n.id === nodeId)
+    return String((node?.data as Record<string, unknown> | undefined)?.label ?? nodeId)
+  }
+
+  if (criteria.length < 2) {
+    return (
+      <div className="flex-1 flex items-center justify-center p-8">
+        <div className="text-center max-w-sm">
+          <Scale className="w-12 h-12 text-ink-300 mx-auto mb-3" />
+          <p className={`${typography.body} text-ink-600`}>Mark at least two criteria to compare trade-offs</p>
+          <p className={`${typography.caption} text-ink-500 mt-1`}>
+            Select an outcome or goal node and tick “Use as criterion” to give it a weight and direction.
+          </p>
+        </div>
+      </div>
+    )
+  }
+
+  const x = criteria[Math.min(axes[0], criteria.length - 1)]
+  const y = criteria[Math.min(axes[1], criteria.length - 1)]
+  const axisSelect = (index: 0 | 1, label: string) => (
+    <label className={`flex items-center gap-1.5 ${typography.caption} text-ink-600`}>
+      {label}
+      <select
+        value={axes[index]}
+        onChange={(e) => {
+          const next: [number, number] = [...axes]
+          next[index] = Number(e.target.value)
+          setAxes(next)
+        }}
+        className="border border-sand-300 rounded px-1 py-0.5 bg-white text-ink-800"
+      >
+        {criteria.map((c, i) => (
+          <option key={c.nodeId} value={i}>{labelOf(c.nodeId)}</option>
+        ))}
+      </select>
+    </label>
+  )
+
+  return (
+    <div className="flex-1 overflow-auto p-4 space-y-4" data-testid="trade-offs-view">
+      {status === 'running' && (
+        <p className={`${typography.caption} text-ink-500`} role="status">Scoring options on each criterion…</p>
+      )}
+      {status === 'error' && (
+        <p className={`${typography.caption} text-danger-700`} role="alert">{error}</p>
+      )}
+      {status === 'complete' && options.length > 0 && (
+        <div className="flex flex-wrap gap-6 items-start">
+          <div className="space-y-2">
+            <div className="flex gap-3">
+              {axisSelect(0, 'X')}
+              {axisSelect(1, 'Y')}
+            </div>
+            <ParetoChart options={options} x={x} y={y} xLabel={labelOf(x.nodeId)} yLabel={labelOf(y.nodeId)} />
+          </div>
+
+          <table className="text-sm min-w-[16rem]" data-testid="weighted-scores">
+            <thead>
+              <tr className={`${typography.caption} text-ink-500 text-left`}>
+                <th className="pr-3 font-medium">#</th>
+                <th className="pr-3 font-medium">Option</th>
+                <th className="pr-3 font-medium text-right">Score</th>
+                <th className="font-medium" />
+              </tr>
+            </thead>
+            <tbody>
+              {options.map(option => (
+                <tr key={option.id} className="border-t border-sand-100">
+                  <td className="pr-3 py-1 text-ink-500">{option.rank}</td>
+                  <td className="pr-3 py-1 text-ink-900">{option.label}</td>
+                  <td className="pr-3 py-1 text-right font-mono text-ink-800">{(option.score * 100).toFixed(0)}</td>
+                  <td className="py-1">
+                    {option.dominated && (
+                      <span
+                        className={`${typography.caption} px-1.5 py-0.5 rounded bg-sand-100 text-ink-600`}
+                        title={`Beaten on every criterion by ${option.dominatedBy.map(id => options.find(o => o.id === id)?.label ?? id).join(', ')}`}
+                      >
+                        Dominated
+                      </span>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
+
 /**
  * Changes Only view - list of all changes between scenarios
  */
@@ -307,7 +429,7 @@ export function ComparisonCanvasLayout() {
   const comparisonMode = useCanvasStore((s) => s.comparisonMode)
   const exitComparisonMode = useCanvasStore((s) => s.exitComparisonMode)
 
-  const [selectedView, setSelectedView] = useState<'split' | 'changes'>('split')
+  const [selectedView, setSelectedView] = useState<'split' | 'changes' | 'tradeoffs'>('split')
   const [syncEnabled, setSyncEnabled] = useState(true)
   const {
     setInstanceA,
@@ -363,6 +485,18 @@ export function ComparisonCanvasLayout() {
             >
               Changes Only
             </button>
+            <button
+              onClick={() => setSelectedView('tradeoffs')}
+              className={`px-3 py-1 text-sm font-medium rounded transition-colors ${
+                selectedView === 'tradeoffs'
+                  ? 'bg-white shadow-sm text-ink-900'
+                  : 'text-ink-600 hover:text-ink-900'
+              }`}
+              role="tab"
+              aria-selected={selectedView === 'tradeoffs'}
+            >
+              Trade-offs
+            </button>
           </div>
 
           {/* Sync toggle - only visible in split view */}
@@ -478,6 +612,9 @@ export function ComparisonCanvasLayout() {
             </div>
           </div>
         </div>
+      ) : selectedView === 'tradeoffs' ? (
+        /* Weighted objectives and Pareto frontier */
+        <TradeOffsView scenarioA={scenarioA} scenarioB={scenarioB} />
       ) : comparison ? (
         /* Changes Only view */
         <ChangesView comparison={comparison} />
@@ -42,6 +42,8 @@ export interface RankingData {
   confidence: 'high' | 'medium' | 'low'
   /** Winner option name (when available) */
   winnerName?: string
+  /** Option node the winning scenario selects (when available) */
+  winnerOptionId?: string
   /** Current option name being viewed */
   currentOptionName?: string
 }
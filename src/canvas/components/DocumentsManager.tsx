@@ -5,10 +5,12 @@
  */
 
 import { useState, useMemo, useCallback } from 'react'
-import { FileText, Upload, Trash2, ExternalLink, Download, Edit2, Check, X, Search, ArrowUpDown } from 'lucide-react'
+import { FileText, Upload, Trash2, ExternalLink, Download, Edit2, Check, X, Search, ArrowUpDown, BookOpen } from 'lucide-react'
 import type { Document } from '../share/types'
 import { useCanvasStore } from '../store'
 import { validateDocumentName, type ValidationError } from '../store/documents'
+import { ACCEPTED_DOCUMENT_EXTENSIONS } from '../documents/extract'
+import { useDocumentReaderStore } from '../documents/readerStore'
 import { typography } from '../../styles/typography'
 
 interface DocumentsManagerProps {
@@ -190,14 +192,14 @@ export function DocumentsManager({ onUpload, onDownload, onDelete }: DocumentsMa
           <input
             type="file"
             multiple
-            accept=".pdf,.txt,.md,.csv"
+            accept={ACCEPTED_DOCUMENT_EXTENSIONS}
             onChange={handleFileChange}
             className="hidden"
             data-testid="documents-file-input"
           />
         </label>
         <p className={`${typography.caption} text-ink-900/60 mt-2`}>
-          Supports: PDF, TXT, MD, CSV (max 1MB each, 25K chars total)
+          Supports: PDF, DOCX, TXT, MD, CSV (max 20MB each, full text searchable)
         </p>
       </div>
 
@@ -263,6 +265,7 @@ function DocumentCard({
 
   const typeIcons: Record<Document['type'], string> = {
     pdf: '📄',
+    docx: '📄',
     txt: '📝',
     md: '📋',
     csv: '📊',
@@ -385,11 +388,19 @@ function DocumentCard({
             {document.truncated && (
               <>
                 <span aria-hidden="true">•</span>
-                <span className="text-amber-600 font-medium" title="Content truncated to 5K chars">
+                <span className="text-amber-600 font-medium" title="Text beyond the per-document limit (1M chars) was not indexed">
                   Truncated
                 </span>
               </>
             )}
+            {document.chunkCount !== undefined && (
+              <>
+                <span aria-hidden="true">•</span>
+                <span title="Passages in the full-text index">
+                  {document.chunkCount} passage{document.chunkCount !== 1 ? 's' : ''}
+                </span>
+              </>
+            )}
             <span aria-hidden="true">•</span>
             <span>
               {document.uploadedAt.toLocaleDateString()}
@@ -411,6 +422,14 @@ function DocumentCard({
 
         {/* Actions */}
         <div className="flex gap-1">
+          <button
+            onClick={() => useDocumentReaderStore.getState().openDocument(document.id)}
+            className="p-1 hover:bg-gray-200 rounded"
+            title="Read & cite"
+            aria-label="Read document"
+          >
+            <BookOpen className="w-4 h-4 text-gray-600" />
+          </button>
           {/* S7-FILEOPS: Rename button */}
           {!isRenaming && (
             <button
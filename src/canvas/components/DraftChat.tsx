@@ -11,6 +11,9 @@ import { DraftGuidancePanel } from './DraftGuidancePanel'
 import { RateLimitNotice } from './RateLimitNotice'
 import { DEFAULT_EDGE_DATA, trimProvenance } from '../domain/edges'
 import { Tooltip } from './Tooltip'
+import { isChangeSetsEnabled } from '../../flags'
+import { changeSetFromGraphs, suggestedPosition } from '../changesets/changeSet'
+import { useChangeSetReviewStore } from '../changesets/reviewStore'
 
 // Available AI models
 const AI_MODELS = [
@@ -104,6 +107,64 @@ function formatCEEError(error: CEEError | Error): { message: string; debugInfo?:
   return { message: error.message }
 }
 
+/**
+ * Convert a CEE draft to canvas nodes and edges. Nodes start at (0,0); the
+ * guided layout positions them once they are on the canvas.
+ */
+function draftToGraph(draftData: { nodes: any[]; edges?: any[] }) {
+  // Convert CEE nodes to canvas nodes
+  const nodes = draftData.nodes.map((n: any) => ({
+    id: n.id,
+    type: n.type,
+    position: { x: 0, y: 0 }, // Layout algorithm will position
+    data: {
+      label: n.label,
+      uncertainty: n.uncertainty,
+    },
+  }))
+
+  const edges = (draftData.edges ?? []).map((e: any, i: number) => {
+    const id = typeof e.id === 'string' && e.id.trim().length > 0 ? e.id : `e-${i}`
+
+    const weight =
+      typeof e.weight === 'number'
+        ? Math.max(0, Math.min(1, e.weight))
+        : DEFAULT_EDGE_DATA.weight
+
+    const confidence =
+      typeof e.belief === 'number' ? Math.max(0, Math.min(1, e.belief)) : undefined
+
+    let provenanceText: string | undefined
+    if (typeof e.provenance === 'string' && e.provenance.trim().length > 0) {
+      provenanceText = trimProvenance(e.provenance)
+    } else if (e.provenance && typeof e.provenance === 'object') {
+      const source = e.provenance.source ?? ''
+      const quote = e.provenance.quote ?? ''
+      const location = e.provenance.location ?? ''
+      const combined = [source, quote, location].filter(Boolean).join(' • ')
+      if (combined) {
+        provenanceText = trimProvenance(combined)
+      }
+    }
+
+    return {
+      id,
+      source: e.from,
+      target: e.to,
+      type: 'styled',
+      data: {
+        ...DEFAULT_EDGE_DATA,
+        weight,
+        pathType: 'bezier',
+        confidence,
+        provenance: provenanceText,
+      },
+    }
+  })
+
+  return { nodes, edges }
+}
+
 export function DraftChat() {
   const [description, setDescription] = useState('')
   const [selectedModel, setSelectedModel] = useState<AIModelId>('claude-sonnet')
@@ -185,7 +246,8 @@ export function DraftChat() {
     const { nodes, edges } = useCanvasStore.getState()
     const hasExistingGraph = (nodes?.length ?? 0) > 0 || (edges?.length ?? 0) > 0
 
-    if (hasExistingGraph) {
+    // With change-set review nothing is cleared until the user applies the draft
+    if (hasExistingGraph && !isChangeSetsEnabled()) {
       const confirmed = window.confirm(
         'Drafting a new decision will clear your current decision model from the canvas. Start a new draft?'
       )
@@ -202,12 +264,9 @@ export function DraftChat() {
 
     try {
       const result = await generateDraft(description)
-      // Auto-apply the draft to canvas immediately
+      // Auto-apply the draft to canvas immediately (or propose it for review)
       if (result?.nodes?.length) {
-        const { nodeIds, edgeIds } = applyDraftToCanvas(result)
-        setAppliedNodeIds(nodeIds)
-        setAppliedEdgeIds(edgeIds)
-        setIsOnCanvas(true)
+        placeDraft(result)
       }
     } catch (err) {
       console.error('Draft failed:', err)
@@ -219,55 +278,7 @@ export function DraftChat() {
     // Null-safe: bail out if draft or nodes/edges are missing
     if (!draftData?.nodes?.length) return { nodeIds: [], edgeIds: [] }
 
-    // Convert CEE nodes to canvas nodes
-    const nodes = draftData.nodes.map((n: any) => ({
-      id: n.id,
-      type: n.type,
-      position: { x: 0, y: 0 }, // Layout algorithm will position
-      data: {
-        label: n.label,
-        uncertainty: n.uncertainty,
-      },
-    }))
-
-    const edges = (draftData.edges ?? []).map((e: any, i: number) => {
-      const id = typeof e.id === 'string' && e.id.trim().length > 0 ? e.id : `e-${i}`
-
-      const weight =
-        typeof e.weight === 'number'
-          ? Math.max(0, Math.min(1, e.weight))
-          : DEFAULT_EDGE_DATA.weight
-
-      const confidence =
-        typeof e.belief === 'number' ? Math.max(0, Math.min(1, e.belief)) : undefined
-
-      let provenanceText: string | undefined
-      if (typeof e.provenance === 'string' && e.provenance.trim().length > 0) {
-        provenanceText = trimProvenance(e.provenance)
-      } else if (e.provenance && typeof e.provenance === 'object') {
-        const source = e.provenance.source ?? ''
-        const quote = e.provenance.quote ?? ''
-        const location = e.provenance.location ?? ''
-        const combined = [source, quote, location].filter(Boolean).join(' • ')
-        if (combined) {
-          provenanceText = trimProvenance(combined)
-        }
-      }
-
-      return {
-        id,
-        source: e.from,
-        target: e.to,
-        type: 'styled',
-        data: {
-          ...DEFAULT_EDGE_DATA,
-          weight,
-          pathType: 'bezier',
-          confidence,
-          provenance: provenanceText,
-        },
-      }
-    })
+    const { nodes, edges } = draftToGraph(draftData)
 
     // Push current state to history, then append nodes/edges in a single transaction
     pushHistory()
@@ -290,6 +301,50 @@ export function DraftChat() {
     }
   }, [pushHistory, applyGuidedLayout])
 
+  // Propose the draft as a change-set replacing the current model; the
+  // accepted part lands on the canvas as one undoable step
+  const proposeDraft = useCallback((draftData: typeof draft) => {
+    if (!draftData?.nodes?.length) return
+
+    const { nodes, edges } = draftToGraph(draftData)
+    const { nodes: currentNodes, edges: currentEdges } = useCanvasStore.getState()
+    const proposed = {
+      nodes: nodes.map((n, i) => ({ ...n, position: suggestedPosition(i) })),
+      edges,
+    }
+    const changeSet = changeSetFromGraphs({ nodes: currentNodes, edges: currentEdges }, proposed, {
+      source: 'draft',
+      title: 'Draft decision model',
+      rationale: description.trim() || undefined,
+      rationales: Object.fromEntries(edges.map(e => [e.id, e.data.provenance])),
+    })
+
+    useChangeSetReviewStore.getState().propose(changeSet, {
+      onApplied: applied => {
+        const added = applied.filter(op => op.action === 'add')
+        try {
+          applyGuidedLayout()
+        } catch (error) {
+          console.error('[DraftChat] Guided layout failed after applying draft', error)
+        }
+        setAppliedNodeIds(added.filter(op => op.target.kind === 'node').map(op => op.target.id))
+        setAppliedEdgeIds(added.filter(op => op.target.kind === 'edge').map(op => op.target.id))
+        setIsOnCanvas(true)
+      },
+    })
+  }, [description, applyGuidedLayout])
+
+  const placeDraft = useCallback((draftData: typeof draft) => {
+    if (isChangeSetsEnabled()) {
+      proposeDraft(draftData)
+      return
+    }
+    const { nodeIds, edgeIds } = applyDraftToCanvas(draftData)
+    setAppliedNodeIds(nodeIds)
+    setAppliedEdgeIds(edgeIds)
+    setIsOnCanvas(true)
+  }, [proposeDraft, applyDraftToCanvas])
+
   // Remove the applied draft from canvas
   const removeDraftFromCanvas = useCallback(() => {
     if (appliedNodeIds.length === 0 && appliedEdgeIds.length === 0) return
@@ -306,11 +361,8 @@ export function DraftChat() {
   // Reinstate the draft to canvas
   const reinstateDraft = useCallback(() => {
     if (!draft) return
-    const { nodeIds, edgeIds } = applyDraftToCanvas(draft)
-    setAppliedNodeIds(nodeIds)
-    setAppliedEdgeIds(edgeIds)
-    setIsOnCanvas(true)
-  }, [draft, applyDraftToCanvas])
+    placeDraft(draft)
+  }, [draft, placeDraft])
 
   // Close the panel (keep current canvas state)
   const handleClose = useCallback(() => {
@@ -30,12 +30,16 @@ import {
   Lightbulb,
   Settings,
   Info,
+  MessageSquare,
 } from 'lucide-react'
 import type { LucideIcon } from 'lucide-react'
 import { useCanvasStore } from '../store'
 import { findDriverMatches, type Driver } from '../utils/driverMatching'
 import { focusNodeById, focusEdgeById } from '../utils/focusHelpers'
 import { typography } from '../../styles/typography'
+import { useCommentThreadsStore } from '../comments/threads'
+import { useDriverFocusStore } from '../highlight/driverFocus'
+import { isCommentsEnabled } from '../../flags'
 
 // Node icon mapping (matches canvas nodes exactly)
 const NODE_ICONS: Record<string, LucideIcon> = {
@@ -90,6 +94,9 @@ export function DriverChips({ drivers }: DriverChipsProps) {
   const [activeDriver, setActiveDriver] = useState<{ driver: Driver; matchIndex: number } | null>(null)
   const [matchCycles, setMatchCycles] = useState<Map<number, number>>(new Map())
   const [otherInfluencesOpen, setOtherInfluencesOpen] = useState(false)
+  const openDiscussion = useCommentThreadsStore(s => s.openPanel)
+  const setFocusedDriver = useDriverFocusStore(s => s.setFocusedDriver)
+  const commentsEnabled = isCommentsEnabled()
 
   const hoverTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null)
   const chipsRef = useRef<HTMLDivElement>(null)
@@ -229,6 +236,13 @@ export function DriverChips({ drivers }: DriverChipsProps) {
     }
   }, [])
 
+  // Share the active driver's canvas target with HighlightLayer
+  useEffect(() => {
+    const match = activeDriver ? findDriverMatches(activeDriver.driver, nodes, edges)[activeDriver.matchIndex] : undefined
+    setFocusedDriver(match?.targetId ?? null)
+  }, [activeDriver, nodes, edges, setFocusedDriver])
+  useEffect(() => () => setFocusedDriver(null), [setFocusedDriver])
+
   // Handle keyboard navigation
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
@@ -332,11 +346,11 @@ export function DriverChips({ drivers }: DriverChipsProps) {
     const colors = NODE_COLORS[kind] || NODE_COLORS.factor
     const NodeIcon = NODE_ICONS[kind] || Settings
 
-    return (
+    const chip = (
       <button
         key={driver.originalIndex}
         type="button"
-        role="listitem"
+        role={commentsEnabled ? undefined : 'listitem'}
         className={`
           w-full flex items-center gap-2 px-3 py-2 rounded-lg transition-all duration-200 cursor-pointer border
           ${isSelected || isHovered
@@ -401,6 +415,27 @@ export function DriverChips({ drivers }: DriverChipsProps) {
         <ArrowRight className="w-4 h-4 text-sand-400 flex-shrink-0" aria-hidden="true" />
       </button>
     )
+
+    if (!commentsEnabled) return chip
+
+    // Discussion anchors to the driver's node/edge id, or its label for older reports
+    return (
+      <div key={driver.originalIndex} role="listitem" className="flex items-center gap-1">
+        {chip}
+        <button
+          type="button"
+          onClick={() => openDiscussion({
+            mode: 'anchor',
+            anchor: { kind: 'driver', id: driver.nodeId ?? driver.edgeId ?? driver.label, label: driver.label },
+          })}
+          className="p-1.5 rounded-lg text-ink-500 hover:bg-white hover:text-ink-900 flex-shrink-0"
+          aria-label={`Discuss driver ${driver.label}`}
+          title="Discuss"
+        >
+          <MessageSquare className="w-4 h-4" aria-hidden="true" />
+        </button>
+      </div>
+    )
   }
 
   // Empty state: show informative message instead of returning null
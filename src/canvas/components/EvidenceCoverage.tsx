@@ -2,13 +2,14 @@
  * EvidenceCoverage Component
  *
  * Displays a visual indicator of how well a decision model is
- * supported by evidence (provenance data on edges).
+ * supported by evidence (citations or provenance on edges, counted by
+ * countEdgesWithEvidence).
  *
  * Coverage levels:
- * - full: All edges have provenance
- * - partial: Some edges have provenance
- * - minimal: Few edges have provenance
- * - none: No edges have provenance
+ * - full: All edges have evidence
+ * - partial: Some edges have evidence
+ * - minimal: Few edges have evidence
+ * - none: No edges have evidence
  */
 
 import { FileCheck2, FileQuestion, FileWarning, FileX } from 'lucide-react'
@@ -18,7 +19,7 @@ import { Tooltip } from './Tooltip'
 export type CoverageLevel = 'full' | 'partial' | 'minimal' | 'none'
 
 interface EvidenceCoverageProps {
-  /** Number of edges with provenance */
+  /** Number of edges with evidence */
   evidencedCount: number
   /** Total number of edges */
   totalCount: number
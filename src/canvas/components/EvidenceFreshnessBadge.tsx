@@ -9,17 +9,24 @@
  * - recent: Updated within 7 days
  * - aging: Updated within 30 days
  * - stale: Not updated in over 30 days
+ *
+ * Alternatively pass an `evidence_freshness` summary (from the engine, or
+ * computed locally by useEvidenceFreshness): its overall quality sets the
+ * level and its newest edge update the relative time.
  */
 
 import { Clock, CheckCircle2, AlertTriangle, AlertCircle } from 'lucide-react'
 import { typography } from '../../styles/typography'
 import { Tooltip } from './Tooltip'
+import type { EvidenceFreshness, FreshnessQuality } from '../../types/plot'
 
 export type FreshnessLevel = 'fresh' | 'recent' | 'aging' | 'stale'
 
 interface EvidenceFreshnessBadgeProps {
   /** Last update timestamp (ISO string or Date) */
-  lastUpdated: string | Date | null
+  lastUpdated?: string | Date | null
+  /** Freshness summary; takes precedence over lastUpdated/level. Renders nothing when UNKNOWN */
+  freshness?: EvidenceFreshness
   /** Override freshness level (auto-calculated if not provided) */
   level?: FreshnessLevel
   /** Additional CSS classes */
@@ -85,6 +92,26 @@ function calculateLevel(lastUpdated: Date | null): FreshnessLevel {
   return 'stale'
 }
 
+const QUALITY_LEVELS: Record<FreshnessQuality, FreshnessLevel | null> = {
+  FRESH: 'fresh',
+  AGING: 'aging',
+  STALE: 'stale',
+  UNKNOWN: null,
+}
+
+export function freshnessLevelFromQuality(quality: FreshnessQuality): FreshnessLevel | null {
+  return QUALITY_LEVELS[quality]
+}
+
+/** Newest edge update in a freshness summary */
+function latestUpdate(freshness: EvidenceFreshness): string | null {
+  let latest: string | null = null
+  for (const edge of freshness.edge_freshness) {
+    if (edge.last_updated && (!latest || Date.parse(edge.last_updated) > Date.parse(latest))) latest = edge.last_updated
+  }
+  return latest
+}
+
 function formatRelativeTime(date: Date | null): string {
   if (!date) return 'Never updated'
 
@@ -107,18 +134,23 @@ function formatRelativeTime(date: Date | null): string {
 }
 
 export function EvidenceFreshnessBadge({
-  lastUpdated,
+  lastUpdated = null,
+  freshness,
   level,
   className = '',
   showRelativeTime = true,
 }: EvidenceFreshnessBadgeProps) {
-  const parsedDate = lastUpdated
-    ? typeof lastUpdated === 'string'
-      ? new Date(lastUpdated)
-      : lastUpdated
+  const summaryLevel = freshness ? freshnessLevelFromQuality(freshness.overall_quality) : undefined
+  if (summaryLevel === null) return null
+  const updated = freshness ? latestUpdate(freshness) : lastUpdated
+
+  const parsedDate = updated
+    ? typeof updated === 'string'
+      ? new Date(updated)
+      : updated
     : null
 
-  const effectiveLevel = level ?? calculateLevel(parsedDate)
+  const effectiveLevel = summaryLevel ?? level ?? calculateLevel(parsedDate)
   const config = LEVEL_CONFIG[effectiveLevel]
   const Icon = config.icon
   const relativeTime = formatRelativeTime(parsedDate)
@@ -154,7 +186,7 @@ export function EvidenceFreshnessCompact({
   lastUpdated,
   level,
   className = '',
-}: Omit<EvidenceFreshnessBadgeProps, 'showRelativeTime'>) {
+}: Omit<EvidenceFreshnessBadgeProps, 'showRelativeTime' | 'freshness'>) {
   const parsedDate = lastUpdated
     ? typeof lastUpdated === 'string'
       ? new Date(lastUpdated)
@@ -0,0 +1,143 @@
+/**
+ * EvidenceFreshnessSection - freshness badge, stale evidence queue and rules
+ *
+ * The badge shows the engine's evidence_freshness when the last run carried
+ * it, else the locally computed summary. The queue and rules are always
+ * local: they depend on review-by dates and per-kind thresholds.
+ */
+
+import { useCallback, useMemo } from 'react'
+import { typography } from '../../styles/typography'
+import { useCanvasStore } from '../store'
+import { useFreshnessRules } from '../store/freshnessRules'
+import { useEvidenceFreshness } from '../hooks/useEvidenceFreshness'
+import { describeStaleness } from '../utils/evidenceFreshness'
+import { NodeTypeEnum, type NodeType } from '../domain/nodes'
+import { EvidenceFreshnessBadge } from './EvidenceFreshnessBadge'
+import { ValidationPanel, type StaleEvidenceItem } from './ValidationPanel'
+
+const KIND_LABELS: Record<NodeType, string> = {
+  goal: 'Goals',
+  decision: 'Decisions',
+  option: 'Options',
+  factor: 'Factors',
+  risk: 'Risks',
+  outcome: 'Outcomes',
+}
+
+export function EvidenceFreshnessSection() {
+  const nodes = useCanvasStore(s => s.nodes)
+  const edges = useCanvasStore(s => s.edges)
+  const updateEdge = useCanvasStore(s => s.updateEdge)
+  const { freshness, source, local } = useEvidenceFreshness()
+
+  const staleEvidence = useMemo((): StaleEvidenceItem[] => {
+    const labelOf = (id: string) => {
+      const label = nodes.find(n => n.id === id)?.data?.label
+      return typeof label === 'string' && label ? label : id
+    }
+    return local.edge_freshness
+      .filter(f => f.quality === 'STALE')
+      .sort((a, b) => (b.age_days ?? 0) - (a.age_days ?? 0))
+      .flatMap(f => {
+        const edge = edges.find(e => e.id === f.edge_id)
+        return edge
+          ? [{ edgeId: edge.id, label: `${labelOf(edge.source)} → ${labelOf(edge.target)}`, reason: describeStaleness(f) }]
+          : []
+      })
+  }, [local, nodes, edges])
+
+  // Reviewing restarts the clock; a review-by date that has passed is cleared
+  const handleMarkReviewed = useCallback((edgeId: string) => {
+    const edge = useCanvasStore.getState().edges.find(e => e.id === edgeId)
+    if (!edge?.data) return
+    const now = new Date()
+    const reviewBy = edge.data.reviewBy && Date.parse(edge.data.reviewBy) > now.getTime() ? edge.data.reviewBy : undefined
+    updateEdge(edgeId, { data: { ...edge.data, reviewedAt: now.toISOString(), reviewBy } })
+  }, [updateEdge])
+
+  if (edges.length === 0) return null
+
+  return (
+    <div className="space-y-2 border-t border-sand-200 pt-3" data-testid="evidence-freshness-section">
+      <div className="flex items-center justify-between gap-2">
+        <div className={`${typography.label} text-ink-900`}>Evidence freshness</div>
+        <EvidenceFreshnessBadge freshness={freshness} />
+      </div>
+      <p className={`${typography.caption} text-ink-500`}>
+        {freshness.fresh_count} fresh · {freshness.aging_count} aging · {freshness.stale_count} stale ·{' '}
+        {freshness.unknown_count} undated{source === 'engine' ? ' (from the last run)' : ''}
+      </p>
+      <ValidationPanel critique={[]} staleEvidence={staleEvidence} onMarkReviewed={handleMarkReviewed} />
+      <FreshnessRulesEditor />
+    </div>
+  )
+}
+
+function FreshnessRulesEditor() {
+  const rules = useFreshnessRules(s => s.rules)
+  const setThresholds = useFreshnessRules(s => s.setThresholds)
+  const setBeliefHalfLifeDays = useFreshnessRules(s => s.setBeliefHalfLifeDays)
+  const resetRules = useFreshnessRules(s => s.resetRules)
+
+  const inputClass = `w-16 px-1.5 py-0.5 border border-sand-200 rounded bg-white tabular-nums ${typography.caption}`
+
+  return (
+    <details className="rounded-lg border border-sand-200 bg-paper-50" data-testid="freshness-rules">
+      <summary className={`cursor-pointer px-3 py-2 ${typography.caption} text-ink-700`}>
+        Staleness rules
+      </summary>
+      <div className="px-3 pb-3 space-y-1.5">
+        <div className={`grid grid-cols-[1fr_auto_auto] gap-x-2 items-center ${typography.caption} text-ink-500`}>
+          <span>Edges into</span>
+          <span>Aging (days)</span>
+          <span>Stale (days)</span>
+        </div>
+        {NodeTypeEnum.options.map(kind => {
+          const { agingDays, staleDays } = rules.thresholds[kind]
+          return (
+            <div key={kind} className="grid grid-cols-[1fr_auto_auto] gap-x-2 items-center">
+              <span className={`${typography.caption} text-ink-900`}>{KIND_LABELS[kind]}</span>
+              <input
+                type="number"
+                min={1}
+                value={agingDays}
+                onChange={e => setThresholds(kind, { agingDays: Number(e.target.value), staleDays })}
+                aria-label={`${KIND_LABELS[kind]}: aging after days`}
+                className={inputClass}
+              />
+              <input
+                type="number"
+                min={1}
+                value={staleDays}
+                onChange={e => setThresholds(kind, { agingDays, staleDays: Number(e.target.value) })}
+                aria-label={`${KIND_LABELS[kind]}: stale after days`}
+                className={inputClass}
+              />
+            </div>
+          )
+        })}
+        <div className="flex items-center gap-2 pt-1">
+          <label htmlFor="belief-half-life" className={`${typography.caption} text-ink-900 flex-1`}>
+            Belief halves every (days past expiry)
+          </label>
+          <input
+            id="belief-half-life"
+            type="number"
+            min={1}
+            value={rules.beliefHalfLifeDays}
+            onChange={e => setBeliefHalfLifeDays(Number(e.target.value))}
+            className={inputClass}
+          />
+        </div>
+        <button
+          type="button"
+          onClick={resetRules}
+          className={`${typography.caption} text-sky-600 hover:underline`}
+        >
+          Reset to defaults
+        </button>
+      </div>
+    </details>
+  )
+}
@@ -36,10 +36,13 @@ import type { Node, Edge } from '@xyflow/react'
 import { typography } from '../../styles/typography'
 import type { NodeType } from '../domain/nodes'
 import { countEdgesWithEvidence } from '../utils/evidenceCoverage'
+import type { Citation } from '../share/types'
 
 interface GraphTextViewProps {
   nodes: Node[]
   edges: Edge[]
+  /** Document citations; cited edges count as evidenced */
+  citations?: Citation[]
   onNodeClick: (nodeId: string) => void
 }
 
@@ -130,7 +133,7 @@ function formatEdgeWeight(edge: Edge): string {
   return `weight: ${sign}${weight}`
 }
 
-export function GraphTextView({ nodes, edges, onNodeClick }: GraphTextViewProps) {
+export function GraphTextView({ nodes, edges, citations, onNodeClick }: GraphTextViewProps) {
   const [searchQuery, setSearchQuery] = useState('')
   const [expandedSections, setExpandedSections] = useState<Set<NodeType>>(
     new Set(['goal', 'decision', 'option', 'factor', 'risk', 'outcome'])
@@ -143,7 +146,7 @@ export function GraphTextView({ nodes, edges, onNodeClick }: GraphTextViewProps)
   // Computed statistics
   const orphanCount = useMemo(() => countOrphans(nodes, edges), [nodes, edges])
   const connectedCount = nodes.length - orphanCount
-  const evidenceStats = useMemo(() => countEdgesWithEvidence(edges), [edges])
+  const evidenceStats = useMemo(() => countEdgesWithEvidence(edges, citations), [edges, citations])
 
   const filteredGroups = useMemo(() => {
     if (!searchQuery.trim()) return groupedNodes
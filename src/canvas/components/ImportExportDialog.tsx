@@ -1,6 +1,18 @@
 import { useState, useRef } from 'react'
+import type { Node, Edge } from '@xyflow/react'
 import { useCanvasStore } from '../store'
-import { exportCanvas as exportCanvasData, sanitizeLabel } from '../persist'
+import { exportCanvas as exportCanvasData, importCanvas as readCanvasJson, sanitizeLabel } from '../persist'
+import type { EdgeData } from '../domain/edges'
+import {
+  INTERCHANGE_FORMATS,
+  InterchangeParseError,
+  detectInterchangeFormat,
+  exportInterchange,
+  parseInterchange,
+  type InterchangeFormat,
+} from '../interchange'
+import { validateGraph } from '../validation/graphValidator'
+import type { GraphHealth } from '../validation/types'
 import { useToast } from '../ToastContext'
 import { BottomSheet } from './BottomSheet'
 import { typography } from '../../styles/typography'
@@ -17,12 +29,45 @@ interface ValidationIssue {
   fixable: boolean
 }
 
+type ExportFormat = 'json' | 'png' | 'svg' | InterchangeFormat
+
+interface ImportPreviewGraph {
+  nodes: Node[]
+  edges: Edge<EdgeData>[]
+  health: GraphHealth
+}
+
+const EXPORT_OPTIONS: Array<{ value: ExportFormat; label: string; description: string }> = [
+  { value: 'json', label: 'JSON', description: 'Full canvas data (recommended)' },
+  { value: 'png', label: 'PNG', description: 'Raster image (for presentations)' },
+  { value: 'svg', label: 'SVG', description: 'Vector graphic (scalable)' },
+  ...(Object.entries(INTERCHANGE_FORMATS) as Array<[InterchangeFormat, { label: string; description: string }]>).map(
+    ([value, { label, description }]) => ({ value, label, description })
+  ),
+]
+
+const IMPORT_ACCEPT = ['.json', ...Object.values(INTERCHANGE_FORMATS).flatMap(f => f.extensions)].join(',')
+
+const PREVIEW_LIMIT = 8
+
+function downloadFile(content: string, mimeType: string, filename: string) {
+  const blob = new Blob([content], { type: mimeType })
+  const url = URL.createObjectURL(blob)
+  const a = document.createElement('a')
+  a.href = url
+  a.download = filename
+  a.click()
+  URL.revokeObjectURL(url)
+}
+
 export function ImportExportDialog({ isOpen, onClose, mode }: ImportExportDialogProps) {
-  const [importFile, setImportFile] = useState<File | null>(null)
+  const [importFiles, setImportFiles] = useState<File[]>([])
   const [importPreview, setImportPreview] = useState<string>('')
+  const [importFormat, setImportFormat] = useState<InterchangeFormat | 'json'>('json')
+  const [previewGraph, setPreviewGraph] = useState<ImportPreviewGraph | null>(null)
   const [validationIssues, setValidationIssues] = useState<ValidationIssue[]>([])
   const [canAutoFix, setCanAutoFix] = useState(false)
-  const [exportFormat, setExportFormat] = useState<'json' | 'png' | 'svg'>('json')
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('json')
   const fileInputRef = useRef<HTMLInputElement>(null)
   // React 18 + Zustand v5: use individual selectors instead of object+shallow
   const nodes = useCanvasStore(s => s.nodes)
@@ -30,15 +75,39 @@ export function ImportExportDialog({ isOpen, onClose, mode }: ImportExportDialog
   const { showToast } = useToast()
 
   const handleFileSelect = async (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0]
-    if (!file) return
+    const files = Array.from(event.target.files ?? [])
+    if (files.length === 0) return
+
+    setImportFiles(files)
+    const sources = await Promise.all(files.map(async file => ({ name: file.name, text: await file.text() })))
+    const format = detectInterchangeFormat(sources[0])
+    setImportFormat(format ?? 'json')
 
-    setImportFile(file)
-    const text = await file.text()
-    setImportPreview(text)
+    let issues: ValidationIssue[]
+    let graph: { nodes: Node[]; edges: Edge<EdgeData>[] } | null = null
 
-    // Validate
-    const issues = validateImportData(text)
+    if (files.length > 1 && format !== 'csv') {
+      issues = [{ type: 'error', message: 'Choose one file (only CSV imports take a nodes and an edges file)', fixable: false }]
+    } else if (format) {
+      // GraphML / Mermaid / DOT / CSV: read into canvas nodes and edges
+      try {
+        const parsed = parseInterchange(format, sources)
+        graph = parsed
+        issues = parsed.warnings.map(message => ({ type: 'warning' as const, message, fixable: false }))
+      } catch (error) {
+        if (!(error instanceof InterchangeParseError)) throw error
+        issues = [{ type: 'error', message: error.message, fixable: false }]
+      }
+      setImportPreview('')
+    } else {
+      const text = sources[0].text
+      setImportPreview(text)
+      issues = validateImportData(text)
+      graph = readCanvasJson(text)
+    }
+
+    // Check the graph before anything touches the canvas
+    setPreviewGraph(graph ? { ...graph, health: validateGraph(graph.nodes, graph.edges) } : null)
     setValidationIssues(issues)
     setCanAutoFix(issues.some(i => i.fixable))
   }
@@ -100,6 +169,20 @@ export function ImportExportDialog({ isOpen, onClose, mode }: ImportExportDialog
   }
 
   const handleImport = (autoFix: boolean) => {
+    if (importFormat !== 'json') {
+      if (!previewGraph) return
+      const imported = useCanvasStore.getState().importCanvas(
+        exportCanvasData({ nodes: previewGraph.nodes, edges: previewGraph.edges })
+      )
+      if (imported) {
+        onClose()
+        showToast(`${INTERCHANGE_FORMATS[importFormat].label} imported successfully!`, 'success')
+      } else {
+        showToast('Import failed. Please check the file format.', 'error')
+      }
+      return
+    }
+
     if (!importPreview) return
 
     let jsonToImport = importPreview
@@ -159,13 +242,13 @@ export function ImportExportDialog({ isOpen, onClose, mode }: ImportExportDialog
 
   const handleExportJSON = () => {
     const json = exportCanvasData({ nodes, edges })
-    const blob = new Blob([json], { type: 'application/json' })
-    const url = URL.createObjectURL(blob)
-    const a = document.createElement('a')
-    a.href = url
-    a.download = `canvas-export-${Date.now()}.json`
-    a.click()
-    URL.revokeObjectURL(url)
+    downloadFile(json, 'application/json', `canvas-export-${Date.now()}.json`)
+  }
+
+  const handleExportInterchange = (format: InterchangeFormat) => {
+    for (const file of exportInterchange(format, nodes, edges, `canvas-export-${Date.now()}`)) {
+      downloadFile(file.content, file.mimeType, file.filename)
+    }
   }
 
   const handleExportPNG = async () => {
@@ -206,13 +289,7 @@ export function ImportExportDialog({ isOpen, onClose, mode }: ImportExportDialog
     // For SVG export, we'll use a simplified approach
     // Generate SVG from nodes and edges data
     const svgContent = generateSVG(nodes, edges)
-    const blob = new Blob([svgContent], { type: 'image/svg+xml' })
-    const url = URL.createObjectURL(blob)
-    const a = document.createElement('a')
-    a.href = url
-    a.download = `canvas-export-${Date.now()}.svg`
-    a.click()
-    URL.revokeObjectURL(url)
+    downloadFile(svgContent, 'image/svg+xml', `canvas-export-${Date.now()}.svg`)
   }
 
   const generateSVG = (nodes: any[], edges: any[]): string => {
@@ -279,6 +356,8 @@ export function ImportExportDialog({ isOpen, onClose, mode }: ImportExportDialog
       handleExportPNG()
     } else if (exportFormat === 'svg') {
       handleExportSVG()
+    } else {
+      handleExportInterchange(exportFormat)
     }
     onClose()
   }
@@ -295,21 +374,64 @@ export function ImportExportDialog({ isOpen, onClose, mode }: ImportExportDialog
                 <input
                   ref={fileInputRef}
                   type="file"
-                  accept=".json"
+                  accept={IMPORT_ACCEPT}
+                  multiple
                   onChange={handleFileSelect}
                   className="hidden"
+                  data-testid="import-file-input"
                 />
                 <button
                   onClick={() => fileInputRef.current?.click()}
                   className="w-full px-4 py-3 bg-[#EA7B4B] text-white rounded-lg hover:bg-[#EA7B4B]/90 transition-colors font-medium"
                 >
-                  📁 Choose JSON File
+                  📁 Choose File
                 </button>
-                {importFile && (
-                  <p className={`${typography.body} text-gray-600 mt-2`}>Selected: {importFile.name}</p>
+                <p className={`${typography.caption} text-gray-500 mt-1`}>
+                  JSON, GraphML, Mermaid, DOT, or CSV (pick the nodes and edges files together)
+                </p>
+                {importFiles.length > 0 && (
+                  <p className={`${typography.body} text-gray-600 mt-2`}>
+                    Selected: {importFiles.map(f => f.name).join(', ')}
+                  </p>
                 )}
               </div>
 
+              {/* Preview */}
+              {previewGraph && (
+                <div className="border border-gray-200 rounded-lg p-4" data-testid="import-preview">
+                  <h3 className="font-medium text-gray-900 mb-2">
+                    Preview: {previewGraph.nodes.length} nodes, {previewGraph.edges.length} edges
+                  </h3>
+                  <ul className={`${typography.body} text-gray-600 space-y-0.5`}>
+                    {previewGraph.nodes.slice(0, PREVIEW_LIMIT).map(node => (
+                      <li key={node.id}>
+                        {String(node.data?.label ?? node.id)} <span className="text-gray-400">({node.type})</span>
+                      </li>
+                    ))}
+                    {previewGraph.nodes.length > PREVIEW_LIMIT && (
+                      <li className="text-gray-400">…and {previewGraph.nodes.length - PREVIEW_LIMIT} more</li>
+                    )}
+                  </ul>
+                  <div className="mt-3">
+                    <h4 className={`${typography.label} text-gray-700`}>
+                      Graph check: {previewGraph.health.issues.length === 0 ? 'no issues' : `${previewGraph.health.issues.length} issues`}
+                    </h4>
+                    {previewGraph.health.issues.length > 0 && (
+                      <ul className="mt-1 space-y-1" data-testid="import-graph-issues">
+                        {previewGraph.health.issues.map(issue => (
+                          <li
+                            key={issue.id}
+                            className={`${typography.caption} ${issue.severity === 'error' ? 'text-danger-700' : issue.severity === 'warning' ? 'text-warning-700' : 'text-gray-500'}`}
+                          >
+                            {issue.message}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                </div>
+              )}
+
               {/* Validation Results */}
               {validationIssues.length > 0 && (
                 <div className="border border-gray-200 rounded-lg p-4">
@@ -327,11 +449,14 @@ export function ImportExportDialog({ isOpen, onClose, mode }: ImportExportDialog
               )}
 
               {/* Actions */}
-              {importFile && (
+              {importFiles.length > 0 && (
                 <div className="flex gap-2">
                   <button
                     onClick={() => handleImport(false)}
-                    disabled={validationIssues.some(i => i.type === 'error' && !i.fixable)}
+                    disabled={
+                      validationIssues.some(i => i.type === 'error' && !i.fixable) ||
+                      (importFormat !== 'json' && !previewGraph)
+                    }
                     className="flex-1 px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
                   >
                     Import As-Is
@@ -353,48 +478,25 @@ export function ImportExportDialog({ isOpen, onClose, mode }: ImportExportDialog
               <div>
                 <label className={`block ${typography.label} text-gray-700 mb-2`}>Export Format</label>
                 <div className="space-y-2">
-                  <label className="flex items-center gap-2 p-3 border border-gray-200 rounded-lg hover:border-[#EA7B4B] cursor-pointer">
-                    <input
-                      type="radio"
-                      name="format"
-                      value="json"
-                      checked={exportFormat === 'json'}
-                      onChange={(e) => setExportFormat(e.target.value as any)}
-                      className="text-[#EA7B4B] focus:ring-[#EA7B4B]"
-                    />
-                    <div>
-                      <div className="font-medium">JSON</div>
-                      <div className={`${typography.body} text-gray-500`}>Full canvas data (recommended)</div>
-                    </div>
-                  </label>
-                  <label className="flex items-center gap-2 p-3 border border-gray-200 rounded-lg hover:border-[#EA7B4B] cursor-pointer">
-                    <input
-                      type="radio"
-                      name="format"
-                      value="png"
-                      checked={exportFormat === 'png'}
-                      onChange={(e) => setExportFormat(e.target.value as any)}
-                      className="text-[#EA7B4B] focus:ring-[#EA7B4B]"
-                    />
-                    <div>
-                      <div className="font-medium">PNG</div>
-                      <div className={`${typography.body} text-gray-500`}>Raster image (for presentations)</div>
-                    </div>
-                  </label>
-                  <label className="flex items-center gap-2 p-3 border border-gray-200 rounded-lg hover:border-[#EA7B4B] cursor-pointer">
-                    <input
-                      type="radio"
-                      name="format"
-                      value="svg"
-                      checked={exportFormat === 'svg'}
-                      onChange={(e) => setExportFormat(e.target.value as any)}
-                      className="text-[#EA7B4B] focus:ring-[#EA7B4B]"
-                    />
-                    <div>
-                      <div className="font-medium">SVG</div>
-                      <div className={`${typography.body} text-gray-500`}>Vector graphic (scalable)</div>
-                    </div>
-                  </label>
+                  {EXPORT_OPTIONS.map(option => (
+                    <label
+                      key={option.value}
+                      className="flex items-center gap-2 p-3 border border-gray-200 rounded-lg hover:border-[#EA7B4B] cursor-pointer"
+                    >
+                      <input
+                        type="radio"
+                        name="format"
+                        value={option.value}
+                        checked={exportFormat === option.value}
+                        onChange={() => setExportFormat(option.value)}
+                        className="text-[#EA7B4B] focus:ring-[#EA7B4B]"
+                      />
+                      <div>
+                        <div className="font-medium">{option.label}</div>
+                        <div className={`${typography.body} text-gray-500`}>{option.description}</div>
+                      </div>
+                    </label>
+                  ))}
                 </div>
               </div>
 
@@ -404,6 +506,10 @@ export function ImportExportDialog({ isOpen, onClose, mode }: ImportExportDialog
                 {exportFormat === 'json' && <p className="mt-1">File will be editable and re-importable</p>}
                 {exportFormat === 'png' && <p className="mt-1">File will be 2x resolution for clarity</p>}
                 {exportFormat === 'svg' && <p className="mt-1">File will be vector-based and scalable</p>}
+                {exportFormat === 'csv' && <p className="mt-1">Two files: nodes and edges</p>}
+                {(exportFormat === 'graphml' || exportFormat === 'dot' || exportFormat === 'mermaid') && (
+                  <p className="mt-1">File can be re-imported here</p>
+                )}
               </div>
 
               {/* Export Button */}
@@ -411,7 +517,7 @@ export function ImportExportDialog({ isOpen, onClose, mode }: ImportExportDialog
                 onClick={handleExport}
                 className="w-full px-4 py-3 bg-[#EA7B4B] text-white rounded-lg hover:bg-[#EA7B4B]/90 transition-colors font-medium"
               >
-                💾 Export as {exportFormat.toUpperCase()}
+                💾 Export as {EXPORT_OPTIONS.find(o => o.value === exportFormat)?.label}
               </button>
             </div>
           )}
@@ -8,6 +8,7 @@
  * - Summary: ≤200 chars, plain English conclusion
  * - Risks: Max 5 items - things that could go wrong
  * - Next Steps: Max 3 items - recommended actions
+ * - Worth Investigating: factors ranked by value of information (EVPPI)
  */
 
 import { useState } from 'react'
@@ -18,10 +19,13 @@ import {
   ChevronUp,
   Lightbulb,
   MessageSquare,
+  Search,
+  Target,
 } from 'lucide-react'
 import { typography } from '../../styles/typography'
 import type { Insights } from '../../types/plot'
 import { focusNodeById } from '../utils/focusHelpers'
+import type { ValueOfInformation } from '../../adapters/plot/local/valueOfInformation'
 
 /** Driver information for insight generation */
 interface DriverSummary {
@@ -46,8 +50,17 @@ interface InsightsPanelProps {
   goalDirection?: 'maximize' | 'minimize'
   /** Top drivers for driver-focused insight */
   topDrivers?: DriverSummary[]
+  /** EVPI/EVPPI for the decision's options ("worth investigating" list) */
+  valueOfInformation?: ValueOfInformation | null
+  /** Show the worth-investigating factors in the canvas Key Factors overlay */
+  onShowKeyFactors?: () => void
 }
 
+const MAX_WORTH_INVESTIGATING = 5
+
+/** Outcome scores are 0-1; show gains in percentage points */
+const formatPoints = (value: number): string => `+${(value * 100).toFixed(1)} pts`
+
 /**
  * P0.3: Normalize insights data with safe defaults
  *
@@ -249,6 +262,8 @@ export function InsightsPanel({
   baselineValue,
   goalDirection = 'maximize',
   topDrivers,
+  valueOfInformation,
+  onShowKeyFactors,
 }: InsightsPanelProps) {
   const [isExpanded, setIsExpanded] = useState(defaultExpanded)
 
@@ -271,7 +286,12 @@ export function InsightsPanel({
   // Prefer driver insight, fall back to cleaned summary
   const summary = driverInsight || (cleanedSummary.length > 20 ? cleanedSummary : rawSummary)
 
-  const hasDetails = risks.length > 0 || next_steps.length > 0
+  const worthInvestigating = (valueOfInformation?.factors ?? [])
+    .filter(f => f.evppi > 0)
+    .slice(0, MAX_WORTH_INVESTIGATING)
+  const hasValueOfInformation = Boolean(valueOfInformation && valueOfInformation.evpi > 0)
+
+  const hasDetails = risks.length > 0 || next_steps.length > 0 || hasValueOfInformation
 
   return (
     <div
@@ -418,6 +438,60 @@ export function InsightsPanel({
               </ul>
             </div>
           )}
+
+          {/* Worth Investigating (value of information) */}
+          {valueOfInformation && hasValueOfInformation && (
+            <div className="pt-2" data-testid="worth-investigating">
+              <div className="flex items-center gap-1.5 mb-1">
+                <Search
+                  className="w-4 h-4 text-sky-600"
+                  aria-hidden="true"
+                />
+                <span className={`${typography.labelSmall} text-sky-700`}>
+                  Worth Investigating
+                </span>
+              </div>
+              <p className={`${typography.caption} text-ink-900/70 mb-2`}>
+                Perfect information on everything is worth{' '}
+                <span className="font-semibold" data-testid="evpi-value">{formatPoints(valueOfInformation.evpi)}</span>
+                {' '}before committing.
+              </p>
+              {worthInvestigating.length > 0 && (
+                <ol
+                  className="space-y-1"
+                  aria-label="Uncertainties worth investigating"
+                  data-testid="worth-investigating-list"
+                >
+                  {worthInvestigating.map((factor) => (
+                    <li key={factor.nodeId}>
+                      <button
+                        type="button"
+                        onClick={() => focusNodeById(factor.nodeId)}
+                        className={`w-full flex items-center justify-between gap-2 ${typography.bodySmall} text-ink-900/80 text-left hover:text-sky-700`}
+                        data-testid="worth-investigating-item"
+                      >
+                        <span className="truncate underline decoration-dotted">{factor.label}</span>
+                        <span className="flex-shrink-0 font-mono text-ink-900/60">
+                          {formatPoints(factor.evppi)}
+                        </span>
+                      </button>
+                    </li>
+                  ))}
+                </ol>
+              )}
+              {onShowKeyFactors && worthInvestigating.length > 0 && (
+                <button
+                  type="button"
+                  onClick={onShowKeyFactors}
+                  className={`mt-2 inline-flex items-center gap-1 ${typography.caption} text-sky-700 hover:underline`}
+                  data-testid="worth-investigating-show-on-canvas"
+                >
+                  <Target className="w-3.5 h-3.5" aria-hidden="true" />
+                  Show as Key Factors on canvas
+                </button>
+              )}
+            </div>
+          )}
         </div>
       )}
     </div>
@@ -0,0 +1,98 @@
+/**
+ * InterimResults - Converging estimate while a run is still sampling
+ *
+ * Shows the running p10/p50/p90 band and a histogram of the samples drawn so
+ * far. While streaming the user can stop early; a stopped run keeps the last
+ * interim estimate, marked as partial so it is never mistaken for a result.
+ */
+
+import { typography } from '../../styles/typography'
+import type { InterimResultV1 } from '../../adapters/plot/types'
+
+interface InterimResultsProps {
+  interim: InterimResultV1
+  /** Run stopped before reaching its target sample count */
+  stoppedEarly?: boolean
+  onStopEarly?: () => void
+}
+
+const formatValue = (value: number, units?: InterimResultV1['units']): string =>
+  units === 'percent' ? `${(value * 100).toFixed(0)}%` : value.toFixed(2)
+
+export function InterimResults({ interim, stoppedEarly = false, onStopEarly }: InterimResultsProps) {
+  const { bands, histogram, samples, target_samples, units } = interim
+  const maxCount = Math.max(1, ...(histogram?.counts ?? []))
+  const span = histogram ? histogram.max - histogram.min || 1 : 1
+  // Position a value on the histogram's x-axis as 0-100%
+  const toPct = (value: number) =>
+    histogram ? Math.min(100, Math.max(0, ((value - histogram.min) / span) * 100)) : 50
+
+  return (
+    <section
+      className={`rounded-lg border p-3 space-y-2 ${
+        stoppedEarly ? 'border-warning-300 bg-warning-50' : 'border-sky-200 bg-sky-50'
+      }`}
+      aria-label={stoppedEarly ? 'Partial estimate' : 'Interim estimate'}
+      data-testid="interim-results"
+    >
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <span className={`${typography.label} text-ink-900`}>
+            {stoppedEarly ? 'Estimate so far' : 'Converging estimate'}
+          </span>
+          {stoppedEarly && (
+            <span
+              className={`${typography.caption} px-1.5 py-0.5 rounded bg-warning-100 text-warning-700 font-medium`}
+              data-testid="interim-partial-badge"
+            >
+              Partial estimate
+            </span>
+          )}
+        </div>
+        {!stoppedEarly && onStopEarly && (
+          <button
+            type="button"
+            onClick={onStopEarly}
+            className={`${typography.caption} px-2 py-1 rounded border border-ink-200 bg-white text-ink-700 hover:bg-sand-50`}
+            data-testid="interim-stop-early"
+          >
+            Stop early
+          </button>
+        )}
+      </div>
+
+      {histogram && histogram.counts.length > 0 && (
+        <div className="relative h-12 flex items-end gap-px" aria-hidden="true" data-testid="interim-histogram">
+          {histogram.counts.map((count, i) => (
+            <div
+              key={i}
+              className={`flex-1 rounded-t-sm transition-all duration-300 ${stoppedEarly ? 'bg-warning-300' : 'bg-sky-400'}`}
+              style={{ height: `${(count / maxCount) * 100}%` }}
+            />
+          ))}
+          <div
+            className="absolute inset-y-0 border-x border-dashed border-ink-900/30 bg-ink-900/5"
+            style={{ left: `${toPct(bands.p10)}%`, width: `${toPct(bands.p90) - toPct(bands.p10)}%` }}
+          />
+          <div className="absolute inset-y-0 w-px bg-ink-900/60" style={{ left: `${toPct(bands.p50)}%` }} />
+        </div>
+      )}
+
+      <dl className={`grid grid-cols-3 gap-2 ${typography.caption}`} data-testid="interim-bands">
+        {(['p10', 'p50', 'p90'] as const).map(key => (
+          <div key={key}>
+            <dt className="text-ink-500 uppercase">{key}</dt>
+            <dd className="text-ink-900 font-mono">{formatValue(bands[key], units)}</dd>
+          </div>
+        ))}
+      </dl>
+
+      <p className={`${typography.caption} text-ink-600`} data-testid="interim-samples">
+        {target_samples
+          ? `${samples.toLocaleString()} of ${target_samples.toLocaleString()} samples`
+          : `${samples.toLocaleString()} samples`}
+        {stoppedEarly && ' — stopped before the run finished, so the bands may still move.'}
+      </p>
+    </section>
+  )
+}
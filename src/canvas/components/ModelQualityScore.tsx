@@ -29,7 +29,7 @@ interface ModelQualityScoreProps {
   quality: GraphQuality | null | undefined
   /** Start expanded to show sub-metrics */
   defaultExpanded?: boolean
-  /** Local edge provenance counts (optional supplement to engine data) */
+  /** Local edge evidence counts from countEdgesWithEvidence, citations included (optional supplement to engine data) */
   localEvidenceCounts?: {
     evidenced: number
     total: number
@@ -57,7 +57,7 @@ export function NeedleMoversOverlay({ movers, onFocusNode }: NeedleMoversOverlay
 
               {/* Node label */}
               <span className={`font-medium ${typography.body} flex-1 truncate`}>
-                {mover.nodeId}
+                {mover.label ?? mover.nodeId}
               </span>
 
               {/* Impact percentage */}
@@ -5,7 +5,9 @@ interface NodeBadgeProps {
   nodeId: string
   ceeWarnings: CEEStructuralWarning[]
   islAffected: boolean
+  unreadComments?: number
   onClick?: () => void
+  onCommentsClick?: () => void
 }
 
 interface Badge {
@@ -13,6 +15,7 @@ interface Badge {
   label: string
   color: string
   priority: number // Higher = render first
+  onClick?: () => void // Overrides the shared onClick
 }
 
 // Map color names to full Tailwind class names for JIT/purge safety
@@ -26,7 +29,7 @@ const getBorderClass = (color: string): string => {
   return colorMap[color] || 'border-gray-500'
 }
 
-export function NodeBadge({ nodeId, ceeWarnings, islAffected, onClick }: NodeBadgeProps) {
+export function NodeBadge({ nodeId, ceeWarnings, islAffected, unreadComments = 0, onClick, onCommentsClick }: NodeBadgeProps) {
   const badges: Badge[] = []
 
   // CEE structural warnings
@@ -77,6 +80,17 @@ export function NodeBadge({ nodeId, ceeWarnings, islAffected, onClick }: NodeBad
     })
   }
 
+  // Discussion threads with messages not yet read on this device
+  if (unreadComments > 0) {
+    badges.push({
+      icon: unreadComments > 9 ? '9+' : String(unreadComments),
+      label: `${unreadComments} unread ${unreadComments === 1 ? 'discussion' : 'discussions'}`,
+      color: 'mint-500',
+      priority: 2,
+      onClick: onCommentsClick,
+    })
+  }
+
   if (badges.length === 0) return null
 
   // Sort by priority, take max 2
@@ -89,7 +103,7 @@ export function NodeBadge({ nodeId, ceeWarnings, islAffected, onClick }: NodeBad
       {displayBadges.map((badge, i) => (
         <button
           key={i}
-          onClick={onClick}
+          onClick={badge.onClick ?? onClick}
           title={badge.label}
           className={`
             w-6 h-6 rounded-full bg-white border-2 ${getBorderClass(badge.color)}
@@ -16,6 +16,7 @@
  *
  * Features:
  * - Auto-opens on run completion/error
+ * - Offline queue: runs made while the engine is down are queued and replayed
  * - Resizable width
  * - Persistent state in localStorage
  * - Syncs with `showResultsPanel` store flag for UI coordination
@@ -28,7 +29,15 @@ import { BarChart3, Shuffle, Activity, Clock, PlayCircle, RefreshCw, AlertTriang
 import { useShallow } from 'zustand/react/shallow'
 import { useDockState } from '../hooks/useDockState'
 import { usePrefersReducedMotion } from '../hooks/usePrefersReducedMotion'
-import { useCanvasStore, selectResultsStatus, selectReport, selectError } from '../store'
+import {
+  useCanvasStore,
+  selectResultsStatus,
+  selectReport,
+  selectError,
+  selectFromCache,
+  selectInterim,
+  selectStoppedEarly,
+} from '../store'
 import { loadRuns, type StoredRun } from '../store/runHistory'
 import * as runsBus from '../store/runsBus'
 import { typography } from '../../styles/typography'
@@ -48,6 +57,7 @@ import { DeltaInterpretation } from './DeltaInterpretation'
 import { ValidationSuggestionsSection } from './ValidationSuggestions'
 import { isDecisionReviewEnabled } from '../../flags'
 import { getObjectiveText, getGoalDirection } from '../utils/getObjectiveText'
+import { countEdgesWithEvidence } from '../utils/evidenceCoverage'
 import { computeDelta, deriveVerdict } from '../utils/interpretOutcome'
 import { useDebugShortcut } from '../hooks/useDebugShortcut'
 import { RANGE_TERMINOLOGY } from '../../config/terminology'
@@ -57,8 +67,13 @@ import { DecisionReadinessBadge } from './DecisionReadinessBadge'
 import { ModelQualityScore } from './ModelQualityScore'
 import { UnifiedStatusBadge } from './UnifiedStatusBadge'
 import { InsightsPanel } from './InsightsPanel'
+import { InterimResults } from './InterimResults'
 import { ValidationPanel, type CritiqueItem } from './ValidationPanel'
 import { GraphTextView } from './GraphTextView'
+import { EvidenceFreshnessSection } from './EvidenceFreshnessSection'
+import { BiasTasksPanel } from '../biasTasks/BiasTasksPanel'
+import { useBiasBlockers } from '../biasTasks/hooks'
+import { withBiasBlockers } from '../biasTasks/tasks'
 import { PreAnalysisGuidance } from './PreAnalysisGuidance'
 import { PreAnalysisHealth } from './PreAnalysisHealth'
 import { ActionsSignal } from './ActionsSignal'
@@ -66,11 +81,15 @@ import { WarningBanner } from './WarningBanner'
 import { OutcomesSignal } from './OutcomesSignal'
 import { TrustSignal } from './TrustSignal'
 import { DriversSignal } from './DriversSignal'
+import { SensitivitySweep } from './SensitivitySweep'
 import { DecisionSummary } from './DecisionSummary'
 import { mapConfidenceToReadiness } from '../utils/mapConfidenceToReadiness'
 import { useResultsRun } from '../hooks/useResultsRun'
+import { useRunQueueReplay } from '../hooks/useRunQueueReplay'
+import { useValueOfInformation, toNeedleMovers } from '../hooks/useValueOfInformation'
 import { focusNodeById } from '../utils/focusHelpers'
 import { executeAutoFix, determineFixType, type AutoFixParams } from '../utils/autoFix'
+import { commitAutoFix } from '../changesets/reviewStore'
 import { useComparisonDetection } from '../hooks/useComparisonDetection'
 import { useScenarioComparison } from '../hooks/useScenarioComparison'
 import { useOptionRanking } from '../hooks/useOptionRanking'
@@ -141,6 +160,8 @@ export function OutputsDock() {
   const comparison = useComparisonDetection()
   const scenarioComparison = useScenarioComparison()
   const optionRanking = useOptionRanking()
+  const { data: valueOfInformation } = useValueOfInformation()
+  const setNeedleMovers = useCanvasStore(s => s.setNeedleMovers)
 
   // React #185 FIX: Combine state selectors with shallow comparison
   // Using individual selectors for objects (runMeta, graphHealth, etc.) caused
@@ -155,6 +176,7 @@ export function OutputsDock() {
     hasCompletedFirstRun,
     nodes,
     edges,
+    citations,
     framing,
   } = useCanvasStore(
     useShallow(s => ({
@@ -165,6 +187,7 @@ export function OutputsDock() {
       hasCompletedFirstRun: s.hasCompletedFirstRun,
       nodes: s.nodes,
       edges: s.edges,
+      citations: s.citations,
       framing: s.currentScenarioFraming,
     }))
   )
@@ -192,9 +215,14 @@ export function OutputsDock() {
   const resultsStatus = useCanvasStore(selectResultsStatus)
   const report = useCanvasStore(selectReport)
   const error = useCanvasStore(selectError)
+  const isFromCache = useCanvasStore(selectFromCache)
+  const interim = useCanvasStore(selectInterim)
+  const stoppedEarly = useCanvasStore(selectStoppedEarly)
+  const biasBlockers = useBiasBlockers()
 
   // Pre-run validation: map graphHealth issues to critique format
-  const { run: runAnalysis } = useResultsRun()
+  const { run: runAnalysis, stopEarly } = useResultsRun()
+  const queuedRunCount = useRunQueueReplay()
 
   // Pre-run blocker state - managed by PreAnalysisGuidance component
   const [hasPreRunBlockers, setHasPreRunBlockers] = useState(false)
@@ -206,15 +234,17 @@ export function OutputsDock() {
   // Unified run eligibility: both guidance blockers AND readiness must allow running
   const canRunAnalysis = !hasPreRunBlockers && readinessCanRun && !isRunning
 
-  // Handle Run button click
-  const handleRunAnalysis = useCallback(async () => {
+  // Handle Run button click; forceRerun bypasses the result cache (seed is bumped, see useResultsRun)
+  const runCurrentGraph = useCallback(async (options?: { forceRerun?: boolean }) => {
     if (!canRunAnalysis) return
     await runAnalysis({
       template_id: framing?.templateId || 'canvas-graph',
       seed: framing?.seed ?? 1337,
       graph: { nodes, edges },
-    })
+    }, options)
   }, [canRunAnalysis, runAnalysis, framing, nodes, edges])
+  const handleRunAnalysis = useCallback(() => runCurrentGraph(), [runCurrentGraph])
+  const handleForceRerun = useCallback(() => runCurrentGraph({ forceRerun: true }), [runCurrentGraph])
 
   // M6: Handle comparison prompt dismissal
   const handleDismissComparison = useCallback(() => {
@@ -259,19 +289,14 @@ export function OutputsDock() {
       const result = executeAutoFix(params, nodes, edges)
 
       if (result.success) {
-        // Update canvas state with fixed nodes/edges
-        if (result.updatedNodes) {
-          useCanvasStore.setState({ nodes: result.updatedNodes })
-        }
-        if (result.updatedEdges) {
-          useCanvasStore.setState({ edges: result.updatedEdges })
-        }
-
-        // Re-trigger graph health validation to clear fixed issues
+        // Update canvas state with fixed nodes/edges (or propose them for review),
+        // then re-trigger graph health validation to clear fixed issues.
         // Use setTimeout to ensure state is updated before validation runs
-        setTimeout(() => {
-          useCanvasStore.getState().validateGraph()
-        }, 50)
+        commitAutoFix(fixType, result, () => {
+          setTimeout(() => {
+            useCanvasStore.getState().validateGraph()
+          }, 50)
+        })
 
         trackAutoFixSuccess()
         return true
@@ -292,13 +317,13 @@ export function OutputsDock() {
   const resultUnitSymbol = report?.results.unitSymbol
   const hasInlineSummary = Boolean(report && resultsStatus === 'complete')
 
-  // P0.2: Compute evidence coverage from local edge provenance for consistency
+  // P0.2: Compute evidence coverage from local citations and provenance for consistency
   // This ensures Results and Diagnostics tabs show the same numbers
-  const totalEdges = edges.length
-  const evidencedEdges = edges.filter(e => e.data?.provenance && e.data.provenance.trim() !== '').length
+  const evidenceCounts = useMemo(() => countEdgesWithEvidence(edges, citations), [edges, citations])
   const objectiveText = getObjectiveText({ framing, nodes })
   const goalDirection = getGoalDirection(framing, nodes)
   const isError = resultsStatus === 'error'
+  const isQueued = resultsStatus === 'queued'
 
   // Phase 1A.1: Compute verdict for VerdictCard
   // Use baseline from framing or default to 0 ("do nothing" scenario)
@@ -331,7 +356,10 @@ export function OutputsDock() {
       )
     : null
 
-  const decisionReadiness = report?.decision_readiness || readinessFromConfidence
+  // Unresolved high-severity bias findings block readiness until a re-check no longer reports them,
+  // whether or not the engine has assessed readiness yet
+  const engineReadiness = report?.decision_readiness || readinessFromConfidence
+  const decisionReadiness = withBiasBlockers(engineReadiness, biasBlockers)
   const hasDecisionReadiness = !isPreRun && !!decisionReadiness
   const hasBlockers = hasDecisionReadiness && decisionReadiness!.blockers.length > 0
   const isReadyForOutcome = hasDecisionReadiness && decisionReadiness!.ready && !hasBlockers
@@ -415,7 +443,8 @@ export function OutputsDock() {
       resultsStatus === 'connecting' ||
       resultsStatus === 'streaming' ||
       resultsStatus === 'complete' ||
-      resultsStatus === 'error'
+      resultsStatus === 'error' ||
+      resultsStatus === 'queued'
 
     const shouldOpen = shouldOpenForResults || showResultsPanel
 
@@ -722,6 +751,42 @@ export function OutputsDock() {
                     )}
                   </div>
                 )}
+                {isQueued && (
+                  <div
+                    className="flex flex-col gap-1 px-3 py-2 bg-info-50 border border-info-200 rounded"
+                    role="status"
+                    aria-live="polite"
+                    data-testid="outputs-queued-banner"
+                  >
+                    <div className={`${typography.label} text-info-800`}>
+                      Engine offline — analysis queued
+                    </div>
+                    <div className={`${typography.caption} text-ink-900/80`}>
+                      Your analysis will run automatically when the engine is back and appear in run history.
+                      {queuedRunCount > 1 && ` ${queuedRunCount} runs are waiting.`}
+                    </div>
+                  </div>
+                )}
+                {isFromCache && resultsStatus === 'complete' && (
+                  <div
+                    className="flex items-center justify-between gap-2 px-3 py-2 bg-sand-50 border border-sand-200 rounded"
+                    role="status"
+                    data-testid="outputs-from-cache"
+                  >
+                    <span className={`${typography.caption} text-ink-900/80`}>
+                      From cache — this graph and seed were analysed before.
+                    </span>
+                    <button
+                      type="button"
+                      onClick={handleForceRerun}
+                      disabled={!canRunAnalysis}
+                      className={`${typography.caption} font-medium text-sky-600 hover:text-sky-700 disabled:text-ink-500 whitespace-nowrap`}
+                      data-testid="outputs-force-rerun"
+                    >
+                      Force re-run
+                    </button>
+                  </div>
+                )}
                 {/* Post-run: Rerun analysis button */}
                 {!isPreRun && (
                   <button
@@ -783,6 +848,14 @@ export function OutputsDock() {
                     <span className={`${typography.caption} text-sky-900`}>{slowRunMessage}</span>
                   </div>
                 )}
+                {/* Progressive results: converging estimate while sampling, partial if stopped */}
+                {interim && (isRunning || stoppedEarly) && (
+                  <InterimResults
+                    interim={interim}
+                    stoppedEarly={stoppedEarly}
+                    onStopEarly={isRunning ? stopEarly : undefined}
+                  />
+                )}
                 {/* P0 Engine: Identifiability Badge - only show when we have a meaningful status */}
                 {(() => {
                   // Safely normalize backend identifiability tag to prevent runtime errors
@@ -807,6 +880,14 @@ export function OutputsDock() {
                     />
                   </div>
                 )}
+                {/* Decision readiness blockers from unresolved high-severity bias findings */}
+                {biasBlockers.length > 0 && (
+                  <DecisionReadinessBadge
+                    readiness={decisionReadiness!}
+                    evidenceCoverage={{ evidencedCount: evidenceCounts.evidenced, totalCount: evidenceCounts.total }}
+                    defaultExpanded
+                  />
+                )}
                 {/* Phase 2: Response warnings banner (edge type inferred, weights normalized, etc.) */}
                 {!isPreRun && !warningsDismissed && report?.warnings && report.warnings.length > 0 && (
                   <WarningBanner
@@ -846,6 +927,7 @@ export function OutputsDock() {
                 {!isPreRun && hasInlineSummary && (
                   <div className="space-y-3" data-testid="outputs-signals">
                     <DriversSignal maxCollapsed={3} />
+                    <SensitivitySweep />
                     <OutcomesSignal
                       baseline={baselineValue}
                       goalDirection={goalDirection}
@@ -892,6 +974,10 @@ export function OutputsDock() {
                           strength: d.strength,
                           contribution: d.contribution,
                         }))}
+                        valueOfInformation={valueOfInformation}
+                        onShowKeyFactors={valueOfInformation
+                          ? () => setNeedleMovers(toNeedleMovers(valueOfInformation))
+                          : undefined}
                       />
                     )}
                     {/* Decision Review */}
@@ -1021,6 +1107,8 @@ function DiagnosticsTabBody({
   nodes: Node[]
   edges: Edge[]
 }) {
+  const citations = useCanvasStore(s => s.citations)
+
   return (
     <div className="space-y-3" data-testid="diagnostics-tab">
       {/* Graph Structure Text View - hierarchical view with search and click-to-focus */}
@@ -1029,10 +1117,17 @@ function DiagnosticsTabBody({
         <GraphTextView
           nodes={nodes}
           edges={edges}
+          citations={citations}
           onNodeClick={focusNodeById}
         />
       </div>
 
+      {/* Evidence freshness: badge, stale evidence queue and staleness rules */}
+      <EvidenceFreshnessSection />
+
+      {/* Bias mitigation: tasks from bias-check interventions, re-checked as they're done */}
+      <BiasTasksPanel />
+
       {/* ISL Validation Suggestions - AI-powered graph quality feedback */}
       <div className="border-t border-sand-200 pt-3" data-testid="isl-validation-section">
         <ValidationSuggestionsSection />
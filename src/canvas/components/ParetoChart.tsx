@@ -0,0 +1,94 @@
+/**
+ * ParetoChart - Options plotted on two criteria with the frontier marked
+ *
+ * Axes are oriented so "better" is always up and to the right, whatever each
+ * criterion's direction. Frontier options are sky dots joined by a line;
+ * dominated options are hollow sand dots. Dominance uses every criterion,
+ * not just the two on screen.
+ */
+
+import { typography } from '../../styles/typography'
+import type { DecisionCriterion } from '../store/scenarios'
+import type { ScoredOption } from '../utils/multiCriteria'
+
+interface ParetoChartProps {
+  options: ScoredOption[]
+  x: DecisionCriterion
+  y: DecisionCriterion
+  xLabel: string
+  yLabel: string
+}
+
+const WIDTH = 320
+const HEIGHT = 220
+const PAD = 32
+
+const formatValue = (value: number): string => value.toFixed(2)
+
+export function ParetoChart({ options, x, y, xLabel, yLabel }: ParetoChartProps) {
+  const axis = (criterion: DecisionCriterion, size: number) => {
+    const values = options.map(o => o.values[criterion.nodeId])
+    const lo = Math.min(...values)
+    const hi = Math.max(...values)
+    const span = hi - lo || 1
+    // Flip minimised criteria so lower values plot further along the axis
+    return (value: number) => {
+      const t = (value - lo) / span
+      return PAD + (criterion.direction === 'minimise' ? 1 - t : t) * (size - 2 * PAD)
+    }
+  }
+  const toX = axis(x, WIDTH)
+  const toY = axis(y, HEIGHT)
+  const point = (o: ScoredOption) => ({ cx: toX(o.values[x.nodeId]), cy: HEIGHT - toY(o.values[y.nodeId]) })
+
+  const frontier = options
+    .filter(o => !o.dominated)
+    .map(o => ({ option: o, ...point(o) }))
+    .sort((a, b) => a.cx - b.cx)
+
+  return (
+    <figure className="space-y-1" data-testid="pareto-chart">
+      <svg
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        className="w-full max-w-md bg-white border border-sand-200 rounded"
+        role="img"
+        aria-label={`Options by ${xLabel} and ${yLabel}; ${frontier.length} on the Pareto frontier`}
+      >
+        <line x1={PAD} y1={HEIGHT - PAD} x2={WIDTH - PAD} y2={HEIGHT - PAD} className="stroke-ink-200" />
+        <line x1={PAD} y1={PAD} x2={PAD} y2={HEIGHT - PAD} className="stroke-ink-200" />
+        {frontier.length > 1 && (
+          <polyline
+            points={frontier.map(p => `${p.cx},${p.cy}`).join(' ')}
+            className="fill-none stroke-sky-400"
+            strokeDasharray="4 3"
+          />
+        )}
+        {options.map((option) => {
+          const { cx, cy } = point(option)
+          return (
+            <g key={option.id} data-testid={option.dominated ? 'pareto-point-dominated' : 'pareto-point-frontier'}>
+              <circle
+                cx={cx}
+                cy={cy}
+                r={5}
+                className={option.dominated ? 'fill-white stroke-sand-400' : 'fill-sky-500 stroke-sky-700'}
+                strokeWidth={1.5}
+              >
+                <title>
+                  {`${option.label}: ${xLabel} ${formatValue(option.values[x.nodeId])}, ${yLabel} ${formatValue(option.values[y.nodeId])}${option.dominated ? ' (dominated)' : ''}`}
+                </title>
+              </circle>
+              <text x={cx + 7} y={cy - 7} className="fill-ink-600" fontSize={9}>
+                {option.label}
+              </text>
+            </g>
+          )
+        })}
+      </svg>
+      <figcaption className={`${typography.caption} text-ink-500 flex justify-between max-w-md`}>
+        <span>→ {xLabel} ({x.direction === 'minimise' ? 'lower is better' : 'higher is better'})</span>
+        <span>↑ {yLabel} ({y.direction === 'minimise' ? 'lower is better' : 'higher is better'})</span>
+      </figcaption>
+    </figure>
+  )
+}
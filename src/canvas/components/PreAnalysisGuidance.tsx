@@ -21,6 +21,7 @@ import { GuidanceCard, type GuidanceItem, type GuidanceSeverity, type AutoFixSta
 import { typography } from '../../styles/typography'
 import { focusNodeById, focusEdgeById } from '../utils/focusHelpers'
 import { executeAutoFix, determineFixType, type AutoFixParams } from '../utils/autoFix'
+import { commitAutoFix } from '../changesets/reviewStore'
 import { trackAutoFixClicked, trackAutoFixSuccess, trackAutoFixFailed } from '../utils/sandboxTelemetry'
 
 /**
@@ -209,18 +210,13 @@ export function PreAnalysisGuidance({ onBlockersChange }: PreAnalysisGuidancePro
         const result = executeAutoFix(params, nodes, edges)
 
         if (result.success) {
-          // Update canvas state with fixed nodes/edges
-          if (result.updatedNodes) {
-            useCanvasStore.setState({ nodes: result.updatedNodes })
-          }
-          if (result.updatedEdges) {
-            useCanvasStore.setState({ edges: result.updatedEdges })
-          }
-
-          // Re-trigger graph health validation
-          setTimeout(() => {
-            validateGraph()
-          }, 50)
+          // Update canvas state with fixed nodes/edges (or propose them for review),
+          // then re-trigger graph health validation
+          commitAutoFix(fixType, result, () => {
+            setTimeout(() => {
+              validateGraph()
+            }, 50)
+          })
 
           trackAutoFixSuccess()
           setFixedItems((prev) => new Set(prev).add(item.id))
@@ -3,11 +3,18 @@
  * Shows all citations and document connections
  */
 
-import { useState } from 'react'
+import { useEffect, useMemo, useState } from 'react'
 import { FileText, Eye, EyeOff, Link as LinkIcon, Search } from 'lucide-react'
 import type { Citation, Document } from '../share/types'
+import { useDocumentTextStore } from '../documents/textStore'
+import { useDocumentReaderStore } from '../documents/readerStore'
+import { citationStance } from '../documents/citations'
+import type { PassageHit } from '../documents/textIndex'
 import { typography } from '../../styles/typography'
 
+const MAX_PASSAGES = 8
+const REDACTED_CHARS = 100
+
 interface ProvenanceHubTabProps {
   citations: Citation[]
   documents: Document[]
@@ -25,6 +32,23 @@ export function ProvenanceHubTab({
 }: ProvenanceHubTabProps) {
   const [searchQuery, setSearchQuery] = useState('')
   const [selectedDocId, setSelectedDocId] = useState<string | null>(null)
+  const indexVersion = useDocumentTextStore(s => s.version)
+  const searchPassages = useDocumentTextStore(s => s.search)
+  const pendingQuery = useDocumentTextStore(s => s.pendingQuery)
+
+  // A passage search opened from the command palette
+  useEffect(() => {
+    if (pendingQuery === null) return
+    setSearchQuery(useDocumentTextStore.getState().takePendingQuery() ?? '')
+    setSelectedDocId(null)
+  }, [pendingQuery])
+
+  // Ranked passages from the full text of the documents
+  const passages = useMemo(
+    () => (searchQuery.trim() ? searchPassages(searchQuery, { limit: MAX_PASSAGES, documentId: selectedDocId }) : []),
+    // indexVersion: the index changes in place as documents are added or removed
+    [searchQuery, selectedDocId, searchPassages, indexVersion]
+  )
 
   // Group citations by document
   const citationsByDoc = citations.reduce((acc, citation) => {
@@ -52,7 +76,7 @@ export function ProvenanceHubTab({
   // Redact snippet if enabled
   const formatSnippet = (snippet: string): string => {
     if (!redactionEnabled) return snippet
-    return snippet.length > 100 ? snippet.slice(0, 100) + '...' : snippet
+    return snippet.length > REDACTED_CHARS ? snippet.slice(0, REDACTED_CHARS) + '...' : snippet
   }
 
   return (
@@ -83,7 +107,8 @@ export function ProvenanceHubTab({
           <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
           <input
             type="text"
-            placeholder="Search citations..."
+            placeholder="Search citations and documents..."
+            aria-label="Search citations and documents"
             value={searchQuery}
             onChange={(e) => setSearchQuery(e.target.value)}
             className={`w-full pl-9 pr-3 py-2 border border-gray-300 rounded-md ${typography.body} focus:ring-2 focus:ring-blue-500 focus:border-transparent`}
@@ -125,6 +150,25 @@ export function ProvenanceHubTab({
 
       {/* Citations list */}
       <div className="flex-1 overflow-y-auto p-4 space-y-3">
+        {searchQuery.trim() && documents.length > 0 && (
+          <section aria-label="Matching passages" data-testid="provenance-passages" className="space-y-2 pb-3 border-b border-gray-200">
+            <h4 className={`${typography.caption} font-semibold text-gray-700 uppercase tracking-wide`}>
+              Passages ({passages.length})
+            </h4>
+            {passages.length === 0 ? (
+              <p className={`${typography.caption} text-gray-500`}>No passages match</p>
+            ) : (
+              passages.map(hit => (
+                <PassageCard
+                  key={hit.chunk.id}
+                  hit={hit}
+                  document={documents.find(d => d.id === hit.chunk.documentId)}
+                  redacted={redactionEnabled}
+                />
+              ))
+            )}
+          </section>
+        )}
         {displayedCitations.length === 0 ? (
           <div className="text-center py-8 text-gray-500">
             <LinkIcon className="w-12 h-12 mx-auto mb-2 opacity-50" />
@@ -157,6 +201,58 @@ export function ProvenanceHubTab({
   )
 }
 
+function PassageCard({
+  hit,
+  document,
+  redacted,
+}: {
+  hit: PassageHit
+  document: Document | undefined
+  redacted: boolean
+}) {
+  const limit = redacted && hit.snippet.length > REDACTED_CHARS ? REDACTED_CHARS : hit.snippet.length
+  const parts: Array<{ text: string; match: boolean }> = []
+  let cursor = 0
+  for (const [start, end] of hit.highlights) {
+    if (start >= limit) break
+    parts.push({ text: hit.snippet.slice(cursor, start), match: false })
+    parts.push({ text: hit.snippet.slice(start, Math.min(end, limit)), match: true })
+    cursor = Math.min(end, limit)
+  }
+  parts.push({ text: hit.snippet.slice(cursor, limit), match: false })
+  const openDocument = useDocumentReaderStore(s => s.openDocument)
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-3 hover:bg-gray-50" data-testid="provenance-passage">
+      <div className={`${typography.body} text-gray-700`}>
+        {parts.map((part, i) =>
+          part.match ? (
+            <mark key={i} className="bg-yellow-100 text-gray-900 rounded-sm">{part.text}</mark>
+          ) : (
+            <span key={i}>{part.text}</span>
+          )
+        )}
+        {limit < hit.snippet.length && '...'}
+      </div>
+      <div className={`flex items-center gap-2 mt-2 ${typography.caption} text-gray-600`}>
+        <FileText className="w-3 h-3" />
+        <span className="font-medium">{document?.name ?? 'Document'}</span>
+        <span>•</span>
+        <span>Offset: {hit.snippetOffset}</span>
+        {document && (
+          <button
+            type="button"
+            onClick={() => openDocument(document.id, { charOffset: hit.snippetOffset, charLength: hit.snippet.length })}
+            className="ml-auto text-blue-600 hover:underline"
+          >
+            Read & cite
+          </button>
+        )}
+      </div>
+    </div>
+  )
+}
+
 function CitationCard({
   citation,
   document,
@@ -168,6 +264,9 @@ function CitationCard({
   snippet: string
   onFocusNode: (nodeId: string) => void
 }) {
+  const openDocument = useDocumentReaderStore(s => s.openDocument)
+  const contradicts = citationStance(citation) === 'contradicts'
+
   return (
     <div className="border border-gray-200 rounded-lg p-3 hover:bg-gray-50">
       {/* Node reference */}
@@ -180,7 +279,7 @@ function CitationCard({
       </button>
 
       {/* Snippet */}
-      <div className={`${typography.body} text-gray-700 italic border-l-2 border-purple-300 pl-3 mb-2`}>
+      <div className={`${typography.body} text-gray-700 italic border-l-2 ${contradicts ? 'border-danger-300' : 'border-purple-300'} pl-3 mb-2`}>
         "{snippet}"
       </div>
 
@@ -192,7 +291,7 @@ function CitationCard({
           {document.truncated && (
             <>
               <span>•</span>
-              <span className="text-amber-600 font-medium" title="Content was truncated to 5K chars">
+              <span className="text-amber-600 font-medium" title="Text beyond the per-document limit was not indexed">
                 Truncated
               </span>
             </>
@@ -203,12 +302,27 @@ function CitationCard({
               <span>Offset: {citation.charOffset}</span>
             </>
           )}
+          {contradicts && (
+            <>
+              <span>•</span>
+              <span className="text-danger-700 font-medium">Contradicts</span>
+            </>
+          )}
           {citation.confidence !== undefined && (
             <>
               <span>•</span>
               <span>Confidence: {Math.round(citation.confidence * 100)}%</span>
             </>
           )}
+          {citation.charOffset !== undefined && (
+            <button
+              type="button"
+              onClick={() => openDocument(citation.documentId, { charOffset: citation.charOffset!, charLength: citation.charLength ?? citation.snippet.length })}
+              className="ml-auto text-blue-600 hover:underline"
+            >
+              Jump to passage
+            </button>
+          )}
         </div>
       )}
     </div>
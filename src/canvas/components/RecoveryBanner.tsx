@@ -10,6 +10,7 @@ import { useState, useEffect } from 'react'
 import { AlertCircle, X } from 'lucide-react'
 import { loadAutosave, clearAutosave, hasUnsavedWork } from '../store/scenarios'
 import { useCanvasStore } from '../store'
+import { withAuditCause } from '../audit/trail'
 import { typography } from '../../styles/typography'
 
 const DISMISSED_KEY = 'autosave-recovery-dismissed'
@@ -42,14 +43,14 @@ export function RecoveryBanner() {
 
     // Load the autosaved graph
     store.reseedIds(autosaveData.nodes, autosaveData.edges)
-    useCanvasStore.setState({
+    withAuditCause('load', () => useCanvasStore.setState({
       nodes: autosaveData.nodes,
       edges: autosaveData.edges,
       currentScenarioId: autosaveData.scenarioId || null,
       isDirty: true, // Mark as dirty since recovered work is unsaved
       history: { past: [], future: [] },
       selection: { nodeIds: new Set(), edgeIds: new Set() }
-    })
+    }))
 
     // Clear autosave after recovery and mark as dismissed
     clearAutosave()
@@ -0,0 +1,70 @@
+/**
+ * Remote Cursors - collaborators' pointers and selections on the canvas
+ *
+ * Must render inside <ReactFlow>: ViewportPortal places children in flow
+ * coordinates, so cursors and outlines pan and zoom with the graph.
+ */
+
+import { memo } from 'react'
+import { ViewportPortal } from '@xyflow/react'
+import { MousePointer2 } from 'lucide-react'
+import { useCanvasStore } from '../store'
+import type { Peer } from '../collab/presence'
+import { typography } from '../../styles/typography'
+
+interface RemoteCursorsProps {
+  peers: Peer[]
+}
+
+const DEFAULT_NODE_SIZE = { width: 160, height: 60 }
+const OUTLINE_PAD = 4
+
+export const RemoteCursors = memo(({ peers }: RemoteCursorsProps) => {
+  const nodes = useCanvasStore(s => s.nodes)
+  if (peers.length === 0) return null
+
+  return (
+    <ViewportPortal>
+      {peers.flatMap(peer => peer.selection.map(nodeId => {
+        const node = nodes.find(n => n.id === nodeId)
+        if (!node) return null
+        const width = node.measured?.width ?? node.width ?? DEFAULT_NODE_SIZE.width
+        const height = node.measured?.height ?? node.height ?? DEFAULT_NODE_SIZE.height
+        return (
+          <div
+            key={`${peer.clientId}-${nodeId}`}
+            className="absolute rounded-lg pointer-events-none"
+            style={{
+              transform: `translate(${node.position.x - OUTLINE_PAD}px, ${node.position.y - OUTLINE_PAD}px)`,
+              width: width + OUTLINE_PAD * 2,
+              height: height + OUTLINE_PAD * 2,
+              border: `2px solid ${peer.user.colour}`,
+            }}
+            data-testid={`remote-selection-${nodeId}`}
+            aria-hidden="true"
+          />
+        )
+      }))}
+
+      {peers.filter(peer => peer.cursor).map(peer => (
+        <div
+          key={peer.clientId}
+          className="absolute pointer-events-none"
+          style={{ transform: `translate(${peer.cursor!.x}px, ${peer.cursor!.y}px)`, color: peer.user.colour }}
+          data-testid="remote-cursor"
+          aria-label={`${peer.user.name}'s cursor`}
+        >
+          <MousePointer2 className="w-4 h-4" fill="currentColor" aria-hidden="true" />
+          <span
+            className={`${typography.caption} ml-3 px-1.5 py-0.5 rounded text-white whitespace-nowrap`}
+            style={{ backgroundColor: peer.user.colour }}
+          >
+            {peer.user.name}
+          </span>
+        </div>
+      ))}
+    </ViewportPortal>
+  )
+})
+
+RemoteCursors.displayName = 'RemoteCursors'
@@ -8,13 +8,18 @@
  * - Quick actions: View, Pin, Delete
  * - Compact mini-sparkline visualisation
  * - Live refresh: Updates automatically when runs change (same-tab and cross-tab)
+ * - Offline queue: runs waiting for the engine (or failed on replay) listed on top
  */
 
 import React, { useState, useCallback, useEffect, useMemo } from 'react'
-import { Pin, Trash2, Eye, GitCompare, Clock } from 'lucide-react'
+import { Pin, Trash2, Eye, GitCompare, Clock, CloudOff, MessageSquare } from 'lucide-react'
 import { useCanvasStore } from '../store'
+import { useCommentThreadsStore } from '../comments/threads'
+import { isCommentsEnabled } from '../../flags'
 import { loadRuns, togglePin, deleteRun, computeRunSummary, STORAGE_KEY, type StoredRun } from '../store/runHistory'
+import { loadQueuedRuns, removeQueuedRun, type QueuedRun } from '../store/runQueue'
 import * as runsBus from '../store/runsBus'
+import { onExternalChange } from '../persist/storage'
 import { selectScenarioLastRun } from '../shared/lastRun'
 import { trackHistoryItemSelected } from '../utils/sandboxTelemetry'
 import { typography } from '../../styles/typography'
@@ -30,10 +35,13 @@ interface RunHistoryProps {
 
 export function RunHistory({ onViewRun, onCompare }: RunHistoryProps) {
   const [runs, setRuns] = useState<StoredRun[]>([])
+  const [queuedRuns, setQueuedRuns] = useState<QueuedRun[]>([])
   const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set())
   const scenarioTitle = useCanvasStore(s => s.currentScenarioFraming?.title ?? null)
   const scenarioLastResultHash = useCanvasStore(s => s.currentScenarioLastResultHash ?? null)
   const currentResultsHash = useCanvasStore(s => s.results.hash ?? null)
+  const openDiscussion = useCommentThreadsStore(s => s.openPanel)
+  const commentsEnabled = isCommentsEnabled()
 
   /**
    * Debounced refresh function
@@ -70,6 +78,8 @@ export function RunHistory({ onViewRun, onCompare }: RunHistoryProps) {
 
           rafId = null
         })
+
+        loadQueuedRuns().then(setQueuedRuns)
       }, 200)
     }
   }, [])
@@ -89,7 +99,7 @@ export function RunHistory({ onViewRun, onCompare }: RunHistoryProps) {
   /**
    * Subscribe to runs updates
    * - Same-tab: runsBus events
-   * - Cross-tab: storage events
+   * - Cross-tab: canvas storage change notifications
    * - Visibility: refresh when tab becomes visible
    */
   useEffect(() => {
@@ -99,13 +109,12 @@ export function RunHistory({ onViewRun, onCompare }: RunHistoryProps) {
     // Same-tab updates via bus
     const unsubscribe = runsBus.on(applyRefresh)
 
-    // Cross-tab updates via storage event
-    const onStorage = (e: StorageEvent) => {
-      if (e.key === STORAGE_KEY) {
+    // Cross-tab updates (null: another tab cleared storage)
+    const unsubscribeStorage = onExternalChange(key => {
+      if (key === STORAGE_KEY || key === null) {
         applyRefresh()
       }
-    }
-    window.addEventListener('storage', onStorage)
+    })
 
     // Refresh when tab becomes visible (handles background updates)
     const onVisibilityChange = () => {
@@ -118,7 +127,7 @@ export function RunHistory({ onViewRun, onCompare }: RunHistoryProps) {
     // Cleanup
     return () => {
       unsubscribe()
-      window.removeEventListener('storage', onStorage)
+      unsubscribeStorage()
       document.removeEventListener('visibilitychange', onVisibilityChange)
     }
   }, [applyRefresh])
@@ -138,6 +147,12 @@ export function RunHistory({ onViewRun, onCompare }: RunHistoryProps) {
     }
   }, [])
 
+  const handleDiscardQueued = useCallback((queuedId: string) => {
+    if (window.confirm('Discard this queued run?')) {
+      void removeQueuedRun(queuedId)
+    }
+  }, [])
+
   const handleToggleSelect = useCallback((runId: string) => {
     setSelectedIds(prev => {
       const next = new Set(prev)
@@ -161,7 +176,7 @@ export function RunHistory({ onViewRun, onCompare }: RunHistoryProps) {
     setSelectedIds(new Set())
   }, [selectedIds, onCompare])
 
-  if (runs.length === 0) {
+  if (runs.length === 0 && queuedRuns.length === 0) {
     return (
       <div data-testid="run-history-empty">
         {scenarioTitle && (
@@ -205,6 +220,52 @@ export function RunHistory({ onViewRun, onCompare }: RunHistoryProps) {
         </button>
       )}
 
+      {/* Offline queue */}
+      {queuedRuns.length > 0 && (
+        <div className="space-y-1" data-testid="run-history-queued">
+          {queuedRuns.map(entry => (
+            <div
+              key={entry.id}
+              className={`p-2 rounded border ${
+                entry.status === 'failed'
+                  ? 'bg-danger-50 border-danger-200'
+                  : 'bg-sand-50 border-sand-200'
+              }`}
+              data-testid="run-history-queued-item"
+            >
+              <div className={`flex items-center justify-between ${typography.caption}`}>
+                <div className="flex items-center gap-2 text-gray-600">
+                  <CloudOff className="w-3 h-3" aria-hidden="true" />
+                  <span className="font-medium">
+                    {entry.status === 'failed' ? 'Replay failed' : 'Queued — waiting for engine'}
+                  </span>
+                </div>
+                <span className="text-gray-400">
+                  {formatTimestamp(entry.queuedAt)}
+                </span>
+              </div>
+              <div className={`${typography.caption} text-gray-500 mt-1`}>
+                Seed: {entry.seed} · {entry.graph.nodes.length} nodes
+                {entry.lastError && (
+                  <span className="block text-danger-700">{entry.lastError}</span>
+                )}
+              </div>
+              <div className="flex items-center gap-1 mt-1">
+                <Tooltip content="Discard" position="bottom">
+                  <button
+                    onClick={() => handleDiscardQueued(entry.id)}
+                    className={`px-2 py-1 rounded ${typography.caption} bg-red-100 text-red-600 hover:bg-red-200 transition-colors`}
+                    aria-label="Discard queued run"
+                  >
+                    <Trash2 className="w-3 h-3" />
+                  </button>
+                </Tooltip>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
       {/* Run list */}
       <div className="space-y-1">
         {runs.map((run, index) => {
@@ -266,6 +327,16 @@ export function RunHistory({ onViewRun, onCompare }: RunHistoryProps) {
                 {run.summary || 'No summary'}
               </div>
 
+              {/* Replayed from the offline queue */}
+              {run.queuedAt && (
+                <div
+                  className={`mb-1 ${typography.caption} text-gray-500`}
+                  data-testid="run-history-queued-caption"
+                >
+                  Queued {formatTimestamp(run.queuedAt)} · ran {formatTimestamp(run.ranAt ?? run.ts)}
+                </div>
+              )}
+
               {isScenarioLastRun && scenarioTitle && (
                 <div
                   className={`mt-1 ${typography.caption} font-medium text-blue-700`}
@@ -328,6 +399,24 @@ export function RunHistory({ onViewRun, onCompare }: RunHistoryProps) {
                   </button>
                 </Tooltip>
 
+                {commentsEnabled && (
+                  <Tooltip content="Discuss" position="bottom">
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation()
+                        openDiscussion({
+                          mode: 'anchor',
+                          anchor: { kind: 'run', id: run.id, label: `Run ${run.hash?.slice(0, 6) || run.id.slice(0, 6)} · ${formatTimestamp(run.ts)}` },
+                        })
+                      }}
+                      className={`px-2 py-1 rounded ${typography.caption} bg-info-100 text-gray-600 hover:bg-info-200 transition-colors`}
+                      aria-label="Discuss"
+                    >
+                      <MessageSquare className="w-3 h-3" />
+                    </button>
+                  </Tooltip>
+                )}
+
                 <Tooltip content={isPinned ? 'Unpin' : 'Pin'} position="bottom">
                   <button
                     onClick={(e) => handleTogglePin(run.id, e)}
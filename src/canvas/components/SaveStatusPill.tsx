@@ -3,19 +3,34 @@
  *
  * Shows reactive save state: "Saving...", "Saved just now ✓", "Saved by [user] • [time]"
  * Replaces ambiguous "Unsaved scenario" text
+ *
+ * With cloud sync on (syncStatus), the saved state also says whether the save
+ * has reached the cloud: synced, pending (syncing, offline or retrying) or
+ * conflict, which opens the conflict dialog.
  */
 
 import { useEffect, useState } from 'react'
-import { Check, Clock } from 'lucide-react'
+import { AlertTriangle, Check, Clock, Cloud, CloudOff } from 'lucide-react'
 import { typography } from '../../styles/typography'
+import type { ScenarioSyncStatus } from '../store/scenarioSync'
+
+const PENDING_LABELS: Partial<Record<ScenarioSyncStatus, string>> = {
+  syncing: 'Syncing…',
+  pending: 'Waiting to sync',
+  offline: 'Offline · saved on this device',
+  error: 'Sync failed · will retry',
+}
 
 export interface SaveStatusPillProps {
   isSaving: boolean
   lastSavedAt: number | null
   savedBy?: string | null
+  /** Cloud sync state; omit (or 'off') for local-only saves */
+  syncStatus?: ScenarioSyncStatus
+  onConflictClick?: () => void
 }
 
-export function SaveStatusPill({ isSaving, lastSavedAt, savedBy }: SaveStatusPillProps) {
+export function SaveStatusPill({ isSaving, lastSavedAt, savedBy, syncStatus = 'off', onConflictClick }: SaveStatusPillProps) {
   const [timeLabel, setTimeLabel] = useState<string>('')
 
   useEffect(() => {
@@ -61,6 +76,55 @@ export function SaveStatusPill({ isSaving, lastSavedAt, savedBy }: SaveStatusPil
     )
   }
 
+  if (syncStatus === 'conflict') {
+    return (
+      // Rendered inside the scenario switcher's trigger button, so not a button itself
+      <div
+        onClick={e => {
+          e.stopPropagation()
+          onConflictClick?.()
+        }}
+        className={`flex items-center gap-1.5 px-2 py-1 ${typography.caption} text-warning-700 bg-warning-50 rounded-full hover:bg-warning-100 cursor-pointer`}
+        data-testid="save-status-conflict"
+        role="status"
+        aria-live="polite"
+      >
+        <AlertTriangle className="w-3 h-3" />
+        <span>Sync conflict · review</span>
+      </div>
+    )
+  }
+
+  const pendingLabel = PENDING_LABELS[syncStatus]
+  if (pendingLabel) {
+    const Icon = syncStatus === 'offline' || syncStatus === 'error' ? CloudOff : Clock
+    return (
+      <div
+        className={`flex items-center gap-1.5 px-2 py-1 ${typography.caption} text-gray-600 bg-gray-100 rounded-full`}
+        data-testid="save-status-pending"
+        role="status"
+        aria-live="polite"
+      >
+        <Icon className={`w-3 h-3 ${syncStatus === 'syncing' ? 'animate-pulse' : ''}`} />
+        <span>{pendingLabel}</span>
+      </div>
+    )
+  }
+
+  if (syncStatus === 'synced') {
+    return (
+      <div
+        className={`flex items-center gap-1.5 px-2 py-1 ${typography.caption} text-success-700 bg-success-50 rounded-full`}
+        data-testid="save-status-synced"
+        role="status"
+        aria-live="polite"
+      >
+        <Cloud className="w-3 h-3" />
+        <span>Synced{timeLabel && ` ${timeLabel}`}</span>
+      </div>
+    )
+  }
+
   if (lastSavedAt) {
     return (
       <div
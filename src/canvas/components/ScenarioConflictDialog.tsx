@@ -0,0 +1,120 @@
+/**
+ * ScenarioConflictDialog - resolve graphs edited in two places at once
+ *
+ * Cloud sync merges names, framing and run details field by field, but when
+ * both this device and another one changed the graph since the last sync the
+ * user picks which graph to keep (or keeps both as separate scenarios).
+ */
+
+import { useEffect, useCallback } from 'react'
+import { AlertTriangle } from 'lucide-react'
+import { typography } from '../../styles/typography'
+import type { ConflictResolution, ScenarioConflict } from '../store/scenarioSync'
+
+interface ScenarioConflictDialogProps {
+  conflicts: ScenarioConflict[]
+  onResolve: (id: string, resolution: ConflictResolution) => void
+  onClose: () => void
+}
+
+const formatTime = (ms: number) =>
+  new Date(ms).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' })
+
+const graphSummary = (graph: ScenarioConflict['local']['graph']) =>
+  `${graph.nodes.length} node${graph.nodes.length === 1 ? '' : 's'}, ${graph.edges.length} edge${graph.edges.length === 1 ? '' : 's'}`
+
+export function ScenarioConflictDialog({ conflicts, onResolve, onClose }: ScenarioConflictDialogProps) {
+  useEffect(() => {
+    const handleEscape = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        onClose()
+      }
+    }
+    window.addEventListener('keydown', handleEscape)
+    return () => window.removeEventListener('keydown', handleEscape)
+  }, [onClose])
+
+  const handleBackdropClick = useCallback((e: React.MouseEvent) => {
+    if (e.target === e.currentTarget) {
+      onClose()
+    }
+  }, [onClose])
+
+  return (
+    <div
+      className="fixed inset-0 z-[5000] flex items-center justify-center bg-black/50 backdrop-blur-sm"
+      onClick={handleBackdropClick}
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="scenario-conflict-title"
+      data-testid="scenario-conflict-dialog"
+    >
+      <div className="bg-white rounded-xl shadow-panel p-6 max-w-lg w-full mx-4">
+        <div className="flex items-start gap-4 mb-4">
+          <div className="flex-shrink-0 w-10 h-10 rounded-full flex items-center justify-center bg-warning-100">
+            <AlertTriangle className="w-5 h-5 text-warning-600" />
+          </div>
+          <div className="flex-1">
+            <h3 id="scenario-conflict-title" className={`${typography.h4} text-gray-900 mb-2`}>
+              {conflicts.length === 1 ? 'This scenario was edited in two places' : `${conflicts.length} scenarios were edited in two places`}
+            </h3>
+            <p className={`${typography.body} text-gray-600`}>
+              The graph changed on this device and somewhere else since the last sync. Choose which graph to keep.
+            </p>
+          </div>
+        </div>
+
+        <ul className="space-y-3 mb-4">
+          {conflicts.map(conflict => (
+            <li
+              key={conflict.id}
+              className="border border-gray-200 rounded-lg p-3"
+              data-testid={`scenario-conflict-${conflict.id}`}
+            >
+              <div className={`${typography.label} text-gray-900 mb-1`}>{conflict.name}</div>
+              <dl className={`${typography.caption} text-gray-600 grid grid-cols-[auto_1fr] gap-x-3 mb-3`}>
+                <dt>This device</dt>
+                <dd>{graphSummary(conflict.local.graph)} · {formatTime(conflict.local.updatedAt)}</dd>
+                <dt>Cloud</dt>
+                <dd>{graphSummary(conflict.remote.scenario.graph)} · {formatTime(conflict.remote.scenario.updatedAt)}</dd>
+              </dl>
+              <div className="flex gap-2 justify-end">
+                <button
+                  type="button"
+                  onClick={() => onResolve(conflict.id, 'both')}
+                  className={`px-3 py-1.5 ${typography.label} text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 focus:outline-none focus:ring-2 focus:ring-gray-400 transition-colors`}
+                >
+                  Keep both
+                </button>
+                <button
+                  type="button"
+                  onClick={() => onResolve(conflict.id, 'theirs')}
+                  className={`px-3 py-1.5 ${typography.label} text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 focus:outline-none focus:ring-2 focus:ring-gray-400 transition-colors`}
+                >
+                  Keep theirs
+                </button>
+                <button
+                  type="button"
+                  onClick={() => onResolve(conflict.id, 'mine')}
+                  className={`px-3 py-1.5 ${typography.label} text-white bg-warning-500 hover:bg-warning-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-warning-500 transition-colors`}
+                >
+                  Keep mine
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+
+        <div className="flex justify-end">
+          <button
+            type="button"
+            onClick={onClose}
+            className={`px-4 py-2 ${typography.label} text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 focus:outline-none focus:ring-2 focus:ring-gray-400 transition-colors`}
+          >
+            Decide later
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -4,16 +4,25 @@
  * Features:
  * - Shows current scenario name (or "Unsaved scenario")
  * - Dropdown with all scenarios (sorted by most recently updated)
- * - Actions: Save, Duplicate, Rename, Delete
+ * - Actions: Save, Duplicate, Version history, Audit trail (auditTrail flag),
+ *   Pre-mortem (premortem flag), Rename, Delete
  * - Dirty indicator (unsaved changes)
+ * - Cloud sync status and conflict resolution (scenarioSync flag)
  * - Keyboard accessible (Tab, Enter, Escape)
  */
 
 import { useState, useCallback, useRef, useEffect } from 'react'
-import { Save, Copy, Edit2, Trash2, ChevronDown, Folder, AlertCircle, Download, Upload } from 'lucide-react'
+import { Save, Copy, Edit2, Trash2, ChevronDown, Folder, AlertCircle, AlertTriangle, Download, Upload, GitBranch, History, ShieldAlert } from 'lucide-react'
 import { useCanvasStore } from '../store'
 import { loadScenarios, getScenario, type Scenario, importScenarioFromFile } from '../store/scenarios'
+import { flushScenarioRecords } from '../store/scenarioRecords'
 import { SaveStatusPill } from './SaveStatusPill'
+import { ScenarioConflictDialog } from './ScenarioConflictDialog'
+import { useScenarioSync } from '../hooks/useScenarioSync'
+import { VersionHistoryPanel } from '../versions/VersionHistoryPanel'
+import { useAuditTrailStore } from '../audit/trail'
+import { usePremortemStore } from '../premortem/session'
+import { isAuditTrailEnabled, isPremortemEnabled } from '../../flags'
 import { exportScenario } from '../export/exportScenario'
 import { useToast } from '../ToastContext'
 import { typography } from '../../styles/typography'
@@ -37,9 +46,12 @@ export function ScenarioSwitcher() {
   const [showSaveDialog, setShowSaveDialog] = useState(false)
   const [showRenameDialog, setShowRenameDialog] = useState(false)
   const [inputValue, setInputValue] = useState('')
+  const [showConflicts, setShowConflicts] = useState(false)
+  const [showVersions, setShowVersions] = useState(false)
   const dropdownRef = useRef<HTMLDivElement>(null)
   const fileInputRef = useRef<HTMLInputElement>(null)
   const { showToast } = useToast()
+  const { status: syncStatus, conflicts, resolveConflict } = useScenarioSync()
 
   const currentScenario = currentScenarioId ? getScenario(currentScenarioId) : null
 
@@ -139,11 +151,15 @@ export function ScenarioSwitcher() {
   }, [isDirty, loadScenario])
 
   const handleExport = useCallback(() => {
-    if (currentScenarioId && currentScenario) {
-      exportScenario(currentScenario)
+    if (!currentScenarioId) return
+    // Include record edits that haven't been written yet
+    flushScenarioRecords()
+    const scenario = getScenario(currentScenarioId)
+    if (scenario) {
+      exportScenario(scenario)
       setIsOpen(false)
     }
-  }, [currentScenarioId, currentScenario])
+  }, [currentScenarioId])
 
   const handleImport = useCallback(() => {
     // Warn if there are unsaved changes
@@ -203,6 +219,8 @@ export function ScenarioSwitcher() {
           <SaveStatusPill
             isSaving={isSaving}
             lastSavedAt={lastSavedAt}
+            syncStatus={syncStatus}
+            onConflictClick={() => setShowConflicts(true)}
           />
           <ChevronDown className="w-4 h-4 text-gray-400" />
         </button>
@@ -213,6 +231,23 @@ export function ScenarioSwitcher() {
             className="absolute bottom-full left-0 mb-1 w-72 bg-white border border-gray-200 rounded-lg shadow-panel z-50"
             role="menu"
           >
+            {conflicts.length > 0 && (
+              <div className="p-2 border-b border-gray-200">
+                <button
+                  onClick={() => {
+                    setShowConflicts(true)
+                    setIsOpen(false)
+                  }}
+                  className={`w-full flex items-center gap-2 px-3 py-2 ${typography.body} text-warning-700 hover:bg-warning-50 rounded transition-colors`}
+                  type="button"
+                  role="menuitem"
+                >
+                  <AlertTriangle className="w-4 h-4" />
+                  Resolve sync conflicts ({conflicts.length})
+                </button>
+              </div>
+            )}
+
             {/* Current scenario actions */}
             <div className="p-2 border-b border-gray-200">
               <div className="flex flex-col gap-1">
@@ -247,6 +282,46 @@ export function ScenarioSwitcher() {
                       >
                         <Copy className="w-4 h-4" />
                       </button>
+                      <button
+                        onClick={() => {
+                          setShowVersions(true)
+                          setIsOpen(false)
+                        }}
+                        className={`px-3 py-2 ${typography.body} text-gray-700 hover:bg-gray-100 rounded transition-colors`}
+                        type="button"
+                        role="menuitem"
+                        title="Version history"
+                      >
+                        <GitBranch className="w-4 h-4" />
+                      </button>
+                      {isAuditTrailEnabled() && (
+                        <button
+                          onClick={() => {
+                            useAuditTrailStore.getState().openPanel()
+                            setIsOpen(false)
+                          }}
+                          className={`px-3 py-2 ${typography.body} text-gray-700 hover:bg-gray-100 rounded transition-colors`}
+                          type="button"
+                          role="menuitem"
+                          title="Audit trail"
+                        >
+                          <History className="w-4 h-4" />
+                        </button>
+                      )}
+                      {isPremortemEnabled() && (
+                        <button
+                          onClick={() => {
+                            usePremortemStore.getState().openPanel()
+                            setIsOpen(false)
+                          }}
+                          className={`px-3 py-2 ${typography.body} text-gray-700 hover:bg-gray-100 rounded transition-colors`}
+                          type="button"
+                          role="menuitem"
+                          title="Pre-mortem"
+                        >
+                          <ShieldAlert className="w-4 h-4" />
+                        </button>
+                      )}
                       <button
                         onClick={handleRename}
                         className={`px-3 py-2 ${typography.body} text-gray-700 hover:bg-gray-100 rounded transition-colors`}
@@ -457,6 +532,26 @@ export function ScenarioSwitcher() {
           </div>
         </div>
       )}
+
+      {/* Branching version history */}
+      {showVersions && currentScenarioId && (
+        <VersionHistoryPanel
+          scenarioId={currentScenarioId}
+          scenarioName={currentScenario?.name || 'Untitled scenario'}
+          onClose={() => setShowVersions(false)}
+        />
+      )}
+
+      {/* Cloud sync conflicts */}
+      {showConflicts && conflicts.length > 0 && (
+        <ScenarioConflictDialog
+          conflicts={conflicts}
+          onResolve={(id, resolution) => {
+            void resolveConflict(id, resolution).then(refreshScenarios)
+          }}
+          onClose={() => setShowConflicts(false)}
+        />
+      )}
     </>
   )
 }
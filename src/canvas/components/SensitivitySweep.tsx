@@ -0,0 +1,147 @@
+/**
+ * SensitivitySweep - One-way sensitivity analysis for the Results tab
+ *
+ * Varies every edge weight/belief and node prior/utility across the chosen
+ * range (one at a time) and shows the p50 swing per parameter as a tornado
+ * chart. Clicking a bar highlights and focuses that element on the canvas.
+ *
+ * Replaces the manual workflow of nudging one edge at a time in EdgeInspector.
+ */
+
+import { useState, useCallback } from 'react'
+import { ChevronDown, ChevronRight, Wind, RefreshCw } from 'lucide-react'
+import { useCanvasStore } from '../store'
+import { useSensitivitySweep } from '../hooks/useSensitivitySweep'
+import { focusNodeById, focusEdgeById } from '../utils/focusHelpers'
+import { SWEEP_RANGES, type TornadoBar } from '../utils/sensitivitySweep'
+import { typography } from '../../styles/typography'
+import { TornadoChart } from './TornadoChart'
+
+const MAX_COLLAPSED_BARS = 8
+
+export function SensitivitySweep() {
+  const [isExpanded, setIsExpanded] = useState(false)
+  const [showAll, setShowAll] = useState(false)
+  const [selectedKey, setSelectedKey] = useState<string | null>(null)
+  const setHighlightedNodes = useCanvasStore(s => s.setHighlightedNodes)
+  const { status, range, result, source, error, setRange, run } = useSensitivitySweep()
+
+  const handleSelect = useCallback(
+    (bar: TornadoBar) => {
+      const { parameter } = bar
+      setSelectedKey(parameter.key)
+      setHighlightedNodes(parameter.nodeIds)
+      if (parameter.elementKind === 'edge') {
+        focusEdgeById(parameter.elementId)
+      } else {
+        focusNodeById(parameter.elementId)
+      }
+    },
+    [setHighlightedNodes]
+  )
+
+  const isRunning = status === 'running'
+  const bars = result?.bars ?? []
+  const visibleBars = showAll ? bars : bars.slice(0, MAX_COLLAPSED_BARS)
+
+  return (
+    <div className="bg-paper-50 border border-sand-200 rounded-xl overflow-hidden" data-testid="sensitivity-sweep">
+      <button
+        type="button"
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="w-full px-4 py-3 flex items-center justify-between hover:bg-sand-50 transition-colors"
+        aria-expanded={isExpanded}
+      >
+        <div className="flex items-center gap-3">
+          {isExpanded ? (
+            <ChevronDown className="h-4 w-4 text-ink-500" />
+          ) : (
+            <ChevronRight className="h-4 w-4 text-ink-500" />
+          )}
+          <span className={`${typography.body} font-medium text-ink-800`}>Sensitivity</span>
+        </div>
+        {result && (
+          <span className={`${typography.caption} text-ink-500`}>
+            {bars.length} parameter{bars.length !== 1 ? 's' : ''}
+          </span>
+        )}
+      </button>
+
+      {isExpanded && (
+        <div className="border-t border-sand-200 px-4 py-3 space-y-3">
+          <div className="flex items-center gap-2">
+            <label className={`${typography.caption} text-ink-600`} htmlFor="sensitivity-range">
+              Vary each parameter by
+            </label>
+            <select
+              id="sensitivity-range"
+              value={range}
+              onChange={(e) => setRange(Number(e.target.value))}
+              disabled={isRunning}
+              className={`${typography.caption} border border-sand-300 rounded px-1.5 py-0.5 bg-paper-50`}
+              data-testid="sensitivity-range"
+            >
+              {SWEEP_RANGES.map(r => (
+                <option key={r} value={r}>±{r.toFixed(1)}</option>
+              ))}
+            </select>
+            <button
+              type="button"
+              onClick={() => void run()}
+              disabled={isRunning}
+              className={`ml-auto flex items-center gap-1.5 px-2.5 py-1 rounded ${typography.caption} font-medium transition-colors ${
+                isRunning
+                  ? 'bg-sand-200 text-ink-500 cursor-not-allowed'
+                  : 'bg-sky-500 text-white hover:bg-sky-600'
+              }`}
+              data-testid="sensitivity-run"
+            >
+              {isRunning ? (
+                <RefreshCw className="h-3.5 w-3.5 animate-spin" aria-hidden="true" />
+              ) : (
+                <Wind className="h-3.5 w-3.5" aria-hidden="true" />
+              )}
+              {isRunning ? 'Sweeping…' : result ? 'Re-run sweep' : 'Run sweep'}
+            </button>
+          </div>
+
+          {error && (
+            <p className={`${typography.caption} text-carrot-700`} role="alert">
+              {error}
+            </p>
+          )}
+
+          {result && bars.length === 0 && (
+            <p className={`${typography.caption} text-ink-500`}>
+              No parameters to vary — add edges or node priors first.
+            </p>
+          )}
+
+          {result && bars.length > 0 && (
+            <>
+              <p className={`${typography.caption} text-ink-500`}>
+                p50 swing around baseline {result.baselineP50.toFixed(2)}
+                {source === 'local' && ' · computed locally (engine offline)'}
+              </p>
+              <TornadoChart
+                bars={visibleBars}
+                baselineP50={result.baselineP50}
+                selectedKey={selectedKey}
+                onSelect={handleSelect}
+              />
+              {bars.length > MAX_COLLAPSED_BARS && (
+                <button
+                  type="button"
+                  onClick={() => setShowAll(!showAll)}
+                  className={`${typography.caption} text-sky-700 hover:underline`}
+                >
+                  {showAll ? 'Show fewer' : `Show all ${bars.length}`}
+                </button>
+              )}
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -1,7 +1,23 @@
-import { useState } from 'react'
+import { useEffect, useState } from 'react'
 import { useSettingsStore } from '../settingsStore'
+import { getStorageStatus, storageUsage, type StorageUsageEntry } from '../persist/storage'
+import { getStorageQuota } from '../persist/versionedStorage'
+import { useChangeSetReviewStore } from '../changesets/reviewStore'
+import type { StorageQuota } from '../persist/types'
 import { typography } from '../../styles/typography'
 
+const BACKEND_LABELS = {
+  indexeddb: 'IndexedDB',
+  memory: 'In-memory',
+  localStorage: 'localStorage',
+} as const
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
+
 export function SettingsPanel() {
   const [isOpen, setIsOpen] = useState(false)
   const {
@@ -16,6 +32,21 @@ export function SettingsPanel() {
     setShowAlignmentGuides,
     setHighContrastMode,
   } = useSettingsStore()
+  const [usage, setUsage] = useState<StorageUsageEntry[]>([])
+  const [quota, setQuota] = useState<StorageQuota | null>(null)
+
+  // Measure storage each time the panel opens
+  useEffect(() => {
+    if (!isOpen) return
+    let cancelled = false
+    setUsage(storageUsage())
+    getStorageQuota().then(q => {
+      if (!cancelled) setQuota(q)
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [isOpen])
 
   if (!isOpen) {
     return (
@@ -114,6 +145,46 @@ export function SettingsPanel() {
             className="w-4 h-4 text-primary rounded focus:ring-primary"
           />
         </label>
+
+        {/* Storage */}
+        <section className="pt-4 border-t border-gray-200" aria-label="Storage usage" data-testid="settings-storage">
+          <div className="flex items-center justify-between mb-2">
+            <span className={`${typography.label} text-gray-700`}>Storage</span>
+            <span className={`${typography.caption} text-gray-500`}>{BACKEND_LABELS[getStorageStatus().backend]}</span>
+          </div>
+          <ul className="space-y-1">
+            {usage.map(entry => (
+              <li key={entry.category} className={`flex justify-between ${typography.caption} text-gray-600`}>
+                <span>
+                  {entry.label}
+                  {entry.category === 'suggestions' && entry.keys > 0 && (
+                    <button
+                      type="button"
+                      onClick={() => {
+                        useChangeSetReviewStore.getState().resetRejected()
+                        setUsage(storageUsage())
+                      }}
+                      className="ml-2 text-info-700 hover:underline"
+                    >
+                      Suggest them again
+                    </button>
+                  )}
+                </span>
+                <span>{formatBytes(entry.bytes)}</span>
+              </li>
+            ))}
+          </ul>
+          {quota?.available && (
+            <p className={`${typography.caption} text-gray-500 mt-2`}>
+              {formatBytes(quota.used)} of {formatBytes(quota.total)} used by this site
+            </p>
+          )}
+          {getStorageStatus().error && (
+            <p className={`${typography.caption} text-warning-700 mt-2`}>
+              {getStorageStatus().readOnly ? "Saved data couldn't be loaded" : 'Using localStorage'}: {getStorageStatus().error}
+            </p>
+          )}
+        </section>
       </div>
     </div>
   )
@@ -4,6 +4,7 @@ import { useCanvasStore } from '../store'
 import { useToast } from '../ToastContext'
 import { BottomSheet } from './BottomSheet'
 import { typography } from '../../styles/typography'
+import { canvasStorage } from '../persist/storage'
 
 interface SnapshotManagerProps {
   isOpen: boolean
@@ -32,7 +33,7 @@ export function SnapshotManager({ isOpen, onClose }: SnapshotManagerProps) {
     const rawSnapshots = listSnapshots()
     const items = rawSnapshots.map(s => {
       const data = loadSnapshot(s.key)
-      const storedName = localStorage.getItem(`${s.key}-name`) || 'Untitled Snapshot'
+      const storedName = canvasStorage.getItem(`${s.key}-name`) || 'Untitled Snapshot'
       return {
         key: s.key,
         name: storedName,
@@ -80,7 +81,7 @@ export function SnapshotManager({ isOpen, onClose }: SnapshotManagerProps) {
   const handleDelete = (key: string) => {
     if (confirm('Delete this snapshot?')) {
       deleteSnapshot(key)
-      localStorage.removeItem(`${key}-name`)
+      canvasStorage.removeItem(`${key}-name`)
       refreshSnapshots()
     }
   }
@@ -94,7 +95,7 @@ export function SnapshotManager({ isOpen, onClose }: SnapshotManagerProps) {
   const handleRenameCommit = (key: string) => {
     const trimmed = editName.trim()
     if (trimmed) {
-      localStorage.setItem(`${key}-name`, trimmed.slice(0, 50))
+      canvasStorage.setItem(`${key}-name`, trimmed.slice(0, 50))
       refreshSnapshots()
     }
     setEditingKey(null)
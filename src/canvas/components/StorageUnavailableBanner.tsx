@@ -0,0 +1,54 @@
+import { useEffect, useState } from 'react'
+import { AlertTriangle } from 'lucide-react'
+import { getStorageStatus, onExternalChange } from '../persist/storage'
+import { typography } from '../../styles/typography'
+
+/**
+ * Shown while saved canvas data sits in a database that didn't load: nothing
+ * can be saved until it does. Storage keeps retrying; once it succeeds the
+ * canvas needs a reload to show the saved data.
+ */
+export function StorageUnavailableBanner() {
+  const [unavailable, setUnavailable] = useState(() => getStorageStatus().readOnly === true)
+  const [recovered, setRecovered] = useState(false)
+
+  useEffect(() => {
+    if (!unavailable) return
+    return onExternalChange(key => {
+      if (key === null && !getStorageStatus().readOnly) {
+        setUnavailable(false)
+        setRecovered(true)
+      }
+    })
+  }, [unavailable])
+
+  if (!unavailable && !recovered) return null
+
+  return (
+    <div className="fixed top-16 left-1/2 -translate-x-1/2 z-[1050] w-full max-w-2xl px-4" data-testid="banner-storage-unavailable">
+      <div
+        className="flex items-start gap-3 px-4 py-3 rounded-lg border border-warning-200 bg-warning-50 text-warning-800 shadow-sm"
+        role="alert"
+      >
+        <AlertTriangle className="w-4 h-4 mt-0.5" aria-hidden="true" />
+        <div className={typography.body}>
+          <p className="font-medium">
+            {recovered ? 'Your saved work is available again.' : "Your saved work couldn't be loaded."}
+          </p>
+          <p className={`mt-1 ${typography.caption} text-warning-900/80`}>
+            {recovered
+              ? 'Reload to see it and carry on saving.'
+              : `Changes can't be saved until it loads; we'll keep trying. (${getStorageStatus().error})`}
+          </p>
+          <button
+            type="button"
+            onClick={() => window.location.reload()}
+            className={`mt-2 inline-flex items-center px-2 py-1 rounded border border-warning-300 ${typography.caption} font-medium text-warning-900 hover:bg-warning-100`}
+          >
+            Reload
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,76 @@
+/**
+ * TornadoChart - One-way sensitivity bars around the baseline p50
+ *
+ * Each row spans the p50 reached at the low and high end of one parameter's
+ * range. The left segment (below baseline) is carrot, the right (above) mint.
+ * Rows are clickable so the caller can focus the element on the canvas.
+ */
+
+import { typography } from '../../styles/typography'
+import type { TornadoBar } from '../utils/sensitivitySweep'
+
+interface TornadoChartProps {
+  bars: TornadoBar[]
+  baselineP50: number
+  selectedKey?: string | null
+  onSelect?: (bar: TornadoBar) => void
+}
+
+const formatValue = (value: number): string => value.toFixed(2)
+
+export function TornadoChart({ bars, baselineP50, selectedKey, onSelect }: TornadoChartProps) {
+  const maxDeviation = Math.max(
+    1e-9,
+    ...bars.flatMap(bar => [Math.abs(bar.lowP50 - baselineP50), Math.abs(bar.highP50 - baselineP50)])
+  )
+  // Map a p50 onto 0-100% with the baseline in the middle
+  const toPct = (value: number) => 50 + ((value - baselineP50) / maxDeviation) * 50
+
+  return (
+    <div className="space-y-1" role="list" data-testid="tornado-chart">
+      {bars.map(bar => {
+        const lo = Math.min(bar.lowP50, bar.highP50)
+        const hi = Math.max(bar.lowP50, bar.highP50)
+        const left = toPct(Math.min(lo, baselineP50))
+        const mid = toPct(baselineP50)
+        const right = toPct(Math.max(hi, baselineP50))
+        const isSelected = selectedKey === bar.parameter.key
+        const { parameter } = bar
+
+        return (
+          <button
+            key={parameter.key}
+            type="button"
+            role="listitem"
+            onClick={() => onSelect?.(bar)}
+            className={`w-full text-left px-2 py-1 rounded transition-colors ${
+              isSelected ? 'bg-sky-50 ring-1 ring-sky-300' : 'hover:bg-sand-50'
+            }`}
+            title={`${parameter.label}: ${formatValue(parameter.low)} → p50 ${formatValue(bar.lowP50)}, ${formatValue(parameter.high)} → p50 ${formatValue(bar.highP50)}`}
+            data-testid="tornado-bar"
+          >
+            <div className={`flex items-center justify-between gap-2 ${typography.caption}`}>
+              <span className="text-ink-800 truncate">{parameter.label}</span>
+              <span className="text-ink-500 flex-shrink-0 font-mono">±{formatValue(bar.swing / 2)}</span>
+            </div>
+            <div className="relative h-2 mt-1 bg-sand-100 rounded-full" aria-hidden="true">
+              {mid > left && (
+                <div
+                  className="absolute inset-y-0 bg-carrot-400 rounded-l-full"
+                  style={{ left: `${left}%`, width: `${mid - left}%` }}
+                />
+              )}
+              {right > mid && (
+                <div
+                  className="absolute inset-y-0 bg-mint-500 rounded-r-full"
+                  style={{ left: `${mid}%`, width: `${right - mid}%` }}
+                />
+              )}
+              <div className="absolute inset-y-0 left-1/2 w-px bg-ink-900/40" />
+            </div>
+          </button>
+        )
+      })}
+    </div>
+  )
+}
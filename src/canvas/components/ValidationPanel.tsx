@@ -6,6 +6,7 @@
  * - Clickable node/edge references
  * - Suggested fixes with action buttons
  * - Collapsible sections (expanded when blockers exist)
+ * - Stale evidence queue: edges whose evidence has expired, to re-review
  *
  * Design System:
  * - Background: paper-50 (#FEF9F3)
@@ -25,6 +26,7 @@ import {
   X,
   Loader2,
   CheckCircle,
+  Clock,
 } from 'lucide-react'
 import { typography } from '../../styles/typography'
 import { focusNodeById, focusEdgeById } from '../utils/focusHelpers'
@@ -47,10 +49,19 @@ export interface AutoFixState {
   error: Set<string>
 }
 
+export interface StaleEvidenceItem {
+  edgeId: string
+  label: string // e.g. "Competitor entry → Margin"
+  reason: string // e.g. "Evidence is 200 days old"
+}
+
 interface ValidationPanelProps {
   critique: CritiqueItem[]
   onAutoFix?: (item: CritiqueItem) => Promise<boolean>
   onDismiss?: (item: CritiqueItem) => void
+  /** Edges whose evidence is stale, oldest first */
+  staleEvidence?: StaleEvidenceItem[]
+  onMarkReviewed?: (edgeId: string) => void
 }
 
 // Severity configuration - neutral backgrounds, semantic colors for text/icons only
@@ -106,7 +117,13 @@ function getItemKey(item: CritiqueItem): string {
   return `${code}|${nodeId}|${edgeId}`
 }
 
-export function ValidationPanel({ critique, onAutoFix, onDismiss }: ValidationPanelProps) {
+export function ValidationPanel({
+  critique,
+  onAutoFix,
+  onDismiss,
+  staleEvidence = [],
+  onMarkReviewed,
+}: ValidationPanelProps) {
   // Group by severity
   const grouped = useMemo(() => groupBySeverity(critique), [critique])
   const hasBlockers = grouped.blocker.length > 0
@@ -118,6 +135,7 @@ export function ValidationPanel({ critique, onAutoFix, onDismiss }: ValidationPa
     if (grouped.warning.length > 0 && !hasBlockers) initial.add('warning')
     return initial
   })
+  const [staleExpanded, setStaleExpanded] = useState(() => critique.length === 0)
 
   // Dismissed items (session-only) - keyed by unique item key, not just code
   const [dismissedKeys, setDismissedKeys] = useState<Set<string>>(new Set())
@@ -204,7 +222,7 @@ export function ValidationPanel({ critique, onAutoFix, onDismiss }: ValidationPa
   const visibleGrouped = useMemo(() => groupBySeverity(visibleCritique), [visibleCritique])
 
   // Don't render if no visible items
-  if (visibleCritique.length === 0) {
+  if (visibleCritique.length === 0 && staleEvidence.length === 0) {
     return null
   }
 
@@ -276,6 +294,67 @@ export function ValidationPanel({ critique, onAutoFix, onDismiss }: ValidationPa
           </div>
         )
       })}
+
+      {/* Stale evidence queue */}
+      {staleEvidence.length > 0 && (
+        <div className="border-b border-sand-200 last:border-b-0" data-testid="stale-evidence-queue">
+          <button
+            type="button"
+            onClick={() => setStaleExpanded(prev => !prev)}
+            className="w-full flex items-center gap-3 p-4 hover:bg-sand-100/50 transition-colors bg-paper-50"
+            aria-expanded={staleExpanded}
+          >
+            <div className="flex items-center justify-center w-8 h-8 rounded-full bg-paper-50">
+              <Clock className="w-5 h-5 text-amber-600" aria-hidden="true" />
+            </div>
+            <div className="flex-1 text-left">
+              <span className={`${typography.label} text-amber-700`}>Stale evidence</span>
+              <span className={`${typography.caption} text-ink-500 ml-2`}>(review due)</span>
+            </div>
+            <span className={`${typography.label} text-amber-700`}>{staleEvidence.length}</span>
+            {staleExpanded ? (
+              <ChevronUp className="w-4 h-4 text-ink-500" aria-hidden="true" />
+            ) : (
+              <ChevronDown className="w-4 h-4 text-ink-500" aria-hidden="true" />
+            )}
+          </button>
+
+          {staleExpanded && (
+            <div className="p-4 pt-0 space-y-3">
+              {staleEvidence.map(item => (
+                <div
+                  key={item.edgeId}
+                  className="rounded-lg border-l-4 border-sand-200 bg-white p-3 shadow-sm"
+                  data-testid="stale-evidence-item"
+                >
+                  <div className={`${typography.body} text-ink-900`}>{item.label}</div>
+                  <div className={`${typography.caption} text-ink-600 mt-1`}>{item.reason}</div>
+                  <div className="flex items-center gap-2 mt-3">
+                    <button
+                      type="button"
+                      onClick={() => handleEdgeClick(item.edgeId)}
+                      className="inline-flex items-center gap-1 text-sky-600 hover:text-sky-700 hover:underline"
+                    >
+                      <ExternalLink className="w-3 h-3" aria-hidden="true" />
+                      <span className={typography.caption}>View on canvas</span>
+                    </button>
+                    {onMarkReviewed && (
+                      <button
+                        type="button"
+                        onClick={() => onMarkReviewed(item.edgeId)}
+                        className="inline-flex items-center gap-1 px-3 py-1.5 rounded-full border border-sand-300 text-ink-600 text-xs font-medium hover:bg-sand-100 transition-colors"
+                      >
+                        <CheckCircle className="w-3 h-3" aria-hidden="true" />
+                        Mark reviewed
+                      </button>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
     </div>
   )
 }
@@ -6,6 +6,9 @@ import { typography } from '../../styles/typography'
 import { Spinner } from '../../components/Spinner'
 import type { ISLValidationSuggestion } from '../../adapters/isl/types'
 import { buildRichGraphPayload } from '../utils/graphPayload'
+import { changeSetFromQuickFix } from '../changesets/changeSet'
+import { useChangeSetReviewStore } from '../changesets/reviewStore'
+import { useToast } from '../ToastContext'
 
 /**
  * Simple hash of graph structure for change detection
@@ -229,6 +232,7 @@ const getSeverityClasses = (severity: 'error' | 'warning' | 'info') => {
 
 function SuggestionCard({ suggestion }: SuggestionCardProps) {
   const [isHighlighting, setIsHighlighting] = useState(false)
+  const { showToast } = useToast()
 
   const iconMap = {
     error: AlertCircle,
@@ -248,16 +252,24 @@ function SuggestionCard({ suggestion }: SuggestionCardProps) {
     }
   }
 
+  // Quick fixes are proposed as a change-set; nothing changes until the user applies it
   const handleQuickFix = () => {
     if (!suggestion.quickFix) return
-    if (import.meta.env.DEV) {
-      console.log('Quick fix:', suggestion.quickFix)
+    const { nodes, edges, createNodeId, createEdgeId } = useCanvasStore.getState()
+    const changeSet = changeSetFromQuickFix(suggestion, { nodes, edges }, { node: createNodeId, edge: createEdgeId })
+    if (!changeSet) {
+      if (import.meta.env.DEV) {
+        console.warn('Quick fix not applicable:', suggestion.quickFix)
+      }
+      return
+    }
+    const review = useChangeSetReviewStore.getState()
+    if (!review.propose(changeSet)) {
+      showToast('You dismissed this suggestion earlier.', 'info', {
+        label: 'Show it again',
+        onClick: () => useChangeSetReviewStore.getState().restore(changeSet),
+      })
     }
-    // TODO: Implement quick fix actions
-    // - add_edge: Create edge between nodes
-    // - add_node: Create new node
-    // - update_data: Update node data
-    // - remove_node: Remove node
   }
 
   return (
@@ -1,7 +1,9 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
 import { render, screen, fireEvent, cleanup, waitFor } from '@testing-library/react'
 import { CommandPalette } from '../CommandPalette'
+import { useDocumentTextStore } from '../../documents/textStore'
 import { __resetTelemetryCounters, __getTelemetryCounters } from '../../../lib/telemetry'
+import { useCommentThreadsStore } from '../../comments/threads'
 
 vi.mock('@xyflow/react', () => ({
   useReactFlow: () => ({
@@ -23,8 +25,10 @@ const baseState: any = {
   selectAll: mockSelectAll,
   saveSnapshot: mockSaveSnapshot,
   applyLayout: mockApplyLayout,
+  setShowProvenanceHub: vi.fn(),
   nodes: [],
   edges: [],
+  documents: [],
 }
 
 vi.mock('../../store', () => ({
@@ -135,4 +139,47 @@ describe('CommandPalette DOM - Rich Node Types', () => {
     expect(counters['sandbox.run.clicked']).toBe(1)
     expect(counters['sandbox.run.blocked']).toBe(0)
   })
+
+  it('filters to open challenges and opens the discussion for the chosen one', async () => {
+    localStorage.setItem('feature.comments', '1')
+    baseState.currentScenarioId = 's1'
+    baseState.nodes = [{ id: '3', data: { label: 'Hiring cost' } }]
+    useCommentThreadsStore.setState({ threads: [], readAt: {}, panel: null })
+    const author = { id: 'u1', name: 'Ada' }
+    const { startThread, resolveThread } = useCommentThreadsStore.getState()
+    startThread({ scenarioId: 's1', anchor: { kind: 'node', id: '3' }, label: 'Challenge', author, text: 'Too optimistic' })
+    startThread({ scenarioId: 's1', anchor: { kind: 'node', id: '3' }, label: 'Evidence', author, text: 'Survey data' })
+    const resolved = startThread({ scenarioId: 's1', anchor: { kind: 'node', id: '3' }, label: 'Challenge', author, text: 'Old worry' })!
+    resolveThread(resolved.id, author)
+
+    try {
+      render(<CommandPalette isOpen onClose={vi.fn()} />)
+
+      fireEvent.click(screen.getByRole('button', { name: 'Open challenges (1)' }))
+      expect(screen.queryByText('Add Factor Node')).not.toBeInTheDocument()
+      fireEvent.click(screen.getByText('Hiring cost: Too optimistic'))
+
+      expect(useCommentThreadsStore.getState().panel).toEqual({ mode: 'anchor', anchor: { kind: 'node', id: '3' } })
+    } finally {
+      localStorage.removeItem('feature.comments')
+      delete baseState.currentScenarioId
+    }
+  })
+
+  it('lists matching document passages and opens them in the Provenance Hub', async () => {
+    baseState.documents = [{ id: 'doc-1', name: 'Market report.pdf' }]
+    useDocumentTextStore.getState().indexDocument('doc-1', 'Competitor entry in the North will pressure margins next year.')
+
+    try {
+      render(<CommandPalette isOpen onClose={vi.fn()} />)
+      fireEvent.change(screen.getByPlaceholderText('Search actions...'), { target: { value: 'competitor margins' } })
+      fireEvent.click(await screen.findByText(/^Market report\.pdf: “Competitor entry/))
+
+      expect(baseState.setShowProvenanceHub).toHaveBeenCalledWith(true)
+      expect(useDocumentTextStore.getState().pendingQuery).toBe('competitor margins')
+    } finally {
+      useDocumentTextStore.getState().removeDocument('doc-1')
+      baseState.documents = []
+    }
+  })
 })
@@ -25,6 +25,26 @@ describe('EvidenceFreshnessBadge', () => {
   })
 
   describe('freshness level calculation', () => {
+    it('takes its level and last update from an evidence_freshness summary', () => {
+      const freshness = {
+        overall_quality: 'AGING' as const,
+        edge_freshness: [
+          { edge_id: 'e1', quality: 'AGING' as const, last_updated: new Date(NOW - 40 * 24 * 60 * 60 * 1000).toISOString() },
+          { edge_id: 'e2', quality: 'FRESH' as const, last_updated: new Date(NOW - 3 * 24 * 60 * 60 * 1000).toISOString() },
+        ],
+        stale_count: 0,
+        fresh_count: 1,
+        aging_count: 1,
+        unknown_count: 0,
+      }
+      const { rerender } = render(<EvidenceFreshnessBadge freshness={freshness} />)
+      expect(screen.getByText('Aging')).toBeInTheDocument()
+      expect(screen.getByText('(3d ago)')).toBeInTheDocument()
+
+      rerender(<EvidenceFreshnessBadge freshness={{ ...freshness, overall_quality: 'UNKNOWN' }} />)
+      expect(screen.queryByTestId('evidence-freshness-badge')).not.toBeInTheDocument()
+    })
+
     it('shows "fresh" for updates within 24 hours with neutral background', () => {
       const recentDate = new Date(NOW - 2 * 60 * 60 * 1000) // 2 hours ago
       render(<EvidenceFreshnessBadge lastUpdated={recentDate} />)
@@ -0,0 +1,67 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { render, screen, fireEvent, cleanup, waitFor } from '@testing-library/react'
+import { ImportExportDialog } from '../ImportExportDialog'
+import { ToastProvider } from '../../ToastContext'
+import { useCanvasStore } from '../../store'
+
+// jsdom's File has no text()
+function textFile(text: string, name: string): File {
+  return Object.assign(new File([text], name), { text: async () => text })
+}
+
+function chooseFiles(files: File[]) {
+  const input = screen.getByTestId('import-file-input')
+  Object.defineProperty(input, 'files', { value: files, configurable: true })
+  fireEvent.change(input)
+}
+
+describe('ImportExportDialog interchange import', () => {
+  beforeEach(() => {
+    useCanvasStore.setState({
+      nodes: [{ id: 'old', type: 'decision', position: { x: 0, y: 0 }, data: { label: 'Existing' } }],
+      edges: [],
+    })
+  })
+
+  afterEach(() => {
+    cleanup()
+  })
+
+  it('previews and checks a Mermaid file before importing it', async () => {
+    render(
+      <ToastProvider>
+        <ImportExportDialog isOpen onClose={() => {}} mode="import" />
+      </ToastProvider>
+    )
+
+    const text = 'flowchart LR\n  a{Launch?} --> b((Revenue))\n  c[Orphan]'
+    chooseFiles([textFile(text, 'sketch.mmd')])
+
+    const preview = await screen.findByTestId('import-preview')
+    expect(preview.textContent).toContain('Preview: 3 nodes, 1 edges')
+    expect(screen.getByTestId('import-graph-issues').textContent).toContain('"Orphan" has no connections')
+
+    // Nothing has touched the canvas yet
+    expect(useCanvasStore.getState().nodes.map(n => n.id)).toEqual(['old'])
+
+    fireEvent.click(screen.getByText('Import As-Is'))
+    await waitFor(() => {
+      expect(useCanvasStore.getState().nodes.map(n => n.id)).toEqual(['a', 'b', 'c'])
+    })
+    expect(useCanvasStore.getState().nodes[0].type).toBe('decision')
+  })
+
+  it('blocks import when the file cannot be read', async () => {
+    render(
+      <ToastProvider>
+        <ImportExportDialog isOpen onClose={() => {}} mode="import" />
+      </ToastProvider>
+    )
+
+    chooseFiles([textFile('<graphml><graph>', 'broken.graphml')])
+
+    expect(await screen.findByText('GraphML file is not well-formed XML')).toBeTruthy()
+    expect(screen.queryByTestId('import-preview')).toBeNull()
+    expect((screen.getByText('Import As-Is') as HTMLButtonElement).disabled).toBe(true)
+  })
+})
@@ -1,7 +1,8 @@
-import { describe, it, expect } from 'vitest'
+import { describe, it, expect, vi } from 'vitest'
 import { render, screen, fireEvent } from '@testing-library/react'
 import { InsightsPanel, InsightsSummaryCompact } from '../InsightsPanel'
 import type { Insights } from '../../../types/plot'
+import type { ValueOfInformation } from '../../../adapters/plot/local/valueOfInformation'
 
 const mockFullInsights: Insights = {
   summary:
@@ -29,7 +30,58 @@ const mockRisksOnlyInsights: Insights = {
   next_steps: [],
 }
 
+const mockValueOfInformation: ValueOfInformation = {
+  evpi: 0.034,
+  incumbentOptionId: 'budget',
+  options: [
+    { nodeId: 'budget', label: 'Budget', expected: 0.53 },
+    { nodeId: 'premium', label: 'Premium', expected: 0.52 },
+  ],
+  factors: [
+    { nodeId: 'churn', label: 'Churn risk', kind: 'risk', evppi: 0.031, shareOfEvpi: 0.91 },
+    { nodeId: 'noise', label: 'Seasonality', kind: 'factor', evppi: 0, shareOfEvpi: 0 },
+  ],
+  samples: 2000,
+}
+
 describe('InsightsPanel', () => {
+  describe('Worth investigating', () => {
+    it('lists factors with positive EVPPI and the decision EVPI', () => {
+      render(<InsightsPanel insights={mockMinimalInsights} valueOfInformation={mockValueOfInformation} />)
+
+      expect(screen.getByTestId('evpi-value')).toHaveTextContent('+3.4 pts')
+      const items = screen.getAllByTestId('worth-investigating-item')
+      expect(items).toHaveLength(1)
+      expect(items[0]).toHaveTextContent('Churn risk')
+      expect(items[0]).toHaveTextContent('+3.1 pts')
+    })
+
+    it('links to the Key Factors overlay', () => {
+      const onShowKeyFactors = vi.fn()
+      render(
+        <InsightsPanel
+          insights={mockMinimalInsights}
+          valueOfInformation={mockValueOfInformation}
+          onShowKeyFactors={onShowKeyFactors}
+        />
+      )
+
+      fireEvent.click(screen.getByTestId('worth-investigating-show-on-canvas'))
+      expect(onShowKeyFactors).toHaveBeenCalledTimes(1)
+    })
+
+    it('stays hidden when information has no value', () => {
+      render(
+        <InsightsPanel
+          insights={mockMinimalInsights}
+          valueOfInformation={{ ...mockValueOfInformation, evpi: 0, factors: [] }}
+        />
+      )
+
+      expect(screen.queryByTestId('worth-investigating')).not.toBeInTheDocument()
+    })
+  })
+
   describe('Summary display', () => {
     it('renders the summary text', () => {
       render(<InsightsPanel insights={mockFullInsights} />)
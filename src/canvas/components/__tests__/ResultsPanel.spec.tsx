@@ -449,6 +449,41 @@ describe('ResultsPanel', () => {
     })
   })
 
+  describe('Interim Results', () => {
+    const interim = {
+      samples: 800,
+      target_samples: 2000,
+      bands: { p10: 0.3, p50: 0.5, p90: 0.7 },
+      histogram: { min: 0, max: 1, counts: [1, 4, 9, 4, 1] },
+      units: 'percent' as const,
+    }
+
+    it('shows the converging estimate and sample count while streaming', () => {
+      useCanvasStore.getState().resultsStart({ seed: 1337 })
+      useCanvasStore.getState().resultsInterim(interim)
+      renderWithProviders(<ResultsPanel isOpen={true} onClose={vi.fn()} />)
+
+      expect(screen.getByTestId('interim-histogram')).toBeInTheDocument()
+      expect(screen.getByTestId('interim-samples')).toHaveTextContent('800 of 2,000 samples')
+      expect(screen.getByTestId('interim-bands')).toHaveTextContent('50%')
+      expect(screen.queryByTestId('interim-partial-badge')).not.toBeInTheDocument()
+    })
+
+    it('keeps the estimate marked partial after stopping early', () => {
+      useCanvasStore.getState().resultsStart({ seed: 1337 })
+      useCanvasStore.getState().resultsInterim(interim)
+      const onStopEarly = vi.fn(() => useCanvasStore.getState().resultsStoppedEarly())
+      renderWithProviders(<ResultsPanel isOpen={true} onClose={vi.fn()} onStopEarly={onStopEarly} />)
+
+      fireEvent.click(screen.getByTestId('interim-stop-early'))
+
+      expect(onStopEarly).toHaveBeenCalledTimes(1)
+      expect(screen.getByTestId('interim-partial-badge')).toHaveTextContent('Partial estimate')
+      expect(screen.getByText('Analysis stopped early')).toBeInTheDocument()
+      expect(screen.queryByTestId('interim-stop-early')).not.toBeInTheDocument()
+    })
+  })
+
   describe('Keyboard Navigation', () => {
     it('calls onClose when close button clicked', () => {
       const onClose = vi.fn()
@@ -3,7 +3,7 @@
  */
 
 import { describe, it, expect, vi } from 'vitest'
-import { render, screen } from '@testing-library/react'
+import { render, screen, fireEvent } from '@testing-library/react'
 import { SaveStatusPill } from '../SaveStatusPill'
 
 describe('SaveStatusPill (P0-2)', () => {
@@ -54,4 +54,28 @@ describe('SaveStatusPill (P0-2)', () => {
     const statusElement = screen.getByRole('status')
     expect(statusElement).toHaveAttribute('aria-live', 'polite')
   })
+
+  describe('cloud sync states', () => {
+    it('shows synced once the save reaches the cloud', () => {
+      render(<SaveStatusPill isSaving={false} lastSavedAt={Date.now() - 5000} syncStatus="synced" />)
+
+      expect(screen.getByTestId('save-status-synced')).toHaveTextContent('Synced just now')
+    })
+
+    it('shows pending while offline or waiting to sync', () => {
+      const { rerender } = render(<SaveStatusPill isSaving={false} lastSavedAt={Date.now()} syncStatus="pending" />)
+      expect(screen.getByTestId('save-status-pending')).toHaveTextContent('Waiting to sync')
+
+      rerender(<SaveStatusPill isSaving={false} lastSavedAt={Date.now()} syncStatus="offline" />)
+      expect(screen.getByTestId('save-status-pending')).toHaveTextContent('Offline · saved on this device')
+    })
+
+    it('opens the conflict dialog from the conflict state', () => {
+      const onConflictClick = vi.fn()
+      render(<SaveStatusPill isSaving={false} lastSavedAt={Date.now()} syncStatus="conflict" onConflictClick={onConflictClick} />)
+
+      fireEvent.click(screen.getByTestId('save-status-conflict'))
+      expect(onConflictClick).toHaveBeenCalledTimes(1)
+    })
+  })
 })
@@ -444,4 +444,26 @@ describe('ValidationPanel', () => {
       expect(screen.getByText('View on canvas')).toBeInTheDocument()
     })
   })
+
+  describe('stale evidence queue', () => {
+    const stale = [{ edgeId: 'e1', label: 'Competitor entry → Margin', reason: 'Evidence is 200 days old' }]
+
+    it('lists stale edges even without critique, and marks them reviewed', () => {
+      const onMarkReviewed = vi.fn()
+      render(<ValidationPanel critique={[]} staleEvidence={stale} onMarkReviewed={onMarkReviewed} />)
+
+      expect(screen.getByText('Stale evidence')).toBeInTheDocument()
+      expect(screen.getByText('Evidence is 200 days old')).toBeInTheDocument()
+      fireEvent.click(screen.getByRole('button', { name: /Mark reviewed/ }))
+      expect(onMarkReviewed).toHaveBeenCalledWith('e1')
+    })
+
+    it('starts collapsed alongside critique', () => {
+      const critique: CritiqueItem[] = [{ level: 'warning', message: 'Low evidence coverage', code: 'LOW_EVIDENCE' }]
+      render(<ValidationPanel critique={critique} staleEvidence={stale} />)
+
+      expect(screen.getByRole('button', { name: /Stale evidence/ })).toHaveAttribute('aria-expanded', 'false')
+      expect(screen.queryByTestId('stale-evidence-item')).not.toBeInTheDocument()
+    })
+  })
 })
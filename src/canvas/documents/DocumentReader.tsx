@@ -0,0 +1,270 @@
+/**
+ * Document Reader: read a document in full and cite passages
+ *
+ * Select text, then attach it to the selected edge (or node) as supporting
+ * or contradicting evidence, optionally rated for strength. Existing
+ * citations are highlighted by stance; a focused passage (from "Jump to
+ * passage") is highlighted and scrolled into view.
+ */
+
+import { useEffect, useMemo, useRef, useState } from 'react'
+import { ArrowLeft, Link2 } from 'lucide-react'
+import type { Citation, CitationStance, Document } from '../share/types'
+import { useCanvasStore } from '../store'
+import { useDocumentTextStore } from './textStore'
+import { useDocumentReaderStore, type PassageFocus } from './readerStore'
+import { citationStance } from './citations'
+import { typography } from '../../styles/typography'
+
+const MAX_SNIPPET_CHARS = 500
+
+const STRENGTH_OPTIONS: Array<{ value: string; label: string }> = [
+  { value: '', label: 'Unrated' },
+  { value: '0.3', label: 'Weak' },
+  { value: '0.6', label: 'Moderate' },
+  { value: '0.9', label: 'Strong' },
+]
+
+interface TextSelection extends PassageFocus {
+  text: string
+}
+
+interface Segment {
+  start: number
+  end: number
+  stance?: CitationStance
+  focused: boolean
+}
+
+interface DocumentReaderProps {
+  document: Document
+  onBack: () => void
+}
+
+/** Split the text at citation and focus boundaries so each run renders with one style */
+function segmentText(length: number, citations: Citation[], focus: PassageFocus | null): Segment[] {
+  const ranges = citations
+    .filter(c => typeof c.charOffset === 'number' && (c.charLength ?? 0) > 0)
+    .map(c => ({ start: c.charOffset!, end: c.charOffset! + c.charLength!, stance: citationStance(c) }))
+  const focusRange = focus && focus.charLength > 0 ? { start: focus.charOffset, end: focus.charOffset + focus.charLength } : null
+
+  const cuts = new Set([0, length])
+  for (const r of ranges) cuts.add(Math.min(r.start, length)).add(Math.min(r.end, length))
+  if (focusRange) cuts.add(Math.min(focusRange.start, length)).add(Math.min(focusRange.end, length))
+  const points = [...cuts].sort((a, b) => a - b)
+
+  const segments: Segment[] = []
+  for (let i = 0; i < points.length - 1; i++) {
+    const start = points[i]
+    const end = points[i + 1]
+    if (start === end) continue
+    const covering = ranges.filter(r => r.start <= start && r.end >= end)
+    // Contradicting evidence wins where passages overlap: it's the one to notice
+    const stance = covering.some(r => r.stance === 'contradicts') ? 'contradicts' : covering[0]?.stance
+    const focused = !!focusRange && focusRange.start <= start && focusRange.end >= end
+    segments.push({ start, end, stance, focused })
+  }
+  return segments
+}
+
+/** The selection's character range within the container's text, if it lies inside it */
+function readSelection(container: HTMLElement): TextSelection | null {
+  const selection = window.getSelection()
+  if (!selection || selection.rangeCount === 0 || selection.isCollapsed) return null
+  const range = selection.getRangeAt(0)
+  if (!container.contains(range.startContainer) || !container.contains(range.endContainer)) return null
+
+  const before = window.document.createRange()
+  before.selectNodeContents(container)
+  before.setEnd(range.startContainer, range.startOffset)
+  const text = range.toString()
+  if (!text.trim()) return null
+  return { charOffset: before.toString().length, charLength: text.length, text }
+}
+
+function useCitationTarget() {
+  const selection = useCanvasStore(s => s.selection)
+  const nodes = useCanvasStore(s => s.nodes)
+  const edges = useCanvasStore(s => s.edges)
+
+  return useMemo(() => {
+    const labelOf = (id: string) => {
+      const label = nodes.find(n => n.id === id)?.data?.label
+      return typeof label === 'string' && label ? label : id
+    }
+    if (selection.edgeIds.size === 1) {
+      const [edgeId] = selection.edgeIds
+      const edge = edges.find(e => e.id === edgeId)
+      if (edge) {
+        return { nodeId: edge.target, edgeId: edge.id, label: `${labelOf(edge.source)} → ${labelOf(edge.target)}` }
+      }
+    }
+    if (selection.nodeIds.size === 1 && selection.edgeIds.size === 0) {
+      const [nodeId] = selection.nodeIds
+      if (nodes.some(n => n.id === nodeId)) return { nodeId, edgeId: undefined, label: labelOf(nodeId) }
+    }
+    return null
+  }, [selection, nodes, edges])
+}
+
+export function DocumentReader({ document, onBack }: DocumentReaderProps) {
+  const textVersion = useDocumentTextStore(s => s.version)
+  const fullText = useDocumentTextStore(s => s.fullText)
+  const focus = useDocumentReaderStore(s => s.focus)
+  const allCitations = useCanvasStore(s => s.citations)
+  const addCitation = useCanvasStore(s => s.addCitation)
+  const target = useCitationTarget()
+
+  const [selected, setSelected] = useState<TextSelection | null>(null)
+  const [stance, setStance] = useState<CitationStance>('supports')
+  const [strength, setStrength] = useState('')
+  const [status, setStatus] = useState<string | null>(null)
+  const textRef = useRef<HTMLDivElement>(null)
+  const focusRef = useRef<HTMLElement | null>(null)
+
+  const text = useMemo(
+    () => fullText(document.id) || document.content || '',
+    // textVersion: the index changes in place as documents are added or removed
+    [fullText, document.id, document.content, textVersion]
+  )
+  const citations = useMemo(() => allCitations.filter(c => c.documentId === document.id), [allCitations, document.id])
+  const segments = useMemo(() => segmentText(text.length, citations, focus), [text.length, citations, focus])
+
+  useEffect(() => {
+    focusRef.current?.scrollIntoView?.({ block: 'center' })
+  }, [focus, document.id])
+
+  const handleSelect = () => {
+    if (!textRef.current) return
+    const next = readSelection(textRef.current)
+    setSelected(next)
+    if (next) setStatus(null)
+  }
+
+  const handleAttach = () => {
+    if (!selected || !target) return
+    addCitation({
+      nodeId: target.nodeId,
+      edgeId: target.edgeId,
+      documentId: document.id,
+      snippet: selected.text.trim().replace(/\s+/g, ' ').slice(0, MAX_SNIPPET_CHARS),
+      charOffset: selected.charOffset,
+      charLength: selected.charLength,
+      stance,
+      strength: strength ? Number(strength) : undefined,
+    })
+    setStatus(`Cited as ${stance === 'supports' ? 'supporting' : 'contradicting'} evidence on ${target.label}`)
+    setSelected(null)
+    window.getSelection()?.removeAllRanges()
+  }
+
+  let focusAssigned = false
+
+  return (
+    <div className="flex flex-col h-full min-h-0" data-testid="document-reader">
+      <div className="flex items-center gap-2 mb-3">
+        <button
+          type="button"
+          onClick={onBack}
+          className="p-1 hover:bg-gray-100 rounded"
+          aria-label="Back to documents"
+        >
+          <ArrowLeft className="w-4 h-4 text-gray-600" />
+        </button>
+        <div className={`${typography.label} text-gray-900 truncate`} title={document.name}>
+          {document.name}
+        </div>
+        {citations.length > 0 && (
+          <span className={`ml-auto ${typography.caption} text-gray-600`}>
+            {citations.length} citation{citations.length !== 1 ? 's' : ''}
+          </span>
+        )}
+      </div>
+
+      <div
+        ref={textRef}
+        onMouseUp={handleSelect}
+        onKeyUp={handleSelect}
+        className={`flex-1 min-h-0 overflow-y-auto bg-gray-50 rounded border border-gray-200 p-3 ${typography.body} text-gray-800 whitespace-pre-wrap`}
+        data-testid="document-reader-text"
+      >
+        {segments.map(segment => {
+          const run = text.slice(segment.start, segment.end)
+          if (!segment.stance && !segment.focused) return <span key={segment.start}>{run}</span>
+          const isFirstFocused = segment.focused && !focusAssigned
+          if (isFirstFocused) focusAssigned = true
+          const colour = segment.focused
+            ? 'bg-info-100 ring-1 ring-info-400'
+            : segment.stance === 'contradicts' ? 'bg-danger-100' : 'bg-success-100'
+          return (
+            <mark
+              key={segment.start}
+              ref={isFirstFocused ? el => { focusRef.current = el } : undefined}
+              className={`${colour} text-inherit rounded-sm`}
+              data-stance={segment.stance}
+              data-focused={segment.focused || undefined}
+            >
+              {run}
+            </mark>
+          )
+        })}
+      </div>
+
+      <div className="mt-3 space-y-2 border-t border-gray-200 pt-3" data-testid="document-reader-cite">
+        <div className={`${typography.caption} text-gray-600`}>
+          {target ? (
+            <>Cite on <span className="font-medium text-gray-900">{target.label}</span></>
+          ) : (
+            'Select one edge or node on the canvas to cite evidence on it'
+          )}
+        </div>
+        <div className="flex items-center gap-2">
+          <div className="inline-flex rounded border border-gray-200 overflow-hidden" role="group" aria-label="Stance">
+            {(['supports', 'contradicts'] as const).map(option => (
+              <button
+                key={option}
+                type="button"
+                onClick={() => setStance(option)}
+                aria-pressed={stance === option}
+                className={`px-2 py-1 ${typography.caption} ${
+                  stance === option
+                    ? option === 'supports' ? 'bg-success-100 text-success-800' : 'bg-danger-100 text-danger-800'
+                    : 'bg-white text-gray-700 hover:bg-gray-50'
+                }`}
+              >
+                {option === 'supports' ? 'Supports' : 'Contradicts'}
+              </button>
+            ))}
+          </div>
+          <select
+            value={strength}
+            onChange={e => setStrength(e.target.value)}
+            aria-label="Evidence strength"
+            className={`px-2 py-1 border border-gray-200 rounded ${typography.caption}`}
+          >
+            {STRENGTH_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+          <button
+            type="button"
+            onClick={handleAttach}
+            disabled={!selected || !target}
+            className={`ml-auto inline-flex items-center gap-1 px-3 py-1 rounded bg-info-500 text-white hover:bg-info-600 disabled:opacity-50 disabled:cursor-not-allowed ${typography.button}`}
+          >
+            <Link2 className="w-3 h-3" />
+            Attach
+          </button>
+        </div>
+        {!selected && !status && (
+          <div className={`${typography.caption} text-gray-500`}>Select a passage above to cite it</div>
+        )}
+        {status && (
+          <div className={`${typography.caption} text-success-700`} role="status">
+            {status}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
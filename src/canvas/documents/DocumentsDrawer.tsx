@@ -1,10 +1,14 @@
 /**
  * N3: Documents Drawer with Preview
  * Cmd/Ctrl+D to toggle
+ * Opening a document shows it in the reader, where passages can be cited.
  */
 
-import { X, FileText } from 'lucide-react'
+import { X, FileText, BookOpen } from 'lucide-react'
 import type { Document } from '../share/types'
+import { DocumentReader } from './DocumentReader'
+import { MAX_DOCUMENT_BYTES } from './extract'
+import { useDocumentReaderStore } from './readerStore'
 import { typography } from '../../styles/typography'
 
 interface DocumentsDrawerProps {
@@ -13,12 +17,17 @@ interface DocumentsDrawerProps {
   onClose: () => void
 }
 
-const MAX_FILE_SIZE = 1024 * 1024 // 1 MB
 const MAX_CHARS_PER_FILE = 5000
 
 export function DocumentsDrawer({ documents, isOpen, onClose }: DocumentsDrawerProps) {
+  const readingId = useDocumentReaderStore(s => s.documentId)
+  const openDocument = useDocumentReaderStore(s => s.openDocument)
+  const showList = useDocumentReaderStore(s => s.showList)
+
   if (!isOpen) return null
 
+  const reading = readingId ? documents.find(doc => doc.id === readingId) : undefined
+
   return (
     <div className="fixed inset-y-0 right-0 w-96 bg-white border-l border-gray-200 shadow-panel z-50 flex flex-col">
       <div className="px-4 py-3 border-b border-gray-200 flex items-center justify-between">
@@ -32,22 +41,28 @@ export function DocumentsDrawer({ documents, isOpen, onClose }: DocumentsDrawerP
         </button>
       </div>
 
-      <div className="flex-1 overflow-y-auto p-4 space-y-3">
-        {documents.length === 0 ? (
-          <div className={`text-center py-8 ${typography.body} text-gray-500`}>
-            No documents uploaded
-          </div>
-        ) : (
-          documents.map((doc, idx) => (
-            <DocumentPreview key={idx} document={doc} />
-          ))
-        )}
-      </div>
+      {reading ? (
+        <div className="flex-1 min-h-0 p-4">
+          <DocumentReader document={reading} onBack={showList} />
+        </div>
+      ) : (
+        <div className="flex-1 overflow-y-auto p-4 space-y-3">
+          {documents.length === 0 ? (
+            <div className={`text-center py-8 ${typography.body} text-gray-500`}>
+              No documents uploaded
+            </div>
+          ) : (
+            documents.map((doc, idx) => (
+              <DocumentPreview key={idx} document={doc} onRead={() => openDocument(doc.id)} />
+            ))
+          )}
+        </div>
+      )}
     </div>
   )
 }
 
-function DocumentPreview({ document }: { document: Document }) {
+function DocumentPreview({ document, onRead }: { document: Document; onRead: () => void }) {
   const anyDoc = document as any
   const displayName = anyDoc.name || anyDoc.filename || 'Untitled'
   const content: string =
@@ -60,7 +75,7 @@ function DocumentPreview({ document }: { document: Document }) {
   const lines = truncated.split('\n')
   const isTruncated = content.length > MAX_CHARS_PER_FILE
   const size = (anyDoc.size as number | undefined) ?? document.size ?? document.displayBytes
-  const isOversized = typeof size === 'number' && size > MAX_FILE_SIZE
+  const isOversized = typeof size === 'number' && size > MAX_DOCUMENT_BYTES
 
   return (
     <div className="border border-gray-200 rounded-lg p-3">
@@ -81,11 +96,22 @@ function DocumentPreview({ document }: { document: Document }) {
             )}
           </div>
         </div>
+        {document.id && (
+          <button
+            type="button"
+            onClick={onRead}
+            className="p-1 hover:bg-gray-100 rounded"
+            title="Read & cite"
+            aria-label={`Read ${displayName}`}
+          >
+            <BookOpen className="w-4 h-4 text-gray-600" />
+          </button>
+        )}
       </div>
 
       {isOversized && (
         <div className={`mb-2 px-2 py-1.5 bg-danger-50 border border-danger-200 rounded ${typography.caption} text-danger-700`}>
-          File exceeds 1 MB limit
+          File exceeds {formatFileSize(MAX_DOCUMENT_BYTES)} limit
         </div>
       )}
 
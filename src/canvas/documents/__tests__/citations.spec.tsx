@@ -0,0 +1,82 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { render, screen, fireEvent } from '@testing-library/react'
+import { useCanvasStore } from '../../store'
+import { citationsFor, suggestedBelief, tallyCitations } from '../citations'
+import { DocumentsDrawer } from '../DocumentsDrawer'
+import { useDocumentReaderStore } from '../readerStore'
+
+describe('citation evidence', () => {
+  it('tallies stances, treating unmarked citations as supporting', () => {
+    expect(tallyCitations([{ stance: 'supports' }, {}, { stance: 'contradicts' }])).toEqual({ supports: 2, contradicts: 1 })
+  })
+
+  it('separates edge citations from the node citations of their target', () => {
+    const base = { documentId: 'd1', snippet: 's', createdAt: new Date() }
+    const citations = [
+      { ...base, id: 'c1', nodeId: 'n2', edgeId: 'e1' },
+      { ...base, id: 'c2', nodeId: 'n2' },
+    ]
+    expect(citationsFor(citations, { kind: 'edge', id: 'e1' }).map(c => c.id)).toEqual(['c1'])
+    expect(citationsFor(citations, { kind: 'node', id: 'n2' }).map(c => c.id)).toEqual(['c2'])
+  })
+
+  it('suggests a belief from rated citations only', () => {
+    expect(suggestedBelief([{ stance: 'supports' }])).toBeNull()
+    expect(suggestedBelief([{ stance: 'supports', strength: 1 }])).toBe(0.75)
+    expect(suggestedBelief([{ stance: 'supports', strength: 0.9 }, { stance: 'contradicts', strength: 0.9 }])).toBe(0.5)
+    expect(suggestedBelief(Array.from({ length: 6 }, () => ({ stance: 'contradicts' as const, strength: 1 })))).toBe(0.05)
+  })
+})
+
+describe('DocumentReader', () => {
+  const text = 'Competitor entry is expected next year. Margins will come under pressure.'
+
+  beforeEach(() => {
+    useCanvasStore.setState({
+      documents: [],
+      citations: [],
+      nodes: [
+        { id: 'n1', type: 'factor', position: { x: 0, y: 0 }, data: { label: 'Competitor entry' } },
+        { id: 'n2', type: 'outcome', position: { x: 0, y: 0 }, data: { label: 'Margin' } },
+      ],
+      edges: [{ id: 'e1', source: 'n1', target: 'n2', data: {} }] as any,
+      selection: { nodeIds: new Set(), edgeIds: new Set(['e1']), anchorPosition: null } as any,
+    })
+    useDocumentReaderStore.getState().close()
+  })
+
+  it('attaches the selected passage to the selected edge', () => {
+    const documentId = useCanvasStore.getState().addDocument({ name: 'board-paper.txt', type: 'txt', content: text })
+    useDocumentReaderStore.getState().openDocument(documentId)
+    render(<DocumentsDrawer documents={useCanvasStore.getState().documents} isOpen onClose={() => {}} />)
+
+    expect(screen.getByText('Competitor entry → Margin')).toBeInTheDocument()
+
+    const textNode = screen.getByTestId('document-reader-text').firstChild!.firstChild!
+    const range = document.createRange()
+    range.setStart(textNode, 40)
+    range.setEnd(textNode, 73)
+    window.getSelection()!.removeAllRanges()
+    window.getSelection()!.addRange(range)
+    fireEvent.mouseUp(screen.getByTestId('document-reader-text'))
+
+    fireEvent.click(screen.getByRole('button', { name: 'Contradicts' }))
+    fireEvent.change(screen.getByLabelText('Evidence strength'), { target: { value: '0.6' } })
+    fireEvent.click(screen.getByRole('button', { name: /Attach/ }))
+
+    expect(useCanvasStore.getState().citations).toEqual([
+      expect.objectContaining({
+        nodeId: 'n2',
+        edgeId: 'e1',
+        documentId,
+        snippet: 'Margins will come under pressure.',
+        charOffset: 40,
+        charLength: 33,
+        stance: 'contradicts',
+        strength: 0.6,
+      }),
+    ])
+    expect(screen.getByRole('status')).toHaveTextContent('contradicting evidence on Competitor entry → Margin')
+    expect(screen.getByText('Margins will come under pressure.').closest('mark')).toHaveAttribute('data-stance', 'contradicts')
+  })
+})
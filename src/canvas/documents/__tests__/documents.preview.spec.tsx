@@ -54,11 +54,11 @@ describe('Documents Preview', () => {
       id: 'd3',
       filename: 'big.pdf',
       content: '',
-      size: 2 * 1024 * 1024 // 2 MB
+      size: 21 * 1024 * 1024 // 21 MB
     }
 
     render(<DocumentsDrawer documents={[oversized] as any} isOpen={true} onClose={vi.fn()} />)
 
-    expect(screen.getByText(/File exceeds 1 MB limit/)).toBeInTheDocument()
+    expect(screen.getByText(/File exceeds 20.0 MB limit/)).toBeInTheDocument()
   })
 })
@@ -0,0 +1,206 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { deflate, deflateRaw } from 'pako'
+import { useCanvasStore } from '../../store'
+import { pdfToText } from '../pdf'
+import { docxToText, readZipEntry } from '../docx'
+import { createInflater, InflateLimitError } from '../inflate'
+import { csvToText, extractDocumentText, markdownToText, DocumentExtractionError, MAX_DOCUMENT_BYTES } from '../extract'
+import { chunkText, joinChunks, CHUNK_CHARS } from '../textIndex'
+import { useDocumentTextStore } from '../textStore'
+
+const ascii = (text: string) => Uint8Array.from(text, ch => ch.charCodeAt(0))
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0))
+  let offset = 0
+  for (const part of parts) {
+    out.set(part, offset)
+    offset += part.length
+  }
+  return out
+}
+
+function stream(num: number, data: Uint8Array, filter = ''): Uint8Array {
+  return concat([ascii(`${num} 0 obj\n<< /Length ${data.length}${filter} >>\nstream\n`), data, ascii('\nendstream\nendobj\n')])
+}
+
+// Two pages listed out of file order; the second uses a 2-byte font with a ToUnicode CMap
+function samplePdf(): Uint8Array {
+  const cmap = 'begincmap\n1 begincodespacerange <0000> <FFFF> endcodespacerange\n' +
+    '3 beginbfchar <0001> <0052> <0002> <0069> <0005> <006B> endbfchar\n1 beginbfrange <0003> <0004> <0073> endbfrange\nendcmap'
+  return concat([
+    ascii('%PDF-1.4\n'),
+    ascii('1 0 obj\n<< /Type /Catalog /Pages 2 0 R >>\nendobj\n'),
+    ascii('2 0 obj\n<< /Type /Pages /Kids [4 0 R 3 0 R] /Count 2 >>\nendobj\n'),
+    ascii('3 0 obj\n<< /Type /Page /Parent 2 0 R /Contents 5 0 R /Resources << /Font << /F2 7 0 R >> >> >>\nendobj\n'),
+    ascii('4 0 obj\n<< /Type /Page /Parent 2 0 R /Contents 6 0 R >>\nendobj\n'),
+    stream(5, deflate(ascii('BT /F2 10 Tf 72 700 Td <00010002000300050003> Tj ET')), ' /Filter /FlateDecode'),
+    stream(6, ascii('BT /F1 12 Tf 72 720 Td (Board paper: pricing \\(draft\\)) Tj 0 -14 Td [(Compet) 20 (itor) -300 (entry)] TJ ET')),
+    ascii('7 0 obj\n<< /Type /Font /Subtype /Type0 /ToUnicode 8 0 R >>\nendobj\n'),
+    stream(8, deflate(ascii(cmap)), ' /Filter /FlateDecode'),
+    ascii('trailer\n<< /Root 1 0 R >>\n%%EOF'),
+  ])
+}
+
+// PDF 1.5 layout: the page tree and fonts live in a compressed object stream and the
+// file ends in a cross-reference stream. Both pages call their font "F1", but each
+// page's F1 has its own ToUnicode map; the first page's is a Type0 font with none.
+function objectStreamPdf(): Uint8Array {
+  const packed = [
+    [1, '<</Type/Catalog/Pages 2 0 R>>'],
+    [2, '<</Type/Pages/Kids[3 0 R 4 0 R]/Count 2>>'],
+    [3, '<</Type/Page/Parent 2 0 R/Resources<</Font<</F1 7 0 R/F2 8 0 R>>>>/Contents 5 0 R>>'],
+    [4, '<</Type/Page/Parent 2 0 R/Resources 9 0 R/Contents 6 0 R>>'],
+    [7, '<</Type/Font/Subtype/Type1/BaseFont/Helvetica>>'],
+    [8, '<</Type/Font/Subtype/Type0/Encoding/Identity-H>>'],
+    [9, '<</Font<</F1 10 0 R>>>>'],
+    [10, '<</Type/Font/Subtype/Type0/ToUnicode 11 0 R>>'],
+  ] as const
+  let offsets = ''
+  let body = ''
+  for (const [num, dict] of packed) {
+    offsets += `${num} ${body.length} `
+    body += `${dict}\n`
+  }
+  const cmap = 'begincmap\n1 begincodespacerange <0000> <FFFF> endcodespacerange\n1 beginbfrange <0001> <0003> <0061> endbfrange\nendcmap'
+
+  return concat([
+    ascii('%PDF-1.5\n'),
+    stream(12, deflate(ascii(offsets + body)), `/Type/ObjStm/N ${packed.length}/First ${offsets.length}/Filter/FlateDecode`),
+    stream(5, deflate(ascii('BT /F1 12 Tf 72 720 Td [(Object)-250(streams)] TJ /F2 12 Tf <0102> Tj ET')), '/Filter/FlateDecode'),
+    stream(6, deflate(ascii('BT /F1 12 Tf 72 720 Td <000100020003> Tj ET')), '/Filter/FlateDecode'),
+    stream(11, deflate(ascii(cmap)), '/Filter/FlateDecode'),
+    stream(13, deflate(new Uint8Array(24)), '/Type/XRef/Size 14/W[1 2 1]/Root 1 0 R/Filter/FlateDecode'),
+    ascii('startxref\n0\n%%EOF'),
+  ])
+}
+
+// A one-entry zip archive holding word/document.xml
+function sampleDocx(xml: string): Uint8Array {
+  const name = ascii('word/document.xml')
+  const data = deflateRaw(new TextEncoder().encode(xml))
+  const local = new DataView(new ArrayBuffer(30))
+  local.setUint32(0, 0x04034b50, true)
+  local.setUint16(8, 8, true)
+  local.setUint32(18, data.length, true)
+  local.setUint16(26, name.length, true)
+  const central = new DataView(new ArrayBuffer(46))
+  central.setUint32(0, 0x02014b50, true)
+  central.setUint16(10, 8, true)
+  central.setUint32(20, data.length, true)
+  central.setUint16(28, name.length, true)
+  const centralOffset = 30 + name.length + data.length
+  const end = new DataView(new ArrayBuffer(22))
+  end.setUint32(0, 0x06054b50, true)
+  end.setUint16(10, 1, true)
+  end.setUint32(16, centralOffset, true)
+  return concat([new Uint8Array(local.buffer), name, data, new Uint8Array(central.buffer), name, new Uint8Array(end.buffer)])
+}
+
+describe('document text extraction', () => {
+  it('reads PDF pages in page-tree order, decoding ToUnicode fonts', () => {
+    expect(pdfToText(samplePdf())).toBe('Board paper: pricing (draft)\nCompetitor entry\n\nRisks')
+    expect(pdfToText(ascii('not a pdf'))).toBe('')
+  })
+
+  it('reads PDFs whose pages and fonts are packed into object streams', () => {
+    expect(pdfToText(objectStreamPdf())).toBe('Object streams\n\nabc')
+  })
+
+  it('reads DOCX paragraphs, tabs and entities', () => {
+    const xml = '<w:document><w:body>' +
+      '<w:p><w:pPr><w:tabs><w:tab w:val="left" w:pos="720"/></w:tabs></w:pPr><w:r><w:t>Market</w:t></w:r><w:r><w:t xml:space="preserve"> size &amp; share</w:t></w:r></w:p>' +
+      '<w:p><w:r><w:t>UK</w:t><w:tab/><w:t>£4.2bn</w:t></w:r></w:p>' +
+      '</w:body></w:document>'
+    expect(docxToText(sampleDocx(xml))).toBe('Market size & share\nUK\t£4.2bn')
+  })
+
+  it('stops inflating past the output ceiling and ignores truncated archives', () => {
+    const bomb = sampleDocx(`<w:t>${'a'.repeat(64 * 1024)}</w:t>`)
+    expect(bomb.length).toBeLessThan(1024)
+    expect(() => readZipEntry(bomb, 'word/document.xml', createInflater(16 * 1024))).toThrow(InflateLimitError)
+    expect(readZipEntry(bomb, 'word/document.xml', createInflater(128 * 1024))?.length).toBe(64 * 1024 + 11)
+
+    // Central directory pointing past the end of the file
+    const truncated = bomb.slice()
+    new DataView(truncated.buffer).setUint32(truncated.length - 6, truncated.length, true)
+    expect(docxToText(truncated)).toBe('')
+    expect(docxToText(bomb.subarray(0, bomb.length - 40))).toBe('')
+  })
+
+  it('replaces invalid character references and reports unreadable files', async () => {
+    expect(docxToText(sampleDocx('<w:t>a&#x110000;b&#xD800;c&#65;</w:t>'))).toBe('a\ufffdb\ufffdcA')
+
+    // Deflate entry with corrupt data
+    const docx = sampleDocx('<w:t>hello</w:t>')
+    docx.fill(0xff, 30 + 'word/document.xml'.length, 30 + 'word/document.xml'.length + 4)
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {})
+    await expect(extractDocumentText(new File([docx.buffer as ArrayBuffer], 'report.docx'))).rejects.toThrow(
+      "This file couldn't be read. It may be damaged or not a valid Word document."
+    )
+    error.mockRestore()
+  })
+
+  it('flattens Markdown and labels CSV values with their columns', () => {
+    expect(markdownToText('# Findings\n\n- **Churn** rose, see [report](http://x)\n')).toBe('Findings\n\nChurn rose, see report')
+    expect(csvToText('Region,Revenue\nNorth,"1,200"\nSouth,\n')).toBe('Region, Revenue\nRegion: North; Revenue: 1,200\nRegion: South')
+  })
+
+  it('rejects unsupported files and PDFs without a text layer', async () => {
+    await expect(extractDocumentText(new File(['x'], 'deck.pptx'))).rejects.toBeInstanceOf(DocumentExtractionError)
+    await expect(extractDocumentText(new File([ascii('%PDF-1.4\n%%EOF')], 'scan.pdf'))).rejects.toThrow('No extractable text')
+
+    // Too large: refused before the file is read
+    const large = new File(['%PDF-1.4'], 'large.pdf')
+    Object.defineProperty(large, 'size', { value: MAX_DOCUMENT_BYTES + 1 })
+    await expect(extractDocumentText(large)).rejects.toThrow('too large to ingest')
+  })
+})
+
+describe('full-text index', () => {
+  const report = [
+    'Executive summary. Our pricing review covers three regions.',
+    'Competitor entry in the North is expected next year and will pressure margins.',
+    'x'.repeat(CHUNK_CHARS),
+    'Customer churn is concentrated among small accounts; retention offers cut churn by a fifth.',
+  ].join('\n\n')
+
+  beforeEach(() => {
+    useCanvasStore.setState({ documents: [], citations: [] })
+  })
+
+  it('chunks at boundaries with overlap and reassembles the full text', () => {
+    const chunks = chunkText('d1', report)
+    expect(chunks.length).toBeGreaterThan(1)
+    expect(chunks.every(c => c.text.length <= CHUNK_CHARS)).toBe(true)
+    expect(chunks.map(c => report.startsWith(c.text, c.charOffset))).not.toContain(false)
+    expect(joinChunks(chunks)).toBe(report)
+  })
+
+  it('ranks passages, highlights matches and completes the last word as a prefix', () => {
+    const id = useCanvasStore.getState().addDocument({ name: 'report.txt', type: 'txt', content: report })
+    const notes = useCanvasStore.getState().addDocument({ name: 'notes.md', type: 'md', content: 'Churn was discussed briefly.' })
+    const { search, fullText } = useDocumentTextStore.getState()
+
+    const [best] = search('small account churn')
+    expect(best.chunk.documentId).toBe(id)
+    expect(report.slice(best.snippetOffset, best.snippetOffset + best.snippet.length)).toBe(best.snippet)
+    expect(best.highlights.map(([s, e]) => best.snippet.slice(s, e))).toEqual(['churn', 'small', 'accounts', 'churn'])
+
+    expect(search('compet')[0].snippet).toContain('Competitor entry')
+    expect(search('churn', { documentId: notes }).map(h => h.chunk.documentId)).toEqual([notes])
+    expect(fullText(id)).toBe(report)
+
+    useCanvasStore.getState().removeDocument(id)
+    expect(search('churn').map(h => h.chunk.documentId)).toEqual([notes])
+  })
+
+  it('dedupes re-uploads by checksum', () => {
+    const { addDocument } = useCanvasStore.getState()
+    const first = addDocument({ name: 'board-paper.txt', type: 'txt', content: report })
+    const again = addDocument({ name: 'board-paper (1).txt', type: 'txt', content: report })
+
+    expect(again).toBe(first)
+    expect(useCanvasStore.getState().documents).toHaveLength(1)
+  })
+})
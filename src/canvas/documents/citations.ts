@@ -0,0 +1,57 @@
+/**
+ * Citations: document passages attached to nodes and edges
+ *
+ * A citation supports or contradicts the claim a node or edge makes. Rated
+ * citations (with a strength) combine into a suggested belief: each one
+ * moves the log-odds from an even prior towards or away from the claim.
+ */
+
+import type { Citation, CitationStance } from '../share/types'
+import { EDGE_CONSTRAINTS, clampBelief } from '../domain/edges'
+
+export type CitationTarget = { kind: 'node'; id: string } | { kind: 'edge'; id: string }
+
+export interface CitationTally {
+  supports: number
+  contradicts: number
+}
+
+/** Log-odds a full-strength citation contributes (one alone suggests ~75%) */
+const LOG_ODDS_PER_CITATION = 1.1
+const MIN_SUGGESTED_BELIEF = 0.05
+const MAX_SUGGESTED_BELIEF = 0.95
+
+export function citationStance(citation: Pick<Citation, 'stance'>): CitationStance {
+  return citation.stance ?? 'supports'
+}
+
+/** Citations attached to a node (directly, not via its edges) or to an edge */
+export function citationsFor(citations: Citation[], target: CitationTarget): Citation[] {
+  return target.kind === 'edge'
+    ? citations.filter(c => c.edgeId === target.id)
+    : citations.filter(c => !c.edgeId && c.nodeId === target.id)
+}
+
+export function tallyCitations(citations: Pick<Citation, 'stance'>[]): CitationTally {
+  const tally: CitationTally = { supports: 0, contradicts: 0 }
+  for (const citation of citations) tally[citationStance(citation)]++
+  return tally
+}
+
+/**
+ * Belief suggested by the rated citations, or null when none is rated.
+ * Rounded to the belief slider's step.
+ */
+export function suggestedBelief(citations: Pick<Citation, 'stance' | 'strength'>[]): number | null {
+  const rated = citations.filter(c => typeof c.strength === 'number')
+  if (rated.length === 0) return null
+
+  const logOdds = rated.reduce((sum, c) => {
+    const direction = citationStance(c) === 'supports' ? 1 : -1
+    return sum + direction * clampBelief(c.strength!) * LOG_ODDS_PER_CITATION
+  }, 0)
+  const belief = 1 / (1 + Math.exp(-logOdds))
+  const step = EDGE_CONSTRAINTS.belief.step
+  const rounded = Number((Math.round(belief / step) * step).toFixed(2))
+  return Math.min(MAX_SUGGESTED_BELIEF, Math.max(MIN_SUGGESTED_BELIEF, rounded))
+}
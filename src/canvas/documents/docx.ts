@@ -0,0 +1,99 @@
+/**
+ * DOCX text extraction
+ *
+ * A .docx file is a zip archive; the body text lives in word/document.xml
+ * as <w:t> runs grouped into <w:p> paragraphs. This reads the archive's
+ * central directory, inflates that one entry and flattens the runs into
+ * plain text (paragraphs → lines, tabs and breaks kept). Offsets read from
+ * the archive are checked against its length, and the entry is inflated
+ * under the shared output ceiling.
+ */
+
+import { createInflater, type Inflater } from './inflate'
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50
+const CENTRAL_DIRECTORY_ENTRY = 0x02014b50
+const LOCAL_FILE_HEADER = 0x04034b50
+
+const XML_ENTITIES: Record<string, string> = { lt: '<', gt: '>', amp: '&', quot: '"', apos: "'" }
+
+/**
+ * Bytes of one file in a zip archive, or null when it isn't there, the
+ * archive is truncated, or the entry uses a compression method other than
+ * store/deflate
+ */
+export function readZipEntry(bytes: Uint8Array, name: string, inflate: Inflater = createInflater()): Uint8Array | null {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  const fits = (start: number, length: number) => start + length <= bytes.length
+
+  // The end record sits in the last 22 bytes plus an optional comment (≤ 64KB)
+  let end = -1
+  for (let i = bytes.length - 22; i >= Math.max(0, bytes.length - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === END_OF_CENTRAL_DIRECTORY) {
+      end = i
+      break
+    }
+  }
+  if (end === -1) return null
+
+  const entries = view.getUint16(end + 10, true)
+  let offset = view.getUint32(end + 16, true)
+  const decoder = new TextDecoder()
+
+  for (let i = 0; i < entries && offset + 46 <= bytes.length; i++) {
+    if (view.getUint32(offset, true) !== CENTRAL_DIRECTORY_ENTRY) return null
+    const method = view.getUint16(offset + 10, true)
+    const compressedSize = view.getUint32(offset + 20, true)
+    const nameLength = view.getUint16(offset + 28, true)
+    const extraLength = view.getUint16(offset + 30, true)
+    const commentLength = view.getUint16(offset + 32, true)
+    const localOffset = view.getUint32(offset + 42, true)
+    if (!fits(offset + 46, nameLength)) return null
+    const entryName = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength))
+    offset += 46 + nameLength + extraLength + commentLength
+
+    if (entryName !== name) continue
+    if (!fits(localOffset, 30) || view.getUint32(localOffset, true) !== LOCAL_FILE_HEADER) return null
+    const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true)
+    if (!fits(dataStart, compressedSize)) return null
+    const data = bytes.subarray(dataStart, dataStart + compressedSize)
+
+    if (method === 0) return data
+    if (method === 8) return inflate(data, { raw: true })
+    return null
+  }
+  return null
+}
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const value = code[1] === 'x' || code[1] === 'X' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10)
+      // Out of range or a lone surrogate: not a character XML allows
+      const valid = value <= 0x10ffff && (value < 0xd800 || value > 0xdfff)
+      return valid ? String.fromCodePoint(value) : '\ufffd'
+    }
+    return XML_ENTITIES[code] ?? entity
+  })
+}
+
+/** Plain text of a WordprocessingML body */
+export function documentXmlToText(xml: string): string {
+  let out = ''
+  // Tab stop definitions in paragraph properties aren't tab characters
+  const body = xml.replace(/<w:tabs>[\s\S]*?<\/w:tabs>/g, '')
+  for (const match of body.matchAll(/<w:t(?:\s[^>]*)?>([^<]*)<\/w:t>|<w:(tab|br|cr)\b[^>]*\/>|<\/w:(p)>/g)) {
+    if (match[1] !== undefined) out += decodeEntities(match[1])
+    else if (match[2] === 'tab') out += '\t'
+    else out += '\n'
+  }
+  return out.replace(/\n{3,}/g, '\n\n').trim()
+}
+
+/**
+ * Text of a .docx file. Returns '' when the archive has no document body.
+ */
+export function docxToText(bytes: Uint8Array): string {
+  const body = readZipEntry(bytes, 'word/document.xml')
+  return body ? documentXmlToText(new TextDecoder().decode(body)) : ''
+}
@@ -0,0 +1,183 @@
+/**
+ * Document ingestion: file → plain text, entirely in the browser
+ *
+ * PDF and DOCX are parsed by the small readers next to this file; Markdown
+ * loses its markup, and CSV rows become "column: value" lines so passages
+ * read on their own when they turn up in search.
+ */
+
+import type { Document } from '../share/types'
+import { pdfToText } from './pdf'
+import { docxToText } from './docx'
+import { InflateLimitError } from './inflate'
+
+export type IngestibleType = Exclude<Document['type'], 'url'>
+
+/** Largest file read for ingestion; checked before any of it is loaded */
+export const MAX_DOCUMENT_BYTES = 20 * 1024 * 1024
+export const DOCUMENT_TOO_LARGE_MESSAGE = 'This file is too large to ingest (max 20MB). Please reduce its size.'
+
+const EXTENSIONS: Record<string, IngestibleType> = {
+  pdf: 'pdf',
+  docx: 'docx',
+  txt: 'txt',
+  text: 'txt',
+  md: 'md',
+  markdown: 'md',
+  csv: 'csv',
+}
+
+/** For <input accept> */
+export const ACCEPTED_DOCUMENT_EXTENSIONS = Object.keys(EXTENSIONS).map(ext => `.${ext}`).join(',')
+
+export class DocumentExtractionError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'DocumentExtractionError'
+  }
+}
+
+export interface ExtractedDocument {
+  type: IngestibleType
+  text: string
+}
+
+export function documentTypeForFile(fileName: string): IngestibleType | null {
+  const ext = fileName.split('.').pop()?.toLowerCase() ?? ''
+  return EXTENSIONS[ext] ?? null
+}
+
+/** Markdown → readable text: headings, emphasis, links and fences unwrapped */
+export function markdownToText(markdown: string): string {
+  return markdown
+    .replace(/^```.*$/gm, '')
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+    .replace(/^[ \t]{0,3}#{1,6}[ \t]+/gm, '')
+    .replace(/^[ \t]{0,3}>[ \t]?/gm, '')
+    .replace(/^[ \t]*[-*+][ \t]+/gm, '')
+    .replace(/(\*\*|__)(.+?)\1/g, '$2')
+    .replace(/(\*|_)(\S(?:.*?\S)?)\1/g, '$2')
+    .replace(/`([^`]+)`/g, '$1')
+    .replace(/^[ \t]*([-*_][ \t]*){3,}$/gm, '')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim()
+}
+
+function parseCsvRows(csv: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let quoted = false
+
+  for (let i = 0; i < csv.length; i++) {
+    const ch = csv[i]
+    if (quoted) {
+      if (ch === '"' && csv[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (ch === '"') {
+        quoted = false
+      } else {
+        field += ch
+      }
+    } else if (ch === '"') {
+      quoted = true
+    } else if (ch === ',') {
+      row.push(field)
+      field = ''
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && csv[i + 1] === '\n') i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ''
+    } else {
+      field += ch
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field)
+    rows.push(row)
+  }
+  return rows.filter(r => r.some(cell => cell.trim() !== ''))
+}
+
+/** CSV → one line per row, each value labelled with its column header */
+export function csvToText(csv: string): string {
+  const [header, ...rows] = parseCsvRows(csv)
+  if (!header) return ''
+  const columns = header.map(h => h.trim())
+  const lines = rows.map(row =>
+    row
+      .map((value, i) => (value.trim() ? `${columns[i] || `Column ${i + 1}`}: ${value.trim()}` : ''))
+      .filter(Boolean)
+      .join('; ')
+  )
+  return [columns.join(', '), ...lines].join('\n')
+}
+
+function readBytes(file: File): Promise<Uint8Array> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(new Uint8Array(reader.result as ArrayBuffer))
+    reader.onerror = () => reject(reader.error ?? new DocumentExtractionError('Could not read the file.'))
+    reader.readAsArrayBuffer(file)
+  })
+}
+
+/** PDF/DOCX bytes → text; any failure in the readers becomes a DocumentExtractionError */
+function parseBinary(type: 'pdf' | 'docx', bytes: Uint8Array): string {
+  try {
+    return type === 'pdf' ? pdfToText(bytes) : docxToText(bytes)
+  } catch (err) {
+    if (err instanceof InflateLimitError) {
+      throw new DocumentExtractionError('This file expands to too much data to read. It may be damaged or malicious.')
+    }
+    console.error('[documents] Failed to parse file:', err)
+    throw new DocumentExtractionError(
+      `This file couldn't be read. It may be damaged or not a valid ${type === 'pdf' ? 'PDF' : 'Word'} document.`
+    )
+  }
+}
+
+/**
+ * Extract the text of an uploaded file. Throws DocumentExtractionError for
+ * unsupported types, files over MAX_DOCUMENT_BYTES, files the readers can't
+ * parse (including ones that decompress past their ceiling) and files with
+ * no readable text (e.g. scanned PDFs).
+ */
+export async function extractDocumentText(file: File): Promise<ExtractedDocument> {
+  const type = documentTypeForFile(file.name)
+  if (!type) {
+    throw new DocumentExtractionError('Unsupported file type. Use PDF, DOCX, Markdown, CSV or plain text.')
+  }
+  if (file.size > MAX_DOCUMENT_BYTES) {
+    throw new DocumentExtractionError(DOCUMENT_TOO_LARGE_MESSAGE)
+  }
+
+  let text: string
+  switch (type) {
+    case 'pdf':
+    case 'docx':
+      text = parseBinary(type, await readBytes(file))
+      break
+    case 'md':
+      text = markdownToText(await file.text())
+      break
+    case 'csv':
+      text = csvToText(await file.text())
+      break
+    default:
+      text = (await file.text()).trim()
+  }
+
+  if ((type === 'pdf' || type === 'docx') && !text) {
+    throw new DocumentExtractionError(
+      type === 'pdf'
+        ? 'No extractable text. Scanned or encrypted PDFs need OCR before upload.'
+        : 'No extractable text found in this document.'
+    )
+  }
+  return { type, text }
+}
@@ -0,0 +1,51 @@
+/**
+ * Deflate decoding with a ceiling on output
+ *
+ * A few kilobytes of deflate data can expand to gigabytes (a "zip bomb"),
+ * so the document readers inflate in chunks and give up as soon as one
+ * document's output passes MAX_INFLATED_BYTES, before it is all in memory.
+ */
+
+import { Inflate } from 'pako'
+
+/** Most decompressed data read from one document, across all its streams */
+export const MAX_INFLATED_BYTES = 100 * 1024 * 1024
+
+export class InflateLimitError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'InflateLimitError'
+  }
+}
+
+/** Inflates zlib (or, with raw, bare deflate) data; throws on corrupt input */
+export type Inflater = (data: Uint8Array, options?: { raw?: boolean }) => Uint8Array
+
+/**
+ * An inflater whose calls share one output budget. Throws InflateLimitError
+ * once the total passes maxBytes.
+ */
+export function createInflater(maxBytes = MAX_INFLATED_BYTES): Inflater {
+  let remaining = maxBytes
+  return (data, { raw = false } = {}) => {
+    const inflater = new Inflate({ raw })
+    const chunks: Uint8Array[] = []
+    let length = 0
+    inflater.onData = (chunk: Uint8Array) => {
+      remaining -= chunk.length
+      if (remaining < 0) throw new InflateLimitError(`Decompressed data exceeds ${maxBytes} bytes`)
+      chunks.push(chunk)
+      length += chunk.length
+    }
+    inflater.push(data, true)
+    if (inflater.err) throw new Error(inflater.msg || 'Invalid deflate data')
+
+    const out = new Uint8Array(length)
+    let offset = 0
+    for (const chunk of chunks) {
+      out.set(chunk, offset)
+      offset += chunk.length
+    }
+    return out
+  }
+}
@@ -0,0 +1,512 @@
+/**
+ * PDF text extraction
+ *
+ * A small reader for the text layer of PDFs written by office tools and
+ * report generators: walks the page tree in order, inflates each page's
+ * content streams and collects the strings shown by the text operators.
+ * Fonts with a ToUnicode CMap are decoded through it, per page; two-byte
+ * (Type0) fonts without one carry only glyph ids and are skipped; everything
+ * else is read as single-byte (WinAnsi-like) text.
+ *
+ * Objects are found by scanning the file rather than through its
+ * cross-reference table, so classic xref tables and PDF 1.5 cross-reference
+ * streams read alike; objects packed into object streams (/ObjStm) are
+ * unpacked from them. Scanned PDFs have no text layer and come back empty,
+ * and encrypted PDFs are not supported; the caller reports an empty result
+ * as "no extractable text". Streams share one ceiling on inflated output
+ * (see inflate.ts).
+ */
+
+import { createInflater, InflateLimitError, type Inflater } from './inflate'
+
+interface PdfObject {
+  dict: string
+  data: Uint8Array | null // Raw (still encoded) stream bytes
+}
+
+interface ToUnicodeMap {
+  bytes: 1 | 2 // Code width from the codespace range
+  map: Map<number, string>
+}
+
+type Operand = number | string | Operand[] | { name: string } | { hex: string }
+
+/**
+ * Large negative TJ adjustments are word gaps rather than kerning. Kerning
+ * stays within about a tenth of an em; typesetters justify lines with gaps
+ * of around a quarter of an em, a space's width.
+ */
+const TJ_SPACE_THRESHOLD = -150
+
+function bytesToLatin1(bytes: Uint8Array): string {
+  let text = ''
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    text += String.fromCharCode(...bytes.subarray(i, i + 0x8000))
+  }
+  return text
+}
+
+function readObjects(bytes: Uint8Array, text: string): Map<number, PdfObject> {
+  const objects = new Map<number, PdfObject>()
+  const header = /(\d+)\s+\d+\s+obj\b/g
+  let match: RegExpExecArray | null
+
+  while ((match = header.exec(text))) {
+    const num = Number(match[1])
+    const start = match.index + match[0].length
+    const endObj = text.indexOf('endobj', start)
+    if (endObj === -1) break
+    const streamAt = text.indexOf('stream', start)
+
+    if (streamAt === -1 || streamAt > endObj) {
+      objects.set(num, { dict: text.slice(start, endObj), data: null })
+      header.lastIndex = endObj
+      continue
+    }
+
+    const dict = text.slice(start, streamAt)
+    let dataStart = streamAt + 'stream'.length
+    if (text[dataStart] === '\r') dataStart++
+    if (text[dataStart] === '\n') dataStart++
+
+    // Prefer a direct /Length; indirect lengths fall back to scanning for endstream
+    const length = /\/Length\s+(\d+)(?!\s+\d+\s+R)/.exec(dict)
+    let dataEnd = length ? dataStart + Number(length[1]) : -1
+    if (dataEnd === -1 || !/^\s*endstream/.test(text.slice(dataEnd, dataEnd + 16))) {
+      dataEnd = text.indexOf('endstream', dataStart)
+      if (dataEnd === -1) break
+    }
+
+    objects.set(num, { dict, data: bytes.subarray(dataStart, dataEnd) })
+    const next = text.indexOf('endobj', dataEnd)
+    if (next === -1) break
+    header.lastIndex = next
+  }
+
+  return objects
+}
+
+function decodeStream(object: PdfObject, inflate: Inflater): string | null {
+  if (!object.data) return null
+  const filter = /\/Filter\s*(\[[^\]]*\]|\/\w+)/.exec(object.dict)
+  const filters = filter ? [...filter[1].matchAll(/\/(\w+)/g)].map(m => m[1]) : []
+
+  if (filters.length === 0) return bytesToLatin1(object.data)
+  if (filters.length !== 1 || filters[0] !== 'FlateDecode') return null
+  try {
+    return bytesToLatin1(inflate(object.data))
+  } catch (err) {
+    // A damaged stream is skipped; one that inflates past the ceiling stops the read
+    if (err instanceof InflateLimitError) throw err
+    return null
+  }
+}
+
+function dictNumber(dict: string, key: string): number | null {
+  const match = new RegExp(`/${key}\\s+(\\d+)(?!\\s+\\d+\\s+R)`).exec(dict)
+  return match ? Number(match[1]) : null
+}
+
+/**
+ * Register the objects packed into object streams. The stream opens with
+ * /N pairs of "object number, offset", offsets counted from /First. Packed
+ * objects are never streams themselves; an object also written at the top
+ * level keeps that version.
+ */
+function readObjectStreams(objects: Map<number, PdfObject>, inflate: Inflater): void {
+  for (const container of [...objects.values()]) {
+    if (!/\/Type\s*\/ObjStm\b/.test(container.dict)) continue
+    const count = dictNumber(container.dict, 'N')
+    const first = dictNumber(container.dict, 'First')
+    const content = decodeStream(container, inflate)
+    if (count === null || first === null || content === null) continue
+
+    const header = content.slice(0, first).trim().split(/\s+/).map(Number)
+    const body = content.slice(first)
+    for (let i = 0; i < count; i++) {
+      const num = header[i * 2]
+      const offset = header[i * 2 + 1]
+      const end = i + 1 < count ? header[i * 2 + 3] : body.length
+      if (!Number.isInteger(num) || !Number.isInteger(offset) || objects.has(num)) continue
+      objects.set(num, { dict: body.slice(offset, end), data: null })
+    }
+  }
+}
+
+function refs(value: string): number[] {
+  return [...value.matchAll(/(\d+)\s+\d+\s+R/g)].map(m => Number(m[1]))
+}
+
+function dictRef(dict: string, key: string): number | null {
+  const match = new RegExp(`/${key}\\s+(\\d+)\\s+\\d+\\s+R`).exec(dict)
+  return match ? Number(match[1]) : null
+}
+
+/** Page objects in reading order, following /Kids from the root page tree */
+function pagesInOrder(objects: Map<number, PdfObject>): PdfObject[] {
+  const isPages = (o: PdfObject) => /\/Type\s*\/Pages\b/.test(o.dict)
+  const root = [...objects.values()].find(o => isPages(o) && !/\/Parent\b/.test(o.dict))
+  if (!root) {
+    return [...objects.values()].filter(o => /\/Type\s*\/Page\b/.test(o.dict))
+  }
+
+  const pages: PdfObject[] = []
+  const seen = new Set<number>()
+  const visit = (node: PdfObject) => {
+    const kids = /\/Kids\s*\[([^\]]*)\]/.exec(node.dict)
+    if (!kids) {
+      pages.push(node)
+      return
+    }
+    for (const num of refs(kids[1])) {
+      const kid = objects.get(num)
+      if (!kid || seen.has(num)) continue
+      seen.add(num)
+      visit(kid)
+    }
+  }
+  visit(root)
+  return pages
+}
+
+function parseHex(hex: string): number {
+  return parseInt(hex, 16)
+}
+
+function hexToString(hex: string): string {
+  let text = ''
+  for (let i = 0; i < hex.length; i += 4) {
+    text += String.fromCharCode(parseHex(hex.slice(i, i + 4).padEnd(4, '0')))
+  }
+  return text
+}
+
+function parseToUnicode(cmap: string): ToUnicodeMap {
+  const map = new Map<number, string>()
+  const range = /begincodespacerange\s*<([0-9A-Fa-f]+)>/.exec(cmap)
+  const bytes = range && range[1].length > 2 ? 2 : 1
+
+  for (const block of cmap.matchAll(/beginbfchar([\s\S]*?)endbfchar/g)) {
+    for (const pair of block[1].matchAll(/<([0-9A-Fa-f]+)>\s*<([0-9A-Fa-f]+)>/g)) {
+      map.set(parseHex(pair[1]), hexToString(pair[2]))
+    }
+  }
+  for (const block of cmap.matchAll(/beginbfrange([\s\S]*?)endbfrange/g)) {
+    for (const entry of block[1].matchAll(/<([0-9A-Fa-f]+)>\s*<([0-9A-Fa-f]+)>\s*(<[0-9A-Fa-f]+>|\[[^\]]*\])/g)) {
+      const from = parseHex(entry[1])
+      const to = parseHex(entry[2])
+      if (entry[3].startsWith('[')) {
+        const targets = [...entry[3].matchAll(/<([0-9A-Fa-f]+)>/g)]
+        targets.forEach((target, i) => map.set(from + i, hexToString(target[1])))
+      } else {
+        const base = entry[3].slice(1, -1)
+        const first = parseHex(base)
+        for (let code = from; code <= to && code - from < 0x10000; code++) {
+          // The last byte of the destination increments across the range
+          map.set(code, base.length > 4 ? hexToString(base) : String.fromCharCode(first + code - from))
+        }
+      }
+    }
+  }
+  return { bytes, map }
+}
+
+const UNMAPPED_TYPE0: ToUnicodeMap = { bytes: 2, map: new Map() }
+
+type CmapLookup = (fontNum: number) => ToUnicodeMap | null
+type FontMaps = Map<string, ToUnicodeMap | undefined>
+
+function cmapLookup(objects: Map<number, PdfObject>, inflate: Inflater): CmapLookup {
+  const cache = new Map<number, ToUnicodeMap | null>()
+  return fontNum => {
+    const font = objects.get(fontNum)
+    const toUnicode = font ? dictRef(font.dict, 'ToUnicode') : null
+    if (toUnicode === null) {
+      // Two-byte glyph ids with no map back to characters: skip them rather than print noise
+      return font && /\/Subtype\s*\/Type0\b/.test(font.dict) ? UNMAPPED_TYPE0 : null
+    }
+    if (!cache.has(toUnicode)) {
+      const stream = objects.get(toUnicode)
+      const cmap = stream ? decodeStream(stream, inflate) : null
+      cache.set(toUnicode, cmap ? parseToUnicode(cmap) : null)
+    }
+    return cache.get(toUnicode) ?? null
+  }
+}
+
+/**
+ * Font resource name → ToUnicode map for the /Font dictionary in (or
+ * referenced from) a dictionary; undefined for fonts read as single bytes
+ */
+function fontsIn(dict: string, objects: Map<number, PdfObject>, cmapFor: CmapLookup): FontMaps {
+  const maps: FontMaps = new Map()
+  // /Font is either an inline dictionary or a reference to one
+  const fontDictRef = dictRef(dict, 'Font')
+  const fontDict = fontDictRef !== null
+    ? objects.get(fontDictRef)?.dict
+    : /\/Font\s*<<([\s\S]*?)>>/.exec(dict)?.[1]
+  if (fontDict) {
+    for (const entry of fontDict.matchAll(/\/([^\s/<>[\]()]+)\s+(\d+)\s+\d+\s+R/g)) {
+      if (maps.has(entry[1])) continue
+      maps.set(entry[1], cmapFor(Number(entry[2])) ?? undefined)
+    }
+  }
+  return maps
+}
+
+/**
+ * Font resource name (e.g. "F1") → its ToUnicode map, across every /Font
+ * resource dictionary in the file. Used where a page's own resources don't
+ * name the font.
+ */
+function fontMaps(objects: Map<number, PdfObject>, cmapFor: CmapLookup): FontMaps {
+  const maps: FontMaps = new Map()
+  for (const object of objects.values()) {
+    fontsIn(object.dict, objects, cmapFor).forEach((map, name) => {
+      if (map && !maps.has(name)) maps.set(name, map)
+    })
+  }
+  return maps
+}
+
+/**
+ * A page's fonts, from its /Resources or the nearest ancestor's. Generators
+ * such as LaTeX reuse names like "F1" for different fonts on different
+ * pages, so these take precedence over the file-wide names.
+ */
+function pageFonts(page: PdfObject, objects: Map<number, PdfObject>, cmapFor: CmapLookup): FontMaps {
+  const seen = new Set<number>()
+  let node: PdfObject | undefined = page
+  while (node) {
+    const resourcesRef = dictRef(node.dict, 'Resources')
+    const resources = resourcesRef !== null ? objects.get(resourcesRef)?.dict : node.dict
+    if (resources && /\/Font\b/.test(resources)) return fontsIn(resources, objects, cmapFor)
+    const parent = dictRef(node.dict, 'Parent')
+    if (parent === null || seen.has(parent)) break
+    seen.add(parent)
+    node = objects.get(parent)
+  }
+  return new Map()
+}
+
+function readLiteralString(content: string, start: number): [string, number] {
+  let depth = 1
+  let out = ''
+  let i = start + 1
+  while (i < content.length && depth > 0) {
+    const ch = content[i]
+    if (ch === '\\') {
+      const next = content[i + 1]
+      const escapes: Record<string, string> = { n: '\n', r: '\r', t: '\t', b: '\b', f: '\f', '(': '(', ')': ')', '\\': '\\' }
+      if (next in escapes) {
+        out += escapes[next]
+        i += 2
+      } else if (/[0-7]/.test(next)) {
+        const octal = /^[0-7]{1,3}/.exec(content.slice(i + 1, i + 4))![0]
+        out += String.fromCharCode(parseInt(octal, 8))
+        i += 1 + octal.length
+      } else if (next === '\r' || next === '\n') {
+        // Line continuation
+        i += next === '\r' && content[i + 2] === '\n' ? 3 : 2
+      } else {
+        i += 1
+      }
+      continue
+    }
+    if (ch === '(') depth++
+    if (ch === ')') depth--
+    if (depth > 0) out += ch
+    i++
+  }
+  return [out, i]
+}
+
+/** Tokenise a content stream into operands and operators */
+function* contentTokens(content: string): Generator<{ operator: string } | { operand: Operand }> {
+  const stack: Operand[][] = []
+  let i = 0
+  const emit = (operand: Operand) => {
+    if (stack.length > 0) stack[stack.length - 1].push(operand)
+    return stack.length === 0
+  }
+
+  while (i < content.length) {
+    const ch = content[i]
+    if (/\s/.test(ch)) {
+      i++
+    } else if (ch === '%') {
+      while (i < content.length && content[i] !== '\n' && content[i] !== '\r') i++
+    } else if (ch === '(') {
+      const [value, end] = readLiteralString(content, i)
+      i = end
+      if (emit(value)) yield { operand: value }
+    } else if (ch === '<' && content[i + 1] === '<') {
+      // Inline dictionaries (marked content properties) carry no text
+      let depth = 0
+      do {
+        if (content.startsWith('<<', i)) { depth++; i += 2 }
+        else if (content.startsWith('>>', i)) { depth--; i += 2 }
+        else i++
+      } while (depth > 0 && i < content.length)
+    } else if (ch === '<') {
+      const end = content.indexOf('>', i)
+      const hex = content.slice(i + 1, end === -1 ? content.length : end).replace(/\s+/g, '')
+      i = end === -1 ? content.length : end + 1
+      const value = { hex }
+      if (emit(value)) yield { operand: value }
+    } else if (ch === '[') {
+      stack.push([])
+      i++
+    } else if (ch === ']') {
+      const array = stack.pop() ?? []
+      i++
+      if (emit(array)) yield { operand: array }
+    } else if (ch === '/') {
+      const name = /^\/[^\s/<>[\]()%]*/.exec(content.slice(i, i + 128))![0]
+      i += name.length
+      const value = { name: name.slice(1) }
+      if (emit(value)) yield { operand: value }
+    } else if (/[-+.\d]/.test(ch)) {
+      const number = /^[-+]?(\d+\.?\d*|\.\d+)/.exec(content.slice(i, i + 32))
+      if (!number) { i++; continue }
+      i += number[0].length
+      if (emit(Number(number[0]))) yield { operand: Number(number[0]) }
+    } else {
+      const word = /^[^\s/<>[\]()%]+/.exec(content.slice(i, i + 32))![0]
+      i += word.length
+      if (word === 'ID') {
+        // Inline image data runs to EI: skip it
+        const end = content.indexOf('EI', i)
+        i = end === -1 ? content.length : end + 2
+        continue
+      }
+      if (stack.length === 0) yield { operator: word }
+    }
+  }
+}
+
+function decodeString(operand: Operand, font: ToUnicodeMap | undefined): string {
+  const hex = typeof operand === 'object' && 'hex' in operand ? operand.hex : undefined
+  const codes: number[] = []
+  if (hex !== undefined) {
+    const width = font?.bytes === 2 ? 4 : 2
+    for (let i = 0; i < hex.length; i += width) codes.push(parseHex(hex.slice(i, i + width).padEnd(width, '0')))
+  } else if (typeof operand === 'string') {
+    if (font?.bytes === 2) {
+      for (let i = 0; i < operand.length; i += 2) codes.push((operand.charCodeAt(i) << 8) | (operand.charCodeAt(i + 1) || 0))
+    } else {
+      for (let i = 0; i < operand.length; i++) codes.push(operand.charCodeAt(i))
+    }
+  } else {
+    return ''
+  }
+  return codes.map(code => font?.map.get(code) ?? (font?.bytes === 2 ? '' : String.fromCharCode(code))).join('')
+}
+
+function contentText(content: string, fonts: FontMaps): string {
+  let out = ''
+  let operands: Operand[] = []
+  let font: ToUnicodeMap | undefined
+  let lineY: number | null = null
+
+  const newline = () => {
+    if (out && !out.endsWith('\n')) out += '\n'
+  }
+  const space = () => {
+    if (out && !/\s$/.test(out)) out += ' '
+  }
+
+  for (const token of contentTokens(content)) {
+    if ('operand' in token) {
+      operands.push(token.operand)
+      continue
+    }
+    const op = token.operator
+    const last = operands[operands.length - 1]
+    switch (op) {
+      case 'Tf': {
+        const name = operands.find(o => typeof o === 'object' && o !== null && 'name' in o) as { name: string } | undefined
+        font = name ? fonts.get(name.name) : undefined
+        break
+      }
+      case 'Tj':
+        out += decodeString(last, font)
+        break
+      case "'":
+      case '"':
+        newline()
+        out += decodeString(last, font)
+        break
+      case 'TJ':
+        for (const part of Array.isArray(last) ? last : []) {
+          if (typeof part === 'number') {
+            if (part < TJ_SPACE_THRESHOLD) space()
+          } else {
+            out += decodeString(part, font)
+          }
+        }
+        break
+      case 'Td':
+      case 'TD': {
+        const ty = operands[1]
+        if (typeof ty === 'number' && ty !== 0) newline()
+        else space()
+        break
+      }
+      case 'T*':
+        newline()
+        break
+      case 'Tm': {
+        const y = operands[5]
+        if (typeof y === 'number' && lineY !== null && y !== lineY) newline()
+        else space()
+        lineY = typeof y === 'number' ? y : lineY
+        break
+      }
+      case 'ET':
+        newline()
+        break
+    }
+    operands = []
+  }
+  return out
+}
+
+/** Tidy extracted text: one space between words, at most one blank line */
+function tidy(text: string): string {
+  return text
+    .replace(/[ \t\f\v\u00a0]+/g, ' ')
+    .split('\n')
+    .map(line => line.trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim()
+}
+
+/**
+ * Text of a PDF's pages, in order. Returns '' when the file has no
+ * readable text layer.
+ */
+export function pdfToText(bytes: Uint8Array): string {
+  const text = bytesToLatin1(bytes)
+  if (!text.startsWith('%PDF-')) return ''
+  if (/\/Encrypt\b/.test(text)) return ''
+
+  const inflate = createInflater()
+  const objects = readObjects(bytes, text)
+  readObjectStreams(objects, inflate)
+  const cmapFor = cmapLookup(objects, inflate)
+  const fileFonts = fontMaps(objects, cmapFor)
+  const pages = pagesInOrder(objects).map(page => {
+    const fonts = new Map([...fileFonts, ...pageFonts(page, objects, cmapFor)])
+    const contents = /\/Contents\s*(\[[^\]]*\]|\d+\s+\d+\s+R)/.exec(page.dict)
+    if (!contents) return ''
+    return refs(contents[1])
+      .map(num => objects.get(num))
+      .map(stream => (stream ? decodeStream(stream, inflate) : null))
+      .map(content => (content ? contentText(content, fonts) : ''))
+      .join('\n')
+  })
+
+  return tidy(pages.join('\n\n'))
+}
@@ -0,0 +1,37 @@
+/**
+ * Document Reader Store
+ *
+ * Which document the reader shows, and the passage to scroll to. Opened from
+ * the documents list, a search hit, an inspector's "Jump to passage", or a
+ * bias-mitigation task that asks for disconfirming evidence.
+ */
+
+import { create } from 'zustand'
+
+export interface PassageFocus {
+  charOffset: number
+  charLength: number
+}
+
+interface DocumentReaderState {
+  open: boolean
+  /** Document being read; null shows the list of documents */
+  documentId: string | null
+  focus: PassageFocus | null
+
+  openDocument: (documentId: string, focus?: PassageFocus | null) => void
+  showList: () => void
+  openList: () => void
+  close: () => void
+}
+
+export const useDocumentReaderStore = create<DocumentReaderState>(set => ({
+  open: false,
+  documentId: null,
+  focus: null,
+
+  openDocument: (documentId, focus = null) => set({ open: true, documentId, focus }),
+  showList: () => set({ documentId: null, focus: null }),
+  openList: () => set({ open: true, documentId: null, focus: null }),
+  close: () => set({ open: false, documentId: null, focus: null }),
+}))
@@ -0,0 +1,251 @@
+/**
+ * Full-text index over document passages
+ *
+ * Documents are split into overlapping passages (chunks) of roughly a
+ * paragraph or two, cut at paragraph, sentence or word boundaries. Each
+ * chunk keeps its character offset into the document so a hit can be
+ * located (and cited) in the full text.
+ *
+ * The index is an in-memory inverted index ranked with BM25. The last query
+ * term also matches as a prefix so results update while typing.
+ */
+
+export interface DocumentChunk {
+  id: string // `${documentId}#${index}`
+  documentId: string
+  index: number
+  charOffset: number // Start of the chunk in the document text
+  text: string
+}
+
+export interface PassageHit {
+  chunk: DocumentChunk
+  score: number
+  snippet: string
+  snippetOffset: number // Start of the snippet in the document text
+  highlights: Array<[number, number]> // [start, end) ranges within the snippet
+}
+
+export interface TextIndex {
+  chunks: Map<string, DocumentChunk>
+  postings: Map<string, Map<string, number>> // term → chunk id → term frequency
+  lengths: Map<string, number> // chunk id → token count
+  totalLength: number
+}
+
+export const CHUNK_CHARS = 1200
+export const CHUNK_OVERLAP = 150
+const SNIPPET_CHARS = 240
+const MAX_TERM_LENGTH = 40
+const PREFIX_EXPANSIONS = 20
+const PREFIX_WEIGHT = 0.6
+const PHRASE_BOOST = 1.5
+
+// BM25 parameters
+const K1 = 1.2
+const B = 0.75
+
+const STOPWORDS = new Set(
+  ('a an and are as at be but by for from has have in is it its of on or that the their there these this ' +
+    'to was were which will with we our you your not no can could would should than then they them').split(' ')
+)
+
+const WORD = /[\p{L}\p{N}]+(?:['’][\p{L}]+)?/gu
+
+/** Lower-cased, possessive- and plural-stripped form of a word */
+export function normalizeTerm(word: string): string {
+  let term = word.toLowerCase().replace(/['’]s$/, '')
+  if (term.length > 4 && term.endsWith('ies')) term = `${term.slice(0, -3)}y`
+  else if (term.length > 3 && term.endsWith('s') && !term.endsWith('ss') && !term.endsWith('us')) term = term.slice(0, -1)
+  return term
+}
+
+function isIndexable(term: string): boolean {
+  return term.length > 1 && term.length <= MAX_TERM_LENGTH && !STOPWORDS.has(term)
+}
+
+export function tokenize(text: string): string[] {
+  const terms: string[] = []
+  for (const match of text.matchAll(WORD)) {
+    const term = normalizeTerm(match[0])
+    if (isIndexable(term)) terms.push(term)
+  }
+  return terms
+}
+
+/** Where to end a chunk that starts at `start`: the best boundary before the limit */
+function chunkEnd(text: string, start: number): number {
+  const limit = start + CHUNK_CHARS
+  if (limit >= text.length) return text.length
+  const window = text.slice(start, limit)
+  const minimum = CHUNK_CHARS / 2
+
+  const paragraph = window.lastIndexOf('\n\n')
+  if (paragraph > minimum) return start + paragraph + 2
+  const sentence = Math.max(window.lastIndexOf('. '), window.lastIndexOf('.\n'), window.lastIndexOf('? '), window.lastIndexOf('! '))
+  if (sentence > minimum) return start + sentence + 2
+  const space = window.search(/\s\S*$/)
+  if (space > minimum) return start + space + 1
+  return limit
+}
+
+/** Split a document's text into overlapping passages */
+export function chunkText(documentId: string, text: string): DocumentChunk[] {
+  const chunks: DocumentChunk[] = []
+  let start = 0
+  while (start < text.length) {
+    const end = chunkEnd(text, start)
+    const body = text.slice(start, end)
+    if (body.trim()) {
+      chunks.push({ id: `${documentId}#${chunks.length}`, documentId, index: chunks.length, charOffset: start, text: body })
+    }
+    if (end >= text.length) break
+    // Step back for overlap, to the start of a word
+    let next = Math.max(end - CHUNK_OVERLAP, start + 1)
+    while (next < end && /\S/.test(text[next - 1] ?? ' ')) next++
+    start = next
+  }
+  return chunks
+}
+
+/** Reassemble a document's text from its chunks, dropping the overlaps */
+export function joinChunks(chunks: DocumentChunk[]): string {
+  let text = ''
+  for (const chunk of [...chunks].sort((a, b) => a.index - b.index)) {
+    text += chunk.text.slice(Math.max(0, text.length - chunk.charOffset))
+  }
+  return text
+}
+
+export function createTextIndex(): TextIndex {
+  return { chunks: new Map(), postings: new Map(), lengths: new Map(), totalLength: 0 }
+}
+
+export function addChunks(index: TextIndex, chunks: DocumentChunk[]): void {
+  for (const chunk of chunks) {
+    const terms = tokenize(chunk.text)
+    index.chunks.set(chunk.id, chunk)
+    index.lengths.set(chunk.id, terms.length)
+    index.totalLength += terms.length
+    for (const term of terms) {
+      let posting = index.postings.get(term)
+      if (!posting) {
+        posting = new Map()
+        index.postings.set(term, posting)
+      }
+      posting.set(chunk.id, (posting.get(chunk.id) ?? 0) + 1)
+    }
+  }
+}
+
+export function removeDocumentChunks(index: TextIndex, documentId: string): void {
+  const removed = new Set<string>()
+  for (const [id, chunk] of index.chunks) {
+    if (chunk.documentId !== documentId) continue
+    removed.add(id)
+    index.chunks.delete(id)
+    index.totalLength -= index.lengths.get(id) ?? 0
+    index.lengths.delete(id)
+  }
+  if (removed.size === 0) return
+  for (const [term, posting] of index.postings) {
+    removed.forEach(id => posting.delete(id))
+    if (posting.size === 0) index.postings.delete(term)
+  }
+}
+
+/** Query terms with their weights: exact terms 1, prefix expansions of the last word less */
+function queryTerms(index: TextIndex, query: string): Map<string, number> {
+  const terms = new Map<string, number>()
+  const words = [...query.matchAll(WORD)].map(m => m[0])
+  words.forEach((word, i) => {
+    const term = normalizeTerm(word)
+    if (isIndexable(term)) terms.set(term, 1)
+
+    if (i === words.length - 1 && word.length >= 2) {
+      const prefix = word.toLowerCase()
+      let expansions = 0
+      for (const candidate of index.postings.keys()) {
+        if (expansions >= PREFIX_EXPANSIONS) break
+        if (candidate !== term && candidate.startsWith(prefix)) {
+          terms.set(candidate, Math.max(terms.get(candidate) ?? 0, PREFIX_WEIGHT))
+          expansions++
+        }
+      }
+    }
+  })
+  return terms
+}
+
+function makeSnippet(chunk: DocumentChunk, terms: Map<string, number>): Pick<PassageHit, 'snippet' | 'snippetOffset' | 'highlights'> {
+  const matches: Array<[number, number]> = []
+  for (const match of chunk.text.matchAll(WORD)) {
+    if (terms.has(normalizeTerm(match[0]))) matches.push([match.index!, match.index! + match[0].length])
+  }
+
+  // Centre the window a little before the first match, on a word boundary
+  let start = matches.length > 0 ? Math.max(0, matches[0][0] - SNIPPET_CHARS / 4) : 0
+  if (start > 0) {
+    const space = chunk.text.indexOf(' ', start)
+    start = space === -1 || space > matches[0][0] ? start : space + 1
+  }
+  let end = Math.min(chunk.text.length, start + SNIPPET_CHARS)
+  if (end < chunk.text.length) {
+    const space = chunk.text.lastIndexOf(' ', end)
+    if (space > start) end = space
+  }
+
+  // Whitespace runs collapse in the snippet, so offsets are measured after collapsing
+  const collapsed = (from: number, to: number) => chunk.text.slice(from, to).replace(/\s+/g, ' ')
+  return {
+    snippet: collapsed(start, end),
+    snippetOffset: chunk.charOffset + start,
+    highlights: matches
+      .filter(([s, e]) => s >= start && e <= end)
+      .map(([s, e]): [number, number] => {
+        const before = collapsed(start, s).length
+        return [before, before + (e - s)]
+      }),
+  }
+}
+
+export interface SearchOptions {
+  limit?: number
+  documentId?: string | null
+}
+
+/** Ranked passages for a free-text query, best first */
+export function searchPassages(index: TextIndex, query: string, options: SearchOptions = {}): PassageHit[] {
+  const { limit = 10, documentId = null } = options
+  const terms = queryTerms(index, query)
+  if (terms.size === 0 || index.chunks.size === 0) return []
+
+  const count = index.chunks.size
+  const averageLength = index.totalLength / count || 1
+  const scores = new Map<string, number>()
+
+  for (const [term, weight] of terms) {
+    const posting = index.postings.get(term)
+    if (!posting) continue
+    const idf = Math.log(1 + (count - posting.size + 0.5) / (posting.size + 0.5))
+    for (const [chunkId, tf] of posting) {
+      if (documentId && index.chunks.get(chunkId)?.documentId !== documentId) continue
+      const length = index.lengths.get(chunkId) ?? 0
+      const score = (idf * tf * (K1 + 1)) / (tf + K1 * (1 - B + (B * length) / averageLength))
+      scores.set(chunkId, (scores.get(chunkId) ?? 0) + weight * score)
+    }
+  }
+
+  const phrase = query.trim().toLowerCase().replace(/\s+/g, ' ')
+  const hasPhrase = phrase.includes(' ')
+
+  return [...scores]
+    .map(([chunkId, score]) => {
+      const chunk = index.chunks.get(chunkId)!
+      const boosted = hasPhrase && chunk.text.toLowerCase().replace(/\s+/g, ' ').includes(phrase) ? score * PHRASE_BOOST : score
+      return { chunk, score: boosted }
+    })
+    .sort((a, b) => b.score - a.score || a.chunk.charOffset - b.chunk.charOffset)
+    .slice(0, limit)
+    .map(({ chunk, score }) => ({ chunk, score, ...makeSnippet(chunk, terms) }))
+}
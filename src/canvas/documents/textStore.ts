@@ -0,0 +1,73 @@
+/**
+ * Document Text Store
+ *
+ * Holds the full text of uploaded documents as indexed passages. The canvas
+ * store keeps document metadata and a short preview; addDocument and
+ * removeDocument keep this index in step. Like the documents themselves it
+ * lives for the session.
+ *
+ * The index is mutated in place (rebuilding it per upload would be
+ * quadratic), so components subscribe to `version` to re-run searches.
+ */
+
+import { create } from 'zustand'
+import {
+  addChunks,
+  chunkText,
+  createTextIndex,
+  joinChunks,
+  removeDocumentChunks,
+  searchPassages,
+  type DocumentChunk,
+  type PassageHit,
+  type SearchOptions,
+} from './textIndex'
+
+const index = createTextIndex()
+
+interface DocumentTextState {
+  version: number
+  /** A passage search to open in the Provenance Hub (from the command palette) */
+  pendingQuery: string | null
+
+  indexDocument: (documentId: string, text: string) => number
+  removeDocument: (documentId: string) => void
+  search: (query: string, options?: SearchOptions) => PassageHit[]
+  fullText: (documentId: string) => string
+  openSearch: (query: string) => void
+  takePendingQuery: () => string | null
+}
+
+function chunksOf(documentId: string): DocumentChunk[] {
+  return [...index.chunks.values()].filter(chunk => chunk.documentId === documentId)
+}
+
+export const useDocumentTextStore = create<DocumentTextState>((set, get) => ({
+  version: 0,
+  pendingQuery: null,
+
+  indexDocument: (documentId, text) => {
+    removeDocumentChunks(index, documentId)
+    const chunks = chunkText(documentId, text)
+    addChunks(index, chunks)
+    set(s => ({ version: s.version + 1 }))
+    return chunks.length
+  },
+
+  removeDocument: (documentId) => {
+    removeDocumentChunks(index, documentId)
+    set(s => ({ version: s.version + 1 }))
+  },
+
+  search: (query, options) => searchPassages(index, query, options),
+
+  fullText: (documentId) => joinChunks(chunksOf(documentId)),
+
+  openSearch: (query) => set({ pendingQuery: query }),
+
+  takePendingQuery: () => {
+    const { pendingQuery } = get()
+    if (pendingQuery !== null) set({ pendingQuery: null })
+    return pendingQuery
+  },
+}))
@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest'
+import {
+  CptSchema,
+  createCpt,
+  cptRows,
+  cptIssues,
+  collapseCpts,
+  type ConditionalTable,
+} from '../cpt'
+
+const nodes = [
+  { id: 'how', type: 'decision', data: { label: 'How to build' } },
+  { id: 'inhouse', type: 'option', data: { label: 'In-house' } },
+  { id: 'outsource', type: 'option', data: { label: 'Outsource' } },
+  { id: 'market', type: 'factor', data: { label: 'Market demand' } },
+  { id: 'delay', type: 'risk', data: { label: 'Delay', prior: 0.5 } },
+]
+
+const edges = [
+  { id: 'e1', source: 'how', target: 'inhouse' },
+  { id: 'e2', source: 'how', target: 'outsource' },
+  { id: 'e3', source: 'how', target: 'delay', data: { weight: 0.4 } },
+  { id: 'e4', source: 'market', target: 'delay', data: { weight: 0.2 } },
+]
+
+const table: ConditionalTable = {
+  parents: ['how', 'market'],
+  states: ['Occurs', 'Does not occur'],
+  rows: {
+    'inhouse|yes': [0.2, 0.8],
+    'inhouse|no': [0.1, 0.9],
+    'outsource|yes': [0.6, 0.4],
+    'outsource|no': [0.3, 0.7],
+  },
+}
+
+describe('conditional probability tables', () => {
+  it('keys rows by every combination of parent states', () => {
+    const rows = cptRows(table, nodes, edges)
+
+    expect(rows.map(r => r.key)).toEqual(['inhouse|yes', 'inhouse|no', 'outsource|yes', 'outsource|no'])
+    expect(rows[0].states.map(s => s.label)).toEqual(['In-house', 'High'])
+  })
+
+  it('creates an evenly split table over current parents', () => {
+    const created = createCpt('delay', nodes, edges)
+
+    expect(created?.parents).toEqual(['how', 'market'])
+    expect(created?.states).toEqual(['Occurs', 'Does not occur'])
+    expect(Object.values(created!.rows)).toEqual(Array(4).fill([0.5, 0.5]))
+    expect(CptSchema.safeParse(created).success).toBe(true)
+    expect(createCpt('how', nodes, edges)).toBeNull()
+  })
+
+  it('reports rows off 100%, missing rows and disconnected parents', () => {
+    const broken: ConditionalTable = {
+      ...table,
+      rows: { 'inhouse|yes': [0.5, 0.4], 'inhouse|no': [0.1, 0.9], 'outsource|yes': [0.6, 0.4] },
+    }
+    const issues = cptIssues('delay', broken, nodes, edges)
+
+    expect(issues.map(i => i.rowKey)).toEqual(['inhouse|yes', 'outsource|no'])
+    expect(cptIssues('delay', table, nodes, edges.filter(e => e.id !== 'e4'))[0].message).toContain('Market demand')
+    expect(cptIssues('delay', table, nodes, edges)).toEqual([])
+  })
+
+  it('collapses to a prior and per-option edge weights', () => {
+    const graph = collapseCpts({ nodes: nodes.map(n => (n.id === 'delay' ? { ...n, data: { ...n.data, cpt: table } } : n)), edges })
+    const delay = graph.nodes.find(n => n.id === 'delay')!
+    const weightFrom = (source: string) => graph.edges.find(e => e.source === source && e.target === 'delay')?.data?.weight
+
+    expect(delay.data?.prior).toBeCloseTo(0.3)
+    expect(weightFrom('how')).toBe(0)
+    expect(weightFrom('inhouse')).toBeCloseTo(-0.3)
+    expect(weightFrom('outsource')).toBeCloseTo(0.3)
+    expect(weightFrom('market')).toBeCloseTo(0.2)
+  })
+
+  it('leaves graphs without valid tables untouched', () => {
+    const graph = { nodes, edges }
+    expect(collapseCpts(graph)).toBe(graph)
+
+    const invalid = { nodes: nodes.map(n => (n.id === 'delay' ? { ...n, data: { ...n.data, cpt: { ...table, rows: {} } } } : n)), edges }
+    expect(collapseCpts(invalid)).toBe(invalid)
+  })
+})
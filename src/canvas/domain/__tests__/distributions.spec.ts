@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest'
+import {
+  DistributionSchema,
+  createQuantile,
+  densityCurve,
+  distributionMean,
+  distributionPrior,
+  type Distribution,
+} from '../distributions'
+
+const cost: Distribution = { kind: 'pert', min: 40000, mode: 55000, max: 90000 }
+
+describe('DistributionSchema', () => {
+  it('accepts each kind with ordered parameters', () => {
+    const valid: Distribution[] = [
+      { kind: 'point', value: 0.4 },
+      { kind: 'uniform', min: 1, max: 2 },
+      { kind: 'triangular', min: 1, mode: 1.5, max: 3 },
+      cost,
+      { kind: 'normal', mean: 10, sd: 2 },
+      { kind: 'lognormal', mu: 0, sigma: 0.5 },
+      { kind: 'discrete', outcomes: [{ value: 0, probability: 0.3 }, { value: 1, probability: 0.7 }] },
+    ]
+    for (const d of valid) expect(DistributionSchema.safeParse(d).success).toBe(true)
+  })
+
+  it('rejects misordered ranges and probabilities that do not total 100%', () => {
+    expect(DistributionSchema.safeParse({ kind: 'pert', min: 10, mode: 5, max: 20 }).success).toBe(false)
+    expect(DistributionSchema.safeParse({ kind: 'uniform', min: 2, max: 2 }).success).toBe(false)
+    expect(DistributionSchema.safeParse({ kind: 'normal', mean: 0, sd: 0 }).success).toBe(false)
+    expect(DistributionSchema.safeParse({
+      kind: 'discrete',
+      outcomes: [{ value: 0, probability: 0.3 }, { value: 1, probability: 0.3 }],
+    }).success).toBe(false)
+  })
+})
+
+describe('distribution maths', () => {
+  it('inverts each CDF monotonically within its bounds', () => {
+    const quantile = createQuantile(cost)
+    const draws = [0.01, 0.25, 0.5, 0.75, 0.99].map(quantile)
+
+    expect([...draws].sort((a, b) => a - b)).toEqual(draws)
+    expect(draws[0]).toBeGreaterThanOrEqual(40000)
+    expect(draws[4]).toBeLessThanOrEqual(90000)
+    expect(createQuantile({ kind: 'normal', mean: 10, sd: 2 })(0.5)).toBeCloseTo(10, 6)
+    expect(createQuantile({ kind: 'triangular', min: 0, mode: 0.5, max: 1 })(0.5)).toBeCloseTo(0.5, 6)
+  })
+
+  it('matches the PERT mean with the tabulated quantile', () => {
+    const quantile = createQuantile(cost)
+    const n = 2000
+    let total = 0
+    for (let i = 0; i < n; i += 1) total += quantile((i + 0.5) / n)
+
+    expect(distributionMean(cost)).toBeCloseTo(58333.33, 1)
+    expect(total / n).toBeCloseTo(distributionMean(cost), -2)
+  })
+
+  it('normalises values outside 0..1 but keeps probabilities as they are', () => {
+    expect(distributionPrior({ kind: 'uniform', min: 0.2, max: 0.4 })).toBeCloseTo(0.3)
+    expect(distributionPrior({ kind: 'uniform', min: 100, max: 300 })).toBeCloseTo(0.5)
+  })
+
+  it('draws a density curve peaking at 1 near the mode', () => {
+    const curve = densityCurve({ kind: 'triangular', min: 0, mode: 2, max: 4 }, 5)
+    expect(curve.map(p => p.x)).toEqual([0, 1, 2, 3, 4])
+    expect(curve.map(p => p.y)).toEqual([0, 0.5, 1, 0.5, 0])
+  })
+})
@@ -19,3 +19,34 @@ describe('Edge Label Migration', () => {
     expect(migrated?.edges[0].data.label).toBe('TopLabel')
   })
 })
+
+describe('Distribution Migration', () => {
+  it('turns scalar priors into point distributions at the same value', () => {
+    const v2 = {
+      version: 2,
+      timestamp: Date.now(),
+      nodes: [
+        { id: 'a', type: 'factor', position: { x: 0, y: 0 }, data: { label: 'Demand', type: 'factor', prior: 0.7 } },
+        { id: 'b', type: 'risk', position: { x: 0, y: 0 }, data: { label: 'Churn', type: 'risk' } },
+      ],
+      edges: [],
+    }
+
+    const migrated = importSnapshot(v2)
+    expect(migrated?.version).toBe(3)
+    expect(migrated?.nodes[0].data.distribution).toEqual({ kind: 'point', value: 0.7 })
+    expect(migrated?.nodes[0].data.prior).toBe(0.7)
+    expect(migrated?.nodes[1].data.distribution).toBeUndefined()
+  })
+
+  it('keeps distributions already on v3 snapshots', () => {
+    const pert = { kind: 'pert', min: 40000, mode: 55000, max: 90000 }
+    const migrated = importSnapshot({
+      version: 3,
+      timestamp: Date.now(),
+      nodes: [{ id: 'c', type: 'factor', position: { x: 0, y: 0 }, data: { label: 'Cost', type: 'factor', distribution: pert, unit: '£' } }],
+      edges: [],
+    })
+    expect(migrated?.nodes[0].data.distribution).toEqual(pert)
+  })
+})
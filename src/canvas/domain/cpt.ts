@@ -0,0 +1,243 @@
+/**
+ * Conditional probability tables (CPTs)
+ * British English: normalise, serialise
+ *
+ * A risk or factor node can carry a table giving the probability of each of
+ * its states for every combination of its parents' states, e.g. "delay is
+ * 10% likely if we hire in-house, 35% if we outsource".
+ *
+ * Parent states:
+ * - decision: one state per option it connects to
+ * - option: chosen / not chosen
+ * - anything else: yes / no (risk: occurs / does not occur; else high / low)
+ *
+ * Engines without CPT support get a collapsed form (collapseCpts): the node
+ * prior becomes the table's average and each parent's edge weight its
+ * average effect, which is exact for a single binary parent.
+ */
+
+import { z } from 'zod'
+
+export const MAX_CPT_PARENTS = 3
+export const MAX_CPT_STATES = 6
+
+/** Rows are keyed by parent state ids joined with this separator, in `parents` order */
+export const CPT_KEY_SEPARATOR = '|'
+
+const ROW_TOLERANCE = 0.01
+
+/**
+ * CPT schema (v1)
+ * states[0] is the state the engines treat as "true" (occurs / high)
+ */
+export const CptSchema = z.object({
+  parents: z.array(z.string().min(1)).min(1).max(MAX_CPT_PARENTS),
+  states: z.array(z.string().min(1).max(30)).min(2).max(MAX_CPT_STATES),
+  rows: z.record(z.array(z.number().min(0).max(1))),
+})
+
+export type ConditionalTable = z.infer<typeof CptSchema>
+
+export interface CptState {
+  id: string
+  label: string
+}
+
+export interface CptRow {
+  key: string
+  /** One state per parent, in `parents` order */
+  states: CptState[]
+}
+
+export interface CptIssue {
+  message: string
+  severity: 'error' | 'warning'
+  rowKey?: string
+}
+
+// Structural graph types so both canvas nodes and engine payloads fit
+interface CptNode {
+  id: string
+  type?: unknown
+  data?: Record<string, unknown>
+}
+
+interface CptEdge {
+  id: string
+  source: string
+  target: string
+  data?: Record<string, unknown>
+}
+
+const kindOf = (node: CptNode | undefined): string | undefined => {
+  const raw = node?.data?.kind ?? node?.type
+  return typeof raw === 'string' ? raw.toLowerCase() : undefined
+}
+
+const labelOf = (node: CptNode | undefined, fallback: string): string =>
+  String(node?.data?.label ?? fallback)
+
+/** Node kinds that may carry a table */
+export const supportsCpt = (node: CptNode): boolean => {
+  const kind = kindOf(node)
+  return kind === 'risk' || kind === 'factor'
+}
+
+export function readCpt(raw: unknown): ConditionalTable | undefined {
+  const parsed = CptSchema.safeParse(raw)
+  return parsed.success ? parsed.data : undefined
+}
+
+export function defaultCptStates(node: CptNode): string[] {
+  return kindOf(node) === 'risk' ? ['Occurs', 'Does not occur'] : ['High', 'Low']
+}
+
+/**
+ * States a parent node can be in
+ */
+export function parentStates(parentId: string, nodes: CptNode[], edges: CptEdge[]): CptState[] {
+  const byId = new Map(nodes.map(n => [n.id, n]))
+  const parent = byId.get(parentId)
+  const kind = kindOf(parent)
+
+  if (kind === 'decision') {
+    const options = edges
+      .filter(e => e.source === parentId && kindOf(byId.get(e.target)) === 'option')
+      .map(e => ({ id: e.target, label: labelOf(byId.get(e.target), e.target) }))
+    if (options.length > 0) return options
+  }
+  if (kind === 'option') return [{ id: 'yes', label: 'Chosen' }, { id: 'no', label: 'Not chosen' }]
+  if (kind === 'risk') return [{ id: 'yes', label: 'Occurs' }, { id: 'no', label: 'Does not occur' }]
+  return [{ id: 'yes', label: 'High' }, { id: 'no', label: 'Low' }]
+}
+
+/**
+ * Every combination of parent states, first parent varying slowest
+ */
+export function cptRows(cpt: Pick<ConditionalTable, 'parents'>, nodes: CptNode[], edges: CptEdge[]): CptRow[] {
+  let rows: CptState[][] = [[]]
+  for (const parentId of cpt.parents) {
+    const states = parentStates(parentId, nodes, edges)
+    rows = rows.flatMap(prefix => states.map(state => [...prefix, state]))
+  }
+  return rows.map(states => ({ key: states.map(s => s.id).join(CPT_KEY_SEPARATOR), states }))
+}
+
+/**
+ * New table over the node's current parents with every row split evenly
+ */
+export function createCpt(nodeId: string, nodes: CptNode[], edges: CptEdge[]): ConditionalTable | null {
+  const node = nodes.find(n => n.id === nodeId)
+  if (!node) return null
+  const parents = [...new Set(edges.filter(e => e.target === nodeId).map(e => e.source))].slice(0, MAX_CPT_PARENTS)
+  if (parents.length === 0) return null
+
+  const states = defaultCptStates(node)
+  const even = states.map(() => 1 / states.length)
+  const rows = Object.fromEntries(cptRows({ parents }, nodes, edges).map(row => [row.key, [...even]]))
+  return { parents, states, rows }
+}
+
+/**
+ * Problems with a node's table: stale parents, missing rows, rows not summing to 1
+ */
+export function cptIssues(nodeId: string, cpt: ConditionalTable, nodes: CptNode[], edges: CptEdge[]): CptIssue[] {
+  const issues: CptIssue[] = []
+  const byId = new Map(nodes.map(n => [n.id, n]))
+  const incoming = new Set(edges.filter(e => e.target === nodeId).map(e => e.source))
+
+  for (const parentId of cpt.parents) {
+    if (!incoming.has(parentId)) {
+      issues.push({ severity: 'error', message: `Table depends on "${labelOf(byId.get(parentId), parentId)}", which no longer connects to this node` })
+    }
+  }
+  const ignored = [...incoming].filter(id => !cpt.parents.includes(id))
+  if (ignored.length > 0 && cpt.parents.length < MAX_CPT_PARENTS) {
+    issues.push({ severity: 'warning', message: `Table ignores ${ignored.map(id => `"${labelOf(byId.get(id), id)}"`).join(', ')}` })
+  }
+
+  for (const row of cptRows(cpt, nodes, edges)) {
+    const values = cpt.rows[row.key]
+    const rowLabel = row.states.map(s => s.label).join(', ')
+    if (!values || values.length !== cpt.states.length) {
+      issues.push({ severity: 'error', rowKey: row.key, message: `Row "${rowLabel}" is missing` })
+      continue
+    }
+    const total = values.reduce((sum, v) => sum + v, 0)
+    if (Math.abs(total - 1) > ROW_TOLERANCE) {
+      issues.push({ severity: 'error', rowKey: row.key, message: `Row "${rowLabel}" sums to ${Math.round(total * 100)}% (should be 100%)` })
+    }
+  }
+
+  return issues
+}
+
+/**
+ * Collapse a valid table to a prior and per-parent edge weights
+ *
+ * prior = mean over rows of P(states[0]); a parent's weight is the mean of
+ * P(states[0]) with it "on" minus with it "off". Decision parents become one
+ * edge per option (chosen vs not), since the engines carry choice on options.
+ */
+export function collapseCpt(
+  cpt: ConditionalTable,
+  nodes: CptNode[],
+  edges: CptEdge[]
+): { prior: number; weights: Array<{ source: string; weight: number }> } {
+  const rows = cptRows(cpt, nodes, edges)
+  const p = (key: string) => cpt.rows[key]?.[0] ?? 0
+  const mean = (keys: string[]) => (keys.length ? keys.reduce((sum, k) => sum + p(k), 0) / keys.length : 0)
+  const clampWeight = (w: number) => Math.max(-1, Math.min(1, w))
+
+  const weights: Array<{ source: string; weight: number }> = []
+  cpt.parents.forEach((parentId, i) => {
+    const states = parentStates(parentId, nodes, edges)
+    const isDecision = kindOf(nodes.find(n => n.id === parentId)) === 'decision' && states[0]?.id !== 'yes'
+    const on = isDecision ? states.map(s => s.id) : ['yes']
+    for (const stateId of on) {
+      const withState = rows.filter(r => r.states[i].id === stateId).map(r => r.key)
+      const without = rows.filter(r => r.states[i].id !== stateId).map(r => r.key)
+      weights.push({ source: isDecision ? stateId : parentId, weight: clampWeight(mean(withState) - mean(without)) })
+    }
+  })
+
+  return { prior: mean(rows.map(r => r.key)), weights }
+}
+
+/**
+ * Fallback for engines without CPT support: replace each valid table with its
+ * collapsed prior and edge weights. Decision parents' own edges are zeroed and
+ * option edges added, so the choice drives the node. Graphs without tables
+ * are returned unchanged.
+ */
+export function collapseCpts<G extends { nodes: CptNode[]; edges: CptEdge[] }>(graph: G): G {
+  const tables = graph.nodes
+    .map(node => ({ node, cpt: readCpt(node.data?.cpt) }))
+    .filter((t): t is { node: CptNode; cpt: ConditionalTable } =>
+      t.cpt !== undefined && !cptIssues(t.node.id, t.cpt, graph.nodes, graph.edges).some(i => i.severity === 'error'))
+  if (tables.length === 0) return graph
+
+  const nodes = [...graph.nodes]
+  let edges = [...graph.edges]
+  for (const { node, cpt } of tables) {
+    const { prior, weights } = collapseCpt(cpt, graph.nodes, graph.edges)
+    const index = nodes.findIndex(n => n.id === node.id)
+    // The table defines the node's value, so any distribution is dropped
+    nodes[index] = { ...nodes[index], data: { ...nodes[index].data, prior, distribution: undefined } }
+
+    for (const parentId of cpt.parents) {
+      if (kindOf(graph.nodes.find(n => n.id === parentId)) !== 'decision') continue
+      edges = edges.map(e => (e.source === parentId && e.target === node.id ? { ...e, data: { ...e.data, weight: 0 } } : e))
+    }
+    for (const { source, weight } of weights) {
+      const existing = edges.findIndex(e => e.source === source && e.target === node.id)
+      if (existing >= 0) {
+        edges[existing] = { ...edges[existing], data: { ...edges[existing].data, weight } }
+      } else {
+        edges.push({ id: `cpt:${source}-${node.id}`, source, target: node.id, data: { weight } })
+      }
+    }
+  }
+
+  return { ...graph, nodes, edges }
+}
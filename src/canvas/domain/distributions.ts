@@ -0,0 +1,272 @@
+/**
+ * Node value distributions
+ * British English: normalise, visualise
+ *
+ * A node's value can be a point or a typed distribution (uniform, triangular,
+ * PERT, normal, lognormal, discrete) in the user's own units, e.g. "cost
+ * £40k–£90k, most likely £55k" is PERT { min: 40000, mode: 55000, max: 90000 }.
+ *
+ * The engines work on a 0..1 scale. Distributions whose support already lies
+ * in 0..1 (probabilities, shares) are used as-is; anything else is normalised
+ * over its plotting range (see distributionBounds). A point distribution is
+ * exactly the legacy scalar prior.
+ */
+
+import { z } from 'zod'
+
+export const DistributionKindEnum = z.enum([
+  'point',
+  'uniform',
+  'triangular',
+  'pert',
+  'normal',
+  'lognormal',
+  'discrete',
+])
+export type DistributionKind = z.infer<typeof DistributionKindEnum>
+
+const finite = z.number().finite()
+const positive = z.number().finite().positive()
+
+const DistributionShapeSchema = z.discriminatedUnion('kind', [
+  z.object({ kind: z.literal('point'), value: finite }),
+  z.object({ kind: z.literal('uniform'), min: finite, max: finite }),
+  z.object({ kind: z.literal('triangular'), min: finite, mode: finite, max: finite }),
+  z.object({ kind: z.literal('pert'), min: finite, mode: finite, max: finite }),
+  z.object({ kind: z.literal('normal'), mean: finite, sd: positive }),
+  z.object({ kind: z.literal('lognormal'), mu: finite, sigma: positive }),
+  z.object({
+    kind: z.literal('discrete'),
+    outcomes: z.array(z.object({ value: finite, probability: z.number().min(0).max(1) })).min(1).max(20),
+  }),
+])
+
+/**
+ * Distribution schema (v1)
+ * Ranges must be ordered and discrete probabilities must total 1 (±1%)
+ */
+export const DistributionSchema = DistributionShapeSchema.superRefine((d, ctx) => {
+  if (d.kind === 'uniform' && !(d.min < d.max)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Minimum must be below maximum', path: ['max'] })
+  }
+  if ((d.kind === 'triangular' || d.kind === 'pert') && !(d.min <= d.mode && d.mode <= d.max && d.min < d.max)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Most likely value must sit between minimum and maximum', path: ['mode'] })
+  }
+  if (d.kind === 'discrete') {
+    const total = d.outcomes.reduce((sum, o) => sum + o.probability, 0)
+    if (Math.abs(total - 1) > 0.01) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Probabilities total ${(total * 100).toFixed(0)}%, must be 100%`, path: ['outcomes'] })
+    }
+  }
+})
+
+export type Distribution = z.infer<typeof DistributionShapeSchema>
+
+export const DISTRIBUTION_LABELS: Record<DistributionKind, string> = {
+  point: 'Single value',
+  uniform: 'Uniform',
+  triangular: 'Triangular',
+  pert: 'PERT',
+  normal: 'Normal',
+  lognormal: 'Lognormal',
+  discrete: 'Discrete',
+}
+
+export const pointDistribution = (value: number): Distribution => ({ kind: 'point', value })
+
+/**
+ * Parse untrusted node data; invalid or missing distributions return undefined
+ */
+export function readDistribution(raw: unknown): Distribution | undefined {
+  const parsed = DistributionSchema.safeParse(raw)
+  return parsed.success ? parsed.data : undefined
+}
+
+export function distributionMean(d: Distribution): number {
+  switch (d.kind) {
+    case 'point': return d.value
+    case 'uniform': return (d.min + d.max) / 2
+    case 'triangular': return (d.min + d.mode + d.max) / 3
+    case 'pert': return (d.min + 4 * d.mode + d.max) / 6
+    case 'normal': return d.mean
+    case 'lognormal': return Math.exp(d.mu + (d.sigma * d.sigma) / 2)
+    case 'discrete': {
+      const total = d.outcomes.reduce((sum, o) => sum + o.probability, 0) || 1
+      return d.outcomes.reduce((sum, o) => sum + o.value * o.probability, 0) / total
+    }
+  }
+}
+
+/**
+ * Range used for plotting and for normalising onto 0..1
+ * Unbounded distributions are cut at ±3 standard deviations (log-space for lognormal)
+ */
+export function distributionBounds(d: Distribution): [number, number] {
+  switch (d.kind) {
+    case 'point': return [d.value, d.value]
+    case 'uniform':
+    case 'triangular':
+    case 'pert': return [d.min, d.max]
+    case 'normal': return [d.mean - 3 * d.sd, d.mean + 3 * d.sd]
+    case 'lognormal': return [Math.exp(d.mu - 3 * d.sigma), Math.exp(d.mu + 3 * d.sigma)]
+    case 'discrete': {
+      const values = d.outcomes.map(o => o.value)
+      return [Math.min(...values), Math.max(...values)]
+    }
+  }
+}
+
+/** Support already on the engine's 0..1 scale, so no normalisation is needed */
+export function isUnitInterval(d: Distribution): boolean {
+  const [lo, hi] = distributionBounds(d)
+  return lo >= 0 && hi <= 1
+}
+
+const PERT_TABLE_SIZE = 256
+
+const pertShape = (d: { min: number; mode: number; max: number }) => {
+  const span = d.max - d.min
+  return { alpha: 1 + (4 * (d.mode - d.min)) / span, beta: 1 + (4 * (d.max - d.mode)) / span }
+}
+
+/** Acklam's rational approximation of the standard normal inverse CDF */
+function normalQuantile(p: number): number {
+  const a = [-39.69683028665376, 220.9460984245205, -275.9285104469687, 138.357751867269, -30.66479806614716, 2.506628277459239]
+  const b = [-54.47609879822406, 161.5858368580409, -155.6989798598866, 66.80131188771972, -13.28068155288572]
+  const c = [-0.007784894002430293, -0.3223964580411365, -2.400758277161838, -2.549732539343734, 4.374664141464968, 2.938163982698783]
+  const e = [0.007784695709041462, 0.3224671290700398, 2.445134137142996, 3.754408661907416]
+  const q = Math.min(1 - 1e-9, Math.max(1e-9, p))
+  if (q < 0.02425) {
+    const r = Math.sqrt(-2 * Math.log(q))
+    return (((((c[0] * r + c[1]) * r + c[2]) * r + c[3]) * r + c[4]) * r + c[5]) / ((((e[0] * r + e[1]) * r + e[2]) * r + e[3]) * r + 1)
+  }
+  if (q > 1 - 0.02425) {
+    const r = Math.sqrt(-2 * Math.log(1 - q))
+    return -(((((c[0] * r + c[1]) * r + c[2]) * r + c[3]) * r + c[4]) * r + c[5]) / ((((e[0] * r + e[1]) * r + e[2]) * r + e[3]) * r + 1)
+  }
+  const r = (q - 0.5) * (q - 0.5)
+  const s = q - 0.5
+  return ((((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * s) / (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1)
+}
+
+/**
+ * Build the inverse CDF for a distribution. PERT has no closed form, so its
+ * CDF is tabulated once here and inverted by interpolation.
+ */
+export function createQuantile(d: Distribution): (u: number) => number {
+  switch (d.kind) {
+    case 'point': return () => d.value
+    case 'uniform': return u => d.min + u * (d.max - d.min)
+    case 'triangular': {
+      const span = d.max - d.min
+      const cut = (d.mode - d.min) / span
+      return u => (u < cut
+        ? d.min + Math.sqrt(u * span * (d.mode - d.min))
+        : d.max - Math.sqrt((1 - u) * span * (d.max - d.mode)))
+    }
+    case 'pert': {
+      const { alpha, beta } = pertShape(d)
+      const cdf = [0]
+      let total = 0
+      for (let i = 1; i <= PERT_TABLE_SIZE; i += 1) {
+        const x = (i - 0.5) / PERT_TABLE_SIZE
+        total += Math.pow(x, alpha - 1) * Math.pow(1 - x, beta - 1)
+        cdf.push(total)
+      }
+      return (u) => {
+        const target = u * total
+        let lo = 0
+        let hi = PERT_TABLE_SIZE
+        while (hi - lo > 1) {
+          const mid = (lo + hi) >> 1
+          if (cdf[mid] < target) lo = mid
+          else hi = mid
+        }
+        const step = cdf[hi] - cdf[lo]
+        const t = (lo + (step > 0 ? (target - cdf[lo]) / step : 0)) / PERT_TABLE_SIZE
+        return d.min + t * (d.max - d.min)
+      }
+    }
+    case 'normal': return u => d.mean + d.sd * normalQuantile(u)
+    case 'lognormal': return u => Math.exp(d.mu + d.sigma * normalQuantile(u))
+    case 'discrete': {
+      const total = d.outcomes.reduce((sum, o) => sum + o.probability, 0) || 1
+      return (u) => {
+        let acc = 0
+        for (const o of d.outcomes) {
+          acc += o.probability / total
+          if (u < acc) return o.value
+        }
+        return d.outcomes[d.outcomes.length - 1].value
+      }
+    }
+  }
+}
+
+/**
+ * Map a value in the distribution's own units onto the engine's 0..1 scale
+ */
+export function createNormaliser(d: Distribution): (value: number) => number {
+  if (isUnitInterval(d)) return value => value
+  const [lo, hi] = distributionBounds(d)
+  const span = hi - lo
+  return value => (span > 0 ? Math.min(1, Math.max(0, (value - lo) / span)) : 0.5)
+}
+
+/** The scalar prior (0..1) a distribution stands for, i.e. its normalised mean */
+export function distributionPrior(d: Distribution): number {
+  return Math.min(1, Math.max(0, createNormaliser(d)(distributionMean(d))))
+}
+
+/**
+ * Density curve for sparklines: `points` evenly spaced x values across the
+ * bounds with their relative density (max 1). Discrete outcomes are spikes.
+ */
+export function densityCurve(d: Distribution, points = 48): Array<{ x: number; y: number }> {
+  const [lo, hi] = distributionBounds(d)
+  if (d.kind === 'point' || hi <= lo) return [{ x: lo, y: 1 }]
+  if (d.kind === 'discrete') {
+    const max = Math.max(...d.outcomes.map(o => o.probability)) || 1
+    return [...d.outcomes].sort((a, b) => a.value - b.value).map(o => ({ x: o.value, y: o.probability / max }))
+  }
+
+  const density = (x: number): number => {
+    switch (d.kind) {
+      case 'uniform': return 1
+      case 'triangular': return x <= d.mode
+        ? (d.mode > d.min ? (x - d.min) / (d.mode - d.min) : 1)
+        : (d.max > d.mode ? (d.max - x) / (d.max - d.mode) : 1)
+      case 'pert': {
+        const { alpha, beta } = pertShape(d)
+        const t = Math.min(1, Math.max(0, (x - d.min) / (d.max - d.min)))
+        return Math.pow(t, alpha - 1) * Math.pow(1 - t, beta - 1)
+      }
+      case 'normal': return Math.exp(-0.5 * ((x - d.mean) / d.sd) ** 2)
+      case 'lognormal': return x > 0 ? Math.exp(-0.5 * ((Math.log(x) - d.mu) / d.sigma) ** 2) / x : 0
+    }
+  }
+
+  const curve = Array.from({ length: points }, (_, i) => {
+    const x = lo + ((hi - lo) * i) / (points - 1)
+    return { x, y: density(x) }
+  })
+  const max = Math.max(...curve.map(p => p.y)) || 1
+  return curve.map(p => ({ x: p.x, y: p.y / max }))
+}
+
+/**
+ * Default parameters when the user switches kind, centred on the current mean
+ */
+export function defaultDistribution(kind: DistributionKind, around: number): Distribution {
+  const centre = Number.isFinite(around) ? around : 0.5
+  const spread = Math.abs(centre) > 1 ? Math.abs(centre) * 0.25 : 0.1
+  switch (kind) {
+    case 'point': return { kind, value: centre }
+    case 'uniform': return { kind, min: centre - spread, max: centre + spread }
+    case 'triangular':
+    case 'pert': return { kind, min: centre - spread, mode: centre, max: centre + spread }
+    case 'normal': return { kind, mean: centre, sd: spread / 2 }
+    case 'lognormal': return { kind, mu: Math.log(Math.max(centre, 1e-6)), sigma: 0.25 }
+    case 'discrete': return { kind, outcomes: [{ value: centre - spread, probability: 0.5 }, { value: centre + spread, probability: 0.5 }] }
+  }
+}
@@ -65,6 +65,10 @@ export const EdgeDataSchema = z.object({
   belief: z.number().min(0).max(1).optional(),           // Epistemic uncertainty (0-1) for this connection
   provenance: z.string().max(100).optional(),             // Short source/rationale tag (e.g. "template", "user", "inferred")
 
+  // Evidence freshness (see utils/evidenceFreshness)
+  reviewBy: z.string().optional(),                        // ISO date; the evidence counts as stale after it
+  reviewedAt: z.string().optional(),                      // ISO timestamp of the last "mark reviewed"
+
   // Template tracking
   templateId: z.string().optional(),
 
@@ -7,6 +7,7 @@
 import { z } from 'zod'
 import { NodeDataSchema, AnyNodeDataSchema } from './nodes'
 import { EdgeDataSchema, DEFAULT_EDGE_DATA } from './edges'
+import { pointDistribution } from './distributions'
 import { captureError } from '../../lib/monitoring'
 
 /**
@@ -14,7 +15,8 @@ import { captureError } from '../../lib/monitoring'
  */
 export const SCHEMA_VERSION_V1 = 1
 export const SCHEMA_VERSION_V2 = 2
-export const CURRENT_SCHEMA_VERSION = SCHEMA_VERSION_V2
+export const SCHEMA_VERSION_V3 = 3
+export const CURRENT_SCHEMA_VERSION = SCHEMA_VERSION_V3
 
 /**
  * V1 snapshot schema (legacy)
@@ -28,7 +30,7 @@ const V1SnapshotSchema = z.object({
 })
 
 /**
- * V2 snapshot schema (current)
+ * V2 snapshot schema
  * Includes node types and edge visual properties
  */
 const V2SnapshotSchema = z.object({
@@ -49,8 +51,17 @@ const V2SnapshotSchema = z.object({
   })),
 })
 
+/**
+ * V3 snapshot schema (current)
+ * Same shape as v2; node values are distributions (scalar priors become points)
+ */
+const V3SnapshotSchema = V2SnapshotSchema.extend({
+  version: z.literal(3),
+})
+
 export type V1Snapshot = z.infer<typeof V1SnapshotSchema>
 export type V2Snapshot = z.infer<typeof V2SnapshotSchema>
+export type V3Snapshot = z.infer<typeof V3SnapshotSchema>
 
 /**
  * Migrate v1 node to v2 with safe defaults
@@ -129,12 +140,46 @@ export function migrateV1ToV2(snapshot: V1Snapshot): V2Snapshot | null {
   }
 }
 
+/**
+ * Migrate v2 node to v3
+ * A scalar prior becomes a point distribution at the same value, which the
+ * engines treat exactly like the prior, so results do not change
+ */
+function migrateNodeV2ToV3(node: V2Snapshot['nodes'][number]): V2Snapshot['nodes'][number] {
+  if (node.data.distribution || typeof node.data.prior !== 'number') return node
+  return {
+    ...node,
+    data: { ...node.data, distribution: pointDistribution(node.data.prior) },
+  }
+}
+
+/**
+ * Migrate v2 snapshot to v3
+ * Returns migrated snapshot or null on failure
+ */
+export function migrateV2ToV3(snapshot: V2Snapshot): V3Snapshot | null {
+  try {
+    return V3SnapshotSchema.parse({
+      ...snapshot,
+      version: 3,
+      nodes: snapshot.nodes.map(migrateNodeV2ToV3),
+    })
+  } catch (error) {
+    captureError(error as Error, {
+      component: 'canvas-migration',
+      migration: 'v2-to-v3',
+    })
+    return null
+  }
+}
+
 /**
  * Detect snapshot version
- * Returns 1, 2, or null if unrecognised
+ * Returns 1, 2, 3, or null if unrecognised
  */
 export function detectVersion(snapshot: any): number | null {
   // Explicit version field
+  if (snapshot.version === 3) return 3
   if (snapshot.version === 2) return 2
   if (snapshot.version === 1) return 1
   
@@ -158,9 +203,9 @@ export function detectVersion(snapshot: any): number | null {
 
 /**
  * Import snapshot with automatic migration
- * Returns validated v2 snapshot or null on failure
+ * Returns validated v3 snapshot or null on failure
  */
-export function importSnapshot(rawSnapshot: any): V2Snapshot | null {
+export function importSnapshot(rawSnapshot: any): V3Snapshot | null {
   const version = detectVersion(rawSnapshot)
   
   if (version === null) {
@@ -170,9 +215,21 @@ export function importSnapshot(rawSnapshot: any): V2Snapshot | null {
     return null
   }
   
+  if (version === 3) {
+    try {
+      return V3SnapshotSchema.parse(rawSnapshot)
+    } catch (error) {
+      captureError(error as Error, {
+        component: 'canvas-migration',
+        validation: 'v3-parse-failed',
+      })
+      return null
+    }
+  }
+
   if (version === 2) {
     try {
-      return V2SnapshotSchema.parse(rawSnapshot)
+      return migrateV2ToV3(V2SnapshotSchema.parse(rawSnapshot))
     } catch (error) {
       captureError(error as Error, {
         component: 'canvas-migration',
@@ -183,15 +240,16 @@ export function importSnapshot(rawSnapshot: any): V2Snapshot | null {
   }
   
   // version === 1, migrate
-  return migrateV1ToV2(rawSnapshot)
+  const v2 = migrateV1ToV2(rawSnapshot)
+  return v2 ? migrateV2ToV3(v2) : null
 }
 
 /**
- * Export current graph as v2 snapshot
+ * Export current graph as v3 snapshot
  */
-export function exportSnapshot(nodes: any[], edges: any[]): V2Snapshot {
+export function exportSnapshot(nodes: any[], edges: any[]): V3Snapshot {
   return {
-    version: 2,
+    version: 3,
     timestamp: Date.now(),
     nodes,
     edges,
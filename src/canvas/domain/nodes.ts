@@ -6,6 +6,8 @@
 import { z } from 'zod'
 import { Target, Crosshair, Lightbulb, Settings, AlertTriangle, TrendingUp } from 'lucide-react'
 import type { LucideIcon } from 'lucide-react'
+import { DistributionSchema } from './distributions'
+import { CptSchema } from './cpt'
 
 /**
  * Node type taxonomy for decision trees
@@ -20,9 +22,12 @@ export const NodeTypeEnum = z.enum(['goal', 'decision', 'option', 'factor', 'ris
 export type NodeType = z.infer<typeof NodeTypeEnum>
 
 /**
- * Base node data schema (v3)
+ * Base node data schema (v4)
  * All nodes share: label, type, optional description
  * v3 adds v1.2 API fields: kind, prior, utility, body
+ * v4 adds distribution (typed uncertainty, see ./distributions) and unit
+ *    and cpt (conditional probability table for risk/factor nodes, see ./cpt)
+ * v5 adds provenance: where the node came from (e.g. "premortem"), as on edges
  */
 export const NodeDataSchema = z.object({
   label: z.string().min(1).max(100),
@@ -34,6 +39,14 @@ export const NodeDataSchema = z.object({
   prior: z.number().min(0).max(1).optional(), // Probability (0..1)
   utility: z.number().min(-1).max(1).optional(), // Relative payoff (-1..+1)
   body: z.string().max(2000).optional(), // Longer text (distinct from description)
+
+  // v4: value as a distribution in the user's units (prior stays in sync as its normalised mean)
+  distribution: DistributionSchema.optional(),
+  unit: z.string().max(12).optional(), // Display unit, e.g. "£" or "weeks"
+  cpt: CptSchema.optional(), // Risk/factor only: P(state | parent states)
+
+  // v5
+  provenance: z.string().max(100).optional(), // Short source tag, e.g. "premortem"
 })
 
 /**
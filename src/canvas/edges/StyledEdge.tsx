@@ -13,7 +13,7 @@
 
 import { memo, useMemo, useState } from 'react'
 import { BaseEdge, EdgeLabelRenderer, getBezierPath, getSmoothStepPath, getStraightPath, type EdgeProps, useReactFlow } from '@xyflow/react'
-import { Lightbulb } from 'lucide-react'
+import { Lightbulb, Paperclip } from 'lucide-react'
 import type { EdgeData, EdgePathType } from '../domain/edges'
 import { applyEdgeVisualProps } from '../theme/edges'
 import { formatConfidence, shouldShowLabel } from '../domain/edges'
@@ -24,6 +24,8 @@ import { EdgeEditPopover } from './EdgeEditPopover'
 import { useCanvasStore } from '../store'
 import { typography } from '../../styles/typography'
 import { useEdgeEditHint } from '../hooks/useFirstTimeHints'
+import { useFreshnessRules } from '../store/freshnessRules'
+import { assessEdgeFreshness, decayedBelief, latestEvidenceTime, thresholdsFor } from '../utils/evidenceFreshness'
 
 /**
  * StyledEdge with semantic visual properties
@@ -47,6 +49,13 @@ export const StyledEdge = memo(({ id, source, target, sourceX, sourceY, targetX,
   const [editPopoverPosition, setEditPopoverPosition] = useState({ x: 0, y: 0 })
   const updateEdgeData = useCanvasStore(state => state.updateEdgeData)
   const ceeReview = useCanvasStore(state => state.runMeta.ceeReview)
+  // Document citations on this edge (primitive selectors: counts only re-render on change)
+  const citationCount = useCanvasStore(state => state.citations.filter(c => c.edgeId === id).length)
+  const contradictingCount = useCanvasStore(
+    state => state.citations.filter(c => c.edgeId === id && c.stance === 'contradicts').length
+  )
+  const evidenceAt = useCanvasStore(state => latestEvidenceTime(state.citations, state.documents, id as string))
+  const freshnessRules = useFreshnessRules(state => state.rules)
 
   // Extract edge data with defaults
   const edgeData = data as EdgeData | undefined
@@ -68,8 +77,25 @@ export const StyledEdge = memo(({ id, source, target, sourceX, sourceY, targetX,
   const kind = edgeData?.kind ?? 'decision-probability'
   const label = edgeData?.label
   const confidence = edgeData?.confidence
-  const belief = edgeData?.belief      // v1.2
+  const storedBelief = edgeData?.belief      // v1.2
   const provenance = edgeData?.provenance  // v1.2
+  const reviewBy = edgeData?.reviewBy
+  const reviewedAt = edgeData?.reviewedAt
+  const targetType = getNode(target as string)?.type
+
+  // Once the edge's evidence expires, the displayed belief decays (the stored value is untouched)
+  const belief = useMemo(() => {
+    if (storedBelief === undefined) return undefined
+    const freshness = assessEdgeFreshness({
+      edgeId: id as string,
+      evidenceAt,
+      reviewBy,
+      reviewedAt,
+      thresholds: thresholdsFor(freshnessRules, targetType),
+    })
+    return decayedBelief(storedBelief, freshness, freshnessRules.beliefHalfLifeDays)
+  }, [storedBelief, id, evidenceAt, reviewBy, reviewedAt, targetType, freshnessRules])
+  const beliefDecayed = belief !== undefined && storedBelief !== undefined && belief < storedBelief
 
   // Count outgoing edges from source node for visibility logic
   const outgoingEdgeCount = useMemo(() => {
@@ -188,7 +214,10 @@ export const StyledEdge = memo(({ id, source, target, sourceX, sourceY, targetX,
           title={(() => {
             const desc = getEdgeLabel(weight, belief, labelMode)
             const baseTooltip = provenance ? `${desc.tooltip} • Source: ${provenance}` : desc.tooltip
-            return `${baseTooltip}\n\nDouble-click to edit`
+            const decayNote = beliefDecayed
+              ? `\nEvidence expired: belief shown decayed from ${Math.round(storedBelief! * 100)}%`
+              : ''
+            return `${baseTooltip}${decayNote}\n\nDouble-click to edit`
           })()}
           onDoubleClick={handleLabelDoubleClick}
         >
@@ -210,6 +239,18 @@ export const StyledEdge = memo(({ id, source, target, sourceX, sourceY, targetX,
                 }}>
                   {desc.label}
                 </span>
+                {citationCount > 0 && (
+                  <span
+                    className={`inline-flex items-center gap-0.5 flex-shrink-0 ${
+                      contradictingCount > 0 ? 'text-danger-600' : 'text-ink-900/60'
+                    }`}
+                    title={`${citationCount - contradictingCount} supporting · ${contradictingCount} contradicting`}
+                    data-testid="edge-citation-count"
+                  >
+                    <Paperclip className="w-3 h-3" aria-hidden="true" />
+                    {citationCount}
+                  </span>
+                )}
                 {provenance && (
                   <span
                     style={{
@@ -236,7 +277,7 @@ export const StyledEdge = memo(({ id, source, target, sourceX, sourceY, targetX,
       {/* P0-9: Inline edge edit popover */}
       {showEditPopover && (
         <EdgeEditPopover
-          edge={{ id, data: { weight, belief: belief ?? 0.5 } }}
+          edge={{ id, data: { weight, belief: storedBelief ?? 0.5 } }}
           position={editPopoverPosition}
           onUpdate={handleEdgeUpdate}
           onClose={() => setShowEditPopover(false)}
@@ -101,6 +101,34 @@ describe('Decision Brief Export', () => {
     expect(html).toContain('This is our reasoning')
   })
 
+  it('includes the audit trail when provided', () => {
+    const html = generateDecisionBriefHTML({
+      title: 'Test',
+      runA: mockRunA as StoredRun,
+      runB: mockRunB as StoredRun,
+      auditTrail: [
+        {
+          id: 'ev1',
+          scenarioId: 's1',
+          at: Date.now(),
+          actor: { id: 'u1', name: 'Ada <Lovelace>' },
+          cause: 'edit',
+          target: { kind: 'edge', id: 'e1', label: 'Price → Demand' },
+          action: 'updated',
+          before: { id: 'e1' },
+          after: { id: 'e1' },
+          changes: [{ field: 'data.weight', before: 0.3, after: 0.8 }],
+          reason: 'New survey data'
+        }
+      ]
+    })
+
+    expect(html).toContain('Audit Trail')
+    expect(html).toContain('Edge "Price → Demand": weight 0.3 → 0.8')
+    expect(html).toContain('Ada &lt;Lovelace&gt;')
+    expect(html).toContain('New survey data')
+  })
+
   it('includes seed and response hashes', () => {
     const html = generateDecisionBriefHTML({
       title: 'Test',
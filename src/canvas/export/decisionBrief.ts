@@ -2,17 +2,22 @@
  * N1: Decision Brief Export
  *
  * Generates print-ready HTML export of comparison analysis
- * Includes: title, timestamps, stats, edge diffs, rationale, hashes
+ * Includes: title, timestamps, stats, edge diffs, rationale, audit trail,
+ * pre-mortem transcripts, hashes
  */
 
 import type { StoredRun } from '../store/runHistory'
 import { computeEdgeDiffs, type EdgeDiffRow } from '../compare/EdgeDiffTable'
+import { describeAuditEvent, AUDIT_CAUSES, type AuditEvent } from '../audit/trail'
+import { rankClusters, type PremortemSession } from '../premortem/session'
 
 export interface DecisionBriefData {
   title: string
   runA: StoredRun
   runB: StoredRun
   rationale?: string
+  auditTrail?: AuditEvent[] // Model edits of the scenario, oldest first
+  premortem?: PremortemSession[] // Pre-mortem sessions run on the scenario, oldest first
 }
 
 /**
@@ -37,7 +42,7 @@ export function exportDecisionBrief(data: DecisionBriefData): void {
  * Generate HTML for decision brief
  */
 export function generateDecisionBriefHTML(data: DecisionBriefData): string {
-  const { title, runA, runB, rationale } = data
+  const { title, runA, runB, rationale, auditTrail, premortem } = data
   const edgeDiffs = computeEdgeDiffs(runA, runB, 5)
   const timestamp = new Date().toISOString()
 
@@ -290,6 +295,10 @@ export function generateDecisionBriefHTML(data: DecisionBriefData): string {
 
   ${rationale ? `<h2>Decision Rationale</h2><div class="rationale">${escapeHtml(rationale)}</div>` : ''}
 
+  ${auditTrail && auditTrail.length > 0 ? `<h2>Audit Trail</h2>${generateAuditTrailTable(auditTrail)}` : ''}
+
+  ${premortem && premortem.length > 0 ? `<h2>Pre-mortem</h2>${premortem.map(generatePremortemSection).join('')}` : ''}
+
   <div class="hash-section">
     <h3 style="margin-top: 0;">Reproducibility Information</h3>
     <div class="hash-row">
@@ -414,6 +423,71 @@ function generateEdgeDiffTable(diffs: EdgeDiffRow[]): string {
   </table>`
 }
 
+function generateAuditTrailTable(events: AuditEvent[]): string {
+  const rows = events
+    .map(
+      (event) => `
+    <tr>
+      <td style="white-space: nowrap;">${escapeHtml(new Date(event.at).toLocaleString('en-GB'))}</td>
+      <td>${escapeHtml(event.actor.name)}</td>
+      <td>${escapeHtml(describeAuditEvent(event))}${event.cause !== 'edit' ? ` <span class="badge">${escapeHtml(AUDIT_CAUSES[event.cause])}</span>` : ''}</td>
+      <td>${event.reason ? escapeHtml(event.reason) : '—'}</td>
+    </tr>
+  `
+    )
+    .join('')
+
+  return `<table>
+    <thead>
+      <tr>
+        <th>When</th>
+        <th>Who</th>
+        <th>Change</th>
+        <th>Reason</th>
+      </tr>
+    </thead>
+    <tbody>
+      ${rows}
+    </tbody>
+  </table>`
+}
+
+function generatePremortemSection(session: PremortemSession): string {
+  const reasonsById = new Map(session.contributions.map(c => [c.id, c]))
+  const rows = rankClusters(session)
+    .map(
+      (cluster) => `
+    <tr>
+      <td>${escapeHtml(cluster.label)}</td>
+      <td>${cluster.votes}</td>
+      <td>${cluster.contributionIds
+        .map(id => reasonsById.get(id))
+        .filter((reason): reason is NonNullable<typeof reason> => !!reason)
+        .map(reason => `${escapeHtml(reason.text)} <span class="badge">${escapeHtml(reason.author?.name ?? 'Anonymous')}</span>`)
+        .join('<br>')}</td>
+      <td>${cluster.riskNodeId ? 'Risk added' : '—'}</td>
+    </tr>
+  `
+    )
+    .join('')
+
+  return `<h3>${escapeHtml(session.premise)}</h3>
+  <p>${escapeHtml(new Date(session.startedAt).toLocaleString('en-GB'))} · facilitated by ${escapeHtml(session.facilitator.name)} · ${session.contributions.length} ${session.contributions.length === 1 ? 'reason' : 'reasons'}${session.anonymous ? ' (anonymised)' : ''}</p>
+  <table>
+    <thead>
+      <tr>
+        <th>Cause</th>
+        <th>Votes</th>
+        <th>Reasons</th>
+        <th>Outcome</th>
+      </tr>
+    </thead>
+    <tbody>
+      ${rows}
+    </tbody>
+  </table>`
+}
+
 function escapeHtml(str: string): string {
   const div = document.createElement('div')
   div.textContent = str
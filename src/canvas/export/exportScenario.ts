@@ -1,11 +1,13 @@
 /**
  * P0-2: Export Scenario to File
  *
- * Exports a scenario with metadata + graph as downloadable JSON file.
+ * Exports a scenario with metadata + graph as downloadable JSON file, along
+ * with the records kept with it (comment threads, audit trail, tour, bias
+ * work, pre-mortems). Importing reseeds node ids, so it restores the graph only.
  * Format: `{scenarioName}.olumi.json`
  */
 
-import type { Scenario } from '../store/scenarios'
+import { SCENARIO_RECORD_FIELDS, type Scenario, type ScenarioRecords } from '../store/scenarios'
 
 export interface ScenarioExportData {
   format: 'olumi-scenario-v1'
@@ -23,6 +25,7 @@ export interface ScenarioExportData {
     nodes: any[]
     edges: any[]
   }
+  records?: ScenarioRecords
 }
 
 /**
@@ -41,7 +44,8 @@ export function exportScenario(scenario: Scenario): void {
       source_template_version: scenario.source_template_version,
       last_result_hash: scenario.last_result_hash
     },
-    graph: scenario.graph
+    graph: scenario.graph,
+    records: scenarioRecordsOf(scenario),
   }
 
   const json = JSON.stringify(data, null, 2)
@@ -58,6 +62,14 @@ export function exportScenario(scenario: Scenario): void {
   URL.revokeObjectURL(url)
 }
 
+function scenarioRecordsOf(scenario: Scenario): ScenarioRecords | undefined {
+  const records: ScenarioRecords = {}
+  for (const field of SCENARIO_RECORD_FIELDS) {
+    if (scenario[field]?.length) Object.assign(records, { [field]: scenario[field] })
+  }
+  return Object.keys(records).length > 0 ? records : undefined
+}
+
 /**
  * Sanitise scenario name for use as filename
  */
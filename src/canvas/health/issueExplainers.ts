@@ -13,5 +13,7 @@ export const ISSUE_EXPLAINERS: Record<IssueType, string> = {
   dangling_edge: 'Edges without valid endpoints cause analysis failures',
   duplicate_edge: 'Duplicate connections skew probability calculations',
   missing_label: 'Unlabelled elements reduce graph readability',
-  invalid_type: 'Invalid node types may not render or analyse correctly'
+  invalid_type: 'Invalid node types may not render or analyse correctly',
+  probability_error: 'Outgoing probabilities that do not sum to 100% distort every downstream estimate',
+  cpt_error: 'Incomplete or inconsistent probability tables leave the engine guessing for some parent states'
 }
@@ -3,38 +3,51 @@
  *
  * Renders non-mutating highlights over canvas elements when Results panel shows drivers.
  * Uses React Flow's useReactFlow to get node/edge positions.
+ *
+ * While following a presenter, their highlighted drivers are shown instead.
  */
 
-import { useEffect, useState } from 'react'
+import { useEffect } from 'react'
 import { useReactFlow, useStore } from '@xyflow/react'
 import { useCanvasStore, selectDrivers, selectResultsStatus } from '../store'
+import { useDriverFocusStore } from './driverFocus'
+
+export interface DriverHighlight {
+  drivers: Array<{ kind: 'node' | 'edge'; id: string }>
+  focusedDriverId: string | null
+}
 
 interface HighlightLayerProps {
   isResultsOpen: boolean
+  /** Highlights mirrored from a presenter; replaces this canvas's own while set */
+  followed?: DriverHighlight | null
 }
 
-export function HighlightLayer({ isResultsOpen }: HighlightLayerProps): JSX.Element | null {
-  const drivers = useCanvasStore(selectDrivers)
+export function HighlightLayer({ isResultsOpen, followed = null }: HighlightLayerProps): JSX.Element | null {
+  const ownDrivers = useCanvasStore(selectDrivers)
   const status = useCanvasStore(selectResultsStatus)
+  const focusedId = useDriverFocusStore(s => s.focusedId)
+  const setFocusedDriver = useDriverFocusStore(s => s.setFocusedDriver)
   const { getNode, getEdge } = useReactFlow()
 
-  // Only show highlights when Results is open, complete, and has drivers
-  const shouldHighlight = isResultsOpen && status === 'complete' && drivers && drivers.length > 0
-
   // Get all nodes/edges from React Flow (for positions)
   const nodes = useStore(state => state.nodes)
   const edges = useStore(state => state.edges)
 
-  const [hoveredDriverId, setHoveredDriverId] = useState<string | null>(null)
-
   useEffect(() => {
     // Clear highlights when panel closes
     if (!isResultsOpen) {
-      setHoveredDriverId(null)
+      setFocusedDriver(null)
     }
-  }, [isResultsOpen])
+  }, [isResultsOpen, setFocusedDriver])
+
+  // Only show own highlights when Results is open, complete, and has drivers
+  const drivers = followed
+    ? followed.drivers
+    : isResultsOpen && status === 'complete' && ownDrivers ? ownDrivers : []
+  const hoveredDriverId = followed ? followed.focusedDriverId : focusedId
 
-  if (!shouldHighlight) {
+  if (drivers.length === 0) {
     return null
   }
 
@@ -0,0 +1,18 @@
+/**
+ * Driver focus - which driver the user is pointing at in the Results panel
+ *
+ * DriverChips sets it (hover dwell, keyboard focus, click); HighlightLayer
+ * emphasises it, and presenter mode broadcasts it so followers see the same.
+ */
+
+import { create } from 'zustand'
+
+interface DriverFocusState {
+  focusedId: string | null // Node or edge id
+  setFocusedDriver: (id: string | null) => void
+}
+
+export const useDriverFocusStore = create<DriverFocusState>(set => ({
+  focusedId: null,
+  setFocusedDriver: (id) => set({ focusedId: id }),
+}))
@@ -231,3 +231,33 @@ describe('useResultsRun diagnostics wiring', () => {
     expect(health?.score).toBe(50)
   })
 })
+
+describe('useResultsRun stop early', () => {
+  beforeEach(() => {
+    getMockStreamRun().mockReset()
+  })
+
+  it('stops a run started from another instance of the hook', async () => {
+    const cancelStream = vi.fn()
+    let handlers: any
+    getMockStreamRun().mockImplementation((_request: any, h: any) => {
+      handlers = h
+      return cancelStream
+    })
+
+    // e.g. started from the toolbar, stopped from the outputs dock
+    const toolbar = renderHook(() => useResultsRun())
+    const dock = renderHook(() => useResultsRun())
+
+    await toolbar.result.current.run({ template_id: 'tpl-1', seed: 7 } as any)
+    handlers.onInterim?.({ samples: 800, bands: { p10: 1, p50: 2, p90: 3 } })
+    dock.result.current.stopEarly()
+
+    expect(cancelStream).toHaveBeenCalledTimes(1)
+    expect(useCanvasStore.getState().results).toMatchObject({ status: 'cancelled', stoppedEarly: true })
+
+    // The handle is spent: stopping again does nothing
+    toolbar.result.current.cancel()
+    expect(cancelStream).toHaveBeenCalledTimes(1)
+  })
+})
@@ -0,0 +1,101 @@
+/**
+ * Interim results end to end: SSE interim_result events from the engine reach
+ * the results panel while the run is still streaming, before the final event
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { act, render, renderHook, screen, waitFor } from '@testing-library/react'
+import { useResultsRun } from '../useResultsRun'
+import { useCanvasStore } from '../../store'
+import { ResultsPanel } from '../../panels/ResultsPanel'
+import { LayerProvider } from '../../components/LayerProvider'
+import { ToastProvider } from '../../ToastContext'
+import { clearCapabilitiesCache } from '../../../adapters/plot/v1/http'
+
+// The real httpv1 adapter, so events go through sseClient and the adapter's mapping
+vi.mock('../../../adapters/plot', async () => {
+  const { httpV1Adapter } = await import('../../../adapters/plot/httpV1Adapter')
+  return { plot: httpV1Adapter, adapterName: 'httpv1' }
+})
+
+// Avoid requiring a React Flow provider
+vi.mock('../../hooks/useValidationFeedback', () => ({
+  useValidationFeedback: () => ({
+    focusError: () => {},
+    formatError: (error: any) => error,
+    formatErrors: (errors: any[]) => errors,
+  }),
+}))
+
+const encoder = new TextEncoder()
+const originalFetch = globalThis.fetch
+
+/** A /v1/stream response the test writes events to */
+function openStream() {
+  let controller!: ReadableStreamDefaultController<Uint8Array>
+  const body = new ReadableStream<Uint8Array>({ start(c) { controller = c } })
+  return {
+    response: new Response(body, { status: 200, headers: { 'content-type': 'text/event-stream' } }),
+    send: (event: string, data: unknown) => controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`)),
+    close: () => controller.close(),
+  }
+}
+
+const interimEvent = (samples: number, p50: number) => ({
+  samples_completed: samples,
+  samples_total: 2000,
+  summary: { p10: p50 - 0.2, p50, p90: p50 + 0.2, units: 'percent' },
+})
+
+describe('useResultsRun interim results over SSE', () => {
+  beforeEach(() => {
+    clearCapabilitiesCache()
+    useCanvasStore.getState().resultsReset()
+  })
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch
+  })
+
+  it('shows each interim estimate before the final event arrives', async () => {
+    const stream = openStream()
+    globalThis.fetch = vi.fn(async (input: RequestInfo | URL) =>
+      String(input).endsWith('/v1/stream') ? stream.response : new Response('', { status: 404 })
+    ) as typeof fetch
+
+    render(
+      <ToastProvider>
+        <LayerProvider>
+          <ResultsPanel isOpen={true} onClose={vi.fn()} />
+        </LayerProvider>
+      </ToastProvider>
+    )
+    const { result } = renderHook(() => useResultsRun())
+    await act(() =>
+      result.current.run({
+        template_id: 'canvas-graph',
+        seed: 7,
+        graph: { nodes: [{ id: 'a', data: { label: 'Demand' } }], edges: [] },
+      })
+    )
+
+    stream.send('started', { run_id: 'run-1' })
+    stream.send('interim_result', interimEvent(800, 0.5))
+    await waitFor(() => expect(screen.getByTestId('interim-samples')).toHaveTextContent('800 of 2,000 samples'))
+    expect(useCanvasStore.getState().results.status).toBe('streaming')
+    expect(useCanvasStore.getState().results.report).toBeFalsy()
+
+    stream.send('interim_result', interimEvent(1600, 0.6))
+    await waitFor(() => expect(screen.getByTestId('interim-samples')).toHaveTextContent('1,600 of 2,000 samples'))
+    expect(screen.getByTestId('interim-bands')).toHaveTextContent('60%')
+    expect(useCanvasStore.getState().results.status).toBe('streaming')
+
+    stream.send('complete', {
+      result: { answer: '0.61', confidence: 0.9, explanation: 'Done', drivers: [], summary: { p10: 0.4, p50: 0.61, p90: 0.8 } },
+      execution_ms: 120,
+    })
+    stream.close()
+    await waitFor(() => expect(useCanvasStore.getState().results.status).toBe('complete'))
+    expect(useCanvasStore.getState().results.report).toBeTruthy()
+  })
+})
@@ -1,6 +1,6 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
 import { renderHook, act } from '@testing-library/react'
-import { useSyncedViewports } from '../useSyncedViewports'
+import { useSyncedViewports, useViewportFollower } from '../useSyncedViewports'
 import type { ReactFlowInstance, Viewport } from '@xyflow/react'
 
 // Mock ReactFlowInstance
@@ -164,3 +164,35 @@ describe('useSyncedViewports', () => {
     expect(mockInstanceB.setViewport).toHaveBeenCalledWith(viewport, { duration: 0 })
   })
 })
+
+describe('useViewportFollower', () => {
+  it('mirrors the followed viewport while enabled', () => {
+    const setViewport = vi.fn()
+    const { rerender } = renderHook(
+      ({ viewport, enabled }: { viewport: Viewport | null; enabled: boolean }) =>
+        useViewportFollower({ viewport, enabled, setViewport }),
+      { initialProps: { viewport: { x: 10, y: 20, zoom: 1 }, enabled: true } }
+    )
+    expect(setViewport).toHaveBeenCalledWith({ x: 10, y: 20, zoom: 1 }, { duration: 150 })
+
+    // Same numbers in a new object: no move
+    rerender({ viewport: { x: 10, y: 20, zoom: 1 }, enabled: true })
+    expect(setViewport).toHaveBeenCalledTimes(1)
+
+    rerender({ viewport: { x: 50, y: 20, zoom: 2 }, enabled: false })
+    expect(setViewport).toHaveBeenCalledTimes(1)
+  })
+
+  it('breaks away only on moves the user starts', () => {
+    const onBreakAway = vi.fn()
+    const { result } = renderHook(() =>
+      useViewportFollower({ viewport: null, enabled: true, setViewport: vi.fn(), onBreakAway })
+    )
+
+    act(() => result.current.onMoveStart(null, { x: 0, y: 0, zoom: 1 }))
+    expect(onBreakAway).not.toHaveBeenCalled()
+
+    act(() => result.current.onMoveStart(new MouseEvent('mousedown'), { x: 0, y: 0, zoom: 1 }))
+    expect(onBreakAway).toHaveBeenCalledTimes(1)
+  })
+})
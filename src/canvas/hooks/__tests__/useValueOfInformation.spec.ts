@@ -0,0 +1,103 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { renderHook, act } from '@testing-library/react'
+import type { Edge, Node } from '@xyflow/react'
+import { useCanvasStore } from '../../store'
+import { DEFAULT_EDGE_DATA, type EdgeData } from '../../domain/edges'
+import { useValueOfInformation } from '../useValueOfInformation'
+
+const adapter = vi.hoisted(() => ({ name: 'local' }))
+
+vi.mock('../../../adapters/plot', () => ({
+  get adapterName() {
+    return adapter.name
+  },
+}))
+
+const node = (id: string, kind: string, extra: Record<string, unknown> = {}): Node => ({
+  id,
+  position: { x: 0, y: 0 },
+  data: { label: id, kind, ...extra },
+})
+
+const nodes = [
+  node('decision', 'decision'),
+  node('premium', 'option'),
+  node('budget', 'option'),
+  node('churn', 'risk', { prior: 0.3 }),
+  node('revenue', 'outcome', { utility: 1 }),
+]
+const edge = (id: string, source: string, target: string, data: Partial<EdgeData> = {}): Edge<EdgeData> => ({
+  id,
+  source,
+  target,
+  data: { ...DEFAULT_EDGE_DATA, ...data },
+})
+
+const edges = [
+  edge('d1', 'decision', 'premium'),
+  edge('d2', 'decision', 'budget'),
+  edge('e1', 'premium', 'revenue', { weight: 0.9, belief: 0.9 }),
+  edge('e2', 'budget', 'revenue', { weight: 0.5, belief: 0.9 }),
+  edge('e3', 'premium', 'churn', { weight: 0.9, belief: 0 }),
+  edge('e4', 'churn', 'revenue', { weight: -0.6, belief: 0.9 }),
+]
+
+function complete(hash: string) {
+  act(() => {
+    useCanvasStore.setState(s => ({ results: { ...s.results, status: 'complete', hash, seed: 1337 } }))
+  })
+}
+
+describe('useValueOfInformation', () => {
+  beforeEach(() => {
+    adapter.name = 'local'
+    useCanvasStore.setState({
+      nodes,
+      edges,
+      results: { status: 'idle', progress: 0 },
+      comparisonMode: { active: false, scenarioA: null, scenarioB: null, comparison: null, apiResponse: null },
+    })
+  })
+
+  it('picks the best option of the same computation when no comparison is active', () => {
+    const { result } = renderHook(() => useValueOfInformation())
+    complete('h1')
+
+    expect(result.current.status).toBe('complete')
+    const best = [...result.current.data!.options].sort((a, b) => b.expected - a.expected)[0]
+    expect(result.current.data!.incumbentOptionId).toBe(best.nodeId)
+  })
+
+  it('matches the compared winner by option id, even when labels repeat', () => {
+    const { result } = renderHook(() => useValueOfInformation())
+    complete('h1')
+    const best = [...result.current.data!.options].sort((a, b) => b.expected - a.expected)[0].nodeId
+    const other = best === 'premium' ? 'budget' : 'premium'
+
+    // Both compared scenarios share a label; the base scenario (A) selects the weaker option and wins
+    act(() => {
+      useCanvasStore.setState({
+        comparisonMode: {
+          active: true,
+          scenarioA: { nodes: [{ ...node(other, 'option'), type: 'option' }], edges: [], label: 'Plan' },
+          scenarioB: { nodes: [{ ...node(best, 'option'), type: 'option' }], edges: [], label: 'Plan' },
+          comparison: null,
+          apiResponse: {
+            base_scenario: { id: 'a', name: 'Plan', outcome_predictions: { revenue: 0.9 } },
+            alternative_scenarios: [{ id: 'b', name: 'Plan', outcome_predictions: { revenue: 0.4 } }],
+          },
+        },
+      })
+    })
+
+    expect(result.current.data!.incumbentOptionId).toBe(other)
+  })
+
+  it('is unavailable for results from an engine without per-sample outcomes', () => {
+    adapter.name = 'httpv1'
+    const { result } = renderHook(() => useValueOfInformation())
+    complete('h2')
+
+    expect(result.current).toEqual({ status: 'unavailable', data: null, error: null })
+  })
+})
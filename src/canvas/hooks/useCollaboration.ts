@@ -0,0 +1,126 @@
+/**
+ * useCollaboration - live co-editing of the canvas graph
+ *
+ * Joins a Yjs room through the collab relay (tools/collab-relay.mjs), binds
+ * the canvas store to the shared doc, routes undo/redo to a per-user
+ * UndoManager and publishes this browser's cursor and selection.
+ * Pass null to stay single-user.
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react'
+import * as Y from 'yjs'
+import { WebsocketProvider } from 'y-websocket'
+import type { Awareness } from 'y-protocols/awareness'
+import { useCanvasStore } from '../store'
+import { bindGraphToDoc } from '../collab/binding'
+import { clientTag, getLocalCollaborator, readPeers, type Collaborator, type Peer } from '../collab/presence'
+
+export type CollabStatus = 'off' | 'connecting' | 'connected' | 'disconnected'
+
+export const COLLAB_URL: string = import.meta.env.VITE_COLLAB_URL || 'ws://localhost:1234'
+
+const CURSOR_THROTTLE_MS = 40
+
+export interface CollaborationState {
+  status: CollabStatus
+  self: Collaborator | null
+  peers: Peer[]
+  /** Publish the local cursor in flow coordinates (null when it leaves the canvas) */
+  updateCursor: (point: { x: number; y: number } | null) => void
+}
+
+const selectedIds = (nodes: Array<{ id: string; selected?: boolean }>) =>
+  nodes.filter(n => n.selected).map(n => n.id)
+
+export function useCollaboration(room: string | null): CollaborationState {
+  const [status, setStatus] = useState<CollabStatus>('off')
+  const [self, setSelf] = useState<Collaborator | null>(null)
+  const [peers, setPeers] = useState<Peer[]>([])
+  const awarenessRef = useRef<Awareness | null>(null)
+  const lastCursorRef = useRef(0)
+
+  useEffect(() => {
+    if (!room) return
+
+    const doc = new Y.Doc()
+    const provider = new WebsocketProvider(COLLAB_URL, room, doc)
+    const awareness = provider.awareness
+    // Remembered after they leave, so edits that arrive late are still theirs
+    const known = new Map<number, Collaborator>()
+    const binding = bindGraphToDoc(doc, useCanvasStore, {
+      authorOf: clientId => {
+        const user = known.get(clientId) ?? (awareness.getStates().get(clientId)?.user as Collaborator | undefined)
+        return user ? { id: user.id, name: user.name } : null
+      },
+    })
+    const user = getLocalCollaborator()
+    awarenessRef.current = awareness
+    setSelf(user)
+    setStatus('connecting')
+
+    awareness.setLocalState({ user, cursor: null, selection: selectedIds(useCanvasStore.getState().nodes) })
+
+    useCanvasStore.getState().setCollabSession({
+      clientTag: clientTag(doc.clientID),
+      undo: () => { binding.undoManager.undo() },
+      redo: () => { binding.undoManager.redo() },
+      canUndo: () => binding.undoManager.canUndo(),
+      canRedo: () => binding.undoManager.canRedo(),
+    })
+
+    const onStatus = ({ status: next }: { status: 'connected' | 'disconnected' | 'connecting' }) => setStatus(next)
+    const onSync = (synced: boolean) => {
+      if (synced) binding.start()
+    }
+    const onAwareness = () => {
+      const next = readPeers(awareness)
+      for (const peer of next) known.set(peer.clientId, peer.user)
+      setPeers(next)
+    }
+    provider.on('status', onStatus)
+    provider.on('sync', onSync)
+    awareness.on('change', onAwareness)
+
+    const unsubscribe = useCanvasStore.subscribe((state, prev) => {
+      if (state.nodes === prev.nodes) return
+      const next = selectedIds(state.nodes)
+      const current = (awareness.getLocalState()?.selection ?? []) as string[]
+      if (next.join('|') !== current.join('|')) awareness.setLocalStateField('selection', next)
+    })
+
+    return () => {
+      unsubscribe()
+      awareness.off('change', onAwareness)
+      useCanvasStore.getState().setCollabSession(null)
+      binding.destroy()
+      provider.destroy()
+      doc.destroy()
+      awarenessRef.current = null
+      setStatus('off')
+      setPeers([])
+      setSelf(null)
+    }
+  }, [room])
+
+  const updateCursor = useCallback((point: { x: number; y: number } | null) => {
+    const awareness = awarenessRef.current
+    if (!awareness) return
+    const now = Date.now()
+    if (point && now - lastCursorRef.current < CURSOR_THROTTLE_MS) return
+    lastCursorRef.current = now
+    awareness.setLocalStateField('cursor', point)
+  }, [])
+
+  return { status, self, peers, updateCursor }
+}
+
+/**
+ * Room to join from `?room=` (plain or after the HashRouter `#/canvas?...`)
+ */
+export function readCollabRoom(): string | null {
+  if (typeof window === 'undefined') return null
+  const url = new URL(window.location.href)
+  const hashQuery = window.location.hash.includes('?') ? window.location.hash.slice(window.location.hash.indexOf('?') + 1) : ''
+  const room = url.searchParams.get('room') ?? new URLSearchParams(hashQuery).get('room')
+  return room && /^[\w-]{1,64}$/.test(room) ? room : null
+}
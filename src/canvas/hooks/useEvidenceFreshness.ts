@@ -0,0 +1,37 @@
+import { useMemo } from 'react'
+import { useCanvasStore, selectReport } from '../store'
+import { useFreshnessRules } from '../store/freshnessRules'
+import { computeEvidenceFreshness, type LocalEdgeFreshness } from '../utils/evidenceFreshness'
+import type { EvidenceFreshness } from '../../types/plot'
+
+export interface EvidenceFreshnessState {
+  /** The engine's summary when the last report carried one, else the local one */
+  freshness: EvidenceFreshness
+  source: 'engine' | 'local'
+  /** Always computed locally: the stale-evidence queue and belief decay need review-by dates */
+  local: EvidenceFreshness & { edge_freshness: LocalEdgeFreshness[] }
+}
+
+/**
+ * Evidence freshness for the current graph
+ *
+ * Recomputed when the graph, citations, documents or rules change (not on a
+ * timer: ages move by days, and any edit refreshes them).
+ */
+export function useEvidenceFreshness(): EvidenceFreshnessState {
+  const nodes = useCanvasStore(s => s.nodes)
+  const edges = useCanvasStore(s => s.edges)
+  const citations = useCanvasStore(s => s.citations)
+  const documents = useCanvasStore(s => s.documents)
+  const engineFreshness = useCanvasStore(s => selectReport(s)?.evidence_freshness)
+  const rules = useFreshnessRules(s => s.rules)
+
+  const local = useMemo(
+    () => computeEvidenceFreshness({ nodes, edges, citations, documents }, rules),
+    [nodes, edges, citations, documents, rules]
+  )
+
+  return engineFreshness
+    ? { freshness: engineFreshness, source: 'engine', local }
+    : { freshness: local, source: 'local', local }
+}
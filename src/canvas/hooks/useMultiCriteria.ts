@@ -0,0 +1,80 @@
+import { useEffect, useState } from 'react'
+import { plot, adapterName } from '../../adapters/plot'
+import { localEngineAdapter } from '../../adapters/plot/localEngineAdapter'
+import type { RunBundleRequest, RunBundleResponse } from '../../adapters/plot/types'
+import { isOfflineError } from '../store/runQueue'
+import type { DecisionCriterion } from '../store/scenarios'
+import {
+  buildCriteriaRequests,
+  collectCriteriaValues,
+  scoreOptions,
+  type CriteriaGraph,
+  type ScoredOption,
+} from '../utils/multiCriteria'
+
+export interface MultiCriteriaState {
+  status: 'idle' | 'running' | 'complete' | 'error'
+  options: ScoredOption[]
+  error: string | null
+}
+
+async function runCriterionBundle(request: RunBundleRequest): Promise<RunBundleResponse> {
+  if (adapterName === 'local') return localEngineAdapter.runBundle(request)
+  try {
+    return await plot.runBundle(request)
+  } catch (err) {
+    if (!isOfflineError(err)) throw err
+    return localEngineAdapter.runBundle(request)
+  }
+}
+
+/**
+ * Weighted score and Pareto dominance for every option across the criteria
+ *
+ * Runs one bundle per graph and criterion (that criterion's node as the
+ * outcome), sequentially to stay inside engine rate limits. Needs at least
+ * two criteria; with fewer there is nothing to trade off.
+ */
+export function useMultiCriteria(graphs: CriteriaGraph[], criteria: DecisionCriterion[]): MultiCriteriaState {
+  const [state, setState] = useState<MultiCriteriaState>({ status: 'idle', options: [], error: null })
+
+  // Re-run only when the inputs change in substance, not on every render
+  const inputKey = JSON.stringify({
+    graphs: graphs.map(g => ({ key: g.key, nodes: g.nodes.map(n => [n.id, n.data]), edges: g.edges.map(e => [e.source, e.target, e.data]) })),
+    criteria,
+  })
+
+  useEffect(() => {
+    if (criteria.length < 2) {
+      setState({ status: 'idle', options: [], error: null })
+      return
+    }
+
+    let cancelled = false
+    setState(prev => ({ ...prev, status: 'running', error: null }))
+
+    ;(async () => {
+      const responses: Array<{ criterionId: string; response: RunBundleResponse }> = []
+      for (const { criterionId, request } of buildCriteriaRequests(graphs, criteria)) {
+        if (cancelled) break
+        responses.push({ criterionId, response: await runCriterionBundle(request) })
+      }
+      return scoreOptions(collectCriteriaValues(graphs, criteria, responses), criteria)
+    })()
+      .then((options) => {
+        if (!cancelled) setState({ status: 'complete', options, error: null })
+      })
+      .catch((err) => {
+        if (cancelled) return
+        const error = err as { error?: string; message?: string }
+        setState({ status: 'error', options: [], error: error?.error ?? error?.message ?? 'Multi-criteria analysis failed' })
+      })
+
+    return () => {
+      cancelled = true
+    }
+    // inputKey captures graphs and criteria by value
+  }, [inputKey])
+
+  return state
+}
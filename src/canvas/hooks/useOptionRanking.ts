@@ -23,6 +23,10 @@ interface ScenarioData {
   outcome_predictions: OutcomePredictions
 }
 
+/** First option node in a compared scenario: the option the compare request selects for it */
+const selectedOptionId = (scenario: { nodes: Array<{ id: string; type?: string }> } | null): string | undefined =>
+  scenario?.nodes.find(n => n.type === 'option')?.id
+
 /**
  * Hook to compute ranking data from comparison results
  */
@@ -59,12 +63,13 @@ export function useOptionRanking(): RankingData | null {
     const alternatives = (apiResponse.alternative_scenarios || []) as ScenarioData[]
     const recommendedId = (apiResponse as { recommended_scenario?: string }).recommended_scenario
 
-    // Combine all scenarios for ranking
-    const allScenarios: ScenarioData[] = []
+    // Combine all scenarios for ranking. The base scenario answers for scenario A
+    // and the first alternative for scenario B, in the order they were requested.
+    const allScenarios: Array<ScenarioData & { optionId?: string }> = []
     if (baseScenario) {
-      allScenarios.push(baseScenario)
+      allScenarios.push({ ...baseScenario, optionId: selectedOptionId(scenarioA) })
     }
-    allScenarios.push(...alternatives)
+    allScenarios.push(...alternatives.map((s, i) => (i === 0 ? { ...s, optionId: selectedOptionId(scenarioB) } : s)))
 
     if (allScenarios.length === 0) {
       // Fallback to basic badge with scenario count
@@ -133,6 +138,7 @@ export function useOptionRanking(): RankingData | null {
       marginPct: currentIsWinner ? marginPct : undefined,
       confidence,
       winnerName: winner.name,
+      winnerOptionId: winner.optionId,
       currentOptionName,
     }
   }, [comparisonMode])
@@ -1,14 +1,58 @@
 import { useCallback, useRef } from 'react'
 import { useCanvasStore } from '../store'
-import { plot } from '../../adapters/plot'
-import type { RunRequest, ErrorV1, ReportV1 } from '../../adapters/plot/types'
+import { plot, adapterName } from '../../adapters/plot'
+import type { RunRequest, ErrorV1, ReportV1, InterimResultV1 } from '../../adapters/plot/types'
+import { computeClientHash } from '../../adapters/plot/v1/mapper'
 import { generateIdempotencyKey, isCeeIdempotencyEnabled } from '../../utils/idempotency'
 import { mapErrorToUserMessage } from '../utils/errorTaxonomy'
+import { enqueueRun, isOfflineError } from '../store/runQueue'
+import {
+  buildCacheKey,
+  getCachedResult,
+  putCachedResult,
+  resolveEngineVersion,
+  isCacheableVersion,
+  invalidateOnEngineVersion,
+  type CacheKeyParts,
+} from '../store/resultCache'
 
 interface UseResultsRunReturn {
   // eslint-disable-next-line no-unused-vars
   run: (request: RunRequest, options?: { forceRerun?: boolean }) => Promise<void>
   cancel: () => void
+  /** Stop the stream but keep the latest interim estimate (marked partial) */
+  stopEarly: () => void
+}
+
+/**
+ * The streaming run in flight. Shared by every instance of the hook, so a
+ * run started from the toolbar, the palette or a shortcut can be cancelled
+ * or stopped early from the outputs dock. Each run gets its own handle: a
+ * run that finishes only clears the handle if it is still the active one.
+ */
+let activeRun: { cancel: (() => void) | null } | null = null
+
+/**
+ * Cache key for a run, or null when the run cannot be cached (no inline
+ * graph, or the engine version is unknown)
+ */
+async function resolveCacheParts(request: RunRequest): Promise<CacheKeyParts | null> {
+  if (!request.graph) return null
+  try {
+    const engineVersion = await resolveEngineVersion(adapterName)
+    if (!isCacheableVersion(engineVersion)) return null
+    await invalidateOnEngineVersion(adapterName, engineVersion)
+    return {
+      adapter: adapterName,
+      engineVersion,
+      templateId: request.template_id,
+      outcomeNode: request.outcome_node,
+      clientHash: computeClientHash(request.graph, request.seed),
+    }
+  } catch (error) {
+    console.error('[useResultsRun] Result cache unavailable:', error)
+    return null
+  }
 }
 
 /**
@@ -19,9 +63,18 @@ interface UseResultsRunReturn {
  * Throttles progress updates to ~100ms.
  *
  * v1.2: Supports force-rerun with automatic seed increment to bypass hash dedupe
+ *
+ * Offline: when the engine is unreachable the request is queued (see
+ * store/runQueue) and the results slice moves to 'queued' instead of 'error'.
+ *
+ * Interim: engines that stream partial bands update results.interim as
+ * samples arrive; stopEarly() ends the run and keeps that estimate.
+ *
+ * Cache: reports are cached by graph hash, adapter and engine version (see
+ * store/resultCache). An identical run completes from the cache without
+ * calling the engine; forced re-runs (wasForced) skip the lookup.
  */
 export function useResultsRun(): UseResultsRunReturn {
-  const cancelRef = useRef<(() => void) | null>(null)
   const lastProgressUpdate = useRef<number>(0)
 
   const resultsStart = useCanvasStore(s => s.resultsStart)
@@ -30,8 +83,33 @@ export function useResultsRun(): UseResultsRunReturn {
   const resultsComplete = useCanvasStore(s => s.resultsComplete)
   const resultsError = useCanvasStore(s => s.resultsError)
   const resultsCancelled = useCanvasStore(s => s.resultsCancelled)
+  const resultsInterim = useCanvasStore(s => s.resultsInterim)
+  const resultsStoppedEarly = useCanvasStore(s => s.resultsStoppedEarly)
+  const resultsQueued = useCanvasStore(s => s.resultsQueued)
   const setRunMeta = useCanvasStore(s => s.setRunMeta)
 
+  /**
+   * Park the request in the offline queue when the error means the engine is
+   * unreachable. Returns false (caller surfaces the error) otherwise, or if
+   * the queue itself could not be written.
+   */
+  const queueIfOffline = useCallback(async (error: unknown, request: RunRequest): Promise<boolean> => {
+    if (!isOfflineError(error)) return false
+    try {
+      const { nodes, edges, currentScenarioId } = useCanvasStore.getState()
+      const queued = await enqueueRun({
+        request,
+        graph: { nodes, edges },
+        scenarioId: currentScenarioId,
+      })
+      resultsQueued({ queuedRunId: queued.id })
+      return true
+    } catch (queueError) {
+      console.error('[useResultsRun] Failed to queue offline run:', queueError)
+      return false
+    }
+  }, [resultsQueued])
+
   const run = useCallback(async (request: RunRequest, options?: { forceRerun?: boolean }) => {
     let seed = request.seed ?? 1337
 
@@ -56,6 +134,23 @@ export function useResultsRun(): UseResultsRunReturn {
       ceeError: null,
     })
 
+    const cacheParts = await resolveCacheParts({ ...request, seed })
+    if (cacheParts && !options?.forceRerun) {
+      const cached = await getCachedResult(buildCacheKey(cacheParts))
+      if (cached) {
+        resultsComplete({
+          report: cached.report,
+          hash: cached.report.model_card.response_hash,
+          drivers: undefined,
+          fromCache: true,
+        })
+        return
+      }
+    }
+    const cacheReport = (report: ReportV1) => {
+      if (cacheParts) void putCachedResult(cacheParts, report)
+    }
+
     // Decide whether to attach an Idempotency-Key for this run. In
     // production this is always enabled; in development it can be
     // toggled off via the debug tray.
@@ -72,7 +167,12 @@ export function useResultsRun(): UseResultsRunReturn {
         // Use bumped seed if force-rerun and attach idempotency key when enabled
         const baseRequest: RunRequest = options?.forceRerun ? { ...request, seed } : request
         const actualRequest: RunRequest = idempotencyKey ? { ...baseRequest, idempotencyKey } : baseRequest
-        cancelRef.current = adapter.stream.run(actualRequest, {
+        const handle: { cancel: (() => void) | null } = { cancel: null }
+        const finish = () => {
+          if (activeRun === handle) activeRun = null
+        }
+        activeRun = handle
+        handle.cancel = adapter.stream.run(actualRequest, {
           onHello: (data: { response_id: string }) => {
             resultsConnecting(data.response_id)
           },
@@ -86,6 +186,9 @@ export function useResultsRun(): UseResultsRunReturn {
               lastProgressUpdate.current = now
             }
           },
+          onInterim: (data: InterimResultV1) => {
+            resultsInterim(data)
+          },
           onDone: (data: {
             response_id: string
             report: ReportV1
@@ -115,6 +218,7 @@ export function useResultsRun(): UseResultsRunReturn {
               ceeTrace,
               ceeError,
             })
+            cacheReport(report)
 
             // Capture diagnostics, correlation metadata, and any CEE metadata when available
             if (
@@ -136,9 +240,12 @@ export function useResultsRun(): UseResultsRunReturn {
                 ceeDebugHeaders,
               })
             }
-            cancelRef.current = null
+            finish()
           },
-          onError: (error: ErrorV1) => {
+          onError: async (error: ErrorV1) => {
+            finish()
+            if (await queueIfOffline(error, actualRequest)) return
+
             // Map error to user-friendly message
             const friendlyError = mapErrorToUserMessage({
               code: error.code,
@@ -153,13 +260,14 @@ export function useResultsRun(): UseResultsRunReturn {
               retryAfter: error.retry_after,
               request_id: error.request_id
             })
-            cancelRef.current = null
           }
         })
       } catch (err) {
         // Catch synchronous errors from stream setup (e.g., 404 during initial fetch)
         console.error('[useResultsRun] Stream setup failed:', err)
         const error = err as any
+        activeRun = null
+        if (await queueIfOffline(err, options?.forceRerun ? { ...request, seed } : request)) return
 
         // Map error to user-friendly message
         const friendlyError = mapErrorToUserMessage({
@@ -174,16 +282,15 @@ export function useResultsRun(): UseResultsRunReturn {
           retryAfter: error.retry_after,
           request_id: error.request_id
         })
-        cancelRef.current = null
       }
     } else {
       // Fallback to sync API
+      const baseRequest: RunRequest = options?.forceRerun ? { ...request, seed } : request
       try {
         // Show preparing state briefly
         await new Promise(resolve => setTimeout(resolve, 200))
 
-        // Use bumped seed if force-rerun and attach idempotency key when enabled
-        const baseRequest: RunRequest = options?.forceRerun ? { ...request, seed } : request
+        // Attach idempotency key when enabled (seed already bumped for force-rerun)
         const actualRequest: RunRequest = idempotencyKey ? { ...baseRequest, idempotencyKey } : baseRequest
         const report = await plot.run(actualRequest)
 
@@ -195,6 +302,7 @@ export function useResultsRun(): UseResultsRunReturn {
           hash: report.model_card.response_hash,
           drivers: undefined
         })
+        cacheReport(report)
 
         // Section 4: Wire debug headers to runMeta
         if (ceeDebugHeaders) {
@@ -203,6 +311,7 @@ export function useResultsRun(): UseResultsRunReturn {
           })
         }
       } catch (err) {
+        if (await queueIfOffline(err, baseRequest)) return
         const error = err as any
 
         // Map error to user-friendly message
@@ -221,18 +330,29 @@ export function useResultsRun(): UseResultsRunReturn {
         })
       }
     }
-  }, [resultsStart, resultsConnecting, resultsProgress, resultsComplete, resultsError, setRunMeta])
+  }, [resultsStart, resultsConnecting, resultsProgress, resultsInterim, resultsComplete, resultsError, setRunMeta, queueIfOffline])
 
   const cancel = useCallback(() => {
-    if (cancelRef.current) {
-      cancelRef.current()
-      cancelRef.current = null
+    const current = activeRun
+    if (current?.cancel) {
+      activeRun = null
+      current.cancel()
       resultsCancelled()
     }
   }, [resultsCancelled])
 
+  const stopEarly = useCallback(() => {
+    const current = activeRun
+    if (current?.cancel) {
+      activeRun = null
+      current.cancel()
+      resultsStoppedEarly()
+    }
+  }, [resultsStoppedEarly])
+
   return {
     run,
-    cancel
+    cancel,
+    stopEarly
   }
 }
@@ -0,0 +1,75 @@
+import { useEffect, useState } from 'react'
+import { useCanvasStore } from '../store'
+import { plot, adapterName, reprobeCapability } from '../../adapters/plot'
+import { probeHealth } from '../../adapters/plot/v1/health'
+import { loadQueuedRuns, replayQueuedRuns } from '../store/runQueue'
+import * as runsBus from '../store/runsBus'
+
+const RETRY_INTERVAL_MS = 30_000
+
+/**
+ * Whether the configured engine can take runs right now
+ */
+async function isEngineAvailable(): Promise<boolean> {
+  try {
+    if (adapterName === 'local') return true
+    if (adapterName === 'httpv1' || adapterName === 'replay') return (await probeHealth()) === 'healthy'
+    return (await reprobeCapability()).available
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Replays the offline run queue when the engine comes back
+ *
+ * While anything is queued, retries every 30s and whenever the browser
+ * reports it is back online. If the run the user is waiting on gets
+ * replayed, its result is loaded into the Results panel.
+ *
+ * @returns number of runs still waiting in the queue
+ */
+export function useRunQueueReplay(): number {
+  const [queuedCount, setQueuedCount] = useState(0)
+
+  useEffect(() => {
+    let cancelled = false
+    const refresh = () => {
+      loadQueuedRuns().then(entries => {
+        if (!cancelled) setQueuedCount(entries.filter(entry => entry.status === 'queued').length)
+      })
+    }
+    refresh()
+    const unsubscribe = runsBus.on(refresh)
+    return () => {
+      cancelled = true
+      unsubscribe()
+    }
+  }, [])
+
+  useEffect(() => {
+    if (queuedCount === 0) return
+
+    const replay = async () => {
+      const summary = await replayQueuedRuns({
+        isEngineAvailable,
+        runAnalysis: request => plot.run(request),
+        adapter: adapterName,
+      })
+
+      const { results, resultsLoadHistorical } = useCanvasStore.getState()
+      if (results.status !== 'queued' || !results.queuedRunId) return
+      const waitingOn = summary.replayed.find(({ queued }) => queued.id === results.queuedRunId)
+      if (waitingOn) resultsLoadHistorical(waitingOn.run)
+    }
+
+    const timer = setInterval(replay, RETRY_INTERVAL_MS)
+    window.addEventListener('online', replay)
+    return () => {
+      clearInterval(timer)
+      window.removeEventListener('online', replay)
+    }
+  }, [queuedCount])
+
+  return queuedCount
+}
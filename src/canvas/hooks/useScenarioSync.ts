@@ -0,0 +1,96 @@
+/**
+ * useScenarioSync - keep saved scenarios in step with the cloud
+ *
+ * Only runs with the scenarioSync flag on and a signed-in Supabase session.
+ * Syncs on mount, shortly after each save, when the browser comes back
+ * online and on a slow interval to pick up other devices' edits. Remote
+ * changes to the open scenario are loaded straight away unless the canvas
+ * has unsaved edits, which then sync on the next save.
+ */
+
+import { useCallback, useEffect, useRef } from 'react'
+import { useCanvasStore } from '../store'
+import { isScenarioSyncEnabled } from '../../flags'
+import {
+  createScenarioSync,
+  useScenarioSyncStore,
+  type ConflictResolution,
+  type ScenarioConflict,
+  type ScenarioSync,
+  type ScenarioSyncStatus,
+} from '../store/scenarioSync'
+import { reloadScenarioRecords } from '../store/scenarioRecords'
+
+const SAVE_DEBOUNCE_MS = 1500
+const POLL_INTERVAL_MS = 60_000
+
+export interface ScenarioSyncState {
+  status: ScenarioSyncStatus
+  conflicts: ScenarioConflict[]
+  resolveConflict: (id: string, resolution: ConflictResolution) => Promise<void>
+}
+
+export function useScenarioSync(): ScenarioSyncState {
+  const status = useScenarioSyncStore(s => s.status)
+  const conflicts = useScenarioSyncStore(s => s.conflicts)
+  const lastSavedAt = useCanvasStore(s => s.lastSavedAt)
+  const syncRef = useRef<ScenarioSync | null>(null)
+
+  useEffect(() => {
+    if (!isScenarioSyncEnabled()) return
+
+    let cancelled = false
+    let interval: ReturnType<typeof setInterval> | undefined
+    const handleOnline = () => { void syncRef.current?.sync() }
+
+    const start = async () => {
+      // Imported lazily: the client throws at load time when Supabase isn't configured
+      const [{ supabase }, { createSupabaseScenarioRemote }] = await Promise.all([
+        import('../../lib/supabase'),
+        import('../store/scenarioRemote'),
+      ])
+      const { data } = await supabase.auth.getSession()
+      if (cancelled || !data.session) return
+
+      syncRef.current = createScenarioSync(createSupabaseScenarioRemote(supabase), {
+        userId: data.session.user.id,
+        onApplied: ids => {
+          reloadScenarioRecords(ids)
+          const { currentScenarioId, isDirty, loadScenario } = useCanvasStore.getState()
+          if (currentScenarioId && ids.includes(currentScenarioId) && !isDirty) {
+            loadScenario(currentScenarioId)
+          }
+        },
+      })
+      void syncRef.current.sync()
+      window.addEventListener('online', handleOnline)
+      interval = setInterval(() => { void syncRef.current?.sync() }, POLL_INTERVAL_MS)
+    }
+
+    start().catch(error => {
+      console.warn('[useScenarioSync] Cloud sync unavailable:', error)
+    })
+
+    return () => {
+      cancelled = true
+      syncRef.current = null
+      window.removeEventListener('online', handleOnline)
+      if (interval) clearInterval(interval)
+      useScenarioSyncStore.setState({ status: 'off', conflicts: [] })
+    }
+  }, [])
+
+  useEffect(() => {
+    const sync = syncRef.current
+    if (!sync || lastSavedAt === null) return
+    sync.markPending()
+    const timer = setTimeout(() => { void sync.sync() }, SAVE_DEBOUNCE_MS)
+    return () => clearTimeout(timer)
+  }, [lastSavedAt])
+
+  const resolveConflict = useCallback(async (id: string, resolution: ConflictResolution) => {
+    await syncRef.current?.resolveConflict(id, resolution)
+  }, [])
+
+  return { status, conflicts, resolveConflict }
+}
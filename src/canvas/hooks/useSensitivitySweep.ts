@@ -0,0 +1,103 @@
+import { useCallback, useRef, useState } from 'react'
+import { useCanvasStore } from '../store'
+import { plot, adapterName } from '../../adapters/plot'
+import { localEngineAdapter } from '../../adapters/plot/localEngineAdapter'
+import type { RunBundleRequest, RunBundleResponse } from '../../adapters/plot/types'
+import { isOfflineError } from '../store/runQueue'
+import {
+  listSweepParameters,
+  buildSweepRequests,
+  summariseSweep,
+  DEFAULT_SWEEP_RANGE,
+  type SweepResult,
+} from '../utils/sensitivitySweep'
+
+export interface SensitivitySweepState {
+  status: 'idle' | 'running' | 'complete' | 'error'
+  range: number
+  result: SweepResult | null
+  /** Which engine produced the result; 'local' when the backend was unreachable */
+  source: 'engine' | 'local' | null
+  error: string | null
+}
+
+interface UseSensitivitySweepReturn extends SensitivitySweepState {
+  setRange: (range: number) => void
+  run: () => Promise<void>
+}
+
+async function runBatches(
+  requests: RunBundleRequest[],
+  runBundle: (request: RunBundleRequest) => Promise<RunBundleResponse>
+): Promise<RunBundleResponse[]> {
+  const responses: RunBundleResponse[] = []
+  // Sequential: one bundle at a time keeps us inside backend rate limits
+  for (const request of requests) {
+    responses.push(await runBundle(request))
+  }
+  return responses
+}
+
+/**
+ * Hook for one-way sensitivity sweeps over the current canvas graph
+ *
+ * Runs every variant through the configured adapter's runBundle, falling back
+ * to the in-browser engine when the backend is offline.
+ */
+export function useSensitivitySweep(): UseSensitivitySweepReturn {
+  const [state, setState] = useState<SensitivitySweepState>({
+    status: 'idle',
+    range: DEFAULT_SWEEP_RANGE,
+    result: null,
+    source: null,
+    error: null,
+  })
+  const runIdRef = useRef(0)
+
+  const setRange = useCallback((range: number) => {
+    setState(prev => ({ ...prev, range }))
+  }, [])
+
+  const run = useCallback(async () => {
+    const runId = ++runIdRef.current
+    const { nodes, edges } = useCanvasStore.getState()
+    const range = state.range
+    setState(prev => ({ ...prev, status: 'running', error: null }))
+
+    const params = listSweepParameters(nodes, edges, range)
+    const requests = buildSweepRequests(nodes, edges, params)
+
+    let responses: RunBundleResponse[]
+    let source: SensitivitySweepState['source'] = adapterName === 'local' ? 'local' : 'engine'
+    try {
+      try {
+        responses = await runBatches(requests, request => plot.runBundle(request))
+      } catch (err) {
+        if (source === 'local' || !isOfflineError(err)) throw err
+        source = 'local'
+        responses = await runBatches(requests, request => localEngineAdapter.runBundle(request))
+      }
+    } catch (err) {
+      if (runId !== runIdRef.current) return
+      const error = err as { error?: string; message?: string }
+      setState(prev => ({
+        ...prev,
+        status: 'error',
+        error: error?.error ?? error?.message ?? 'Sensitivity sweep failed',
+      }))
+      return
+    }
+
+    // A newer sweep superseded this one
+    if (runId !== runIdRef.current) return
+    setState(prev => ({
+      ...prev,
+      status: 'complete',
+      result: summariseSweep(params, responses),
+      source,
+      error: null,
+    }))
+  }, [state.range])
+
+  return { ...state, setRange, run }
+}
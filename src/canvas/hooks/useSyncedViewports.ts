@@ -3,10 +3,13 @@
  *
  * Used for side-by-side scenario comparison where pan/zoom should be synchronized.
  * Includes debouncing to prevent infinite update loops.
+ *
+ * useViewportFollower is the one-way variant for presenter mode: a canvas
+ * mirrors a viewport that arrives from elsewhere until its user moves it.
  */
 
 import { useCallback, useRef, useEffect } from 'react'
-import type { ReactFlowInstance, Viewport, OnMoveEnd } from '@xyflow/react'
+import type { ReactFlowInstance, Viewport, OnMoveEnd, OnMoveStart } from '@xyflow/react'
 
 interface UseSyncedViewportsOptions {
   /** Debounce delay in ms to prevent sync loops (default: 50) */
@@ -166,3 +169,58 @@ export function useSyncedViewports(
     fitBoth,
   }
 }
+
+interface UseViewportFollowerOptions {
+  /** Viewport to mirror (null: nothing to follow yet) */
+  viewport: Viewport | null
+  /** Whether to mirror it */
+  enabled: boolean
+  /** Apply a viewport to this canvas (ReactFlow's setViewport) */
+  setViewport: (viewport: Viewport, options?: { duration?: number }) => void
+  /** Called when the user pans or zooms while following */
+  onBreakAway?: () => void
+  /** Animation for each followed move (default: 150) */
+  durationMs?: number
+}
+
+interface UseViewportFollowerReturn {
+  /** onMoveStart handler for the following canvas - detects break-away */
+  onMoveStart: OnMoveStart
+}
+
+/**
+ * Hook to make one ReactFlow canvas follow a remote viewport
+ *
+ * Programmatic moves (including the ones made here) start without an input
+ * event, so only the user's own pan or zoom counts as breaking away.
+ *
+ * @example
+ * ```tsx
+ * const { onMoveStart } = useViewportFollower({ viewport, enabled: following, setViewport, onBreakAway })
+ *
+ * <ReactFlow onMoveStart={onMoveStart} ... />
+ * ```
+ */
+export function useViewportFollower(options: UseViewportFollowerOptions): UseViewportFollowerReturn {
+  const { viewport, enabled, setViewport, onBreakAway, durationMs = 150 } = options
+
+  const enabledRef = useRef(enabled)
+  enabledRef.current = enabled
+  const onBreakAwayRef = useRef(onBreakAway)
+  onBreakAwayRef.current = onBreakAway
+
+  // Keyed on the numbers, so an identical viewport arriving again doesn't move the canvas
+  const x = viewport?.x
+  const y = viewport?.y
+  const zoom = viewport?.zoom
+  useEffect(() => {
+    if (!enabled || x === undefined || y === undefined || zoom === undefined) return
+    setViewport({ x, y, zoom }, { duration: durationMs })
+  }, [enabled, x, y, zoom, setViewport, durationMs])
+
+  const onMoveStart: OnMoveStart = useCallback((event) => {
+    if (event && enabledRef.current) onBreakAwayRef.current?.()
+  }, [])
+
+  return { onMoveStart }
+}
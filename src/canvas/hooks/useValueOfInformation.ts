@@ -0,0 +1,85 @@
+import { useEffect, useState } from 'react'
+import { useCanvasStore } from '../store'
+import { adapterName } from '../../adapters/plot'
+import type { ReactFlowGraph } from '../../adapters/plot/v1/mapper'
+import {
+  computeValueOfInformation,
+  findDecisionOptions,
+  type ValueOfInformation,
+} from '../../adapters/plot/local/valueOfInformation'
+import { useOptionRanking } from './useOptionRanking'
+import type { NeedleMover } from '../validation/types'
+
+export interface ValueOfInformationState {
+  /** 'unavailable': the results came from an engine that can't supply per-sample outcomes */
+  status: 'idle' | 'running' | 'complete' | 'error' | 'unavailable'
+  data: ValueOfInformation | null
+  error: string | null
+}
+
+/**
+ * Map "worth investigating" factors onto the canvas Key Factors overlay
+ */
+export function toNeedleMovers(voi: ValueOfInformation): NeedleMover[] {
+  return voi.factors
+    .filter(f => f.evppi > 0)
+    .map(f => ({
+      nodeId: f.nodeId,
+      label: f.label,
+      impact: f.shareOfEvpi,
+      reason: `Resolving this first is worth up to +${(f.evppi * 100).toFixed(1)} pts`,
+      type: f.shareOfEvpi >= 0.5 ? 'high' : f.shareOfEvpi >= 0.2 ? 'medium' : 'low',
+    }))
+}
+
+/**
+ * EVPI for the current decision and EVPPI per factor/risk node
+ *
+ * Recomputed after each completed run. The maths needs every option's
+ * outcome in the same sampled worlds, which only the local engine provides,
+ * so it runs only when the displayed results came from the local engine
+ * (same engine, same seed): numbers from another engine would not agree with
+ * them. The option picked "today" is useOptionRanking's winner, matched by
+ * option id, when a comparison is active (so the numbers agree with the
+ * option tiles); otherwise it is the option with the best expected outcome
+ * in the same computation, so no separate run bundle is needed.
+ */
+export function useValueOfInformation(): ValueOfInformationState {
+  const status = useCanvasStore(s => s.results.status)
+  const hash = useCanvasStore(s => s.results.hash)
+  const seed = useCanvasStore(s => s.results.seed)
+  const ranking = useOptionRanking()
+  const winnerOptionId = ranking?.winnerOptionId
+
+  const [state, setState] = useState<ValueOfInformationState>({ status: 'idle', data: null, error: null })
+
+  useEffect(() => {
+    if (status !== 'complete' || !hash) return
+    if (adapterName !== 'local') {
+      setState({ status: 'unavailable', data: null, error: null })
+      return
+    }
+
+    const { nodes, edges } = useCanvasStore.getState()
+    const graph: ReactFlowGraph = {
+      nodes: nodes.map(n => ({ id: n.id, type: n.type, data: { ...(n.data as Record<string, unknown>) } })),
+      edges: edges.map(e => ({ id: e.id, source: e.source, target: e.target, data: { ...(e.data as Record<string, unknown>) } })),
+    }
+    const optionIds = findDecisionOptions(graph)
+    if (optionIds.length < 2) {
+      setState({ status: 'idle', data: null, error: null })
+      return
+    }
+
+    const incumbentOptionId = winnerOptionId && optionIds.includes(winnerOptionId) ? winnerOptionId : undefined
+    try {
+      const data = computeValueOfInformation(graph, { seed: seed ?? 1337, optionIds, incumbentOptionId })
+      setState({ status: 'complete', data, error: null })
+    } catch (err) {
+      const error = err as { error?: string; message?: string }
+      setState({ status: 'error', data: null, error: error?.error ?? error?.message ?? 'Value of information failed' })
+    }
+  }, [status, hash, seed, winnerOptionId])
+
+  return state
+}
@@ -0,0 +1,166 @@
+import { describe, it, expect } from 'vitest'
+import type { Node, Edge } from '@xyflow/react'
+import { DEFAULT_EDGE_DATA, type EdgeData } from '../../domain/edges'
+import {
+  detectInterchangeFormat,
+  exportInterchange,
+  parseInterchange,
+  InterchangeParseError,
+  type InterchangeFormat,
+} from '..'
+
+const nodes: Node[] = [
+  { id: '1', type: 'decision', position: { x: 0, y: 0 }, data: { label: 'Hire "senior" or junior?', type: 'decision' } },
+  {
+    id: '2',
+    type: 'factor',
+    position: { x: 300, y: 40 },
+    data: { label: 'Ramp-up time', type: 'factor', description: 'Weeks, with mentoring', prior: 0.4, unit: 'weeks' },
+  },
+  { id: '3', type: 'outcome', position: { x: 600, y: 0 }, data: { label: 'Delivery, on time', type: 'outcome', utility: 0.8 } },
+]
+
+const edges: Edge<EdgeData>[] = [
+  {
+    id: 'e1',
+    source: '1',
+    target: '2',
+    data: { ...DEFAULT_EDGE_DATA, weight: 0.7, belief: 0.6, confidence: 0.55, provenance: 'Hiring survey, 2024', label: 'Senior' },
+  },
+  { id: 'e2', source: '2', target: '3', data: { ...DEFAULT_EDGE_DATA, style: 'dashed' } },
+]
+
+function roundTrip(format: InterchangeFormat) {
+  const files = exportInterchange(format, nodes, edges, 'model')
+  return parseInterchange(format, files.map(f => ({ name: f.filename, text: f.content })))
+}
+
+describe('graph interchange', () => {
+  it.each(['graphml', 'dot', 'csv'] as const)('round-trips every canvas field through %s', format => {
+    const { nodes: read, edges: readEdges, warnings } = roundTrip(format)
+
+    expect(warnings).toEqual([])
+    expect(read.map(n => [n.id, n.type, n.data.label])).toEqual(nodes.map(n => [n.id, n.type, n.data.label]))
+    expect(read[1].data).toMatchObject({ description: 'Weeks, with mentoring', prior: 0.4, unit: 'weeks' })
+    expect(read[2].data).toMatchObject({ utility: 0.8 })
+    expect(read[1].position).toEqual({ x: 300, y: 40 })
+    expect(readEdges[0]).toMatchObject({
+      id: 'e1',
+      source: '1',
+      target: '2',
+      data: { weight: 0.7, belief: 0.6, confidence: 0.55, provenance: 'Hiring survey, 2024', label: 'Senior' },
+    })
+    expect(readEdges[1].data?.style).toBe('dashed')
+  })
+
+  it('round-trips labels, kinds and dashed links through Mermaid and lays the nodes out', () => {
+    const { nodes: read, edges: readEdges } = roundTrip('mermaid')
+
+    expect(read.map(n => [n.id, n.type, n.data.label])).toEqual(nodes.map(n => [n.id, n.type, n.data.label]))
+    expect(readEdges.map(e => [e.source, e.target, e.data?.label, e.data?.style])).toEqual([
+      ['1', '2', 'Senior', 'solid'],
+      ['2', '3', undefined, 'dashed'],
+    ])
+    // Mermaid has no positions: laid out left to right by depth
+    expect(read.map(n => n.position.x)).toEqual([0, 280, 560])
+  })
+
+  it('keeps a "|" in a Mermaid link label', () => {
+    const piped: Edge<EdgeData>[] = [{ id: 'e1', source: '1', target: '2', data: { ...DEFAULT_EDGE_DATA, label: 'a|b' } }]
+    const [file] = exportInterchange('mermaid', nodes.slice(0, 2), piped, 'model')
+    const { nodes: read, edges: readEdges, warnings } = parseInterchange('mermaid', [{ name: file.filename, text: file.content }])
+
+    expect(warnings).toEqual([])
+    expect(read.map(n => n.id)).toEqual(['1', '2'])
+    expect(readEdges.map(e => e.data?.label)).toEqual(['a|b'])
+
+    // Quoted link text from elsewhere may hold a bare "|"
+    const quoted = parseInterchange('mermaid', [{ name: 'q.mmd', text: 'flowchart LR\n  A -->|"x|y"| B' }])
+    expect(quoted.edges.map(e => [e.source, e.target, e.data?.label])).toEqual([['A', 'B', 'x|y']])
+  })
+
+  it('reads hand-written Mermaid: shapes, chains, groups and classes', () => {
+    const text = [
+      'graph TD',
+      '  %% A sketch',
+      '  A{Launch now?} -->|yes| B((Revenue)) & C{{Churn}}',
+      '  A -- wait --> D[Competitor moves] -.-> B',
+      '  class D risk',
+      '  click A callback',
+    ].join('\n')
+    const { nodes: read, edges: readEdges, warnings } = parseInterchange('mermaid', [{ name: 'sketch.mmd', text }])
+
+    expect(warnings).toEqual([])
+    expect(Object.fromEntries(read.map(n => [n.id, n.type]))).toEqual({
+      A: 'decision',
+      B: 'outcome',
+      C: 'risk',
+      D: 'risk',
+    })
+    expect(readEdges.map(e => `${e.source}>${e.target}:${e.data?.label ?? ''}`)).toEqual([
+      'A>B:yes',
+      'A>C:yes',
+      'A>D:wait',
+      'D>B:',
+    ])
+  })
+
+  it('reads DOT defaults, subgraphs, chains and undeclared nodes', () => {
+    const text = `
+      digraph plan {
+        node [kind=factor];
+        edge [belief=0.5];
+        a [label="Budget"];
+        subgraph cluster_x { b; c [kind="risk"] }
+        a -> b -> c [label="drives"];
+        a -> { d e };
+      }`
+    const { nodes: read, edges: readEdges } = parseInterchange('dot', [{ name: 'plan.dot', text }])
+
+    expect(Object.fromEntries(read.map(n => [n.id, n.type]))).toEqual({
+      a: 'factor',
+      b: 'factor',
+      c: 'risk',
+      d: 'factor',
+      e: 'factor',
+    })
+    expect(readEdges.map(e => [e.source, e.target, e.data?.label, e.data?.belief])).toEqual([
+      ['a', 'b', 'drives', 0.5],
+      ['b', 'c', 'drives', 0.5],
+      ['a', 'd', undefined, 0.5],
+      ['a', 'e', undefined, 0.5],
+    ])
+  })
+
+  it('reads a spreadsheet edge list on its own, with aliases and percentages', () => {
+    const text = 'From,To,Probability,Weight\r\nprice,demand,60%,0.4\r\nprice,margin,40%,2\r\n'
+    const { nodes: read, edges: readEdges, warnings } = parseInterchange('csv', [{ name: 'edges.csv', text }])
+
+    expect(read.map(n => n.id)).toEqual(['price', 'demand', 'margin'])
+    expect(readEdges.map(e => [e.data?.confidence, e.data?.weight])).toEqual([[0.6, 0.4], [0.4, 1]])
+    expect(warnings).toContain('Node "price" is used by an edge but not declared; it was added')
+    expect(warnings).toContain('Edge price → margin weight 2 is outside 0–1; it was clamped')
+  })
+
+  it('warns about numbers it cannot read', () => {
+    const text = 'source,target,weight\nprice,demand,abc\n'
+    const { edges: readEdges, warnings } = parseInterchange('csv', [{ name: 'edges.csv', text }])
+
+    expect(readEdges[0].data?.weight).toBe(DEFAULT_EDGE_DATA.weight)
+    expect(warnings).toContain('edges.csv row 2: weight "abc" is not a number; it was ignored')
+  })
+
+  it('reports files it cannot read', () => {
+    expect(() => parseInterchange('graphml', [{ name: 'x.graphml', text: '<graphml><graph>' }])).toThrow(InterchangeParseError)
+    expect(() => parseInterchange('dot', [{ name: 'x.dot', text: 'digraph { a -> }' }])).toThrow(InterchangeParseError)
+    expect(() => parseInterchange('mermaid', [{ name: 'x.mmd', text: 'A --> B' }])).toThrow(/Not a Mermaid flowchart/)
+    expect(() => parseInterchange('csv', [{ name: 'n.csv', text: 'name,kind\nA,goal' }])).toThrow(/needs an "id" column/)
+  })
+
+  it('detects formats by extension, then by content', () => {
+    expect(detectInterchangeFormat({ name: 'model.gv', text: '' })).toBe('dot')
+    expect(detectInterchangeFormat({ name: 'paste.txt', text: 'flowchart LR\n a --> b' })).toBe('mermaid')
+    expect(detectInterchangeFormat({ name: 'paste.txt', text: 'strict digraph G { a -> b }' })).toBe('dot')
+    expect(detectInterchangeFormat({ name: 'canvas.json', text: '{"nodes":[]}' })).toBeNull()
+  })
+})
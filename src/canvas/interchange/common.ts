@@ -0,0 +1,247 @@
+/**
+ * Helpers shared by the interchange formats:
+ * - reading canvas nodes/edges into format-neutral fields (export)
+ * - building canvas nodes/edges from parsed fields, with range checks and
+ *   a layered layout for formats without positions (import)
+ */
+
+import type { Node, Edge } from '@xyflow/react'
+import { DEFAULT_EDGE_DATA, EdgeKindEnum, EdgeStyleEnum, trimProvenance, type EdgeData } from '../domain/edges'
+import { NodeTypeEnum, type NodeType } from '../domain/nodes'
+import { sanitizeLabel } from '../persist'
+import type { EdgeFields, NodeFields, ParsedGraph } from './types'
+
+const DEFAULT_NODE_KIND: NodeType = 'decision'
+const EDGE_LABEL_MAX = 50
+const DESCRIPTION_MAX = 500
+const UNIT_MAX = 12
+
+const COLUMN_SPACING = 280
+const ROW_SPACING = 140
+
+// ============================================================================
+// Export
+// ============================================================================
+
+export function nodeFields(node: Node): NodeFields {
+  const data = (node.data ?? {}) as Record<string, unknown>
+  const kind = NodeTypeEnum.safeParse(node.type ?? data.type)
+  return {
+    id: node.id,
+    label: typeof data.label === 'string' ? data.label : node.id,
+    kind: kind.success ? kind.data : undefined,
+    description: typeof data.description === 'string' ? data.description : undefined,
+    prior: typeof data.prior === 'number' ? data.prior : undefined,
+    utility: typeof data.utility === 'number' ? data.utility : undefined,
+    unit: typeof data.unit === 'string' ? data.unit : undefined,
+    x: node.position.x,
+    y: node.position.y,
+  }
+}
+
+export function edgeFields(edge: Edge<EdgeData>): EdgeFields {
+  const data: Partial<EdgeData> = edge.data ?? {}
+  return {
+    id: edge.id,
+    source: edge.source,
+    target: edge.target,
+    label: data.label ?? (typeof edge.label === 'string' ? edge.label : undefined),
+    weight: data.weight,
+    belief: data.belief,
+    confidence: data.confidence,
+    provenance: data.provenance,
+    kind: data.kind,
+    style: data.style,
+  }
+}
+
+/** Round for text formats (avoids 0.30000000000000004) */
+export function formatNumber(value: number): string {
+  return String(Math.round(value * 10000) / 10000)
+}
+
+// ============================================================================
+// Import
+// ============================================================================
+
+/**
+ * Parse a number from text. Accepts percentages ("60%") so spreadsheet
+ * exports work; returns undefined for blanks and NaN.
+ */
+export function parseNumber(raw: string | undefined | null): number | undefined {
+  if (raw === undefined || raw === null) return undefined
+  const text = raw.trim()
+  if (text === '') return undefined
+  const percent = text.endsWith('%')
+  const value = Number(percent ? text.slice(0, -1) : text)
+  if (!Number.isFinite(value)) return undefined
+  return percent ? value / 100 : value
+}
+
+export function parseNodeKind(raw: string | undefined | null): NodeType | undefined {
+  const parsed = NodeTypeEnum.safeParse(raw?.trim().toLowerCase())
+  return parsed.success ? parsed.data : undefined
+}
+
+export function parseEdgeKind(raw: string | undefined | null): EdgeFields['kind'] {
+  const parsed = EdgeKindEnum.safeParse(raw?.trim().toLowerCase())
+  return parsed.success ? parsed.data : undefined
+}
+
+export function parseEdgeStyle(raw: string | undefined | null): EdgeFields['style'] {
+  const parsed = EdgeStyleEnum.safeParse(raw?.trim().toLowerCase())
+  return parsed.success ? parsed.data : undefined
+}
+
+export interface GraphBuilder {
+  /** Add or extend a node; later fields win (Mermaid and DOT repeat nodes) */
+  addNode: (fields: NodeFields) => void
+  /** Add an edge; undeclared endpoints become nodes labelled with their id */
+  addEdge: (fields: EdgeFields) => void
+  hasNode: (id: string) => boolean
+  warn: (message: string) => void
+  build: () => ParsedGraph
+}
+
+export function createGraphBuilder(): GraphBuilder {
+  const nodes = new Map<string, NodeFields>()
+  const edges: EdgeFields[] = []
+  const warnings: string[] = []
+
+  const warn = (message: string) => {
+    warnings.push(message)
+  }
+
+  const addNode = (fields: NodeFields) => {
+    const existing = nodes.get(fields.id)
+    const defined = Object.fromEntries(Object.entries(fields).filter(([, v]) => v !== undefined)) as NodeFields
+    nodes.set(fields.id, { ...existing, ...defined })
+  }
+
+  const addEdge = (fields: EdgeFields) => {
+    edges.push(fields)
+  }
+
+  const build = (): ParsedGraph => {
+    for (const edge of edges) {
+      for (const id of [edge.source, edge.target]) {
+        if (!nodes.has(id)) {
+          warn(`Node "${id}" is used by an edge but not declared; it was added`)
+          nodes.set(id, { id })
+        }
+      }
+    }
+
+    const positions = layoutMissingPositions([...nodes.values()], edges)
+    const builtNodes = [...nodes.values()].map(fields => toCanvasNode(fields, positions.get(fields.id)!, warn))
+
+    const usedIds = new Set<string>()
+    const builtEdges = edges.map((fields, i) => {
+      let id = fields.id?.trim() || `e${i + 1}`
+      if (usedIds.has(id)) {
+        warn(`Edge id "${id}" is used more than once; the repeat was renamed`)
+        id = `${id}-${i + 1}`
+      }
+      usedIds.add(id)
+      return toCanvasEdge(id, fields, warn)
+    })
+
+    return { nodes: builtNodes, edges: builtEdges, warnings }
+  }
+
+  return { addNode, addEdge, hasNode: id => nodes.has(id), warn, build }
+}
+
+function clamp(
+  value: number | undefined,
+  min: number,
+  max: number,
+  what: string,
+  warn: (message: string) => void
+): number | undefined {
+  if (value === undefined) return undefined
+  if (value < min || value > max) {
+    warn(`${what} ${formatNumber(value)} is outside ${min}–${max}; it was clamped`)
+    return Math.max(min, Math.min(max, value))
+  }
+  return value
+}
+
+function toCanvasNode(fields: NodeFields, position: { x: number; y: number }, warn: (message: string) => void): Node {
+  const kind = fields.kind ?? DEFAULT_NODE_KIND
+  const label = sanitizeLabel(fields.label?.trim() || fields.id)
+  const data: Record<string, unknown> = { label, type: kind }
+  if (fields.description?.trim()) data.description = fields.description.trim().slice(0, DESCRIPTION_MAX)
+  const prior = clamp(fields.prior, 0, 1, `"${label}" prior`, warn)
+  if (prior !== undefined) data.prior = prior
+  const utility = clamp(fields.utility, -1, 1, `"${label}" utility`, warn)
+  if (utility !== undefined) data.utility = utility
+  if (fields.unit?.trim()) data.unit = fields.unit.trim().slice(0, UNIT_MAX)
+
+  return { id: fields.id, type: kind, position, data }
+}
+
+function toCanvasEdge(id: string, fields: EdgeFields, warn: (message: string) => void): Edge<EdgeData> {
+  const what = `Edge ${fields.source} → ${fields.target}`
+  const label = fields.label?.trim() ? sanitizeLabel(fields.label).slice(0, EDGE_LABEL_MAX) : undefined
+  const data: EdgeData = {
+    ...DEFAULT_EDGE_DATA,
+    weight: clamp(fields.weight, 0, 1, `${what} weight`, warn) ?? DEFAULT_EDGE_DATA.weight,
+    ...(fields.kind && { kind: fields.kind }),
+    ...(fields.style && { style: fields.style }),
+    ...(label && { label }),
+  }
+  const belief = clamp(fields.belief, 0, 1, `${what} belief`, warn)
+  if (belief !== undefined) data.belief = belief
+  const confidence = clamp(fields.confidence, 0, 1, `${what} probability`, warn)
+  if (confidence !== undefined) data.confidence = confidence
+  if (fields.provenance?.trim()) data.provenance = trimProvenance(fields.provenance.trim())
+
+  return { id, source: fields.source, target: fields.target, type: 'styled', ...(label && { label }), data }
+}
+
+/**
+ * Keep given positions; place the rest left to right by depth (longest path
+ * from a source node), below any positioned nodes.
+ */
+function layoutMissingPositions(nodes: NodeFields[], edges: EdgeFields[]): Map<string, { x: number; y: number }> {
+  const positions = new Map<string, { x: number; y: number }>()
+  const unplaced: string[] = []
+  for (const node of nodes) {
+    if (node.x !== undefined && node.y !== undefined) positions.set(node.id, { x: node.x, y: node.y })
+    else unplaced.push(node.id)
+  }
+  if (unplaced.length === 0) return positions
+
+  // Longest-path layering (Kahn's algorithm); nodes left over sit on a cycle
+  const outgoing = new Map<string, string[]>()
+  const inDegree = new Map<string, number>(nodes.map(n => [n.id, 0]))
+  for (const edge of edges) {
+    if (!outgoing.has(edge.source)) outgoing.set(edge.source, [])
+    outgoing.get(edge.source)!.push(edge.target)
+    inDegree.set(edge.target, (inDegree.get(edge.target) ?? 0) + 1)
+  }
+
+  const depth = new Map<string, number>()
+  const queue = nodes.filter(n => inDegree.get(n.id) === 0).map(n => n.id)
+  for (const id of queue) depth.set(id, 0)
+  while (queue.length > 0) {
+    const id = queue.shift()!
+    for (const next of outgoing.get(id) ?? []) {
+      depth.set(next, Math.max(depth.get(next) ?? 0, depth.get(id)! + 1))
+      const remaining = inDegree.get(next)! - 1
+      inDegree.set(next, remaining)
+      if (remaining === 0) queue.push(next)
+    }
+  }
+
+  const top = positions.size > 0 ? Math.max(...[...positions.values()].map(p => p.y)) + ROW_SPACING : 0
+  const rows = new Map<number, number>()
+  for (const id of unplaced) {
+    const column = depth.get(id) ?? 0
+    const row = rows.get(column) ?? 0
+    rows.set(column, row + 1)
+    positions.set(id, { x: column * COLUMN_SPACING, y: top + row * ROW_SPACING })
+  }
+  return positions
+}
@@ -0,0 +1,186 @@
+/**
+ * Two-file CSV reader/writer (nodes + edges), for spreadsheets
+ *
+ * nodes.csv: id,label,kind,description,prior,utility,unit,x,y
+ * edges.csv: id,source,target,label,weight,belief,confidence,provenance,kind,style
+ *
+ * Columns are matched by header name (case-insensitive, in any order; from/to
+ * and name are accepted too). Numbers may be written as percentages. An edges
+ * file on its own is enough: nodes are created from the ids it uses.
+ */
+
+import type { Node, Edge } from '@xyflow/react'
+import type { EdgeData } from '../domain/edges'
+import {
+  createGraphBuilder,
+  edgeFields,
+  formatNumber,
+  nodeFields,
+  parseEdgeKind,
+  parseEdgeStyle,
+  parseNodeKind,
+  parseNumber,
+} from './common'
+import { InterchangeParseError, type InterchangeSource, type ParsedGraph } from './types'
+
+const NODE_COLUMNS = ['id', 'label', 'kind', 'description', 'prior', 'utility', 'unit', 'x', 'y'] as const
+const EDGE_COLUMNS = ['id', 'source', 'target', 'label', 'weight', 'belief', 'confidence', 'provenance', 'kind', 'style'] as const
+
+const ALIASES: Record<string, string> = {
+  from: 'source',
+  to: 'target',
+  name: 'label',
+  type: 'kind',
+  probability: 'confidence',
+}
+
+function csvCell(value: string | number | undefined): string {
+  if (value === undefined) return ''
+  const text = typeof value === 'number' ? formatNumber(value) : value
+  return /[",\r\n]/.test(text) || text !== text.trim() ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+function csvTable(columns: readonly string[], rows: Array<Record<string, string | number | undefined>>): string {
+  return [columns.join(','), ...rows.map(row => columns.map(c => csvCell(row[c])).join(','))].join('\r\n') + '\r\n'
+}
+
+export function toCsv(nodes: Node[], edges: Edge<EdgeData>[]): { nodes: string; edges: string } {
+  return {
+    nodes: csvTable(NODE_COLUMNS, nodes.map(node => ({ ...nodeFields(node) }))),
+    edges: csvTable(EDGE_COLUMNS, edges.map(edge => ({ ...edgeFields(edge) }))),
+  }
+}
+
+/** RFC 4180 rows (quoted fields may contain commas, quotes and newlines) */
+function parseCsvRows(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let quoted = false
+  const input = text.replace(/^\uFEFF/, '') // Excel's byte order mark
+
+  for (let i = 0; i < input.length; i++) {
+    const ch = input[i]
+    if (quoted) {
+      if (ch === '"' && input[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (ch === '"') {
+        quoted = false
+      } else {
+        field += ch
+      }
+    } else if (ch === '"' && field === '') {
+      quoted = true
+    } else if (ch === ',') {
+      row.push(field)
+      field = ''
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && input[i + 1] === '\n') i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ''
+    } else {
+      field += ch
+    }
+  }
+  if (quoted) throw new InterchangeParseError('CSV has an unterminated quoted field')
+  if (field !== '' || row.length > 0) {
+    row.push(field)
+    rows.push(row)
+  }
+  return rows.filter(r => r.some(cell => cell.trim() !== ''))
+}
+
+interface Table {
+  name: string
+  rows: Array<Map<string, string>>
+  columns: Set<string>
+}
+
+function readTable(source: InterchangeSource): Table {
+  const [header, ...body] = parseCsvRows(source.text)
+  if (!header) throw new InterchangeParseError(`${source.name} is empty`)
+  const names = header.map(h => {
+    const name = h.trim().toLowerCase()
+    return ALIASES[name] ?? name
+  })
+  return {
+    name: source.name,
+    columns: new Set(names),
+    rows: body.map(cells => new Map(names.map((name, i) => [name, cells[i]?.trim() ?? '']))),
+  }
+}
+
+const isEdgeTable = (table: Table) => table.columns.has('source') && table.columns.has('target')
+
+export function parseCsv(sources: InterchangeSource[]): ParsedGraph {
+  const tables = sources.map(readTable)
+  const edgeTables = tables.filter(isEdgeTable)
+  const nodeTables = tables.filter(t => !isEdgeTable(t))
+  if (edgeTables.length > 1 || nodeTables.length > 1) {
+    throw new InterchangeParseError('Choose at most one nodes CSV and one edges CSV')
+  }
+  const [nodeTable] = nodeTables
+  const [edgeTable] = edgeTables
+  if (nodeTable && !nodeTable.columns.has('id')) {
+    throw new InterchangeParseError(`${nodeTable.name} needs an "id" column (or "source" and "target" for edges)`)
+  }
+
+  const builder = createGraphBuilder()
+  const optional = (row: Map<string, string>, column: string) => row.get(column) || undefined
+  const number = (row: Map<string, string>, column: string, where: string) => {
+    const raw = row.get(column)
+    const value = parseNumber(raw)
+    if (raw && value === undefined) builder.warn(`${where}: ${column} "${raw}" is not a number; it was ignored`)
+    return value
+  }
+
+  nodeTable?.rows.forEach((row, i) => {
+    const where = `${nodeTable.name} row ${i + 2}`
+    const id = row.get('id')
+    if (!id) {
+      builder.warn(`${where}: no id; skipped`)
+      return
+    }
+    const rawKind = optional(row, 'kind')
+    const kind = parseNodeKind(rawKind)
+    if (rawKind && !kind) builder.warn(`${where}: unknown kind "${rawKind}"`)
+    builder.addNode({
+      id,
+      label: optional(row, 'label'),
+      kind,
+      description: optional(row, 'description'),
+      prior: number(row, 'prior', where),
+      utility: number(row, 'utility', where),
+      unit: optional(row, 'unit'),
+      x: number(row, 'x', where),
+      y: number(row, 'y', where),
+    })
+  })
+
+  edgeTable?.rows.forEach((row, i) => {
+    const where = `${edgeTable.name} row ${i + 2}`
+    const source = row.get('source')
+    const target = row.get('target')
+    if (!source || !target) {
+      builder.warn(`${where}: missing source or target; skipped`)
+      return
+    }
+    builder.addEdge({
+      id: optional(row, 'id'),
+      source,
+      target,
+      label: optional(row, 'label'),
+      weight: number(row, 'weight', where),
+      belief: number(row, 'belief', where),
+      confidence: number(row, 'confidence', where),
+      provenance: optional(row, 'provenance'),
+      kind: parseEdgeKind(row.get('kind')),
+      style: parseEdgeStyle(row.get('style')),
+    })
+  })
+
+  return builder.build()
+}
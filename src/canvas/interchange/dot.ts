@@ -0,0 +1,365 @@
+/**
+ * Graphviz DOT reader/writer
+ *
+ * Canvas fields travel as node/edge attributes named after the field (kind,
+ * prior, belief, provenance...). The exception is edge weight, written as
+ * "influence" because Graphviz's own weight attribute must be an integer;
+ * penwidth mirrors it so the rendered graph shows strength. Positions use
+ * pos="x,y!" with y flipped, as Graphviz's y axis points up.
+ *
+ * The reader flattens subgraphs and applies node/edge default attribute
+ * statements. Edges to or from a { a b } group are expanded.
+ */
+
+import type { Node, Edge } from '@xyflow/react'
+import { weightToStrokeWidth, type EdgeData } from '../domain/edges'
+import type { NodeType } from '../domain/nodes'
+import {
+  createGraphBuilder,
+  edgeFields,
+  formatNumber,
+  nodeFields,
+  parseEdgeKind,
+  parseEdgeStyle,
+  parseNodeKind,
+  parseNumber,
+  type GraphBuilder,
+} from './common'
+import { InterchangeParseError, type ParsedGraph } from './types'
+
+const SHAPES: Record<NodeType, string> = {
+  goal: 'doubleoctagon',
+  decision: 'diamond',
+  option: 'box',
+  factor: 'ellipse',
+  risk: 'hexagon',
+  outcome: 'doublecircle',
+}
+
+function quote(value: string): string {
+  return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`
+}
+
+function attributes(values: Record<string, string | number | undefined>): string {
+  const parts = Object.entries(values)
+    .filter(([, v]) => v !== undefined && v !== '')
+    .map(([k, v]) => `${k}=${typeof v === 'number' ? formatNumber(v) : quote(v!)}`)
+  return parts.length > 0 ? ` [${parts.join(', ')}]` : ''
+}
+
+export function toDot(nodes: Node[], edges: Edge<EdgeData>[]): string {
+  const lines = ['digraph canvas {', '  rankdir=LR;', '  node [style=rounded];']
+
+  for (const node of nodes) {
+    const { id, label, kind, description, prior, utility, unit, x, y } = nodeFields(node)
+    const attrs = attributes({
+      label,
+      kind,
+      shape: kind ? SHAPES[kind] : undefined,
+      description,
+      prior,
+      utility,
+      unit,
+      pos: x !== undefined && y !== undefined ? `${formatNumber(x)},${formatNumber(-y)}!` : undefined,
+    })
+    lines.push(`  ${quote(id)}${attrs};`)
+  }
+
+  for (const edge of edges) {
+    const { id, source, target, label, weight, belief, confidence, provenance, kind, style } = edgeFields(edge)
+    const attrs = attributes({
+      id,
+      label,
+      influence: weight,
+      penwidth: weight !== undefined ? weightToStrokeWidth(weight) : undefined,
+      belief,
+      confidence,
+      provenance,
+      kind,
+      style: style && style !== 'solid' ? style : undefined,
+    })
+    lines.push(`  ${quote(source)} -> ${quote(target)}${attrs};`)
+  }
+
+  lines.push('}', '')
+  return lines.join('\n')
+}
+
+// ============================================================================
+// Reader
+// ============================================================================
+
+type Token =
+  | { type: 'id'; value: string }
+  | { type: 'punct'; value: string }
+
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = []
+  let i = 0
+  while (i < text.length) {
+    const ch = text[i]
+    if (/\s/.test(ch)) {
+      i++
+    } else if (text.startsWith('//', i) || (ch === '#' && (i === 0 || text[i - 1] === '\n'))) {
+      while (i < text.length && text[i] !== '\n') i++
+    } else if (text.startsWith('/*', i)) {
+      const end = text.indexOf('*/', i + 2)
+      i = end === -1 ? text.length : end + 2
+    } else if (text.startsWith('->', i) || text.startsWith('--', i)) {
+      tokens.push({ type: 'punct', value: text.slice(i, i + 2) })
+      i += 2
+    } else if ('{}[];,=:'.includes(ch)) {
+      tokens.push({ type: 'punct', value: ch })
+      i++
+    } else if (ch === '"') {
+      let value = ''
+      i++
+      while (i < text.length && text[i] !== '"') {
+        if (text[i] === '\\' && i + 1 < text.length) {
+          const next = text[i + 1]
+          value += next === 'n' || next === 'l' || next === 'r' ? ' ' : next === '"' || next === '\\' ? next : `\\${next}`
+          i += 2
+        } else {
+          value += text[i++]
+        }
+      }
+      if (i >= text.length) throw new InterchangeParseError('Unterminated string in DOT file')
+      i++
+      tokens.push({ type: 'id', value })
+    } else if (ch === '<') {
+      // HTML label: keep the text content
+      let depth = 0
+      const start = i
+      do {
+        if (text[i] === '<') depth++
+        else if (text[i] === '>') depth--
+        i++
+      } while (i < text.length && depth > 0)
+      tokens.push({ type: 'id', value: text.slice(start + 1, i - 1).replace(/<[^>]*>/g, ' ').replace(/\s+/g, ' ').trim() })
+    } else if (ch === '+' && tokens[tokens.length - 1]?.type === 'id') {
+      tokens.push({ type: 'punct', value: '+' }) // "a" + "b", joined below
+      i++
+    } else {
+      const match = /^(?:[A-Za-z_\u0080-\uFFFF][A-Za-z0-9_\u0080-\uFFFF]*|-?(?:\.\d+|\d+(?:\.\d*)?))/.exec(text.slice(i))
+      if (!match) throw new InterchangeParseError(`Unexpected character "${ch}" in DOT file`)
+      tokens.push({ type: 'id', value: match[0] })
+      i += match[0].length
+    }
+  }
+
+  // Join "a" + "b"
+  const joined: Token[] = []
+  for (let t = 0; t < tokens.length; t++) {
+    const token = tokens[t]
+    if (token.type === 'punct' && token.value === '+' && joined.length > 0 && tokens[t + 1]?.type === 'id') {
+      const previous = joined[joined.length - 1]
+      joined[joined.length - 1] = { type: 'id', value: previous.value + tokens[t + 1].value }
+      t++
+    } else {
+      joined.push(token)
+    }
+  }
+  return joined
+}
+
+type Attrs = Map<string, string>
+
+class DotReader {
+  private pos = 0
+  private nodeDefaults: Attrs[] = [new Map()]
+  private edgeDefaults: Attrs[] = [new Map()]
+  private mentioned = new Set<string>()
+
+  constructor(private tokens: Token[], private builder: GraphBuilder) {}
+
+  private peek(offset = 0): Token | undefined {
+    return this.tokens[this.pos + offset]
+  }
+
+  private isPunct(value: string, offset = 0): boolean {
+    const token = this.peek(offset)
+    return token?.type === 'punct' && token.value === value
+  }
+
+  private expect(value: string): void {
+    if (!this.isPunct(value)) {
+      const found = this.peek()
+      throw new InterchangeParseError(`Expected "${value}" but found ${found ? `"${found.value}"` : 'end of file'}`)
+    }
+    this.pos++
+  }
+
+  private readId(): string {
+    const token = this.peek()
+    if (token?.type !== 'id') {
+      throw new InterchangeParseError(`Expected an identifier but found ${token ? `"${token.value}"` : 'end of file'}`)
+    }
+    this.pos++
+    return token.value
+  }
+
+  read(): void {
+    if (this.peek()?.value.toLowerCase() === 'strict') this.pos++
+    const kind = this.peek()?.value.toLowerCase()
+    if (kind !== 'digraph' && kind !== 'graph') {
+      throw new InterchangeParseError('Not a DOT file (expected "digraph" or "graph")')
+    }
+    this.pos++
+    if (kind === 'graph') this.builder.warn('Graph is undirected; edges were read as source → target')
+    if (this.peek()?.type === 'id') this.pos++ // Graph name
+    this.expect('{')
+    this.readStatements()
+    this.expect('}')
+  }
+
+  private readStatements(): void {
+    while (this.peek() && !this.isPunct('}')) {
+      this.readStatement()
+      if (this.isPunct(';') || this.isPunct(',')) this.pos++
+    }
+  }
+
+  private readAttrList(): Attrs {
+    const attrs: Attrs = new Map()
+    while (this.isPunct('[')) {
+      this.pos++
+      while (!this.isPunct(']')) {
+        const key = this.readId()
+        let value = 'true'
+        if (this.isPunct('=')) {
+          this.pos++
+          value = this.readId()
+        }
+        attrs.set(key, value)
+        if (this.isPunct(',') || this.isPunct(';')) this.pos++
+      }
+      this.expect(']')
+    }
+    return attrs
+  }
+
+  /** A subgraph / { } block; returns the node ids it mentions */
+  private readSubgraph(): string[] {
+    if (this.peek()?.value.toLowerCase() === 'subgraph') {
+      this.pos++
+      if (this.peek()?.type === 'id') this.pos++
+    }
+    this.expect('{')
+    const before = new Set(this.mentioned)
+    this.nodeDefaults.push(new Map(this.nodeDefaults[this.nodeDefaults.length - 1]))
+    this.edgeDefaults.push(new Map(this.edgeDefaults[this.edgeDefaults.length - 1]))
+    this.readStatements()
+    this.nodeDefaults.pop()
+    this.edgeDefaults.pop()
+    this.expect('}')
+    return [...this.mentioned].filter(id => !before.has(id))
+  }
+
+  private readOperand(): string[] {
+    if (this.isPunct('{') || this.peek()?.value.toLowerCase() === 'subgraph') return this.readSubgraph()
+    const id = this.readId()
+    if (this.isPunct(':')) {
+      // Ports (a:n) don't matter to us
+      this.pos++
+      this.readId()
+      if (this.isPunct(':')) {
+        this.pos++
+        this.readId()
+      }
+    }
+    this.touchNode(id, new Map())
+    return [id]
+  }
+
+  private touchNode(id: string, attrs: Attrs): void {
+    const first = !this.mentioned.has(id)
+    this.mentioned.add(id)
+    const merged = first ? new Map([...this.nodeDefaults[this.nodeDefaults.length - 1], ...attrs]) : attrs
+    this.builder.addNode({ id, ...nodeAttrs(id, merged, this.builder) })
+  }
+
+  private readStatement(): void {
+    const token = this.peek()!
+    const keyword = token.type === 'id' ? token.value.toLowerCase() : ''
+
+    if (keyword === 'node' || keyword === 'edge' || keyword === 'graph') {
+      if (this.isPunct('[', 1)) {
+        this.pos++
+        const attrs = this.readAttrList()
+        const stack = keyword === 'node' ? this.nodeDefaults : keyword === 'edge' ? this.edgeDefaults : null
+        if (stack) for (const [k, v] of attrs) stack[stack.length - 1].set(k, v)
+        return
+      }
+    }
+
+    // Graph attribute: a = b
+    if (token.type === 'id' && this.isPunct('=', 1)) {
+      this.pos += 3
+      return
+    }
+
+    let sources = this.readOperand()
+    if (!this.isPunct('->') && !this.isPunct('--')) {
+      // Node statement (attributes apply to a single node id)
+      const attrs = this.readAttrList()
+      if (sources.length === 1 && attrs.size > 0) this.touchNode(sources[0], attrs)
+      return
+    }
+
+    const hops: string[][] = [sources]
+    while (this.isPunct('->') || this.isPunct('--')) {
+      this.pos++
+      hops.push(this.readOperand())
+    }
+    const attrs = new Map([...this.edgeDefaults[this.edgeDefaults.length - 1], ...this.readAttrList()])
+    for (let h = 1; h < hops.length; h++) {
+      for (const source of sources) {
+        for (const target of hops[h]) {
+          // An explicit id only makes sense for a single edge
+          const single = hops.length === 2 && sources.length === 1 && hops[h].length === 1
+          this.builder.addEdge({ source, target, ...edgeAttrs(attrs, single) })
+        }
+      }
+      sources = hops[h]
+    }
+  }
+}
+
+function nodeAttrs(id: string, attrs: Attrs, builder: GraphBuilder) {
+  const rawKind = attrs.get('kind') ?? attrs.get('class')
+  const kind = parseNodeKind(rawKind)
+  if (rawKind && !kind) builder.warn(`Node "${id}": unknown kind "${rawKind}"`)
+  const label = attrs.get('label')
+  const pos = /^\s*(-?[\d.]+)\s*,\s*(-?[\d.]+)/.exec(attrs.get('pos') ?? '')
+  return {
+    label: label && label !== '\\N' ? label : undefined,
+    kind,
+    description: attrs.get('description') ?? attrs.get('tooltip'),
+    prior: parseNumber(attrs.get('prior')),
+    utility: parseNumber(attrs.get('utility')),
+    unit: attrs.get('unit'),
+    x: pos ? Number(pos[1]) : undefined,
+    y: pos ? -Number(pos[2]) : undefined,
+  }
+}
+
+function edgeAttrs(attrs: Attrs, single: boolean) {
+  // Graphviz weight is an integer layout hint; only read it when it looks like ours
+  const weight = parseNumber(attrs.get('influence')) ?? parseNumber(attrs.get('weight'))
+  return {
+    id: single ? attrs.get('id') : undefined,
+    label: attrs.get('label') ?? attrs.get('xlabel'),
+    weight: weight !== undefined && weight <= 1 ? weight : undefined,
+    belief: parseNumber(attrs.get('belief')),
+    confidence: parseNumber(attrs.get('confidence') ?? attrs.get('probability')),
+    provenance: attrs.get('provenance'),
+    kind: parseEdgeKind(attrs.get('kind')),
+    style: parseEdgeStyle(attrs.get('style')),
+  }
+}
+
+export function parseDot(text: string): ParsedGraph {
+  const builder = createGraphBuilder()
+  new DotReader(tokenize(text), builder).read()
+  return builder.build()
+}
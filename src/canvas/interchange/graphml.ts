@@ -0,0 +1,182 @@
+/**
+ * GraphML reader/writer
+ *
+ * Node and edge fields are GraphML <data> values declared by <key> elements.
+ * Keys are matched on attr.name, so files from other tools (yEd, Gephi,
+ * networkx) map as long as their attribute names match ours; yEd labels
+ * (y:NodeLabel / y:EdgeLabel) are used when there's no label attribute.
+ */
+
+import type { Node, Edge } from '@xyflow/react'
+import type { EdgeData } from '../domain/edges'
+import {
+  createGraphBuilder,
+  edgeFields,
+  formatNumber,
+  nodeFields,
+  parseEdgeKind,
+  parseEdgeStyle,
+  parseNodeKind,
+  parseNumber,
+} from './common'
+import { InterchangeParseError, type ParsedGraph } from './types'
+
+type KeyTarget = 'node' | 'edge'
+type KeyType = 'string' | 'double'
+
+const KEYS: Array<{ id: string; for: KeyTarget; name: string; type: KeyType }> = [
+  { id: 'n_label', for: 'node', name: 'label', type: 'string' },
+  { id: 'n_kind', for: 'node', name: 'kind', type: 'string' },
+  { id: 'n_description', for: 'node', name: 'description', type: 'string' },
+  { id: 'n_prior', for: 'node', name: 'prior', type: 'double' },
+  { id: 'n_utility', for: 'node', name: 'utility', type: 'double' },
+  { id: 'n_unit', for: 'node', name: 'unit', type: 'string' },
+  { id: 'n_x', for: 'node', name: 'x', type: 'double' },
+  { id: 'n_y', for: 'node', name: 'y', type: 'double' },
+  { id: 'e_label', for: 'edge', name: 'label', type: 'string' },
+  { id: 'e_weight', for: 'edge', name: 'weight', type: 'double' },
+  { id: 'e_belief', for: 'edge', name: 'belief', type: 'double' },
+  { id: 'e_confidence', for: 'edge', name: 'confidence', type: 'double' },
+  { id: 'e_provenance', for: 'edge', name: 'provenance', type: 'string' },
+  { id: 'e_kind', for: 'edge', name: 'kind', type: 'string' },
+  { id: 'e_style', for: 'edge', name: 'style', type: 'string' },
+]
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+}
+
+function dataElements(target: KeyTarget, values: Record<string, string | number | undefined>): string {
+  return KEYS.filter(k => k.for === target && values[k.name] !== undefined && values[k.name] !== '')
+    .map(k => {
+      const value = values[k.name]!
+      const text = typeof value === 'number' ? formatNumber(value) : escapeXml(value)
+      return `      <data key="${k.id}">${text}</data>`
+    })
+    .join('\n')
+}
+
+export function toGraphML(nodes: Node[], edges: Edge<EdgeData>[]): string {
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<graphml xmlns="http://graphml.graphdrawing.org/xmlns">',
+    ...KEYS.map(k => `  <key id="${k.id}" for="${k.for}" attr.name="${k.name}" attr.type="${k.type}"/>`),
+    '  <graph id="canvas" edgedefault="directed">',
+  ]
+
+  for (const node of nodes) {
+    const { id, ...fields } = nodeFields(node)
+    const data = dataElements('node', fields)
+    lines.push(data ? `    <node id="${escapeXml(id)}">\n${data}\n    </node>` : `    <node id="${escapeXml(id)}"/>`)
+  }
+
+  for (const edge of edges) {
+    const { id, source, target, ...fields } = edgeFields(edge)
+    const open = `    <edge id="${escapeXml(id ?? '')}" source="${escapeXml(source)}" target="${escapeXml(target)}"`
+    const data = dataElements('edge', fields)
+    lines.push(data ? `${open}>\n${data}\n    </edge>` : `${open}/>`)
+  }
+
+  lines.push('  </graph>', '</graphml>', '')
+  return lines.join('\n')
+}
+
+/** Data values of an element, by attribute name, with key defaults applied */
+function readData(element: Element, names: Map<string, string>, defaults: Map<string, string>): Map<string, string> {
+  const values = new Map(defaults)
+  for (const child of Array.from(element.children)) {
+    if (child.localName !== 'data') continue
+    const name = names.get(child.getAttribute('key') ?? '')
+    if (name) values.set(name, child.textContent ?? '')
+  }
+  return values
+}
+
+function yedLabel(element: Element, tag: 'NodeLabel' | 'EdgeLabel'): string | undefined {
+  const label = element.getElementsByTagNameNS('*', tag)[0]
+  return label?.textContent?.trim() || undefined
+}
+
+export function parseGraphML(text: string): ParsedGraph {
+  const doc = new DOMParser().parseFromString(text, 'application/xml')
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new InterchangeParseError('GraphML file is not well-formed XML')
+  }
+  const graph = doc.getElementsByTagNameNS('*', 'graph')[0]
+  if (doc.documentElement.localName !== 'graphml' || !graph) {
+    throw new InterchangeParseError('Not a GraphML file (no <graphml> root with a <graph>)')
+  }
+
+  const builder = createGraphBuilder()
+  const undirected = graph.getAttribute('edgedefault') === 'undirected'
+  if (undirected) builder.warn('Graph is undirected; edges were read as source → target')
+
+  // key id -> attr.name (falling back to the id), per target
+  const names: Record<KeyTarget, Map<string, string>> = { node: new Map(), edge: new Map() }
+  const defaults: Record<KeyTarget, Map<string, string>> = { node: new Map(), edge: new Map() }
+  for (const key of Array.from(doc.getElementsByTagNameNS('*', 'key'))) {
+    const id = key.getAttribute('id')
+    if (!id) continue
+    const name = key.getAttribute('attr.name') ?? id
+    const target = key.getAttribute('for') ?? 'all'
+    const fallback = Array.from(key.children).find(c => c.localName === 'default')?.textContent ?? undefined
+    for (const t of ['node', 'edge'] as const) {
+      if (target !== t && target !== 'all') continue
+      names[t].set(id, name)
+      if (fallback !== undefined) defaults[t].set(name, fallback)
+    }
+  }
+
+  // Nested graphs are flattened
+  for (const element of Array.from(graph.getElementsByTagNameNS('*', 'node'))) {
+    const id = element.getAttribute('id')
+    if (!id) {
+      builder.warn('Skipped a node without an id')
+      continue
+    }
+    const data = readData(element, names.node, defaults.node)
+    const rawKind = data.get('kind') ?? data.get('type')
+    const kind = parseNodeKind(rawKind)
+    if (rawKind && !kind) builder.warn(`Node "${id}": unknown kind "${rawKind}"`)
+    builder.addNode({
+      id,
+      label: data.get('label') ?? data.get('name') ?? yedLabel(element, 'NodeLabel'),
+      kind,
+      description: data.get('description'),
+      prior: parseNumber(data.get('prior')),
+      utility: parseNumber(data.get('utility')),
+      unit: data.get('unit'),
+      x: parseNumber(data.get('x')),
+      y: parseNumber(data.get('y')),
+    })
+  }
+
+  for (const element of Array.from(graph.getElementsByTagNameNS('*', 'edge'))) {
+    const source = element.getAttribute('source')
+    const target = element.getAttribute('target')
+    if (!source || !target) {
+      builder.warn('Skipped an edge without a source or target')
+      continue
+    }
+    const data = readData(element, names.edge, defaults.edge)
+    builder.addEdge({
+      id: element.getAttribute('id') ?? undefined,
+      source,
+      target,
+      label: data.get('label') ?? yedLabel(element, 'EdgeLabel'),
+      weight: parseNumber(data.get('weight')),
+      belief: parseNumber(data.get('belief')),
+      confidence: parseNumber(data.get('confidence') ?? data.get('probability')),
+      provenance: data.get('provenance'),
+      kind: parseEdgeKind(data.get('kind')),
+      style: parseEdgeStyle(data.get('style')),
+    })
+  }
+
+  return builder.build()
+}
@@ -0,0 +1,93 @@
+/**
+ * Graph interchange: GraphML, Mermaid, Graphviz DOT and CSV
+ *
+ * Readers produce canvas nodes/edges plus warnings; ImportExportDialog runs
+ * them through graphValidator for the preview before anything touches the
+ * canvas, then imports them like a JSON file.
+ */
+
+import type { Node, Edge } from '@xyflow/react'
+import type { EdgeData } from '../domain/edges'
+import { parseCsv, toCsv } from './csv'
+import { parseDot, toDot } from './dot'
+import { parseGraphML, toGraphML } from './graphml'
+import { parseMermaid, toMermaid } from './mermaid'
+import type { InterchangeFile, InterchangeFormat, InterchangeSource, ParsedGraph } from './types'
+
+export * from './types'
+
+export const INTERCHANGE_FORMATS: Record<InterchangeFormat, { label: string; description: string; extensions: string[] }> = {
+  graphml: {
+    label: 'GraphML',
+    description: 'yEd, Gephi, networkx (keeps every field)',
+    extensions: ['.graphml', '.xml'],
+  },
+  mermaid: {
+    label: 'Mermaid',
+    description: 'Flowchart text for docs and wikis (labels and kinds only)',
+    extensions: ['.mmd', '.mermaid'],
+  },
+  dot: {
+    label: 'DOT',
+    description: 'Graphviz (keeps every field)',
+    extensions: ['.dot', '.gv'],
+  },
+  csv: {
+    label: 'CSV',
+    description: 'Nodes and edges spreadsheets (two files)',
+    extensions: ['.csv'],
+  },
+}
+
+/** Work out the format of a picked file from its extension, then its content. Null means JSON/unknown. */
+export function detectInterchangeFormat(source: InterchangeSource): InterchangeFormat | null {
+  const name = source.name.toLowerCase()
+  for (const [format, { extensions }] of Object.entries(INTERCHANGE_FORMATS)) {
+    if (extensions.some(ext => name.endsWith(ext))) return format as InterchangeFormat
+  }
+  const head = source.text.replace(/^\uFEFF/, '').trimStart()
+  if (head.startsWith('<')) return 'graphml'
+  if (/^(?:flowchart|graph)\s+(?:TB|TD|BT|RL|LR)\b/i.test(head) || /^flowchart\b/i.test(head)) return 'mermaid'
+  if (/^(?:strict\s+)?(?:di)?graph\b[^{]*\{/i.test(head)) return 'dot'
+  return null
+}
+
+/**
+ * Read one or more files of the same format (only CSV takes two).
+ * Throws InterchangeParseError when the input can't be read at all.
+ */
+export function parseInterchange(format: InterchangeFormat, sources: InterchangeSource[]): ParsedGraph {
+  if (format === 'csv') return parseCsv(sources)
+  const [source] = sources
+  switch (format) {
+    case 'graphml':
+      return parseGraphML(source.text)
+    case 'mermaid':
+      return parseMermaid(source.text)
+    case 'dot':
+      return parseDot(source.text)
+  }
+}
+
+export function exportInterchange(
+  format: InterchangeFormat,
+  nodes: Node[],
+  edges: Edge<EdgeData>[],
+  baseName: string
+): InterchangeFile[] {
+  switch (format) {
+    case 'graphml':
+      return [{ filename: `${baseName}.graphml`, content: toGraphML(nodes, edges), mimeType: 'application/graphml+xml' }]
+    case 'mermaid':
+      return [{ filename: `${baseName}.mmd`, content: toMermaid(nodes, edges), mimeType: 'text/plain' }]
+    case 'dot':
+      return [{ filename: `${baseName}.dot`, content: toDot(nodes, edges), mimeType: 'text/vnd.graphviz' }]
+    case 'csv': {
+      const csv = toCsv(nodes, edges)
+      return [
+        { filename: `${baseName}-nodes.csv`, content: csv.nodes, mimeType: 'text/csv' },
+        { filename: `${baseName}-edges.csv`, content: csv.edges, mimeType: 'text/csv' },
+      ]
+    }
+  }
+}
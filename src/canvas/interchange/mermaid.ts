@@ -0,0 +1,275 @@
+/**
+ * Mermaid flowchart reader/writer
+ *
+ * Node kinds map to classes (n1["Hiring cost"]:::factor) and to shapes, so
+ * an unclassed sketch still gets kinds from its shapes: {decision},
+ * {{risk}}, ((outcome)), ([goal]). Edge labels map to link text and dashed
+ * edges to dotted links. Mermaid has nowhere to keep weights, beliefs,
+ * provenance or positions, so those are not exported; use GraphML or CSV
+ * for a lossless copy.
+ */
+
+import type { Node, Edge } from '@xyflow/react'
+import type { EdgeData } from '../domain/edges'
+import type { NodeType } from '../domain/nodes'
+import { createGraphBuilder, edgeFields, nodeFields, parseNodeKind, type GraphBuilder } from './common'
+import { InterchangeParseError, type ParsedGraph } from './types'
+
+const SHAPES: Record<NodeType, [string, string]> = {
+  goal: ['([', '])'],
+  decision: ['{', '}'],
+  option: ['[', ']'],
+  factor: ['(', ')'],
+  risk: ['{{', '}}'],
+  outcome: ['((', '))'],
+}
+
+// Class styles so the exported chart reads like the canvas
+const CLASS_STYLES: Record<NodeType, string> = {
+  goal: 'fill:#ede9fe,stroke:#7c3aed',
+  decision: 'fill:#dbeafe,stroke:#2563eb',
+  option: 'fill:#e0f2fe,stroke:#0284c7',
+  factor: 'fill:#f3f4f6,stroke:#6b7280',
+  risk: 'fill:#fee2e2,stroke:#dc2626',
+  outcome: 'fill:#dcfce7,stroke:#16a34a',
+}
+
+// Opening delimiters, longest first so "((" wins over "("
+const OPENERS: Array<{ open: string; close: string[]; kind?: NodeType }> = [
+  { open: '(((', close: [')))'], kind: 'outcome' },
+  { open: '((', close: ['))'], kind: 'outcome' },
+  { open: '([', close: ['])'], kind: 'goal' },
+  { open: '[[', close: [']]'] },
+  { open: '[(', close: [')]'] },
+  { open: '{{', close: ['}}'], kind: 'risk' },
+  { open: '[/', close: ['/]', '\\]'] },
+  { open: '[\\', close: ['\\]', '/]'] },
+  { open: '(', close: [')'] },
+  { open: '[', close: [']'] },
+  { open: '{', close: ['}'], kind: 'decision' },
+  { open: '>', close: [']'] },
+]
+
+const HEADER = /^(?:flowchart|graph)(?:\s+(?:TB|TD|BT|RL|LR))?\s*$/i
+const IGNORED = /^(?:subgraph\b|end\b|direction\b|style\b|classDef\b|linkStyle\b|click\b|accTitle\b|accDescr\b)/i
+const ID = /^[A-Za-z0-9_]+/
+
+// Links: with |text| (or |"quoted text"|) after the arrow, with text inside the arrow, or plain
+const LINK_PIPE = /^<?(?:-{2,}|={2,}|-\.+-|~{3,})[>xo]?\s*\|("[^"]*"|[^|]*)\|/
+const LINK_TEXT = /^<?(--|==|-\.)\s+(.+?)\s+(?:-{2,}|={2,}|\.+-)[>xo]?/
+const LINK_PLAIN = /^<?(?:-{2,}|={2,}|-\.+-|~{3,})[>xo]?/
+
+function mermaidId(id: string, used: Map<string, string>): string {
+  const existing = used.get(id)
+  if (existing) return existing
+  let safe = id.replace(/[^A-Za-z0-9_]/g, '_') || 'n'
+  if ([...used.values()].includes(safe)) safe = `${safe}_${used.size + 1}`
+  used.set(id, safe)
+  return safe
+}
+
+// "|" is written as an entity code: readers that ignore quotes would end link text at it
+function mermaidText(text: string): string {
+  return `"${text.replace(/"/g, '#quot;').replace(/\|/g, '#124;').replace(/\n/g, ' ')}"`
+}
+
+export function toMermaid(nodes: Node[], edges: Edge<EdgeData>[]): string {
+  const ids = new Map<string, string>()
+  const lines = ['flowchart LR']
+
+  const kinds = new Set<NodeType>()
+  for (const node of nodes) {
+    const { id, label, kind } = nodeFields(node)
+    const [open, close] = kind ? SHAPES[kind] : SHAPES.option
+    const cls = kind ? `:::${kind}` : ''
+    if (kind) kinds.add(kind)
+    lines.push(`  ${mermaidId(id, ids)}${open}${mermaidText(label ?? id)}${close}${cls}`)
+  }
+
+  for (const edge of edges) {
+    const { source, target, label, style } = edgeFields(edge)
+    const arrow = style === 'dashed' || style === 'dotted' ? '-.->' : '-->'
+    const text = label ? `|${mermaidText(label)}|` : ''
+    lines.push(`  ${mermaidId(source, ids)} ${arrow}${text} ${mermaidId(target, ids)}`)
+  }
+
+  for (const kind of kinds) lines.push(`  classDef ${kind} ${CLASS_STYLES[kind]}`)
+  return `${lines.join('\n')}\n`
+}
+
+/** Split a line on ";" outside quotes */
+function statements(line: string): string[] {
+  const parts: string[] = []
+  let current = ''
+  let quoted = false
+  for (const ch of line) {
+    if (ch === '"') quoted = !quoted
+    if (ch === ';' && !quoted) {
+      parts.push(current)
+      current = ''
+    } else {
+      current += ch
+    }
+  }
+  parts.push(current)
+  return parts.map(p => p.trim()).filter(Boolean)
+}
+
+function decodeText(raw: string): string {
+  let text = raw.trim()
+  if (text.startsWith('"') && text.endsWith('"') && text.length >= 2) text = text.slice(1, -1)
+  if (text.startsWith('`') && text.endsWith('`') && text.length >= 2) text = text.slice(1, -1) // Markdown string
+  return text
+    .replace(/#quot;/g, '"')
+    .replace(/#amp;/g, '&')
+    .replace(/#(\d+);/g, (_, code: string) => String.fromCharCode(Number(code)))
+    .replace(/<br\s*\/?>/gi, ' ')
+    .trim()
+}
+
+interface Cursor {
+  text: string
+  pos: number
+}
+
+function skipSpace(c: Cursor): void {
+  while (c.pos < c.text.length && /\s/.test(c.text[c.pos])) c.pos++
+}
+
+/** Read `id`, `id[Label]`, `id{"Label"}:::class` etc.; null if there's no node here */
+function readNode(c: Cursor, builder: GraphBuilder, classes: Map<string, string>): string | null {
+  skipSpace(c)
+  const idMatch = ID.exec(c.text.slice(c.pos))
+  if (!idMatch) return null
+  const id = idMatch[0]
+  c.pos += id.length
+
+  let label: string | undefined
+  let shapeKind: NodeType | undefined
+  const rest = c.text.slice(c.pos)
+  const opener = OPENERS.find(o => rest.startsWith(o.open))
+  if (opener) {
+    let i = opener.open.length
+    if (rest[i] === '"') {
+      const end = rest.indexOf('"', i + 1)
+      if (end !== -1) i = end + 1
+    }
+    const candidates = opener.close.map(close => ({ close, at: rest.indexOf(close, i) })).filter(x => x.at !== -1)
+    if (candidates.length === 0) throw new InterchangeParseError(`Unclosed node shape after "${id}"`)
+    const { close, at } = candidates.reduce((a, b) => (b.at < a.at ? b : a))
+    label = decodeText(rest.slice(opener.open.length, at))
+    shapeKind = opener.kind
+    c.pos += at + close.length
+  }
+
+  const classMatch = /^:::([A-Za-z0-9_-]+)/.exec(c.text.slice(c.pos))
+  if (classMatch) {
+    classes.set(id, classMatch[1])
+    c.pos += classMatch[0].length
+  }
+
+  builder.addNode({ id, label, kind: shapeKind })
+  return id
+}
+
+/** Read `a & b` */
+function readGroup(c: Cursor, builder: GraphBuilder, classes: Map<string, string>): string[] | null {
+  const first = readNode(c, builder, classes)
+  if (!first) return null
+  const ids = [first]
+  for (;;) {
+    const save = c.pos
+    skipSpace(c)
+    if (c.text[c.pos] !== '&') {
+      c.pos = save
+      return ids
+    }
+    c.pos++
+    const next = readNode(c, builder, classes)
+    if (!next) throw new InterchangeParseError(`Expected a node after "&" in "${c.text}"`)
+    ids.push(next)
+  }
+}
+
+function readLink(c: Cursor): { label?: string; dashed: boolean; invisible: boolean } | null {
+  skipSpace(c)
+  const rest = c.text.slice(c.pos)
+  for (const pattern of [LINK_PIPE, LINK_TEXT, LINK_PLAIN]) {
+    const match = pattern.exec(rest)
+    if (!match) continue
+    c.pos += match[0].length
+    const arrow = match[0]
+    const text = pattern === LINK_PIPE ? match[1] : pattern === LINK_TEXT ? match[2] : undefined
+    return {
+      label: text !== undefined ? decodeText(text) || undefined : undefined,
+      dashed: arrow.includes('.'),
+      invisible: arrow.startsWith('~'),
+    }
+  }
+  return null
+}
+
+export function parseMermaid(text: string): ParsedGraph {
+  const builder = createGraphBuilder()
+  const classes = new Map<string, string>()
+  let sawHeader = false
+
+  const lines = text.split(/\r?\n/)
+  lines.forEach((rawLine, lineIndex) => {
+    const line = rawLine.trim()
+    if (!line || line.startsWith('%%')) return
+
+    for (const statement of statements(line)) {
+      if (HEADER.test(statement)) {
+        sawHeader = true
+        continue
+      }
+      if (IGNORED.test(statement)) continue
+
+      const classStatement = /^class\s+([\w,\s]+?)\s+([A-Za-z0-9_-]+)$/.exec(statement)
+      if (classStatement) {
+        for (const id of classStatement[1].split(',')) classes.set(id.trim(), classStatement[2])
+        continue
+      }
+
+      const c: Cursor = { text: statement, pos: 0 }
+      try {
+        let from = readGroup(c, builder, classes)
+        if (!from) throw new InterchangeParseError(`Unrecognised statement "${statement}"`)
+        for (;;) {
+          const link = readLink(c)
+          if (!link) break
+          const to = readGroup(c, builder, classes)
+          if (!to) throw new InterchangeParseError(`Expected a node after the link in "${statement}"`)
+          if (!link.invisible) {
+            for (const source of from) {
+              for (const target of to) {
+                builder.addEdge({ source, target, label: link.label, style: link.dashed ? 'dashed' : undefined })
+              }
+            }
+          }
+          from = to
+        }
+        skipSpace(c)
+        if (c.pos < c.text.length) {
+          builder.warn(`Line ${lineIndex + 1}: ignored "${c.text.slice(c.pos)}"`)
+        }
+      } catch (error) {
+        if (!(error instanceof InterchangeParseError)) throw error
+        builder.warn(`Line ${lineIndex + 1}: ${error.message}; skipped`)
+      }
+    }
+  })
+
+  if (!sawHeader) {
+    throw new InterchangeParseError('Not a Mermaid flowchart (expected "flowchart LR" or "graph TD" first)')
+  }
+
+  // Classes win over shapes
+  for (const [id, cls] of classes) {
+    const kind = parseNodeKind(cls)
+    if (kind && builder.hasNode(id)) builder.addNode({ id, kind })
+  }
+
+  return builder.build()
+}
@@ -0,0 +1,65 @@
+/**
+ * Graph interchange types
+ * Shared by the GraphML, Mermaid, DOT and CSV readers/writers
+ */
+
+import type { Node, Edge } from '@xyflow/react'
+import type { EdgeData, EdgeKind, EdgeStyle } from '../domain/edges'
+import type { NodeType } from '../domain/nodes'
+
+export type InterchangeFormat = 'graphml' | 'mermaid' | 'dot' | 'csv'
+
+/** A file picked for import */
+export interface InterchangeSource {
+  name: string
+  text: string
+}
+
+/** A file produced by export (CSV produces two) */
+export interface InterchangeFile {
+  filename: string
+  content: string
+  mimeType: string
+}
+
+/** Result of reading a file: canvas-ready nodes/edges plus anything that was skipped or adjusted */
+export interface ParsedGraph {
+  nodes: Node[]
+  edges: Edge<EdgeData>[]
+  warnings: string[]
+}
+
+/** Format-neutral node fields; everything but the id is optional on import */
+export interface NodeFields {
+  id: string
+  label?: string
+  kind?: NodeType
+  description?: string
+  prior?: number
+  utility?: number
+  unit?: string
+  x?: number
+  y?: number
+}
+
+/** Format-neutral edge fields */
+export interface EdgeFields {
+  id?: string
+  source: string
+  target: string
+  label?: string
+  weight?: number
+  belief?: number
+  confidence?: number
+  provenance?: string
+  kind?: EdgeKind
+  style?: EdgeStyle
+}
+
+/** The file can't be read at all (as opposed to warnings about parts of it) */
+export class InterchangeParseError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'InterchangeParseError'
+  }
+}
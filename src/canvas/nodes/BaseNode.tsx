@@ -19,6 +19,9 @@ import { NodeBadge } from '../components/NodeBadge'
 import { useCEEInsights } from '../../hooks/useCEEInsights'
 import { useISLValidation } from '../../hooks/useISLValidation'
 import { useCanvasStore } from '../store'
+import { selectRecordScope } from '../store/scenarioRecords'
+import { useCommentThreadsStore, unreadCountForAnchor } from '../comments/threads'
+import { isCommentsEnabled } from '../../flags'
 import { nodeColors } from './colors'
 import { typography } from '../../styles/typography'
 
@@ -54,6 +57,12 @@ export const BaseNode = memo(({ id, nodeType, icon: Icon, data, selected, childr
   // Set references change on each store update.
   const isHighlighted = useCanvasStore(s => s.highlightedNodes.has(id))
 
+  // Discussion threads anchored to this node (count is a primitive, see above)
+  const scenarioId = useCanvasStore(selectRecordScope)
+  const unreadComments = useCommentThreadsStore(s =>
+    isCommentsEnabled() ? unreadCountForAnchor(s, scenarioId, 'node', id) : 0
+  )
+
   const ceeWarnings = ceeInsights?.structural_health.warnings || []
   const islAffected = islValidation?.suggestions.some(suggestion =>
     suggestion.affectedNodes.includes(id)
@@ -88,6 +97,10 @@ export const BaseNode = memo(({ id, nodeType, icon: Icon, data, selected, childr
     }
   }
 
+  const handleCommentsClick = () => {
+    useCommentThreadsStore.getState().openPanel({ mode: 'anchor', anchor: { kind: 'node', id, label: String(label) } })
+  }
+
   // Phase 2: Uncertain node styling
   const isUncertain = (data?.uncertainty ?? 0) > 0.4
   const borderStyle = isUncertain ? 'border-dashed' : ''
@@ -136,7 +149,9 @@ export const BaseNode = memo(({ id, nodeType, icon: Icon, data, selected, childr
         nodeId={id}
         ceeWarnings={ceeWarnings}
         islAffected={islAffected}
+        unreadComments={unreadComments}
         onClick={handleBadgeClick}
+        onCommentsClick={handleCommentsClick}
       />
       {/* Connection handles */}
       <Handle
@@ -5,11 +5,15 @@
  */
 
 import { useState, useEffect, useRef, useCallback, memo } from 'react'
+import type { Node, Edge } from '@xyflow/react'
 import { Send, SkipForward, Eye, EyeOff, Loader2 } from 'lucide-react'
 import { useCanvasStore } from '../store'
 import { useCEEDraft } from '../../hooks/useCEEDraft'
 import { typography } from '../../styles/typography'
 import styles from './AIClarifierChat.module.css'
+import { isChangeSetsEnabled } from '../../flags'
+import { changeSetFromGraphs } from '../changesets/changeSet'
+import { useChangeSetReviewStore } from '../changesets/reviewStore'
 
 interface Message {
   id: string
@@ -25,6 +29,41 @@ interface ClarifierQuestion {
   options?: string[]
 }
 
+/**
+ * Propose the clarifier's preview as a change-set. Preview ids and ghost
+ * styling are replaced with real ids and plain entities first, so what gets
+ * applied is what the clarifier would have committed.
+ */
+function proposeClarifierGraph(previewNodes: Node[], previewEdges: Edge[]) {
+  const { nodes, edges, createNodeId, createEdgeId } = useCanvasStore.getState()
+  const ids = new Map(previewNodes.map(n => [n.id, createNodeId()]))
+  const withoutPreview = (data: Record<string, unknown> = {}) => {
+    const next = { ...data }
+    delete next.isPreview
+    return next
+  }
+
+  const proposed = {
+    nodes: [
+      ...nodes,
+      ...previewNodes.map(n => ({ id: ids.get(n.id)!, type: n.type, position: n.position, data: withoutPreview(n.data) })),
+    ],
+    edges: [
+      ...edges,
+      ...previewEdges.map(e => ({
+        id: createEdgeId(),
+        source: ids.get(e.source) ?? e.source,
+        target: ids.get(e.target) ?? e.target,
+        type: e.type,
+        data: withoutPreview(e.data),
+      })),
+    ],
+  }
+  useChangeSetReviewStore.getState().propose(
+    changeSetFromGraphs({ nodes, edges }, proposed, { source: 'clarifier', title: 'Clarified decision model' })
+  )
+}
+
 export const AIClarifierChat = memo(function AIClarifierChat() {
   const [messages, setMessages] = useState<Message[]>([])
   const [inputValue, setInputValue] = useState('')
@@ -163,6 +202,12 @@ export const AIClarifierChat = memo(function AIClarifierChat() {
       // Clear preview first
       clearClarifierPreview()
 
+      if (isChangeSetsEnabled()) {
+        proposeClarifierGraph(previewNodes, previewEdges)
+        setShowAIClarifier(false)
+        return
+      }
+
       // Apply permanently - CRITICAL: include node IDs for edge mapping
       applyClarifierGraph(
         {
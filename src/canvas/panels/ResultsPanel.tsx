@@ -23,8 +23,9 @@
 
 import { useEffect, useRef, useCallback, useState } from 'react'
 import { History as HistoryIcon, GitCompare as CompareIcon, BarChart3, Play } from 'lucide-react'
-import { useCanvasStore, hasValidationErrors, selectResultsStatus, selectProgress, selectReport, selectError, selectSeed, selectHash } from '../store'
+import { useCanvasStore, hasValidationErrors, selectResultsStatus, selectProgress, selectReport, selectError, selectSeed, selectHash, selectFromCache, selectInterim, selectStoppedEarly } from '../store'
 import { ProgressStrip } from '../components/ProgressStrip'
+import { InterimResults } from '../components/InterimResults'
 import { WhyPanel } from '../../routes/templates/components/WhyPanel'
 import { useLayerRegistration } from '../components/LayerProvider'
 import { DriverChips } from '../components/DriverChips'
@@ -57,11 +58,13 @@ import { trackCompareOpened } from '../utils/sandboxTelemetry'
    onClose: () => void
    onCancel?: () => void
    onRunAgain?: () => void
+   /** Stop sampling and keep the interim estimate (defaults to the store action) */
+   onStopEarly?: () => void
  }
 
  type TabId = 'latest' | 'history' | 'compare'
 
- export function ResultsPanel({ isOpen, onClose, onCancel, onRunAgain }: ResultsPanelProps): JSX.Element | null {
+ export function ResultsPanel({ isOpen, onClose, onCancel, onRunAgain, onStopEarly }: ResultsPanelProps): JSX.Element | null {
    const panelRef = useRef<HTMLDivElement>(null)
 
   const status = useCanvasStore(selectResultsStatus)
@@ -70,6 +73,9 @@ import { trackCompareOpened } from '../utils/sandboxTelemetry'
   const error = useCanvasStore(selectError)
   const seed = useCanvasStore(selectSeed)
   const hash = useCanvasStore(selectHash)
+  const fromCache = useCanvasStore(selectFromCache)
+  const interim = useCanvasStore(selectInterim)
+  const stoppedEarly = useCanvasStore(selectStoppedEarly)
   // React #185 FIX: Use shallow comparison for array/object selectors
   const runMeta = useCanvasStore(s => s.runMeta)
   const nodes = useCanvasStore(s => s.nodes)
@@ -82,7 +88,7 @@ import { trackCompareOpened } from '../utils/sandboxTelemetry'
   const resultsReset = useCanvasStore(s => s.resultsReset)
   const resultsLoadHistorical = useCanvasStore(s => s.resultsLoadHistorical)
   const { showToast } = useToast()
-  const { run } = useResultsRun()
+  const { run, stopEarly } = useResultsRun()
   const { formatErrors, focusError } = useValidationFeedback()
   const { limits } = useEngineLimits()
   const checkRunEligibility = useRunEligibilityCheck()
@@ -281,6 +287,7 @@ import { trackCompareOpened } from '../utils/sandboxTelemetry'
   const isComplete = status === 'complete'
   const isError = status === 'error'
   const isCancelled = status === 'cancelled'
+  const isQueued = status === 'queued'
 
   const decisionReviewFlagOn = isDecisionReviewEnabled()
   const ceeReview = runMeta.ceeReview ?? null
@@ -307,14 +314,17 @@ import { trackCompareOpened } from '../utils/sandboxTelemetry'
       text = status === 'preparing' ? 'Preparing' : status === 'connecting' ? 'Connecting' : 'Analysing'
       className = 'bg-blue-100 text-blue-600'
     } else if (status === 'complete') {
-      text = 'Complete'
+      text = fromCache ? 'From cache' : 'Complete'
       className = 'bg-green-100 text-green-600'
     } else if (status === 'error') {
       text = 'Error'
       className = 'bg-danger-100 text-danger-600'
     } else if (status === 'cancelled') {
-      text = 'Cancelled'
+      text = stoppedEarly ? 'Partial' : 'Cancelled'
       className = 'bg-warning-100 text-warning-600'
+    } else if (status === 'queued') {
+      text = 'Queued'
+      className = 'bg-info-100 text-info-600'
     }
 
     return (
@@ -427,8 +437,15 @@ import { trackCompareOpened } from '../utils/sandboxTelemetry'
                       }
                     }}
                   />
-                  {/* Loading skeleton */}
-                  <ResultsSkeleton />
+                  {/* Converging estimate once samples arrive, otherwise the skeleton */}
+                  {interim ? (
+                    <InterimResults
+                      interim={interim}
+                      onStopEarly={onStopEarly ?? stopEarly}
+                    />
+                  ) : (
+                    <ResultsSkeleton />
+                  )}
                 </>
               )}
 
@@ -612,8 +629,13 @@ import { trackCompareOpened } from '../utils/sandboxTelemetry'
               {/* Cancelled */}
               {isCancelled && (
                 <div className="p-4 rounded-lg border border-warning-300 bg-warning-100 text-center">
+                  {stoppedEarly && interim && (
+                    <div className="mb-3 text-left">
+                      <InterimResults interim={interim} stoppedEarly />
+                    </div>
+                  )}
                   <p className="text-sm text-warning-700 mb-3">
-                    Analysis cancelled
+                    {stoppedEarly ? 'Analysis stopped early' : 'Analysis cancelled'}
                   </p>
                   <button
                     onClick={handleReset}
@@ -624,6 +646,15 @@ import { trackCompareOpened } from '../utils/sandboxTelemetry'
                 </div>
               )}
 
+              {/* Queued (engine offline) */}
+              {isQueued && (
+                <div className="p-4 rounded-lg border border-info-200 bg-info-50 text-center" role="status">
+                  <p className="text-sm text-info-700">
+                    Engine offline — your analysis is queued and will run automatically when the engine is back.
+                  </p>
+                </div>
+              )}
+
               {/* Idle state */}
               {status === 'idle' && (
                 <>
@@ -744,6 +775,7 @@ function ResultsTrustFooter({ seed, hash, showToast }: ResultsTrustFooterProps)
     if (adapterName === 'mock') return 'PLoT (mock)'
     if (adapterName === 'httpv1') return 'PLoT (staging)'
     if (adapterName === 'auto') return 'PLoT (auto-detect)'
+    if (adapterName === 'replay') return 'PLoT (cassette replay)'
     return 'PLoT (unknown mode)'
   })()
 
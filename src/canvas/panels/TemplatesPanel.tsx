@@ -17,6 +17,7 @@ import { PanelShell } from './_shared/PanelShell'
 import { coerceNodes, toUiKind, type BackendNode } from '../adapters/backendKinds'
 import { PanelSection } from './_shared/PanelSection'
 import { useCanvasStore } from '../store'
+import { withAuditCause } from '../audit/trail'
 import { createScenario, saveScenarios, loadScenarios, setCurrentScenarioId } from '../store/scenarios'
 import { TemplateSkeleton } from '../components/TemplateSkeleton'
 import { trackRunAttempt } from '../utils/sandboxTelemetry'
@@ -286,10 +287,10 @@ export function TemplatesPanel({ isOpen, onClose, onInsertBlueprint, onPinToCanv
 
       // Directly append to store
       state.pushHistory()
-      useCanvasStore.setState(currentState => ({
+      withAuditCause('template', () => useCanvasStore.setState(currentState => ({
         nodes: [...currentState.nodes, ...newNodes],
         edges: [...currentState.edges, ...newEdges]
-      }))
+      })))
 
       showToast(`Merged "${templateDetail.name}" into canvas.`)
     } catch (err) {
@@ -467,10 +468,10 @@ export function TemplatesPanel({ isOpen, onClose, onInsertBlueprint, onPinToCanv
 
       // Directly append to store bypassing existing template check
       state.pushHistory()
-      useCanvasStore.setState(currentState => ({
+      withAuditCause('template', () => useCanvasStore.setState(currentState => ({
         nodes: [...currentState.nodes, ...newNodes],
         edges: [...currentState.edges, ...newEdges]
-      }))
+      })))
 
       showToast('Template merged into current scenario.')
     } catch (err) {
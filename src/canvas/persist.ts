@@ -1,6 +1,7 @@
 // Safe localStorage persistence with schema validation, versioning, and quota handling
 import { Node, Edge } from '@xyflow/react'
 import type { EdgeData } from './domain/edges'
+import { canvasStorage } from './persist/storage'
 
 const STORAGE_KEY = 'canvas-storage'
 const SNAPSHOT_PREFIX = 'canvas-snapshot-'
@@ -125,7 +126,7 @@ function sanitizeState(state: PersistedState): PersistedState {
 
 export function loadState(): PersistedState | null {
   try {
-    const raw = localStorage.getItem(STORAGE_KEY)
+    const raw = canvasStorage.getItem(STORAGE_KEY)
     if (!raw) return null
     const data = JSON.parse(raw)
     if (!isValidState(data)) return null
@@ -150,7 +151,7 @@ export function saveState(state: { nodes: Node[]; edges: Edge<EdgeData>[] }): bo
       return false
     }
 
-    localStorage.setItem(STORAGE_KEY, payload)
+    canvasStorage.setItem(STORAGE_KEY, payload)
     return true
   } catch (err) {
     if (err instanceof DOMException && err.name === 'QuotaExceededError') {
@@ -164,7 +165,7 @@ export function saveState(state: { nodes: Node[]; edges: Edge<EdgeData>[] }): bo
 
 export function clearState(): void {
   try {
-    localStorage.removeItem(STORAGE_KEY)
+    canvasStorage.removeItem(STORAGE_KEY)
   } catch {
     // ignore
   }
@@ -188,7 +189,7 @@ export function saveSnapshot(state: { nodes: Node[]; edges: Edge<EdgeData>[] }):
     }
 
     const key = `${SNAPSHOT_PREFIX}${persisted.timestamp}`
-    localStorage.setItem(key, payload)
+    canvasStorage.setItem(key, payload)
 
     // Rotate old snapshots
     rotateSnapshots()
@@ -207,10 +208,9 @@ export function saveSnapshot(state: { nodes: Node[]; edges: Edge<EdgeData>[] }):
 export function listSnapshots(): SnapshotMetadata[] {
   const snapshots: SnapshotMetadata[] = []
   try {
-    for (let i = 0; i < localStorage.length; i++) {
-      const key = localStorage.key(i)
-      if (key && key.startsWith(SNAPSHOT_PREFIX)) {
-        const data = localStorage.getItem(key)
+    for (const key of canvasStorage.keys()) {
+      if (key.startsWith(SNAPSHOT_PREFIX)) {
+        const data = canvasStorage.getItem(key)
         if (data) {
           try {
             const parsed = JSON.parse(data)
@@ -235,7 +235,7 @@ export function listSnapshots(): SnapshotMetadata[] {
 
 export function loadSnapshot(key: string): PersistedState | null {
   try {
-    const raw = localStorage.getItem(key)
+    const raw = canvasStorage.getItem(key)
     if (!raw) return null
     const data = JSON.parse(raw)
     if (!isValidState(data)) return null
@@ -247,7 +247,7 @@ export function loadSnapshot(key: string): PersistedState | null {
 
 export function deleteSnapshot(key: string): void {
   try {
-    localStorage.removeItem(key)
+    canvasStorage.removeItem(key)
   } catch {
     // ignore
   }
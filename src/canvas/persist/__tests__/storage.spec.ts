@@ -0,0 +1,143 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import {
+  canvasStorage,
+  createMemoryBackend,
+  getStorageStatus,
+  initCanvasStorage,
+  onExternalChange,
+  resetCanvasStorage,
+  storageUsage,
+  BACKEND_RETRY_MS,
+  StorageUnavailableError,
+  type StorageBackend,
+} from '../storage'
+
+const RUNS_KEY = 'olumi-canvas-run-history'
+const READS_KEY = 'canvas-comment-reads.v1'
+
+describe('canvas storage', () => {
+  beforeEach(() => {
+    localStorage.clear()
+    resetCanvasStorage()
+    vi.spyOn(console, 'info').mockImplementation(() => {})
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    resetCanvasStorage()
+    vi.restoreAllMocks()
+  })
+
+  it('uses localStorage until a backend is initialised', () => {
+    canvasStorage.setItem(RUNS_KEY, '[]')
+    expect(localStorage.getItem(RUNS_KEY)).toBe('[]')
+    expect(getStorageStatus().backend).toBe('localStorage')
+  })
+
+  it('moves canvas keys out of localStorage on first start', async () => {
+    localStorage.setItem(RUNS_KEY, '[1]')
+    localStorage.setItem(READS_KEY, '[]')
+    localStorage.setItem('unrelated', 'keep')
+    const backend = createMemoryBackend()
+
+    const status = await initCanvasStorage(backend)
+
+    expect(status).toEqual({ backend: 'memory', migratedKeys: 2 })
+    expect(canvasStorage.getItem(RUNS_KEY)).toBe('[1]')
+    expect(localStorage.getItem(RUNS_KEY)).toBeNull()
+    expect(localStorage.getItem('unrelated')).toBe('keep')
+
+    // Writes reach the backend, and a second start doesn't migrate again
+    canvasStorage.setItem(RUNS_KEY, '[2]')
+    await canvasStorage.flush()
+    localStorage.setItem(RUNS_KEY, '[stale]')
+    resetCanvasStorage()
+    expect(await initCanvasStorage(backend)).toEqual({ backend: 'memory', migratedKeys: 0 })
+    expect(canvasStorage.getItem(RUNS_KEY)).toBe('[2]')
+  })
+
+  it('rolls back and stays on localStorage when the migration fails', async () => {
+    localStorage.setItem(RUNS_KEY, '[1]')
+    localStorage.setItem(READS_KEY, '[]')
+    const inner = createMemoryBackend({ [RUNS_KEY]: '[old]' })
+    const backend: StorageBackend = {
+      ...inner,
+      put: async (key, value) => {
+        if (key === READS_KEY) throw new Error('Disk full')
+        await inner.put(key, value)
+      },
+    }
+
+    const status = await initCanvasStorage(backend)
+
+    expect(status).toMatchObject({ backend: 'localStorage', error: 'Disk full' })
+    expect(await inner.entries()).toEqual([[RUNS_KEY, '[old]']])
+    expect(localStorage.getItem(RUNS_KEY)).toBe('[1]')
+    expect(canvasStorage.getItem(READS_KEY)).toBe('[]')
+  })
+
+  it('falls back to localStorage when the backend never loads', async () => {
+    localStorage.setItem(RUNS_KEY, '[1]')
+    const backend: StorageBackend = { ...createMemoryBackend(), entries: () => new Promise(() => {}) }
+
+    const status = await initCanvasStorage(backend, 10)
+
+    expect(status).toMatchObject({ backend: 'localStorage', error: 'Timed out after 10ms loading memory' })
+    expect(canvasStorage.getItem(RUNS_KEY)).toBe('[1]')
+  })
+
+  it('goes read-only instead of falling back once the data has moved, and retries', async () => {
+    localStorage.setItem(RUNS_KEY, '[1]')
+    const inner = createMemoryBackend()
+    await initCanvasStorage(inner)
+    resetCanvasStorage()
+
+    vi.useFakeTimers()
+    let answer = false
+    const backend: StorageBackend = { ...inner, entries: () => (answer ? inner.entries() : new Promise(() => {})) }
+    const pending = initCanvasStorage(backend, 10)
+    await vi.advanceTimersByTimeAsync(10)
+
+    expect(await pending).toMatchObject({ backend: 'localStorage', readOnly: true })
+    expect(canvasStorage.getItem(RUNS_KEY)).toBeNull()
+    expect(() => canvasStorage.setItem(RUNS_KEY, '[]')).toThrow(StorageUnavailableError)
+    expect(localStorage.getItem(RUNS_KEY)).toBeNull()
+
+    const listener = vi.fn()
+    const unsubscribe = onExternalChange(listener)
+    answer = true
+    await vi.advanceTimersByTimeAsync(BACKEND_RETRY_MS)
+    vi.useRealTimers()
+    unsubscribe()
+
+    expect(getStorageStatus()).toEqual({ backend: 'memory', migratedKeys: 0 })
+    expect(canvasStorage.getItem(RUNS_KEY)).toBe('[1]')
+    expect(listener).toHaveBeenCalledWith(null)
+  })
+
+  it('notifies listeners about changes from other tabs', () => {
+    const listener = vi.fn()
+    const unsubscribe = onExternalChange(listener)
+
+    window.dispatchEvent(new StorageEvent('storage', { key: RUNS_KEY }))
+    unsubscribe()
+    window.dispatchEvent(new StorageEvent('storage', { key: RUNS_KEY }))
+
+    expect(listener).toHaveBeenCalledTimes(1)
+    expect(listener).toHaveBeenCalledWith(RUNS_KEY)
+  })
+
+  it('breaks usage down by category', async () => {
+    await initCanvasStorage(createMemoryBackend())
+    canvasStorage.setItem(RUNS_KEY, '12345')
+    canvasStorage.setItem('canvas-snapshot-1', 'abc')
+    canvasStorage.setItem('canvas-snapshots-v2', 'abc')
+    canvasStorage.setItem('olumi-canvas-scenario-sync-bases:u1', '{}')
+
+    const usage = Object.fromEntries(storageUsage().map(u => [u.category, u]))
+    expect(usage.runs).toMatchObject({ keys: 1, bytes: RUNS_KEY.length + 5 })
+    expect(usage.snapshots.keys).toBe(2)
+    expect(usage.scenarios.keys).toBe(1)
+    expect(usage.comments).toMatchObject({ keys: 0, bytes: 0 })
+  })
+})
@@ -0,0 +1,157 @@
+/**
+ * Minimal IndexedDB key-value helper
+ *
+ * Promise wrapper around a single `olumi-canvas` database with one object
+ * store per feature. Falls back to an in-memory map when IndexedDB is not
+ * available (SSR, jsdom tests, private-mode quirks) so callers never branch.
+ */
+
+const DB_NAME = 'olumi-canvas'
+const DB_VERSION = 4
+
+/**
+ * Object stores in the canvas database.
+ * Adding a store requires bumping DB_VERSION.
+ */
+export const IDB_STORES = ['run-queue', 'result-cache', 'meta', 'scenario-versions', 'kv'] as const
+export type IdbStoreName = typeof IDB_STORES[number]
+
+let dbPromise: Promise<IDBDatabase> | null = null
+const memory = new Map<IdbStoreName, Map<string, unknown>>()
+
+function isIndexedDbAvailable(): boolean {
+  try {
+    return typeof indexedDB !== 'undefined' && indexedDB !== null
+  } catch {
+    return false
+  }
+}
+
+function memoryStore(store: IdbStoreName): Map<string, unknown> {
+  let map = memory.get(store)
+  if (!map) {
+    map = new Map()
+    memory.set(store, map)
+  }
+  return map
+}
+
+function openDb(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise
+
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    let blocked = false
+    const request = indexedDB.open(DB_NAME, DB_VERSION)
+    // An older tab holds the previous version open: give up rather than wait on it
+    request.onblocked = () => {
+      blocked = true
+      reject(new Error(`${DB_NAME} upgrade blocked by another open tab`))
+    }
+    request.onupgradeneeded = () => {
+      const db = request.result
+      for (const name of IDB_STORES) {
+        if (!db.objectStoreNames.contains(name)) {
+          db.createObjectStore(name)
+        }
+      }
+    }
+    request.onsuccess = () => {
+      const db = request.result
+      if (blocked) {
+        db.close()
+        return
+      }
+      // Let a newer version in another tab upgrade; the next call reopens
+      db.onversionchange = () => {
+        db.close()
+        dbPromise = null
+      }
+      resolve(db)
+    }
+    request.onerror = () => reject(request.error)
+  }).catch((error) => {
+    // Allow a later call to retry (e.g. after the user frees quota)
+    dbPromise = null
+    throw error
+  })
+
+  return dbPromise
+}
+
+async function withStore<T>(
+  store: IdbStoreName,
+  mode: IDBTransactionMode,
+  fn: (objectStore: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDb()
+  return new Promise<T>((resolve, reject) => {
+    const tx = db.transaction(store, mode)
+    const request = fn(tx.objectStore(store))
+    tx.oncomplete = () => resolve(request.result)
+    tx.onerror = () => reject(tx.error ?? request.error)
+    tx.onabort = () => reject(tx.error ?? request.error)
+  })
+}
+
+export async function idbGet<T>(store: IdbStoreName, key: string): Promise<T | undefined> {
+  if (!isIndexedDbAvailable()) {
+    return memoryStore(store).get(key) as T | undefined
+  }
+  return withStore<T | undefined>(store, 'readonly', s => s.get(key) as IDBRequest<T | undefined>)
+}
+
+export async function idbGetAll<T>(store: IdbStoreName): Promise<T[]> {
+  if (!isIndexedDbAvailable()) {
+    return [...memoryStore(store).values()] as T[]
+  }
+  return withStore<T[]>(store, 'readonly', s => s.getAll() as IDBRequest<T[]>)
+}
+
+/**
+ * All key/value pairs of a store, in key order
+ */
+export async function idbEntries<T>(store: IdbStoreName): Promise<Array<[string, T]>> {
+  if (!isIndexedDbAvailable()) {
+    return [...memoryStore(store).entries()].sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0)) as Array<[string, T]>
+  }
+  const db = await openDb()
+  return new Promise<Array<[string, T]>>((resolve, reject) => {
+    const tx = db.transaction(store, 'readonly')
+    const entries: Array<[string, T]> = []
+    const request = tx.objectStore(store).openCursor()
+    request.onsuccess = () => {
+      const cursor = request.result
+      if (!cursor) return
+      entries.push([String(cursor.key), cursor.value as T])
+      cursor.continue()
+    }
+    tx.oncomplete = () => resolve(entries)
+    tx.onerror = () => reject(tx.error ?? request.error)
+    tx.onabort = () => reject(tx.error ?? request.error)
+  })
+}
+
+export async function idbPut<T>(store: IdbStoreName, key: string, value: T): Promise<void> {
+  if (!isIndexedDbAvailable()) {
+    // Clone like structured clone would, so callers can't mutate stored state
+    memoryStore(store).set(key, JSON.parse(JSON.stringify(value)))
+    return
+  }
+  await withStore(store, 'readwrite', s => s.put(value, key))
+}
+
+export async function idbDelete(store: IdbStoreName, key: string): Promise<void> {
+  if (!isIndexedDbAvailable()) {
+    memoryStore(store).delete(key)
+    return
+  }
+  await withStore(store, 'readwrite', s => s.delete(key))
+}
+
+export async function idbClear(store: IdbStoreName): Promise<void> {
+  if (!isIndexedDbAvailable()) {
+    memoryStore(store).clear()
+    return
+  }
+  await withStore(store, 'readwrite', s => s.clear())
+}
@@ -0,0 +1,424 @@
+/**
+ * Canvas Storage
+ *
+ * Shared key-value storage for the canvas stores: run history, scenarios,
+ * snapshots, autosave and comments. Stores keep their synchronous
+ * getItem/setItem calls; behind them sits one of:
+ *
+ * - IndexedDB (production): every value is held in an in-memory cache loaded
+ *   at boot, and writes go through to the 'kv' object store in order. This
+ *   lifts the ~5MB localStorage ceiling versionedStorage keeps warning about.
+ * - Memory (tests): same behaviour without a database.
+ * - localStorage: before initCanvasStorage() has run, and as the fallback
+ *   when IndexedDB can't be opened or the migration fails.
+ *
+ * On first start with a database backend, existing localStorage keys are
+ * copied across, read back to verify, and only then removed. If any step
+ * fails the copied keys are rolled back and the canvas keeps using
+ * localStorage, so nothing is lost.
+ *
+ * Once the data has moved, localStorage keeps a marker saying so. If the
+ * database can't be loaded after that, falling back would show an empty
+ * canvas and strand anything saved in it, so storage goes read-only instead
+ * (writes throw StorageUnavailableError) and keeps retrying the database in
+ * the background.
+ *
+ * Other tabs learn about writes through onExternalChange (BroadcastChannel
+ * for the database backends, the window 'storage' event for localStorage).
+ */
+
+import { idbEntries, idbPut, idbDelete } from './idb'
+
+const MIGRATION_FLAG_KEY = '__canvas-storage-migrated'
+const CHANNEL_NAME = 'olumi-canvas-storage'
+
+export type StorageBackendKind = 'indexeddb' | 'memory' | 'localStorage'
+
+export interface StorageBackend {
+  kind: Exclude<StorageBackendKind, 'localStorage'>
+  entries: () => Promise<Array<[string, string]>>
+  put: (key: string, value: string) => Promise<void>
+  delete: (key: string) => Promise<void>
+}
+
+/**
+ * Keys owned by canvas storage, grouped for the usage breakdown.
+ * Snapshot keys from the legacy snapshot list are matched by prefix.
+ */
+export const STORAGE_CATEGORIES = {
+  runs: { label: 'Run history', keys: ['olumi-canvas-run-history'], prefixes: [] },
+  scenarios: {
+    label: 'Scenarios',
+    keys: [
+      'olumi-canvas-scenarios',
+      'olumi-canvas-scenarios-v1',
+      'olumi-canvas-current-scenario-id',
+      'olumi-canvas-scenario-tombstones',
+      'olumi-canvas-scenario-sync-bases',
+    ],
+    prefixes: ['olumi-canvas-scenario-sync-bases:'], // One set of sync bases per signed-in user
+  },
+  snapshots: { label: 'Snapshots', keys: ['canvas-snapshots-v2'], prefixes: ['canvas-snapshot-'] },
+  autosave: {
+    label: 'Autosave',
+    keys: ['olumi-canvas-autosave', 'olumi-canvas-autosave-v1', 'canvas-storage', 'canvas-draft-records.v1'],
+    prefixes: [],
+  },
+  comments: { label: 'Comments', keys: ['canvas-comment-reads.v1', 'comments.v1'], prefixes: [] },
+  suggestions: { label: 'Rejected suggestions', keys: ['canvas-rejected-suggestions.v1'], prefixes: [] },
+} as const
+
+export type StorageCategory = keyof typeof STORAGE_CATEGORIES
+
+export function storageCategory(key: string): StorageCategory | null {
+  for (const [category, { keys, prefixes }] of Object.entries(STORAGE_CATEGORIES)) {
+    if ((keys as readonly string[]).includes(key) || prefixes.some(p => key.startsWith(p))) {
+      return category as StorageCategory
+    }
+  }
+  return null
+}
+
+export interface StorageStatus {
+  backend: StorageBackendKind
+  migratedKeys: number
+  error?: string // Why the database backend isn't in use
+  readOnly?: boolean // The data lives in the database, which couldn't be loaded
+}
+
+export class StorageMigrationError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'StorageMigrationError'
+  }
+}
+
+export class StorageUnavailableError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'StorageUnavailableError'
+  }
+}
+
+// ============================================================================
+// Backends
+// ============================================================================
+
+export function createIndexedDbBackend(): StorageBackend {
+  return {
+    kind: 'indexeddb',
+    entries: () => idbEntries<string>('kv'),
+    put: (key, value) => idbPut('kv', key, value),
+    delete: key => idbDelete('kv', key),
+  }
+}
+
+export function createMemoryBackend(seed: Record<string, string> = {}): StorageBackend {
+  const map = new Map(Object.entries(seed))
+  return {
+    kind: 'memory',
+    entries: async () => [...map.entries()],
+    put: async (key, value) => { map.set(key, value) },
+    delete: async (key) => { map.delete(key) },
+  }
+}
+
+// ============================================================================
+// State
+// ============================================================================
+
+interface ActiveBackend {
+  backend: StorageBackend
+  cache: Map<string, string>
+  channel: BroadcastChannel | null
+}
+
+let active: ActiveBackend | null = null
+let status: StorageStatus = { backend: 'localStorage', migratedKeys: 0 }
+let writes: Promise<void> = Promise.resolve()
+let retryTimer: ReturnType<typeof setTimeout> | null = null
+
+type ChangeListener = (key: string | null) => void
+const listeners = new Set<ChangeListener>()
+let windowListenerAttached = false
+
+function notify(key: string | null): void {
+  for (const fn of [...listeners]) {
+    try {
+      fn(key)
+    } catch (error) {
+      console.error('[storage] Listener error:', error)
+    }
+  }
+}
+
+function handleStorageEvent(event: StorageEvent): void {
+  if (event.storageArea && typeof localStorage !== 'undefined' && event.storageArea !== localStorage) return
+  notify(event.key)
+}
+
+function enqueue(write: () => Promise<void>, key: string): void {
+  writes = writes.then(write).catch(error => {
+    console.error(`[storage] Failed to write ${key}:`, error)
+  })
+}
+
+function localKeys(): string[] {
+  const keys: string[] = []
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i)
+    if (key !== null && key !== MIGRATION_FLAG_KEY) keys.push(key)
+  }
+  return keys
+}
+
+function assertWritable(key: string): void {
+  if (status.readOnly) throw new StorageUnavailableError(`Can't save ${key}: saved data hasn't loaded yet`)
+}
+
+// ============================================================================
+// Facade
+// ============================================================================
+
+/**
+ * Synchronous storage used by the canvas stores. In localStorage mode errors
+ * (e.g. QuotaExceededError) propagate as before; database writes are queued
+ * and failures are logged.
+ */
+export const canvasStorage = {
+  getItem(key: string): string | null {
+    if (status.readOnly) return null
+    if (!active) return localStorage.getItem(key)
+    return active.cache.get(key) ?? null
+  },
+
+  setItem(key: string, value: string): void {
+    assertWritable(key)
+    if (!active) {
+      localStorage.setItem(key, value)
+      return
+    }
+    const { backend, cache, channel } = active
+    cache.set(key, value)
+    enqueue(() => backend.put(key, value), key)
+    channel?.postMessage({ key, value })
+  },
+
+  removeItem(key: string): void {
+    assertWritable(key)
+    if (!active) {
+      localStorage.removeItem(key)
+      return
+    }
+    const { backend, cache, channel } = active
+    if (!cache.delete(key)) return
+    enqueue(() => backend.delete(key), key)
+    channel?.postMessage({ key, value: null })
+  },
+
+  keys(): string[] {
+    if (status.readOnly) return []
+    if (!active) return localKeys()
+    return [...active.cache.keys()].filter(key => key !== MIGRATION_FLAG_KEY)
+  },
+
+  /** Resolves once every queued write has reached the backend */
+  flush(): Promise<void> {
+    return writes
+  },
+}
+
+/**
+ * Listen for changes made in other tabs. The key is null when another tab
+ * cleared localStorage.
+ */
+export function onExternalChange(listener: ChangeListener): () => void {
+  listeners.add(listener)
+  if (!windowListenerAttached && typeof window !== 'undefined') {
+    window.addEventListener('storage', handleStorageEvent)
+    windowListenerAttached = true
+  }
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+export function getStorageStatus(): StorageStatus {
+  return status
+}
+
+// ============================================================================
+// Boot & migration
+// ============================================================================
+
+/**
+ * Copy canvas keys from localStorage into the backend and verify them.
+ * Undoes every write and throws if anything goes wrong.
+ */
+async function migrateFromLocalStorage(backend: StorageBackend, existing: Map<string, string>): Promise<Map<string, string>> {
+  const legacy = new Map<string, string>()
+  for (const key of localKeys()) {
+    if (storageCategory(key) === null) continue
+    const value = localStorage.getItem(key)
+    if (value !== null) legacy.set(key, value)
+  }
+
+  const written: string[] = []
+  try {
+    for (const [key, value] of legacy) {
+      await backend.put(key, value)
+      written.push(key)
+    }
+
+    const stored = new Map(await backend.entries())
+    for (const [key, value] of legacy) {
+      if (stored.get(key) !== value) throw new StorageMigrationError(`Verification failed for ${key}`)
+    }
+    await backend.put(MIGRATION_FLAG_KEY, new Date().toISOString())
+  } catch (error) {
+    // Roll back: restore what the backend held before, or remove the copy
+    for (const key of written) {
+      const previous = existing.get(key)
+      try {
+        if (previous === undefined) await backend.delete(key)
+        else await backend.put(key, previous)
+      } catch (rollbackError) {
+        console.error(`[storage] Rollback failed for ${key}:`, rollbackError)
+      }
+    }
+    throw error instanceof StorageMigrationError
+      ? error
+      : new StorageMigrationError(error instanceof Error ? error.message : 'Migration failed')
+  }
+
+  // The backend now owns these keys
+  for (const key of legacy.keys()) {
+    try {
+      localStorage.removeItem(key)
+    } catch {
+      // A stale copy is harmless: the backend is read from now on
+    }
+  }
+  return legacy
+}
+
+/** How long boot waits for the backend to load before carrying on without it */
+export const BACKEND_TIMEOUT_MS = 5000
+/** How often a read-only session tries the backend again */
+export const BACKEND_RETRY_MS = 15_000
+
+function withTimeout<T>(promise: Promise<T>, ms: number, what: string): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error(`Timed out after ${ms}ms ${what}`)), ms)
+    promise.then(
+      value => {
+        clearTimeout(timer)
+        resolve(value)
+      },
+      error => {
+        clearTimeout(timer)
+        reject(error)
+      }
+    )
+  })
+}
+
+/**
+ * Load the backend (migrating from localStorage the first time) and switch
+ * the facade over to it. Never rejects, and settles within timeoutMs even
+ * if the backend never answers (e.g. an IndexedDB upgrade held up by an old
+ * tab): on failure the canvas carries on with localStorage, or read-only
+ * while retrying if the data already moved, and the reason is in the
+ * returned status. Listeners hear a null key once a retry succeeds.
+ */
+export async function initCanvasStorage(
+  backend: StorageBackend = createIndexedDbBackend(),
+  timeoutMs: number = BACKEND_TIMEOUT_MS
+): Promise<StorageStatus> {
+  try {
+    const cache = new Map(await withTimeout(backend.entries(), timeoutMs, `loading ${backend.kind}`))
+    let migratedKeys = 0
+    const recovered = status.readOnly === true
+
+    if (!cache.has(MIGRATION_FLAG_KEY)) {
+      const migrated = await migrateFromLocalStorage(backend, cache)
+      for (const [key, value] of migrated) cache.set(key, value)
+      cache.set(MIGRATION_FLAG_KEY, 'true')
+      migratedKeys = migrated.size
+      if (migratedKeys > 0) console.info(`[storage] Moved ${migratedKeys} keys from localStorage to ${backend.kind}`)
+    }
+
+    const channel = typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel(CHANNEL_NAME) : null
+    channel?.addEventListener('message', (event: MessageEvent<{ key: string; value: string | null }>) => {
+      if (!active) return
+      const { key, value } = event.data
+      if (value === null) active.cache.delete(key)
+      else active.cache.set(key, value)
+      notify(key)
+    })
+
+    active?.channel?.close()
+    active = { backend, cache, channel }
+    status = { backend: backend.kind, migratedKeys }
+    try {
+      localStorage.setItem(MIGRATION_FLAG_KEY, cache.get(MIGRATION_FLAG_KEY) ?? 'true')
+    } catch {
+      // Without the marker a later load failure falls back to localStorage, as before
+    }
+    if (recovered) notify(null)
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error)
+    if (localStorage.getItem(MIGRATION_FLAG_KEY) !== null) {
+      console.error(`[storage] ${backend.kind} holds the saved data but didn't load; read-only until it does:`, error)
+      status = { backend: 'localStorage', migratedKeys: 0, error: message, readOnly: true }
+      retryTimer = setTimeout(() => {
+        retryTimer = null
+        void initCanvasStorage(backend, timeoutMs)
+      }, BACKEND_RETRY_MS)
+    } else {
+      console.error('[storage] Falling back to localStorage:', error)
+      status = { backend: 'localStorage', migratedKeys: 0, error: message }
+    }
+  }
+  return status
+}
+
+/** Back to plain localStorage (tests) */
+export function resetCanvasStorage(): void {
+  active?.channel?.close()
+  active = null
+  status = { backend: 'localStorage', migratedKeys: 0 }
+  writes = Promise.resolve()
+  if (retryTimer) clearTimeout(retryTimer)
+  retryTimer = null
+}
+
+// ============================================================================
+// Usage
+// ============================================================================
+
+export interface StorageUsageEntry {
+  category: StorageCategory
+  label: string
+  bytes: number
+  keys: number
+}
+
+/**
+ * Size of the canvas data per category (characters of key and value, as
+ * versionedStorage estimates localStorage use)
+ */
+export function storageUsage(): StorageUsageEntry[] {
+  const usage = new Map<StorageCategory, StorageUsageEntry>()
+  for (const [category, { label }] of Object.entries(STORAGE_CATEGORIES)) {
+    usage.set(category as StorageCategory, { category: category as StorageCategory, label, bytes: 0, keys: 0 })
+  }
+  for (const key of canvasStorage.keys()) {
+    const category = storageCategory(key)
+    if (!category) continue
+    const entry = usage.get(category)!
+    entry.bytes += key.length + (canvasStorage.getItem(key)?.length ?? 0)
+    entry.keys += 1
+  }
+  return [...usage.values()]
+}
@@ -19,6 +19,7 @@ import type {
 } from './types'
 import { StorageErrorType } from './types'
 import { migrations } from './migrations'
+import { canvasStorage } from './storage'
 
 const CURRENT_SCHEMA = 'canvas.v1'
 const CURRENT_VERSION = '1.0.0'
@@ -235,7 +236,7 @@ export async function saveCanvasData(
       }
     }
 
-    localStorage.setItem(STORAGE_KEY_SCENARIOS, json)
+    canvasStorage.setItem(STORAGE_KEY_SCENARIOS, json)
     return { success: true, data: undefined }
   } catch (error) {
     if (error instanceof Error && error.name === 'QuotaExceededError') {
@@ -275,7 +276,7 @@ export function loadCanvasData(): StorageResult<CanvasDataV1> {
   }
 
   try {
-    const stored = localStorage.getItem(STORAGE_KEY_SCENARIOS)
+    const stored = canvasStorage.getItem(STORAGE_KEY_SCENARIOS)
 
     if (!stored) {
       // Not an error - just no data yet
@@ -348,7 +349,7 @@ export async function saveAutosave(
       }
     }
 
-    localStorage.setItem(STORAGE_KEY_AUTOSAVE, json)
+    canvasStorage.setItem(STORAGE_KEY_AUTOSAVE, json)
     return { success: true, data: undefined }
   } catch (error) {
     // Don't throw on autosave failures
@@ -373,7 +374,7 @@ export function loadAutosave(): StorageResult<{ nodes: any[]; edges: any[]; time
   }
 
   try {
-    const stored = localStorage.getItem(STORAGE_KEY_AUTOSAVE)
+    const stored = canvasStorage.getItem(STORAGE_KEY_AUTOSAVE)
     if (!stored) {
       return { success: true, data: null }
     }
@@ -410,7 +411,7 @@ export function clearAutosave(): void {
   if (!isLocalStorageAvailable()) return
 
   try {
-    localStorage.removeItem(STORAGE_KEY_AUTOSAVE)
+    canvasStorage.removeItem(STORAGE_KEY_AUTOSAVE)
   } catch (error) {
     console.warn('[versionedStorage] Failed to clear autosave:', error)
   }
@@ -0,0 +1,500 @@
+/**
+ * Pre-mortem Host
+ *
+ * Joins the presenter room to relay a pre-mortem between canvases and
+ * renders the session panel. Whoever starts a session facilitates it: their
+ * canvas applies every reason and vote and broadcasts the session back, and
+ * only they can close collection, finish voting and add the risks. Other
+ * participants send their reasons and votes to the facilitator.
+ *
+ * Reasons stay hidden until collection closes, so nobody anchors on the
+ * first few; they are shown under their clusters for voting.
+ */
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import { ShieldAlert, X } from 'lucide-react'
+import { useCanvasStore } from '../store'
+import { selectRecordScope } from '../store/scenarioRecords'
+import { getLocalCollaborator } from '../collab/presence'
+import { readCollabRoom } from '../hooks/useCollaboration'
+import { withAuditCause } from '../audit/trail'
+import { createPresenterTransport, type PresenterMessage, type PresenterTransport } from '../presenter/transport'
+import { typography } from '../../styles/typography'
+import { buildPremortemRisks } from './risks'
+import {
+  DEFAULT_DURATION_MINUTES,
+  DEFAULT_PREMISE,
+  DEFAULT_VOTES_PER_PERSON,
+  activeSession,
+  hasVoted,
+  publicSession,
+  rankClusters,
+  sessionsForScenario,
+  usePremortemStore,
+  votesUsed,
+  type PremortemCluster,
+  type PremortemMessage,
+  type PremortemSession,
+} from './session'
+
+/** Tabs without ?room= all share one session */
+const DEFAULT_ROOM = 'canvas'
+const TICK_MS = 1000
+
+const inputClass = `w-full px-2 py-1 border border-gray-300 rounded bg-white ${typography.body}`
+const primaryButtonClass = `px-3 py-1.5 rounded bg-sky-500 text-white hover:bg-sky-600 disabled:opacity-50 ${typography.body}`
+const secondaryButtonClass = `px-3 py-1.5 rounded border border-gray-300 text-gray-700 hover:bg-gray-50 ${typography.body}`
+
+function isPremortemMessage(message: PresenterMessage): message is PremortemMessage {
+  return message.type === 'premortem-session' || message.type === 'premortem-contribute' || message.type === 'premortem-vote'
+}
+
+function formatRemaining(ms: number): string {
+  const seconds = Math.max(0, Math.ceil(ms / 1000))
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`
+}
+
+export function PremortemHost() {
+  const room = useMemo(() => readCollabRoom() ?? DEFAULT_ROOM, [])
+  const self = useMemo(() => getLocalCollaborator(), [])
+  const transportRef = useRef<PresenterTransport | null>(null)
+
+  const scenarioId = useCanvasStore(selectRecordScope)
+  const allSessions = usePremortemStore(s => s.sessions)
+  const panelOpen = usePremortemStore(s => s.panelOpen)
+
+  const sessions = useMemo(() => sessionsForScenario(allSessions, scenarioId), [allSessions, scenarioId])
+  const session = useMemo(() => activeSession(allSessions, scenarioId), [allSessions, scenarioId])
+  // The session others should see: the one in progress, or the one that just closed
+  const latest = session ?? sessions[sessions.length - 1] ?? null
+  const facilitating = latest?.facilitator.id === self.id
+
+  // ---- Transport -----------------------------------------------------------
+
+  const latestRef = useRef(latest)
+  latestRef.current = latest
+
+  useEffect(() => {
+    const transport = createPresenterTransport(room)
+    transportRef.current = transport
+    const unsubscribe = transport.subscribe(message => {
+      if (message.type === 'hello') {
+        const current = latestRef.current
+        if (current?.facilitator.id === self.id) transport.send({ type: 'premortem-session', from: self, session: publicSession(current) })
+        return
+      }
+      if (!isPremortemMessage(message)) return
+      usePremortemStore.getState().receive(message, self, selectRecordScope(useCanvasStore.getState()))
+    })
+    // Ask a facilitator for the session in progress
+    transport.send({ type: 'hello', from: self })
+
+    return () => {
+      unsubscribe()
+      transport.close()
+      transportRef.current = null
+    }
+  }, [room, self])
+
+  // The facilitator broadcasts the session, vote counts but not voters, after every change
+  useEffect(() => {
+    if (latest && facilitating) transportRef.current?.send({ type: 'premortem-session', from: self, session: publicSession(latest) })
+  }, [latest, facilitating, self])
+
+  // ---- Time box ------------------------------------------------------------
+
+  const [now, setNow] = useState(() => Date.now())
+  const collecting = session?.phase === 'collecting'
+
+  useEffect(() => {
+    if (!collecting) return
+    setNow(Date.now())
+    const timer = setInterval(() => setNow(Date.now()), TICK_MS)
+    return () => clearInterval(timer)
+  }, [collecting])
+
+  useEffect(() => {
+    if (session && collecting && facilitating && now >= session.endsAt) {
+      usePremortemStore.getState().closeCollection(session.id)
+    }
+  }, [session, collecting, facilitating, now])
+
+  // ---- Actions -------------------------------------------------------------
+
+  const submitReason = useCallback(
+    (text: string) => {
+      if (!session) return
+      if (facilitating) usePremortemStore.getState().contribute(session.id, text, self)
+      else if (session.anonymous) transportRef.current?.send({ type: 'premortem-contribute', sessionId: session.id, text })
+      else transportRef.current?.send({ type: 'premortem-contribute', from: self, sessionId: session.id, text })
+    },
+    [session, facilitating, self]
+  )
+
+  const vote = useCallback(
+    (clusterId: string) => {
+      if (!session) return
+      // Participants keep their own ballot so they can see and take back their dots
+      const counted = usePremortemStore.getState().toggleVote(session.id, clusterId, self.id)
+      if (counted && !facilitating) transportRef.current?.send({ type: 'premortem-vote', from: self, sessionId: session.id, clusterId })
+    },
+    [session, facilitating, self]
+  )
+
+  const addRisks = useCallback(() => {
+    if (!session) return
+    const canvas = useCanvasStore.getState()
+    const { graph, riskNodeIds } = buildPremortemRisks(
+      session,
+      { nodes: canvas.nodes, edges: canvas.edges },
+      { node: canvas.createNodeId, edge: canvas.createEdgeId }
+    )
+    if (Object.keys(riskNodeIds).length > 0) withAuditCause('premortem', () => canvas.restoreGraph(graph))
+    usePremortemStore.getState().recordRisks(session.id, riskNodeIds)
+  }, [session])
+
+  if (!panelOpen) return null
+
+  return (
+    <div
+      className="fixed right-0 top-0 bottom-0 w-96 z-[2000] bg-white border-l border-gray-200 shadow-panel flex flex-col"
+      role="dialog"
+      aria-labelledby="premortem-title"
+      data-testid="premortem-panel"
+    >
+      <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200">
+        <div className="min-w-0">
+          <div className={`${typography.caption} text-gray-500 flex items-center gap-1`}>
+            <ShieldAlert className="w-3 h-3" />
+            {session ? `Facilitated by ${facilitating ? 'you' : session.facilitator.name}` : 'Imagine the decision failed'}
+          </div>
+          <h3 id="premortem-title" className={`${typography.h4} text-gray-900`}>Pre-mortem</h3>
+        </div>
+        <div className="flex items-center gap-2">
+          {session && facilitating && (
+            <button
+              type="button"
+              onClick={() => usePremortemStore.getState().endSession(session.id)}
+              className={`${typography.caption} text-gray-600 hover:text-gray-900 hover:underline`}
+            >
+              End session
+            </button>
+          )}
+          <button
+            type="button"
+            onClick={() => usePremortemStore.getState().closePanel()}
+            className="p-1 text-gray-500 hover:text-gray-700 rounded"
+            aria-label="Close pre-mortem"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto px-4 py-3 space-y-4">
+        {!session && (
+          <>
+            <StartForm
+              onStart={input => usePremortemStore.getState().start({ ...input, scenarioId, facilitator: self })}
+            />
+            {latest && latest.clusters.length > 0 && (
+              <div className="space-y-2 border-t border-gray-200 pt-3">
+                <div className={`${typography.label} text-gray-900`}>Last pre-mortem</div>
+                <SessionSummary session={latest} />
+              </div>
+            )}
+          </>
+        )}
+
+        {session && <p className={`${typography.body} text-gray-700 italic`}>{session.premise}</p>}
+
+        {session?.phase === 'collecting' && (
+          <CollectingView
+            session={session}
+            remaining={session.endsAt - now}
+            facilitating={facilitating}
+            onSubmit={submitReason}
+          />
+        )}
+        {session?.phase === 'voting' && (
+          <VotingView session={session} voterId={self.id} facilitating={facilitating} onVote={vote} />
+        )}
+        {session?.phase === 'converting' &&
+          (facilitating ? (
+            <ConvertingView session={session} onAddRisks={addRisks} />
+          ) : (
+            <p className={`${typography.caption} text-gray-500`}>
+              {session.facilitator.name} is turning the top causes into risks.
+            </p>
+          ))}
+      </div>
+    </div>
+  )
+}
+
+interface StartFormValues {
+  premise: string
+  minutes: number
+  anonymous: boolean
+  votesPerPerson: number
+}
+
+function StartForm({ onStart }: { onStart: (values: StartFormValues) => void }) {
+  const [premise, setPremise] = useState(DEFAULT_PREMISE)
+  const [minutes, setMinutes] = useState(DEFAULT_DURATION_MINUTES)
+  const [votesPerPerson, setVotesPerPerson] = useState(DEFAULT_VOTES_PER_PERSON)
+  const [anonymous, setAnonymous] = useState(false)
+
+  return (
+    <div className="space-y-3" data-testid="premortem-start">
+      <label className="block space-y-1">
+        <span className={`${typography.label} text-gray-900`}>Premise</span>
+        <textarea value={premise} onChange={e => setPremise(e.target.value)} rows={3} className={inputClass} />
+      </label>
+      <div className="flex gap-3">
+        <label className="flex-1 space-y-1">
+          <span className={`${typography.caption} text-gray-700`}>Minutes</span>
+          <input
+            type="number"
+            min={1}
+            value={minutes}
+            onChange={e => setMinutes(Number(e.target.value))}
+            className={inputClass}
+          />
+        </label>
+        <label className="flex-1 space-y-1">
+          <span className={`${typography.caption} text-gray-700`}>Votes each</span>
+          <input
+            type="number"
+            min={1}
+            value={votesPerPerson}
+            onChange={e => setVotesPerPerson(Number(e.target.value))}
+            className={inputClass}
+          />
+        </label>
+      </div>
+      <label className="flex items-center gap-2">
+        <input type="checkbox" checked={anonymous} onChange={e => setAnonymous(e.target.checked)} className="w-4 h-4" />
+        <span className={`${typography.body} text-gray-700`}>Anonymise reasons</span>
+      </label>
+      <button
+        type="button"
+        onClick={() => onStart({ premise, minutes, anonymous, votesPerPerson: Math.max(1, votesPerPerson) })}
+        className={primaryButtonClass}
+      >
+        Start pre-mortem
+      </button>
+    </div>
+  )
+}
+
+function CollectingView({
+  session,
+  remaining,
+  facilitating,
+  onSubmit,
+}: {
+  session: PremortemSession
+  remaining: number
+  facilitating: boolean
+  onSubmit: (text: string) => void
+}) {
+  const [text, setText] = useState('')
+  const [sent, setSent] = useState(0)
+  const timeUp = remaining <= 0
+
+  const handleSubmit = () => {
+    if (!text.trim() || timeUp) return
+    onSubmit(text)
+    setText('')
+    setSent(count => count + 1)
+  }
+
+  return (
+    <div className="space-y-3" data-testid="premortem-collecting">
+      <div className={`${typography.caption} text-gray-500 flex justify-between`}>
+        <span data-testid="premortem-countdown">{timeUp ? "Time's up" : `${formatRemaining(remaining)} left`}</span>
+        <span>
+          {session.contributions.length} {session.contributions.length === 1 ? 'reason' : 'reasons'} in
+          {session.anonymous && ' · anonymised'}
+        </span>
+      </div>
+      <textarea
+        value={text}
+        onChange={e => setText(e.target.value)}
+        onKeyDown={e => {
+          if (e.key === 'Enter' && !e.shiftKey) {
+            e.preventDefault()
+            handleSubmit()
+          }
+        }}
+        rows={3}
+        disabled={timeUp}
+        placeholder="Why did it fail?"
+        aria-label="Reason it failed"
+        className={inputClass}
+      />
+      <div className="flex items-center justify-between gap-2">
+        <span className={`${typography.caption} text-gray-500`}>{sent > 0 && `You've sent ${sent}`}</span>
+        <button type="button" onClick={handleSubmit} disabled={!text.trim() || timeUp} className={primaryButtonClass}>
+          Submit reason
+        </button>
+      </div>
+      {facilitating && (
+        <button
+          type="button"
+          onClick={() => usePremortemStore.getState().closeCollection(session.id)}
+          className={secondaryButtonClass}
+        >
+          Close and cluster
+        </button>
+      )}
+    </div>
+  )
+}
+
+function ClusterReasons({ session, cluster }: { session: PremortemSession; cluster: PremortemCluster }) {
+  const reasons = session.contributions.filter(c => cluster.contributionIds.includes(c.id))
+  return (
+    <ul className="space-y-0.5">
+      {reasons.map(reason => (
+        <li key={reason.id} className={`${typography.caption} text-gray-700`}>
+          {reason.text} <span className="text-gray-500">— {reason.author?.name ?? 'Anonymous'}</span>
+        </li>
+      ))}
+    </ul>
+  )
+}
+
+function VotingView({
+  session,
+  voterId,
+  facilitating,
+  onVote,
+}: {
+  session: PremortemSession
+  voterId: string
+  facilitating: boolean
+  onVote: (clusterId: string) => void
+}) {
+  const left = session.votesPerPerson - votesUsed(session, voterId)
+
+  return (
+    <div className="space-y-3" data-testid="premortem-voting">
+      <div className={`${typography.caption} text-gray-500`}>
+        {left} of {session.votesPerPerson} votes left · vote for the causes most likely to sink the decision
+      </div>
+      <ul className="space-y-2">
+        {session.clusters.map(cluster => {
+          const voted = hasVoted(session, voterId, cluster.id)
+          return (
+            <li key={cluster.id} className="border border-gray-200 rounded-lg px-3 py-2 space-y-1" data-testid="premortem-cluster">
+              <div className="flex items-start justify-between gap-2">
+                <span className={`${typography.body} text-gray-900`}>{cluster.label}</span>
+                <button
+                  type="button"
+                  onClick={() => onVote(cluster.id)}
+                  disabled={!voted && left <= 0}
+                  aria-pressed={voted}
+                  aria-label={`Vote for "${cluster.label}"`}
+                  className={`${typography.caption} flex-shrink-0 px-2 py-0.5 rounded border disabled:opacity-50 ${
+                    voted ? 'border-sky-500 bg-sky-50 text-sky-700' : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+                  }`}
+                >
+                  {cluster.votes} {cluster.votes === 1 ? 'vote' : 'votes'}
+                </button>
+              </div>
+              <ClusterReasons session={session} cluster={cluster} />
+            </li>
+          )
+        })}
+      </ul>
+      {facilitating && (
+        <button
+          type="button"
+          onClick={() => usePremortemStore.getState().finishVoting(session.id, useCanvasStore.getState().nodes)}
+          className={secondaryButtonClass}
+        >
+          Finish voting
+        </button>
+      )}
+    </div>
+  )
+}
+
+function ConvertingView({ session, onAddRisks }: { session: PremortemSession; onAddRisks: () => void }) {
+  const nodes = useCanvasStore(s => s.nodes)
+  const updateCluster = usePremortemStore(s => s.updateCluster)
+  const targets = useMemo(() => nodes.filter(n => n.type === 'factor' || n.type === 'outcome'), [nodes])
+  const count = session.clusters.filter(c => c.convert).length
+
+  const toggleTarget = (cluster: PremortemCluster, nodeId: string, checked: boolean) => {
+    const targetIds = checked ? [...cluster.targetIds, nodeId] : cluster.targetIds.filter(id => id !== nodeId)
+    updateCluster(session.id, cluster.id, { targetIds })
+  }
+
+  return (
+    <div className="space-y-3" data-testid="premortem-converting">
+      <div className={`${typography.caption} text-gray-500`}>
+        Choose the causes to add as risks and the factors or outcomes each one threatens.
+      </div>
+      <ul className="space-y-2">
+        {rankClusters(session).map(cluster => (
+          <li key={cluster.id} className="border border-gray-200 rounded-lg px-3 py-2 space-y-1.5">
+            <label className="flex items-start gap-2">
+              <input
+                type="checkbox"
+                checked={cluster.convert}
+                onChange={e => updateCluster(session.id, cluster.id, { convert: e.target.checked })}
+                aria-label={`Add "${cluster.label}" as a risk`}
+                className="w-4 h-4 mt-0.5 flex-shrink-0"
+              />
+              <span className="flex-1">
+                <span className={`${typography.body} text-gray-900`}>{cluster.label}</span>
+                <span className={`block ${typography.caption} text-gray-500`}>
+                  {cluster.votes} {cluster.votes === 1 ? 'vote' : 'votes'} ·{' '}
+                  {cluster.contributionIds.length} {cluster.contributionIds.length === 1 ? 'reason' : 'reasons'}
+                </span>
+              </span>
+            </label>
+            {cluster.convert && targets.length > 0 && (
+              <div className="pl-6 flex flex-wrap gap-x-3 gap-y-1">
+                {targets.map(node => (
+                  <label key={node.id} className={`flex items-center gap-1 ${typography.caption} text-gray-700`}>
+                    <input
+                      type="checkbox"
+                      checked={cluster.targetIds.includes(node.id)}
+                      onChange={e => toggleTarget(cluster, node.id, e.target.checked)}
+                      className="w-3 h-3"
+                    />
+                    {String(node.data?.label ?? node.id)}
+                  </label>
+                ))}
+              </div>
+            )}
+          </li>
+        ))}
+      </ul>
+      <button type="button" onClick={onAddRisks} className={primaryButtonClass}>
+        {count === 0 ? 'Close without risks' : `Add ${count} ${count === 1 ? 'risk' : 'risks'}`}
+      </button>
+    </div>
+  )
+}
+
+function SessionSummary({ session }: { session: PremortemSession }) {
+  return (
+    <ol className="space-y-2" data-testid="premortem-summary">
+      {rankClusters(session).map(cluster => (
+        <li key={cluster.id} className="border border-gray-200 rounded-lg px-3 py-2 space-y-1">
+          <div className={`${typography.body} text-gray-900`}>{cluster.label}</div>
+          <div className={`${typography.caption} text-gray-500`}>
+            {cluster.votes} {cluster.votes === 1 ? 'vote' : 'votes'}
+            {cluster.riskNodeId && ' · risk added'}
+          </div>
+          <ClusterReasons session={session} cluster={cluster} />
+        </li>
+      ))}
+    </ol>
+  )
+}
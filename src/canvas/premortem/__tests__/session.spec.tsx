@@ -0,0 +1,220 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { render, screen, fireEvent } from '@testing-library/react'
+import type { Edge, Node } from '@xyflow/react'
+import type { Collaborator } from '../../collab/presence'
+import type { StoredRun } from '../../store/runHistory'
+import { useCanvasStore } from '../../store'
+import { DEFAULT_EDGE_DATA } from '../../domain/edges'
+import { generateDecisionBriefHTML } from '../../export/decisionBrief'
+import { clusterContributions, suggestAffectedNodes } from '../cluster'
+import { buildPremortemRisks } from '../risks'
+import { activeSession, publicSession, rankClusters, usePremortemStore } from '../session'
+import { PremortemHost } from '../PremortemHost'
+import { draftScenarioId } from '../../store/scenarioRecords'
+
+const sent: unknown[] = []
+vi.mock('../../presenter/transport', () => ({
+  createPresenterTransport: () => ({
+    send: (message: unknown) => sent.push(message),
+    subscribe: () => () => {},
+    close: () => {},
+  }),
+}))
+
+const facilitator: Collaborator = { id: 'fac', name: 'Ada', colour: '#111' }
+const participant: Collaborator = { id: 'p1', name: 'Grace', colour: '#222' }
+
+const store = () => usePremortemStore.getState()
+
+beforeEach(() => {
+  localStorage.clear()
+  sent.length = 0
+  usePremortemStore.setState({ sessions: [], panelOpen: false })
+})
+
+describe('pre-mortem clustering', () => {
+  it('groups reasons that share wording and labels each group with its most central reason', () => {
+    const clusters = clusterContributions([
+      { id: 'a', text: 'Customers churned because pricing was too high' },
+      { id: 'b', text: 'The integration was late' },
+      { id: 'c', text: 'Pricing too high for small customers' },
+      { id: 'd', text: 'Integration with billing slipped, late launch' },
+    ])
+
+    expect(clusters.map(c => c.contributionIds)).toEqual([['a', 'c'], ['b', 'd']])
+  })
+
+  it('suggests the factor and outcome nodes a reason mentions', () => {
+    const nodes = [
+      { id: 'f1', type: 'factor', data: { label: 'Pricing' } },
+      { id: 'o1', type: 'outcome', data: { label: 'Revenue' } },
+      { id: 'x', type: 'option', data: { label: 'Pricing change' } },
+    ]
+    expect(suggestAffectedNodes('pricing was too high, revenue fell', nodes)).toEqual(['f1', 'o1'])
+  })
+})
+
+describe('pre-mortem session', () => {
+  it('accepts reasons only within the time box and strips authors when anonymised', () => {
+    const session = store().start({ scenarioId: 's1', facilitator, anonymous: true, minutes: 5 }, 0)
+
+    expect(store().contribute(session.id, 'Budget ran out', participant, 60_000)).toBe(true)
+    expect(store().contribute(session.id, 'Too late', participant, 5 * 60_000 + 10_000)).toBe(false)
+
+    const [reason] = store().sessions[0].contributions
+    expect(reason).toMatchObject({ text: 'Budget ran out', author: null })
+  })
+
+  it('limits each person to their votes and ranks clusters by them', () => {
+    const session = store().start({ scenarioId: 's1', facilitator, votesPerPerson: 1 })
+    store().contribute(session.id, 'Budget ran out', participant)
+    store().contribute(session.id, 'Key engineer left', participant)
+    store().closeCollection(session.id)
+
+    const [first, second] = store().sessions[0].clusters
+    expect(store().toggleVote(session.id, second.id, 'p1')).toBe(true)
+    expect(store().toggleVote(session.id, first.id, 'p1')).toBe(false)
+    expect(rankClusters(store().sessions[0]).map(c => c.id)).toEqual([second.id, first.id])
+
+    // Taking the vote back frees it
+    store().toggleVote(session.id, second.id, 'p1')
+    expect(store().toggleVote(session.id, first.id, 'p1')).toBe(true)
+  })
+
+  it('broadcasts vote counts without who cast them', () => {
+    const session = store().start({ scenarioId: 's1', facilitator })
+    store().contribute(session.id, 'Budget ran out', participant)
+    store().closeCollection(session.id)
+    const [cluster] = store().sessions[0].clusters
+    store().toggleVote(session.id, cluster.id, 'voter-9')
+
+    const shared = publicSession(store().sessions[0])
+    expect(shared.clusters[0].votes).toBe(1)
+    expect(JSON.stringify(shared)).not.toContain('voter-9')
+
+    // A participant receiving it keeps only their own ballot
+    usePremortemStore.setState({
+      sessions: [{ ...store().sessions[0], scenarioId: 's1', ballots: { p1: [cluster.id] } }],
+    })
+    store().receive({ type: 'premortem-session', from: facilitator, session: { ...shared, ballots: { x: [] } } }, participant, 's1')
+    expect(store().sessions[0].ballots).toEqual({ p1: [cluster.id] })
+  })
+
+  it('applies remote reasons and votes only on the facilitator canvas', () => {
+    const session = store().start({ scenarioId: 's1', facilitator })
+    const contribute = { type: 'premortem-contribute' as const, from: participant, sessionId: session.id, text: 'Regulation changed' }
+
+    store().receive(contribute, { id: 'other', name: 'Other', colour: '#333' }, 's1')
+    expect(store().sessions[0].contributions).toHaveLength(0)
+
+    store().receive(contribute, facilitator, 's1')
+    expect(store().sessions[0].contributions).toEqual([expect.objectContaining({ author: participant })])
+
+    // Anonymised reasons arrive with no sender
+    store().receive({ type: 'premortem-contribute', sessionId: session.id, text: 'Budget ran out' }, facilitator, 's1')
+    expect(store().sessions[0].contributions[1]).toMatchObject({ text: 'Budget ran out', author: null })
+  })
+
+  it('keeps a received session with the local scenario and opens the panel', () => {
+    const session = { ...store().start({ scenarioId: 'remote', facilitator }), contributions: [] }
+    usePremortemStore.setState({ sessions: [], panelOpen: false })
+
+    store().receive({ type: 'premortem-session', from: facilitator, session }, participant, 'local')
+
+    expect(activeSession(store().sessions, 'local')?.id).toBe(session.id)
+    expect(store().panelOpen).toBe(true)
+  })
+
+  it('ignores sessions published by anyone but their facilitator', () => {
+    const other: Collaborator = { id: 'p2', name: 'Other', colour: '#333' }
+    const session = { ...store().start({ scenarioId: 'remote', facilitator }), contributions: [] }
+    usePremortemStore.setState({ sessions: [], panelOpen: false })
+
+    store().receive({ type: 'premortem-session', from: other, session }, participant, 'local')
+    expect(store().sessions).toHaveLength(0)
+
+    store().receive({ type: 'premortem-session', from: facilitator, session }, participant, 'local')
+    const hijacked = { ...session, facilitator: other, premise: 'Hijacked' }
+    store().receive({ type: 'premortem-session', from: other, session: hijacked }, participant, 'local')
+    expect(store().sessions).toEqual([expect.objectContaining({ premise: session.premise, facilitator })])
+  })
+})
+
+describe('pre-mortem risks', () => {
+  it('adds a risk node per chosen cluster, wired to its targets, with premortem provenance', () => {
+    const graph: { nodes: Node[]; edges: Edge[] } = {
+      nodes: [{ id: 'f1', type: 'factor', position: { x: 300, y: 100 }, data: { label: 'Pricing' } }],
+      edges: [],
+    }
+    let next = 0
+    const result = buildPremortemRisks(
+      {
+        contributions: [{ id: 'r1', text: 'Pricing too high', author: null, at: 0 }],
+        clusters: [
+          { id: 'c1', label: 'Pricing too high', contributionIds: ['r1'], votes: 1, convert: true, targetIds: ['f1'] },
+          { id: 'c2', label: 'Ignored', contributionIds: [], votes: 0, convert: false, targetIds: [] },
+        ],
+      },
+      graph,
+      { node: () => `n${++next}`, edge: () => `e${++next}` }
+    )
+
+    expect(result.riskNodeIds).toEqual({ c1: 'n1' })
+    expect(result.graph.nodes[1]).toMatchObject({
+      id: 'n1',
+      type: 'risk',
+      position: { x: 60, y: 240 },
+      data: { label: 'Pricing too high', provenance: 'premortem', description: 'Pre-mortem: Pricing too high' },
+    })
+    expect(result.graph.edges).toEqual([
+      { id: 'e2', source: 'n1', target: 'f1', type: 'styled', data: { ...DEFAULT_EDGE_DATA, provenance: 'premortem' } },
+    ])
+  })
+})
+
+describe('PremortemHost', () => {
+  beforeEach(() => {
+    localStorage.setItem('collab.identity', JSON.stringify(facilitator))
+    useCanvasStore.setState({
+      currentScenarioId: null,
+      nodes: [{ id: 'f1', type: 'factor', position: { x: 300, y: 100 }, data: { label: 'Pricing' } }],
+      edges: [],
+    })
+  })
+
+  it('runs a session from reasons to risk nodes and exports the transcript', () => {
+    store().openPanel()
+    render(<PremortemHost />)
+
+    fireEvent.click(screen.getByRole('button', { name: 'Start pre-mortem' }))
+    fireEvent.change(screen.getByLabelText('Reason it failed'), { target: { value: 'Pricing was too high' } })
+    fireEvent.click(screen.getByRole('button', { name: 'Submit reason' }))
+    fireEvent.click(screen.getByRole('button', { name: 'Close and cluster' }))
+    fireEvent.click(screen.getByRole('button', { name: 'Vote for "Pricing was too high"' }))
+    fireEvent.click(screen.getByRole('button', { name: 'Finish voting' }))
+    fireEvent.click(screen.getByRole('button', { name: 'Add 1 risk' }))
+
+    const risk = useCanvasStore.getState().nodes.find(n => n.type === 'risk')
+    expect(risk?.data).toMatchObject({ label: 'Pricing was too high', provenance: 'premortem' })
+    expect(useCanvasStore.getState().edges).toEqual([expect.objectContaining({ source: risk?.id, target: 'f1' })])
+    expect(sent).toContainEqual(expect.objectContaining({ type: 'premortem-session' }))
+
+    const run = { id: 'r', seed: 1, hash: 'h', ts: 0, report: {}, graph: { nodes: [], edges: [] } } as unknown as StoredRun
+    const html = generateDecisionBriefHTML({ title: 'Brief', runA: run, runB: run, premortem: store().sessions })
+    expect(html).toContain('<h2>Pre-mortem</h2>')
+    expect(html).toContain('Pricing was too high')
+    expect(html).toContain('Risk added')
+  })
+
+  it('sends anonymised reasons to the facilitator without the author', () => {
+    localStorage.setItem('collab.identity', JSON.stringify(participant))
+    store().start({ scenarioId: draftScenarioId(), facilitator, anonymous: true })
+    render(<PremortemHost />)
+
+    fireEvent.change(screen.getByLabelText('Reason it failed'), { target: { value: 'Budget ran out' } })
+    fireEvent.click(screen.getByRole('button', { name: 'Submit reason' }))
+
+    const reason = sent.find(m => (m as { type: string }).type === 'premortem-contribute')
+    expect(reason).toEqual({ type: 'premortem-contribute', sessionId: store().sessions[0].id, text: 'Budget ran out' })
+  })
+})
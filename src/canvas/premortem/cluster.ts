@@ -0,0 +1,99 @@
+/**
+ * Pre-mortem clustering
+ *
+ * Groups failure reasons that say the same thing, so the team votes on
+ * causes rather than on wordings. Similarity is word overlap (Jaccard) after
+ * the document index's tokenising: lower-cased, plurals folded, stopwords
+ * dropped. Each reason joins the existing cluster it is most similar to on
+ * average, or starts a new one; the cluster's label is its most central reason.
+ */
+
+import { tokenize } from '../documents/textIndex'
+
+/** Average similarity a reason needs to join a cluster */
+export const CLUSTER_THRESHOLD = 0.25
+/** Most affected nodes suggested per cluster */
+const MAX_SUGGESTED_TARGETS = 2
+
+export interface ClusterInput {
+  id: string
+  text: string
+}
+
+export interface ContributionCluster {
+  label: string
+  contributionIds: string[]
+}
+
+function terms(text: string): Set<string> {
+  return new Set(tokenize(text))
+}
+
+export function similarity(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0
+  let shared = 0
+  a.forEach(term => {
+    if (b.has(term)) shared++
+  })
+  return shared / (a.size + b.size - shared)
+}
+
+export function clusterContributions(
+  contributions: ClusterInput[],
+  threshold: number = CLUSTER_THRESHOLD
+): ContributionCluster[] {
+  const termSets = new Map(contributions.map(c => [c.id, terms(c.text)]))
+  const clusters: ClusterInput[][] = []
+
+  for (const contribution of contributions) {
+    const own = termSets.get(contribution.id)!
+    let best: ClusterInput[] | null = null
+    let bestScore = 0
+    for (const cluster of clusters) {
+      const score = cluster.reduce((sum, member) => sum + similarity(own, termSets.get(member.id)!), 0) / cluster.length
+      if (score > bestScore) {
+        best = cluster
+        bestScore = score
+      }
+    }
+    if (best && bestScore >= threshold) best.push(contribution)
+    else clusters.push([contribution])
+  }
+
+  return clusters.map(members => {
+    // Most central member: highest total similarity to the others (earliest wins ties)
+    let label = members[0]
+    let labelScore = -1
+    for (const member of members) {
+      const own = termSets.get(member.id)!
+      const score = members.reduce((sum, other) => (other === member ? sum : sum + similarity(own, termSets.get(other.id)!)), 0)
+      if (score > labelScore) {
+        label = member
+        labelScore = score
+      }
+    }
+    return { label: label.text, contributionIds: members.map(m => m.id) }
+  })
+}
+
+/** Factor and outcome nodes whose labels share words with the text, best first */
+export function suggestAffectedNodes(
+  text: string,
+  nodes: Array<{ id: string; type?: string; data?: { label?: unknown } }>
+): string[] {
+  const own = terms(text)
+  return nodes
+    .filter(n => n.type === 'factor' || n.type === 'outcome')
+    .map(n => {
+      const label = terms(typeof n.data?.label === 'string' ? n.data.label : '')
+      let shared = 0
+      label.forEach(term => {
+        if (own.has(term)) shared++
+      })
+      return { id: n.id, shared }
+    })
+    .filter(n => n.shared > 0)
+    .sort((a, b) => b.shared - a.shared)
+    .slice(0, MAX_SUGGESTED_TARGETS)
+    .map(n => n.id)
+}
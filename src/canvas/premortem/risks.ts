@@ -0,0 +1,86 @@
+/**
+ * Pre-mortem risks
+ *
+ * Turns the clusters chosen at the end of a pre-mortem into risk nodes, each
+ * connected to the factor and outcome nodes it threatens. Nodes and edges
+ * carry provenance 'premortem'; the reasons behind a risk become its
+ * description. Risks without a target sit below the graph.
+ */
+
+import type { Edge, Node } from '@xyflow/react'
+import { DEFAULT_EDGE_DATA } from '../domain/edges'
+import type { PremortemSession } from './session'
+
+export const PREMORTEM_PROVENANCE = 'premortem'
+
+// NodeDataSchema limits
+const LABEL_MAX = 100
+const DESCRIPTION_MAX = 500
+const OFFSET_X = -240
+const OFFSET_Y = 140
+const STACK_Y = 90
+
+function truncate(text: string, max: number): string {
+  return text.length > max ? `${text.slice(0, max - 1)}…` : text
+}
+
+export interface PremortemRiskResult {
+  graph: { nodes: Node[]; edges: Edge[] }
+  riskNodeIds: Record<string, string> // cluster id -> risk node id
+}
+
+export function buildPremortemRisks(
+  session: Pick<PremortemSession, 'clusters' | 'contributions'>,
+  graph: { nodes: Node[]; edges: Edge[] },
+  ids: { node: () => string; edge: () => string }
+): PremortemRiskResult {
+  const nodes = [...graph.nodes]
+  const edges = [...graph.edges]
+  const riskNodeIds: Record<string, string> = {}
+  const lowest = graph.nodes.reduce((max, n) => Math.max(max, n.position.y), 0)
+  // Risks placed beside the same node stack downwards
+  const placedBeside = new Map<string, number>()
+  let unplaced = 0
+
+  for (const cluster of session.clusters) {
+    if (!cluster.convert) continue
+    const targets = cluster.targetIds.filter(id => graph.nodes.some(n => n.id === id))
+    const anchor = graph.nodes.find(n => n.id === targets[0])
+
+    let position: { x: number; y: number }
+    if (anchor) {
+      const stacked = placedBeside.get(anchor.id) ?? 0
+      placedBeside.set(anchor.id, stacked + 1)
+      position = { x: anchor.position.x + OFFSET_X, y: anchor.position.y + OFFSET_Y + stacked * STACK_Y }
+    } else {
+      position = { x: unplaced * -OFFSET_X, y: lowest + OFFSET_Y * 2 }
+      unplaced++
+    }
+
+    const reasons = session.contributions.filter(c => cluster.contributionIds.includes(c.id)).map(c => c.text)
+    const id = ids.node()
+    riskNodeIds[cluster.id] = id
+    nodes.push({
+      id,
+      type: 'risk',
+      position,
+      data: {
+        label: truncate(cluster.label, LABEL_MAX),
+        type: 'risk',
+        provenance: PREMORTEM_PROVENANCE,
+        description: truncate(`Pre-mortem: ${reasons.join(' · ')}`, DESCRIPTION_MAX),
+      },
+    })
+    for (const target of targets) {
+      edges.push({
+        id: ids.edge(),
+        source: id,
+        target,
+        type: 'styled',
+        data: { ...DEFAULT_EDGE_DATA, provenance: PREMORTEM_PROVENANCE },
+      })
+    }
+  }
+
+  return { graph: { nodes, edges }, riskNodeIds }
+}
@@ -0,0 +1,290 @@
+/**
+ * Pre-mortem Session
+ *
+ * A facilitated exercise: the team imagines the decision was taken and, a
+ * year later, failed. Everyone submits reasons why within a time box, either
+ * under their name or anonymised. When collection closes, similar reasons
+ * are clustered, everyone dot-votes on the clusters, and the facilitator turns
+ * the ones that matter into risk nodes wired to the factors and outcomes they
+ * threaten (see risks.ts).
+ *
+ * The facilitator's canvas holds the authoritative session: participants send
+ * their reasons and votes to it over the presenter transport, and it
+ * broadcasts the whole session back after every change. In an anonymised
+ * session reasons are sent without their author, so nobody in the room, the
+ * facilitator included, can tell who wrote what. Who voted for what stays
+ * on the facilitator's canvas (and each participant knows their own votes):
+ * the broadcast session only carries each cluster's vote count. Sessions are kept
+ * per scenario as its transcript (exported with the decision brief) and saved
+ * with it (see scenarioRecords.ts); ballots are never saved, only held in memory.
+ */
+
+import { create } from 'zustand'
+import { generateRecordId, scenarioRecords, type ScenarioRecordCollection } from '../store/scenarioRecords'
+import type { Collaborator } from '../collab/presence'
+import { clusterContributions, suggestAffectedNodes } from './cluster'
+
+export const DEFAULT_PREMISE = 'It is a year from now. We went ahead with this decision, and it failed. What went wrong?'
+export const DEFAULT_DURATION_MINUTES = 10
+export const DEFAULT_VOTES_PER_PERSON = 3
+/** Reasons sent just before the time box closed may arrive a moment after it */
+const LATE_GRACE_MS = 5000
+
+export type PremortemPhase = 'collecting' | 'voting' | 'converting' | 'closed'
+
+export interface PremortemContribution {
+  id: string
+  text: string
+  author: Collaborator | null // null when the session is anonymised
+  at: number
+}
+
+export interface PremortemCluster {
+  id: string
+  label: string
+  contributionIds: string[]
+  votes: number // Dots it received
+  convert: boolean // Turn into a risk node
+  targetIds: string[] // Factor/outcome nodes the risk connects to
+  riskNodeId?: string
+}
+
+export interface PremortemSession {
+  id: string
+  scenarioId: string
+  facilitator: Collaborator
+  premise: string
+  anonymous: boolean
+  votesPerPerson: number
+  startedAt: number
+  endsAt: number // End of the time box for collecting reasons
+  phase: PremortemPhase
+  contributions: PremortemContribution[]
+  clusters: PremortemCluster[]
+  ballots?: Record<string, string[]> // Voter id -> cluster ids; never broadcast
+  closedAt?: number
+}
+
+export type PremortemMessage =
+  | { type: 'premortem-session'; from: Collaborator; session: PremortemSession }
+  | { type: 'premortem-contribute'; from?: Collaborator; sessionId: string; text: string } // No `from` when anonymised
+  | { type: 'premortem-vote'; from: Collaborator; sessionId: string; clusterId: string }
+
+export interface StartPremortemInput {
+  scenarioId: string
+  facilitator: Collaborator
+  premise?: string
+  minutes?: number
+  anonymous?: boolean
+  votesPerPerson?: number
+}
+
+type GraphNode = { id: string; type?: string; data?: { label?: unknown } }
+
+interface PremortemState {
+  sessions: PremortemSession[]
+  panelOpen: boolean
+
+  openPanel: () => void
+  closePanel: () => void
+
+  start: (input: StartPremortemInput, now?: number) => PremortemSession
+  contribute: (sessionId: string, text: string, author: Collaborator | null, now?: number) => boolean
+  closeCollection: (sessionId: string) => void
+  toggleVote: (sessionId: string, clusterId: string, voterId: string) => boolean
+  finishVoting: (sessionId: string, nodes: GraphNode[]) => void
+  updateCluster: (sessionId: string, clusterId: string, updates: Partial<Pick<PremortemCluster, 'convert' | 'targetIds'>>) => void
+  recordRisks: (sessionId: string, riskNodeIds: Record<string, string>, now?: number) => void
+  endSession: (sessionId: string, now?: number) => void
+  receive: (message: PremortemMessage, self: Collaborator, scenarioId: string) => void
+}
+
+/** A scenario's sessions, oldest first */
+export function sessionsForScenario(sessions: PremortemSession[], scenarioId: string): PremortemSession[] {
+  return sessions.filter(s => s.scenarioId === scenarioId).sort((a, b) => a.startedAt - b.startedAt)
+}
+
+/** The scenario's session still in progress, if any */
+export function activeSession(sessions: PremortemSession[], scenarioId: string): PremortemSession | null {
+  const open = sessionsForScenario(sessions, scenarioId).filter(s => s.phase !== 'closed')
+  return open[open.length - 1] ?? null
+}
+
+/** Clusters by votes, most first */
+export function rankClusters(session: Pick<PremortemSession, 'clusters'>): PremortemCluster[] {
+  return [...session.clusters].sort((a, b) => b.votes - a.votes)
+}
+
+export function votesUsed(session: Pick<PremortemSession, 'ballots'>, voterId: string): number {
+  return session.ballots?.[voterId]?.length ?? 0
+}
+
+export function hasVoted(session: Pick<PremortemSession, 'ballots'>, voterId: string, clusterId: string): boolean {
+  return session.ballots?.[voterId]?.includes(clusterId) ?? false
+}
+
+/** The session as the facilitator broadcasts it: vote counts without the voters */
+export function publicSession(session: PremortemSession): PremortemSession {
+  const shared = { ...session }
+  delete shared.ballots
+  return shared
+}
+
+const sessionRecords: ScenarioRecordCollection<PremortemSession> = scenarioRecords('premortem_sessions', {
+  read: () => usePremortemStore.getState().sessions,
+  // Sessions read back from the scenario keep the ballots held here
+  write: sessions => {
+    const ballots = new Map(usePremortemStore.getState().sessions.map(s => [s.id, s.ballots]))
+    usePremortemStore.setState({
+      sessions: sessions.map(s => (s.ballots || !ballots.get(s.id) ? s : { ...s, ballots: ballots.get(s.id) })),
+    })
+  },
+  idPrefix: 'premortem',
+  stored: publicSession,
+})
+
+export const usePremortemStore = create<PremortemState>((set, get) => {
+  const commit = (sessions: PremortemSession[]) => {
+    sessionRecords.save(sessions, get().sessions)
+    set({ sessions })
+  }
+
+  const updateSession = (sessionId: string, update: (session: PremortemSession) => PremortemSession | null) => {
+    let changed = false
+    const sessions = get().sessions.map(s => {
+      if (s.id !== sessionId) return s
+      const next = update(s)
+      if (!next) return s
+      changed = true
+      return next
+    })
+    if (changed) commit(sessions)
+    return changed
+  }
+
+  return {
+    sessions: sessionRecords.load(),
+    panelOpen: false,
+
+    openPanel: () => set({ panelOpen: true }),
+    closePanel: () => set({ panelOpen: false }),
+
+    start: (input, now = Date.now()) => {
+      const minutes = input.minutes && input.minutes > 0 ? input.minutes : DEFAULT_DURATION_MINUTES
+      const session: PremortemSession = {
+        id: generateRecordId('premortem'),
+        scenarioId: input.scenarioId,
+        facilitator: input.facilitator,
+        premise: input.premise?.trim() || DEFAULT_PREMISE,
+        anonymous: input.anonymous ?? false,
+        votesPerPerson: input.votesPerPerson ?? DEFAULT_VOTES_PER_PERSON,
+        startedAt: now,
+        endsAt: now + minutes * 60_000,
+        phase: 'collecting',
+        contributions: [],
+        clusters: [],
+      }
+      commit([...get().sessions, session])
+      set({ panelOpen: true })
+      return session
+    },
+
+    contribute: (sessionId, text, author, now = Date.now()) => {
+      const trimmed = text.trim()
+      if (!trimmed) return false
+      return updateSession(sessionId, session => {
+        if (session.phase !== 'collecting' || now > session.endsAt + LATE_GRACE_MS) return null
+        const contribution = { id: generateRecordId('reason'), text: trimmed, author: session.anonymous ? null : author, at: now }
+        return { ...session, contributions: [...session.contributions, contribution] }
+      })
+    },
+
+    closeCollection: (sessionId) => {
+      updateSession(sessionId, session => {
+        if (session.phase !== 'collecting') return null
+        const clusters = clusterContributions(session.contributions).map(cluster => ({
+          ...cluster,
+          id: generateRecordId('cluster'),
+          votes: 0,
+          convert: false,
+          targetIds: [],
+        }))
+        return { ...session, phase: 'voting', endsAt: Math.min(session.endsAt, Date.now()), clusters }
+      })
+    },
+
+    // A second click on a cluster takes the dot back
+    toggleVote: (sessionId, clusterId, voterId) => {
+      return updateSession(sessionId, session => {
+        const cluster = session.clusters.find(c => c.id === clusterId)
+        if (session.phase !== 'voting' || !cluster) return null
+        const ballot = session.ballots?.[voterId] ?? []
+        const voted = ballot.includes(clusterId)
+        if (!voted && ballot.length >= session.votesPerPerson) return null
+        const ballots = { ...session.ballots, [voterId]: voted ? ballot.filter(id => id !== clusterId) : [...ballot, clusterId] }
+        const votes = cluster.votes + (voted ? -1 : 1)
+        return { ...session, ballots, clusters: session.clusters.map(c => (c.id === clusterId ? { ...c, votes } : c)) }
+      })
+    },
+
+    // Clusters anyone voted for are proposed as risks, connected to the nodes their wording mentions
+    finishVoting: (sessionId, nodes) => {
+      updateSession(sessionId, session => {
+        if (session.phase !== 'voting') return null
+        const clusters = session.clusters.map(cluster => {
+          const text = [cluster.label, ...session.contributions.filter(c => cluster.contributionIds.includes(c.id)).map(c => c.text)].join(' ')
+          return { ...cluster, convert: cluster.votes > 0, targetIds: suggestAffectedNodes(text, nodes) }
+        })
+        return { ...session, phase: 'converting', clusters }
+      })
+    },
+
+    updateCluster: (sessionId, clusterId, updates) => {
+      updateSession(sessionId, session =>
+        session.phase === 'converting'
+          ? { ...session, clusters: session.clusters.map(c => (c.id === clusterId ? { ...c, ...updates } : c)) }
+          : null
+      )
+    },
+
+    recordRisks: (sessionId, riskNodeIds, now = Date.now()) => {
+      updateSession(sessionId, session => ({
+        ...session,
+        phase: 'closed',
+        closedAt: now,
+        clusters: session.clusters.map(c => (riskNodeIds[c.id] ? { ...c, riskNodeId: riskNodeIds[c.id] } : c)),
+      }))
+    },
+
+    endSession: (sessionId, now = Date.now()) => {
+      updateSession(sessionId, session => (session.phase === 'closed' ? null : { ...session, phase: 'closed', closedAt: now }))
+    },
+
+    receive: (message, self, scenarioId) => {
+      if (message.from?.id === self.id) return
+      const { sessions, contribute, toggleVote } = get()
+
+      if (message.type === 'premortem-session') {
+        const existing = sessions.find(s => s.id === message.session.id)
+        // Only a session's facilitator may publish it
+        if (message.from.id !== (existing ?? message.session).facilitator.id) return
+        if (existing && message.session.facilitator.id !== existing.facilitator.id) return
+        // Keep it with this canvas's scenario (the facilitator's scenario id means nothing here) and our own votes
+        const session = {
+          ...publicSession(message.session),
+          scenarioId: existing ? existing.scenarioId : scenarioId,
+          ballots: existing?.ballots,
+        }
+        commit(existing ? sessions.map(s => (s === existing ? session : s)) : [...sessions, session])
+        if (!existing && session.phase !== 'closed') set({ panelOpen: true })
+        return
+      }
+
+      // Reasons and votes are only applied by the facilitator
+      const session = sessions.find(s => s.id === message.sessionId)
+      if (session?.facilitator.id !== self.id) return
+      if (message.type === 'premortem-contribute') contribute(session.id, message.text, message.from ?? null)
+      else toggleVote(session.id, message.clusterId, message.from.id)
+    },
+  }
+})
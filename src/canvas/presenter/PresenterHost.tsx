@@ -0,0 +1,289 @@
+/**
+ * Presenter Host
+ *
+ * Joins the presenter room (?room=, or one shared by all tabs on this
+ * machine), publishes this canvas's view while presenting, mirrors the
+ * presenter's selection and inspector while following, and renders the
+ * presenter bar: present / stop, the viewpoint tour, and break away /
+ * re-follow. The viewport itself is followed in ReactFlowGraph, which owns
+ * the onMoveStart that detects breaking away.
+ *
+ * Must render inside the ReactFlowProvider.
+ */
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import { useReactFlow, useStore } from '@xyflow/react'
+import { Bookmark, ChevronLeft, ChevronRight, ListOrdered, Presentation, Radio, Trash2, ArrowUp, ArrowDown, Undo2, X } from 'lucide-react'
+import { useCanvasStore, selectDrivers, selectResultsStatus } from '../store'
+import { selectRecordScope } from '../store/scenarioRecords'
+import { useDriverFocusStore } from '../highlight/driverFocus'
+import { getLocalCollaborator } from '../collab/presence'
+import { readCollabRoom } from '../hooks/useCollaboration'
+import { typography } from '../../styles/typography'
+import { createPresenterTransport, type PresenterTransport, type PresenterView } from './transport'
+import { usePresenterSession, viewpointsForScenario } from './session'
+
+/** Tabs without ?room= all present to each other */
+const DEFAULT_ROOM = 'canvas'
+const BROADCAST_THROTTLE_MS = 50
+const TOUR_MOVE_MS = 400
+
+const sameIds = (a: string[], b: string[]) => a.length === b.length && a.every((id, i) => id === b[i])
+
+export function PresenterHost() {
+  const room = useMemo(() => readCollabRoom() ?? DEFAULT_ROOM, [])
+  const self = useMemo(() => getLocalCollaborator(), [])
+  const transportRef = useRef<PresenterTransport | null>(null)
+  const viewRef = useRef<PresenterView | null>(null)
+  const sendTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null)
+
+  const role = usePresenterSession(s => s.role)
+  const presenter = usePresenterSession(s => s.presenter)
+  const remoteView = usePresenterSession(s => s.remoteView)
+  const following = usePresenterSession(s => s.following)
+  const allViewpoints = usePresenterSession(s => s.viewpoints)
+  const tourIndex = usePresenterSession(s => s.tourIndex)
+  const session = usePresenterSession.getState
+
+  const scenarioId = useCanvasStore(selectRecordScope)
+  const nodes = useCanvasStore(s => s.nodes)
+  const showInspectorPanel = useCanvasStore(s => s.showInspectorPanel)
+  const showResultsPanel = useCanvasStore(s => s.showResultsPanel)
+  const drivers = useCanvasStore(selectDrivers)
+  const resultsStatus = useCanvasStore(selectResultsStatus)
+  const focusedDriverId = useDriverFocusStore(s => s.focusedId)
+  const [x, y, zoom] = useStore(s => s.transform)
+  const { getViewport, setViewport } = useReactFlow()
+
+  const viewpoints = useMemo(() => viewpointsForScenario(allViewpoints, scenarioId), [allViewpoints, scenarioId])
+  const [showTour, setShowTour] = useState(false)
+
+  // Keyed on the ids, so moving or editing nodes doesn't count as a new selection
+  const selectionKey = nodes.filter(n => n.selected).map(n => n.id).join('|')
+  const selection = useMemo(() => (selectionKey ? selectionKey.split('|') : []), [selectionKey])
+
+  // ---- Transport -----------------------------------------------------------
+
+  const sendView = useCallback(() => {
+    sendTimerRef.current = null
+    if (viewRef.current) transportRef.current?.send({ type: 'view', from: self, view: viewRef.current })
+  }, [self])
+
+  useEffect(() => {
+    const transport = createPresenterTransport(room)
+    transportRef.current = transport
+    const unsubscribe = transport.subscribe(message => {
+      if (message.type === 'hello') {
+        if (usePresenterSession.getState().role === 'presenting') sendView()
+        return
+      }
+      usePresenterSession.getState().receive(message, self)
+    })
+    // Ask whoever is presenting for their current view
+    transport.send({ type: 'hello', from: self })
+
+    return () => {
+      if (sendTimerRef.current) clearTimeout(sendTimerRef.current)
+      if (usePresenterSession.getState().role === 'presenting') {
+        transport.send({ type: 'stop', from: self })
+        usePresenterSession.getState().stopPresenting()
+      }
+      unsubscribe()
+      transport.close()
+      transportRef.current = null
+    }
+  }, [room, self, sendView])
+
+  // ---- Presenting: publish this canvas's view -----------------------------
+
+  const tourStep = useMemo(
+    () =>
+      role === 'presenting' && tourIndex !== null && viewpoints[tourIndex]
+        ? { index: tourIndex, count: viewpoints.length, name: viewpoints[tourIndex].name }
+        : null,
+    [role, tourIndex, viewpoints]
+  )
+
+  useEffect(() => {
+    if (role !== 'presenting') return
+    viewRef.current = {
+      viewport: { x, y, zoom },
+      selection,
+      inspectorOpen: showInspectorPanel,
+      drivers: showResultsPanel && resultsStatus === 'complete' && drivers ? drivers : [],
+      focusedDriverId,
+      tourStep,
+    }
+    if (!sendTimerRef.current) sendTimerRef.current = setTimeout(sendView, BROADCAST_THROTTLE_MS)
+  }, [role, x, y, zoom, selection, showInspectorPanel, showResultsPanel, resultsStatus, drivers, focusedDriverId, tourStep, sendView])
+
+  // ---- Following: mirror selection and inspector ---------------------------
+
+  useEffect(() => {
+    if (role !== 'watching' || !following || !remoteView) return
+    const canvas = useCanvasStore.getState()
+    const current = canvas.nodes.filter(n => n.selected).map(n => n.id)
+    if (!sameIds(current, remoteView.selection)) {
+      if (remoteView.selection.length > 0) canvas.selectNodes(remoteView.selection)
+      else canvas.clearSelection()
+    }
+    if (canvas.showInspectorPanel !== remoteView.inspectorOpen) canvas.setShowInspectorPanel(remoteView.inspectorOpen)
+  }, [role, following, remoteView])
+
+  // ---- Actions ----------------------------------------------------------------
+
+  const startPresenting = useCallback(() => {
+    session().startPresenting()
+  }, [session])
+
+  const stopPresenting = useCallback(() => {
+    transportRef.current?.send({ type: 'stop', from: self })
+    session().stopPresenting()
+    setShowTour(false)
+  }, [self, session])
+
+  const goToStep = useCallback((index: number) => {
+    const viewpoint = viewpoints[index]
+    if (!viewpoint) return
+    setViewport(viewpoint.viewport, { duration: TOUR_MOVE_MS })
+    const canvas = useCanvasStore.getState()
+    if (viewpoint.selection.length > 0) canvas.selectNodes(viewpoint.selection)
+    else canvas.clearSelection()
+    session().setTourIndex(index)
+  }, [viewpoints, setViewport, session])
+
+  const saveView = useCallback(() => {
+    const name = window.prompt('Name this view:', `View ${viewpoints.length + 1}`)
+    if (name === null || !name.trim()) return
+    session().saveViewpoint({
+      scenarioId: selectRecordScope(useCanvasStore.getState()),
+      name: name.trim(),
+      viewport: getViewport(),
+      selection: useCanvasStore.getState().nodes.filter(n => n.selected).map(n => n.id),
+    })
+  }, [viewpoints.length, getViewport, session])
+
+  const step = useCallback((offset: -1 | 1) => {
+    if (viewpoints.length === 0) return
+    const next = tourIndex === null ? (offset === 1 ? 0 : viewpoints.length - 1) : tourIndex + offset
+    if (next >= 0 && next < viewpoints.length) goToStep(next)
+  }, [viewpoints.length, tourIndex, goToStep])
+
+  // Presentation clickers send PageDown / PageUp
+  useEffect(() => {
+    if (role !== 'presenting') return
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'PageDown') {
+        event.preventDefault()
+        step(1)
+      } else if (event.key === 'PageUp') {
+        event.preventDefault()
+        step(-1)
+      }
+    }
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [role, step])
+
+  // ---- Bar ---------------------------------------------------------------------
+
+  const buttonClass = `${typography.caption} inline-flex items-center gap-1 px-2 py-1 rounded-full hover:bg-sand-100 text-ink-900 transition-colors disabled:opacity-40`
+
+  return (
+    <div
+      className="absolute top-3 left-1/2 -translate-x-1/2 z-[1200] flex flex-col items-center gap-2"
+      data-testid="presenter-bar"
+    >
+      <div className="flex items-center gap-1 px-2 py-1 rounded-full bg-white/90 border border-sand-200 shadow-sm" role="toolbar" aria-label="Presenter mode">
+        {role === 'off' && (
+          <button type="button" onClick={startPresenting} className={buttonClass}>
+            <Presentation className="w-3.5 h-3.5" />
+            Present
+          </button>
+        )}
+
+        {role === 'presenting' && (
+          <>
+            <span className={`${typography.caption} inline-flex items-center gap-1 px-2 text-danger-600`} role="status">
+              <Radio className="w-3.5 h-3.5" aria-hidden="true" />
+              Presenting
+            </span>
+            <button type="button" onClick={() => step(-1)} disabled={viewpoints.length === 0 || tourIndex === 0} className={buttonClass} aria-label="Previous view">
+              <ChevronLeft className="w-3.5 h-3.5" />
+            </button>
+            <span className={`${typography.caption} text-ink-900 min-w-[5rem] text-center`} data-testid="presenter-tour-step">
+              {tourStep ? `${tourStep.index + 1}/${tourStep.count} · ${tourStep.name}` : `${viewpoints.length} ${viewpoints.length === 1 ? 'view' : 'views'}`}
+            </span>
+            <button type="button" onClick={() => step(1)} disabled={viewpoints.length === 0 || tourIndex === viewpoints.length - 1} className={buttonClass} aria-label="Next view">
+              <ChevronRight className="w-3.5 h-3.5" />
+            </button>
+            <button type="button" onClick={saveView} className={buttonClass} title="Save the current view as a tour stop">
+              <Bookmark className="w-3.5 h-3.5" />
+              Save view
+            </button>
+            <button type="button" onClick={() => setShowTour(open => !open)} className={buttonClass} aria-expanded={showTour} aria-label="Edit tour">
+              <ListOrdered className="w-3.5 h-3.5" />
+            </button>
+            <button type="button" onClick={stopPresenting} className={buttonClass}>
+              <X className="w-3.5 h-3.5" />
+              Stop
+            </button>
+          </>
+        )}
+
+        {role === 'watching' && presenter && (
+          following ? (
+            <>
+              <span className={`${typography.caption} inline-flex items-center gap-1 px-2 text-ink-900`} role="status">
+                <span className="w-2 h-2 rounded-full" style={{ backgroundColor: presenter.colour }} aria-hidden="true" />
+                Following {presenter.name}
+                {remoteView?.tourStep && ` · ${remoteView.tourStep.index + 1}/${remoteView.tourStep.count} ${remoteView.tourStep.name}`}
+              </span>
+              <button type="button" onClick={() => session().breakAway()} className={buttonClass}>
+                Break away
+              </button>
+            </>
+          ) : (
+            <>
+              <span className={`${typography.caption} px-2 text-ink-900`} role="status">
+                {presenter.name} is presenting
+              </span>
+              <button type="button" onClick={() => session().follow()} className={buttonClass}>
+                <Undo2 className="w-3.5 h-3.5" />
+                Re-follow
+              </button>
+            </>
+          )
+        )}
+      </div>
+
+      {role === 'presenting' && showTour && (
+        <ul className="w-72 max-h-64 overflow-y-auto bg-white border border-sand-200 rounded-lg shadow-panel divide-y divide-sand-100" data-testid="presenter-tour">
+          {viewpoints.length === 0 && (
+            <li className={`${typography.caption} px-3 py-2 text-ink-900/70`}>Save views to build a tour.</li>
+          )}
+          {viewpoints.map((viewpoint, index) => (
+            <li key={viewpoint.id} className="flex items-center gap-1 px-2 py-1">
+              <button
+                type="button"
+                onClick={() => goToStep(index)}
+                className={`${typography.caption} flex-1 text-left px-1 py-0.5 rounded hover:bg-sand-100 truncate ${index === tourIndex ? 'font-semibold' : ''}`}
+              >
+                {index + 1}. {viewpoint.name}
+              </button>
+              <button type="button" onClick={() => session().moveViewpoint(viewpoint.id, -1)} disabled={index === 0} className={buttonClass} aria-label={`Move ${viewpoint.name} up`}>
+                <ArrowUp className="w-3 h-3" />
+              </button>
+              <button type="button" onClick={() => session().moveViewpoint(viewpoint.id, 1)} disabled={index === viewpoints.length - 1} className={buttonClass} aria-label={`Move ${viewpoint.name} down`}>
+                <ArrowDown className="w-3 h-3" />
+              </button>
+              <button type="button" onClick={() => session().deleteViewpoint(viewpoint.id)} className={buttonClass} aria-label={`Delete ${viewpoint.name}`}>
+                <Trash2 className="w-3 h-3" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,106 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { usePresenterSession, viewpointsForScenario } from '../session'
+import { createBroadcastChannelTransport, type PresenterMessage, type PresenterView } from '../transport'
+import {
+  adoptDraftRecords,
+  copyScenarioRecords,
+  deleteScenarioRecords,
+  draftScenarioId,
+  flushScenarioRecords,
+} from '../../store/scenarioRecords'
+import { createScenario, getScenario } from '../../store/scenarios'
+
+const ada = { id: 'ada', name: 'Ada', colour: '#2563eb' }
+const bob = { id: 'bob', name: 'Bob', colour: '#db2777' }
+const me = { id: 'me', name: 'Me', colour: '#059669' }
+
+const view = (x: number): PresenterView => ({
+  viewport: { x, y: 0, zoom: 1 },
+  selection: ['n1'],
+  inspectorOpen: true,
+  drivers: [{ kind: 'node', id: 'n1' }],
+  focusedDriverId: null,
+  tourStep: null,
+})
+
+const session = () => usePresenterSession.getState()
+
+describe('presenter session', () => {
+  beforeEach(() => {
+    localStorage.clear()
+    usePresenterSession.setState({ role: 'off', presenter: null, remoteView: null, following: false, viewpoints: [], tourIndex: null })
+  })
+
+  it('follows the presenter, breaks away, re-follows and ends with them', () => {
+    session().receive({ type: 'view', from: ada, view: view(10) }, me)
+    expect(session()).toMatchObject({ role: 'watching', presenter: ada, following: true, remoteView: view(10) })
+
+    session().breakAway()
+    session().receive({ type: 'view', from: ada, view: view(20) }, me)
+    expect(session()).toMatchObject({ following: false, remoteView: view(20) })
+
+    session().follow()
+    expect(session().following).toBe(true)
+
+    // Only the presenter being watched can end the session
+    session().receive({ type: 'stop', from: bob }, me)
+    expect(session().role).toBe('watching')
+    session().receive({ type: 'stop', from: ada }, me)
+    expect(session()).toMatchObject({ role: 'off', presenter: null, remoteView: null })
+  })
+
+  it('hands over when someone else starts presenting, and ignores its own echo', () => {
+    session().startPresenting()
+    session().receive({ type: 'view', from: me, view: view(0) }, me)
+    expect(session().role).toBe('presenting')
+
+    session().receive({ type: 'view', from: bob, view: view(5) }, me)
+    expect(session()).toMatchObject({ role: 'watching', presenter: bob, following: true })
+  })
+
+  it('keeps an ordered tour per scenario that follows the scenario lifecycle', () => {
+    const save = (name: string, scenarioId: string) =>
+      session().saveViewpoint({ scenarioId, name, viewport: { x: 0, y: 0, zoom: 1 }, selection: [] })
+    const draftId = draftScenarioId()
+    const intro = save('Intro', draftId)
+    save('Elsewhere', 's9')
+    save('Risks', draftId)
+
+    session().moveViewpoint(intro.id, 1)
+    expect(viewpointsForScenario(session().viewpoints, draftId).map(v => v.name)).toEqual(['Risks', 'Intro'])
+
+    const saved = createScenario({ name: 'Pricing', nodes: [], edges: [] })
+    const copy = createScenario({ name: 'Pricing (Copy)', nodes: [], edges: [] })
+    adoptDraftRecords(saved.id)
+    copyScenarioRecords(saved.id, copy.id)
+    deleteScenarioRecords(saved.id)
+    expect(viewpointsForScenario(session().viewpoints, copy.id).map(v => v.name)).toEqual(['Risks', 'Intro'])
+
+    flushScenarioRecords()
+    expect(getScenario(copy.id)?.tour_viewpoints?.map(v => v.name)).toEqual(['Risks', 'Intro'])
+  })
+})
+
+describe('BroadcastChannel transport', () => {
+  it('delivers messages to other tabs in the same room only', async () => {
+    const presenter = createBroadcastChannelTransport('room-a')
+    const follower = createBroadcastChannelTransport('room-a')
+    const stranger = createBroadcastChannelTransport('room-b')
+    const received: PresenterMessage[] = []
+    const strangerReceived: PresenterMessage[] = []
+    const delivered = new Promise<void>(resolve => {
+      follower.subscribe(message => {
+        received.push(message)
+        resolve()
+      })
+    })
+    stranger.subscribe(message => strangerReceived.push(message))
+
+    presenter.send({ type: 'view', from: ada, view: view(42) })
+    await delivered
+
+    expect(received).toEqual([{ type: 'view', from: ada, view: view(42) }])
+    expect(strangerReceived).toEqual([])
+    ;[presenter, follower, stranger].forEach(t => t.close())
+  })
+})
@@ -0,0 +1,136 @@
+/**
+ * Presenter Session
+ *
+ * In a facilitated workshop one person drives the canvas and everyone else
+ * watches. The presenter's view (viewport, selected nodes, inspector,
+ * highlighted drivers) is broadcast over a PresenterTransport; followers
+ * mirror it until they pan or zoom themselves, which breaks away, and can
+ * re-follow at any time. Only the latest presenter is followed: starting to
+ * present takes over from whoever was presenting before.
+ *
+ * The tour is a list of saved viewpoints per scenario that the presenter
+ * steps through, saved with the scenario (see scenarioRecords.ts).
+ */
+
+import { create } from 'zustand'
+import type { Viewport } from '@xyflow/react'
+import { generateRecordId, scenarioRecords, type ScenarioRecordCollection } from '../store/scenarioRecords'
+import type { Collaborator } from '../collab/presence'
+import type { PresenterMessage, PresenterView } from './transport'
+
+export type PresenterRole = 'off' | 'presenting' | 'watching'
+
+export interface Viewpoint {
+  id: string
+  scenarioId: string
+  name: string
+  viewport: Viewport
+  selection: string[] // Node ids selected when it was saved
+  createdAt: number
+}
+
+interface PresenterSessionState {
+  role: PresenterRole
+  /** The presenter being watched (null while presenting or off) */
+  presenter: Collaborator | null
+  /** Their latest view */
+  remoteView: PresenterView | null
+  /** Watching and mirroring; false after breaking away */
+  following: boolean
+
+  viewpoints: Viewpoint[]
+  tourIndex: number | null // Index into the current scenario's viewpoints
+
+  startPresenting: () => void
+  stopPresenting: () => void
+  receive: (message: PresenterMessage, self: Collaborator) => void
+  breakAway: () => void
+  follow: () => void
+
+  saveViewpoint: (input: Omit<Viewpoint, 'id' | 'createdAt'>) => Viewpoint
+  deleteViewpoint: (id: string) => void
+  moveViewpoint: (id: string, offset: -1 | 1) => void
+  setTourIndex: (index: number | null) => void
+}
+
+const viewpointRecords: ScenarioRecordCollection<Viewpoint> = scenarioRecords('tour_viewpoints', {
+  read: () => usePresenterSession.getState().viewpoints,
+  write: viewpoints => usePresenterSession.setState({ viewpoints }),
+  idPrefix: 'view',
+})
+
+/** A scenario's tour, in order */
+export function viewpointsForScenario(viewpoints: Viewpoint[], scenarioId: string): Viewpoint[] {
+  return viewpoints.filter(v => v.scenarioId === scenarioId)
+}
+
+export const usePresenterSession = create<PresenterSessionState>((set, get) => {
+  const commit = (viewpoints: Viewpoint[]) => {
+    viewpointRecords.save(viewpoints, get().viewpoints)
+    set({ viewpoints })
+  }
+
+  return {
+    role: 'off',
+    presenter: null,
+    remoteView: null,
+    following: false,
+    viewpoints: viewpointRecords.load(),
+    tourIndex: null,
+
+    startPresenting: () => set({ role: 'presenting', presenter: null, remoteView: null, following: false }),
+    stopPresenting: () => set({ role: 'off', tourIndex: null }),
+
+    receive: (message, self) => {
+      if (message.from?.id === self.id) return
+      const { role, presenter } = get()
+
+      if (message.type === 'view') {
+        // Someone else started presenting: hand over to them
+        const isNew = role !== 'watching' || presenter?.id !== message.from.id
+        set({
+          role: 'watching',
+          presenter: message.from,
+          remoteView: message.view,
+          following: isNew ? true : get().following,
+          ...(role === 'presenting' ? { tourIndex: null } : {}),
+        })
+      } else if (message.type === 'stop' && role === 'watching' && presenter?.id === message.from.id) {
+        set({ role: 'off', presenter: null, remoteView: null, following: false })
+      }
+    },
+
+    breakAway: () => {
+      if (get().role === 'watching') set({ following: false })
+    },
+    follow: () => {
+      if (get().role === 'watching') set({ following: true })
+    },
+
+    saveViewpoint: (input) => {
+      const viewpoint: Viewpoint = { ...input, id: generateRecordId('view'), createdAt: Date.now() }
+      commit([...get().viewpoints, viewpoint])
+      return viewpoint
+    },
+
+    deleteViewpoint: (id) => {
+      commit(get().viewpoints.filter(v => v.id !== id))
+      set({ tourIndex: null })
+    },
+
+    moveViewpoint: (id, offset) => {
+      const viewpoints = [...get().viewpoints]
+      const from = viewpoints.findIndex(v => v.id === id)
+      if (from === -1) return
+      // Swap with the neighbour in the same scenario, skipping other scenarios' entries
+      const scenarioId = viewpoints[from].scenarioId
+      let to = from + offset
+      while (to >= 0 && to < viewpoints.length && viewpoints[to].scenarioId !== scenarioId) to += offset
+      if (to < 0 || to >= viewpoints.length) return
+      ;[viewpoints[from], viewpoints[to]] = [viewpoints[to], viewpoints[from]]
+      commit(viewpoints)
+    },
+
+    setTourIndex: (index) => set({ tourIndex: index }),
+  }
+})
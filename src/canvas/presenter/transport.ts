@@ -0,0 +1,163 @@
+/**
+ * Presenter transports
+ *
+ * Presenter mode only needs to broadcast small JSON messages to everyone in
+ * a room, so the transport is pluggable: BroadcastChannel for tabs on the
+ * same machine (testing, a second screen), or a WebSocket through the collab
+ * relay (tools/collab-relay.mjs forwards text frames to the rest of the room).
+ * Pre-mortem sessions travel over the same transports.
+ */
+
+import type { Viewport } from '@xyflow/react'
+import type { Collaborator } from '../collab/presence'
+import { COLLAB_URL } from '../hooks/useCollaboration'
+import type { PremortemMessage } from '../premortem/session'
+
+/** A driver highlighted on the canvas, as HighlightLayer draws it */
+export interface PresentedDriver {
+  kind: 'node' | 'edge'
+  id: string
+}
+
+/** What followers mirror from the presenter's canvas */
+export interface PresenterView {
+  viewport: Viewport
+  selection: string[] // Node ids
+  inspectorOpen: boolean
+  drivers: PresentedDriver[]
+  focusedDriverId: string | null
+  tourStep: { index: number; count: number; name: string } | null
+}
+
+export type PresenterMessage =
+  | { type: 'view'; from: Collaborator; view: PresenterView }
+  | { type: 'stop'; from: Collaborator }
+  | { type: 'hello'; from: Collaborator } // A follower joined: presenter resends its view
+  | PremortemMessage
+
+export interface PresenterTransport {
+  kind: 'broadcast' | 'websocket'
+  send: (message: PresenterMessage) => void
+  subscribe: (listener: (message: PresenterMessage) => void) => () => void
+  close: () => void
+}
+
+const CHANNEL_PREFIX = 'olumi-presenter:'
+const RECONNECT_MS = [1000, 2000, 5000, 10000]
+const MESSAGE_TYPES: ReadonlySet<string> = new Set<PresenterMessage['type']>([
+  'view',
+  'stop',
+  'hello',
+  'premortem-session',
+  'premortem-contribute',
+  'premortem-vote',
+])
+
+function isPresenterMessage(value: unknown): value is PresenterMessage {
+  const message = value as Partial<PresenterMessage> | null
+  if (!message || !MESSAGE_TYPES.has(message.type ?? '')) return false
+  // Anonymised pre-mortem reasons carry no sender
+  return typeof message.from?.id === 'string' || (message.type === 'premortem-contribute' && message.from === undefined)
+}
+
+function createListeners() {
+  const listeners = new Set<(message: PresenterMessage) => void>()
+  return {
+    subscribe: (listener: (message: PresenterMessage) => void) => {
+      listeners.add(listener)
+      return () => {
+        listeners.delete(listener)
+      }
+    },
+    emit: (value: unknown) => {
+      if (!isPresenterMessage(value)) return
+      listeners.forEach(listener => listener(value))
+    },
+  }
+}
+
+/**
+ * Same-machine transport: every tab of this origin in the room hears the others
+ */
+export function createBroadcastChannelTransport(room: string): PresenterTransport {
+  const channel = new BroadcastChannel(`${CHANNEL_PREFIX}${room}`)
+  const { subscribe, emit } = createListeners()
+  channel.onmessage = event => emit(event.data)
+
+  return {
+    kind: 'broadcast',
+    send: message => channel.postMessage(message),
+    subscribe,
+    close: () => {
+      channel.onmessage = null
+      channel.close()
+    },
+  }
+}
+
+/**
+ * Relay transport: JSON text frames through the collab relay. Messages sent
+ * while (re)connecting are queued; only the latest view is worth sending, so
+ * the queue keeps the last message of each type, except pre-mortem reasons
+ * and votes, which are all kept.
+ */
+export function createWebSocketTransport(room: string, url: string = COLLAB_URL): PresenterTransport {
+  const { subscribe, emit } = createListeners()
+  const pending = new Map<string, PresenterMessage>()
+  let queuedCount = 0
+  let socket: WebSocket | null = null
+  let attempt = 0
+  let retryTimer: ReturnType<typeof setTimeout> | null = null
+  let closed = false
+
+  const connect = () => {
+    socket = new WebSocket(`${url.replace(/\/$/, '')}/presenter/${encodeURIComponent(room)}`)
+    socket.onopen = () => {
+      attempt = 0
+      pending.forEach(message => socket?.send(JSON.stringify(message)))
+      pending.clear()
+    }
+    socket.onmessage = event => {
+      if (typeof event.data !== 'string') return
+      try {
+        emit(JSON.parse(event.data))
+      } catch {
+        // Not ours: ignore
+      }
+    }
+    socket.onclose = () => {
+      socket = null
+      if (closed) return
+      retryTimer = setTimeout(connect, RECONNECT_MS[Math.min(attempt++, RECONNECT_MS.length - 1)])
+    }
+  }
+  connect()
+
+  return {
+    kind: 'websocket',
+    send: message => {
+      if (socket?.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message))
+      else if (message.type === 'premortem-contribute' || message.type === 'premortem-vote') pending.set(`${message.type}:${queuedCount++}`, message)
+      else pending.set(message.type, message)
+    },
+    subscribe,
+    close: () => {
+      closed = true
+      if (retryTimer) clearTimeout(retryTimer)
+      socket?.close()
+      socket = null
+    },
+  }
+}
+
+/**
+ * The transport for this build: VITE_PRESENTER_TRANSPORT=broadcast keeps
+ * presenting on this machine; anything else goes through the relay.
+ */
+export function createPresenterTransport(room: string): PresenterTransport {
+  const kind = import.meta.env.VITE_PRESENTER_TRANSPORT
+  if (kind === 'broadcast' && typeof BroadcastChannel !== 'undefined') {
+    return createBroadcastChannelTransport(room)
+  }
+  return createWebSocketTransport(room)
+}
@@ -10,6 +10,8 @@
  * - Allowlist status indicator (when flag enabled)
  * - Open share link button
  * - Sanitized query params with length limits
+ * - Self-contained bundle (link or .olumi file, optional passphrase) that
+ *   opens on any device without the run history
  *
  * Flag: VITE_FEATURE_SHARE_ALLOWLIST=0|1 (already exists)
  */
@@ -20,6 +22,14 @@ import { sanitizeLabel } from '../persist'
 import { loadRuns } from '../store/runHistory'
 import { selectScenarioLastRun } from '../shared/lastRun'
 import { formatDecisionSummary } from './decisionSummary'
+import {
+  collectShareBundle,
+  encodeShareBundle,
+  buildBundleLink,
+  serializeBundleFile,
+  ShareBundleError,
+  SHARE_BUNDLE_EXTENSION,
+} from './bundle'
 
 export interface ShareDrawerProps {
   isOpen: boolean
@@ -64,6 +74,10 @@ export function ShareDrawer({ isOpen, onClose, seed: propSeed, hash: propHash }:
   const [copied, setCopied] = useState(false)
   const [summaryCopied, setSummaryCopied] = useState(false)
   const [allowlistStatus, setAllowlistStatus] = useState<'checking' | 'allowed' | 'not-allowed' | 'unknown'>('unknown')
+  const [passphrase, setPassphrase] = useState('')
+  const [bundleBusy, setBundleBusy] = useState(false)
+  const [bundleCopied, setBundleCopied] = useState(false)
+  const [bundleError, setBundleError] = useState<string | null>(null)
 
   // Use props if provided, otherwise fall back to canvas store
   // React #185 FIX: Use shallow comparison for object selectors
@@ -172,6 +186,46 @@ export function ShareDrawer({ isOpen, onClose, seed: propSeed, hash: propHash }:
     }
   }
 
+  const withBundle = async (use: (token: string) => Promise<void> | void) => {
+    setBundleBusy(true)
+    setBundleError(null)
+    try {
+      const state = useCanvasStore.getState()
+      const token = await encodeShareBundle(
+        collectShareBundle({
+          nodes: state.nodes,
+          edges: state.edges,
+          framing: state.currentScenarioFraming,
+          results: state.results,
+          title: framing?.title,
+        }),
+        passphrase || undefined
+      )
+      await use(token)
+    } catch (err) {
+      setBundleError(err instanceof ShareBundleError ? err.message : 'Could not create the share bundle.')
+      if (!(err instanceof ShareBundleError)) console.error(err)
+    } finally {
+      setBundleBusy(false)
+    }
+  }
+
+  const handleCopyBundleLink = () => withBundle(async token => {
+    await navigator.clipboard.writeText(buildBundleLink(token))
+    setBundleCopied(true)
+    setTimeout(() => setBundleCopied(false), 2000)
+  })
+
+  const handleDownloadBundle = () => withBundle(token => {
+    const blob = new Blob([serializeBundleFile(token)], { type: 'application/json' })
+    const url = URL.createObjectURL(blob)
+    const a = document.createElement('a')
+    a.href = url
+    a.download = `olumi-share-${Date.now()}${SHARE_BUNDLE_EXTENSION}`
+    a.click()
+    URL.revokeObjectURL(url)
+  })
+
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center" onClick={onClose}>
       {/* Backdrop */}
@@ -246,6 +300,46 @@ export function ShareDrawer({ isOpen, onClose, seed: propSeed, hash: propHash }:
           </button>
         </div>
 
+        {/* Self-contained bundle */}
+        <div className="mt-4 pt-4 border-t border-gray-200" data-testid="share-bundle">
+          <h3 className="text-sm font-semibold text-gray-900">Share a copy</h3>
+          <p className="text-xs text-gray-600 mt-1">
+            Packs the graph, framing and latest results so it opens on any device. Add a passphrase to encrypt it.
+          </p>
+          <label htmlFor="share-bundle-passphrase" className="block mt-3 text-sm font-medium text-gray-700">
+            Passphrase (optional)
+          </label>
+          <input
+            id="share-bundle-passphrase"
+            type="password"
+            autoComplete="new-password"
+            value={passphrase}
+            onChange={e => setPassphrase(e.target.value)}
+            className="mt-1 w-full px-3 py-2 border border-gray-300 rounded text-sm"
+          />
+          <div className="flex gap-2 mt-3">
+            <button
+              onClick={handleCopyBundleLink}
+              disabled={bundleBusy}
+              type="button"
+              className="flex-1 px-4 py-2 text-sm font-medium bg-gray-100 text-gray-700 rounded hover:bg-gray-200 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {bundleCopied ? 'Copied!' : 'Copy bundle link'}
+            </button>
+            <button
+              onClick={handleDownloadBundle}
+              disabled={bundleBusy}
+              type="button"
+              className="px-4 py-2 text-sm font-medium bg-gray-100 text-gray-700 rounded hover:bg-gray-200 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Download {SHARE_BUNDLE_EXTENSION}
+            </button>
+          </div>
+          {bundleError && (
+            <p role="alert" className="text-xs text-red-600 mt-2">{bundleError}</p>
+          )}
+        </div>
+
         <div className="mt-3">
           <button
             onClick={handleCopySummary}
@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest'
+import type { Node, Edge } from '@xyflow/react'
+import type { ReportV1 } from '../../../adapters/plot/types'
+import { DEFAULT_EDGE_DATA, type EdgeData } from '../../domain/edges'
+import {
+  collectShareBundle,
+  encodeShareBundle,
+  decodeShareBundle,
+  readShareBundleHeader,
+  buildBundleLink,
+  serializeBundleFile,
+  parseBundleFile,
+  ShareBundleError,
+  MAX_BUNDLE_LINK_CHARS,
+} from '../bundle'
+
+const report = {
+  schema: 'report.v1',
+  meta: { seed: 7, response_id: 'r1', elapsed_ms: 12 },
+  model_card: { response_hash: 'abc123', response_hash_algo: 'sha256', normalized: true },
+  results: { conservative: 0.2, likely: 0.5, optimistic: 0.8, units: 'percent' },
+  confidence: { level: 'medium', why: 'Some evidence' },
+  drivers: [{ label: 'Price', polarity: 'up', strength: 'high', nodeId: 'n1' }],
+} as ReportV1
+
+function content() {
+  const nodes: Node[] = [
+    { id: 'n1', type: 'factor', position: { x: 0, y: 0 }, data: { label: 'Price' }, selected: true },
+    { id: 'n2', type: 'outcome', position: { x: 200, y: 0 }, data: { label: 'Revenue' } },
+  ]
+  const edges: Edge<EdgeData>[] = [{ id: 'e1', source: 'n1', target: 'n2', data: { ...DEFAULT_EDGE_DATA, weight: 0.6 } }]
+  return collectShareBundle({
+    nodes,
+    edges,
+    framing: { title: 'Raise prices?', goal: 'Grow revenue' },
+    results: { report, drivers: [{ kind: 'node', id: 'n1' }], seed: 7, hash: 'abc123' },
+    title: 'Pricing',
+  })
+}
+
+async function codeOf(promise: Promise<unknown>): Promise<string | undefined> {
+  try {
+    await promise
+  } catch (err) {
+    return err instanceof ShareBundleError ? err.code : 'other'
+  }
+  return undefined
+}
+
+describe('share bundles', () => {
+  it('round-trips graph, framing, report and drivers', async () => {
+    const token = await encodeShareBundle(content())
+    expect(token).toMatch(/^olumi\.1\.p\.[\w-]+\.[\w-]+$/)
+    expect(readShareBundleHeader(token)).toEqual({ version: 1, encrypted: false })
+
+    const decoded = await decodeShareBundle(token)
+    expect(decoded.title).toBe('Pricing')
+    expect(decoded.framing).toEqual({ title: 'Raise prices?', goal: 'Grow revenue' })
+    expect(decoded.report?.results.likely).toBe(0.5)
+    expect(decoded.drivers).toEqual([{ kind: 'node', id: 'n1' }])
+    expect(decoded.graph.nodes.map(n => n.id)).toEqual(['n1', 'n2'])
+    expect(decoded.graph.nodes[0].selected).toBeUndefined()
+    expect(decoded.graph.edges[0]).toMatchObject({ source: 'n1', target: 'n2' })
+  })
+
+  it('encrypts with a passphrase and rejects the wrong one', async () => {
+    const token = await encodeShareBundle(content(), 'correct horse')
+    expect(readShareBundleHeader(token).encrypted).toBe(true)
+    expect(token).not.toContain(btoa('Raise prices'))
+
+    expect(await codeOf(decodeShareBundle(token))).toBe('passphrase_required')
+    expect(await codeOf(decodeShareBundle(token, 'battery staple'))).toBe('wrong_passphrase')
+    expect((await decodeShareBundle(token, 'correct horse')).framing?.title).toBe('Raise prices?')
+  })
+
+  it('rejects tampered, too-new and malformed tokens', async () => {
+    const token = await encodeShareBundle(content())
+    const [prefix, version, mode, hash, body] = token.split('.')
+    const flipped = body.slice(0, 10) + (body[10] === 'A' ? 'B' : 'A') + body.slice(11)
+
+    expect(await codeOf(decodeShareBundle([prefix, version, mode, hash, flipped].join('.')))).toBe('tampered')
+    expect(await codeOf(decodeShareBundle(token.slice(0, -4)))).toBe('tampered')
+    expect(await codeOf(decodeShareBundle([prefix, version, 'e', hash, body].join('.')))).toBe('tampered')
+    expect(await codeOf(decodeShareBundle([prefix, '2', mode, hash, body].join('.')))).toBe('too_new')
+    expect(await codeOf(decodeShareBundle('not-a-bundle'))).toBe('malformed')
+  })
+
+  it('round-trips through a .olumi file and guards the link size', async () => {
+    const token = await encodeShareBundle(content())
+    const file = serializeBundleFile(token)
+    expect(JSON.parse(file)).toMatchObject({ format: 'olumi-share', version: 1, encrypted: false })
+    expect(parseBundleFile(file)).toBe(token)
+    expect(parseBundleFile(`  ${token}\n`)).toBe(token)
+    expect(() => parseBundleFile('{"format":"other"}')).toThrow(ShareBundleError)
+
+    expect(buildBundleLink(token, 'https://app.example')).toBe(`https://app.example/#/share?bundle=${token}`)
+    expect(() => buildBundleLink('x'.repeat(MAX_BUNDLE_LINK_CHARS + 1))).toThrow(ShareBundleError)
+  })
+})
@@ -0,0 +1,263 @@
+/**
+ * Share bundles: a whole analysis packed into one self-contained string
+ *
+ * A bundle carries the graph, framing, last report and drivers, so the
+ * recipient needs nothing from this device or a backend to view it. It travels
+ * in the URL fragment (`#/share?bundle=...`, never sent to a server) or as a
+ * `.olumi` file for analyses too large for a link.
+ *
+ * Token layout (URL-safe): `olumi.<version>.<mode>.<digest>.<body>`
+ * - mode: `p` (plain) or `e` (passphrase-encrypted)
+ * - body: base64url of the deflated JSON content; for `e`, salt + IV +
+ *   AES-GCM ciphertext with the key derived from the passphrase (PBKDF2)
+ * - digest: SHA-256 over the header and body, so truncated or edited links
+ *   are rejected before anything is decoded. It detects damage, not forgery;
+ *   encrypted bundles are additionally authenticated by AES-GCM.
+ */
+
+import { deflateRaw, inflateRaw } from 'pako'
+import { z } from 'zod'
+import type { Node, Edge } from '@xyflow/react'
+import type { EdgeData } from '../domain/edges'
+import type { ReportV1 } from '../../adapters/plot/types'
+import type { ScenarioFraming } from '../store/scenarios'
+
+export const SHARE_BUNDLE_VERSION = 1
+export const SHARE_BUNDLE_EXTENSION = '.olumi'
+
+/** Longest token we put in a link; larger analyses go out as a file */
+export const MAX_BUNDLE_LINK_CHARS = 32 * 1024
+
+const TOKEN_PREFIX = 'olumi'
+const FILE_FORMAT = 'olumi-share'
+const PBKDF2_ITERATIONS = 210_000
+const SALT_BYTES = 16
+const IV_BYTES = 12
+
+export interface ShareBundleContent {
+  title?: string
+  createdAt: string
+  graph: { nodes: Node[]; edges: Edge<EdgeData>[] }
+  framing: ScenarioFraming | null
+  report: ReportV1 | null
+  drivers: Array<{ kind: 'node' | 'edge'; id: string }>
+  seed?: number
+  hash?: string
+}
+
+export type ShareBundleErrorCode =
+  | 'malformed'
+  | 'tampered'
+  | 'too_new'
+  | 'passphrase_required'
+  | 'wrong_passphrase'
+  | 'too_large'
+  | 'unsupported'
+
+const ERROR_MESSAGES: Record<ShareBundleErrorCode, string> = {
+  malformed: 'This does not look like an Olumi share bundle.',
+  tampered: 'This share bundle has been changed or damaged since it was created, so it cannot be opened.',
+  too_new: 'This share bundle was made by a newer version of Olumi. Update the app to open it.',
+  passphrase_required: 'This share bundle is protected. Enter its passphrase to open it.',
+  wrong_passphrase: 'That passphrase does not open this share bundle.',
+  too_large: 'This analysis is too large for a link. Download it as a file instead.',
+  unsupported: 'Share bundles need a browser with Web Crypto support.',
+}
+
+export class ShareBundleError extends Error {
+  constructor(public code: ShareBundleErrorCode, message: string = ERROR_MESSAGES[code]) {
+    super(message)
+    this.name = 'ShareBundleError'
+  }
+}
+
+/** Peek at a token without decoding it */
+export interface ShareBundleHeader {
+  version: number
+  encrypted: boolean
+}
+
+const ContentSchema = z.object({
+  title: z.string().optional(),
+  createdAt: z.string(),
+  graph: z.object({
+    nodes: z.array(z.object({
+      id: z.string(),
+      position: z.object({ x: z.number(), y: z.number() }),
+      data: z.record(z.unknown()),
+    }).passthrough()),
+    edges: z.array(z.object({ id: z.string(), source: z.string(), target: z.string() }).passthrough()),
+  }),
+  framing: z.record(z.unknown()).nullable(),
+  report: z.object({ schema: z.literal('report.v1') }).passthrough().nullable(),
+  drivers: z.array(z.object({ kind: z.enum(['node', 'edge']), id: z.string() })),
+  seed: z.number().optional(),
+  hash: z.string().optional(),
+})
+
+const FileSchema = z.object({
+  format: z.literal(FILE_FORMAT),
+  bundle: z.string(),
+})
+
+function base64UrlEncode(bytes: Uint8Array): string {
+  // Chunked so large bundles don't overflow the argument limit of fromCharCode
+  let binary = ''
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000))
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/g, '')
+}
+
+function base64UrlDecode(text: string): Uint8Array {
+  if (!/^[A-Za-z0-9_-]*$/.test(text)) throw new ShareBundleError('malformed')
+  const b64 = text.replace(/-/g, '+').replace(/_/g, '/')
+  const binary = atob(b64 + '='.repeat((4 - (b64.length % 4)) % 4))
+  const out = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) out[i] = binary.charCodeAt(i)
+  return out
+}
+
+function subtle(): SubtleCrypto {
+  if (typeof crypto === 'undefined' || !crypto.subtle) throw new ShareBundleError('unsupported')
+  return crypto.subtle
+}
+
+async function digest(header: string, body: string): Promise<string> {
+  const hash = await subtle().digest('SHA-256', new TextEncoder().encode(`${header}.${body}`))
+  return base64UrlEncode(new Uint8Array(hash))
+}
+
+async function deriveKey(passphrase: string, salt: BufferSource): Promise<CryptoKey> {
+  const material = await subtle().importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey'])
+  return subtle().deriveKey(
+    { name: 'PBKDF2', salt, iterations: PBKDF2_ITERATIONS, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  )
+}
+
+// Per-browser React Flow state that means nothing to a recipient
+const TRANSIENT_KEYS = new Set(['selected', 'dragging', 'measured', 'resizing'])
+
+const withoutTransient = <T extends object>(item: T): T =>
+  JSON.parse(JSON.stringify(Object.fromEntries(Object.entries(item).filter(([key]) => !TRANSIENT_KEYS.has(key)))))
+
+/** Snapshot what a recipient needs to see the analysis */
+export function collectShareBundle(state: {
+  nodes: Node[]
+  edges: Edge<EdgeData>[]
+  framing: ScenarioFraming | null
+  results: {
+    report?: ReportV1 | null
+    drivers?: Array<{ kind: 'node' | 'edge'; id: string }>
+    seed?: number
+    hash?: string
+  }
+  title?: string
+}): ShareBundleContent {
+  return {
+    title: state.title,
+    createdAt: new Date().toISOString(),
+    graph: { nodes: state.nodes.map(withoutTransient), edges: state.edges.map(withoutTransient) },
+    framing: state.framing,
+    report: state.results.report ?? null,
+    drivers: state.results.drivers ?? [],
+    seed: state.results.seed,
+    hash: state.results.hash,
+  }
+}
+
+export async function encodeShareBundle(content: ShareBundleContent, passphrase?: string): Promise<string> {
+  const packed = new Uint8Array(deflateRaw(new TextEncoder().encode(JSON.stringify(content))))
+  const encrypted = !!passphrase
+
+  let body: Uint8Array = packed
+  if (passphrase) {
+    const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES))
+    const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES))
+    const key = await deriveKey(passphrase, salt)
+    const sealed = new Uint8Array(await subtle().encrypt({ name: 'AES-GCM', iv }, key, packed))
+    body = new Uint8Array(SALT_BYTES + IV_BYTES + sealed.length)
+    body.set(salt, 0)
+    body.set(iv, SALT_BYTES)
+    body.set(sealed, SALT_BYTES + IV_BYTES)
+  }
+
+  const header = `${TOKEN_PREFIX}.${SHARE_BUNDLE_VERSION}.${encrypted ? 'e' : 'p'}`
+  const encodedBody = base64UrlEncode(body)
+  return `${header}.${await digest(header, encodedBody)}.${encodedBody}`
+}
+
+function splitToken(token: string) {
+  const parts = token.trim().split('.')
+  if (parts.length !== 5 || parts[0] !== TOKEN_PREFIX) throw new ShareBundleError('malformed')
+  const [, versionText, mode, hash, body] = parts
+  if (!/^\d+$/.test(versionText)) throw new ShareBundleError('malformed')
+  const version = Number(versionText)
+  // A newer layout may not even share this shape past the version, so stop here
+  if (version > SHARE_BUNDLE_VERSION) throw new ShareBundleError('too_new')
+  if (version < 1 || (mode !== 'p' && mode !== 'e')) throw new ShareBundleError('malformed')
+  return { header: `${parts[0]}.${versionText}.${mode}`, version, encrypted: mode === 'e', hash, body }
+}
+
+/** Version and encryption of a token, so the UI can ask for a passphrase first */
+export function readShareBundleHeader(token: string): ShareBundleHeader {
+  const { version, encrypted } = splitToken(token)
+  return { version, encrypted }
+}
+
+export async function decodeShareBundle(token: string, passphrase?: string): Promise<ShareBundleContent> {
+  const { header, encrypted, hash, body } = splitToken(token)
+  if ((await digest(header, body)) !== hash) throw new ShareBundleError('tampered')
+
+  let packed = base64UrlDecode(body)
+  if (encrypted) {
+    if (!passphrase) throw new ShareBundleError('passphrase_required')
+    if (packed.length <= SALT_BYTES + IV_BYTES) throw new ShareBundleError('malformed')
+    const key = await deriveKey(passphrase, packed.slice(0, SALT_BYTES))
+    try {
+      const iv = packed.slice(SALT_BYTES, SALT_BYTES + IV_BYTES)
+      packed = new Uint8Array(await subtle().decrypt({ name: 'AES-GCM', iv }, key, packed.slice(SALT_BYTES + IV_BYTES)))
+    } catch {
+      throw new ShareBundleError('wrong_passphrase')
+    }
+  }
+
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(new TextDecoder().decode(inflateRaw(packed)))
+  } catch {
+    throw new ShareBundleError('malformed')
+  }
+  const result = ContentSchema.safeParse(parsed)
+  if (!result.success) throw new ShareBundleError('malformed')
+  return result.data as unknown as ShareBundleContent
+}
+
+/** Link that opens the bundle in ShareView; throws `too_large` past the link budget */
+export function buildBundleLink(token: string, origin: string = window.location.origin): string {
+  if (token.length > MAX_BUNDLE_LINK_CHARS) throw new ShareBundleError('too_large')
+  return `${origin}/#/share?bundle=${token}`
+}
+
+/** `.olumi` file body: a small JSON wrapper so the file is recognisable on disk */
+export function serializeBundleFile(token: string): string {
+  const { version, encrypted } = readShareBundleHeader(token)
+  return JSON.stringify({ format: FILE_FORMAT, version, encrypted, bundle: token }, null, 2)
+}
+
+/** Token from a `.olumi` file (or a bare token pasted into one) */
+export function parseBundleFile(text: string): string {
+  const trimmed = text.trim()
+  if (trimmed.startsWith(`${TOKEN_PREFIX}.`)) return trimmed
+  try {
+    const result = FileSchema.safeParse(JSON.parse(trimmed))
+    if (result.success) return result.data.bundle
+  } catch {
+    // fall through
+  }
+  throw new ShareBundleError('malformed')
+}
@@ -6,14 +6,15 @@
 export interface Document {
   id: string
   name: string
-  type: 'pdf' | 'txt' | 'md' | 'csv' | 'url'
-  content?: string // Text only, truncated to 5k chars max
+  type: 'pdf' | 'docx' | 'txt' | 'md' | 'csv' | 'url'
+  content?: string // Preview: the first 5k chars (full text is chunked in the document index)
   url?: string // For URL references
   uploadedAt: Date
   size?: number // Original file size in bytes
-  displayBytes?: number // Stored content size (post-truncation)
-  truncated?: boolean // True if content was truncated
-  checksum?: string // FNV-1a hash of original content for integrity checks
+  displayBytes?: number // Stored text size (post-cap)
+  truncated?: boolean // True if the text hit the per-document cap
+  checksum?: string // FNV-1a hash of the extracted text; re-uploads with the same hash are deduped
+  chunkCount?: number // Passages in the full-text index
   metadata?: {
     author?: string
     date?: string
@@ -21,13 +22,18 @@ export interface Document {
   }
 }
 
+export type CitationStance = 'supports' | 'contradicts'
+
 export interface Citation {
   id: string
-  nodeId: string
+  nodeId: string // For edge citations, the edge's target
   edgeId?: string
   documentId: string
   snippet: string
   charOffset?: number
+  charLength?: number // Length of the cited passage in the document text
+  stance?: CitationStance // Defaults to 'supports'
+  strength?: number // 0-1, how strongly the passage bears on the claim; feeds the suggested belief
   confidence?: number // 0-1
   createdAt: Date
 }
@@ -14,6 +14,7 @@
 import type { Node, Edge } from '@xyflow/react'
 import type { EdgeData } from '../domain/edges'
 import { sanitizeLabel } from '../persist'
+import { canvasStorage } from '../persist/storage'
 
 export interface SnapshotMeta {
   id: string
@@ -55,7 +56,7 @@ function generateSnapshotId(): string {
  */
 export function listSnapshots(): Snapshot[] {
   try {
-    const json = localStorage.getItem(STORAGE_KEY)
+    const json = canvasStorage.getItem(STORAGE_KEY)
     if (!json) return []
 
     const snapshots = JSON.parse(json)
@@ -125,7 +126,7 @@ export function saveSnapshot(
     }
 
     // Save to localStorage
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(snapshots))
+    canvasStorage.setItem(STORAGE_KEY, JSON.stringify(snapshots))
 
     if (import.meta.env.DEV) {
       console.log(`[Snapshots] Saved "${snapshot.meta.name}" (${snapshot.meta.id})`)
@@ -158,7 +159,7 @@ export function deleteSnapshot(id: string): boolean {
       return false
     }
 
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(filtered))
+    canvasStorage.setItem(STORAGE_KEY, JSON.stringify(filtered))
     if (import.meta.env.DEV) {
       console.log(`[Snapshots] Deleted snapshot: ${id}`)
     }
@@ -207,7 +208,7 @@ export function restoreSnapshot(id: string): {
  */
 export function clearAllSnapshots(): void {
   try {
-    localStorage.removeItem(STORAGE_KEY)
+    canvasStorage.removeItem(STORAGE_KEY)
     if (import.meta.env.DEV) {
       console.log('[Snapshots] Cleared all snapshots')
     }
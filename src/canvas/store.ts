@@ -9,16 +9,26 @@ import { applyLayout, applyLayoutWithPolicy } from './layout'
 import { mergePolicy } from './layout/policy'
 import { policyToPreset, policyToSpacing } from './layout/adapters'
 import { getInvalidNodes as getInvalidNodesUtil, getNextInvalidNode as getNextInvalidNodeUtil, type InvalidNodeInfo } from './utils/validateOutgoing'
-import type { ReportV1, ErrorV1 } from '../adapters/plot/types'
+import type { ReportV1, ErrorV1, InterimResultV1 } from '../adapters/plot/types'
 import { trackResultsViewed, trackIssuesOpened } from './utils/sandboxTelemetry'
 import { addRun, generateGraphHash, type StoredRun } from './store/runHistory'
 import * as scenarios from './store/scenarios'
-import type { Scenario, ScenarioFraming } from './store/scenarios'
+import { forkVersionHistory, deleteVersionHistory } from './versions/versionGraph'
+import { adoptDraftRecords, copyScenarioRecords, deleteScenarioRecords, discardDraftRecords } from './store/scenarioRecords'
+import { withAuditCause } from './audit/trail'
+// Stores whose records are kept with the scenario; loaded here so draft, copy and delete reach them
+import './comments/threads'
+import './presenter/session'
+import './biasTasks/tasks'
+import './premortem/session'
+import type { Scenario, ScenarioFraming, DecisionCriterion } from './store/scenarios'
 import type { GraphHealth, ValidationIssue, NeedleMover } from './validation/types'
 import type { Document, Citation } from './share/types'
 import type { Snapshot, DecisionRationale, ComparisonResult } from './snapshots/types'
 import type { CeeDecisionReviewPayload, CeeTraceMeta, CeeErrorViewModel } from './decisionReview/types'
 import type { CeeDebugHeaders } from './utils/ceeDebugHeaders'
+import { useDocumentTextStore } from './documents/textStore'
+import { DOCUMENT_TOO_LARGE_MESSAGE, MAX_DOCUMENT_BYTES } from './documents/extract'
 import { loadSearchQuery, loadSortPreferences, saveSearchQuery, saveSortPreferences, __test__ as docsTest } from './store/documents'
 import { loadUIPreferences, saveUIPreference } from './store/uiPreferences'
 
@@ -37,7 +47,7 @@ function generateContentHash(content: string): string {
 }
 
 // Results panel state machine
-export type ResultsStatus = 'idle' | 'preparing' | 'connecting' | 'streaming' | 'complete' | 'error' | 'cancelled'
+export type ResultsStatus = 'idle' | 'preparing' | 'connecting' | 'streaming' | 'complete' | 'error' | 'cancelled' | 'queued'
 
 export interface ResultsState {
   status: ResultsStatus
@@ -52,6 +62,10 @@ export interface ResultsState {
   startedAt?: number
   finishedAt?: number
   drivers?: Array<{ kind: 'node' | 'edge'; id: string }>
+  queuedRunId?: string          // Set while the run waits in the offline queue
+  fromCache?: boolean           // Report served from the local result cache (no engine call)
+  interim?: InterimResultV1 | null  // Running estimate while streaming; cleared on complete
+  stoppedEarly?: boolean        // User stopped the run and kept the interim estimate (partial)
 }
 
 export type SseDiagnostics = {
@@ -61,6 +75,19 @@ export type SseDiagnostics = {
   correlation_id: string
 }
 
+/**
+ * Live co-editing session (see collab/binding): per-user undo and
+ * collision-free ids while several people edit the same graph
+ */
+export interface CollabSession {
+  /** Letters-only suffix for new node/edge ids */
+  clientTag: string
+  undo: () => void
+  redo: () => void
+  canUndo: () => boolean
+  canRedo: () => boolean
+}
+
 export type RunMetaState = {
   diagnostics?: SseDiagnostics
   correlationIdHeader?: string
@@ -164,6 +191,7 @@ interface CanvasState {
   pendingFitView: boolean
   setPendingFitView: (value: boolean) => void
   updateScenarioFraming: (partial: ScenarioFraming) => void
+  setCriterion: (nodeId: string, criterion: Omit<DecisionCriterion, 'nodeId'> | null) => void
   addNode: (pos?: { x: number; y: number }, type?: NodeType) => void
   updateNodeLabel: (id: string, label: string) => void
   updateNode: (id: string, updates: Partial<Node>) => void
@@ -181,6 +209,7 @@ interface CanvasState {
   redo: () => void
   canUndo: () => boolean
   canRedo: () => boolean
+  setCollabSession: (session: CollabSession | null) => void
   deleteSelected: () => void
   duplicateSelected: () => void
   copySelected: () => void
@@ -218,9 +247,13 @@ interface CanvasState {
     ceeReview?: CeeDecisionReviewPayload | null
     ceeTrace?: CeeTraceMeta | null
     ceeError?: CeeErrorViewModel | null
+    fromCache?: boolean
   }) => void
   resultsError: (params: { code: string; message: string; retryAfter?: number; request_id?: string }) => void
   resultsCancelled: () => void
+  resultsInterim: (interim: InterimResultV1) => void
+  resultsStoppedEarly: () => void
+  resultsQueued: (params: { queuedRunId: string }) => void
   resultsReset: () => void
   resultsLoadHistorical: (run: StoredRun) => void
   setRunMeta: (meta: RunMetaState) => void
@@ -253,7 +286,8 @@ interface CanvasState {
   renameDocument: (id: string, newName: string) => void  // S7-FILEOPS
   setDocumentSearchQuery: (query: string) => void  // S7-FILEOPS
   setDocumentSort: (field: 'name' | 'date' | 'size' | 'type', direction: 'asc' | 'desc') => void  // S7-FILEOPS
-  addCitation: (citation: Omit<Citation, 'id' | 'createdAt'>) => void
+  addCitation: (citation: Omit<Citation, 'id' | 'createdAt'>) => string
+  removeCitation: (id: string) => void
   setShowProvenanceHub: (show: boolean) => void
   setShowDocumentsDrawer: (show: boolean) => void
   toggleProvenanceRedaction: () => void
@@ -267,6 +301,7 @@ interface CanvasState {
   exitComparisonMode: () => void
   // P2: Hydration hygiene
   hydrateGraphSlice: (loaded: { nodes?: Node[]; edges?: Edge<EdgeData>[]; currentScenarioId?: string | null }) => void
+  restoreGraph: (graph: { nodes: Node[]; edges: Edge[] }) => void  // Replace the graph as one undoable edit
   // Week 3: AI Clarifier actions
   setShowAIClarifier: (show: boolean) => void
   startClarifierSession: (prompt: string, context: string) => void
@@ -278,6 +313,7 @@ interface CanvasState {
 
 let historyTimer: ReturnType<typeof setTimeout> | null = null
 let nudgeTimer: ReturnType<typeof setTimeout> | null = null
+let collabSession: CollabSession | null = null
 const MAX_HISTORY = 50
 export const HISTORY_DEBOUNCE_MS = 200
 
@@ -495,13 +531,13 @@ export const useCanvasStore = create<CanvasState>((originalSet, get) => {
   createNodeId: () => {
     const { nextNodeId } = get()
     set({ nextNodeId: nextNodeId + 1 })
-    return String(nextNodeId)
+    return collabSession ? `${nextNodeId}-${collabSession.clientTag}` : String(nextNodeId)
   },
 
   createEdgeId: () => {
     const { nextEdgeId } = get()
     set({ nextEdgeId: nextEdgeId + 1 })
-    return `e${nextEdgeId}`
+    return collabSession ? `e${nextEdgeId}-${collabSession.clientTag}` : `e${nextEdgeId}`
   },
 
   reseedIds: (nodes, edges) => {
@@ -787,31 +823,38 @@ export const useCanvasStore = create<CanvasState>((originalSet, get) => {
   },
 
   undo: () => {
+    // Co-editing: snapshot undo would also revert collaborators' edits
+    if (collabSession) return withAuditCause('undo', () => collabSession?.undo())
     const { history, nodes, edges } = get()
     if (history.past.length === 0) return
     const prev = history.past[history.past.length - 1]
     const past = history.past.slice(0, -1)
     const future = [{ nodes, edges }, ...history.future]
-    set({ nodes: prev.nodes, edges: prev.edges, history: { past, future } })
+    withAuditCause('undo', () => set({ nodes: prev.nodes, edges: prev.edges, history: { past, future } }))
     // Reset hash after undo
     const { nodes: newNodes, edges: newEdges } = get()
     set(() => ({ _internal: { lastHistoryHash: historyHash(newNodes, newEdges) } }))
   },
 
   redo: () => {
+    if (collabSession) return withAuditCause('redo', () => collabSession?.redo())
     const { history, nodes, edges } = get()
     if (history.future.length === 0) return
     const next = history.future[0]
     const past = [...history.past, { nodes, edges }]
     const future = history.future.slice(1)
-    set({ nodes: next.nodes, edges: next.edges, history: { past, future } })
+    withAuditCause('redo', () => set({ nodes: next.nodes, edges: next.edges, history: { past, future } }))
     // Reset hash after redo
     const { nodes: newNodes, edges: newEdges } = get()
     set(() => ({ _internal: { lastHistoryHash: historyHash(newNodes, newEdges) } }))
   },
 
-  canUndo: () => get().history.past.length > 0,
-  canRedo: () => get().history.future.length > 0,
+  canUndo: () => (collabSession ? collabSession.canUndo() : get().history.past.length > 0),
+  canRedo: () => (collabSession ? collabSession.canRedo() : get().history.future.length > 0),
+
+  setCollabSession: (session) => {
+    collabSession = session
+  },
 
   deleteSelected: () => {
     pushToHistory(get, set)
@@ -994,13 +1037,13 @@ export const useCanvasStore = create<CanvasState>((originalSet, get) => {
     // Reseed IDs to avoid collisions
     get().reseedIds(imported.nodes, imported.edges)
     
-    set({
+    withAuditCause('import', () => set({
       nodes: imported.nodes,
       edges: imported.edges,
       history: { past: [], future: [] },
       selection: { nodeIds: new Set(), edgeIds: new Set(), anchorPosition: null },
       showDraftChat: false,
-    })
+    }))
     
     return true
   },
@@ -1244,7 +1287,7 @@ export const useCanvasStore = create<CanvasState>((originalSet, get) => {
 
   reset: () => {
     clearTimers()
-    set({
+    withAuditCause('load', () => set({
       nodes: initialNodes,
       edges: initialEdges,
       history: { past: [], future: [] },
@@ -1254,7 +1297,7 @@ export const useCanvasStore = create<CanvasState>((originalSet, get) => {
       _internal: { lastHistoryHash: historyHash(initialNodes, initialEdges) },
       hasCompletedFirstRun: false,
       showDraftChat: false,
-    })
+    }))
   },
 
   setOutcomeNode: (nodeId) => {
@@ -1280,7 +1323,11 @@ export const useCanvasStore = create<CanvasState>((originalSet, get) => {
         drivers: prevResults.drivers,
         runId: undefined,
         finishedAt: undefined,
-        isDuplicateRun: undefined
+        isDuplicateRun: undefined,
+        queuedRunId: undefined,
+        fromCache: undefined,
+        interim: null,
+        stoppedEarly: undefined
       }
     })
   },
@@ -1307,7 +1354,7 @@ export const useCanvasStore = create<CanvasState>((originalSet, get) => {
     }))
   },
 
-  resultsComplete: ({ report, hash, drivers, ceeReview, ceeTrace, ceeError }) => {
+  resultsComplete: ({ report, hash, drivers, ceeReview, ceeTrace, ceeError, fromCache }) => {
     const { nodes, edges, results, currentScenarioId } = get()
 
     const finishedAt = Date.now()
@@ -1325,6 +1372,8 @@ export const useCanvasStore = create<CanvasState>((originalSet, get) => {
         hash,
         drivers,
         finishedAt,
+        fromCache,
+        interim: null,
         error: undefined
       },
       graphHealth: (() => {
@@ -1416,6 +1465,47 @@ export const useCanvasStore = create<CanvasState>((originalSet, get) => {
     }))
   },
 
+  // Interim bands from the stream; progress follows samples when the target is known.
+  // Late events after a stop are dropped so the kept estimate does not move.
+  resultsInterim: (interim) => {
+    set(s => s.results.status === 'cancelled' ? {} : ({
+      results: {
+        ...s.results,
+        status: 'streaming',
+        interim,
+        progress: interim.target_samples
+          ? Math.max(s.results.progress, Math.min(90, Math.round((interim.samples / interim.target_samples) * 90)))
+          : s.results.progress
+      }
+    }))
+  },
+
+  // Stop early: cancelled, but the interim estimate stays on screen marked partial
+  resultsStoppedEarly: () => {
+    set(s => ({
+      results: {
+        ...s.results,
+        status: 'cancelled',
+        stoppedEarly: Boolean(s.results.interim),
+        finishedAt: Date.now()
+      }
+    }))
+  },
+
+  // Engine unreachable: the request is parked in the offline queue and will
+  // be replayed into run history when the engine is healthy again
+  resultsQueued: ({ queuedRunId }) => {
+    set(s => ({
+      results: {
+        ...s.results,
+        status: 'queued',
+        error: undefined,
+        queuedRunId,
+        finishedAt: Date.now()
+      }
+    }))
+  },
+
   resultsLoadHistorical: (run: StoredRun) => {
     if (typeof window !== 'undefined') {
       try {
@@ -1511,7 +1601,10 @@ export const useCanvasStore = create<CanvasState>((originalSet, get) => {
     // Reseed IDs to avoid conflicts
     get().reseedIds(nodes, edges)
 
-    set({
+    // Leaving the unsaved canvas without saving it
+    if (get().currentScenarioId === null) discardDraftRecords()
+
+    withAuditCause('load', () => set({
       nodes,
       edges,
       currentScenarioId: id,
@@ -1532,7 +1625,7 @@ export const useCanvasStore = create<CanvasState>((originalSet, get) => {
         comparison: null,
         apiResponse: null,
       },
-    })
+    }))
 
     scenarios.setCurrentScenarioId(id)
     return true
@@ -1556,7 +1649,7 @@ export const useCanvasStore = create<CanvasState>((originalSet, get) => {
       if (currentScenarioId) {
         // Update existing scenario
         scenarios.updateScenario(currentScenarioId, {
-          name,
+          ...(name ? { name } : {}),
           graph: { nodes, edges },
           framing: currentScenarioFraming || undefined,
           last_result_hash: currentScenarioLastResultHash || undefined,
@@ -1586,6 +1679,8 @@ export const useCanvasStore = create<CanvasState>((originalSet, get) => {
           last_run_at: currentScenarioLastRunAt || undefined,
           last_run_seed: currentScenarioLastRunSeed || undefined,
         })
+        // Discussion and history from the unsaved canvas belong to the new scenario
+        adoptDraftRecords(scenario.id)
 
         set({
           currentScenarioId: scenario.id,
@@ -1603,7 +1698,7 @@ export const useCanvasStore = create<CanvasState>((originalSet, get) => {
   },
 
   createScenarioFromTemplate: ({ templateId, templateVersion, name }) => {
-    const { nodes, edges } = get()
+    const { nodes, edges, currentScenarioId } = get()
 
     const scenario = scenarios.createScenario({
       name,
@@ -1612,6 +1707,7 @@ export const useCanvasStore = create<CanvasState>((originalSet, get) => {
       source_template_id: templateId,
       source_template_version: templateVersion
     })
+    if (currentScenarioId === null) adoptDraftRecords(scenario.id)
 
     set({
       currentScenarioId: scenario.id,
@@ -1632,6 +1728,13 @@ export const useCanvasStore = create<CanvasState>((originalSet, get) => {
     const duplicate = scenarios.duplicateScenario(currentScenarioId, newName)
     if (!duplicate) return null
 
+    // Keep the version history so the copy can be compared and merged back
+    forkVersionHistory(currentScenarioId, duplicate.id).catch(error => {
+      console.error('[Canvas] Failed to copy version history:', error)
+    })
+    // Threads anchor by node/edge id, which the copy keeps
+    copyScenarioRecords(currentScenarioId, duplicate.id)
+
     // Load the duplicate
     get().loadScenario(duplicate.id)
     return duplicate.id
@@ -1651,6 +1754,10 @@ export const useCanvasStore = create<CanvasState>((originalSet, get) => {
     const { currentScenarioId } = get()
 
     scenarios.deleteScenario(id)
+    deleteVersionHistory(id).catch(error => {
+      console.error('[Canvas] Failed to delete version history:', error)
+    })
+    deleteScenarioRecords(id)
 
     // If we deleted the current scenario, clear the current ID
     if (currentScenarioId === id) {
@@ -1771,7 +1878,7 @@ export const useCanvasStore = create<CanvasState>((originalSet, get) => {
       },
     }))
 
-    set({ nodes: repairedNodes, edges: typedEdges })
+    withAuditCause('repair', () => set({ nodes: repairedNodes, edges: typedEdges }))
 
     // Re-validate after repair
     get().validateGraph()
@@ -1798,7 +1905,7 @@ export const useCanvasStore = create<CanvasState>((originalSet, get) => {
       },
     }))
 
-    set({ nodes: repairedNodes, edges: typedEdges })
+    withAuditCause('repair', () => set({ nodes: repairedNodes, edges: typedEdges }))
 
     // Re-validate after repairs
     get().validateGraph()
@@ -1815,55 +1922,59 @@ export const useCanvasStore = create<CanvasState>((originalSet, get) => {
 
   // M5: Provenance actions
   addDocument: (document) => {
-    // P0: Document memory guard - reject files >1MB
-    const MAX_FILE_SIZE = 1 * 1024 * 1024 // 1MB
-    const MAX_CHAR_PER_FILE = 5000 // 5k chars
-    const MAX_TOTAL_CHARS = 25000 // 25k total
-
-    if (document.size && document.size > MAX_FILE_SIZE) {
-      throw new Error('This file is too large for in-app preview. Please reduce its size.')
+    // P0: Document memory guard. The full text is indexed in passages; the
+    // document itself only carries a preview.
+    const MAX_CHARS_PER_DOCUMENT = 1_000_000 // Hard cap: ~400 pages
+    const MAX_TOTAL_CHARS = 5_000_000
+    const PREVIEW_CHARS = 5000
+
+    if (document.size && document.size > MAX_DOCUMENT_BYTES) {
+      throw new Error(DOCUMENT_TOO_LARGE_MESSAGE)
     }
 
-    // Calculate current total stored chars
+    // Re-uploading the same text returns the existing document
     const { documents } = get()
+    const checksum = document.content
+      ? generateContentHash(document.content)
+      : undefined
+    const existing = checksum ? documents.find(d => d.checksum === checksum) : undefined
+    if (existing) return existing.id
+
+    // Calculate current total stored chars
     const currentTotal = documents.reduce((sum, doc) =>
       sum + (doc.displayBytes || 0), 0)
 
-    // Truncate content if needed
-    let content = document.content || ''
-    let truncated = false
-    if (content.length > MAX_CHAR_PER_FILE) {
-      content = content.slice(0, MAX_CHAR_PER_FILE) + '…'
-      truncated = true
+    let text = document.content || ''
+    const truncated = text.length > MAX_CHARS_PER_DOCUMENT
+    if (truncated) {
+      text = text.slice(0, MAX_CHARS_PER_DOCUMENT)
     }
 
-    const displayBytes = content.length
+    const displayBytes = text.length
 
     // Check total cap
     if (currentTotal + displayBytes > MAX_TOTAL_CHARS) {
       throw new Error(`Document storage limit reached (${MAX_TOTAL_CHARS} chars). Remove existing documents to add new ones.`)
     }
 
-    // Generate checksum for integrity (FNV-1a hash)
-    const checksum = document.content
-      ? generateContentHash(document.content)
-      : undefined
-
     const id = crypto.randomUUID()
+    const chunkCount = useDocumentTextStore.getState().indexDocument(id, text)
     const newDoc: Document = {
       ...document,
       id,
-      content, // Truncated text only
+      content: text.slice(0, PREVIEW_CHARS),
       uploadedAt: new Date(),
       displayBytes,
       truncated,
-      checksum
+      checksum,
+      chunkCount
     }
     set(s => ({ documents: [...s.documents, newDoc] }))
     return id
   },
 
   removeDocument: (id) => {
+    useDocumentTextStore.getState().removeDocument(id)
     set(s => ({
       documents: s.documents.filter(d => d.id !== id),
       citations: s.citations.filter(c => c.documentId !== id)
@@ -1913,6 +2024,11 @@ export const useCanvasStore = create<CanvasState>((originalSet, get) => {
       createdAt: new Date()
     }
     set(s => ({ citations: [...s.citations, newCitation] }))
+    return id
+  },
+
+  removeCitation: (id) => {
+    set(s => ({ citations: s.citations.filter(c => c.id !== id) }))
   },
 
   setShowProvenanceHub: (show: boolean) => {
@@ -2197,14 +2313,14 @@ export const useCanvasStore = create<CanvasState>((originalSet, get) => {
         }
       }).filter(Boolean) as typeof existingEdges
 
-      set({
+      withAuditCause('clarifier', () => set({
         nodes: [...existingNodes, ...finalNodes],
         edges: [...existingEdges, ...finalEdges],
         clarifierPreviewNodeIds: [],
         clarifierPreviewEdgeIds: [],
         clarifierSession: null,
         showAIClarifier: false,
-      })
+      }))
 
       // Auto-layout to arrange nodes in proper flow (goal → decision → outcomes)
       get().applyLayout()
@@ -2270,7 +2386,7 @@ export const useCanvasStore = create<CanvasState>((originalSet, get) => {
     }
 
     // Apply updates without clobbering panels/results/other slices
-    set(updates)
+    withAuditCause('load', () => set(updates))
 
     // Reseed IDs to prevent collisions
     if (loaded.nodes && loaded.edges) {
@@ -2278,6 +2394,27 @@ export const useCanvasStore = create<CanvasState>((originalSet, get) => {
     }
   },
 
+  // Versions: checkout/merge replace the whole graph but stay undoable
+  restoreGraph: ({ nodes, edges: rawEdges }) => {
+    pushToHistory(get, set)
+
+    const edges: Edge<EdgeData>[] = rawEdges.map((edge) => ({
+      ...edge,
+      data: {
+        ...DEFAULT_EDGE_DATA,
+        ...(edge.data as Partial<EdgeData> | undefined ?? {}),
+      },
+    }))
+
+    withAuditCause('restore', () => set({
+      nodes,
+      edges,
+      isDirty: true,
+      selection: { nodeIds: new Set(), edgeIds: new Set(), anchorPosition: null },
+    }))
+    get().reseedIds(nodes, edges)
+  },
+
   cleanup: clearTimers,
 
   updateScenarioFraming: (partial) => {
@@ -2288,6 +2425,21 @@ export const useCanvasStore = create<CanvasState>((originalSet, get) => {
       },
       isDirty: true,
     }))
+  },
+
+  // Add, update (null removes) one weighted objective; stored on the framing
+  // so the weights persist with the scenario
+  setCriterion: (nodeId, criterion) => {
+    set(s => {
+      const others = (s.currentScenarioFraming?.criteria ?? []).filter(c => c.nodeId !== nodeId)
+      return {
+        currentScenarioFraming: {
+          ...(s.currentScenarioFraming ?? {}),
+          criteria: criterion ? [...others, { nodeId, ...criterion }] : others,
+        },
+        isDirty: true,
+      }
+    })
   }
 }})
 
@@ -2347,3 +2499,10 @@ export const selectError = (state: CanvasState): { code: string; message: string
 export const selectRunId = (state: CanvasState): string | undefined => state.results.runId
 export const selectSeed = (state: CanvasState): number | undefined => state.results.seed
 export const selectHash = (state: CanvasState): string | undefined => state.results.hash
+export const selectFromCache = (state: CanvasState): boolean => state.results.fromCache === true
+export const selectInterim = (state: CanvasState): InterimResultV1 | null | undefined => state.results.interim
+export const selectStoppedEarly = (state: CanvasState): boolean => state.results.stoppedEarly === true
+
+const NO_CRITERIA: DecisionCriterion[] = []
+export const selectCriteria = (state: CanvasState): DecisionCriterion[] =>
+  state.currentScenarioFraming?.criteria ?? NO_CRITERIA
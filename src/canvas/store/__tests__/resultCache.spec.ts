@@ -0,0 +1,105 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import {
+  buildCacheKey,
+  getCachedResult,
+  putCachedResult,
+  invalidateOnEngineVersion,
+  resolveEngineVersion,
+  MAX_CACHE_ENTRIES,
+  MAX_CACHE_AGE_MS,
+  type CacheKeyParts,
+} from '../resultCache'
+import { idbClear, idbGetAll } from '../../persist/idb'
+import { LOCAL_ENGINE_VERSION } from '../../../adapters/plot/local/engine'
+import type { ReportV1 } from '../../../adapters/plot/types'
+
+/**
+ * Result cache: keying, bounds and engine-version invalidation
+ */
+
+const report = (hash: string) => ({
+  schema: 'report.v1',
+  meta: { seed: 7, response_id: 'r', elapsed_ms: 0 },
+  model_card: { response_hash: hash, response_hash_algo: 'sha256', normalized: true },
+  results: { conservative: 0.2, likely: 0.5, optimistic: 0.8 },
+  confidence: { level: 'medium', why: 'test' },
+  drivers: [],
+}) as unknown as ReportV1
+
+const parts = (clientHash: string, overrides: Partial<CacheKeyParts> = {}): CacheKeyParts => ({
+  adapter: 'local',
+  engineVersion: LOCAL_ENGINE_VERSION,
+  templateId: 'canvas-graph',
+  clientHash,
+  ...overrides,
+})
+
+describe('resultCache', () => {
+  beforeEach(async () => {
+    await idbClear('result-cache')
+    await idbClear('meta')
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('returns a stored report for the same key only', async () => {
+    await putCachedResult(parts('abc'), report('h-1'))
+
+    const hit = await getCachedResult(buildCacheKey(parts('abc')))
+    expect(hit?.report.model_card.response_hash).toBe('h-1')
+
+    expect(await getCachedResult(buildCacheKey(parts('abd')))).toBeUndefined()
+    expect(await getCachedResult(buildCacheKey(parts('abc', { adapter: 'httpv1' })))).toBeUndefined()
+    expect(await getCachedResult(buildCacheKey(parts('abc', { outcomeNode: 'revenue' })))).toBeUndefined()
+  })
+
+  it('never caches when the engine version is unknown', async () => {
+    await putCachedResult(parts('abc', { engineVersion: 'unknown' }), report('h-1'))
+
+    expect(await idbGetAll('result-cache')).toHaveLength(0)
+    expect(await resolveEngineVersion('mock')).toBe('unknown')
+    expect(await resolveEngineVersion('local')).toBe(LOCAL_ENGINE_VERSION)
+  })
+
+  it('expires entries older than the maximum age', async () => {
+    vi.useFakeTimers()
+    vi.setSystemTime(new Date('2025-01-01T00:00:00Z'))
+    await putCachedResult(parts('abc'), report('h-1'))
+
+    vi.setSystemTime(Date.now() + MAX_CACHE_AGE_MS + 1)
+    expect(await getCachedResult(buildCacheKey(parts('abc')))).toBeUndefined()
+    expect(await idbGetAll('result-cache')).toHaveLength(0)
+  })
+
+  it('evicts the least recently used entries beyond the entry limit', async () => {
+    vi.useFakeTimers()
+    vi.setSystemTime(new Date('2025-01-01T00:00:00Z'))
+    for (let i = 0; i < MAX_CACHE_ENTRIES; i += 1) {
+      await putCachedResult(parts(`g-${i}`), report(`h-${i}`))
+      vi.advanceTimersByTime(1000)
+    }
+
+    // Touch the oldest so g-1 becomes the least recently used
+    expect(await getCachedResult(buildCacheKey(parts('g-0')))).toBeDefined()
+    vi.advanceTimersByTime(1000)
+    await putCachedResult(parts('g-new'), report('h-new'))
+
+    expect(await idbGetAll('result-cache')).toHaveLength(MAX_CACHE_ENTRIES)
+    expect(await getCachedResult(buildCacheKey(parts('g-0')))).toBeDefined()
+    expect(await getCachedResult(buildCacheKey(parts('g-1')))).toBeUndefined()
+  })
+
+  it('purges an adapter’s entries when its engine version changes', async () => {
+    await invalidateOnEngineVersion('httpv1', '1.0.0')
+    await putCachedResult(parts('abc', { adapter: 'httpv1', engineVersion: '1.0.0' }), report('h-1'))
+    await putCachedResult(parts('abc'), report('h-local'))
+
+    expect(await invalidateOnEngineVersion('httpv1', '1.0.0')).toBe(0)
+    expect(await invalidateOnEngineVersion('httpv1', '1.1.0')).toBe(1)
+
+    expect(await getCachedResult(buildCacheKey(parts('abc', { adapter: 'httpv1', engineVersion: '1.0.0' })))).toBeUndefined()
+    expect(await getCachedResult(buildCacheKey(parts('abc')))).toBeDefined()
+  })
+})
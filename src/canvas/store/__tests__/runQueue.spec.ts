@@ -0,0 +1,113 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import type { Node, Edge } from '@xyflow/react'
+import { enqueueRun, loadQueuedRuns, replayQueuedRuns, isOfflineError } from '../runQueue'
+import { loadRuns } from '../runHistory'
+import { idbClear } from '../../persist/idb'
+import type { RunRequest, ReportV1 } from '../../../adapters/plot/types'
+
+/**
+ * Offline run queue: enqueue, replay and failure handling
+ */
+
+const graph = {
+  nodes: [{ id: 'a', position: { x: 0, y: 0 }, data: { label: 'A' } }] as Node[],
+  edges: [] as Edge[],
+}
+
+const request: RunRequest = { template_id: 'canvas-graph', seed: 7, idempotencyKey: 'k-1' }
+
+const report = (hash: string) => ({
+  schema: 'report.v1',
+  meta: { seed: 7, response_id: 'r', elapsed_ms: 0 },
+  model_card: { response_hash: hash, response_hash_algo: 'sha256', normalized: true },
+  results: { conservative: 0.2, likely: 0.5, optimistic: 0.8 },
+  confidence: { level: 'medium', why: 'test' },
+  drivers: [],
+}) as unknown as ReportV1
+
+const offline = { schema: 'error.v1', code: 'NETWORK_ERROR', error: 'Failed to fetch' }
+
+describe('runQueue', () => {
+  beforeEach(async () => {
+    await idbClear('run-queue')
+    window.localStorage.clear()
+  })
+
+  it('classifies unreachable-engine errors as offline', () => {
+    expect(isOfflineError(offline)).toBe(true)
+    expect(isOfflineError({ name: 'BackendUnavailableError' })).toBe(true)
+    expect(isOfflineError({ code: 'BAD_INPUT' })).toBe(false)
+    expect(isOfflineError(null)).toBe(false)
+  })
+
+  it('stores a graph snapshot and drops the single-use idempotency key', async () => {
+    const queued = await enqueueRun({ request, graph, scenarioId: 's-1' })
+    graph.nodes[0].data.label = 'Mutated after queueing'
+
+    const [entry] = await loadQueuedRuns()
+    expect(entry.id).toBe(queued.id)
+    expect(entry.status).toBe('queued')
+    expect(entry.request.idempotencyKey).toBeUndefined()
+    expect(entry.graph.nodes[0].data.label).toBe('A')
+
+    graph.nodes[0].data.label = 'A'
+  })
+
+  it('replays into run history with queued and ran timestamps', async () => {
+    const queued = await enqueueRun({ request, graph })
+    const runAnalysis = vi.fn().mockResolvedValue(report('abc123'))
+
+    const summary = await replayQueuedRuns({ isEngineAvailable: async () => true, runAnalysis })
+
+    expect(runAnalysis).toHaveBeenCalledWith(expect.objectContaining({ seed: 7 }))
+    expect(summary.replayed).toHaveLength(1)
+    expect(summary.remaining).toBe(0)
+    expect(await loadQueuedRuns()).toEqual([])
+
+    const [run] = loadRuns()
+    expect(run.hash).toBe('abc123')
+    expect(run.queuedAt).toBe(queued.queuedAt)
+    expect(run.ranAt).toBeGreaterThanOrEqual(queued.queuedAt)
+  })
+
+  it('does nothing while the engine is unavailable', async () => {
+    await enqueueRun({ request, graph })
+    const runAnalysis = vi.fn()
+
+    const summary = await replayQueuedRuns({ isEngineAvailable: async () => false, runAnalysis })
+
+    expect(runAnalysis).not.toHaveBeenCalled()
+    expect(summary.remaining).toBe(1)
+  })
+
+  it('stops at the first offline error and keeps the rest queued', async () => {
+    await enqueueRun({ request, graph })
+    await enqueueRun({ request, graph })
+    const runAnalysis = vi.fn().mockRejectedValue(offline)
+
+    const summary = await replayQueuedRuns({ isEngineAvailable: async () => true, runAnalysis })
+
+    expect(runAnalysis).toHaveBeenCalledTimes(1)
+    expect(summary.remaining).toBe(2)
+    const entries = await loadQueuedRuns()
+    expect(entries.map(e => e.status)).toEqual(['queued', 'queued'])
+    expect(entries[0].attempts).toBe(1)
+  })
+
+  it('marks requests the engine rejects as failed without blocking the queue', async () => {
+    await enqueueRun({ request, graph })
+    await new Promise(resolve => setTimeout(resolve, 2))
+    await enqueueRun({ request, graph })
+    const runAnalysis = vi.fn()
+      .mockRejectedValueOnce({ schema: 'error.v1', code: 'BAD_INPUT', error: 'Graph has a cycle' })
+      .mockResolvedValueOnce(report('def456'))
+
+    const summary = await replayQueuedRuns({ isEngineAvailable: async () => true, runAnalysis })
+
+    expect(summary.failed).toHaveLength(1)
+    expect(summary.replayed).toHaveLength(1)
+    const [failed] = await loadQueuedRuns()
+    expect(failed.status).toBe('failed')
+    expect(failed.lastError).toBe('Graph has a cycle')
+  })
+})
@@ -0,0 +1,116 @@
+/**
+ * Scenario records: batched writes onto the scenario, the draft scope, sync reloads
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { createScenario, getScenario, updateScenario } from '../scenarios'
+import {
+  RECORD_WRITE_DELAY_MS,
+  adoptDraftRecords,
+  discardDraftRecords,
+  draftScenarioId,
+  flushScenarioRecords,
+  reloadScenarioRecords,
+} from '../scenarioRecords'
+import { useCommentThreadsStore, type CommentThread } from '../../comments/threads'
+import { publicSession, usePremortemStore } from '../../premortem/session'
+
+const ada = { id: 'u1', name: 'Ada Lovelace' }
+const facilitator = { id: 'u1', name: 'Ada Lovelace', colour: '#2563eb' }
+
+const startThread = (scenarioId: string, text: string) =>
+  useCommentThreadsStore.getState().startThread({
+    scenarioId,
+    anchor: { kind: 'node', id: 'n1' },
+    label: 'Question',
+    author: ada,
+    text,
+  })!
+
+describe('scenario records', () => {
+  beforeEach(() => {
+    localStorage.clear()
+    vi.useFakeTimers()
+    useCommentThreadsStore.setState({ threads: [], readAt: {}, panel: null })
+    usePremortemStore.setState({ sessions: [], panelOpen: false })
+  })
+
+  afterEach(() => {
+    flushScenarioRecords()
+    vi.useRealTimers()
+  })
+
+  it('writes a burst of edits to the scenario once, after a short delay', () => {
+    const scenario = createScenario({ name: 'Pricing', nodes: [], edges: [] })
+    const thread = startThread(scenario.id, 'Why this price?')
+    useCommentThreadsStore.getState().reply(thread.id, { author: ada, text: 'Benchmarked' })
+    useCommentThreadsStore.getState().resolveThread(thread.id, ada)
+    expect(getScenario(scenario.id)?.comment_threads).toBeUndefined()
+
+    vi.advanceTimersByTime(RECORD_WRITE_DELAY_MS)
+    const saved = getScenario(scenario.id)!
+    expect(saved.comment_threads).toMatchObject([{ id: thread.id, status: 'resolved' }])
+    expect(saved.comment_threads![0].messages).toHaveLength(2)
+    expect(saved.field_updated_at?.comment_threads).toBeDefined()
+  })
+
+  it('keeps the draft on this device and only hands it to the scenario it is saved as', () => {
+    const draftId = draftScenarioId()
+    const draft = startThread(draftId, 'Draft question')
+    flushScenarioRecords()
+    expect(JSON.parse(localStorage.getItem('canvas-draft-records.v1')!)).toMatchObject({
+      id: draftId,
+      records: { comment_threads: [{ id: draft.id, scenarioId: draftId }] },
+    })
+
+    // Leaving the unsaved canvas drops its records; an unrelated save later doesn't pick them up
+    discardDraftRecords()
+    const unrelated = createScenario({ name: 'Hiring', nodes: [], edges: [] })
+    adoptDraftRecords(unrelated.id)
+    flushScenarioRecords()
+    expect(useCommentThreadsStore.getState().threads).toEqual([])
+    expect(getScenario(unrelated.id)?.comment_threads).toBeUndefined()
+    expect(draftScenarioId()).not.toBe(draftId)
+
+    const nextDraft = draftScenarioId()
+    const thread = startThread(nextDraft, 'Kept')
+    const saved = createScenario({ name: 'Pricing', nodes: [], edges: [] })
+    adoptDraftRecords(saved.id)
+    flushScenarioRecords()
+    expect(getScenario(saved.id)?.comment_threads).toMatchObject([{ id: thread.id, scenarioId: saved.id }])
+    expect(JSON.parse(localStorage.getItem('canvas-draft-records.v1')!).records).toEqual({})
+  })
+
+  it('reloads records that sync rewrote, dropping local writes still waiting for them', () => {
+    const scenario = createScenario({ name: 'Pricing', nodes: [], edges: [] })
+    const mine = startThread(scenario.id, 'Mine')
+    const theirs: CommentThread = { ...mine, id: 'thread_remote', messages: [{ ...mine.messages[0], text: 'Theirs' }] }
+
+    // What a sync pass would have written
+    updateScenario(scenario.id, { comment_threads: [theirs] })
+    reloadScenarioRecords([scenario.id])
+    flushScenarioRecords()
+
+    expect(useCommentThreadsStore.getState().threads.map(t => t.id)).toEqual(['thread_remote'])
+    expect(getScenario(scenario.id)?.comment_threads?.map(t => t.id)).toEqual(['thread_remote'])
+  })
+
+  it('never saves pre-mortem ballots, and keeps them in memory across reloads', () => {
+    const scenario = createScenario({ name: 'Pricing', nodes: [], edges: [] })
+    const store = usePremortemStore.getState()
+    const session = store.start({ scenarioId: scenario.id, facilitator })
+    store.contribute(session.id, 'Pricing was too high', null)
+    store.closeCollection(session.id)
+    const [cluster] = usePremortemStore.getState().sessions[0].clusters
+    store.toggleVote(session.id, cluster.id, 'p1')
+
+    flushScenarioRecords()
+    const [saved] = getScenario(scenario.id)!.premortem_sessions!
+    expect(saved).toEqual(publicSession(usePremortemStore.getState().sessions[0]))
+    expect(saved.ballots).toBeUndefined()
+    expect(saved.clusters[0].votes).toBe(1)
+
+    reloadScenarioRecords([scenario.id])
+    expect(usePremortemStore.getState().sessions[0].ballots).toEqual({ p1: [cluster.id] })
+  })
+})
@@ -0,0 +1,251 @@
+/**
+ * Scenario cloud sync: per-field merge, graph conflicts, offline edits, deletions
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import type { Node } from '@xyflow/react'
+import {
+  createScenario,
+  updateScenario,
+  deleteScenario,
+  getScenario,
+  loadScenarios,
+  type Scenario,
+} from '../scenarios'
+import {
+  createScenarioSync,
+  reconcileScenario,
+  graphHash,
+  useScenarioSyncStore,
+  type RemoteScenario,
+  type ScenarioRemote,
+} from '../scenarioSync'
+
+const node = (id: string, label = id): Node => ({ id, position: { x: 0, y: 0 }, data: { label } })
+
+/** In-memory stand-in for canvas_scenarios with the same revision check */
+function memoryRemote() {
+  const rows = new Map<string, RemoteScenario>()
+  const clone = <T,>(value: T): T => JSON.parse(JSON.stringify(value))
+  const remote: ScenarioRemote = {
+    async list() {
+      return [...rows.values()].map(clone)
+    },
+    async put(scenario, expectedRevision, deletedAt = null) {
+      const current = rows.get(scenario.id)
+      if (expectedRevision === null ? !!current : current?.revision !== expectedRevision) return null
+      const revision = (current?.revision ?? 0) + 1
+      rows.set(scenario.id, { scenario: clone(scenario), revision, deletedAt })
+      return revision
+    },
+  }
+  /** An edit made on another device */
+  const editElsewhere = (id: string, edit: (s: Scenario) => Partial<Scenario>, deletedAt: number | null = null) => {
+    const row = rows.get(id)!
+    const changes = edit(row.scenario)
+    const fieldUpdatedAt = { ...row.scenario.field_updated_at }
+    for (const field of Object.keys(changes)) (fieldUpdatedAt as Record<string, number>)[field] = Date.now()
+    rows.set(id, {
+      scenario: { ...row.scenario, ...changes, updatedAt: Date.now(), field_updated_at: fieldUpdatedAt },
+      revision: row.revision + 1,
+      deletedAt,
+    })
+  }
+  return { rows, remote, editElsewhere }
+}
+
+let now = 1_000_000
+const tick = () => vi.setSystemTime((now += 1000))
+
+function setOnline(online: boolean) {
+  Object.defineProperty(navigator, 'onLine', { configurable: true, get: () => online })
+}
+
+describe('scenario sync', () => {
+  beforeEach(() => {
+    localStorage.clear()
+    vi.useFakeTimers({ toFake: ['Date'] })
+    tick()
+    setOnline(true)
+    useScenarioSyncStore.setState({ status: 'off', conflicts: [], lastSyncedAt: null, error: null })
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+    localStorage.clear()
+  })
+
+  it('uploads local scenarios and downloads ones made elsewhere', async () => {
+    const { rows, remote } = memoryRemote()
+    const local = createScenario({ name: 'Pricing', nodes: [node('a')], edges: [] })
+    await remote.put({ ...local, id: 'remote-1', name: 'Hiring' }, null)
+
+    const onApplied = vi.fn()
+    await createScenarioSync(remote, { userId: 'u1', onApplied }).sync()
+
+    expect(rows.get(local.id)?.scenario.name).toBe('Pricing')
+    expect(getScenario('remote-1')?.name).toBe('Hiring')
+    expect(onApplied).toHaveBeenCalledWith(['remote-1'])
+    expect(useScenarioSyncStore.getState().status).toBe('synced')
+  })
+
+  it('merges fields edited on different devices, newest edit per field', async () => {
+    const { rows, remote, editElsewhere } = memoryRemote()
+    const local = createScenario({ name: 'Pricing', nodes: [node('a')], edges: [] })
+    const sync = createScenarioSync(remote, { userId: 'u1' })
+    await sync.sync()
+
+    tick()
+    editElsewhere(local.id, () => ({ name: 'Pricing 2025' }))
+    tick()
+    updateScenario(local.id, { framing: { title: 'Raise prices?' } })
+    await sync.sync()
+
+    expect(getScenario(local.id)).toMatchObject({ name: 'Pricing 2025', framing: { title: 'Raise prices?' } })
+    expect(rows.get(local.id)?.scenario).toMatchObject({ name: 'Pricing 2025', framing: { title: 'Raise prices?' } })
+
+    // An older remote rename loses to a newer local one
+    tick()
+    const remoteEditTime = now
+    tick()
+    updateScenario(local.id, { name: 'Local name' })
+    editElsewhere(local.id, () => ({ name: 'Stale name' }))
+    rows.get(local.id)!.scenario.field_updated_at!.name = remoteEditTime
+    await sync.sync()
+    expect(getScenario(local.id)?.name).toBe('Local name')
+    expect(rows.get(local.id)?.scenario.name).toBe('Local name')
+  })
+
+  it('flags graphs changed in both places and resolves by keeping both', async () => {
+    const { rows, remote, editElsewhere } = memoryRemote()
+    const local = createScenario({ name: 'Pricing', nodes: [node('a')], edges: [] })
+    const sync = createScenarioSync(remote, { userId: 'u1' })
+    await sync.sync()
+
+    tick()
+    editElsewhere(local.id, s => ({ graph: { nodes: [...s.graph.nodes, node('theirs')], edges: [] } }))
+    updateScenario(local.id, { graph: { nodes: [node('a'), node('mine')], edges: [] } })
+    await sync.sync()
+
+    const state = useScenarioSyncStore.getState()
+    expect(state.status).toBe('conflict')
+    expect(state.conflicts.map(c => c.id)).toEqual([local.id])
+    expect(rows.get(local.id)?.scenario.graph.nodes.map(n => n.id)).toEqual(['a', 'theirs'])
+
+    await sync.resolveConflict(local.id, 'both')
+
+    expect(getScenario(local.id)?.graph.nodes.map(n => n.id)).toEqual(['a', 'theirs'])
+    const copy = loadScenarios().find(s => s.name === 'Pricing (my copy)')
+    expect(copy?.graph.nodes.map(n => n.id)).toEqual(['a', 'mine'])
+    expect(rows.has(copy!.id)).toBe(true)
+    expect(useScenarioSyncStore.getState()).toMatchObject({ status: 'synced', conflicts: [] })
+  })
+
+  it('keeps my graph when I choose mine', async () => {
+    const { rows, remote, editElsewhere } = memoryRemote()
+    const local = createScenario({ name: 'Pricing', nodes: [node('a')], edges: [] })
+    const sync = createScenarioSync(remote, { userId: 'u1' })
+    await sync.sync()
+
+    tick()
+    editElsewhere(local.id, () => ({ graph: { nodes: [node('theirs')], edges: [] } }))
+    updateScenario(local.id, { graph: { nodes: [node('mine')], edges: [] } })
+    await sync.sync()
+    await sync.resolveConflict(local.id, 'mine')
+
+    expect(rows.get(local.id)?.scenario.graph.nodes.map(n => n.id)).toEqual(['mine'])
+    expect(getScenario(local.id)?.graph.nodes.map(n => n.id)).toEqual(['mine'])
+    expect(useScenarioSyncStore.getState().status).toBe('synced')
+  })
+
+  it('keeps editing offline and catches up on reconnect', async () => {
+    const { rows, remote } = memoryRemote()
+    const local = createScenario({ name: 'Pricing', nodes: [node('a')], edges: [] })
+    const sync = createScenarioSync(remote, { userId: 'u1' })
+    await sync.sync()
+
+    setOnline(false)
+    tick()
+    updateScenario(local.id, { graph: { nodes: [node('a'), node('b')], edges: [] } })
+    sync.markPending()
+    await sync.sync()
+    expect(useScenarioSyncStore.getState().status).toBe('offline')
+    expect(rows.get(local.id)?.scenario.graph.nodes).toHaveLength(1)
+
+    setOnline(true)
+    await sync.sync()
+    expect(rows.get(local.id)?.scenario.graph.nodes).toHaveLength(2)
+    expect(rows.get(local.id)?.revision).toBe(2)
+    expect(useScenarioSyncStore.getState().status).toBe('synced')
+  })
+
+  it('carries deletions both ways', async () => {
+    const { rows, remote, editElsewhere } = memoryRemote()
+    const mine = createScenario({ name: 'Mine', nodes: [node('a')], edges: [] })
+    const theirs = createScenario({ name: 'Theirs', nodes: [node('b')], edges: [] })
+    const sync = createScenarioSync(remote, { userId: 'u1' })
+    await sync.sync()
+
+    tick()
+    deleteScenario(mine.id)
+    editElsewhere(theirs.id, () => ({}), now)
+    await sync.sync()
+
+    expect(rows.get(mine.id)?.deletedAt).not.toBeNull()
+    expect(getScenario(theirs.id)).toBeUndefined()
+    expect(loadScenarios()).toHaveLength(0)
+  })
+
+  it('never uploads another account\'s scenarios and archives ones no longer shared', async () => {
+    const { rows, remote } = memoryRemote()
+    const local = createScenario({ name: 'Pricing', nodes: [node('a')], edges: [] })
+    await createScenarioSync(remote, { userId: 'u1' }).sync()
+
+    // Another account signs in on this device and sees none of u1's rows
+    const other = memoryRemote()
+    await createScenarioSync(other.remote, { userId: 'u2' }).sync()
+    expect(other.rows.size).toBe(0)
+    expect(getScenario(local.id)).toMatchObject({ owner_id: 'u1' })
+    expect(getScenario(local.id)?.archived_at).toBeUndefined()
+    expect(useScenarioSyncStore.getState().status).toBe('synced')
+
+    rows.delete(local.id)
+    const sync = createScenarioSync(remote, { userId: 'u1' })
+    await sync.sync()
+    expect(getScenario(local.id)).toMatchObject({ name: 'Pricing', archived_at: now })
+
+    // Archived scenarios stay local
+    tick()
+    updateScenario(local.id, { name: 'Pricing (offline)' })
+    await sync.sync()
+    expect(rows.has(local.id)).toBe(false)
+    expect(useScenarioSyncStore.getState().status).toBe('synced')
+  })
+})
+
+describe('reconcileScenario', () => {
+  const base = (s: Scenario, revision: number) => ({ revision, graphHash: graphHash(s.graph), updatedAt: s.updatedAt })
+  const scenario: Scenario = {
+    id: 's1',
+    name: 'Pricing',
+    createdAt: 1,
+    updatedAt: 10,
+    graph: { nodes: [node('a')], edges: [] },
+  }
+
+  it('ignores selection state when comparing graphs', () => {
+    const selected = { ...scenario, graph: { nodes: [{ ...node('a'), selected: true }], edges: [] } }
+    expect(graphHash(selected.graph)).toBe(graphHash(scenario.graph))
+  })
+
+  it('leaves an unchanged scenario alone', () => {
+    const result = reconcileScenario(scenario, { scenario, revision: 3, deletedAt: null }, base(scenario, 3))
+    expect(result).toMatchObject({ writeLocal: false, push: false, conflict: false })
+  })
+
+  it('revives a scenario edited after it was deleted elsewhere', () => {
+    const edited = { ...scenario, updatedAt: 50 }
+    const result = reconcileScenario(edited, { scenario, revision: 4, deletedAt: 20 }, base(scenario, 3))
+    expect(result).toMatchObject({ merged: edited, push: true })
+  })
+})
@@ -0,0 +1,105 @@
+/**
+ * Evidence Freshness Rules Store
+ *
+ * Staleness thresholds per node kind and the belief half-life used once
+ * evidence expires (see utils/evidenceFreshness). Persisted to localStorage
+ * as a user preference; stored rules are merged over the defaults so new
+ * node kinds pick up a default.
+ */
+
+import { create } from 'zustand'
+import type { NodeType } from '../domain/nodes'
+import {
+  DEFAULT_FRESHNESS_RULES,
+  type FreshnessRules,
+  type FreshnessThresholds,
+} from '../utils/evidenceFreshness'
+
+const STORAGE_KEY = 'canvas.evidence-freshness-rules'
+
+interface FreshnessRulesState {
+  rules: FreshnessRules
+  setThresholds: (nodeType: NodeType, thresholds: FreshnessThresholds) => void
+  setBeliefHalfLifeDays: (days: number) => void
+  resetRules: () => void
+}
+
+function isPositive(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value > 0
+}
+
+/**
+ * Safe localStorage read with SSR/test fallback
+ */
+function getStoredRules(): FreshnessRules {
+  if (typeof window === 'undefined' || typeof localStorage === 'undefined') {
+    return DEFAULT_FRESHNESS_RULES
+  }
+
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null') as Partial<FreshnessRules> | null
+    if (!stored) return DEFAULT_FRESHNESS_RULES
+
+    const thresholds = { ...DEFAULT_FRESHNESS_RULES.thresholds }
+    for (const kind of Object.keys(thresholds) as NodeType[]) {
+      const rule = stored.thresholds?.[kind]
+      if (rule && isPositive(rule.agingDays) && isPositive(rule.staleDays)) thresholds[kind] = rule
+    }
+    return {
+      thresholds,
+      beliefHalfLifeDays: isPositive(stored.beliefHalfLifeDays)
+        ? stored.beliefHalfLifeDays
+        : DEFAULT_FRESHNESS_RULES.beliefHalfLifeDays,
+    }
+  } catch {
+    return DEFAULT_FRESHNESS_RULES
+  }
+}
+
+/**
+ * Safe localStorage write
+ */
+function setStoredRules(rules: FreshnessRules): void {
+  if (typeof window === 'undefined' || typeof localStorage === 'undefined') {
+    return
+  }
+
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(rules))
+  } catch {
+    // Fail silently if storage is unavailable
+  }
+}
+
+export const useFreshnessRules = create<FreshnessRulesState>((set, get) => {
+  const update = (rules: FreshnessRules) => {
+    set({ rules })
+    setStoredRules(rules)
+  }
+
+  return {
+    rules: getStoredRules(),
+
+    setThresholds: (nodeType, thresholds) => {
+      if (!isPositive(thresholds.agingDays) || !isPositive(thresholds.staleDays)) return
+      const { rules } = get()
+      update({ ...rules, thresholds: { ...rules.thresholds, [nodeType]: thresholds } })
+    },
+
+    setBeliefHalfLifeDays: (days) => {
+      if (!isPositive(days)) return
+      update({ ...get().rules, beliefHalfLifeDays: days })
+    },
+
+    resetRules: () => {
+      set({ rules: DEFAULT_FRESHNESS_RULES })
+      if (typeof localStorage !== 'undefined') {
+        try {
+          localStorage.removeItem(STORAGE_KEY)
+        } catch {
+          // Fail silently if storage is unavailable
+        }
+      }
+    },
+  }
+})
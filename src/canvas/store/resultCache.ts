@@ -0,0 +1,181 @@
+/**
+ * Result Cache
+ *
+ * Content-addressed cache of ReportV1 results in IndexedDB. The key is the
+ * client graph hash (graph + seed, see computeClientHash) plus the template,
+ * adapter and engine version, so an identical "Analyse" returns instantly
+ * without a round-trip to the engine.
+ *
+ * - Bounded by entry count, total size and age (least recently used goes first)
+ * - Purged for an adapter when its engine reports a new version
+ * - Lookups are skipped on forced re-runs (results.wasForced)
+ */
+
+import type { ReportV1 } from '../../adapters/plot/types'
+import { getCapabilities } from '../../adapters/plot/v1/http'
+import { LOCAL_ENGINE_VERSION } from '../../adapters/plot/local/engine'
+import { idbGet, idbGetAll, idbPut, idbDelete } from '../persist/idb'
+import type { StoredRun } from './runHistory'
+
+const STORE = 'result-cache' as const
+const META_STORE = 'meta' as const
+const ENGINE_VERSIONS_KEY = 'result-cache:engine-versions'
+
+export const MAX_CACHE_ENTRIES = 50
+export const MAX_CACHE_BYTES = 5 * 1024 * 1024 // 5MB of serialised reports
+export const MAX_CACHE_AGE_MS = 7 * 24 * 60 * 60 * 1000 // 7 days
+
+/** Engine versions we cannot pin down are never cached */
+const UNKNOWN_VERSION = 'unknown'
+
+export type CacheAdapter = StoredRun['adapter']
+
+export interface CachedResult {
+  key: string
+  adapter: CacheAdapter
+  engineVersion: string
+  clientHash: string
+  report: ReportV1
+  bytes: number
+  createdAt: number
+  lastAccessedAt: number
+}
+
+export interface CacheKeyParts {
+  adapter: CacheAdapter
+  engineVersion: string
+  templateId: string
+  /** Analysis target; the same graph analysed for another outcome is a different result */
+  outcomeNode?: string
+  clientHash: string
+}
+
+export function buildCacheKey({ adapter, engineVersion, templateId, outcomeNode, clientHash }: CacheKeyParts): string {
+  return `${adapter}|${engineVersion}|${templateId}|${outcomeNode ?? ''}|${clientHash}`
+}
+
+/**
+ * Engine version used in cache keys. Remote engines report theirs via
+ * GET /version; 'unknown' (endpoint down or silent) disables caching.
+ */
+export async function resolveEngineVersion(adapter: CacheAdapter): Promise<string> {
+  if (adapter === 'local') return LOCAL_ENGINE_VERSION
+  // Fixture and cassette replies are already instant and must not be reused live
+  if (adapter === 'mock' || adapter === 'replay') return UNKNOWN_VERSION
+  try {
+    return (await getCapabilities()).version || UNKNOWN_VERSION
+  } catch {
+    return UNKNOWN_VERSION
+  }
+}
+
+export function isCacheableVersion(engineVersion: string): boolean {
+  return engineVersion !== UNKNOWN_VERSION
+}
+
+/**
+ * Look up a cached report; expired entries are dropped on read
+ */
+export async function getCachedResult(key: string): Promise<CachedResult | undefined> {
+  try {
+    const entry = await idbGet<CachedResult>(STORE, key)
+    if (!entry) return undefined
+
+    const now = Date.now()
+    if (now - entry.createdAt > MAX_CACHE_AGE_MS) {
+      await idbDelete(STORE, key)
+      return undefined
+    }
+
+    const touched = { ...entry, lastAccessedAt: now }
+    await idbPut(STORE, key, touched)
+    return touched
+  } catch (error) {
+    console.error('[resultCache] Failed to read:', error)
+    return undefined
+  }
+}
+
+/**
+ * Store a report and prune the cache back within its bounds
+ */
+export async function putCachedResult(parts: CacheKeyParts, report: ReportV1): Promise<void> {
+  if (!isCacheableVersion(parts.engineVersion)) return
+
+  const key = buildCacheKey(parts)
+  const bytes = JSON.stringify(report).length
+  // A single oversized report would just evict everything else
+  if (bytes > MAX_CACHE_BYTES) return
+
+  const now = Date.now()
+  const entry: CachedResult = {
+    key,
+    adapter: parts.adapter,
+    engineVersion: parts.engineVersion,
+    clientHash: parts.clientHash,
+    report,
+    bytes,
+    createdAt: now,
+    lastAccessedAt: now,
+  }
+
+  try {
+    await idbPut(STORE, key, entry)
+    await pruneResultCache()
+  } catch (error) {
+    console.error('[resultCache] Failed to write:', error)
+  }
+}
+
+/**
+ * Drop expired entries, then least recently used until under count/size limits
+ */
+export async function pruneResultCache(): Promise<number> {
+  const now = Date.now()
+  const entries = await idbGetAll<CachedResult>(STORE)
+  const fresh = entries
+    .filter(entry => now - entry.createdAt <= MAX_CACHE_AGE_MS)
+    .sort((a, b) => b.lastAccessedAt - a.lastAccessedAt)
+
+  const keep = new Set<string>()
+  let bytes = 0
+  for (const entry of fresh) {
+    if (keep.size >= MAX_CACHE_ENTRIES || bytes + entry.bytes > MAX_CACHE_BYTES) break
+    keep.add(entry.key)
+    bytes += entry.bytes
+  }
+
+  const evicted = entries.filter(entry => !keep.has(entry.key))
+  for (const entry of evicted) {
+    await idbDelete(STORE, entry.key)
+  }
+  return evicted.length
+}
+
+/**
+ * Purge an adapter's entries when its engine reports a different version
+ * than last seen. Returns the number of entries removed.
+ */
+export async function invalidateOnEngineVersion(adapter: CacheAdapter, engineVersion: string): Promise<number> {
+  if (!isCacheableVersion(engineVersion)) return 0
+
+  try {
+    const seen = (await idbGet<Record<string, string>>(META_STORE, ENGINE_VERSIONS_KEY)) ?? {}
+    if (seen[adapter] === engineVersion) return 0
+
+    const stale = (await idbGetAll<CachedResult>(STORE))
+      .filter(entry => entry.adapter === adapter && entry.engineVersion !== engineVersion)
+    for (const entry of stale) {
+      await idbDelete(STORE, entry.key)
+    }
+
+    await idbPut(META_STORE, ENGINE_VERSIONS_KEY, { ...seen, [adapter]: engineVersion })
+    if (stale.length > 0 && import.meta.env.DEV) {
+      console.log(`[resultCache] Engine ${adapter} now ${engineVersion}; dropped ${stale.length} cached results`)
+    }
+    return stale.length
+  } catch (error) {
+    console.error('[resultCache] Failed to invalidate:', error)
+    return 0
+  }
+}
@@ -13,6 +13,7 @@ import { computeClientHash } from '../../adapters/plot/v1/mapper'
 import type { Node, Edge } from '@xyflow/react'
 import * as runsBus from './runsBus'
 import type { CeeDecisionReviewPayload, CeeTraceMeta, CeeErrorViewModel } from '../decisionReview/types'
+import { canvasStorage } from '../persist/storage'
 
 export interface StoredRun {
   id: string // uuid
@@ -20,7 +21,7 @@ export interface StoredRun {
   seed: number
   hash?: string
   templateId?: string
-  adapter: 'mock' | 'httpv1' | 'auto'
+  adapter: 'mock' | 'httpv1' | 'local' | 'replay' | 'auto'
   summary: string // from report
   graphHash: string // stable hash of graph+seed for reproduce
   report: ReportV1 // full report
@@ -35,6 +36,8 @@ export interface StoredRun {
   ceeReview?: CeeDecisionReviewPayload | null
   ceeTrace?: CeeTraceMeta | null
   ceeError?: CeeErrorViewModel | null
+  queuedAt?: number // Set when the run was queued offline and replayed later
+  ranAt?: number // When a queued run actually executed
 }
 
 export const STORAGE_KEY = 'olumi-canvas-run-history' // Exported for cross-tab listening
@@ -69,7 +72,7 @@ export function loadRuns(): StoredRun[] {
   }
 
   try {
-    const stored = localStorage.getItem(STORAGE_KEY)
+    const stored = canvasStorage.getItem(STORAGE_KEY)
     if (!stored) return []
 
     const runs = JSON.parse(stored) as StoredRun[]
@@ -112,7 +115,7 @@ export function saveRuns(runs: StoredRun[]): void {
       ...unpinned.slice(0, MAX_RUNS - pinned.length)
     ].sort((a, b) => b.ts - a.ts)
 
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(pruned))
+    canvasStorage.setItem(STORAGE_KEY, JSON.stringify(pruned))
   } catch (error) {
     // Handle quota exceeded or other storage errors
     if (error instanceof DOMException) {
@@ -121,7 +124,7 @@ export function saveRuns(runs: StoredRun[]): void {
         // Try to save with fewer runs
         try {
           const minimal = runs.slice(0, 10)
-          localStorage.setItem(STORAGE_KEY, JSON.stringify(minimal))
+          canvasStorage.setItem(STORAGE_KEY, JSON.stringify(minimal))
         } catch {
           console.error('[runHistory] Failed to save even minimal history')
         }
@@ -0,0 +1,183 @@
+/**
+ * Offline Run Queue
+ *
+ * When the PLoT engine is unreachable, "Analyse" requests are stored durably
+ * (IndexedDB) with a snapshot of the graph instead of failing. Once the
+ * engine reports healthy again the queue is replayed oldest-first and each
+ * result lands in run history as a normal StoredRun, tagged with when it was
+ * queued and when it actually ran.
+ *
+ * Emits via runsBus on every change so RunHistory can show queued entries.
+ */
+
+import type { Node, Edge } from '@xyflow/react'
+import type { RunRequest, ReportV1 } from '../../adapters/plot/types'
+import { idbGetAll, idbPut, idbDelete } from '../persist/idb'
+import { addRun, generateGraphHash, type StoredRun } from './runHistory'
+import * as runsBus from './runsBus'
+
+const STORE = 'run-queue' as const
+
+/** Engine errors that mean "try again later" rather than "this request is wrong" */
+const OFFLINE_ERROR_CODES = new Set(['NETWORK_ERROR', 'SERVICE_UNAVAILABLE'])
+
+export interface QueuedRun {
+  id: string
+  queuedAt: number // timestamp ms
+  seed: number
+  request: RunRequest
+  graph: { // Snapshot at the time "Analyse" was clicked
+    nodes: Node[]
+    edges: Edge[]
+  }
+  scenarioId?: string | null
+  status: 'queued' | 'failed'
+  attempts: number
+  lastError?: string
+}
+
+export interface ReplaySummary {
+  replayed: Array<{ queued: QueuedRun; run: StoredRun }>
+  failed: QueuedRun[]
+  remaining: number
+}
+
+/**
+ * True when an error means the engine is unreachable (queue the run)
+ * rather than the request being invalid (surface the error)
+ */
+export function isOfflineError(error: unknown): boolean {
+  const err = error as { code?: string; name?: string } | null
+  if (!err) return false
+  if (err.name === 'BackendUnavailableError') return true
+  return typeof err.code === 'string' && OFFLINE_ERROR_CODES.has(err.code)
+}
+
+/**
+ * Load queued runs, oldest first (replay order)
+ */
+export async function loadQueuedRuns(): Promise<QueuedRun[]> {
+  try {
+    const entries = await idbGetAll<QueuedRun>(STORE)
+    return entries.sort((a, b) => a.queuedAt - b.queuedAt)
+  } catch (error) {
+    console.error('[runQueue] Failed to load:', error)
+    return []
+  }
+}
+
+/**
+ * Queue a run request for replay when the engine is back
+ */
+export async function enqueueRun(params: {
+  request: RunRequest
+  graph: { nodes: Node[]; edges: Edge[] }
+  scenarioId?: string | null
+}): Promise<QueuedRun> {
+  // Idempotency keys are single-use; a fresh one is attached on replay
+  const request: RunRequest = { ...params.request }
+  delete request.idempotencyKey
+
+  const entry: QueuedRun = {
+    id: crypto.randomUUID(),
+    queuedAt: Date.now(),
+    seed: request.seed ?? 1337,
+    request,
+    graph: JSON.parse(JSON.stringify(params.graph)),
+    scenarioId: params.scenarioId ?? null,
+    status: 'queued',
+    attempts: 0,
+  }
+
+  await idbPut(STORE, entry.id, entry)
+  runsBus.emit()
+  return entry
+}
+
+/**
+ * Remove a queued run (user discarded it, or it has been replayed)
+ */
+export async function removeQueuedRun(id: string): Promise<void> {
+  await idbDelete(STORE, id)
+  runsBus.emit()
+}
+
+let replayInFlight: Promise<ReplaySummary> | null = null
+
+/**
+ * Replay queued runs if the engine is available
+ *
+ * - Stops at the first offline error (engine went away again) and keeps the
+ *   rest queued.
+ * - Any other error marks that entry as failed so it stays visible in history
+ *   without blocking the queue.
+ * - Concurrent calls share one replay pass.
+ */
+export function replayQueuedRuns(deps: {
+  isEngineAvailable: () => Promise<boolean>
+  runAnalysis: (request: RunRequest) => Promise<ReportV1>
+  adapter?: StoredRun['adapter']
+}): Promise<ReplaySummary> {
+  if (replayInFlight) return replayInFlight
+
+  replayInFlight = (async (): Promise<ReplaySummary> => {
+    const queue = (await loadQueuedRuns()).filter(entry => entry.status === 'queued')
+    const summary: ReplaySummary = { replayed: [], failed: [], remaining: queue.length }
+    if (queue.length === 0) return summary
+
+    if (!(await deps.isEngineAvailable())) return summary
+
+    for (const entry of queue) {
+      let report: ReportV1
+      try {
+        report = await deps.runAnalysis({ ...entry.request, seed: entry.seed })
+      } catch (error) {
+        if (isOfflineError(error)) {
+          await idbPut(STORE, entry.id, { ...entry, attempts: entry.attempts + 1 })
+          break
+        }
+        const failed: QueuedRun = {
+          ...entry,
+          status: 'failed',
+          attempts: entry.attempts + 1,
+          lastError: (error as { error?: string; message?: string })?.error
+            ?? (error as Error)?.message
+            ?? String(error),
+        }
+        await idbPut(STORE, entry.id, failed)
+        summary.failed.push(failed)
+        summary.remaining -= 1
+        runsBus.emit()
+        continue
+      }
+
+      const ranAt = Date.now()
+      const run: StoredRun = {
+        id: crypto.randomUUID(),
+        ts: ranAt,
+        seed: entry.seed,
+        hash: report.model_card.response_hash,
+        templateId: entry.request.template_id,
+        adapter: deps.adapter ?? 'auto',
+        summary: '', // ReportV1 carries no run summary; runs recorded live get '' too
+        graphHash: generateGraphHash(entry.graph.nodes, entry.graph.edges, entry.seed),
+        report,
+        graph: entry.graph,
+        queuedAt: entry.queuedAt,
+        ranAt,
+      }
+
+      addRun(run)
+      await idbDelete(STORE, entry.id)
+      summary.replayed.push({ queued: entry, run })
+      summary.remaining -= 1
+    }
+
+    runsBus.emit()
+    return summary
+  })().finally(() => {
+    replayInFlight = null
+  })
+
+  return replayInFlight
+}
@@ -0,0 +1,273 @@
+/**
+ * Scenario Records
+ *
+ * Comment threads, the audit trail, tour viewpoints, bias tasks and checks,
+ * and pre-mortem sessions each belong to one scenario. Their stores keep
+ * every scenario's records in memory, stamped with a scenarioId, and
+ * persist them through a collection defined here. Each scenario's share is
+ * written onto the scenario itself (one field per collection, see
+ * ScenarioRecords), so the records sync and export with it.
+ *
+ * The unsaved canvas has a draft id of its own. Its records are kept on this
+ * device under that id until the canvas is saved, then move to the new
+ * scenario; leaving the unsaved canvas for another scenario discards them.
+ * Either way the next unsaved canvas starts with a fresh draft id.
+ *
+ * Writes are batched: a change marks the scenarios it touched, and those are
+ * written together shortly after (or when the page is hidden), so a burst of
+ * edits costs one write per scenario instead of one per edit.
+ */
+
+import { canvasStorage } from '../persist/storage'
+import { loadScenarios, updateScenario, type ScenarioRecordField, type ScenarioRecords } from './scenarios'
+
+const DRAFT_KEY = 'canvas-draft-records.v1'
+export const RECORD_WRITE_DELAY_MS = 500
+
+export type ScenarioRecord<F extends ScenarioRecordField> = NonNullable<ScenarioRecords[F]>[number]
+
+type ScopedRecord = { scenarioId: string; id?: string }
+
+interface DraftRecords {
+  id: string
+  records: ScenarioRecords
+}
+
+interface Collection {
+  field: ScenarioRecordField
+  idPrefix?: string
+  read: () => ScopedRecord[]
+  write: (records: ScopedRecord[]) => void
+  stored: (record: ScopedRecord) => ScopedRecord
+  copied?: (pairs: Array<[ScopedRecord, ScopedRecord]>) => void
+  removed?: (records: ScopedRecord[]) => void
+}
+
+export interface ScenarioRecordOptions<T> {
+  /** The store's records, every scenario's */
+  read: () => T[]
+  /** Replace the store's records (persisting is done here) */
+  write: (records: T[]) => void
+  /** Copies get a fresh `${idPrefix}_…` id; records without an id keep none */
+  idPrefix?: string
+  /** What is saved for a record, when that differs from what is kept in memory */
+  stored?: (record: T) => T
+  /** A scenario's records were copied to its duplicate: [original, copy] */
+  copied?: (pairs: Array<[T, T]>) => void
+  /** A deleted scenario's (or discarded draft's) records were dropped */
+  removed?: (records: T[]) => void
+}
+
+export interface ScenarioRecordCollection<T> {
+  /** Every saved scenario's records, and the draft's */
+  load: () => T[]
+  /** Persist the scenarios whose records differ between the two lists */
+  save: (next: T[], previous: T[]) => void
+}
+
+const collections: Collection[] = []
+const pending = new Map<string, Set<ScenarioRecordField>>() // Scenario or draft id -> fields to write
+let writeTimer: ReturnType<typeof setTimeout> | null = null
+let draft: DraftRecords | null = null
+
+export function generateRecordId(prefix: string): string {
+  return `${prefix}_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`
+}
+
+function currentDraft(): DraftRecords {
+  if (draft) return draft
+  try {
+    const raw = canvasStorage.getItem(DRAFT_KEY)
+    const stored = raw ? (JSON.parse(raw) as Partial<DraftRecords>) : {}
+    draft = { id: stored.id ?? generateRecordId('draft'), records: stored.records ?? {} }
+  } catch (error) {
+    console.error('[scenarioRecords] Failed to load draft records:', error)
+    draft = { id: generateRecordId('draft'), records: {} }
+  }
+  return draft
+}
+
+function saveDraft(): void {
+  try {
+    canvasStorage.setItem(DRAFT_KEY, JSON.stringify(currentDraft()))
+  } catch (error) {
+    console.error('[scenarioRecords] Failed to save draft records:', error)
+  }
+}
+
+/** Id the unsaved canvas's records are kept under */
+export function draftScenarioId(): string {
+  return currentDraft().id
+}
+
+/** Whose records the canvas shows: its scenario, or the draft while it is unsaved */
+export const selectRecordScope = (state: { currentScenarioId: string | null }): string =>
+  state.currentScenarioId ?? draftScenarioId()
+
+function schedule(field: ScenarioRecordField, scopes: Iterable<string>): void {
+  for (const scope of scopes) {
+    const fields = pending.get(scope) ?? new Set<ScenarioRecordField>()
+    fields.add(field)
+    pending.set(scope, fields)
+  }
+  if (!writeTimer && pending.size > 0) writeTimer = setTimeout(flushScenarioRecords, RECORD_WRITE_DELAY_MS)
+}
+
+/** Write every scenario with unsaved record changes now */
+export function flushScenarioRecords(): void {
+  if (writeTimer) clearTimeout(writeTimer)
+  writeTimer = null
+  if (pending.size === 0) return
+
+  const writes = [...pending]
+  pending.clear()
+  const saved = new Set(loadScenarios().map(s => s.id))
+  const draftId = currentDraft().id
+
+  for (const [scope, fields] of writes) {
+    // A scope that is neither saved nor the draft was deleted or discarded meanwhile
+    if (scope !== draftId && !saved.has(scope)) continue
+    const updates: Record<string, ScopedRecord[] | undefined> = {}
+    for (const field of fields) {
+      const collection = collections.find(c => c.field === field)!
+      const records = collection.read().filter(r => r.scenarioId === scope).map(collection.stored)
+      updates[field] = records.length > 0 ? records : undefined
+    }
+    if (scope === draftId) {
+      currentDraft().records = { ...currentDraft().records, ...updates }
+      saveDraft()
+    } else {
+      updateScenario(scope, updates as ScenarioRecords)
+    }
+  }
+}
+
+/** Scenario (or draft) ids whose records differ, in content or order */
+function changedScopes(next: ScopedRecord[], previous: ScopedRecord[]): Set<string> {
+  const group = (records: ScopedRecord[]) => {
+    const byScope = new Map<string, ScopedRecord[]>()
+    for (const record of records) byScope.set(record.scenarioId, [...(byScope.get(record.scenarioId) ?? []), record])
+    return byScope
+  }
+  const before = group(previous)
+  const after = group(next)
+  const changed = new Set<string>()
+  for (const scope of new Set([...before.keys(), ...after.keys()])) {
+    const a = before.get(scope) ?? []
+    const b = after.get(scope) ?? []
+    if (a.length !== b.length || a.some((record, i) => record !== b[i])) changed.add(scope)
+  }
+  return changed
+}
+
+function recordsOf(records: ScenarioRecords, field: ScenarioRecordField, scenarioId: string): ScopedRecord[] {
+  const list = (records[field] ?? []) as ScopedRecord[]
+  return list.map(record => ({ ...record, scenarioId }))
+}
+
+/**
+ * Persist a store's records with their scenarios. `field` names where they
+ * are kept on the scenario.
+ */
+export function scenarioRecords<F extends ScenarioRecordField>(
+  field: F,
+  options: ScenarioRecordOptions<ScenarioRecord<F>>
+): ScenarioRecordCollection<ScenarioRecord<F>> {
+  type T = ScenarioRecord<F>
+  collections.push({
+    field,
+    idPrefix: options.idPrefix,
+    read: options.read as () => ScopedRecord[],
+    write: options.write as (records: ScopedRecord[]) => void,
+    stored: (options.stored ?? (record => record)) as (record: ScopedRecord) => ScopedRecord,
+    copied: options.copied as Collection['copied'],
+    removed: options.removed as Collection['removed'],
+  })
+
+  return {
+    load: () => {
+      const saved = loadScenarios().flatMap(scenario => recordsOf(scenario, field, scenario.id))
+      const { id, records } = currentDraft()
+      return [...saved, ...recordsOf(records, field, id)] as T[]
+    },
+    save: (next, previous) => {
+      schedule(field, changedScopes(next as ScopedRecord[], previous as ScopedRecord[]))
+    },
+  }
+}
+
+function startNewDraft(): void {
+  const previous = currentDraft().id
+  pending.delete(previous)
+  draft = { id: generateRecordId('draft'), records: {} }
+  saveDraft()
+}
+
+/** The unsaved canvas was saved as `scenarioId`: its records move there */
+export function adoptDraftRecords(scenarioId: string): void {
+  const draftId = draftScenarioId()
+  for (const collection of collections) {
+    const records = collection.read()
+    if (!records.some(r => r.scenarioId === draftId)) continue
+    collection.write(records.map(r => (r.scenarioId === draftId ? { ...r, scenarioId } : r)))
+    schedule(collection.field, [scenarioId])
+  }
+  startNewDraft()
+}
+
+/** The unsaved canvas was left without saving: its records go with it */
+export function discardDraftRecords(): void {
+  const draftId = draftScenarioId()
+  for (const collection of collections) {
+    const records = collection.read()
+    const removed = records.filter(r => r.scenarioId === draftId)
+    if (removed.length === 0) continue
+    collection.write(records.filter(r => r.scenarioId !== draftId))
+    collection.removed?.(removed)
+  }
+  startNewDraft()
+}
+
+/** Copy a scenario's records to its duplicate, with fresh ids */
+export function copyScenarioRecords(fromScenarioId: string, toScenarioId: string): void {
+  for (const collection of collections) {
+    const records = collection.read()
+    const pairs = records
+      .filter(r => r.scenarioId === fromScenarioId)
+      .map((r): [ScopedRecord, ScopedRecord] => [
+        r,
+        { ...r, scenarioId: toScenarioId, ...(r.id !== undefined && collection.idPrefix ? { id: generateRecordId(collection.idPrefix) } : {}) },
+      ])
+    if (pairs.length === 0) continue
+    collection.write([...records, ...pairs.map(([, copy]) => copy)])
+    collection.copied?.(pairs)
+    schedule(collection.field, [toScenarioId])
+  }
+}
+
+/** Forget a deleted scenario's records (they were deleted with it) */
+export function deleteScenarioRecords(scenarioId: string): void {
+  pending.delete(scenarioId)
+  for (const collection of collections) {
+    const records = collection.read()
+    const removed = records.filter(r => r.scenarioId === scenarioId)
+    if (removed.length === 0) continue
+    collection.write(records.filter(r => r.scenarioId !== scenarioId))
+    collection.removed?.(removed)
+  }
+}
+
+/** Re-read the records of scenarios that sync rewrote */
+export function reloadScenarioRecords(scenarioIds: string[]): void {
+  const ids = new Set(scenarioIds)
+  for (const id of ids) pending.delete(id)
+  const scenarios = loadScenarios().filter(s => ids.has(s.id))
+  for (const collection of collections) {
+    const fresh = scenarios.flatMap(scenario => recordsOf(scenario, collection.field, scenario.id))
+    collection.write([...collection.read().filter(r => !ids.has(r.scenarioId)), ...fresh])
+  }
+}
+
+if (typeof window !== 'undefined') {
+  window.addEventListener('pagehide', flushScenarioRecords)
+}
@@ -0,0 +1,109 @@
+/**
+ * Supabase remote for scenario sync (table: canvas_scenarios)
+ *
+ * Row access is scoped by RLS to the owner and the scenario's team. Writes are
+ * conditional on the revision the client last saw, so two devices saving at
+ * once cannot silently overwrite each other.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Database, CanvasScenarioRow } from '../../types/database'
+import type { Scenario, ScenarioFraming } from './scenarios'
+import { normaliseGraph, type RemoteScenario, type ScenarioRemote } from './scenarioSync'
+
+type Json = Database['public']['Tables']['canvas_scenarios']['Row']['graph']
+
+const UNIQUE_VIOLATION = '23505'
+
+/** Scenario fields without a column of their own */
+interface ScenarioDetails {
+  source_template_id?: string
+  source_template_version?: string
+  last_result_hash?: string
+  last_run_at?: string
+  last_run_seed?: string
+  forked_from?: string
+  updated_at_ms?: number // Client edit time; the updated_at column is server time
+}
+
+export function rowToScenario(row: CanvasScenarioRow): RemoteScenario {
+  const details = (row.details ?? {}) as ScenarioDetails
+  const scenario: Scenario = {
+    id: row.id,
+    name: row.name,
+    createdAt: Date.parse(row.created_at),
+    updatedAt: details.updated_at_ms ?? Date.parse(row.updated_at),
+    graph: row.graph as unknown as Scenario['graph'],
+    framing: (row.framing ?? undefined) as ScenarioFraming | undefined,
+    decision_id: row.decision_id ?? undefined,
+    team_id: row.team_id ?? undefined,
+    source_template_id: details.source_template_id,
+    source_template_version: details.source_template_version,
+    last_result_hash: details.last_result_hash,
+    last_run_at: details.last_run_at,
+    last_run_seed: details.last_run_seed,
+    forked_from: details.forked_from,
+    field_updated_at: (row.field_updated_at ?? {}) as Scenario['field_updated_at'],
+  }
+  return {
+    scenario,
+    revision: row.revision,
+    deletedAt: row.deleted_at ? Date.parse(row.deleted_at) : null,
+  }
+}
+
+export function scenarioToRow(scenario: Scenario) {
+  const details: ScenarioDetails = {
+    source_template_id: scenario.source_template_id,
+    source_template_version: scenario.source_template_version,
+    last_result_hash: scenario.last_result_hash,
+    last_run_at: scenario.last_run_at,
+    last_run_seed: scenario.last_run_seed,
+    forked_from: scenario.forked_from,
+    updated_at_ms: scenario.updatedAt,
+  }
+  return {
+    id: scenario.id,
+    name: scenario.name,
+    graph: JSON.parse(JSON.stringify(normaliseGraph(scenario.graph))) as Json,
+    framing: (scenario.framing ?? null) as Json | null,
+    decision_id: scenario.decision_id ?? null,
+    team_id: scenario.team_id ?? null,
+    details: JSON.parse(JSON.stringify(details)) as Json,
+    field_updated_at: (scenario.field_updated_at ?? {}) as Json,
+    created_at: new Date(scenario.createdAt).toISOString(),
+  }
+}
+
+export function createSupabaseScenarioRemote(client: SupabaseClient<Database>): ScenarioRemote {
+  return {
+    async list() {
+      const { data, error } = await client.from('canvas_scenarios').select('*')
+      if (error) throw error
+      return (data ?? []).map(row => rowToScenario(row as CanvasScenarioRow))
+    },
+
+    async put(scenario, expectedRevision, deletedAt = null) {
+      const row = {
+        ...scenarioToRow(scenario),
+        deleted_at: deletedAt === null ? null : new Date(deletedAt).toISOString(),
+      }
+
+      if (expectedRevision === null) {
+        const { error } = await client.from('canvas_scenarios').insert({ ...row, revision: 1 })
+        if (error?.code === UNIQUE_VIOLATION) return null // Another device created it first
+        if (error) throw error
+        return 1
+      }
+
+      const { data, error } = await client
+        .from('canvas_scenarios')
+        .update({ ...row, revision: expectedRevision + 1 })
+        .eq('id', scenario.id)
+        .eq('revision', expectedRevision)
+        .select('revision')
+      if (error) throw error
+      return data && data.length > 0 ? (data[0] as { revision: number }).revision : null
+    },
+  }
+}
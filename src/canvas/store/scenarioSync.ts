@@ -0,0 +1,425 @@
+/**
+ * Scenario Cloud Sync
+ *
+ * Mirrors the scenarios in localStorage to a remote table (canvas_scenarios,
+ * see scenarioRemote.ts) so they follow the user across devices and can be
+ * shared with a team. localStorage stays the source the canvas reads from,
+ * so scenarios remain editable offline; sync() reconciles on reconnect.
+ *
+ * Merge rules, per scenario:
+ * - Each field in SCENARIO_SYNC_FIELDS is last-writer-wins on its own edit
+ *   time (field_updated_at), so a rename here and a re-framing elsewhere both
+ *   survive. The records kept with a scenario (comment threads, audit trail,
+ *   tour, bias work, pre-mortems) are fields like any other.
+ * - The graph is merged as a whole. If both sides changed it since the last
+ *   sync it becomes a conflict the user resolves (keep mine / theirs / both).
+ * - Deletions travel as tombstones locally and a soft delete remotely; an edit
+ *   made after the deletion wins and brings the scenario back.
+ * - A synced scenario whose row is no longer listed (it was unshared) is
+ *   archived locally rather than deleted, and is left out of sync from then on.
+ * - Each local scenario records the account it was first synced with, and is
+ *   only ever uploaded for that account, so signing in as someone else on the
+ *   same device doesn't copy the previous user's scenarios into their cloud.
+ *
+ * What was last agreed with the cloud (the sync bases) is kept per user, so
+ * switching accounts on one device doesn't read another account's bases.
+ *
+ * Every write names the revision it was based on, so a concurrent writer
+ * makes the write miss and the scenario is reconciled again on the next pass.
+ */
+
+import { create } from 'zustand'
+import type { Node, Edge } from '@xyflow/react'
+import {
+  SCENARIO_SYNC_FIELDS,
+  loadScenarios,
+  getScenario,
+  loadScenarioTombstones,
+  clearScenarioTombstones,
+  putSyncedScenario,
+  archiveSyncedScenario,
+  removeSyncedScenario,
+  duplicateScenario,
+  type Scenario,
+  type ScenarioSyncField,
+} from './scenarios'
+import { flushScenarioRecords } from './scenarioRecords'
+import { stableStringify, withoutTransientKeys } from './utils'
+import { canvasStorage } from '../persist/storage'
+
+const BASES_KEY = 'olumi-canvas-scenario-sync-bases'
+const MAX_PASSES = 3
+
+export type ScenarioSyncStatus = 'off' | 'syncing' | 'synced' | 'pending' | 'offline' | 'conflict' | 'error'
+
+export interface RemoteScenario {
+  scenario: Scenario
+  revision: number
+  deletedAt: number | null
+}
+
+/**
+ * Where scenarios are mirrored. `put` returns the new revision, or null when
+ * the row moved past `expectedRevision` (null expected = insert a new row).
+ */
+export interface ScenarioRemote {
+  list(): Promise<RemoteScenario[]>
+  put(scenario: Scenario, expectedRevision: number | null, deletedAt?: number | null): Promise<number | null>
+}
+
+/** What both sides agreed on at the last successful sync of a scenario */
+export interface SyncBase {
+  revision: number
+  graphHash: string
+  updatedAt: number
+}
+
+export interface ScenarioConflict {
+  id: string
+  name: string
+  local: Scenario
+  remote: RemoteScenario
+}
+
+export type ConflictResolution = 'mine' | 'theirs' | 'both'
+
+export interface ReconcileResult {
+  /** Scenario both sides should hold, or null when it was deleted */
+  merged: Scenario | null
+  writeLocal: boolean
+  push: boolean
+  conflict: boolean
+}
+
+interface ScenarioSyncState {
+  status: ScenarioSyncStatus
+  conflicts: ScenarioConflict[]
+  lastSyncedAt: number | null
+  error: string | null
+}
+
+export const useScenarioSyncStore = create<ScenarioSyncState>(() => ({
+  status: 'off',
+  conflicts: [],
+  lastSyncedAt: null,
+  error: null,
+}))
+
+// ============================================================================
+// Comparison helpers
+// ============================================================================
+
+/** Graph as it is stored remotely: no selection or measurement state */
+export function normaliseGraph(graph: { nodes: Node[]; edges: Edge[] }): { nodes: Node[]; edges: Edge[] } {
+  return { nodes: graph.nodes.map(withoutTransientKeys), edges: graph.edges.map(withoutTransientKeys) }
+}
+
+/** FNV-1a over the normalised graph; only compared for equality */
+export function graphHash(graph: { nodes: Node[]; edges: Edge[] }): string {
+  const text = stableStringify(normaliseGraph(graph))
+  let hash = 0x811c9dc5
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0')
+}
+
+// Fields never edited since creation count as old as the scenario
+const fieldTime = (scenario: Scenario, field: ScenarioSyncField): number =>
+  scenario.field_updated_at?.[field] ?? scenario.createdAt
+
+const sameField = (a: Scenario, b: Scenario, field: ScenarioSyncField): boolean =>
+  field === 'graph' ? graphHash(a.graph) === graphHash(b.graph) : stableStringify(a[field]) === stableStringify(b[field])
+
+const sameScenario = (a: Scenario, b: Scenario): boolean =>
+  SCENARIO_SYNC_FIELDS.every(field => sameField(a, b, field))
+
+// ============================================================================
+// Reconcile
+// ============================================================================
+
+/**
+ * Decide what one scenario should become given the local copy, the remote row
+ * and the state both agreed on last time (null if never synced)
+ */
+export function reconcileScenario(local: Scenario, remote: RemoteScenario, base: SyncBase | null): ReconcileResult {
+  if (remote.deletedAt !== null) {
+    // Edited here after it was deleted elsewhere: keep it and revive the row
+    if (local.updatedAt > remote.deletedAt && (!base || local.updatedAt > base.updatedAt)) {
+      return { merged: local, writeLocal: false, push: true, conflict: false }
+    }
+    return { merged: null, writeLocal: true, push: false, conflict: false }
+  }
+
+  // Nobody else wrote since our last sync: push only if we changed something
+  if (base && remote.revision === base.revision) {
+    const changed = local.updatedAt > base.updatedAt && !sameScenario(local, remote.scenario)
+    return { merged: local, writeLocal: false, push: changed, conflict: false }
+  }
+
+  const theirs = remote.scenario
+  const localGraphChanged = !base || graphHash(local.graph) !== base.graphHash
+  const remoteGraphChanged = !base || graphHash(theirs.graph) !== base.graphHash
+  if (localGraphChanged && remoteGraphChanged && !sameField(local, theirs, 'graph')) {
+    return { merged: null, writeLocal: false, push: false, conflict: true }
+  }
+
+  const merged: Scenario = { ...local, field_updated_at: { ...local.field_updated_at } }
+  const fields = merged as unknown as Record<ScenarioSyncField, unknown>
+  for (const field of SCENARIO_SYNC_FIELDS) {
+    const takeTheirs = field === 'graph'
+      ? remoteGraphChanged && !localGraphChanged
+      : fieldTime(theirs, field) >= fieldTime(local, field) // Ties go to the server copy
+    if (takeTheirs) {
+      fields[field] = theirs[field]
+      merged.field_updated_at![field] = fieldTime(theirs, field)
+    }
+  }
+  merged.updatedAt = Math.max(local.updatedAt, theirs.updatedAt)
+
+  return {
+    merged,
+    writeLocal: !sameScenario(merged, local),
+    push: !sameScenario(merged, theirs),
+    conflict: false,
+  }
+}
+
+// ============================================================================
+// Sync bases (localStorage)
+// ============================================================================
+
+const basesKey = (userId: string) => `${BASES_KEY}:${userId}`
+
+function loadBases(userId: string): Record<string, SyncBase> {
+  try {
+    const stored = canvasStorage.getItem(basesKey(userId))
+    return stored ? JSON.parse(stored) : {}
+  } catch {
+    return {}
+  }
+}
+
+function saveBases(userId: string, bases: Record<string, SyncBase>): void {
+  try {
+    canvasStorage.setItem(basesKey(userId), JSON.stringify(bases))
+  } catch (error) {
+    console.error('[scenarioSync] Failed to save sync state:', error)
+  }
+}
+
+const baseFor = (scenario: Scenario, revision: number): SyncBase => ({
+  revision,
+  graphHash: graphHash(scenario.graph),
+  updatedAt: scenario.updatedAt,
+})
+
+const isOffline = () => typeof navigator !== 'undefined' && navigator.onLine === false
+
+// ============================================================================
+// Sync engine
+// ============================================================================
+
+export interface ScenarioSync {
+  /** Reconcile local and remote scenarios; safe to call repeatedly */
+  sync: () => Promise<void>
+  /** Note a local save that has not reached the cloud yet */
+  markPending: () => void
+  resolveConflict: (id: string, resolution: ConflictResolution) => Promise<void>
+}
+
+export function createScenarioSync(
+  remote: ScenarioRemote,
+  options: { userId: string; onApplied?: (ids: string[]) => void }
+): ScenarioSync {
+  const { userId } = options
+  const owned = (scenario: Scenario, owner = userId): Scenario => ({ ...scenario, owner_id: owner })
+  const store = useScenarioSyncStore
+  let running: Promise<void> | null = null
+  let rerun = false
+
+  const applied = (ids: string[]) => {
+    if (ids.length > 0) options.onApplied?.(ids)
+  }
+
+  /** One pass; `retry` means a write missed and another pass is needed */
+  async function pass(): Promise<{ retry: boolean; conflicts: ScenarioConflict[] }> {
+    // Record edits still waiting to be written go out with this pass
+    flushScenarioRecords()
+    const bases = loadBases(userId)
+    const rows = new Map((await remote.list()).map(row => [row.scenario.id, row]))
+    const changedIds: string[] = []
+    const conflicts: ScenarioConflict[] = []
+    let retry = false
+
+    // Local deletions first, so they are not re-downloaded below
+    const tombstones = loadScenarioTombstones()
+    const cleared: string[] = []
+    for (const tombstone of tombstones) {
+      const row = rows.get(tombstone.id)
+      rows.delete(tombstone.id)
+      if (row && row.deletedAt === null && row.scenario.updatedAt > tombstone.deletedAt) {
+        // Edited elsewhere after we deleted it; the edit wins
+        putSyncedScenario(owned(row.scenario))
+        bases[tombstone.id] = baseFor(row.scenario, row.revision)
+        changedIds.push(tombstone.id)
+      } else {
+        if (row && row.deletedAt === null && (await remote.put(row.scenario, row.revision, tombstone.deletedAt)) === null) {
+          retry = true
+          continue
+        }
+        delete bases[tombstone.id]
+      }
+      cleared.push(tombstone.id)
+    }
+    clearScenarioTombstones(cleared)
+
+    for (const local of loadScenarios()) {
+      const row = rows.get(local.id)
+      rows.delete(local.id)
+      if (local.archived_at !== undefined) continue
+      if (!row && local.owner_id !== undefined && local.owner_id !== userId) continue
+      const base = bases[local.id] ?? null
+
+      if (!row) {
+        if (base) {
+          // Synced before but gone now (no longer shared with us): keep the local copy
+          archiveSyncedScenario(local.id)
+          delete bases[local.id]
+          changedIds.push(local.id)
+          continue
+        }
+        const revision = await remote.put(local, null)
+        if (revision === null) {
+          retry = true
+        } else {
+          if (local.owner_id === undefined) putSyncedScenario(owned(local))
+          bases[local.id] = baseFor(local, revision)
+        }
+        continue
+      }
+
+      const result = reconcileScenario(local, row, base)
+      if (result.conflict) {
+        conflicts.push({ id: local.id, name: local.name, local, remote: row })
+        continue
+      }
+      if (!result.merged) {
+        removeSyncedScenario(local.id)
+        delete bases[local.id]
+        changedIds.push(local.id)
+        continue
+      }
+
+      let revision = row.revision
+      if (result.push) {
+        const next = await remote.put(result.merged, row.revision, null)
+        if (next === null) {
+          retry = true
+          continue
+        }
+        revision = next
+      }
+      if (result.writeLocal || local.owner_id === undefined) {
+        putSyncedScenario(owned(result.merged, local.owner_id))
+      }
+      if (result.writeLocal) changedIds.push(local.id)
+      bases[local.id] = baseFor(result.merged, revision)
+    }
+
+    // Remote scenarios this device has not seen yet
+    for (const row of rows.values()) {
+      if (row.deletedAt !== null) {
+        delete bases[row.scenario.id]
+        continue
+      }
+      putSyncedScenario(owned(row.scenario))
+      bases[row.scenario.id] = baseFor(row.scenario, row.revision)
+      changedIds.push(row.scenario.id)
+    }
+
+    saveBases(userId, bases)
+    applied(changedIds)
+    return { retry, conflicts }
+  }
+
+  async function run(): Promise<void> {
+    if (isOffline()) {
+      store.setState({ status: 'offline' })
+      return
+    }
+    store.setState({ status: 'syncing', error: null })
+    try {
+      let outcome = await pass()
+      for (let i = 1; i < MAX_PASSES && outcome.retry; i++) {
+        outcome = await pass()
+      }
+      store.setState({
+        conflicts: outcome.conflicts,
+        status: outcome.conflicts.length > 0 ? 'conflict' : outcome.retry ? 'pending' : 'synced',
+        lastSyncedAt: Date.now(),
+      })
+    } catch (error) {
+      console.error('[scenarioSync] Sync failed:', error)
+      store.setState({
+        status: isOffline() ? 'offline' : 'error',
+        error: error instanceof Error ? error.message : 'Sync failed',
+      })
+    }
+  }
+
+  async function sync(): Promise<void> {
+    if (running) {
+      rerun = true
+      return running
+    }
+    running = (async () => {
+      do {
+        rerun = false
+        await run()
+      } while (rerun)
+    })()
+    try {
+      await running
+    } finally {
+      running = null
+    }
+  }
+
+  function markPending(): void {
+    const { status } = store.getState()
+    if (status === 'conflict' || status === 'off') return
+    store.setState({ status: isOffline() ? 'offline' : 'pending' })
+  }
+
+  async function resolveConflict(id: string, resolution: ConflictResolution): Promise<void> {
+    const conflict = store.getState().conflicts.find(c => c.id === id)
+    if (!conflict) return
+    const local = getScenario(id) ?? conflict.local
+    const bases = loadBases(userId)
+
+    if (resolution === 'mine') {
+      // Stamp the graph as newest and write it over theirs
+      const now = Date.now()
+      const mine: Scenario = { ...local, updatedAt: now, field_updated_at: { ...local.field_updated_at, graph: now } }
+      putSyncedScenario(mine)
+      const revision = await remote.put(mine, conflict.remote.revision, null)
+      if (revision !== null) bases[id] = baseFor(mine, revision)
+    } else {
+      if (resolution === 'both') {
+        duplicateScenario(id, `${local.name} (my copy)`)
+      }
+      putSyncedScenario(owned(conflict.remote.scenario, local.owner_id))
+      bases[id] = baseFor(conflict.remote.scenario, conflict.remote.revision)
+      applied([id])
+    }
+    saveBases(userId, bases)
+
+    const conflicts = store.getState().conflicts.filter(c => c.id !== id)
+    store.setState({ conflicts, status: conflicts.length > 0 ? 'conflict' : 'pending' })
+    await sync()
+  }
+
+  return { sync, markPending, resolveConflict }
+}
@@ -10,9 +10,27 @@
  * - Recovery banner for unsaved work
  * - Template source tracking
  * - Last result hash tracking for compare
+ * - Per-field edit times and deletion tombstones for cloud sync (scenarioSync.ts)
+ * - Records kept with the scenario: comments, audit trail, tour, bias work, pre-mortems (scenarioRecords.ts)
  */
 
 import type { Node, Edge } from '@xyflow/react'
+import { canvasStorage } from '../persist/storage'
+import type { AuditEvent } from '../audit/trail'
+import type { BiasCheckRecord, BiasTask } from '../biasTasks/tasks'
+import type { CommentThread } from '../comments/threads'
+import type { PremortemSession } from '../premortem/session'
+import type { Viewpoint } from '../presenter/session'
+
+/**
+ * An outcome or goal node the decision is judged on, with its relative
+ * weight and whether more is better (maximise) or worse (minimise)
+ */
+export interface DecisionCriterion {
+  nodeId: string
+  weight: number
+  direction: 'maximise' | 'minimise'
+}
 
 export interface ScenarioFraming {
   title?: string          // Decision or question
@@ -22,9 +40,34 @@ export interface ScenarioFraming {
   risks?: string          // Key risks (optional)
   uncertainties?: string  // Key unknowns (optional)
   baseline?: number       // Baseline value for verdict comparison (defaults to 0 = status quo)
+  criteria?: DecisionCriterion[] // Weighted objectives for multi-criteria comparison
+}
+
+/**
+ * Records that belong to a scenario, written by their stores through
+ * scenarioRecords.ts. Absent when the scenario has none.
+ */
+export interface ScenarioRecords {
+  comment_threads?: CommentThread[]
+  audit_trail?: AuditEvent[]
+  tour_viewpoints?: Viewpoint[]
+  bias_tasks?: BiasTask[]
+  bias_checks?: BiasCheckRecord[]
+  premortem_sessions?: PremortemSession[]
 }
 
-export interface Scenario {
+export const SCENARIO_RECORD_FIELDS = [
+  'comment_threads',
+  'audit_trail',
+  'tour_viewpoints',
+  'bias_tasks',
+  'bias_checks',
+  'premortem_sessions',
+] as const satisfies ReadonlyArray<keyof ScenarioRecords>
+
+export type ScenarioRecordField = typeof SCENARIO_RECORD_FIELDS[number]
+
+export interface Scenario extends ScenarioRecords {
   id: string // uuid
   name: string
   createdAt: number // timestamp ms
@@ -39,11 +82,43 @@ export interface Scenario {
   last_run_at?: string // ISO timestamp of last analysis run for this scenario
   last_run_seed?: string // Seed used for last analysis run
   framing?: ScenarioFraming
+  decision_id?: string // decisions row this scenario is attached to
+  team_id?: string // Team the scenario is shared with when synced
+  forked_from?: string // Scenario this one was duplicated from
+  archived_at?: number // Its cloud row went away (no longer shared with us); kept here, not synced
+  owner_id?: string // Account that synced it on this device; no other account uploads it
+  field_updated_at?: Partial<Record<ScenarioSyncField, number>> // When each synced field last changed (ms)
+}
+
+/**
+ * Fields merged independently when syncing; the newer edit of each wins
+ */
+export const SCENARIO_SYNC_FIELDS = [
+  'name',
+  'graph',
+  'framing',
+  'decision_id',
+  'team_id',
+  'source_template_id',
+  'source_template_version',
+  'last_result_hash',
+  'last_run_at',
+  'last_run_seed',
+  ...SCENARIO_RECORD_FIELDS,
+] as const
+
+export type ScenarioSyncField = typeof SCENARIO_SYNC_FIELDS[number]
+
+/** A locally deleted scenario the cloud has not heard about yet */
+export interface ScenarioTombstone {
+  id: string
+  deletedAt: number
 }
 
 const STORAGE_KEY = 'olumi-canvas-scenarios'
 const AUTOSAVE_KEY = 'olumi-canvas-autosave'
 const CURRENT_SCENARIO_KEY = 'olumi-canvas-current-scenario-id'
+const TOMBSTONES_KEY = 'olumi-canvas-scenario-tombstones'
 const MAX_SCENARIOS = 50 // Reasonable limit to prevent localStorage bloat
 
 /**
@@ -157,7 +232,7 @@ export function loadScenarios(): Scenario[] {
   }
 
   try {
-    const stored = localStorage.getItem(STORAGE_KEY)
+    const stored = canvasStorage.getItem(STORAGE_KEY)
     if (!stored) return []
 
     const scenarios = JSON.parse(stored) as Scenario[]
@@ -195,7 +270,7 @@ export function saveScenarios(scenarios: Scenario[]): void {
       .sort((a, b) => b.updatedAt - a.updatedAt)
       .slice(0, MAX_SCENARIOS)
 
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(pruned))
+    canvasStorage.setItem(STORAGE_KEY, JSON.stringify(pruned))
   } catch (error) {
     // Handle quota exceeded or other storage errors
     if (error instanceof DOMException) {
@@ -204,7 +279,7 @@ export function saveScenarios(scenarios: Scenario[]): void {
         // Try to save with fewer scenarios
         try {
           const minimal = scenarios.slice(0, 20)
-          localStorage.setItem(STORAGE_KEY, JSON.stringify(minimal))
+          canvasStorage.setItem(STORAGE_KEY, JSON.stringify(minimal))
         } catch {
           console.error('[scenarios] Failed to save even minimal scenarios')
         }
@@ -226,7 +301,7 @@ export function getCurrentScenarioId(): string | null {
   }
 
   try {
-    return localStorage.getItem(CURRENT_SCENARIO_KEY)
+    return canvasStorage.getItem(CURRENT_SCENARIO_KEY)
   } catch {
     return null
   }
@@ -241,7 +316,7 @@ export function setCurrentScenarioId(id: string): void {
   }
 
   try {
-    localStorage.setItem(CURRENT_SCENARIO_KEY, id)
+    canvasStorage.setItem(CURRENT_SCENARIO_KEY, id)
   } catch (error) {
     console.error('[scenarios] Failed to set current scenario ID:', error)
   }
@@ -317,11 +392,17 @@ export function updateScenario(id: string, updates: Partial<Omit<Scenario, 'id'
     }
   }
 
-  scenarios[index] = {
-    ...scenarios[index],
-    ...nextUpdates,
-    updatedAt: Date.now()
+  const now = Date.now()
+  const previous = scenarios[index]
+  const next: Scenario = { ...previous, ...nextUpdates, updatedAt: now }
+
+  const fieldUpdatedAt = { ...previous.field_updated_at }
+  for (const field of SCENARIO_SYNC_FIELDS) {
+    if (field in nextUpdates && JSON.stringify(previous[field]) !== JSON.stringify(next[field])) {
+      fieldUpdatedAt[field] = now
+    }
   }
+  scenarios[index] = { ...next, field_updated_at: fieldUpdatedAt }
 
   saveScenarios(scenarios)
 }
@@ -349,6 +430,9 @@ export function duplicateScenario(id: string, newName?: string): Scenario | null
     ...original,
     id: generateId(),
     name: newName || `${original.name} (Copy)`,
+    forked_from: original.id,
+    archived_at: undefined, // A copy of an archived scenario syncs as a new one
+    owner_id: undefined,
     createdAt: now,
     updatedAt: now,
     last_result_hash: undefined, // Don't copy last result
@@ -359,6 +443,8 @@ export function duplicateScenario(id: string, newName?: string): Scenario | null
       edges,
     },
   }
+  // Records are copied with fresh ids by copyScenarioRecords
+  for (const field of SCENARIO_RECORD_FIELDS) delete duplicate[field]
 
   const scenarios = loadScenarios()
   scenarios.push(duplicate)
@@ -373,12 +459,13 @@ export function duplicateScenario(id: string, newName?: string): Scenario | null
 export function deleteScenario(id: string): void {
   const scenarios = loadScenarios().filter(s => s.id !== id)
   saveScenarios(scenarios)
+  writeTombstones([...loadScenarioTombstones().filter(t => t.id !== id), { id, deletedAt: Date.now() }])
 
   // If we deleted the current scenario, clear the current ID
   if (getCurrentScenarioId() === id) {
     if (isLocalStorageAvailable()) {
       try {
-        localStorage.removeItem(CURRENT_SCENARIO_KEY)
+        canvasStorage.removeItem(CURRENT_SCENARIO_KEY)
       } catch {
         // Ignore errors
       }
@@ -386,6 +473,76 @@ export function deleteScenario(id: string): void {
   }
 }
 
+function writeTombstones(tombstones: ScenarioTombstone[]): void {
+  if (!isLocalStorageAvailable()) {
+    return
+  }
+
+  try {
+    canvasStorage.setItem(TOMBSTONES_KEY, JSON.stringify(tombstones))
+  } catch (error) {
+    console.error('[scenarios] Failed to save tombstones:', error)
+  }
+}
+
+/**
+ * Deletions waiting to be synced
+ */
+export function loadScenarioTombstones(): ScenarioTombstone[] {
+  if (!isLocalStorageAvailable()) {
+    return []
+  }
+
+  try {
+    const stored = canvasStorage.getItem(TOMBSTONES_KEY)
+    const tombstones = stored ? JSON.parse(stored) : []
+    return Array.isArray(tombstones) ? tombstones : []
+  } catch {
+    return []
+  }
+}
+
+/**
+ * Forget tombstones once the cloud has recorded the deletions
+ */
+export function clearScenarioTombstones(ids: string[]): void {
+  const cleared = new Set(ids)
+  writeTombstones(loadScenarioTombstones().filter(t => !cleared.has(t.id)))
+}
+
+/**
+ * Write a scenario exactly as given (sync merges keep their own edit times)
+ */
+export function putSyncedScenario(scenario: Scenario): void {
+  const scenarios = loadScenarios().filter(s => s.id !== scenario.id)
+  scenarios.push(scenario)
+  saveScenarios(scenarios)
+}
+
+/**
+ * Keep a scenario whose cloud row is gone but stop syncing it
+ */
+export function archiveSyncedScenario(id: string): void {
+  const scenario = getScenario(id)
+  if (scenario && scenario.archived_at === undefined) {
+    putSyncedScenario({ ...scenario, archived_at: Date.now() })
+  }
+}
+
+/**
+ * Drop a scenario deleted elsewhere, without leaving a tombstone
+ */
+export function removeSyncedScenario(id: string): void {
+  saveScenarios(loadScenarios().filter(s => s.id !== id))
+  if (getCurrentScenarioId() === id && isLocalStorageAvailable()) {
+    try {
+      canvasStorage.removeItem(CURRENT_SCENARIO_KEY)
+    } catch {
+      // Ignore errors
+    }
+  }
+}
+
 /**
  * Import a scenario from file
  * Validates format, reseeds IDs, creates new scenario
@@ -518,7 +675,7 @@ export function saveAutosave(data: AutosaveData): void {
       return
     }
 
-    localStorage.setItem(AUTOSAVE_KEY, payload)
+    canvasStorage.setItem(AUTOSAVE_KEY, payload)
     lastAutosavePayload = payload
 
     if (import.meta.env.DEV) {
@@ -535,7 +692,7 @@ export function loadAutosave(): AutosaveData | null {
   }
 
   try {
-    const stored = localStorage.getItem(AUTOSAVE_KEY)
+    const stored = canvasStorage.getItem(AUTOSAVE_KEY)
     if (!stored) return null
 
     const data = JSON.parse(stored) as AutosaveData
@@ -559,7 +716,7 @@ export function clearAutosave(): void {
   }
 
   try {
-    localStorage.removeItem(AUTOSAVE_KEY)
+    canvasStorage.removeItem(AUTOSAVE_KEY)
     // P2: Reset payload cache for fresh test state
     lastAutosavePayload = null
   } catch {
@@ -22,3 +22,28 @@ export function setsEqual<T>(a: Set<T>, b: Set<T>): boolean {
 export function arraysEqual<T>(a: T[], b: T[]): boolean {
   return a.length === b.length && a.every((v, i) => Object.is(v, b[i]))
 }
+
+// Per-browser React Flow state that should not count as a graph edit
+const TRANSIENT_KEYS = new Set(['selected', 'dragging', 'measured', 'resizing'])
+
+/**
+ * Copy of a node or edge without selection, drag and measurement state
+ */
+export function withoutTransientKeys<T extends object>(item: T): T {
+  return Object.fromEntries(Object.entries(item).filter(([key]) => !TRANSIENT_KEYS.has(key))) as T
+}
+
+/**
+ * JSON with sorted object keys, so equal values always serialise the same
+ * (jsonb and spread order both reorder keys); undefined fields are dropped
+ */
+export function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`).join(',')}}`
+  }
+  return JSON.stringify(value ?? null)
+}
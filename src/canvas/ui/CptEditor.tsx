@@ -0,0 +1,164 @@
+/**
+ * Conditional probability table editor - risk/factor nodes
+ * One row per combination of parent states; cells are % and rows must total 100
+ */
+
+import { memo, useMemo } from 'react'
+import type { Node, Edge } from '@xyflow/react'
+import {
+  cptRows,
+  cptIssues,
+  createCpt,
+  type ConditionalTable,
+} from '../domain/cpt'
+import { autoBalance } from '../utils/probabilityBalancing'
+
+interface CptEditorProps {
+  nodeId: string
+  value: ConditionalTable | undefined
+  nodes: Node[]
+  edges: Edge[]
+  onChange: (cpt: ConditionalTable | undefined) => void
+}
+
+const toPercent = (p: number) => Math.round(p * 1000) / 10
+
+export const CptEditor = memo(({ nodeId, value, nodes, edges, onChange }: CptEditorProps) => {
+  const rows = useMemo(() => (value ? cptRows(value, nodes, edges) : []), [value, nodes, edges])
+  const issues = useMemo(() => (value ? cptIssues(nodeId, value, nodes, edges) : []), [nodeId, value, nodes, edges])
+  const draft = useMemo(() => (value ? null : createCpt(nodeId, nodes, edges)), [value, nodeId, nodes, edges])
+  const labelOf = (id: string) => String(nodes.find(n => n.id === id)?.data?.label ?? id)
+
+  if (!value) {
+    return (
+      <div data-testid="cpt-editor">
+        <button
+          type="button"
+          onClick={() => draft && onChange(draft)}
+          disabled={!draft}
+          className="text-xs text-blue-600 hover:text-blue-800 disabled:text-gray-400 disabled:cursor-not-allowed"
+          data-testid="cpt-add"
+        >
+          + Add probability table
+        </button>
+        {!draft && (
+          <p className="text-xs text-gray-500 mt-1">Connect at least one cause to this node first.</p>
+        )}
+      </div>
+    )
+  }
+
+  const setRow = (key: string, values: number[]) => {
+    onChange({ ...value, rows: { ...value.rows, [key]: values } })
+  }
+
+  const setCell = (key: string, index: number, raw: string) => {
+    const percent = Number(raw)
+    if (raw.trim() === '' || !Number.isFinite(percent)) return
+    const current = value.rows[key] ?? value.states.map(() => 0)
+    setRow(key, current.map((v, i) => (i === index ? Math.min(100, Math.max(0, percent)) / 100 : v)))
+  }
+
+  const balanceRow = (key: string) => {
+    const current = value.rows[key] ?? value.states.map(() => 1 / value.states.length)
+    const { values, error } = autoBalance(current.map(v => ({ value: v * 100, locked: false })), { step: 1 })
+    if (!error) setRow(key, values.map(v => v / 100))
+  }
+
+  const errorRows = new Set(issues.filter(i => i.rowKey).map(i => i.rowKey))
+  const stale = issues.some(i => i.severity === 'error' && !i.rowKey) || issues.some(i => i.severity === 'warning')
+  const rebuilt = stale ? createCpt(nodeId, nodes, edges) : null
+
+  return (
+    <div className="space-y-2" data-testid="cpt-editor">
+      <div className="overflow-x-auto">
+        <table className="text-xs border-collapse">
+          <thead>
+            <tr className="text-gray-600">
+              {value.parents.map(parentId => (
+                <th key={parentId} className="px-1 py-0.5 text-left font-medium">{labelOf(parentId)}</th>
+              ))}
+              {value.states.map(state => (
+                <th key={state} className="px-1 py-0.5 text-right font-medium">{state}</th>
+              ))}
+              <th />
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(row => {
+              const values = value.rows[row.key]
+              const total = values ? values.reduce((sum, v) => sum + v, 0) : 0
+              return (
+                <tr key={row.key} data-testid={`cpt-row-${row.key}`}>
+                  {row.states.map((state, i) => (
+                    <td key={i} className="px-1 py-0.5 text-gray-700">{state.label}</td>
+                  ))}
+                  {value.states.map((state, i) => (
+                    <td key={state} className="px-1 py-0.5">
+                      <input
+                        key={`${row.key}-${i}-${values?.[i] ?? ''}`}
+                        type="number"
+                        min={0}
+                        max={100}
+                        defaultValue={values ? toPercent(values[i] ?? 0) : ''}
+                        onBlur={(e) => setCell(row.key, i, e.target.value)}
+                        aria-label={`${state} when ${row.states.map(s => s.label).join(', ')} (%)`}
+                        className={`w-14 text-right border rounded px-1 py-0.5 ${errorRows.has(row.key) ? 'border-red-400' : 'border-gray-300'}`}
+                      />
+                    </td>
+                  ))}
+                  <td className="px-1 py-0.5 whitespace-nowrap">
+                    <span className={errorRows.has(row.key) ? 'text-red-600' : 'text-gray-500'}>
+                      {toPercent(total)}%
+                    </span>
+                    {errorRows.has(row.key) && (
+                      <button
+                        type="button"
+                        onClick={() => balanceRow(row.key)}
+                        className="ml-1 text-blue-600 hover:text-blue-800"
+                        aria-label={`Balance row ${row.states.map(s => s.label).join(', ')}`}
+                      >
+                        Balance
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              )
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      {issues.length > 0 && (
+        <ul className="text-xs space-y-0.5" role="alert">
+          {issues.map((issue, i) => (
+            <li key={i} className={issue.severity === 'error' ? 'text-red-600' : 'text-warning-600'}>{issue.message}</li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex gap-3">
+        {rebuilt && (
+          <button
+            type="button"
+            onClick={() => onChange(rebuilt)}
+            className="text-xs text-blue-600 hover:text-blue-800"
+            data-testid="cpt-rebuild"
+          >
+            Rebuild from current causes
+          </button>
+        )}
+        <button
+          type="button"
+          onClick={() => onChange(undefined)}
+          className="text-xs text-gray-500 hover:text-gray-800"
+          data-testid="cpt-remove"
+        >
+          Remove table
+        </button>
+      </div>
+    </div>
+  )
+})
+
+CptEditor.displayName = 'CptEditor'
@@ -0,0 +1,210 @@
+/**
+ * Distribution editor - node value as a point or typed distribution
+ * Shows a live density sparkline; only valid distributions are committed
+ */
+
+import { memo, useEffect, useMemo, useState } from 'react'
+import {
+  DistributionSchema,
+  DistributionKindEnum,
+  DISTRIBUTION_LABELS,
+  densityCurve,
+  distributionBounds,
+  distributionMean,
+  defaultDistribution,
+  type Distribution,
+  type DistributionKind,
+} from '../domain/distributions'
+
+interface DistributionEditorProps {
+  value: Distribution | undefined
+  /** Used to seed a point distribution for nodes that only have a prior */
+  fallback: number
+  unit?: string
+  onChange: (distribution: Distribution, unit: string | undefined) => void
+}
+
+const SPARK_WIDTH = 160
+const SPARK_HEIGHT = 36
+
+// Parameter inputs per kind, in display order
+const FIELDS: Record<Exclude<DistributionKind, 'discrete'>, Array<{ key: string; label: string }>> = {
+  point: [{ key: 'value', label: 'Value' }],
+  uniform: [{ key: 'min', label: 'Min' }, { key: 'max', label: 'Max' }],
+  triangular: [{ key: 'min', label: 'Min' }, { key: 'mode', label: 'Most likely' }, { key: 'max', label: 'Max' }],
+  pert: [{ key: 'min', label: 'Min' }, { key: 'mode', label: 'Most likely' }, { key: 'max', label: 'Max' }],
+  normal: [{ key: 'mean', label: 'Mean' }, { key: 'sd', label: 'Std dev' }],
+  lognormal: [{ key: 'mu', label: 'μ (log)' }, { key: 'sigma', label: 'σ (log)' }],
+}
+
+const formatNumber = (value: number): string =>
+  Math.abs(value) >= 1000 ? value.toLocaleString(undefined, { maximumFractionDigits: 0 }) : String(Number(value.toFixed(3)))
+
+function Sparkline({ distribution }: { distribution: Distribution }) {
+  const curve = densityCurve(distribution)
+  const [lo, hi] = distributionBounds(distribution)
+  const span = hi - lo || 1
+  const toX = (x: number) => (curve.length === 1 ? SPARK_WIDTH / 2 : ((x - lo) / span) * SPARK_WIDTH)
+  const toY = (y: number) => SPARK_HEIGHT - y * (SPARK_HEIGHT - 2)
+
+  return (
+    <svg
+      width={SPARK_WIDTH}
+      height={SPARK_HEIGHT}
+      className="text-blue-500"
+      role="img"
+      aria-label={`Density from ${formatNumber(lo)} to ${formatNumber(hi)}, mean ${formatNumber(distributionMean(distribution))}`}
+      data-testid="distribution-sparkline"
+    >
+      {distribution.kind === 'point' || distribution.kind === 'discrete' ? (
+        curve.map((p, i) => (
+          <line key={i} x1={toX(p.x)} x2={toX(p.x)} y1={SPARK_HEIGHT} y2={toY(p.y)} stroke="currentColor" strokeWidth={2} />
+        ))
+      ) : (
+        <path
+          d={`M0,${SPARK_HEIGHT} ${curve.map(p => `L${toX(p.x).toFixed(1)},${toY(p.y).toFixed(1)}`).join(' ')} L${SPARK_WIDTH},${SPARK_HEIGHT} Z`}
+          fill="currentColor"
+          fillOpacity={0.2}
+          stroke="currentColor"
+          strokeWidth={1.5}
+        />
+      )}
+    </svg>
+  )
+}
+
+export const DistributionEditor = memo(({ value, fallback, unit, onChange }: DistributionEditorProps) => {
+  const committed = value ?? defaultDistribution('point', fallback)
+  const [draft, setDraft] = useState<Distribution>(committed)
+  const [unitDraft, setUnitDraft] = useState(unit ?? '')
+
+  // Follow external changes (undo, another inspector)
+  const committedKey = JSON.stringify(committed)
+  useEffect(() => {
+    setDraft(JSON.parse(committedKey) as Distribution)
+  }, [committedKey])
+
+  const validation = useMemo(() => DistributionSchema.safeParse(draft), [draft])
+  const error = validation.success ? null : validation.error.issues[0]?.message
+
+  const update = (next: Distribution) => {
+    setDraft(next)
+    if (DistributionSchema.safeParse(next).success) onChange(next, unitDraft.trim() || undefined)
+  }
+
+  const setField = (key: string, raw: string) => {
+    const number = Number(raw)
+    if (raw.trim() === '' || !Number.isFinite(number)) return
+    update({ ...draft, [key]: number } as Distribution)
+  }
+
+  return (
+    <div className="space-y-2" data-testid="distribution-editor">
+      <div className="flex items-center gap-2">
+        <select
+          value={draft.kind}
+          onChange={(e) => update(defaultDistribution(e.target.value as DistributionKind, distributionMean(draft)))}
+          className="text-sm border border-gray-300 rounded px-2 py-1"
+          aria-label="Distribution type"
+          data-testid="distribution-kind"
+        >
+          {DistributionKindEnum.options.map(kind => (
+            <option key={kind} value={kind}>{DISTRIBUTION_LABELS[kind]}</option>
+          ))}
+        </select>
+        <input
+          type="text"
+          maxLength={12}
+          value={unitDraft}
+          onChange={(e) => setUnitDraft(e.target.value)}
+          onBlur={() => {
+            if (validation.success) onChange(draft, unitDraft.trim() || undefined)
+          }}
+          placeholder="Unit"
+          aria-label="Unit"
+          className="w-20 text-sm border border-gray-300 rounded px-2 py-1"
+        />
+      </div>
+
+      {draft.kind === 'discrete' ? (
+        <div className="space-y-1">
+          {draft.outcomes.map((outcome, i) => (
+            <div key={`${i}-${committedKey}`} className="flex items-center gap-2">
+              <input
+                type="number"
+                defaultValue={outcome.value}
+                onBlur={(e) => {
+                  const next = Number(e.target.value)
+                  if (!Number.isFinite(next)) return
+                  update({ ...draft, outcomes: draft.outcomes.map((o, j) => (j === i ? { ...o, value: next } : o)) })
+                }}
+                aria-label={`Outcome ${i + 1} value`}
+                className="w-24 text-sm border border-gray-300 rounded px-2 py-0.5"
+              />
+              <input
+                type="number"
+                min={0}
+                max={100}
+                defaultValue={Math.round(outcome.probability * 100)}
+                onBlur={(e) => {
+                  const next = Number(e.target.value) / 100
+                  if (!Number.isFinite(next)) return
+                  update({ ...draft, outcomes: draft.outcomes.map((o, j) => (j === i ? { ...o, probability: next } : o)) })
+                }}
+                aria-label={`Outcome ${i + 1} probability (%)`}
+                className="w-16 text-sm border border-gray-300 rounded px-2 py-0.5"
+              />
+              <span className="text-xs text-gray-500">%</span>
+              {draft.outcomes.length > 1 && (
+                <button
+                  type="button"
+                  onClick={() => update({ ...draft, outcomes: draft.outcomes.filter((_, j) => j !== i) })}
+                  className="text-xs text-gray-500 hover:text-gray-800"
+                  aria-label={`Remove outcome ${i + 1}`}
+                >
+                  ×
+                </button>
+              )}
+            </div>
+          ))}
+          {draft.outcomes.length < 20 && (
+            <button
+              type="button"
+              onClick={() => update({ ...draft, outcomes: [...draft.outcomes, { value: distributionMean(draft), probability: 0 }] })}
+              className="text-xs text-blue-600 hover:text-blue-800"
+            >
+              + Add outcome
+            </button>
+          )}
+        </div>
+      ) : (
+        <div className="flex flex-wrap gap-2">
+          {FIELDS[draft.kind].map(({ key, label }) => (
+            <label key={`${key}-${committedKey}`} className="flex flex-col text-xs text-gray-600">
+              {label}
+              <input
+                type="number"
+                defaultValue={(draft as unknown as Record<string, number>)[key]}
+                onBlur={(e) => setField(key, e.target.value)}
+                className="w-20 text-sm border border-gray-300 rounded px-2 py-0.5"
+                data-testid={`distribution-${key}`}
+              />
+            </label>
+          ))}
+        </div>
+      )}
+
+      <div className="flex items-end gap-2">
+        <Sparkline distribution={validation.success ? draft : committed} />
+        <span className="text-xs text-gray-500">
+          mean {formatNumber(distributionMean(validation.success ? draft : committed))}{unitDraft ? ` ${unitDraft}` : ''}
+        </span>
+      </div>
+      {error && (
+        <p className="text-xs text-red-600" role="alert">{error}</p>
+      )}
+    </div>
+  )
+})
+
+DistributionEditor.displayName = 'DistributionEditor'
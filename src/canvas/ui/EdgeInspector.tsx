@@ -5,12 +5,16 @@
  */
 
 import { memo, useState, useCallback, useEffect, useRef, useMemo } from 'react'
-import { Lightbulb, Check } from 'lucide-react'
+import { Lightbulb, Check, FileText } from 'lucide-react'
 import { useCanvasStore } from '../store'
 import { EDGE_CONSTRAINTS, type EdgeStyle, type EdgePathType, DEFAULT_EDGE_DATA } from '../domain/edges'
 import { useToast } from '../ToastContext'
 import { Tooltip } from '../components/Tooltip'
 import type { WeightSuggestion } from '../decisionReview/types'
+import { citationsFor, citationStance, suggestedBelief, tallyCitations } from '../documents/citations'
+import { useDocumentReaderStore } from '../documents/readerStore'
+import { useFreshnessRules } from '../store/freshnessRules'
+import { assessEdgeFreshness, decayedBelief, latestEvidenceTime, thresholdsFor } from '../utils/evidenceFreshness'
 
 interface EdgeInspectorProps {
   edgeId: string
@@ -30,10 +34,28 @@ export const EdgeInspector = memo(({ edgeId, onClose }: EdgeInspectorProps) => {
   const beginReconnect = useCanvasStore(s => s.beginReconnect)
   const selectNodes = useCanvasStore(s => s.selectNodes)
   const ceeReview = useCanvasStore(s => s.runMeta.ceeReview)
+  const citations = useCanvasStore(s => s.citations)
+  const documents = useCanvasStore(s => s.documents)
+  const openDocument = useDocumentReaderStore(s => s.openDocument)
+  const freshnessRules = useFreshnessRules(s => s.rules)
   const { showToast } = useToast()
 
   const edge = edges.find(e => e.id === edgeId)
 
+  // Document passages cited on this edge, and the belief they suggest
+  const edgeCitations = useMemo(() => citationsFor(citations, { kind: 'edge', id: edgeId }), [citations, edgeId])
+  const citationTally = useMemo(() => tallyCitations(edgeCitations), [edgeCitations])
+  const evidenceBelief = useMemo(() => suggestedBelief(edgeCitations), [edgeCitations])
+
+  // Evidence freshness: review-by date, age, and the belief shown once evidence expires
+  const freshness = useMemo(() => assessEdgeFreshness({
+    edgeId,
+    evidenceAt: latestEvidenceTime(citations, documents, edgeId),
+    reviewBy: edge?.data?.reviewBy,
+    reviewedAt: edge?.data?.reviewedAt,
+    thresholds: thresholdsFor(freshnessRules, nodes.find(n => n.id === edge?.target)?.type),
+  }), [edgeId, citations, documents, edge?.data?.reviewBy, edge?.data?.reviewedAt, edge?.target, nodes, freshnessRules])
+
   // Find weight suggestion for this edge (if any)
   const weightSuggestion = useMemo((): WeightSuggestion | undefined => {
     if (!ceeReview?.weight_suggestions) return undefined
@@ -137,6 +159,15 @@ export const EdgeInspector = memo(({ edgeId, onClose }: EdgeInspectorProps) => {
     }, 120)
   }, [edgeId, edge?.data, updateEdge])
 
+  const shownBelief = belief !== undefined ? decayedBelief(belief, freshness, freshnessRules.beliefHalfLifeDays) : undefined
+
+  // Review-by date (YYYY-MM-DD); evidence counts as stale after it
+  const handleReviewByChange = useCallback((value: string) => {
+    const current = edge?.data ?? DEFAULT_EDGE_DATA
+    updateEdge(edgeId, { data: { ...current, reviewBy: value || undefined } })
+    setAnnouncement(value ? `Review by ${value}` : 'Review-by date cleared')
+  }, [edgeId, edge?.data, updateEdge])
+
   // v1.2: Immediate provenance update (on blur)
   const handleProvenanceBlur = useCallback(() => {
     const current = edge?.data ?? DEFAULT_EDGE_DATA
@@ -367,6 +398,89 @@ export const EdgeInspector = memo(({ edgeId, onClose }: EdgeInspectorProps) => {
         </div>
       </div>
 
+      {/* Evidence freshness: review-by date and belief decay */}
+      <div className="mb-4" data-testid="edge-freshness">
+        <label htmlFor="edge-review-by" className="block text-xs font-medium text-gray-700 mb-1">
+          Review evidence by
+        </label>
+        <input
+          id="edge-review-by"
+          type="date"
+          value={edge?.data?.reviewBy ?? ''}
+          onChange={(e) => handleReviewByChange(e.target.value)}
+          className="w-full px-2 py-1 text-xs border border-gray-300 rounded"
+        />
+        <p className="text-[10px] text-gray-500 mt-1">
+          {freshness.quality === 'UNKNOWN'
+            ? 'No dated evidence yet'
+            : `Evidence ${freshness.quality.toLowerCase()}${freshness.age_days !== undefined ? ` · ${freshness.age_days} days old` : ''}`}
+        </p>
+        {belief !== undefined && shownBelief !== undefined && shownBelief < belief && (
+          <p className="text-[10px] text-warning-700 mt-1" data-testid="edge-belief-decayed">
+            Evidence expired: shown on the canvas as {Math.round(shownBelief * 100)}% belief
+          </p>
+        )}
+      </div>
+
+      {/* Evidence: document passages cited on this edge */}
+      {edgeCitations.length > 0 && (
+        <div className="mb-4" data-testid="edge-evidence">
+          <label className="block text-xs font-medium text-gray-700 mb-1">
+            Evidence
+          </label>
+          <p className="text-[10px] text-gray-500 mb-1.5">
+            {citationTally.supports} supporting · {citationTally.contradicts} contradicting
+          </p>
+          {evidenceBelief !== null && (
+            <div
+              className="mb-2 flex items-center justify-between gap-2 p-2 rounded bg-info-50 border border-info-200"
+              data-testid="edge-suggested-belief"
+            >
+              <span className="text-xs text-info-900">
+                Evidence suggests belief {Math.round(evidenceBelief * 100)}%
+              </span>
+              {evidenceBelief !== belief && (
+                <button
+                  type="button"
+                  onClick={() => handleBeliefChange(evidenceBelief)}
+                  className="px-2 py-1 text-xs font-medium rounded bg-info-600 text-white hover:bg-info-700"
+                >
+                  Apply
+                </button>
+              )}
+            </div>
+          )}
+          <ul className="space-y-1.5">
+            {edgeCitations.map(citation => {
+              const contradicts = citationStance(citation) === 'contradicts'
+              const documentName = documents.find(d => d.id === citation.documentId)?.name ?? 'Document'
+              return (
+                <li
+                  key={citation.id}
+                  className={`pl-2 border-l-2 ${contradicts ? 'border-danger-300' : 'border-success-300'}`}
+                >
+                  <p className="text-xs text-gray-700 italic line-clamp-2">"{citation.snippet}"</p>
+                  <div className="flex items-center gap-1 text-[10px] text-gray-500">
+                    <FileText className="w-3 h-3" />
+                    <span className="truncate">{documentName}</span>
+                    <span>· {contradicts ? 'Contradicts' : 'Supports'}</span>
+                    <button
+                      type="button"
+                      onClick={() => openDocument(citation.documentId, citation.charOffset !== undefined
+                        ? { charOffset: citation.charOffset, charLength: citation.charLength ?? citation.snippet.length }
+                        : null)}
+                      className="ml-auto text-info-600 hover:underline"
+                    >
+                      Jump to passage
+                    </button>
+                  </div>
+                </li>
+              )
+            })}
+          </ul>
+        </div>
+      )}
+
       {/* v1.2: Provenance display (source tracking) */}
       {provenance && (
         <div className="mb-4">
@@ -6,11 +6,17 @@
 import { memo, useState, useCallback, useRef, useEffect, useMemo } from 'react'
 import { Lock, Unlock, AlertTriangle } from 'lucide-react'
 import { useCanvasStore } from '../store'
+import type { DecisionCriterion } from '../store/scenarios'
 import { NODE_REGISTRY } from '../domain/nodes'
 import type { NodeType } from '../domain/nodes'
 import { renderIcon } from '../helpers/renderIcon'
 import { autoBalance, equalSplit, type BalanceRow } from '../utils/probabilityBalancing'
 import { Tooltip } from '../components/Tooltip'
+import { DistributionEditor } from './DistributionEditor'
+import { readDistribution, distributionPrior, type Distribution } from '../domain/distributions'
+import { CptEditor } from './CptEditor'
+import { readCpt, supportsCpt, type ConditionalTable } from '../domain/cpt'
+import { isCriterionCandidate, DEFAULT_CRITERION_WEIGHT } from '../utils/multiCriteria'
 
 interface NodeInspectorProps {
   nodeId: string
@@ -33,8 +39,11 @@ export const NodeInspector = memo(({ nodeId, onClose }: NodeInspectorProps) => {
   const pushHistory = useCanvasStore(s => s.pushHistory)
   const outcomeNodeId = useCanvasStore(s => s.outcomeNodeId)
   const setOutcomeNode = useCanvasStore(s => s.setOutcomeNode)
+  const criteria = useCanvasStore(s => s.currentScenarioFraming?.criteria)
+  const setCriterion = useCanvasStore(s => s.setCriterion)
 
   const node = nodes.find(n => n.id === nodeId)
+  const criterion = criteria?.find(c => c.nodeId === nodeId)
   const [label, setLabel] = useState<string>(String(node?.data?.label ?? ''))
   const [description, setDescription] = useState<string>(String(node?.data?.description ?? ''))
 
@@ -126,6 +135,18 @@ export const NodeInspector = memo(({ nodeId, onClose }: NodeInspectorProps) => {
     }
   }, [nodeId, description, node?.data, updateNode])
 
+  // Keep the scalar prior in step so engines without distribution support agree
+  const handleDistributionChange = useCallback((distribution: Distribution, unit: string | undefined) => {
+    const prior = distribution.kind === 'point'
+      ? Math.max(0, Math.min(1, distribution.value))
+      : distributionPrior(distribution)
+    updateNode(nodeId, { data: { ...node?.data, distribution, unit, prior } })
+  }, [nodeId, node?.data, updateNode])
+
+  const handleCptChange = useCallback((cpt: ConditionalTable | undefined) => {
+    updateNode(nodeId, { data: { ...node?.data, cpt } })
+  }, [nodeId, node?.data, updateNode])
+
   const handleTypeChange = useCallback((newType: NodeType) => {
     // Update node type in place (preserves id, position, label)
     updateNode(nodeId, { type: newType })
@@ -379,6 +400,37 @@ export const NodeInspector = memo(({ nodeId, onClose }: NodeInspectorProps) => {
         />
       </div>
 
+      {/* Conditional probability table (risk/factor only) */}
+      {node && supportsCpt(node) && (
+        <div className="mb-4 pb-4 border-b border-gray-200">
+          <Tooltip content="How likely each state is for every combination of this node's causes" position="right">
+            <h4 className="text-xs font-medium text-gray-700 mb-2">Probability table</h4>
+          </Tooltip>
+          <CptEditor
+            nodeId={nodeId}
+            value={readCpt(node.data?.cpt)}
+            nodes={nodes}
+            edges={edges}
+            onChange={handleCptChange}
+          />
+        </div>
+      )}
+
+      {/* Value distribution (decisions and options are chosen, not uncertain; a table sets the value) */}
+      {currentType !== 'decision' && currentType !== 'option' && !node?.data?.cpt && (
+        <div className="mb-4 pb-4 border-b border-gray-200">
+          <Tooltip content="How uncertain this value is: a single value or a range with a shape" position="right">
+            <h4 className="text-xs font-medium text-gray-700 mb-2">Value</h4>
+          </Tooltip>
+          <DistributionEditor
+            value={readDistribution(node.data?.distribution)}
+            fallback={typeof node.data?.prior === 'number' ? node.data.prior : 0.5}
+            unit={typeof node.data?.unit === 'string' ? node.data.unit : undefined}
+            onChange={handleDistributionChange}
+          />
+        </div>
+      )}
+
       {/* Outcome Node Selector */}
       <div className="mb-4 pb-4 border-b border-gray-200">
         <Tooltip content="Mark this node as the target outcome for analysis" position="right">
@@ -408,6 +460,66 @@ export const NodeInspector = memo(({ nodeId, onClose }: NodeInspectorProps) => {
         </p>
       </div>
 
+      {/* Weighted objective (outcome/goal nodes only) */}
+      {node && isCriterionCandidate(node) && (
+        <div className="mb-4 pb-4 border-b border-gray-200" data-testid="criterion-editor">
+          <Tooltip content="Judge options on this node too, alongside the other criteria" position="right">
+            <label htmlFor="criterion-toggle" className="flex items-center gap-2 cursor-pointer">
+              <input
+                id="criterion-toggle"
+                type="checkbox"
+                checked={Boolean(criterion)}
+                onChange={(e) => {
+                  setCriterion(nodeId, e.target.checked
+                    ? { weight: DEFAULT_CRITERION_WEIGHT, direction: 'maximise' }
+                    : null)
+                }}
+                className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                data-testid="toggle-criterion"
+              />
+              <span className="text-xs font-medium text-gray-700">
+                Use as criterion
+              </span>
+            </label>
+          </Tooltip>
+          {criterion && (
+            <div className="flex items-center gap-3 mt-2 ml-6">
+              <label className="flex items-center gap-1.5 text-xs text-gray-600">
+                Weight
+                <input
+                  type="number"
+                  min={0}
+                  max={10}
+                  step={0.5}
+                  value={criterion.weight}
+                  onChange={(e) => {
+                    const weight = Number(e.target.value)
+                    if (Number.isFinite(weight)) {
+                      setCriterion(nodeId, { direction: criterion.direction, weight: Math.min(10, Math.max(0, weight)) })
+                    }
+                  }}
+                  className="w-16 text-sm border border-gray-300 rounded px-2 py-0.5"
+                  data-testid="criterion-weight"
+                />
+              </label>
+              <select
+                value={criterion.direction}
+                onChange={(e) => setCriterion(nodeId, {
+                  weight: criterion.weight,
+                  direction: e.target.value as DecisionCriterion['direction'],
+                })}
+                className="text-sm border border-gray-300 rounded px-2 py-0.5"
+                aria-label="Direction"
+                data-testid="criterion-direction"
+              >
+                <option value="maximise">Maximise</option>
+                <option value="minimise">Minimise</option>
+              </select>
+            </div>
+          )}
+        </div>
+      )}
+
       {/* Inline Probability Editor (only for decision-probability edges, not influence networks) */}
       {outgoingEdges.length > 0 && !isInfluenceNetwork && (
         <section
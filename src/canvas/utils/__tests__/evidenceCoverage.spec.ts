@@ -176,6 +176,17 @@ describe('evidenceCoverage utils', () => {
       expect(result).toEqual({ evidenced: 1, total: 2 })
     })
 
+    it('counts edges with document citations, supporting or contradicting', () => {
+      const edges = [
+        { id: 'e1', data: { provenance: 'assumption' } },
+        { id: 'e2' },
+        { id: 'e3' },
+      ]
+      const citations = [{ edgeId: 'e1' }, { edgeId: 'e1' }, { edgeId: undefined }, { edgeId: 'e3' }]
+      const result = countEdgesWithEvidence(edges, citations)
+      expect(result).toEqual({ evidenced: 2, total: 3 })
+    })
+
     it('returns zero counts for empty array', () => {
       const result = countEdgesWithEvidence([])
       expect(result).toEqual({ evidenced: 0, total: 0 })
@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest'
+import {
+  DEFAULT_FRESHNESS_RULES,
+  assessEdgeFreshness,
+  computeEvidenceFreshness,
+  decayedBelief,
+  describeStaleness,
+} from '../evidenceFreshness'
+
+const NOW = Date.parse('2026-06-01T12:00:00Z')
+const DAY = 24 * 60 * 60 * 1000
+const daysAgo = (days: number) => new Date(NOW - days * DAY)
+
+describe('evidenceFreshness', () => {
+  const nodes = [
+    { id: 'price', type: 'factor' },
+    { id: 'churn', type: 'risk' },
+    { id: 'goal', type: 'goal' },
+  ]
+  const edges = [
+    { id: 'e-risk', source: 'price', target: 'churn', data: { provenance: 'user' } },
+    { id: 'e-goal', source: 'churn', target: 'goal', data: {} },
+    { id: 'e-none', source: 'price', target: 'goal', data: {} },
+    { id: 'e-due', source: 'price', target: 'goal', data: { reviewBy: '2026-05-01' } },
+  ]
+
+  it('matches the engine summary shape, judging age by the target node kind', () => {
+    const citations = [
+      { edgeId: 'e-risk', documentId: 'd1', createdAt: daysAgo(2) },
+      { edgeId: 'e-goal', documentId: 'd2', createdAt: daysAgo(2) },
+      { edgeId: 'e-due', documentId: 'd2', createdAt: daysAgo(1) },
+    ]
+    // d1 is a report dated 45 days ago: aging for a risk (after 30 days), though cited only recently
+    const documents = [{ id: 'd1', metadata: { date: daysAgo(45).toISOString() } }, { id: 'd2' }]
+
+    const summary = computeEvidenceFreshness({ nodes, edges, citations, documents }, DEFAULT_FRESHNESS_RULES, NOW)
+
+    expect(summary).toMatchObject({ overall_quality: 'STALE', stale_count: 1, aging_count: 1, fresh_count: 1, unknown_count: 1 })
+    expect(summary.edge_freshness.map(e => [e.edge_id, e.quality, e.age_days])).toEqual([
+      ['e-risk', 'AGING', 45],
+      ['e-goal', 'FRESH', 2],
+      ['e-none', 'UNKNOWN', undefined],
+      ['e-due', 'STALE', 1],
+    ])
+    expect(summary.edge_freshness[0]).toMatchObject({ provenance: 'user', last_updated: daysAgo(45).toISOString() })
+  })
+
+  it('restarts the clock when evidence is marked reviewed', () => {
+    const thresholds = DEFAULT_FRESHNESS_RULES.thresholds.risk
+    const old = assessEdgeFreshness({ edgeId: 'e', evidenceAt: daysAgo(100).getTime(), thresholds }, NOW)
+    const reviewed = assessEdgeFreshness(
+      { edgeId: 'e', evidenceAt: daysAgo(100).getTime(), reviewedAt: daysAgo(1).toISOString(), thresholds },
+      NOW
+    )
+
+    expect(old.quality).toBe('STALE')
+    expect(describeStaleness(old, NOW)).toBe('Evidence is 100 days old')
+    expect(reviewed.quality).toBe('FRESH')
+  })
+
+  it('decays the displayed belief only past expiry', () => {
+    const thresholds = { agingDays: 10, staleDays: 30 }
+    const expiredTwoHalfLives = assessEdgeFreshness({ edgeId: 'e', evidenceAt: daysAgo(30 + 120).getTime(), thresholds }, NOW)
+    const current = assessEdgeFreshness({ edgeId: 'e', evidenceAt: daysAgo(20).getTime(), thresholds }, NOW)
+    const undated = assessEdgeFreshness({ edgeId: 'e', evidenceAt: null, thresholds }, NOW)
+
+    expect(decayedBelief(0.8, expiredTwoHalfLives, 60, NOW)).toBeCloseTo(0.2)
+    expect(decayedBelief(0.8, current, 60, NOW)).toBe(0.8)
+    expect(decayedBelief(0.8, undated, 60, NOW)).toBe(0.8)
+  })
+})
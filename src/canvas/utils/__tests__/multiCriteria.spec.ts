@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest'
+import type { Node, Edge } from '@xyflow/react'
+import {
+  activeCriteria,
+  buildCriteriaRequests,
+  collectCriteriaValues,
+  normaliseWeights,
+  scoreOptions,
+  type OptionCriteriaValues,
+} from '../multiCriteria'
+import type { DecisionCriterion } from '../../store/scenarios'
+import { localEngineAdapter } from '../../../adapters/plot/localEngineAdapter'
+
+const node = (id: string, type: string, data: Record<string, unknown> = {}): Node => ({
+  id,
+  type,
+  position: { x: 0, y: 0 },
+  data: { label: id, ...data },
+})
+
+const criteria: DecisionCriterion[] = [
+  { nodeId: 'revenue', weight: 3, direction: 'maximise' },
+  { nodeId: 'cost', weight: 1, direction: 'minimise' },
+]
+
+const option = (id: string, revenue: number, cost: number): OptionCriteriaValues => ({
+  id,
+  label: id,
+  values: { revenue, cost },
+})
+
+describe('scoreOptions', () => {
+  it('weights normalised criteria and flips minimised ones', () => {
+    const scored = scoreOptions([option('cheap', 0.4, 0.2), option('premium', 0.8, 0.6)], criteria)
+
+    expect(scored.map(o => o.id)).toEqual(['premium', 'cheap'])
+    expect(scored[0].score).toBeCloseTo(0.75)
+    expect(scored[1].score).toBeCloseTo(0.25)
+    expect(scored.every(o => !o.dominated)).toBe(true)
+  })
+
+  it('flags options beaten on every criterion as dominated', () => {
+    const scored = scoreOptions(
+      [option('cheap', 0.4, 0.2), option('premium', 0.8, 0.6), option('worse', 0.3, 0.5)],
+      criteria
+    )
+    const worse = scored.find(o => o.id === 'worse')!
+
+    expect(worse.dominated).toBe(true)
+    expect(worse.dominatedBy).toEqual(['cheap'])
+    expect(worse.rank).toBe(3)
+  })
+
+  it('shares weight equally when every weight is zero', () => {
+    expect(normaliseWeights(criteria.map(c => ({ ...c, weight: 0 })))).toEqual({ revenue: 0.5, cost: 0.5 })
+  })
+})
+
+describe('multi-criteria run bundles', () => {
+  const nodes: Node[] = [
+    node('decision', 'decision'),
+    node('premium', 'option', { prior: 0.5 }),
+    node('budget', 'option', { prior: 0.5 }),
+    node('revenue', 'outcome', { prior: 0.5, utility: 1 }),
+    node('cost', 'outcome', { prior: 0.5, utility: 1 }),
+    node('notes', 'factor', { prior: 0.5 }),
+  ]
+  const edges: Edge[] = [
+    { id: 'd1', source: 'decision', target: 'premium' },
+    { id: 'd2', source: 'decision', target: 'budget' },
+    { id: 'e1', source: 'premium', target: 'revenue', data: { weight: 0.8, belief: 0.9 } },
+    { id: 'e2', source: 'premium', target: 'cost', data: { weight: 0.8, belief: 0.9 } },
+    { id: 'e3', source: 'budget', target: 'revenue', data: { weight: 0.2, belief: 0.9 } },
+    { id: 'e4', source: 'budget', target: 'cost', data: { weight: 0.1, belief: 0.9 } },
+  ]
+
+  it('ignores criteria that no longer point at an outcome or goal', () => {
+    const stale = [...criteria, { nodeId: 'notes', weight: 1, direction: 'maximise' as const }]
+    expect(activeCriteria(stale, nodes).map(c => c.nodeId)).toEqual(['revenue', 'cost'])
+  })
+
+  it('evaluates every option once per criterion and trades them off', async () => {
+    const graphs = [{ key: 'a', label: 'Pricing', nodes, edges }]
+    const requests = buildCriteriaRequests(graphs, criteria)
+    expect(requests.map(r => [r.criterionId, r.request.outcome_node])).toEqual([
+      ['revenue', 'revenue'],
+      ['cost', 'cost'],
+    ])
+
+    const responses = await Promise.all(
+      requests.map(async ({ criterionId, request }) => ({
+        criterionId,
+        response: await localEngineAdapter.runBundle(request),
+      }))
+    )
+    const values = collectCriteriaValues(graphs, criteria, responses)
+    const premium = values.find(v => v.label === 'premium')!
+    const budget = values.find(v => v.label === 'budget')!
+
+    // Premium earns more but costs more: neither dominates
+    expect(premium.values.revenue).toBeGreaterThan(budget.values.revenue)
+    expect(premium.values.cost).toBeGreaterThan(budget.values.cost)
+    expect(scoreOptions(values, criteria).every(o => !o.dominated)).toBe(true)
+  })
+})
@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest'
+import type { Node, Edge } from '@xyflow/react'
+import {
+  listSweepParameters,
+  buildSweepRequests,
+  summariseSweep,
+  SWEEP_BATCH_SIZE,
+} from '../sensitivitySweep'
+import { localEngineAdapter } from '../../../adapters/plot/localEngineAdapter'
+
+const node = (id: string, type: string, data: Record<string, unknown> = {}): Node => ({
+  id,
+  type,
+  position: { x: 0, y: 0 },
+  data: { label: id, ...data },
+})
+
+const nodes: Node[] = [
+  node('decision', 'decision'),
+  node('demand', 'factor', { prior: 0.5 }),
+  node('noise', 'factor', { prior: 0.5 }),
+  node('revenue', 'outcome', { prior: 0.5, utility: 1 }),
+]
+
+const edges: Edge[] = [
+  { id: 'e-strong', source: 'demand', target: 'revenue', data: { weight: 0.9, belief: 0.9 } },
+  { id: 'e-weak', source: 'noise', target: 'revenue', data: { weight: 0.05, belief: 0.9 } },
+]
+
+describe('listSweepParameters', () => {
+  it('covers edge weight/belief, node priors and outcome utility', () => {
+    const keys = listSweepParameters(nodes, edges, 0.2).map(p => p.key)
+
+    expect(keys).toContain('edge:e-strong:weight')
+    expect(keys).toContain('edge:e-strong:belief')
+    expect(keys).toContain('node:demand:prior')
+    expect(keys).toContain('node:revenue:utility')
+    expect(keys).not.toContain('node:decision:prior')
+    expect(keys).not.toContain('node:demand:utility')
+  })
+
+  it('clamps the range to each field’s bounds', () => {
+    const belief = listSweepParameters(nodes, edges, 0.2).find(p => p.key === 'edge:e-strong:belief')!
+
+    expect(belief.low).toBeCloseTo(0.7)
+    expect(belief.high).toBe(1)
+  })
+})
+
+describe('buildSweepRequests', () => {
+  it('leads with a baseline and batches low/high deltas', () => {
+    const params = listSweepParameters(nodes, edges)
+    const requests = buildSweepRequests(nodes, edges, params)
+    const deltas = requests.flatMap(r => r.deltas)
+
+    expect(deltas[0]).toEqual({ name: 'baseline', modifications: {} })
+    expect(deltas).toHaveLength(1 + params.length * 2)
+    expect(requests.every(r => r.deltas.length <= SWEEP_BATCH_SIZE)).toBe(true)
+    expect(deltas.find(d => d.name === 'edge:e-strong:weight|low')?.modifications).toEqual({
+      edge_overrides: { 'e-strong': { weight: 0.7 } },
+    })
+  })
+
+  it('keys edges by id so parallel edges stay apart, falling back to source and target', () => {
+    const parallel: Edge[] = [...edges, { id: 'e-parallel', source: 'demand', target: 'revenue', data: { weight: 0.4 } }]
+    const params = listSweepParameters(nodes, parallel)
+    const requests = buildSweepRequests(nodes, parallel, params)
+    const deltas = requests.flatMap(r => r.deltas)
+
+    expect(requests[0].base_graph.edges.map(e => e.id)).toEqual(['e-strong', 'e-weak', 'e-parallel'])
+    expect(deltas.find(d => d.name === 'edge:e-parallel:weight|low')?.modifications).toEqual({
+      edge_overrides: { 'e-parallel': { weight: 0.2 } },
+    })
+
+    const unnamed = [{ ...edges[0], id: '' }]
+    const [weight] = listSweepParameters(nodes, unnamed)
+    expect(buildSweepRequests(nodes, unnamed, [weight])[0].deltas[1].modifications).toEqual({
+      edge_overrides: { 'demand-revenue': { weight: 0.7 } },
+    })
+  })
+})
+
+describe('summariseSweep', () => {
+  it('ranks parameters by p50 swing using the local engine', async () => {
+    const params = listSweepParameters(nodes, edges, 0.3)
+    const responses = await Promise.all(
+      buildSweepRequests(nodes, edges, params).map(r => localEngineAdapter.runBundle(r))
+    )
+
+    const { bars } = summariseSweep(params, responses)
+    const swings = bars.map(b => b.swing)
+
+    expect(bars).toHaveLength(params.length)
+    expect(swings).toEqual([...swings].sort((a, b) => b - a))
+
+    const rank = (key: string) => bars.findIndex(b => b.parameter.key === key)
+    // A parent behind a strong edge moves the outcome more than one behind a weak edge
+    expect(rank('node:demand:prior')).toBeLessThan(rank('node:noise:prior'))
+  })
+
+  it('matches results by delta name regardless of response order', () => {
+    const params = listSweepParameters(nodes, edges).slice(0, 1)
+    const key = params[0].key
+    const result = (label: string, p50: number) => ({
+      label, rank: 1, success_probability: 0.5, summary: { p10: p50, p50, p90: p50 },
+    })
+
+    const { baselineP50, bars } = summariseSweep(params, [
+      { results: [result(`${key}|high`, 0.8), result('baseline', 0.5), result(`${key}|low`, 0.3)] },
+    ])
+
+    expect(baselineP50).toBe(0.5)
+    expect(bars[0]).toMatchObject({ lowP50: 0.3, highP50: 0.8 })
+    expect(bars[0].swing).toBeCloseTo(0.5)
+  })
+})
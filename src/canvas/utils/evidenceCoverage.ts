@@ -8,9 +8,10 @@
  *    - Represents the engine's assessment of model evidence quality
  *    - May use different calculation methodology than local counting
  *
- * 2. Local edge provenance counts (evidencedCount/totalCount):
- *    - Counts edges where edge.data.provenance is non-empty
- *    - Used for real-time UI feedback as user adds provenance
+ * 2. Local edge evidence counts (evidencedCount/totalCount):
+ *    - Counts edges with at least one document citation, or a non-empty
+ *      provenance tag that isn't a placeholder
+ *    - Used for real-time UI feedback as user cites and tags evidence
  *
  * This module provides utilities to normalize and convert between
  * these representations for consistent UI display.
@@ -28,6 +29,13 @@ interface EdgeWithProvenance {
   }
 }
 
+/**
+ * Citation shape for evidence checking: only which edge it is attached to
+ */
+interface CitationOnEdge {
+  edgeId?: string
+}
+
 /**
  * Provenance values that do NOT count as real evidence.
  * - 'assumption': User assumption, not external evidence
@@ -37,18 +45,25 @@ interface EdgeWithProvenance {
 const NON_EVIDENCE_PROVENANCE = ['assumption', 'template', 'ai-suggested']
 
 /**
- * Count edges with evidence (non-empty provenance excluding non-evidence markers)
+ * Count edges with evidence (citations, or provenance excluding non-evidence markers)
  *
  * This is the canonical counting function used across all components.
- * "Evidence" means provenance that represents actual supporting data,
- * not default placeholders like 'assumption', 'template', or AI suggestions.
+ * "Evidence" means a cited document passage (supporting or contradicting),
+ * or provenance that represents actual supporting data, not default
+ * placeholders like 'assumption', 'template', or AI suggestions.
  *
  * @param edges - Array of edges to count
+ * @param citations - Document citations; those with an edgeId count for that edge
  * @returns Object with evidenced and total counts
  */
-export function countEdgesWithEvidence(edges: EdgeWithProvenance[]): { evidenced: number; total: number } {
+export function countEdgesWithEvidence(
+  edges: Array<EdgeWithProvenance & { id: string }>,
+  citations: CitationOnEdge[] = []
+): { evidenced: number; total: number } {
+  const cited = new Set(citations.map(c => c.edgeId).filter(Boolean))
   const total = edges.length
   const evidenced = edges.filter(e => {
+    if (cited.has(e.id)) return true
     const provenance = e.data?.provenance
     return provenance && !NON_EVIDENCE_PROVENANCE.includes(provenance)
   }).length
@@ -107,7 +122,7 @@ export function fromBackendPercentage(
 /**
  * Create normalized coverage from local edge counts
  *
- * @param evidencedCount - Number of edges with provenance
+ * @param evidencedCount - Number of edges with evidence
  * @param totalCount - Total number of edges
  * @returns NormalizedEvidenceCoverage
  */
@@ -135,7 +150,7 @@ export function fromLocalCounts(
  * for real-time accuracy, with backend fallback.
  *
  * P0.2: This function establishes the canonical priority order:
- * 1. Local edge provenance counts (most accurate, real-time)
+ * 1. Local edge evidence counts (most accurate, real-time)
  * 2. Backend graph_quality.evidence_coverage (engine assessment)
  * 3. Null if neither available
  *
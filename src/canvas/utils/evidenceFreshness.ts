@@ -0,0 +1,198 @@
+/**
+ * Evidence Freshness (local)
+ *
+ * Computes the engine's `evidence_freshness` summary on the client, so the
+ * freshness badge works with or without the engine.
+ *
+ * An edge's evidence dates from its newest citation: the cited document's
+ * own date when known (a 2019 report stays a 2019 report however recently it
+ * was cited), otherwise when the citation was made. "Mark reviewed" also
+ * counts as an update. Age is judged against thresholds for the kind of node
+ * the edge points at, since evidence about risks ages faster than evidence
+ * about goals.
+ *
+ * Expiry: evidence expires at the edge's review-by date when set, otherwise
+ * once it turns stale. Past expiry, the displayed belief decays (halving
+ * every `beliefHalfLifeDays`); the stored belief is untouched.
+ */
+
+import type { Node } from '@xyflow/react'
+import type { Citation, Document } from '../share/types'
+import type { NodeType } from '../domain/nodes'
+import type { EdgeData } from '../domain/edges'
+import type { EdgeFreshness, EvidenceFreshness, FreshnessQuality } from '../../types/plot'
+
+export interface FreshnessThresholds {
+  agingDays: number // Evidence this old or older is AGING
+  staleDays: number // ... and this old or older is STALE
+}
+
+export interface FreshnessRules {
+  thresholds: Record<NodeType, FreshnessThresholds>
+  beliefHalfLifeDays: number
+}
+
+export const DEFAULT_FRESHNESS_RULES: FreshnessRules = {
+  thresholds: {
+    goal: { agingDays: 180, staleDays: 365 },
+    decision: { agingDays: 90, staleDays: 180 },
+    option: { agingDays: 90, staleDays: 180 },
+    factor: { agingDays: 60, staleDays: 120 },
+    risk: { agingDays: 30, staleDays: 90 },
+    outcome: { agingDays: 90, staleDays: 180 },
+  },
+  beliefHalfLifeDays: 60,
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/** Freshness of one edge; `expires_at` is local-only (the engine doesn't send it) */
+export interface LocalEdgeFreshness extends EdgeFreshness {
+  expires_at?: string
+  review_by?: string
+}
+
+interface FreshnessEdge {
+  id: string
+  target: string
+  data?: Record<string, unknown>
+}
+
+/** The edge data fields freshness reads */
+type FreshnessEdgeData = Pick<EdgeData, 'provenance' | 'reviewBy' | 'reviewedAt'>
+
+function toTime(value: string | Date | undefined | null): number | null {
+  if (!value) return null
+  const time = value instanceof Date ? value.getTime() : Date.parse(value)
+  return Number.isNaN(time) ? null : time
+}
+
+/** When the evidence cited on an edge dates from (newest citation), or null */
+export function latestEvidenceTime(
+  citations: Pick<Citation, 'edgeId' | 'documentId' | 'createdAt'>[],
+  documents: Pick<Document, 'id' | 'metadata'>[],
+  edgeId: string
+): number | null {
+  let latest: number | null = null
+  for (const citation of citations) {
+    if (citation.edgeId !== edgeId) continue
+    const documentDate = documents.find(d => d.id === citation.documentId)?.metadata?.date
+    const time = toTime(documentDate) ?? toTime(citation.createdAt)
+    if (time !== null && (latest === null || time > latest)) latest = time
+  }
+  return latest
+}
+
+export function thresholdsFor(rules: FreshnessRules, nodeType: string | undefined): FreshnessThresholds {
+  return rules.thresholds[nodeType as NodeType] ?? rules.thresholds.factor
+}
+
+/**
+ * Assess one edge's evidence. UNKNOWN when nothing dates it, unless its
+ * review-by date has already passed.
+ */
+export function assessEdgeFreshness(
+  input: {
+    edgeId: string
+    evidenceAt: number | null
+    reviewedAt?: string
+    reviewBy?: string
+    provenance?: string
+    thresholds: FreshnessThresholds
+  },
+  now: number = Date.now()
+): LocalEdgeFreshness {
+  const reviewedAt = toTime(input.reviewedAt)
+  const reviewBy = toTime(input.reviewBy)
+  const updated = Math.max(input.evidenceAt ?? -Infinity, reviewedAt ?? -Infinity)
+  const known = Number.isFinite(updated)
+
+  const ageDays = known ? Math.max(0, Math.floor((now - updated) / DAY_MS)) : undefined
+  const expiresAt = reviewBy ?? (known ? updated + input.thresholds.staleDays * DAY_MS : null)
+
+  let quality: FreshnessQuality = 'UNKNOWN'
+  if (reviewBy !== null && now >= reviewBy) quality = 'STALE'
+  else if (ageDays !== undefined) {
+    quality = ageDays >= input.thresholds.staleDays ? 'STALE' : ageDays >= input.thresholds.agingDays ? 'AGING' : 'FRESH'
+  }
+
+  return {
+    edge_id: input.edgeId,
+    quality,
+    age_days: ageDays,
+    last_updated: known ? new Date(updated).toISOString() : undefined,
+    provenance: input.provenance,
+    expires_at: expiresAt !== null ? new Date(expiresAt).toISOString() : undefined,
+    review_by: input.reviewBy,
+  }
+}
+
+/** Worst known level across edges (as calculateAggregateFreshness does for timestamps) */
+function overallQuality(counts: Pick<EvidenceFreshness, 'stale_count' | 'aging_count' | 'fresh_count'>): FreshnessQuality {
+  if (counts.stale_count > 0) return 'STALE'
+  if (counts.aging_count > 0) return 'AGING'
+  if (counts.fresh_count > 0) return 'FRESH'
+  return 'UNKNOWN'
+}
+
+/** The `evidence_freshness` summary for a graph, in the engine's shape */
+export function computeEvidenceFreshness(
+  graph: {
+    nodes: Pick<Node, 'id' | 'type'>[]
+    edges: FreshnessEdge[]
+    citations: Pick<Citation, 'edgeId' | 'documentId' | 'createdAt'>[]
+    documents: Pick<Document, 'id' | 'metadata'>[]
+  },
+  rules: FreshnessRules = DEFAULT_FRESHNESS_RULES,
+  now: number = Date.now()
+): EvidenceFreshness & { edge_freshness: LocalEdgeFreshness[] } {
+  const nodeTypes = new Map(graph.nodes.map(n => [n.id, n.type]))
+  const edgeFreshness = graph.edges.map(edge => {
+    const data = (edge.data ?? {}) as FreshnessEdgeData
+    return assessEdgeFreshness(
+      {
+        edgeId: edge.id,
+        evidenceAt: latestEvidenceTime(graph.citations, graph.documents, edge.id),
+        reviewedAt: data.reviewedAt,
+        reviewBy: data.reviewBy,
+        provenance: data.provenance,
+        thresholds: thresholdsFor(rules, nodeTypes.get(edge.target)),
+      },
+      now
+    )
+  })
+
+  const count = (quality: FreshnessQuality) => edgeFreshness.filter(e => e.quality === quality).length
+  const counts = {
+    stale_count: count('STALE'),
+    fresh_count: count('FRESH'),
+    aging_count: count('AGING'),
+    unknown_count: count('UNKNOWN'),
+  }
+  return { overall_quality: overallQuality(counts), edge_freshness: edgeFreshness, ...counts }
+}
+
+/**
+ * Belief to display once evidence has expired: halves every half-life past
+ * expiry. Unchanged before expiry or when nothing dates the evidence.
+ */
+export function decayedBelief(
+  belief: number,
+  freshness: Pick<LocalEdgeFreshness, 'expires_at'>,
+  halfLifeDays: number,
+  now: number = Date.now()
+): number {
+  const expiresAt = toTime(freshness.expires_at)
+  if (expiresAt === null || now <= expiresAt || halfLifeDays <= 0) return belief
+  const daysExpired = (now - expiresAt) / DAY_MS
+  return belief * Math.pow(0.5, daysExpired / halfLifeDays)
+}
+
+/** One-line reason an edge's evidence is stale, for the review queue */
+export function describeStaleness(freshness: LocalEdgeFreshness, now: number = Date.now()): string {
+  const reviewBy = toTime(freshness.review_by)
+  if (reviewBy !== null && now >= reviewBy) {
+    return `Review was due ${new Date(reviewBy).toLocaleDateString()}`
+  }
+  return freshness.age_days !== undefined ? `Evidence is ${freshness.age_days} days old` : 'Evidence has expired'
+}
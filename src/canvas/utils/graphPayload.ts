@@ -19,6 +19,10 @@ export function buildRichGraphPayload(nodes: any[], edges: any[]) {
       label: n.data?.label || '',
       type: n.type || 'decision',
       value: n.data?.value,
+      ...(n.data?.distribution && n.data.distribution.kind !== 'point'
+        ? { distribution: n.data.distribution, unit: n.data.unit }
+        : {}),
+      ...(n.data?.cpt ? { cpt: n.data.cpt } : {}),
     })),
     edges: edges.map((e) => ({
       from: e.source,
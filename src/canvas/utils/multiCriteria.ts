@@ -0,0 +1,194 @@
+/**
+ * Multi-criteria Scoring
+ *
+ * Decisions are often judged on several outcomes at once (cost, time, risk,
+ * satisfaction). Each criterion is an outcome/goal node with a weight and a
+ * direction. Every option is evaluated once per criterion (a run bundle with
+ * that node as the outcome), the p50s are min-max normalised across options
+ * so criteria on different scales are comparable, and the weighted sum gives
+ * one score per option. Options beaten on every criterion are flagged as
+ * dominated (off the Pareto frontier).
+ */
+
+import type { Node, Edge } from '@xyflow/react'
+import type { RunBundleRequest, RunBundleResponse } from '../../adapters/plot/types'
+import { findDecisionOptions } from '../../adapters/plot/local/valueOfInformation'
+import type { DecisionCriterion } from '../store/scenarios'
+
+export interface CriteriaGraph {
+  /** Prefix for option ids, keeps options from different scenarios apart */
+  key: string
+  label: string
+  nodes: Node[]
+  edges: Edge[]
+}
+
+export interface CriteriaRequest {
+  criterionId: string
+  request: RunBundleRequest
+}
+
+export interface OptionCriteriaValues {
+  id: string
+  label: string
+  /** p50 per criterion node id */
+  values: Record<string, number>
+}
+
+export interface ScoredOption extends OptionCriteriaValues {
+  /** Weighted, normalised score, 0-1 (higher is better) */
+  score: number
+  rank: number
+  dominated: boolean
+  /** Ids of options that beat this one on every criterion */
+  dominatedBy: string[]
+}
+
+export const DEFAULT_CRITERION_WEIGHT = 1
+
+/** Delta name used when a graph has no decision options to compare */
+const CURRENT_DELTA = 'current'
+
+const nodeKind = (node: Node): string | undefined => {
+  const raw = (node.data as Record<string, unknown> | undefined)?.kind ?? node.type
+  return typeof raw === 'string' ? raw.toLowerCase() : undefined
+}
+
+const nodeLabel = (node: Node | undefined, fallback: string): string =>
+  String((node?.data as Record<string, unknown> | undefined)?.label ?? fallback)
+
+/** Outcome and goal nodes can be criteria */
+export const isCriterionCandidate = (node: Node): boolean => {
+  const kind = nodeKind(node)
+  return kind === 'outcome' || kind === 'goal'
+}
+
+/**
+ * Criteria that still point at a candidate node and carry weight
+ */
+export function activeCriteria(criteria: DecisionCriterion[] | undefined, nodes: Node[]): DecisionCriterion[] {
+  if (!criteria) return []
+  const candidates = new Set(nodes.filter(isCriterionCandidate).map(n => n.id))
+  return criteria.filter(c => candidates.has(c.nodeId) && c.weight > 0)
+}
+
+/**
+ * Weights as shares of the total (equal shares if every weight is zero)
+ */
+export function normaliseWeights(criteria: DecisionCriterion[]): Record<string, number> {
+  const total = criteria.reduce((sum, c) => sum + Math.max(0, c.weight), 0)
+  return Object.fromEntries(
+    criteria.map(c => [c.nodeId, total > 0 ? Math.max(0, c.weight) / total : 1 / criteria.length])
+  )
+}
+
+/**
+ * Build one run-bundle request per graph and criterion. Deltas select each
+ * decision option; delta names are `${graph.key}:${optionId}`.
+ */
+export function buildCriteriaRequests(graphs: CriteriaGraph[], criteria: DecisionCriterion[]): CriteriaRequest[] {
+  const requests: CriteriaRequest[] = []
+
+  for (const graph of graphs) {
+    const byId = new Map(graph.nodes.map(n => [n.id, n]))
+    const present = criteria.filter(c => byId.has(c.nodeId))
+    if (present.length === 0) continue
+
+    const base_graph: RunBundleRequest['base_graph'] = {
+      nodes: graph.nodes.map(n => ({
+        ...(n.data as Record<string, unknown>),
+        id: n.id,
+        label: nodeLabel(n, n.id),
+        kind: nodeKind(n),
+      })),
+      edges: graph.edges.map(e => ({
+        ...(e.data as Record<string, unknown> | undefined),
+        source: e.source,
+        target: e.target,
+      })),
+    }
+
+    const optionIds = findDecisionOptions(graph)
+    const deltas: RunBundleRequest['deltas'] = optionIds.length > 0
+      ? optionIds.map(id => ({ name: `${graph.key}:${id}`, modifications: { selected_option: id } }))
+      : [{ name: `${graph.key}:${CURRENT_DELTA}`, modifications: {} }]
+
+    for (const criterion of present) {
+      requests.push({
+        criterionId: criterion.nodeId,
+        request: { base_graph, deltas, include_ranking: false, outcome_node: criterion.nodeId },
+      })
+    }
+  }
+
+  return requests
+}
+
+/**
+ * Collect p50 per option and criterion from the bundle responses. Options
+ * missing a criterion (the node is absent from their graph) are dropped.
+ */
+export function collectCriteriaValues(
+  graphs: CriteriaGraph[],
+  criteria: DecisionCriterion[],
+  responses: Array<{ criterionId: string; response: RunBundleResponse }>
+): OptionCriteriaValues[] {
+  const options = new Map<string, OptionCriteriaValues>()
+  const labelOf = (id: string): string => {
+    const [key, optionId] = [id.slice(0, id.indexOf(':')), id.slice(id.indexOf(':') + 1)]
+    const graph = graphs.find(g => g.key === key)
+    if (!graph) return id
+    if (optionId === CURRENT_DELTA) return graph.label
+    const label = nodeLabel(graph.nodes.find(n => n.id === optionId), optionId)
+    return graphs.length > 1 ? `${graph.label} · ${label}` : label
+  }
+
+  for (const { criterionId, response } of responses) {
+    for (const result of response.results) {
+      const option = options.get(result.label) ?? { id: result.label, label: labelOf(result.label), values: {} }
+      option.values[criterionId] = result.summary.p50
+      options.set(result.label, option)
+    }
+  }
+
+  return [...options.values()].filter(o => criteria.every(c => o.values[c.nodeId] !== undefined))
+}
+
+/** True when `a` is at least as good as `b` on every criterion and better on one */
+export function dominates(a: OptionCriteriaValues, b: OptionCriteriaValues, criteria: DecisionCriterion[]): boolean {
+  let better = false
+  for (const c of criteria) {
+    const sign = c.direction === 'minimise' ? -1 : 1
+    const diff = sign * (a.values[c.nodeId] - b.values[c.nodeId])
+    if (diff < 0) return false
+    if (diff > 0) better = true
+  }
+  return better
+}
+
+/**
+ * Weighted score, rank and Pareto dominance per option, best first
+ */
+export function scoreOptions(options: OptionCriteriaValues[], criteria: DecisionCriterion[]): ScoredOption[] {
+  const weights = normaliseWeights(criteria)
+  const ranges = new Map(criteria.map(c => {
+    const values = options.map(o => o.values[c.nodeId])
+    return [c.nodeId, [Math.min(...values), Math.max(...values)] as const]
+  }))
+
+  const scored = options.map((option) => {
+    let score = 0
+    for (const c of criteria) {
+      const [lo, hi] = ranges.get(c.nodeId)!
+      // All options tie on this criterion: it cannot separate them
+      const normalised = hi > lo ? (option.values[c.nodeId] - lo) / (hi - lo) : 0.5
+      score += weights[c.nodeId] * (c.direction === 'minimise' ? 1 - normalised : normalised)
+    }
+    const dominatedBy = options.filter(o => o !== option && dominates(o, option, criteria)).map(o => o.id)
+    return { ...option, score, rank: 0, dominated: dominatedBy.length > 0, dominatedBy }
+  })
+
+  return scored
+    .sort((a, b) => b.score - a.score || a.label.localeCompare(b.label))
+    .map((option, i) => ({ ...option, rank: i + 1 }))
+}
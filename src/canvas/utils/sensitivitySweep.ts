@@ -0,0 +1,214 @@
+/**
+ * One-way Sensitivity Sweep
+ *
+ * Builds run-bundle deltas that move one parameter at a time (edge weight and
+ * belief, node prior and utility) to the low and high end of a range while
+ * everything else stays at its canvas value, then folds the bundle response
+ * into tornado bars ranked by p50 swing.
+ */
+
+import type { Node, Edge } from '@xyflow/react'
+import type { RunBundleRequest, RunBundleResponse } from '../../adapters/plot/types'
+
+export type SweepField = 'weight' | 'belief' | 'prior' | 'utility'
+
+export interface SweepParameter {
+  key: string // Stable key, also the delta name prefix
+  elementKind: 'node' | 'edge'
+  elementId: string
+  field: SweepField
+  label: string
+  /** Nodes to highlight when the bar is selected */
+  nodeIds: string[]
+  base: number
+  low: number
+  high: number
+}
+
+export interface TornadoBar {
+  parameter: SweepParameter
+  lowP50: number
+  highP50: number
+  /** |highP50 - lowP50|, the bar length */
+  swing: number
+}
+
+export interface SweepResult {
+  baselineP50: number
+  bars: TornadoBar[]
+}
+
+/** Range presets offered in the UI (absolute, in each parameter's own units) */
+export const SWEEP_RANGES = [0.1, 0.2, 0.3] as const
+export const DEFAULT_SWEEP_RANGE = 0.2
+
+/** Deltas per runBundle call, keeps each request well under engine limits */
+export const SWEEP_BATCH_SIZE = 40
+
+const BASELINE_DELTA = 'baseline'
+
+// Values the engine assumes when a field is unset
+const FIELD_DEFAULTS: Record<SweepField, number> = {
+  weight: 0.5,
+  belief: 1,
+  prior: 0.5,
+  utility: 1,
+}
+
+const FIELD_BOUNDS: Record<SweepField, [number, number]> = {
+  weight: [-1, 1],
+  belief: [0, 1],
+  prior: [0, 1],
+  utility: [-1, 1],
+}
+
+const clamp = (value: number, [lo, hi]: [number, number]): number => Math.min(hi, Math.max(lo, value))
+
+const readNumber = (value: unknown, fallback: number): number =>
+  typeof value === 'number' && Number.isFinite(value) ? value : fallback
+
+const nodeKind = (node: Node): string | undefined => {
+  const raw = (node.data as Record<string, unknown> | undefined)?.kind ?? node.type
+  return typeof raw === 'string' ? raw.toLowerCase() : undefined
+}
+
+const nodeLabel = (node: Node | undefined, fallback: string): string =>
+  String((node?.data as Record<string, unknown> | undefined)?.label ?? fallback)
+
+/**
+ * Edge key shared by every adapter's run-bundle mapping: the edge id, or
+ * `${source}-${target}` for an edge without one (parallel edges need ids)
+ */
+export const sweepEdgeKey = (edge: Pick<Edge, 'id' | 'source' | 'target'>): string =>
+  edge.id || `${edge.source}-${edge.target}`
+
+function makeParameter(
+  elementKind: SweepParameter['elementKind'],
+  elementId: string,
+  field: SweepField,
+  label: string,
+  nodeIds: string[],
+  rawValue: unknown,
+  range: number
+): SweepParameter | null {
+  const bounds = FIELD_BOUNDS[field]
+  const base = clamp(readNumber(rawValue, FIELD_DEFAULTS[field]), bounds)
+  const low = clamp(base - range, bounds)
+  const high = clamp(base + range, bounds)
+  if (low === high) return null
+  return {
+    key: `${elementKind}:${elementId}:${field}`,
+    elementKind,
+    elementId,
+    field,
+    label: `${label} · ${field}`,
+    nodeIds,
+    base,
+    low,
+    high,
+  }
+}
+
+/**
+ * List every parameter the sweep varies
+ *
+ * Utility only matters on outcome/goal nodes and decision nodes carry no
+ * prior, so those combinations are skipped.
+ */
+export function listSweepParameters(nodes: Node[], edges: Edge[], range = DEFAULT_SWEEP_RANGE): SweepParameter[] {
+  const byId = new Map(nodes.map(n => [n.id, n]))
+  const params: SweepParameter[] = []
+
+  for (const edge of edges) {
+    if (!byId.has(edge.source) || !byId.has(edge.target)) continue
+    const label = `${nodeLabel(byId.get(edge.source), edge.source)} → ${nodeLabel(byId.get(edge.target), edge.target)}`
+    const data = (edge.data ?? {}) as Record<string, unknown>
+    for (const field of ['weight', 'belief'] as const) {
+      const param = makeParameter('edge', edge.id, field, label, [edge.source, edge.target], data[field], range)
+      if (param) params.push(param)
+    }
+  }
+
+  for (const node of nodes) {
+    const kind = nodeKind(node)
+    const data = (node.data ?? {}) as Record<string, unknown>
+    const label = nodeLabel(node, node.id)
+    if (kind !== 'decision') {
+      const param = makeParameter('node', node.id, 'prior', label, [node.id], data.prior, range)
+      if (param) params.push(param)
+    }
+    if (kind === 'outcome' || kind === 'goal') {
+      const param = makeParameter('node', node.id, 'utility', label, [node.id], data.utility, range)
+      if (param) params.push(param)
+    }
+  }
+
+  return params
+}
+
+function modificationsFor(param: SweepParameter, value: number, edges: Edge[]): Record<string, unknown> {
+  if (param.elementKind === 'node') {
+    return { node_overrides: { [param.elementId]: { [param.field]: value } } }
+  }
+  const edge = edges.find(e => e.id === param.elementId)!
+  return { edge_overrides: { [sweepEdgeKey(edge)]: { [param.field]: value } } }
+}
+
+/**
+ * Build run-bundle requests for a sweep, split into batches.
+ * The first batch leads with an unmodified baseline delta.
+ */
+export function buildSweepRequests(nodes: Node[], edges: Edge[], params: SweepParameter[]): RunBundleRequest[] {
+  const base_graph: RunBundleRequest['base_graph'] = {
+    nodes: nodes.map(n => ({
+      ...(n.data as Record<string, unknown>),
+      id: n.id,
+      label: nodeLabel(n, n.id),
+      kind: nodeKind(n),
+    })),
+    // Ids keep parallel edges apart; overrides use the same key (sweepEdgeKey)
+    edges: edges.map(e => ({
+      ...(e.data as Record<string, unknown> | undefined),
+      ...(e.id ? { id: e.id } : {}),
+      source: e.source,
+      target: e.target,
+    })),
+  }
+
+  const deltas: RunBundleRequest['deltas'] = [{ name: BASELINE_DELTA, modifications: {} }]
+  for (const param of params) {
+    deltas.push({ name: `${param.key}|low`, modifications: modificationsFor(param, param.low, edges) })
+    deltas.push({ name: `${param.key}|high`, modifications: modificationsFor(param, param.high, edges) })
+  }
+
+  const requests: RunBundleRequest[] = []
+  for (let i = 0; i < deltas.length; i += SWEEP_BATCH_SIZE) {
+    requests.push({ base_graph, deltas: deltas.slice(i, i + SWEEP_BATCH_SIZE), include_ranking: false })
+  }
+  return requests
+}
+
+/**
+ * Fold bundle responses into tornado bars, widest swing first
+ * Results are matched by delta name since bundles come back ranked, not in request order.
+ */
+export function summariseSweep(params: SweepParameter[], responses: RunBundleResponse[]): SweepResult {
+  const p50ByName = new Map<string, number>()
+  for (const response of responses) {
+    for (const result of response.results) {
+      p50ByName.set(result.label, result.summary.p50)
+    }
+  }
+
+  const baselineP50 = p50ByName.get(BASELINE_DELTA) ?? 0
+  const bars: TornadoBar[] = []
+  for (const parameter of params) {
+    const lowP50 = p50ByName.get(`${parameter.key}|low`)
+    const highP50 = p50ByName.get(`${parameter.key}|high`)
+    if (lowP50 === undefined || highP50 === undefined) continue
+    bars.push({ parameter, lowP50, highP50, swing: Math.abs(highP50 - lowP50) })
+  }
+
+  bars.sort((a, b) => b.swing - a.swing || (a.parameter.key < b.parameter.key ? -1 : 1))
+  return { baselineP50, bars }
+}
@@ -1,7 +1,9 @@
 /**
  * Share link utilities for parsing and validating run hash URLs
  *
- * Share links are local-device only (no backend sync in current scope)
+ * Run-hash links resolve from this device's run history, so they only open
+ * where the run happened. To share with someone else, use a share bundle
+ * (canvas/share/bundle.ts), which carries the analysis itself.
  */
 
 /**
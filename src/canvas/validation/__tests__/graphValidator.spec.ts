@@ -246,4 +246,28 @@ describe('validateGraph (M4)', () => {
     const probIssue = health.issues.find((i) => i.type === 'probability_error')
     expect(probIssue).toBeUndefined()
   })
+
+  it('flags probability table rows that do not total 100%', () => {
+    const nodes: Node[] = [
+      { id: 'supplier', type: 'risk', data: { label: 'Supplier fails' }, position: { x: 0, y: 0 } },
+      {
+        id: 'delay',
+        type: 'risk',
+        data: {
+          label: 'Delay',
+          cpt: { parents: ['supplier'], states: ['Occurs', 'Does not occur'], rows: { yes: [0.7, 0.3], no: [0.2, 0.6] } },
+        },
+        position: { x: 100, y: 0 },
+      },
+    ]
+    const edges: Edge[] = [{ id: 'e1', source: 'supplier', target: 'delay' }]
+
+    const health = validateGraph(nodes, edges)
+
+    const cptIssues = health.issues.filter((i) => i.type === 'cpt_error')
+    expect(cptIssues).toHaveLength(1)
+    expect(cptIssues[0].severity).toBe('error')
+    expect(cptIssues[0].message).toContain('80%')
+    expect(cptIssues[0].nodeIds).toEqual(['delay'])
+  })
 })
@@ -5,6 +5,7 @@
 
 import type { Node, Edge } from '@xyflow/react'
 import type { EdgeData } from '../domain/edges'
+import { CptSchema, cptIssues } from '../domain/cpt'
 import type { ValidationIssue, GraphHealth, IssueType, IssueSeverity } from './types'
 
 /**
@@ -34,6 +35,9 @@ export function validateGraph(nodes: Node[], edges: Edge[]): GraphHealth {
   // Phase 3: Detect probability errors (outgoing edges must sum to 100%)
   issues.push(...detectProbabilityErrors(nodes, edges))
 
+  // Conditional probability tables (rows must sum to 100%, parents must match)
+  issues.push(...detectCptErrors(nodes, edges))
+
   // Calculate health score
   const errorCount = issues.filter((i) => i.severity === 'error').length
   const warningCount = issues.filter((i) => i.severity === 'warning').length
@@ -300,6 +304,43 @@ function detectProbabilityErrors(nodes: Node[], edges: Edge[]): ValidationIssue[
   return issues
 }
 
+/**
+ * Detect conditional probability table problems on risk/factor nodes
+ * Invalid tables are ignored by the engines, so these block analysis
+ */
+function detectCptErrors(nodes: Node[], edges: Edge[]): ValidationIssue[] {
+  const issues: ValidationIssue[] = []
+
+  for (const node of nodes) {
+    if (node.data?.cpt === undefined) continue
+    const nodeLabel = node.data?.label || node.id
+
+    const parsed = CptSchema.safeParse(node.data.cpt)
+    if (!parsed.success) {
+      issues.push({
+        id: `cpt-${node.id}`,
+        type: 'cpt_error',
+        severity: 'error',
+        message: `"${nodeLabel}" has an unreadable probability table`,
+        nodeIds: [node.id],
+      })
+      continue
+    }
+
+    cptIssues(node.id, parsed.data, nodes, edges).forEach((problem, i) => {
+      issues.push({
+        id: `cpt-${node.id}-${problem.rowKey ?? i}`,
+        type: 'cpt_error',
+        severity: problem.severity,
+        message: `"${nodeLabel}": ${problem.message}`,
+        nodeIds: [node.id],
+      })
+    })
+  }
+
+  return issues
+}
+
 /**
  * Helper: Build adjacency list from edges
  */
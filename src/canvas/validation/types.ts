@@ -12,6 +12,7 @@ export type IssueType =
   | 'invalid_type'
   | 'self_loop'
   | 'probability_error'
+  | 'cpt_error'
 
 export type IssueSeverity = 'error' | 'warning' | 'info'
 
@@ -41,6 +42,7 @@ export interface GraphHealth {
 
 export interface NeedleMover {
   nodeId: string
+  label?: string
   impact: number // 0-1 (relative impact on decision)
   reason: string
   type: 'high' | 'medium' | 'low'
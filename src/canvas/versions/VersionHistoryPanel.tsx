@@ -0,0 +1,311 @@
+/**
+ * Version History Panel
+ *
+ * Branching history for the current scenario: commit the canvas as a named
+ * version, start a branch (e.g. "aggressive hiring" off "main"), switch
+ * between branches and merge one into another through VersionMergeDialog.
+ * Checkout and merge replace the canvas as a single undoable edit; save the
+ * scenario afterwards as usual.
+ */
+
+import { useCallback, useEffect, useState } from 'react'
+import { GitBranch, GitCommit, GitMerge, X } from 'lucide-react'
+import { useCanvasStore } from '../store'
+import { useToast } from '../ToastContext'
+import { typography } from '../../styles/typography'
+import { graphHash } from '../store/scenarioSync'
+import type { MergeResult, VersionGraph } from './merge'
+import { VersionMergeDialog } from './VersionMergeDialog'
+import {
+  loadVersionHistory,
+  commitVersion,
+  createBranch,
+  checkoutBranch,
+  prepareMerge,
+  commitMerge,
+  commitLog,
+  headCommitId,
+  VersionError,
+  type VersionHistory,
+  type VersionCommit,
+} from './versionGraph'
+
+interface VersionHistoryPanelProps {
+  scenarioId: string
+  scenarioName: string
+  onClose: () => void
+}
+
+const formatTime = (ms: number) =>
+  new Date(ms).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' })
+
+export function VersionHistoryPanel({ scenarioId, scenarioName, onClose }: VersionHistoryPanelProps) {
+  const nodes = useCanvasStore(s => s.nodes)
+  const edges = useCanvasStore(s => s.edges)
+  const restoreGraph = useCanvasStore(s => s.restoreGraph)
+  const { showToast } = useToast()
+
+  const [history, setHistory] = useState<VersionHistory | null>(null)
+  const [message, setMessage] = useState('')
+  const [branchName, setBranchName] = useState('')
+  const [mergeSource, setMergeSource] = useState('')
+  const [merge, setMerge] = useState<{ source: string; result: MergeResult } | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const refresh = useCallback(async () => {
+    setHistory(await loadVersionHistory(scenarioId))
+  }, [scenarioId])
+
+  useEffect(() => {
+    void refresh()
+  }, [refresh])
+
+  const run = async (action: () => Promise<void>) => {
+    setError(null)
+    try {
+      await action()
+      await refresh()
+    } catch (err) {
+      if (err instanceof VersionError) setError(err.message)
+      else {
+        console.error('[VersionHistoryPanel] Action failed:', err)
+        setError('Something went wrong. Please try again.')
+      }
+    }
+  }
+
+  if (!history) return null
+
+  const headId = headCommitId(history)
+  const head = headId ? history.commits[headId] : null
+  const hasUncommitted = !head || graphHash(head.graph) !== graphHash({ nodes, edges })
+  const branches = Object.keys(history.branches).sort()
+  const otherBranches = branches.filter(b => b !== history.head)
+  const log = commitLog(history)
+
+  const handleCommit = () => run(async () => {
+    await commitVersion(scenarioId, { nodes, edges }, message)
+    setMessage('')
+    showToast('Version committed', 'success')
+  })
+
+  const handleBranch = () => run(async () => {
+    await createBranch(scenarioId, branchName)
+    setBranchName('')
+  })
+
+  const handleCheckout = (branch: string) => run(async () => {
+    if (hasUncommitted && !confirm('The canvas has changes that are not committed. Switch branch anyway?')) return
+    const { graph } = await checkoutBranch(scenarioId, branch)
+    restoreGraph(graph)
+  })
+
+  const handleRestore = (commit: VersionCommit) => run(async () => {
+    if (hasUncommitted && !confirm('The canvas has changes that are not committed. Restore this version anyway?')) return
+    restoreGraph(commit.graph)
+  })
+
+  const handlePrepareMerge = () => run(async () => {
+    const { result } = await prepareMerge(scenarioId, mergeSource, { nodes, edges })
+    setMerge({ source: mergeSource, result })
+  })
+
+  const handleMerge = (graph: VersionGraph) => run(async () => {
+    if (!merge) return
+    restoreGraph(graph)
+    await commitMerge(scenarioId, merge.source, graph)
+    showToast(`Merged ${merge.source} into ${history.head}`, 'success')
+    setMerge(null)
+    setMergeSource('')
+  })
+
+  return (
+    <>
+      <div
+        className="fixed inset-0 z-[2001] flex items-center justify-center bg-black/50"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="version-history-title"
+        data-testid="version-history-panel"
+      >
+        <div className="bg-white rounded-lg shadow-panel w-[32rem] max-h-[85vh] flex flex-col">
+          <div className="flex items-center justify-between px-6 pt-5 pb-3 border-b border-gray-200">
+            <div>
+              <h3 id="version-history-title" className={`${typography.h4} text-gray-900`}>Version history</h3>
+              <p className={`${typography.caption} text-gray-500`}>
+                {scenarioName} · on <span className="font-medium text-gray-700">{history.head}</span>
+              </p>
+            </div>
+            <button
+              type="button"
+              onClick={onClose}
+              className="p-1 text-gray-500 hover:text-gray-700 rounded"
+              aria-label="Close version history"
+            >
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+
+          <div className="px-6 py-4 space-y-4 overflow-y-auto">
+            {error && (
+              <div role="alert" className={`${typography.caption} text-danger-700 bg-danger-50 rounded px-3 py-2`}>
+                {error}
+              </div>
+            )}
+
+            {/* Commit */}
+            <div>
+              <label htmlFor="version-message" className={`${typography.label} text-gray-700`}>
+                Commit the canvas{hasUncommitted ? '' : ' (no changes since the last version)'}
+              </label>
+              <div className="flex gap-2 mt-1">
+                <input
+                  id="version-message"
+                  type="text"
+                  value={message}
+                  onChange={e => setMessage(e.target.value)}
+                  onKeyDown={e => { if (e.key === 'Enter' && message.trim()) void handleCommit() }}
+                  placeholder="What changed?"
+                  maxLength={120}
+                  className="flex-1 px-3 py-1.5 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-info-500"
+                />
+                <button
+                  type="button"
+                  onClick={() => void handleCommit()}
+                  disabled={!message.trim()}
+                  className="flex items-center gap-1.5 px-3 py-1.5 text-sm text-white bg-info-600 hover:bg-info-700 rounded-lg disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                >
+                  <GitCommit className="w-4 h-4" />
+                  Commit
+                </button>
+              </div>
+            </div>
+
+            {/* Branches */}
+            <div>
+              <div className={`${typography.label} text-gray-700 mb-1`}>Branches</div>
+              {branches.length === 0 ? (
+                <p className={`${typography.caption} text-gray-500`}>Commit a version to start the {history.head} branch.</p>
+              ) : (
+                <ul className="flex flex-wrap gap-2 mb-2">
+                  {branches.map(branch => (
+                    <li key={branch}>
+                      <button
+                        type="button"
+                        onClick={() => branch !== history.head && void handleCheckout(branch)}
+                        aria-pressed={branch === history.head}
+                        className={`flex items-center gap-1 px-2 py-1 ${typography.caption} rounded-full border transition-colors ${
+                          branch === history.head
+                            ? 'bg-info-50 border-info-300 text-info-800'
+                            : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50'
+                        }`}
+                        title={branch === history.head ? 'Checked out' : `Check out ${branch}`}
+                      >
+                        <GitBranch className="w-3 h-3" />
+                        {branch}
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+              <div className="flex gap-2">
+                <input
+                  type="text"
+                  value={branchName}
+                  onChange={e => setBranchName(e.target.value)}
+                  placeholder="New branch name"
+                  aria-label="New branch name"
+                  maxLength={60}
+                  className="flex-1 px-3 py-1.5 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-info-500"
+                />
+                <button
+                  type="button"
+                  onClick={() => void handleBranch()}
+                  disabled={!branchName.trim() || !headId}
+                  className="px-3 py-1.5 text-sm text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-lg disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                >
+                  Branch
+                </button>
+              </div>
+            </div>
+
+            {/* Merge */}
+            {otherBranches.length > 0 && (
+              <div className="flex gap-2 items-center">
+                <label htmlFor="version-merge-source" className={`${typography.label} text-gray-700`}>Merge</label>
+                <select
+                  id="version-merge-source"
+                  value={mergeSource}
+                  onChange={e => setMergeSource(e.target.value)}
+                  className="flex-1 px-2 py-1.5 text-sm border border-gray-300 rounded-lg"
+                >
+                  <option value="">Choose a branch…</option>
+                  {otherBranches.map(branch => (
+                    <option key={branch} value={branch}>{branch}</option>
+                  ))}
+                </select>
+                <span className={`${typography.caption} text-gray-500`}>into {history.head}</span>
+                <button
+                  type="button"
+                  onClick={() => void handlePrepareMerge()}
+                  disabled={!mergeSource}
+                  className="flex items-center gap-1.5 px-3 py-1.5 text-sm text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-lg disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                >
+                  <GitMerge className="w-4 h-4" />
+                  Review merge
+                </button>
+              </div>
+            )}
+
+            {/* Log */}
+            <div>
+              <div className={`${typography.label} text-gray-700 mb-1`}>History of {history.head}</div>
+              {log.length === 0 ? (
+                <p className={`${typography.caption} text-gray-500`}>No versions yet.</p>
+              ) : (
+                <ol className="divide-y divide-gray-100 border border-gray-200 rounded-lg" data-testid="version-log">
+                  {log.map(commit => (
+                    <li key={commit.id} className="flex items-start gap-3 px-3 py-2">
+                      {commit.parents.length > 1
+                        ? <GitMerge className="w-4 h-4 mt-0.5 text-info-600 shrink-0" />
+                        : <GitCommit className="w-4 h-4 mt-0.5 text-gray-400 shrink-0" />}
+                      <div className="flex-1 min-w-0">
+                        <div className={`${typography.body} text-gray-900 truncate`}>{commit.message}</div>
+                        <div className={`${typography.caption} text-gray-500`}>
+                          {formatTime(commit.createdAt)} · {commit.branch} · {commit.graph.nodes.length} nodes
+                          {commit.id === headId && <span className="ml-1 text-info-700">· latest</span>}
+                        </div>
+                      </div>
+                      <button
+                        type="button"
+                        onClick={() => void handleRestore(commit)}
+                        className={`${typography.caption} text-info-700 hover:underline shrink-0`}
+                      >
+                        Restore
+                      </button>
+                    </li>
+                  ))}
+                </ol>
+              )}
+              {history.forkedFrom && (
+                <p className={`${typography.caption} text-gray-500 mt-2`}>
+                  History carried over from the scenario this one was duplicated from.
+                </p>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {merge && (
+        <VersionMergeDialog
+          sourceBranch={merge.source}
+          targetBranch={history.head}
+          result={merge.result}
+          onMerge={graph => void handleMerge(graph)}
+          onCancel={() => setMerge(null)}
+        />
+      )}
+    </>
+  )
+}
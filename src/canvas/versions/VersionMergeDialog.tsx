@@ -0,0 +1,239 @@
+/**
+ * Version Merge Dialog
+ *
+ * Shows the result of merging another branch into the checked-out one and
+ * lets the user pick a side for each conflicting node and edge. Rows follow
+ * EdgeDiffTable (summary bar, +/−/~ badges, w/b figures); the side that will
+ * be dropped is drawn as a ghost, as in the snapshot VisualDiff overlay.
+ */
+
+import { useMemo, useState } from 'react'
+import type { Node, Edge } from '@xyflow/react'
+import { GitMerge } from 'lucide-react'
+import { typography } from '../../styles/typography'
+import { DiffStatusBadge } from '../compare/EdgeDiffTable'
+import { conflictKey, resolveMerge, type MergeConflict, type MergeResult, type MergeSide, type VersionGraph } from './merge'
+
+interface VersionMergeDialogProps {
+  sourceBranch: string
+  targetBranch: string
+  result: MergeResult
+  onMerge: (graph: VersionGraph) => void
+  onCancel: () => void
+}
+
+const nodeLabel = (node: Node | undefined, id: string) =>
+  (node?.data as { label?: string } | undefined)?.label || id
+
+function sideStatus(base: object | undefined, side: object | undefined): 'added' | 'removed' | 'changed' {
+  if (!side) return 'removed'
+  if (!base) return 'added'
+  return 'changed'
+}
+
+function SideCell({ conflict, side, chosen }: { conflict: MergeConflict; side: MergeSide; chosen: boolean }) {
+  const item = conflict[side]
+  // Ghost style for the side that will be dropped
+  const ghost = chosen ? '' : 'opacity-50'
+
+  if (!item) {
+    return <span className={`text-xs text-danger-700 ${ghost}`}>Deleted</span>
+  }
+
+  if (conflict.kind === 'edge') {
+    const data = (item as Edge).data as { weight?: number; belief?: number } | undefined
+    const weight = data?.weight ?? 1
+    const belief = data?.belief ?? weight
+    return (
+      <div className={`font-mono text-xs ${ghost}`}>
+        <span className="text-gray-900">{weight.toFixed(2)}</span>
+        <span className="text-gray-400 mx-1">/</span>
+        <span className="text-gray-600">{belief.toFixed(2)}</span>
+      </div>
+    )
+  }
+
+  const node = item as Node
+  return (
+    <div className={`text-xs ${ghost}`}>
+      <span className="text-gray-900">{nodeLabel(node, node.id)}</span>
+      {node.type && <span className="text-gray-500"> · {node.type}</span>}
+    </div>
+  )
+}
+
+export function VersionMergeDialog({ sourceBranch, targetBranch, result, onMerge, onCancel }: VersionMergeDialogProps) {
+  const [choices, setChoices] = useState<Record<string, MergeSide>>({})
+
+  // Labels for edge endpoints from whichever side still has the node
+  const labels = useMemo(() => {
+    const map = new Map<string, string>()
+    for (const node of result.graph.nodes) map.set(node.id, nodeLabel(node, node.id))
+    for (const conflict of result.conflicts) {
+      if (conflict.kind !== 'node') continue
+      const node = conflict.ours ?? conflict.theirs ?? conflict.base
+      map.set(conflict.id, nodeLabel(node, conflict.id))
+    }
+    return map
+  }, [result])
+
+  const describe = (conflict: MergeConflict) => {
+    if (conflict.kind === 'node') return labels.get(conflict.id) ?? conflict.id
+    const edge = conflict.ours ?? conflict.theirs ?? conflict.base
+    if (!edge) return conflict.id
+    return `${labels.get(edge.source) ?? edge.source} → ${labels.get(edge.target) ?? edge.target}`
+  }
+
+  const choose = (conflict: MergeConflict, side: MergeSide) =>
+    setChoices(prev => ({ ...prev, [conflictKey(conflict)]: side }))
+
+  const chooseAll = (side: MergeSide) =>
+    setChoices(Object.fromEntries(result.conflicts.map(c => [conflictKey(c), side])))
+
+  const { nodes: autoNodes, edges: autoEdges } = result.takenFromTheirs
+
+  return (
+    <div
+      className="fixed inset-0 z-[5000] flex items-center justify-center bg-black/50 backdrop-blur-sm"
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="version-merge-title"
+      data-testid="version-merge-dialog"
+    >
+      <div className="bg-white rounded-xl shadow-panel max-w-3xl w-full mx-4 max-h-[85vh] flex flex-col">
+        <div className="flex items-center gap-3 p-6 pb-4">
+          <GitMerge className="w-5 h-5 text-info-600" />
+          <h3 id="version-merge-title" className={`${typography.h4} text-gray-900`}>
+            Merge {sourceBranch} into {targetBranch}
+          </h3>
+        </div>
+
+        <div className="mx-6 border border-gray-200 rounded-lg overflow-hidden flex flex-col min-h-0">
+          <div
+            className="flex items-center gap-4 px-4 py-3 bg-blue-50 border-b border-blue-200 text-sm"
+            role="status"
+            aria-label="Merge summary"
+          >
+            <span className="font-medium text-blue-900">Merge summary:</span>
+            <span className="text-gray-700">
+              <span className="font-semibold text-success-700">{autoNodes + autoEdges}</span> taken from {sourceBranch}
+            </span>
+            <span className="text-gray-400">•</span>
+            <span className="text-gray-700">
+              <span className="font-semibold text-warning-700">{result.conflicts.length}</span> to resolve
+            </span>
+          </div>
+
+          {result.conflicts.length === 0 ? (
+            <div className="text-center py-8 text-sm text-gray-500">
+              No conflicts. Every change merges cleanly.
+            </div>
+          ) : (
+            <div className="overflow-auto">
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50 border-b border-gray-200">
+                  <tr>
+                    <th className="px-4 py-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wide">
+                      Node / Edge
+                    </th>
+                    <th className="px-4 py-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wide">
+                      {targetBranch} (ours)
+                    </th>
+                    <th className="px-4 py-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wide">
+                      {sourceBranch} (theirs)
+                    </th>
+                    <th className="px-4 py-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wide">
+                      Keep
+                    </th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {result.conflicts.map(conflict => {
+                    const key = conflictKey(conflict)
+                    const side = choices[key] ?? 'ours'
+                    return (
+                      <tr key={key} className="hover:bg-blue-50 transition-colors" data-testid={`merge-conflict-${key}`}>
+                        <td className="px-4 py-3">
+                          <div className="flex items-center gap-2">
+                            <span className="text-xs text-gray-500 uppercase">{conflict.kind}</span>
+                            <span className="font-medium text-gray-900">{describe(conflict)}</span>
+                          </div>
+                        </td>
+                        <td className="px-4 py-3">
+                          <div className="flex items-center gap-2">
+                            <DiffStatusBadge status={sideStatus(conflict.base, conflict.ours)} />
+                            <SideCell conflict={conflict} side="ours" chosen={side === 'ours'} />
+                          </div>
+                        </td>
+                        <td className="px-4 py-3">
+                          <div className="flex items-center gap-2">
+                            <DiffStatusBadge status={sideStatus(conflict.base, conflict.theirs)} />
+                            <SideCell conflict={conflict} side="theirs" chosen={side === 'theirs'} />
+                          </div>
+                        </td>
+                        <td className="px-4 py-3">
+                          <div className="flex gap-3 text-xs" role="radiogroup" aria-label={`Keep which version of ${describe(conflict)}`}>
+                            {(['ours', 'theirs'] as const).map(option => (
+                              <label key={option} className="flex items-center gap-1 cursor-pointer">
+                                <input
+                                  type="radio"
+                                  name={key}
+                                  checked={side === option}
+                                  onChange={() => choose(conflict, option)}
+                                />
+                                {option === 'ours' ? 'Ours' : 'Theirs'}
+                              </label>
+                            ))}
+                          </div>
+                        </td>
+                      </tr>
+                    )
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+
+        <div className="flex items-center gap-3 justify-between p-6 pt-4">
+          <div className="flex gap-2">
+            {result.conflicts.length > 0 && (
+              <>
+                <button
+                  type="button"
+                  onClick={() => chooseAll('ours')}
+                  className={`px-3 py-1.5 ${typography.caption} text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors`}
+                >
+                  All ours
+                </button>
+                <button
+                  type="button"
+                  onClick={() => chooseAll('theirs')}
+                  className={`px-3 py-1.5 ${typography.caption} text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors`}
+                >
+                  All theirs
+                </button>
+              </>
+            )}
+          </div>
+          <div className="flex gap-3">
+            <button
+              type="button"
+              onClick={onCancel}
+              className={`px-4 py-2 ${typography.label} text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 focus:outline-none focus:ring-2 focus:ring-gray-400 transition-colors`}
+            >
+              Cancel
+            </button>
+            <button
+              type="button"
+              onClick={() => onMerge(resolveMerge(result, choices))}
+              className={`px-4 py-2 ${typography.label} text-white bg-info-600 hover:bg-info-700 rounded-lg focus:outline-none focus:ring-2 focus:ring-info-500 transition-colors`}
+            >
+              Merge
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest'
+import type { Node, Edge } from '@xyflow/react'
+import { threeWayMerge, resolveMerge, conflictKey, type VersionGraph } from '../merge'
+
+const node = (id: string, label = id, x = 0): Node => ({ id, position: { x, y: 0 }, data: { label } })
+const edge = (id: string, source: string, target: string, weight = 0.5): Edge =>
+  ({ id, source, target, data: { weight } })
+
+const base: VersionGraph = {
+  nodes: [node('hire', 'Hiring'), node('cost', 'Cost'), node('rev', 'Revenue')],
+  edges: [edge('e1', 'hire', 'cost'), edge('e2', 'hire', 'rev')],
+}
+
+describe('threeWayMerge', () => {
+  it('takes each side’s independent changes, including deletions', () => {
+    const ours = { nodes: [...base.nodes, node('risk', 'Attrition')], edges: base.edges }
+    const theirs = {
+      nodes: [node('hire', 'Aggressive hiring'), node('cost', 'Cost'), node('rev', 'Revenue')],
+      edges: [edge('e1', 'hire', 'cost', 0.9)],
+    }
+
+    const result = threeWayMerge(base, ours, theirs)
+
+    expect(result.conflicts).toEqual([])
+    expect(result.graph.nodes.map(n => n.data.label)).toEqual(['Aggressive hiring', 'Cost', 'Revenue', 'Attrition'])
+    expect(result.graph.edges.map(e => [e.id, e.data?.weight])).toEqual([['e1', 0.9]])
+    expect(result.takenFromTheirs).toEqual({ nodes: 1, edges: 2 })
+  })
+
+  it('ignores selection and drops edges whose node was deleted', () => {
+    const ours = { nodes: base.nodes.map(n => ({ ...n, selected: true })), edges: [...base.edges, edge('e3', 'cost', 'rev')] }
+    const theirs = { nodes: base.nodes.filter(n => n.id !== 'cost'), edges: [edge('e2', 'hire', 'rev')] }
+
+    const result = threeWayMerge(base, ours, theirs)
+
+    expect(result.conflicts).toEqual([])
+    expect(result.graph.nodes.map(n => n.id)).toEqual(['hire', 'rev'])
+    expect(result.graph.edges.map(e => e.id)).toEqual(['e2'])
+  })
+
+  it('reports nodes and edges changed on both sides and resolves them one by one', () => {
+    const ours = { nodes: [node('hire', 'Steady hiring'), base.nodes[1], base.nodes[2]], edges: [edge('e1', 'hire', 'cost', 0.2), base.edges[1]] }
+    const theirs = { nodes: [node('hire', 'Aggressive hiring'), base.nodes[1], base.nodes[2]], edges: [edge('e1', 'hire', 'cost', 0.9), base.edges[1]] }
+
+    const result = threeWayMerge(base, ours, theirs)
+    expect(result.conflicts.map(conflictKey)).toEqual(['node:hire', 'edge:e1'])
+    expect(result.graph.nodes[0].data.label).toBe('Steady hiring')
+
+    const merged = resolveMerge(result, { 'node:hire': 'theirs' })
+    expect(merged.nodes.find(n => n.id === 'hire')?.data.label).toBe('Aggressive hiring')
+    expect(merged.edges.find(e => e.id === 'e1')?.data?.weight).toBe(0.2)
+  })
+
+  it('treats edit-versus-delete as a conflict', () => {
+    const ours = { nodes: [node('hire', 'Hiring plan'), base.nodes[1], base.nodes[2]], edges: base.edges }
+    const theirs = { nodes: base.nodes.slice(1), edges: [] }
+
+    const result = threeWayMerge(base, ours, theirs)
+    expect(result.conflicts.map(conflictKey)).toEqual(['node:hire'])
+
+    const merged = resolveMerge(result, { 'node:hire': 'theirs' })
+    expect(merged.nodes.map(n => n.id)).toEqual(['cost', 'rev'])
+    expect(merged.edges).toEqual([])
+  })
+})
@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest'
+import type { Node } from '@xyflow/react'
+import {
+  commitVersion,
+  createBranch,
+  checkoutBranch,
+  prepareMerge,
+  commitMerge,
+  loadVersionHistory,
+  commitLog,
+  mergeBase,
+  forkVersionHistory,
+  VersionError,
+} from '../versionGraph'
+import { resolveMerge } from '../merge'
+
+const node = (id: string, label = id): Node => ({ id, position: { x: 0, y: 0 }, data: { label } })
+let counter = 0
+const scenarioId = () => `scenario-${++counter}`
+
+describe('scenario version graph', () => {
+  it('branches, checks out and merges with a three-way merge', async () => {
+    const id = scenarioId()
+    const root = await commitVersion(id, { nodes: [node('hire', 'Hiring')], edges: [] }, 'Baseline')
+
+    await createBranch(id, 'aggressive hiring')
+    await commitVersion(id, { nodes: [node('hire', 'Hiring'), node('cost', 'Cost')], edges: [] }, 'Add cost')
+
+    const { graph } = await checkoutBranch(id, 'main')
+    expect(graph.nodes.map(n => n.id)).toEqual(['hire'])
+    await commitVersion(id, { nodes: [node('hire', 'Hiring plan')], edges: [] }, 'Rename')
+
+    const history = await loadVersionHistory(id)
+    expect(mergeBase(history, history.branches.main, history.branches['aggressive hiring'])?.id).toBe(root.id)
+
+    const working = { nodes: [node('hire', 'Hiring plan')], edges: [] }
+    const { result } = await prepareMerge(id, 'aggressive hiring', working)
+    expect(result.conflicts).toEqual([])
+    const merged = resolveMerge(result, {})
+    expect(merged.nodes.map(n => n.data.label)).toEqual(['Hiring plan', 'Cost'])
+
+    const commit = await commitMerge(id, 'aggressive hiring', merged)
+    expect(commit.parents).toHaveLength(2)
+    expect(commit.message).toBe('Merge aggressive hiring into main')
+    const log = commitLog(await loadVersionHistory(id)).map(c => c.message)
+    expect(log).toEqual(expect.arrayContaining(['Baseline', 'Add cost', 'Rename', 'Merge aggressive hiring into main']))
+  })
+
+  it('rejects branching before the first commit and duplicate names', async () => {
+    const id = scenarioId()
+    await expect(createBranch(id, 'idea')).rejects.toBeInstanceOf(VersionError)
+    await commitVersion(id, { nodes: [], edges: [] }, 'Start')
+    await createBranch(id, 'idea')
+    await expect(createBranch(id, 'idea')).rejects.toThrow('already exists')
+  })
+
+  it('keeps lineage when a scenario is duplicated', async () => {
+    const source = scenarioId()
+    const copy = scenarioId()
+    const commit = await commitVersion(source, { nodes: [node('a')], edges: [] }, 'Baseline')
+
+    await forkVersionHistory(source, copy)
+
+    const history = await loadVersionHistory(copy)
+    expect(history.forkedFrom).toEqual({ scenarioId: source, commitId: commit.id })
+    expect(commitLog(history).map(c => c.id)).toEqual([commit.id])
+  })
+})
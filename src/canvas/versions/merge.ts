@@ -0,0 +1,107 @@
+/**
+ * Three-way graph merge
+ *
+ * Nodes and edges are matched by id and compared against the common ancestor
+ * (merge base). A side that left an item as it was in the base takes the
+ * other side's version, including a deletion; items changed differently on
+ * both sides become conflicts resolved per node and per edge.
+ */
+
+import type { Node, Edge } from '@xyflow/react'
+import { stableStringify, withoutTransientKeys } from '../store/utils'
+
+export interface VersionGraph {
+  nodes: Node[]
+  edges: Edge[]
+}
+
+export type MergeSide = 'ours' | 'theirs'
+
+export type MergeConflict =
+  | { kind: 'node'; id: string; base?: Node; ours?: Node; theirs?: Node }
+  | { kind: 'edge'; id: string; base?: Edge; ours?: Edge; theirs?: Edge }
+
+export interface MergeResult {
+  /** Merged graph with every conflict still on our side */
+  graph: VersionGraph
+  conflicts: MergeConflict[]
+  /** Items taken from their side without a conflict */
+  takenFromTheirs: { nodes: number; edges: number }
+}
+
+export const conflictKey = (conflict: Pick<MergeConflict, 'kind' | 'id'>) => `${conflict.kind}:${conflict.id}`
+
+const same = (a: object | undefined, b: object | undefined) =>
+  stableStringify(a && withoutTransientKeys(a)) === stableStringify(b && withoutTransientKeys(b))
+
+function mergeItems<T extends { id: string }>(base: T[], ours: T[], theirs: T[]) {
+  const baseMap = new Map(base.map(item => [item.id, item]))
+  const oursMap = new Map(ours.map(item => [item.id, item]))
+  const theirsMap = new Map(theirs.map(item => [item.id, item]))
+  // Our order first, then anything new from their side
+  const ids = [...new Set([...ours.map(i => i.id), ...theirs.map(i => i.id), ...base.map(i => i.id)])]
+
+  const merged: T[] = []
+  const conflicts: Array<{ id: string; base?: T; ours?: T; theirs?: T }> = []
+  let takenFromTheirs = 0
+
+  for (const id of ids) {
+    const b = baseMap.get(id)
+    const o = oursMap.get(id)
+    const t = theirsMap.get(id)
+
+    if (same(o, t) || same(t, b)) {
+      if (o) merged.push(o)
+    } else if (same(o, b)) {
+      if (t) merged.push(t)
+      takenFromTheirs++
+    } else {
+      conflicts.push({ id, base: b, ours: o, theirs: t })
+      if (o) merged.push(o)
+    }
+  }
+
+  return { merged, conflicts, takenFromTheirs }
+}
+
+/** Edges need both ends; a merge can delete a node another edge still uses */
+function dropDanglingEdges(graph: VersionGraph): VersionGraph {
+  const ids = new Set(graph.nodes.map(n => n.id))
+  return { nodes: graph.nodes, edges: graph.edges.filter(e => ids.has(e.source) && ids.has(e.target)) }
+}
+
+export function threeWayMerge(base: VersionGraph, ours: VersionGraph, theirs: VersionGraph): MergeResult {
+  const nodes = mergeItems(base.nodes, ours.nodes, theirs.nodes)
+  const edges = mergeItems(base.edges, ours.edges, theirs.edges)
+
+  return {
+    graph: dropDanglingEdges({ nodes: nodes.merged, edges: edges.merged }),
+    conflicts: [
+      ...nodes.conflicts.map(c => ({ kind: 'node' as const, ...c })),
+      ...edges.conflicts.map(c => ({ kind: 'edge' as const, ...c })),
+    ],
+    takenFromTheirs: { nodes: nodes.takenFromTheirs, edges: edges.takenFromTheirs },
+  }
+}
+
+/**
+ * Apply a side per conflict (keyed by conflictKey; unresolved stay ours)
+ */
+export function resolveMerge(result: MergeResult, choices: Record<string, MergeSide>): VersionGraph {
+  const conflicted = new Set(result.conflicts.map(conflictKey))
+  const nodes = result.graph.nodes.filter(n => !conflicted.has(conflictKey({ kind: 'node', id: n.id })))
+  const edges = result.graph.edges.filter(e => !conflicted.has(conflictKey({ kind: 'edge', id: e.id })))
+
+  for (const conflict of result.conflicts) {
+    const side = choices[conflictKey(conflict)] ?? 'ours'
+    if (conflict.kind === 'node') {
+      const node = conflict[side]
+      if (node) nodes.push(node)
+    } else {
+      const edge = conflict[side]
+      if (edge) edges.push(edge)
+    }
+  }
+
+  return dropDanglingEdges({ nodes, edges })
+}
@@ -0,0 +1,223 @@
+/**
+ * Scenario Version Graph
+ *
+ * A persistent, git-like history per scenario: commits with messages and
+ * parents, named branches pointing at commits, checkout and merge. Unlike the
+ * undo stack (in memory) and snapshots (10, FIFO) nothing rotates out, and a
+ * duplicated scenario keeps the history it was forked from.
+ *
+ * Stored in IndexedDB ('scenario-versions', keyed by scenario id). Commits
+ * hold the whole graph, without selection or measurement state.
+ */
+
+import { idbGet, idbPut, idbDelete } from '../persist/idb'
+import { withoutTransientKeys } from '../store/utils'
+import { threeWayMerge, type MergeResult, type VersionGraph } from './merge'
+
+const STORE = 'scenario-versions' as const
+
+export const DEFAULT_BRANCH = 'main'
+
+export interface VersionCommit {
+  id: string
+  parents: string[] // One for a commit, two for a merge (ours first), none for the root
+  message: string
+  createdAt: number // timestamp ms
+  branch: string // Branch the commit was made on
+  graph: VersionGraph
+}
+
+export interface VersionHistory {
+  scenarioId: string
+  commits: Record<string, VersionCommit>
+  branches: Record<string, string> // branch name -> commit id
+  head: string // Checked-out branch
+  forkedFrom?: { scenarioId: string; commitId: string | null }
+}
+
+export class VersionError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'VersionError'
+  }
+}
+
+function generateCommitId(): string {
+  return `v_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`
+}
+
+const cleanGraph = (graph: VersionGraph): VersionGraph =>
+  JSON.parse(JSON.stringify({ nodes: graph.nodes.map(withoutTransientKeys), edges: graph.edges.map(withoutTransientKeys) }))
+
+function emptyHistory(scenarioId: string): VersionHistory {
+  return { scenarioId, commits: {}, branches: {}, head: DEFAULT_BRANCH }
+}
+
+export async function loadVersionHistory(scenarioId: string): Promise<VersionHistory> {
+  try {
+    return (await idbGet<VersionHistory>(STORE, scenarioId)) ?? emptyHistory(scenarioId)
+  } catch (error) {
+    console.error('[versions] Failed to load:', error)
+    return emptyHistory(scenarioId)
+  }
+}
+
+async function saveVersionHistory(history: VersionHistory): Promise<void> {
+  await idbPut(STORE, history.scenarioId, history)
+}
+
+export async function deleteVersionHistory(scenarioId: string): Promise<void> {
+  await idbDelete(STORE, scenarioId)
+}
+
+/** Commit id the checked-out branch points at (null before the first commit) */
+export function headCommitId(history: VersionHistory): string | null {
+  return history.branches[history.head] ?? null
+}
+
+/**
+ * Commits reachable from a commit, newest first
+ */
+export function commitLog(history: VersionHistory, fromId: string | null = headCommitId(history)): VersionCommit[] {
+  const seen = new Set<string>()
+  const queue = fromId ? [fromId] : []
+  const log: VersionCommit[] = []
+  while (queue.length > 0) {
+    const id = queue.shift()!
+    const commit = history.commits[id]
+    if (!commit || seen.has(id)) continue
+    seen.add(id)
+    log.push(commit)
+    queue.push(...commit.parents)
+  }
+  return log.sort((a, b) => b.createdAt - a.createdAt)
+}
+
+/**
+ * Nearest common ancestor of two commits (the merge base)
+ */
+export function mergeBase(history: VersionHistory, a: string, b: string): VersionCommit | null {
+  const ancestorsOfA = new Set(commitLog(history, a).map(c => c.id))
+  // Breadth-first from b so the nearest shared ancestor is found first
+  const queue = [b]
+  const seen = new Set<string>()
+  while (queue.length > 0) {
+    const id = queue.shift()!
+    if (seen.has(id)) continue
+    seen.add(id)
+    if (ancestorsOfA.has(id)) return history.commits[id] ?? null
+    queue.push(...(history.commits[id]?.parents ?? []))
+  }
+  return null
+}
+
+/**
+ * Record the graph on the checked-out branch
+ */
+export async function commitVersion(scenarioId: string, graph: VersionGraph, message: string): Promise<VersionCommit> {
+  const history = await loadVersionHistory(scenarioId)
+  const parent = headCommitId(history)
+  const commit: VersionCommit = {
+    id: generateCommitId(),
+    parents: parent ? [parent] : [],
+    message: message.trim() || 'Untitled version',
+    createdAt: Date.now(),
+    branch: history.head,
+    graph: cleanGraph(graph),
+  }
+  history.commits[commit.id] = commit
+  history.branches[history.head] = commit.id
+  await saveVersionHistory(history)
+  return commit
+}
+
+/**
+ * Start a branch at a commit (default: the current head) and check it out
+ */
+export async function createBranch(scenarioId: string, name: string, fromCommitId?: string): Promise<VersionHistory> {
+  const history = await loadVersionHistory(scenarioId)
+  const branch = name.trim()
+  if (!branch) throw new VersionError('Branch name is required')
+  if (history.branches[branch]) throw new VersionError(`A branch called "${branch}" already exists`)
+  const from = fromCommitId ?? headCommitId(history)
+  if (!from || !history.commits[from]) throw new VersionError('Commit a version before branching')
+
+  history.branches[branch] = from
+  history.head = branch
+  await saveVersionHistory(history)
+  return history
+}
+
+/**
+ * Switch branches; returns the graph to load into the canvas
+ */
+export async function checkoutBranch(scenarioId: string, branch: string): Promise<{ history: VersionHistory; graph: VersionGraph }> {
+  const history = await loadVersionHistory(scenarioId)
+  const commitId = history.branches[branch]
+  if (!commitId) throw new VersionError(`No branch called "${branch}"`)
+  history.head = branch
+  await saveVersionHistory(history)
+  return { history, graph: history.commits[commitId].graph }
+}
+
+/**
+ * Three-way merge of another branch into the working graph of the
+ * checked-out branch. Nothing is saved until commitMerge.
+ */
+export async function prepareMerge(
+  scenarioId: string,
+  sourceBranch: string,
+  working: VersionGraph
+): Promise<{ result: MergeResult; theirs: VersionCommit; base: VersionCommit | null }> {
+  const history = await loadVersionHistory(scenarioId)
+  const ours = headCommitId(history)
+  const theirsId = history.branches[sourceBranch]
+  if (!ours || !theirsId) throw new VersionError(`No branch called "${sourceBranch}"`)
+  if (sourceBranch === history.head) throw new VersionError('Choose a different branch to merge')
+
+  const theirs = history.commits[theirsId]
+  const base = mergeBase(history, ours, theirsId)
+  const result = threeWayMerge(base?.graph ?? { nodes: [], edges: [] }, cleanGraph(working), theirs.graph)
+  return { result, theirs, base }
+}
+
+/**
+ * Record a resolved merge as a commit with both parents
+ */
+export async function commitMerge(
+  scenarioId: string,
+  sourceBranch: string,
+  graph: VersionGraph,
+  message?: string
+): Promise<VersionCommit> {
+  const history = await loadVersionHistory(scenarioId)
+  const ours = headCommitId(history)
+  const theirs = history.branches[sourceBranch]
+  if (!ours || !theirs) throw new VersionError(`No branch called "${sourceBranch}"`)
+
+  const commit: VersionCommit = {
+    id: generateCommitId(),
+    parents: [ours, theirs],
+    message: message?.trim() || `Merge ${sourceBranch} into ${history.head}`,
+    createdAt: Date.now(),
+    branch: history.head,
+    graph: cleanGraph(graph),
+  }
+  history.commits[commit.id] = commit
+  history.branches[history.head] = commit.id
+  await saveVersionHistory(history)
+  return commit
+}
+
+/**
+ * Give a duplicated scenario the history of the one it was copied from
+ */
+export async function forkVersionHistory(sourceScenarioId: string, targetScenarioId: string): Promise<void> {
+  const source = await loadVersionHistory(sourceScenarioId)
+  const fork: VersionHistory = {
+    ...source,
+    scenarioId: targetScenarioId,
+    forkedFrom: { scenarioId: sourceScenarioId, commitId: headCommitId(source) },
+  }
+  await saveVersionHistory(fork)
+}
@@ -153,6 +153,24 @@ export function DebugTray({
             </div>
           </div>
 
+          {/* Cassette recording (VITE_CASSETTE_RECORD=1) */}
+          {typeof window !== 'undefined' && window.__OLUMI_CASSETTE__ && (
+            <div>
+              <div className="text-gray-400 mb-1">Cassette:</div>
+              <div className="flex items-center gap-2">
+                <span className="text-red-400">Recording</span>
+                <button
+                  type="button"
+                  onClick={() => window.__OLUMI_CASSETTE__?.download()}
+                  className="px-2 py-1 rounded border border-gray-700 text-[10px] uppercase tracking-wide text-gray-200 hover:bg-gray-800"
+                  data-testid="cassette-download"
+                >
+                  Download
+                </button>
+              </div>
+            </div>
+          )}
+
           {/* S5-DEBUG: Response Hash (Determinism) */}
           {responseHash && (
             <div>
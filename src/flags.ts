@@ -234,6 +234,30 @@ const FLAGS_CONFIG = {
     envKey: 'VITE_FEATURE_ONBOARDING',
     storageKey: 'feature.onboardingTour',
   },
+  collab: {
+    envKey: 'VITE_FEATURE_COLLAB',
+    storageKey: 'feature.collab',
+  },
+  scenarioSync: {
+    envKey: 'VITE_FEATURE_SCENARIO_SYNC',
+    storageKey: 'feature.scenarioSync',
+  },
+  auditTrail: {
+    envKey: 'VITE_FEATURE_AUDIT_TRAIL',
+    storageKey: 'feature.auditTrail',
+  },
+  changeSets: {
+    envKey: 'VITE_FEATURE_CHANGE_SETS',
+    storageKey: 'feature.changeSets',
+  },
+  presenter: {
+    envKey: 'VITE_FEATURE_PRESENTER',
+    storageKey: 'feature.presenter',
+  },
+  premortem: {
+    envKey: 'VITE_FEATURE_PREMORTEM',
+    storageKey: 'feature.premortem',
+  },
 } as const
 
 // ============================================================================
@@ -297,6 +321,12 @@ const flags = {
   debug: makeFlag(FLAGS_CONFIG.debug),
   snapshotsV2: makeFlag(FLAGS_CONFIG.snapshotsV2),
   onboardingTour: makeFlag(FLAGS_CONFIG.onboardingTour),
+  collab: makeFlag(FLAGS_CONFIG.collab),
+  scenarioSync: makeFlag(FLAGS_CONFIG.scenarioSync),
+  auditTrail: makeFlag(FLAGS_CONFIG.auditTrail),
+  changeSets: makeFlag(FLAGS_CONFIG.changeSets),
+  presenter: makeFlag(FLAGS_CONFIG.presenter),
+  premortem: makeFlag(FLAGS_CONFIG.premortem),
 }
 
 // Export with original naming convention for backward compatibility
@@ -355,6 +385,12 @@ export const isOptimiseBetaEnabled = flags.optimiseBeta
 export const isDebugEnabled = flags.debug
 export const isSnapshotsV2Enabled = flags.snapshotsV2
 export const isOnboardingTourEnabled = flags.onboardingTour
+export const isCollabEnabled = flags.collab
+export const isScenarioSyncEnabled = flags.scenarioSync
+export const isAuditTrailEnabled = flags.auditTrail
+export const isChangeSetsEnabled = flags.changeSets
+export const isPresenterEnabled = flags.presenter
+export const isPremortemEnabled = flags.premortem
 
 // ============================================================================
 // POC FLAGS (special pattern - constant object, not functions)
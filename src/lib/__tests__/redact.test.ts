@@ -33,4 +33,14 @@ describe('redact()', () => {
     expect(out.nested.list[0].sub[0].url).toBe('https://a/b')
     expect(out.nested.list[1]).toBe('https://example.dev/p')
   })
+
+  it('keeps free text when preserveText is set', () => {
+    const out: any = redact(
+      { label: 'Should we launch?', url: 'https://a/b?x=y', token: 't' },
+      { preserveText: true }
+    )
+    expect(out.label).toBe('Should we launch?')
+    expect(out.url).toBe('https://a/b')
+    expect(out.token).toBe('[REDACTED]')
+  })
 })
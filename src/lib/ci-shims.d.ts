@@ -16,8 +16,17 @@ declare const process: {
   env?: Record<string, string | undefined>
 }
 
-// Minimal pako module typing used by scenarios/snapshot share helpers
+// Minimal pako module typing used by scenarios/snapshot share helpers and document ingestion
 declare module 'pako' {
+  export function deflate(data: Uint8Array | ArrayLike<number>): Uint8Array
+  export function inflate(data: Uint8Array | ArrayLike<number>): Uint8Array
   export function deflateRaw(data: Uint8Array | ArrayLike<number>): Uint8Array
   export function inflateRaw(data: Uint8Array | ArrayLike<number>): Uint8Array
+  export class Inflate {
+    constructor(options?: { raw?: boolean })
+    err: number
+    msg: string
+    onData(chunk: Uint8Array): void
+    push(data: Uint8Array, flush?: boolean): boolean
+  }
 }
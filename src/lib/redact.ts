@@ -1,5 +1,7 @@
 // Privacy redactor: strips URL queries and redacts secrets in deep structures
 // Secrets: authorization|token|apikey|api_key|secret|cookie (case-insensitive)
+// preserveText: only strip queries from absolute URLs, so free text such as
+// "Should we launch?" survives (used for recorded request/response bodies)
 
 const SENSITIVE_KEY = /^(authorization|token|apikey|api[_-]?key|secret|cookie|set-cookie)$/i
 
@@ -20,16 +22,23 @@ function stripQuery(input: string): string {
   return s
 }
 
-export function redact<T = any>(value: T): T {
-  return _redact(value) as T
+export interface RedactOptions {
+  preserveText?: boolean
 }
 
-function _redact(value: any): any {
+export function redact<T = any>(value: T, options: RedactOptions = {}): T {
+  const strip = options.preserveText
+    ? (s: string) => (/^https?:\/\//i.test(s) ? stripQuery(s) : s)
+    : stripQuery
+  return _redact(value, strip) as T
+}
+
+function _redact(value: any, strip: (s: string) => string): any {
   if (value == null) return value
   const t = typeof value
-  if (t === 'string') return stripQuery(value)
+  if (t === 'string') return strip(value)
   if (t === 'number' || t === 'boolean' || t === 'bigint') return value
-  if (Array.isArray(value)) return value.map(_redact)
+  if (Array.isArray(value)) return value.map(v => _redact(v, strip))
   if (value instanceof Date || value instanceof RegExp) return value
   if (typeof value === 'object') {
     const out: any = Array.isArray(value) ? [] : {}
@@ -37,9 +46,9 @@ function _redact(value: any): any {
       if (SENSITIVE_KEY.test(k)) {
         out[k] = '[REDACTED]'
       } else if (typeof v === 'string') {
-        out[k] = stripQuery(v)
+        out[k] = strip(v)
       } else {
-        out[k] = _redact(v)
+        out[k] = _redact(v, strip)
       }
     }
     return out
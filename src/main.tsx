@@ -72,6 +72,16 @@ window.addEventListener('unhandledrejection', (event) => {
   }
 });
 
+// Cassette recording: capture PLoT/CEE/ISL traffic for replay (Debug Tray downloads it)
+if (import.meta.env.VITE_CASSETTE_RECORD === '1') {
+  import('./adapters/cassette/recorder')
+    .then(({ startCassetteRecording }) => {
+      startCassetteRecording();
+      log('cassette:recording');
+    })
+    .catch((err) => log('cassette:record-failed', { message: err?.message }));
+}
+
 const ENTRY_PROOF_TOKEN = 'ENTRY_PROOF_TOKEN::MAIN_TSX';
 
 // Minimal, dependency-free shell so something always paints
@@ -138,22 +148,27 @@ class BootErrorBoundary extends Component<{ children: ReactNode }, { error: Erro
     root.render(<Shell />);
     log('boot:shell-rendered');
 
-    // Phase 2: upgrade to full app (next microtask is enough; avoids extra layout thrash)
-    queueMicrotask(() => {
-      root.render(
-        <BootErrorBoundary>
-          <Suspense fallback={<Shell />}>
-            <AppPoC />
-          </Suspense>
-        </BootErrorBoundary>
-      );
-      log('boot:app-render-scheduled');
-
-      if (typeof window.__APP_MOUNTED__ === 'function') {
-        window.__APP_MOUNTED__('react-mounted');
-        log('boot:mounted-callback-called');
-      }
-    });
+    // Phase 2: open canvas storage (moves localStorage data to IndexedDB once), then upgrade to full app.
+    // initCanvasStorage never rejects and gives up on a backend that hangs; a failed import leaves the canvas on localStorage.
+    import('./canvas/persist/storage')
+      .then(m => m.initCanvasStorage())
+      .then(status => log('boot:storage-ready', status))
+      .catch(e => console.error('[main] storage init failed', e))
+      .finally(() => {
+        root.render(
+          <BootErrorBoundary>
+            <Suspense fallback={<Shell />}>
+              <AppPoC />
+            </Suspense>
+          </BootErrorBoundary>
+        );
+        log('boot:app-render-scheduled');
+
+        if (typeof window.__APP_MOUNTED__ === 'function') {
+          window.__APP_MOUNTED__('react-mounted');
+          log('boot:mounted-callback-called');
+        }
+      });
   } catch (e: any) {
     window.__SAFE_DEBUG__!.fatal = String(e?.stack || e);
     console.error('[main] boot fatal', e);
@@ -19,6 +19,7 @@ const SandboxV1 = lazy(() => import('../routes/SandboxV1'))
 const PlotShowcase = lazy(() => import('../routes/PlotShowcase'))
 const PlotWorkspace = lazy(() => import('../routes/PlotWorkspace'))
 const PlcLab = lazy(() => import('../routes/PlcLab'))
+const ShareView = lazy(() => import('../routes/ShareView'))
 const DecisionTemplates = lazy(() => import('../routes/templates/DecisionTemplates').then(m => ({ default: m.DecisionTemplates })))
 import SandboxHeader, { type SandboxMode } from './components/SandboxHeader'
 import OnboardingHints from './components/OnboardingHints'
@@ -878,6 +879,8 @@ export default function AppPoC() {
               <Route path="/plot-legacy" element={<PlotShowcase />} />
               <Route path="/plc" element={<PlcLab />} />
               <Route path="/sandbox-v1" element={<SandboxV1 />} />
+              <Route path="/share" element={<ShareView />} />
+              <Route path="/share/:hash" element={<ShareView />} />
               <Route path="/test" element={<MainSandboxContent />} />
               <Route path="*" element={<MainSandboxContent />} />
               </Routes>
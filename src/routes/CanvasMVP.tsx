@@ -12,7 +12,7 @@ import { trackCanvasOpened } from '../canvas/utils/sandboxTelemetry'
 import { DebugTray } from '../components/DebugTray'
 import { TopBar } from '../components/layout/TopBar'
 import { getScenario } from '../canvas/store/scenarios'
-import { buildShareLink } from '../canvas/utils/shareLink'
+import { ShareDrawer } from '../canvas/share/ShareDrawer'
 
 const TemplatesPanel = lazy(() => import('../canvas/panels/TemplatesPanel').then(m => ({ default: m.TemplatesPanel })))
 
@@ -41,6 +41,7 @@ const blueprintEventBus: LocalBlueprintEventBus = {
 export default function CanvasMVP() {
   const [short, setShort] = useState('dev')
   const [insertionError, setInsertionError] = useState<string | null>(null)
+  const [shareOpen, setShareOpen] = useState(false)
   const showTemplatesPanel = useCanvasStore(state => state.showTemplatesPanel)
   const closeTemplatesPanel = useCanvasStore(state => state.closeTemplatesPanel)
   // React #185 FIX: runMeta is an object - use shallow comparison to prevent infinite re-renders
@@ -180,30 +181,7 @@ export default function CanvasMVP() {
     }
   }, [currentScenarioId, saveCurrentScenario, scenarioTitle])
 
-  const handleShare = useCallback(() => {
-    try {
-      const { results } = useCanvasStore.getState()
-      const hash = results.hash
-      if (!hash) {
-        // eslint-disable-next-line no-console
-        console.warn('[CanvasMVP] Cannot share scenario: no results hash available')
-        return
-      }
-      const link = buildShareLink(hash)
-      if (navigator.clipboard && navigator.clipboard.writeText) {
-        navigator.clipboard.writeText(link).catch(() => {
-          // eslint-disable-next-line no-alert
-          window.prompt('Copy this link', link)
-        })
-      } else {
-        // eslint-disable-next-line no-alert
-        window.prompt('Copy this link', link)
-      }
-    } catch (error) {
-      // eslint-disable-next-line no-console
-      console.error('[CanvasMVP] Failed to generate share link', error)
-    }
-  }, [])
+  const handleShare = useCallback(() => setShareOpen(true), [])
 
   return (
     <div style={{ height: '100vh', width: '100vw', overflow: 'hidden', display: 'flex', flexDirection: 'column' }}>
@@ -259,6 +237,8 @@ export default function CanvasMVP() {
           />
         </Suspense>
 
+        <ShareDrawer isOpen={shareOpen} onClose={() => setShareOpen(false)} />
+
         {/* Phase 1A.5: Debug Tray (hidden by default, Shift+D to toggle) */}
         {showDebug && (
           <DebugTray
@@ -1,9 +1,14 @@
 /**
  * Share View Route
  *
- * Deep-link handler for /#/share/:hash
+ * Deep-link handler for /#/share/:hash and /#/share?bundle=<token>
  * Displays shared analysis results in read-only mode.
  *
+ * Bundles (canvas/share/bundle.ts) are self-contained: graph, framing,
+ * report and drivers travel in the fragment or a .olumi file, so they open
+ * on any device. Damaged, newer-version and locked bundles each get their
+ * own message instead of a blank view.
+ *
  * Security:
  * - Never fetches debug/preview/interim data
  * - Validates hash format (alphanumeric, 8-64 chars)
@@ -16,9 +21,19 @@
  * Flag: VITE_FEATURE_SHARE_ALLOWLIST=0|1 (allowlist check when ON)
  */
 
-import { useEffect, useState } from 'react'
+import { useCallback, useEffect, useState, type ChangeEvent, type FormEvent } from 'react'
 import { useParams, useSearchParams, Link } from 'react-router-dom'
 import { sanitizeLabel } from '../canvas/persist'
+import {
+  decodeShareBundle,
+  readShareBundleHeader,
+  parseBundleFile,
+  ShareBundleError,
+  SHARE_BUNDLE_EXTENSION,
+  type ShareBundleContent,
+  type ShareBundleErrorCode,
+} from '../canvas/share/bundle'
+import { formatOutcomeValue } from '../lib/format'
 
 interface ShareData {
   hash: string
@@ -110,7 +125,7 @@ async function fetchSharedData(hash: string, templateId?: string): Promise<Share
   }
 }
 
-export default function ShareView() {
+function HashShareView() {
   const { hash } = useParams<{ hash: string }>()
   const [searchParams] = useSearchParams()
   const templateId = searchParams.get('template')
@@ -326,3 +341,280 @@ export default function ShareView() {
   // Fallback
   return null
 }
+
+type BundleStatus =
+  | { kind: 'empty' }
+  | { kind: 'loading' }
+  | { kind: 'locked'; token: string; message?: string }
+  | { kind: 'error'; code: ShareBundleErrorCode | 'unknown'; message: string }
+  | { kind: 'ready'; content: ShareBundleContent; encrypted: boolean }
+
+const BUNDLE_ERROR_TITLES: Partial<Record<ShareBundleErrorCode, string>> = {
+  tampered: 'Share Bundle Damaged',
+  too_new: 'Newer Share Bundle',
+  unsupported: 'Browser Not Supported',
+}
+
+const FRAMING_FIELDS = [
+  ['goal', 'Goal'],
+  ['timeline', 'Timeline'],
+  ['constraints', 'Constraints'],
+  ['risks', 'Risks'],
+  ['uncertainties', 'Uncertainties'],
+] as const
+
+function BundleShareView() {
+  const [searchParams] = useSearchParams()
+  const linkToken = searchParams.get('bundle')
+  const [status, setStatus] = useState<BundleStatus>({ kind: linkToken ? 'loading' : 'empty' })
+  const [passphrase, setPassphrase] = useState('')
+
+  const open = useCallback(async (token: string, key?: string) => {
+    setStatus({ kind: 'loading' })
+    try {
+      const { encrypted } = readShareBundleHeader(token)
+      if (encrypted && !key) {
+        setStatus({ kind: 'locked', token })
+        return
+      }
+      const content = await decodeShareBundle(token, key)
+      setStatus({ kind: 'ready', content, encrypted })
+    } catch (err) {
+      if (err instanceof ShareBundleError && err.code === 'wrong_passphrase') {
+        setStatus({ kind: 'locked', token, message: err.message })
+      } else if (err instanceof ShareBundleError) {
+        setStatus({ kind: 'error', code: err.code, message: err.message })
+      } else {
+        console.error('[ShareView] Failed to open share bundle:', err)
+        setStatus({ kind: 'error', code: 'unknown', message: 'This share bundle could not be opened.' })
+      }
+    }
+  }, [])
+
+  useEffect(() => {
+    if (linkToken) void open(linkToken)
+  }, [linkToken, open])
+
+  const handleFile = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ''
+    if (!file) return
+    try {
+      void open(parseBundleFile(await file.text()))
+    } catch (err) {
+      const message = err instanceof ShareBundleError ? err.message : 'This file could not be read.'
+      setStatus({ kind: 'error', code: 'malformed', message })
+    }
+  }
+
+  const handleUnlock = (event: FormEvent) => {
+    event.preventDefault()
+    if (status.kind === 'locked' && passphrase) void open(status.token, passphrase)
+  }
+
+  const filePicker = (
+    <label className="block w-full text-center px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded hover:bg-gray-50 transition-colors cursor-pointer">
+      Open a {SHARE_BUNDLE_EXTENSION} file
+      <input
+        type="file"
+        accept={`${SHARE_BUNDLE_EXTENSION},application/json`}
+        onChange={handleFile}
+        className="sr-only"
+        data-testid="share-bundle-file"
+      />
+    </label>
+  )
+
+  if (status.kind === 'loading') {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="text-center">
+          <div className="inline-block animate-spin rounded-full h-12 w-12 border-4 border-blue-500 border-t-transparent" aria-hidden="true" />
+          <p className="mt-4 text-gray-600">Opening shared analysis...</p>
+        </div>
+      </div>
+    )
+  }
+
+  if (status.kind !== 'ready') {
+    const title = status.kind === 'locked'
+      ? 'Protected Analysis'
+      : status.kind === 'error'
+        ? BUNDLE_ERROR_TITLES[status.code as ShareBundleErrorCode] ?? 'Cannot Open Share Bundle'
+        : 'Open a Shared Analysis'
+
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
+        <div className="max-w-md w-full bg-white rounded-lg shadow-lg p-6 space-y-4" data-testid="share-bundle-gate">
+          <h1 className="text-xl font-semibold text-gray-900">{title}</h1>
+
+          {status.kind === 'error' && (
+            <p role="alert" className="text-gray-600" data-testid="share-bundle-error">{status.message}</p>
+          )}
+          {status.kind === 'empty' && (
+            <p className="text-gray-600">
+              Open a share link, or choose a {SHARE_BUNDLE_EXTENSION} file someone sent you. Nothing is uploaded.
+            </p>
+          )}
+
+          {status.kind === 'locked' && (
+            <form onSubmit={handleUnlock} className="space-y-3">
+              <label htmlFor="share-bundle-unlock" className="block text-sm text-gray-600">
+                This analysis is encrypted. Enter the passphrase you were given.
+              </label>
+              <input
+                id="share-bundle-unlock"
+                type="password"
+                autoComplete="off"
+                autoFocus
+                value={passphrase}
+                onChange={e => setPassphrase(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded text-sm"
+              />
+              {status.message && <p role="alert" className="text-sm text-red-600">{status.message}</p>}
+              <button
+                type="submit"
+                disabled={!passphrase}
+                className="block w-full px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 transition-colors disabled:opacity-50"
+              >
+                Unlock
+              </button>
+            </form>
+          )}
+
+          {status.kind !== 'locked' && filePicker}
+
+          <Link to="/plot" className="block text-center text-sm text-blue-600 hover:underline">
+            Go to PLoT Workspace
+          </Link>
+        </div>
+      </div>
+    )
+  }
+
+  const { content, encrypted } = status
+  const labelOf = new Map(content.graph.nodes.map(n => [n.id, sanitizeLabel(n.data?.label ?? n.id)]))
+  const framing = content.framing
+  const report = content.report
+  const units = report?.results.units ?? 'percent'
+  const drivers = report?.drivers.length
+    ? report.drivers.map(d => ({ label: sanitizeLabel(d.label), detail: `${d.polarity} • ${d.strength}` }))
+    : content.drivers.map(d => ({ label: labelOf.get(d.id) ?? sanitizeLabel(d.id), detail: d.kind }))
+
+  return (
+    <div className="min-h-screen bg-gray-50" data-testid="share-bundle-view">
+      <header className="bg-white border-b border-gray-200 px-4 py-4">
+        <div className="max-w-6xl mx-auto flex items-center justify-between">
+          <div>
+            <h1 className="text-xl font-semibold text-gray-900">
+              {sanitizeLabel(content.title || framing?.title || 'Shared Analysis')}
+            </h1>
+            <p className="text-sm text-gray-500 mt-1">
+              Shared {new Date(content.createdAt).toLocaleString()} • Seed: {content.seed ?? 'N/A'}
+              {encrypted && <span className="ml-2 text-xs px-2 py-0.5 rounded bg-green-100 text-green-700">Encrypted</span>}
+            </p>
+          </div>
+          <Link
+            to="/plot"
+            className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 transition-colors text-sm font-medium"
+          >
+            Open in Workspace
+          </Link>
+        </div>
+      </header>
+
+      <main className="max-w-6xl mx-auto p-4 space-y-6">
+        {framing && FRAMING_FIELDS.some(([key]) => framing[key]) && (
+          <section className="bg-white rounded-lg shadow p-6">
+            <h2 className="text-lg font-semibold text-gray-900 mb-4">Framing</h2>
+            <dl className="grid grid-cols-1 sm:grid-cols-2 gap-4 text-sm">
+              {FRAMING_FIELDS.filter(([key]) => framing[key]).map(([key, label]) => (
+                <div key={key}>
+                  <dt className="font-medium text-gray-700">{label}</dt>
+                  <dd className="text-gray-600 mt-1 whitespace-pre-line">{framing[key]}</dd>
+                </div>
+              ))}
+            </dl>
+          </section>
+        )}
+
+        {report && (
+          <section className="bg-white rounded-lg shadow p-6">
+            <h2 className="text-lg font-semibold text-gray-900 mb-4">Results</h2>
+            <div className="grid grid-cols-3 gap-4 text-sm">
+              {([
+                ['Conservative', report.results.conservative],
+                ['Likely', report.results.likely],
+                ['Optimistic', report.results.optimistic],
+              ] as const).map(([label, value]) => (
+                <div key={label}>
+                  <div className="font-medium text-gray-700">{label}</div>
+                  <div className="text-lg text-gray-900 mt-1">
+                    {formatOutcomeValue(value, units, report.results.unitSymbol)}
+                  </div>
+                </div>
+              ))}
+            </div>
+            <p className="text-sm text-gray-600 mt-4">
+              <span className="font-medium">Confidence:</span> {report.confidence.level} — {report.confidence.why}
+            </p>
+          </section>
+        )}
+
+        {drivers.length > 0 && (
+          <section className="bg-white rounded-lg shadow p-6">
+            <h2 className="text-lg font-semibold text-gray-900 mb-4">Drivers</h2>
+            <div className="space-y-3">
+              {drivers.map((driver, idx) => (
+                <div key={idx} className="p-3 bg-gray-50 rounded">
+                  <div className="font-medium text-gray-900">{driver.label}</div>
+                  <div className="text-sm text-gray-600 mt-1">{driver.detail}</div>
+                </div>
+              ))}
+            </div>
+          </section>
+        )}
+
+        <section className="bg-white rounded-lg shadow p-6">
+          <h2 className="text-lg font-semibold text-gray-900 mb-4">Graph</h2>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-6 text-sm">
+            <div>
+              <h3 className="font-semibold text-gray-700 mb-2">Nodes ({content.graph.nodes.length})</h3>
+              <ul className="space-y-1">
+                {content.graph.nodes.map(node => (
+                  <li key={node.id} className="text-gray-600">
+                    • {labelOf.get(node.id)}
+                    {node.type && <span className="text-gray-400"> ({sanitizeLabel(node.type)})</span>}
+                  </li>
+                ))}
+              </ul>
+            </div>
+            <div>
+              <h3 className="font-semibold text-gray-700 mb-2">Edges ({content.graph.edges.length})</h3>
+              <ul className="space-y-1">
+                {content.graph.edges.map(edge => (
+                  <li key={edge.id} className="text-gray-600">
+                    • {labelOf.get(edge.source) ?? sanitizeLabel(edge.source)} → {labelOf.get(edge.target) ?? sanitizeLabel(edge.target)}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          </div>
+        </section>
+
+        <div className="text-center text-sm text-gray-500 py-4">
+          This is a read-only copy of a shared analysis. To edit or run new analyses,{' '}
+          <Link to="/plot" className="text-blue-600 hover:underline">
+            open the PLoT Workspace
+          </Link>
+          .
+        </div>
+      </main>
+    </div>
+  )
+}
+
+export default function ShareView() {
+  const { hash } = useParams<{ hash: string }>()
+  return hash ? <HashShareView /> : <BundleShareView />
+}
@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest'
+import '@testing-library/jest-dom/vitest'
+import { render, screen, fireEvent } from '@testing-library/react'
+import { MemoryRouter, Routes, Route } from 'react-router-dom'
+import ShareView from '../ShareView'
+import { collectShareBundle, encodeShareBundle } from '../../canvas/share/bundle'
+
+function bundle(passphrase?: string) {
+  return encodeShareBundle(
+    collectShareBundle({
+      nodes: [
+        { id: 'n1', type: 'factor', position: { x: 0, y: 0 }, data: { label: 'Price' } },
+        { id: 'n2', type: 'outcome', position: { x: 200, y: 0 }, data: { label: 'Revenue' } },
+      ],
+      edges: [{ id: 'e1', source: 'n1', target: 'n2' }],
+      framing: { title: 'Raise prices?', goal: 'Grow revenue' },
+      results: { drivers: [{ kind: 'node', id: 'n1' }] },
+    }),
+    passphrase
+  )
+}
+
+function renderAt(path: string) {
+  return render(
+    <MemoryRouter initialEntries={[path]} future={{ v7_startTransition: true, v7_relativeSplatPath: true }}>
+      <Routes>
+        <Route path="/share" element={<ShareView />} />
+        <Route path="/share/:hash" element={<ShareView />} />
+      </Routes>
+    </MemoryRouter>
+  )
+}
+
+describe('ShareView bundles', () => {
+  it('renders a bundle from the link read-only', async () => {
+    renderAt(`/share?bundle=${await bundle()}`)
+
+    expect(await screen.findByTestId('share-bundle-view')).toBeInTheDocument()
+    expect(screen.getByRole('heading', { level: 1 })).toHaveTextContent('Raise prices?')
+    expect(screen.getByText('Grow revenue')).toBeInTheDocument()
+    expect(screen.getByText(/Price → Revenue/)).toBeInTheDocument()
+  })
+
+  it('asks for the passphrase and unlocks an encrypted bundle', async () => {
+    renderAt(`/share?bundle=${await bundle('open sesame')}`)
+
+    const input = await screen.findByLabelText(/encrypted/i)
+    fireEvent.change(input, { target: { value: 'wrong' } })
+    fireEvent.click(screen.getByRole('button', { name: 'Unlock' }))
+    expect(await screen.findByText('That passphrase does not open this share bundle.')).toBeInTheDocument()
+
+    fireEvent.change(screen.getByLabelText(/encrypted/i), { target: { value: 'open sesame' } })
+    fireEvent.click(screen.getByRole('button', { name: 'Unlock' }))
+    expect(await screen.findByTestId('share-bundle-view')).toBeInTheDocument()
+  })
+
+  it('explains tampered and too-new bundles', async () => {
+    const [prefix, version, mode, hash, body] = (await bundle()).split('.')
+    const { unmount } = renderAt(`/share?bundle=${[prefix, version, mode, hash, body.slice(0, -3)].join('.')}`)
+    expect(await screen.findByTestId('share-bundle-error')).toHaveTextContent(/changed or damaged/)
+    unmount()
+
+    renderAt(`/share?bundle=${[prefix, '9', mode, hash, body].join('.')}`)
+    expect(await screen.findByTestId('share-bundle-error')).toHaveTextContent(/newer version/)
+  })
+})
@@ -237,6 +237,53 @@ export interface Database {
           created_at?: string
         }
       }
+      canvas_scenarios: {
+        Row: {
+          id: string
+          user_id: string
+          team_id: string | null
+          decision_id: string | null
+          name: string
+          graph: Json
+          framing: Json | null
+          details: Json
+          field_updated_at: Json
+          revision: number
+          created_at: string
+          updated_at: string
+          deleted_at: string | null
+        }
+        Insert: {
+          id: string
+          user_id?: string
+          team_id?: string | null
+          decision_id?: string | null
+          name: string
+          graph?: Json
+          framing?: Json | null
+          details?: Json
+          field_updated_at?: Json
+          revision?: number
+          created_at?: string
+          updated_at?: string
+          deleted_at?: string | null
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          team_id?: string | null
+          decision_id?: string | null
+          name?: string
+          graph?: Json
+          framing?: Json | null
+          details?: Json
+          field_updated_at?: Json
+          revision?: number
+          created_at?: string
+          updated_at?: string
+          deleted_at?: string | null
+        }
+      }
     }
     Functions: {
       is_decision_owner: {
@@ -271,9 +318,10 @@ type DecisionCollaborator = Tables<'decision_collaborators'>
 type DecisionComment = Tables<'decision_comments'>
 type DecisionSuggestion = Tables<'decision_suggestions'>
 type DecisionActivity = Tables<'decision_activities'>
+export type CanvasScenarioRow = Tables<'canvas_scenarios'>
 
 // Enum types
 type CollaboratorRole = Enums<'collaborator_role'>
 type CollaboratorStatus = Enums<'collaborator_status'> 
 type SuggestionType = Enums<'suggestion_type'>
-type SuggestionStatus = Enums<'suggestion_status'>
\ No newline at end of file
+type SuggestionStatus = Enums<'suggestion_status'>
@@ -2,3 +2,8 @@
 
 // Build ID injected by Vite define
 declare const __BUILD_ID__: string
+
+interface ImportMetaEnv {
+  readonly VITE_CEE_BFF_BASE?: string
+  readonly VITE_ISL_BFF_BASE?: string
+}
@@ -0,0 +1,85 @@
+/*
+  # Canvas scenario cloud sync
+
+  1. New Tables
+    - `canvas_scenarios`: mirror of the canvas scenarios kept in each browser
+      - `id` is the client-generated scenario id, so offline-created scenarios keep their id
+      - `graph`, `framing`, `details` hold the scenario body as jsonb
+      - `field_updated_at` holds per-field edit times (ms) for last-writer-wins merges
+      - `revision` increases on every write; clients update with `revision = expected`
+        so concurrent writers are detected instead of overwritten
+      - `deleted_at` is a soft delete so other devices learn about deletions
+      - `team_id` shares the scenario with a team, `decision_id` attaches it to a decision
+
+  2. Security
+    - Enable RLS
+    - Owners and members of the scenario's team can read and update it
+    - Only the owner can hard-delete (sync itself only soft-deletes)
+    - A scenario can only be attached to a decision the caller owns or collaborates on
+*/
+
+CREATE TABLE IF NOT EXISTS public.canvas_scenarios (
+  id               text PRIMARY KEY,
+  user_id          uuid NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+  team_id          uuid REFERENCES teams(id) ON DELETE SET NULL,
+  decision_id      uuid REFERENCES public.decisions(id) ON DELETE SET NULL,
+  name             text NOT NULL,
+  graph            jsonb NOT NULL DEFAULT '{"nodes": [], "edges": []}'::jsonb,
+  framing          jsonb,
+  details          jsonb NOT NULL DEFAULT '{}'::jsonb,
+  field_updated_at jsonb NOT NULL DEFAULT '{}'::jsonb,
+  revision         integer NOT NULL DEFAULT 1 CHECK (revision > 0),
+  created_at       timestamptz NOT NULL DEFAULT now(),
+  updated_at       timestamptz NOT NULL DEFAULT now(),
+  deleted_at       timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS idx_canvas_scenarios_user_id ON public.canvas_scenarios(user_id);
+CREATE INDEX IF NOT EXISTS idx_canvas_scenarios_team_id ON public.canvas_scenarios(team_id);
+CREATE INDEX IF NOT EXISTS idx_canvas_scenarios_decision_id ON public.canvas_scenarios(decision_id);
+
+DROP TRIGGER IF EXISTS update_canvas_scenarios_updated_at ON public.canvas_scenarios;
+CREATE TRIGGER update_canvas_scenarios_updated_at
+  BEFORE UPDATE ON public.canvas_scenarios
+  FOR EACH ROW
+  EXECUTE PROCEDURE update_updated_at_column();
+
+ALTER TABLE public.canvas_scenarios ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS canvas_scenarios_select ON public.canvas_scenarios;
+DROP POLICY IF EXISTS canvas_scenarios_insert ON public.canvas_scenarios;
+DROP POLICY IF EXISTS canvas_scenarios_update ON public.canvas_scenarios;
+DROP POLICY IF EXISTS canvas_scenarios_delete ON public.canvas_scenarios;
+
+CREATE POLICY canvas_scenarios_select ON public.canvas_scenarios
+  FOR SELECT USING (
+    user_id = auth.uid()
+    OR (team_id IS NOT NULL AND check_team_member_access(team_id))
+  );
+
+CREATE POLICY canvas_scenarios_insert ON public.canvas_scenarios
+  FOR INSERT WITH CHECK (
+    user_id = auth.uid()
+    AND (team_id IS NULL OR check_team_member_access(team_id))
+    AND (
+      decision_id IS NULL
+      OR public.is_decision_owner(decision_id)
+      OR public.is_decision_collaborator(decision_id)
+    )
+  );
+
+CREATE POLICY canvas_scenarios_update ON public.canvas_scenarios
+  FOR UPDATE USING (
+    user_id = auth.uid()
+    OR (team_id IS NOT NULL AND check_team_member_access(team_id))
+  ) WITH CHECK (
+    (user_id = auth.uid() OR (team_id IS NOT NULL AND check_team_member_access(team_id)))
+    AND (
+      decision_id IS NULL
+      OR public.is_decision_owner(decision_id)
+      OR public.is_decision_collaborator(decision_id)
+    )
+  );
+
+CREATE POLICY canvas_scenarios_delete ON public.canvas_scenarios
+  FOR DELETE USING (user_id = auth.uid());
@@ -0,0 +1,154 @@
+#!/usr/bin/env node
+// tools/collab-relay.mjs
+// Minimal Yjs relay for canvas co-editing (y-websocket protocol: sync + awareness).
+// Text frames are relayed as-is to the rest of the room (presenter mode joins
+// presenter/<room> and sends JSON). Rooms live in memory for the life of the
+// process; nothing is written to disk.
+//
+// Usage: node tools/collab-relay.mjs [--port 1234]   (or COLLAB_PORT=1234)
+// Client: VITE_FEATURE_COLLAB=1 VITE_COLLAB_URL=ws://localhost:1234, open #/canvas?room=<id>
+
+import { WebSocketServer } from 'ws';
+import { pathToFileURL } from 'url';
+import * as Y from 'yjs';
+import * as syncProtocol from 'y-protocols/sync';
+import * as awarenessProtocol from 'y-protocols/awareness';
+import * as encoding from 'lib0/encoding';
+import * as decoding from 'lib0/decoding';
+
+const MESSAGE_SYNC = 0;
+const MESSAGE_AWARENESS = 1;
+const MESSAGE_QUERY_AWARENESS = 3;
+const PING_INTERVAL_MS = 30000;
+
+function send(conn, message) {
+  if (conn.readyState !== conn.OPEN) return;
+  try {
+    conn.send(message);
+  } catch {
+    conn.close();
+  }
+}
+
+function awarenessMessage(awareness, clients) {
+  const encoder = encoding.createEncoder();
+  encoding.writeVarUint(encoder, MESSAGE_AWARENESS);
+  encoding.writeVarUint8Array(encoder, awarenessProtocol.encodeAwarenessUpdate(awareness, clients));
+  return encoding.toUint8Array(encoder);
+}
+
+function createRoom() {
+  const doc = new Y.Doc();
+  const awareness = new awarenessProtocol.Awareness(doc);
+  awareness.setLocalState(null);
+  // conn -> awareness client ids it controls (removed when it disconnects)
+  const conns = new Map();
+
+  doc.on('update', (update) => {
+    const encoder = encoding.createEncoder();
+    encoding.writeVarUint(encoder, MESSAGE_SYNC);
+    syncProtocol.writeUpdate(encoder, update);
+    const message = encoding.toUint8Array(encoder);
+    conns.forEach((_, conn) => send(conn, message));
+  });
+
+  awareness.on('update', ({ added, updated, removed }, origin) => {
+    const changed = [...added, ...updated, ...removed];
+    const controlled = conns.get(origin);
+    if (controlled) {
+      added.forEach((id) => controlled.add(id));
+      removed.forEach((id) => controlled.delete(id));
+    }
+    const message = awarenessMessage(awareness, changed);
+    conns.forEach((_, conn) => send(conn, message));
+  });
+
+  return { doc, awareness, conns };
+}
+
+/**
+ * Start a relay. Resolves once listening; `close()` stops it and drops all rooms.
+ */
+export function startRelay({ port = 1234, host = '127.0.0.1' } = {}) {
+  const rooms = new Map();
+  const wss = new WebSocketServer({ port, host });
+
+  wss.on('connection', (conn, req) => {
+    const name = decodeURIComponent((req.url || '/').slice(1).split('?')[0]) || 'default';
+    if (!rooms.has(name)) rooms.set(name, createRoom());
+    const room = rooms.get(name);
+    room.conns.set(conn, new Set());
+
+    let alive = true;
+    conn.on('pong', () => { alive = true; });
+    const ping = setInterval(() => {
+      if (!alive) return conn.terminate();
+      alive = false;
+      conn.ping();
+    }, PING_INTERVAL_MS);
+
+    conn.on('message', (data, isBinary) => {
+      // Text frames are presenter-mode JSON: pass them to everyone else in the room
+      if (!isBinary) {
+        const text = data.toString();
+        room.conns.forEach((_, other) => other !== conn && send(other, text));
+        return;
+      }
+      const decoder = decoding.createDecoder(new Uint8Array(data));
+      const type = decoding.readVarUint(decoder);
+      if (type === MESSAGE_SYNC) {
+        const encoder = encoding.createEncoder();
+        encoding.writeVarUint(encoder, MESSAGE_SYNC);
+        syncProtocol.readSyncMessage(decoder, encoder, room.doc, conn);
+        if (encoding.length(encoder) > 1) send(conn, encoding.toUint8Array(encoder));
+      } else if (type === MESSAGE_AWARENESS) {
+        awarenessProtocol.applyAwarenessUpdate(room.awareness, decoding.readVarUint8Array(decoder), conn);
+      } else if (type === MESSAGE_QUERY_AWARENESS) {
+        send(conn, awarenessMessage(room.awareness, [...room.awareness.getStates().keys()]));
+      }
+    });
+
+    conn.on('close', () => {
+      clearInterval(ping);
+      const controlled = room.conns.get(conn);
+      room.conns.delete(conn);
+      if (controlled && controlled.size > 0) {
+        awarenessProtocol.removeAwarenessStates(room.awareness, [...controlled], null);
+      }
+    });
+
+    // Open with our state vector so the client sends what we're missing, then current presence
+    const encoder = encoding.createEncoder();
+    encoding.writeVarUint(encoder, MESSAGE_SYNC);
+    syncProtocol.writeSyncStep1(encoder, room.doc);
+    send(conn, encoding.toUint8Array(encoder));
+    const peers = [...room.awareness.getStates().keys()];
+    if (peers.length > 0) send(conn, awarenessMessage(room.awareness, peers));
+  });
+
+  return new Promise((resolve, reject) => {
+    wss.once('error', reject);
+    wss.once('listening', () => {
+      resolve({
+        port: wss.address().port,
+        close: () => new Promise((done) => {
+          wss.clients.forEach((client) => client.terminate());
+          wss.close(() => done());
+        }),
+      });
+    });
+  });
+}
+
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const flag = process.argv.indexOf('--port');
+  const port = Number(flag !== -1 ? process.argv[flag + 1] : process.env.COLLAB_PORT || 1234);
+  const relay = await startRelay({ port });
+  console.log(`[collab-relay] listening on ws://127.0.0.1:${relay.port}`);
+  const stop = async () => {
+    await relay.close();
+    process.exit(0);
+  };
+  process.on('SIGINT', stop);
+  process.on('SIGTERM', stop);
+}